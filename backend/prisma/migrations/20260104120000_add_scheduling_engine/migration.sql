@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "SchedulingEngine" AS ENUM ('ai', 'solver');
+
+-- AlterTable
+ALTER TABLE "organization_settings" ADD COLUMN "scheduling_engine" "SchedulingEngine" NOT NULL DEFAULT 'ai';
@@ -0,0 +1,40 @@
+-- Normalize stored rule_logic to rule schema catalog v1 (see src/services/ruleSchemas.ts)
+
+-- Drop flags that never had any effect
+UPDATE "rules"
+SET "rule_logic" = "rule_logic" - 'enforcePreference' - 'strictMatch' - 'enforceExact' - 'lookbackWeeks'
+WHERE "rule_logic" ?| ARRAY['enforcePreference', 'strictMatch', 'enforceExact', 'lookbackWeeks'];
+
+-- staffId -> therapistId
+UPDATE "rules"
+SET "rule_logic" = ("rule_logic" - 'staffId') || jsonb_build_object('therapistId', "rule_logic"->'staffId')
+WHERE "rule_logic" ? 'staffId' AND NOT "rule_logic" ? 'therapistId';
+
+-- gender_pairing: therapistGender -> preferredTherapistGender, drop the legacy gender_match type
+UPDATE "rules"
+SET "rule_logic" = ("rule_logic" - 'therapistGender') || jsonb_build_object('preferredTherapistGender', "rule_logic"->'therapistGender')
+WHERE "category" = 'gender_pairing' AND "rule_logic" ? 'therapistGender' AND NOT "rule_logic" ? 'preferredTherapistGender';
+
+UPDATE "rules"
+SET "rule_logic" = "rule_logic" - 'type'
+WHERE "category" = 'gender_pairing' AND "rule_logic"->>'type' = 'gender_match';
+
+-- certification: preferCertification -> preferCertifications list, drop the legacy require_certification type
+UPDATE "rules"
+SET "rule_logic" = ("rule_logic" - 'preferCertification') || jsonb_build_object(
+  'preferCertifications',
+  CASE jsonb_typeof("rule_logic"->'preferCertification')
+    WHEN 'array' THEN "rule_logic"->'preferCertification'
+    ELSE jsonb_build_array("rule_logic"->'preferCertification')
+  END
+)
+WHERE "category" = 'certification' AND "rule_logic" ? 'preferCertification' AND NOT "rule_logic" ? 'preferCertifications';
+
+UPDATE "rules"
+SET "rule_logic" = "rule_logic" - 'type'
+WHERE "category" = 'certification' AND "rule_logic"->>'type' = 'require_certification';
+
+-- availability: a single dayOfWeek becomes a list
+UPDATE "rules"
+SET "rule_logic" = jsonb_set("rule_logic", '{dayOfWeek}', jsonb_build_array(lower("rule_logic"->>'dayOfWeek')))
+WHERE "category" = 'availability' AND jsonb_typeof("rule_logic"->'dayOfWeek') = 'string';
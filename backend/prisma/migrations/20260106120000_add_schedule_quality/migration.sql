@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "schedules" ADD COLUMN "quality_score" INTEGER,
+ADD COLUMN "quality_breakdown" JSONB;
+
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN "explanation" JSONB;
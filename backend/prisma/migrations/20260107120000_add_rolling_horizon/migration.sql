@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "organization_settings" ADD COLUMN "rolling_horizon_weeks" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "organization_settings" ADD COLUMN "continuity_weight" INTEGER NOT NULL DEFAULT 50;
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "GenerationJobStatus" AS ENUM ('queued', 'running', 'validating', 'done', 'failed', 'cancelled');
+
+-- CreateTable
+CREATE TABLE "schedule_generation_jobs" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "created_by" TEXT NOT NULL,
+    "week_start_date" TIMESTAMP(3) NOT NULL,
+    "engine" "SchedulingEngine",
+    "status" "GenerationJobStatus" NOT NULL DEFAULT 'queued',
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "message" TEXT,
+    "schedule_id" TEXT,
+    "result" JSONB,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "started_at" TIMESTAMP(3),
+    "finished_at" TIMESTAMP(3),
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "schedule_generation_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "schedule_generation_jobs_organization_id_created_at_idx" ON "schedule_generation_jobs"("organization_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "schedule_generation_jobs" ADD CONSTRAINT "schedule_generation_jobs_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "schedule_generation_jobs" ADD CONSTRAINT "schedule_generation_jobs_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "schedule_generation_jobs" ADD CONSTRAINT "schedule_generation_jobs_schedule_id_fkey" FOREIGN KEY ("schedule_id") REFERENCES "schedules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
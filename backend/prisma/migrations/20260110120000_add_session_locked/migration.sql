@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN "locked" BOOLEAN NOT NULL DEFAULT false;
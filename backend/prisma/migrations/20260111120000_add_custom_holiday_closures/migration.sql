@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "custom_holidays" ADD COLUMN     "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "end_time" VARCHAR(5),
+ADD COLUMN     "recurring" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "start_time" VARCHAR(5),
+ADD COLUMN     "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "custom_holidays_organization_id_date_idx" ON "custom_holidays"("organization_id", "date");
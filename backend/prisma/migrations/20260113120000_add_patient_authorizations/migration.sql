@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "AuthorizationPeriod" AS ENUM ('week', 'month', 'total');
+
+-- CreateTable
+CREATE TABLE "patient_authorizations" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "patient_id" TEXT NOT NULL,
+    "session_spec_id" TEXT,
+    "payer" VARCHAR(100) NOT NULL,
+    "auth_number" VARCHAR(50) NOT NULL,
+    "approved_units" INTEGER NOT NULL,
+    "unit_minutes" INTEGER NOT NULL DEFAULT 15,
+    "period" "AuthorizationPeriod" NOT NULL DEFAULT 'total',
+    "start_date" DATE NOT NULL,
+    "end_date" DATE NOT NULL,
+    "notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "patient_authorizations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "authorization_usage" (
+    "id" TEXT NOT NULL,
+    "authorization_id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "units" INTEGER NOT NULL,
+    "date" DATE NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "authorization_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "patient_authorizations_organization_id_end_date_idx" ON "patient_authorizations"("organization_id", "end_date");
+
+-- CreateIndex
+CREATE INDEX "patient_authorizations_patient_id_idx" ON "patient_authorizations"("patient_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "authorization_usage_session_id_key" ON "authorization_usage"("session_id");
+
+-- CreateIndex
+CREATE INDEX "authorization_usage_authorization_id_date_idx" ON "authorization_usage"("authorization_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "patient_authorizations" ADD CONSTRAINT "patient_authorizations_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "patient_authorizations" ADD CONSTRAINT "patient_authorizations_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "patient_authorizations" ADD CONSTRAINT "patient_authorizations_session_spec_id_fkey" FOREIGN KEY ("session_spec_id") REFERENCES "patient_session_specs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "authorization_usage" ADD CONSTRAINT "authorization_usage_authorization_id_fkey" FOREIGN KEY ("authorization_id") REFERENCES "patient_authorizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "patient_session_specs" ADD COLUMN "group_size" INTEGER;
+
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN "capacity" INTEGER;
+
+-- CreateTable
+CREATE TABLE "session_participants" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "patient_id" TEXT NOT NULL,
+    "session_spec_id" TEXT,
+    "status" "SessionStatus" NOT NULL DEFAULT 'scheduled',
+    "status_updated_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "session_participants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "session_participants_patient_id_idx" ON "session_participants"("patient_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "session_participants_session_id_patient_id_key" ON "session_participants"("session_id", "patient_id");
+
+-- DropIndex
+DROP INDEX "authorization_usage_session_id_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "authorization_usage_session_id_authorization_id_key" ON "authorization_usage"("session_id", "authorization_id");
+
+-- AddForeignKey
+ALTER TABLE "session_participants" ADD CONSTRAINT "session_participants_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_participants" ADD CONSTRAINT "session_participants_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_participants" ADD CONSTRAINT "session_participants_session_spec_id_fkey" FOREIGN KEY ("session_spec_id") REFERENCES "patient_session_specs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
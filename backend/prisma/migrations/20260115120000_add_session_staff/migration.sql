@@ -0,0 +1,28 @@
+-- AlterEnum
+ALTER TYPE "RuleCategory" ADD VALUE 'supervision';
+
+-- CreateEnum
+CREATE TYPE "SessionStaffRole" AS ENUM ('supervisor', 'co_treater');
+
+-- CreateTable
+CREATE TABLE "session_staff" (
+    "id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "staff_id" TEXT NOT NULL,
+    "role" "SessionStaffRole" NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "session_staff_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "session_staff_staff_id_idx" ON "session_staff"("staff_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "session_staff_session_id_staff_id_key" ON "session_staff"("session_id", "staff_id");
+
+-- AddForeignKey
+ALTER TABLE "session_staff" ADD CONSTRAINT "session_staff_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_staff" ADD CONSTRAINT "session_staff_staff_id_fkey" FOREIGN KEY ("staff_id") REFERENCES "staff"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "schedule_snapshots" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "schedule_id" TEXT,
+    "week_start_date" TIMESTAMP(3) NOT NULL,
+    "version" INTEGER NOT NULL,
+    "sessions" JSONB NOT NULL,
+    "published_by_id" TEXT,
+    "published_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "schedule_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "schedule_snapshots_organization_id_week_start_date_idx" ON "schedule_snapshots"("organization_id", "week_start_date");
+
+-- AddForeignKey
+ALTER TABLE "schedule_snapshots" ADD CONSTRAINT "schedule_snapshots_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "schedule_snapshots" ADD CONSTRAINT "schedule_snapshots_schedule_id_fkey" FOREIGN KEY ("schedule_id") REFERENCES "schedules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
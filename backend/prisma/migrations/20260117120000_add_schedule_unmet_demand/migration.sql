@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "schedules" ADD COLUMN "unmet_demand" JSONB;
@@ -0,0 +1,79 @@
+-- CreateEnum
+CREATE TYPE "WaitlistStatus" AS ENUM ('waiting', 'offered', 'booked', 'cancelled');
+
+-- CreateEnum
+CREATE TYPE "WaitlistOfferStatus" AS ENUM ('pending', 'claimed', 'declined', 'expired', 'cancelled');
+
+-- CreateTable
+CREATE TABLE "waitlist_entries" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "patient_id" TEXT NOT NULL,
+    "session_spec_id" TEXT,
+    "days" JSONB NOT NULL DEFAULT '[]',
+    "earliest_time" VARCHAR(5),
+    "latest_time" VARCHAR(5),
+    "staff_id" TEXT,
+    "required_certifications" JSONB NOT NULL DEFAULT '[]',
+    "duration_minutes" INTEGER,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "notes" TEXT,
+    "status" "WaitlistStatus" NOT NULL DEFAULT 'waiting',
+    "created_by_user_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "waitlist_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "waitlist_offers" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "entry_id" TEXT NOT NULL,
+    "hold_id" TEXT NOT NULL,
+    "contact_id" TEXT NOT NULL,
+    "source_session_id" TEXT,
+    "staff_id" TEXT NOT NULL,
+    "room_id" TEXT,
+    "date" TIMESTAMP(3) NOT NULL,
+    "start_time" VARCHAR(5) NOT NULL,
+    "end_time" VARCHAR(5) NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "status" "WaitlistOfferStatus" NOT NULL DEFAULT 'pending',
+    "responded_at" TIMESTAMP(3),
+    "session_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "waitlist_offers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_organization_id_status_idx" ON "waitlist_entries"("organization_id", "status");
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_patient_id_idx" ON "waitlist_entries"("patient_id");
+
+-- CreateIndex
+CREATE INDEX "waitlist_offers_entry_id_idx" ON "waitlist_offers"("entry_id");
+
+-- CreateIndex
+CREATE INDEX "waitlist_offers_status_expires_at_idx" ON "waitlist_offers"("status", "expires_at");
+
+-- CreateIndex
+CREATE INDEX "waitlist_offers_source_session_id_idx" ON "waitlist_offers"("source_session_id");
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_session_spec_id_fkey" FOREIGN KEY ("session_spec_id") REFERENCES "patient_session_specs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_staff_id_fkey" FOREIGN KEY ("staff_id") REFERENCES "staff"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_offers" ADD CONSTRAINT "waitlist_offers_entry_id_fkey" FOREIGN KEY ("entry_id") REFERENCES "waitlist_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "SeriesStatus" AS ENUM ('active', 'ended', 'cancelled');
+
+-- AlterTable
+ALTER TABLE "sessions" ADD COLUMN "series_id" TEXT,
+ADD COLUMN "series_occurrence_date" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "appointment_series" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "patient_id" TEXT NOT NULL,
+    "staff_id" TEXT NOT NULL,
+    "room_id" TEXT,
+    "session_spec_id" TEXT,
+    "rrule" TEXT NOT NULL,
+    "start_date" TIMESTAMP(3) NOT NULL,
+    "start_time" VARCHAR(5) NOT NULL,
+    "end_time" VARCHAR(5) NOT NULL,
+    "notes" TEXT,
+    "status" "SeriesStatus" NOT NULL DEFAULT 'active',
+    "materialized_through" TIMESTAMP(3),
+    "split_from_id" TEXT,
+    "created_by_user_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "appointment_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sessions_series_id_idx" ON "sessions"("series_id");
+
+-- CreateIndex
+CREATE INDEX "appointment_series_organization_id_status_idx" ON "appointment_series"("organization_id", "status");
+
+-- CreateIndex
+CREATE INDEX "appointment_series_patient_id_idx" ON "appointment_series"("patient_id");
+
+-- AddForeignKey
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_series_id_fkey" FOREIGN KEY ("series_id") REFERENCES "appointment_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_organization_id_fkey" FOREIGN KEY ("organization_id") REFERENCES "organizations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_staff_id_fkey" FOREIGN KEY ("staff_id") REFERENCES "staff"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_room_id_fkey" FOREIGN KEY ("room_id") REFERENCES "rooms"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_session_spec_id_fkey" FOREIGN KEY ("session_spec_id") REFERENCES "patient_session_specs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "ReminderChannel" AS ENUM ('email', 'sms');
+
+-- CreateEnum
+CREATE TYPE "ReminderStatus" AS ENUM ('sending', 'sent', 'failed');
+
+-- CreateTable
+CREATE TABLE "session_reminders" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT NOT NULL,
+    "session_id" TEXT NOT NULL,
+    "contact_id" TEXT NOT NULL,
+    "channel" "ReminderChannel" NOT NULL,
+    "hours_before" INTEGER NOT NULL,
+    "recipient" VARCHAR(255) NOT NULL,
+    "status" "ReminderStatus" NOT NULL DEFAULT 'sending',
+    "error" TEXT,
+    "sent_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "session_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "session_reminders_session_id_contact_id_channel_hours_before_key" ON "session_reminders"("session_id", "contact_id", "channel", "hours_before");
+
+-- CreateIndex
+CREATE INDEX "session_reminders_organization_id_created_at_idx" ON "session_reminders"("organization_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "session_reminders" ADD CONSTRAINT "session_reminders_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
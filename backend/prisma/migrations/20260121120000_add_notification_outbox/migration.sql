@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "NotificationChannel" AS ENUM ('email', 'sms');
+
+-- CreateEnum
+CREATE TYPE "NotificationStatus" AS ENUM ('queued', 'sent', 'failed', 'bounced');
+
+-- CreateTable
+CREATE TABLE "notifications" (
+    "id" TEXT NOT NULL,
+    "organization_id" TEXT,
+    "channel" "NotificationChannel" NOT NULL,
+    "kind" VARCHAR(50) NOT NULL,
+    "recipients" TEXT[],
+    "subject" VARCHAR(500),
+    "text_body" TEXT,
+    "html_body" TEXT,
+    "sensitive" BOOLEAN NOT NULL DEFAULT false,
+    "status" "NotificationStatus" NOT NULL DEFAULT 'queued',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_error" TEXT,
+    "provider_message_id" VARCHAR(255),
+    "sent_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "notifications_status_next_attempt_at_idx" ON "notifications"("status", "next_attempt_at");
+
+-- CreateIndex
+CREATE INDEX "notifications_organization_id_status_idx" ON "notifications"("organization_id", "status");
+
+-- CreateIndex
+CREATE INDEX "notifications_provider_message_id_idx" ON "notifications"("provider_message_id");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "organization_settings" ADD COLUMN     "sms_sender_id" VARCHAR(20),
+ADD COLUMN     "sms_country_code" VARCHAR(3) NOT NULL DEFAULT '1';
+
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "delivered_at" TIMESTAMP(3);
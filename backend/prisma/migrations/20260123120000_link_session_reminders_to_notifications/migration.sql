@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "ReminderStatus" ADD VALUE 'queued';
+
+-- AlterTable
+ALTER TABLE "session_reminders" ADD COLUMN     "notification_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "session_reminders_notification_id_key" ON "session_reminders"("notification_id");
+
+-- AddForeignKey
+ALTER TABLE "session_reminders" ADD CONSTRAINT "session_reminders_notification_id_fkey" FOREIGN KEY ("notification_id") REFERENCES "notifications"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "organization_settings" ADD COLUMN "close_on_federal_holidays" BOOLEAN NOT NULL DEFAULT true;
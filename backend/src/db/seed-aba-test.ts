@@ -207,13 +207,13 @@ async function seedAbaTestOrg() {
     {
       category: 'gender_pairing' as const,
       description: 'Female clients with female gender preference must be paired with female therapists',
-      ruleLogic: { patientGender: 'female', preferredTherapistGender: 'female', priority: 'required', enforcePreference: true },
+      ruleLogic: { patientGender: 'female', preferredTherapistGender: 'female', priority: 'required' },
       priority: 1
     },
     {
       category: 'gender_pairing' as const,
       description: 'Male clients with male gender preference should be paired with male therapists when possible',
-      ruleLogic: { patientGender: 'male', preferredTherapistGender: 'male', priority: 'preferred', enforcePreference: true },
+      ruleLogic: { patientGender: 'male', preferredTherapistGender: 'male', priority: 'preferred' },
       priority: 2
     },
     {
@@ -227,25 +227,25 @@ async function seedAbaTestOrg() {
     {
       category: 'certification' as const,
       description: 'Therapists must have all required certifications for each client',
-      ruleLogic: { enforceRequired: true, strictMatch: true },
+      ruleLogic: { enforceRequired: true },
       priority: 1
     },
     {
       category: 'certification' as const,
       description: 'BCBA-level clients require BCBA or BCBA-D certified therapists only',
-      ruleLogic: { patientRequires: ['BCBA'], therapistMustHave: ['BCBA', 'BCBA-D'], enforceExact: true },
+      ruleLogic: { patientRequires: ['BCBA'], therapistMustHave: ['BCBA', 'BCBA-D'] },
       priority: 2
     },
     {
       category: 'certification' as const,
       description: 'Autism Specialist certification preferred for clients with autism-specific needs',
-      ruleLogic: { preferCertification: 'Autism Specialist', priority: 'preferred' },
+      ruleLogic: { preferCertifications: ['Autism Specialist'], priority: 'preferred' },
       priority: 3
     },
     {
       category: 'certification' as const,
       description: 'Pediatrics certification preferred for clients under 10',
-      ruleLogic: { preferCertification: 'Pediatrics', ageGroup: 'under10', priority: 'preferred' },
+      ruleLogic: { preferCertifications: ['Pediatrics'], priority: 'preferred' },
       priority: 4
     },
 
@@ -297,7 +297,7 @@ async function seedAbaTestOrg() {
     {
       category: 'availability' as const,
       description: 'Friday sessions end by 4:00 PM',
-      ruleLogic: { type: 'day_restriction', dayOfWeek: 'friday', endTime: '16:00' },
+      ruleLogic: { type: 'day_restriction', dayOfWeek: ['friday'], endTime: '16:00' },
       priority: 3
     },
     {
@@ -311,7 +311,7 @@ async function seedAbaTestOrg() {
     {
       category: 'specific_pairing' as const,
       description: 'Maintain therapist consistency - prefer same therapist for repeat sessions',
-      ruleLogic: { type: 'maintain_consistency', priority: 'preferred', lookbackWeeks: 4 },
+      ruleLogic: { type: 'maintain_consistency', priority: 'preferred' },
       priority: 1
     },
     {
@@ -323,13 +323,14 @@ async function seedAbaTestOrg() {
     {
       category: 'specific_pairing' as const,
       description: 'New clients (first 2 weeks) should be paired with senior therapists (BCBA or BCaBA)',
-      ruleLogic: { type: 'new_client', newClientWeeks: 2, preferCertifications: ['BCBA', 'BCBA-D', 'BCaBA'] },
+      // Depends on patient history, so it stays description-only for the AI scheduler
+      ruleLogic: {},
       priority: 3
     },
     {
       category: 'specific_pairing' as const,
       description: 'Wheelchair-accessible room required for clients needing wheelchair access',
-      ruleLogic: { type: 'room_requirement', capability: 'wheelchair_accessible', required: true },
+      ruleLogic: { type: 'room_requirement', capability: 'wheelchair_accessible', priority: 'required' },
       priority: 4
     }
   ]
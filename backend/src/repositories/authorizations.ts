@@ -0,0 +1,208 @@
+import { prisma } from './base.js'
+import type { PatientAuthorization, AuthorizationUsage, AuthorizationPeriod, Prisma } from '@prisma/client'
+
+export type { PatientAuthorization, AuthorizationUsage, AuthorizationPeriod }
+
+export type PatientAuthorizationWithDetails = PatientAuthorization & {
+  patient: { id: string; name: string }
+  sessionSpec: { id: string; name: string } | null
+}
+
+export interface AuthorizationCreate {
+  organizationId: string
+  patientId: string
+  sessionSpecId?: string | null
+  payer: string
+  authNumber: string
+  approvedUnits: number
+  unitMinutes?: number
+  period?: AuthorizationPeriod
+  startDate: Date
+  endDate: Date
+  notes?: string | null
+}
+
+export interface AuthorizationUpdate {
+  sessionSpecId?: string | null
+  payer?: string
+  authNumber?: string
+  approvedUnits?: number
+  unitMinutes?: number
+  period?: AuthorizationPeriod
+  startDate?: Date
+  endDate?: Date
+  notes?: string | null
+}
+
+export interface UsageCreate {
+  authorizationId: string
+  sessionId: string
+  units: number
+  date: Date
+}
+
+// Session statuses that will still use up authorized units
+const OPEN_SESSION_STATUSES = ['pending', 'scheduled', 'confirmed', 'checked_in', 'in_progress'] as const
+
+const withDetails = {
+  patient: { select: { id: true, name: true } },
+  sessionSpec: { select: { id: true, name: true } }
+} satisfies Prisma.PatientAuthorizationInclude
+
+export class AuthorizationRepository {
+  async findByOrganization(
+    organizationId: string,
+    params: { patientId?: string; endingFrom?: Date; endingTo?: Date } = {}
+  ): Promise<PatientAuthorizationWithDetails[]> {
+    const where: Prisma.PatientAuthorizationWhereInput = { organizationId }
+    if (params.patientId) where.patientId = params.patientId
+    if (params.endingFrom || params.endingTo) {
+      where.endDate = { gte: params.endingFrom, lte: params.endingTo }
+    }
+
+    return prisma.patientAuthorization.findMany({
+      where,
+      include: withDetails,
+      orderBy: [{ endDate: 'asc' }, { payer: 'asc' }]
+    })
+  }
+
+  async findById(id: string, organizationId: string): Promise<PatientAuthorizationWithDetails | null> {
+    return prisma.patientAuthorization.findFirst({
+      where: { id, organizationId },
+      include: withDetails
+    })
+  }
+
+  /**
+   * Authorizations of these patients in effect at any point between from and to.
+   */
+  async findForPatients(
+    organizationId: string,
+    patientIds: string[],
+    from: Date,
+    to: Date
+  ): Promise<PatientAuthorization[]> {
+    if (patientIds.length === 0) return []
+
+    return prisma.patientAuthorization.findMany({
+      where: {
+        organizationId,
+        patientId: { in: patientIds },
+        startDate: { lte: to },
+        endDate: { gte: from }
+      },
+      orderBy: [{ startDate: 'asc' }, { id: 'asc' }]
+    })
+  }
+
+  /**
+   * A patient's authorizations that could cover a session: every one for the
+   * patient, whether for this spec, another spec, or all sessions.
+   */
+  async findByPatient(organizationId: string, patientId: string): Promise<PatientAuthorization[]> {
+    return prisma.patientAuthorization.findMany({
+      where: { organizationId, patientId },
+      orderBy: [{ startDate: 'asc' }, { id: 'asc' }]
+    })
+  }
+
+  async create(data: AuthorizationCreate): Promise<PatientAuthorization> {
+    return prisma.patientAuthorization.create({
+      data: {
+        organizationId: data.organizationId,
+        patientId: data.patientId,
+        sessionSpecId: data.sessionSpecId ?? null,
+        payer: data.payer,
+        authNumber: data.authNumber,
+        approvedUnits: data.approvedUnits,
+        unitMinutes: data.unitMinutes,
+        period: data.period,
+        startDate: data.startDate,
+        endDate: data.endDate,
+        notes: data.notes
+      }
+    })
+  }
+
+  async update(id: string, organizationId: string, data: AuthorizationUpdate): Promise<PatientAuthorization | null> {
+    const existing = await this.findById(id, organizationId)
+    if (!existing) return null
+
+    return prisma.patientAuthorization.update({
+      where: { id },
+      data
+    })
+  }
+
+  async delete(id: string, organizationId: string): Promise<boolean> {
+    const result = await prisma.patientAuthorization.deleteMany({
+      where: { id, organizationId }
+    })
+    return result.count > 0
+  }
+
+  /**
+   * Units consumed from an authorization by sessions dated between from and to.
+   */
+  async getUsedUnits(authorizationId: string, from: Date, to: Date): Promise<number> {
+    const result = await prisma.authorizationUsage.aggregate({
+      where: { authorizationId, date: { gte: from, lte: to } },
+      _sum: { units: true }
+    })
+    return result._sum.units ?? 0
+  }
+
+  /**
+   * Record the units a completed session used. A session is only counted once
+   * per authorization, so completing it again returns the existing record.
+   */
+  async recordUsage(data: UsageCreate): Promise<AuthorizationUsage> {
+    return prisma.authorizationUsage.upsert({
+      where: { sessionId_authorizationId: { sessionId: data.sessionId, authorizationId: data.authorizationId } },
+      create: data,
+      update: {}
+    })
+  }
+
+  /**
+   * The patient's sessions in published schedules between from and to that
+   * have not happened yet, leaving out the dates being scheduled. Group
+   * sessions the patient is enrolled in count with the patient's own spec.
+   */
+  async findOpenSessions(
+    organizationId: string,
+    patientId: string,
+    from: Date,
+    to: Date,
+    exclude: { from: Date; to: Date }
+  ): Promise<{ sessionSpecId: string | null; date: Date; startTime: string; endTime: string }[]> {
+    const sessions = await prisma.session.findMany({
+      where: {
+        schedule: { organizationId, status: 'published' },
+        status: { in: [...OPEN_SESSION_STATUSES] },
+        OR: [
+          { patientId, capacity: null },
+          { participants: { some: { patientId, status: { in: [...OPEN_SESSION_STATUSES] } } } }
+        ],
+        AND: [
+          { date: { gte: from, lte: to } },
+          { OR: [{ date: { lt: exclude.from } }, { date: { gt: exclude.to } }] }
+        ]
+      },
+      select: {
+        sessionSpecId: true,
+        date: true,
+        startTime: true,
+        endTime: true,
+        participants: { where: { patientId }, select: { sessionSpecId: true } }
+      }
+    })
+
+    return sessions.map(({ participants, ...session }) =>
+      participants.length > 0 ? { ...session, sessionSpecId: participants[0].sessionSpecId } : session
+    )
+  }
+}
+
+export const authorizationRepository = new AuthorizationRepository()
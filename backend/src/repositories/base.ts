@@ -1,5 +1,10 @@
+import type { Prisma } from '@prisma/client'
 import { prisma } from '../db/index.js'
 
+// A Prisma client or an open transaction's client. Repository methods that can
+// run inside a caller's transaction take one, defaulting to prisma.
+export type DbClient = Prisma.TransactionClient
+
 export interface PaginationParams {
   page?: number
   limit?: number
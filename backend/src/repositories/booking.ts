@@ -9,9 +9,17 @@
  * strings in the organization's local time.
  */
 
-import { prisma } from './base.js'
+import { prisma, type DbClient } from './base.js'
 import type { AppointmentHold, BookingSource } from '@prisma/client'
 import { availabilityService } from '../services/availability.js'
+import { checkSessionRules, type SessionRuleCheckOptions } from '../services/scheduler.js'
+import type { RuleSession } from '../services/ruleEngine.js'
+import {
+  assertWithinBusinessHours,
+  findBusinessHoursViolation,
+  BusinessHoursError,
+  type BusinessHoursViolation
+} from '../services/businessHours.js'
 import { organizationSettingsRepository } from './organizationSettings.js'
 import { formatLocalDate, getLocalDayOfWeek } from '../utils/timezone.js'
 
@@ -36,6 +44,7 @@ export interface BookFromHoldInput {
   organizationId: string
   scheduleId?: string // Optional - will auto-find/create if not provided
   patientId: string
+  sessionSpecId?: string
   notes?: string
   bookedVia: BookingSource
   bookedByContactId?: string
@@ -47,6 +56,7 @@ export interface BookDirectInput {
   staffId: string
   patientId: string
   roomId?: string
+  sessionSpecId?: string
   date: Date
   startTime: string
   endTime: string
@@ -54,6 +64,11 @@ export interface BookDirectInput {
   bookedVia: BookingSource
   bookedByContactId?: string
   createdByUserId?: string
+  // Locked sessions survive regenerating their week's schedule
+  locked?: boolean
+  // Set when materializing an appointment series occurrence
+  seriesId?: string
+  seriesOccurrenceDate?: Date
 }
 
 export interface HoldResult {
@@ -66,6 +81,8 @@ export interface BookingResult {
   success: boolean
   sessionId?: string
   error?: string
+  // Set when the booking failed because it falls outside business hours
+  violation?: BusinessHoursViolation
 }
 
 export interface RescheduleInput {
@@ -82,6 +99,7 @@ export interface RescheduleResult {
   newSessionId?: string
   originalSessionId?: string
   error?: string
+  violation?: BusinessHoursViolation
 }
 
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -201,6 +219,20 @@ async function findOrCreateSchedule(
   return schedule.id
 }
 
+/**
+ * Throw when a booking would break one of the organization's hard scheduling rules.
+ */
+async function assertRulesAllow(
+  organizationId: string,
+  session: RuleSession,
+  options: SessionRuleCheckOptions = {}
+): Promise<void> {
+  const { hardViolations } = await checkSessionRules(organizationId, session, options)
+  if (hardViolations.length > 0) {
+    throw new Error(`Booking violates scheduling rules: ${hardViolations.map(v => v.message).join('; ')}`)
+  }
+}
+
 // ═══════════════════════════════════════════════════════════════════════════════
 // REPOSITORY
 // ═══════════════════════════════════════════════════════════════════════════════
@@ -300,9 +332,9 @@ export class BookingRepository {
   /**
    * Release a hold without converting it to a booking
    */
-  async releaseHold(holdId: string): Promise<boolean> {
+  async releaseHold(holdId: string, client: DbClient = prisma): Promise<boolean> {
     try {
-      await prisma.appointmentHold.update({
+      await client.appointmentHold.update({
         where: { id: holdId },
         data: { releasedAt: new Date() }
       })
@@ -327,83 +359,102 @@ export class BookingRepository {
   }
 
   /**
-   * Convert a hold to a booked session
+   * Convert a hold to a booked session. Pass a transaction's client to book
+   * inside the caller's transaction instead of a new one.
    */
-  async bookFromHold(input: BookFromHoldInput): Promise<BookingResult> {
-    const { holdId, organizationId, scheduleId, patientId, notes, bookedVia, bookedByContactId } = input
+  async bookFromHold(input: BookFromHoldInput, client?: DbClient): Promise<BookingResult> {
+    const { holdId, organizationId, scheduleId, patientId, sessionSpecId, notes, bookedVia, bookedByContactId } = input
 
-    try {
-      const result = await prisma.$transaction(async (tx) => {
-        // Get and validate the hold
-        const hold = await tx.appointmentHold.findFirst({
-          where: {
-            id: holdId,
-            organizationId,
-            expiresAt: { gt: new Date() },
-            releasedAt: null,
-            convertedToSessionId: null
-          }
-        })
-
-        if (!hold) {
-          throw new Error('Hold has expired or is no longer valid')
+    const convertHold = async (tx: DbClient) => {
+      // Get and validate the hold
+      const hold = await tx.appointmentHold.findFirst({
+        where: {
+          id: holdId,
+          organizationId,
+          expiresAt: { gt: new Date() },
+          releasedAt: null,
+          convertedToSessionId: null
         }
+      })
 
-        if (!hold.staffId) {
-          throw new Error('Hold does not have a staff member assigned')
-        }
+      if (!hold) {
+        throw new Error('Hold has expired or is no longer valid')
+      }
 
-        // Double-check for conflicts within the transaction
-        // Use exclusive boundaries: start1 < end2 AND start2 < end1
-        const conflictingSession = await tx.session.findFirst({
-          where: {
-            therapistId: hold.staffId,
-            date: hold.date,
-            status: { notIn: ['cancelled', 'late_cancel'] },
-            schedule: { organizationId },
-            startTime: { lt: hold.endTime },
-            endTime: { gt: hold.startTime }
-          }
-        })
+      if (!hold.staffId) {
+        throw new Error('Hold does not have a staff member assigned')
+      }
 
-        if (conflictingSession) {
-          throw new Error('Time slot is no longer available')
+      // Double-check for conflicts within the transaction
+      // Use exclusive boundaries: start1 < end2 AND start2 < end1
+      const conflictingSession = await tx.session.findFirst({
+        where: {
+          therapistId: hold.staffId,
+          date: hold.date,
+          status: { notIn: ['cancelled', 'late_cancel'] },
+          schedule: { organizationId },
+          startTime: { lt: hold.endTime },
+          endTime: { gt: hold.startTime }
         }
+      })
 
-        // Get or create schedule for this date
-        const effectiveScheduleId = scheduleId || await findOrCreateSchedule(
-          tx,
-          organizationId,
-          hold.date,
-          hold.createdByUserId || undefined
-        )
+      if (conflictingSession) {
+        throw new Error('Time slot is no longer available')
+      }
 
-        // Create the session
-        const session = await tx.session.create({
-          data: {
-            scheduleId: effectiveScheduleId,
-            therapistId: hold.staffId,
-            patientId,
-            roomId: hold.roomId,
-            date: hold.date,
-            startTime: hold.startTime,
-            endTime: hold.endTime,
-            notes,
-            status: 'scheduled',
-            bookedVia,
-            bookedByContactId
-          }
-        })
+      await assertWithinBusinessHours(organizationId, {
+        date: hold.date.toISOString().split('T')[0],
+        startTime: hold.startTime,
+        endTime: hold.endTime
+      })
 
-        // Mark the hold as converted
-        await tx.appointmentHold.update({
-          where: { id: holdId },
-          data: { convertedToSessionId: session.id }
-        })
+      await assertRulesAllow(organizationId, {
+        therapistId: hold.staffId,
+        patientId,
+        roomId: hold.roomId,
+        date: hold.date.toISOString().split('T')[0],
+        startTime: hold.startTime,
+        endTime: hold.endTime
+      }, { scheduleId })
+
+      // Get or create schedule for this date
+      const effectiveScheduleId = scheduleId || await findOrCreateSchedule(
+        tx,
+        organizationId,
+        hold.date,
+        hold.createdByUserId || undefined
+      )
+
+      // Create the session
+      const session = await tx.session.create({
+        data: {
+          scheduleId: effectiveScheduleId,
+          therapistId: hold.staffId,
+          patientId,
+          sessionSpecId,
+          roomId: hold.roomId,
+          date: hold.date,
+          startTime: hold.startTime,
+          endTime: hold.endTime,
+          notes,
+          status: 'scheduled',
+          bookedVia,
+          bookedByContactId
+        }
+      })
 
-        return session
+      // Mark the hold as converted
+      await tx.appointmentHold.update({
+        where: { id: holdId },
+        data: { convertedToSessionId: session.id }
       })
 
+      return session
+    }
+
+    try {
+      const result = client ? await convertHold(client) : await prisma.$transaction(convertHold)
+
       return {
         success: true,
         sessionId: result.id
@@ -411,7 +462,8 @@ export class BookingRepository {
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to complete booking'
+        error: error instanceof Error ? error.message : 'Failed to complete booking',
+        violation: error instanceof BusinessHoursError ? error.violation : undefined
       }
     }
   }
@@ -427,15 +479,34 @@ export class BookingRepository {
       staffId,
       patientId,
       roomId,
+      sessionSpecId,
       date,
       startTime,
       endTime,
       notes,
       bookedVia,
       bookedByContactId,
-      createdByUserId
+      createdByUserId,
+      locked,
+      seriesId,
+      seriesOccurrenceDate
     } = input
 
+    // Business hours first, so the caller learns which bound was broken
+    const violation = await findBusinessHoursViolation(organizationId, {
+      date: date.toISOString().split('T')[0],
+      startTime,
+      endTime
+    })
+
+    if (violation) {
+      return {
+        success: false,
+        error: violation.message,
+        violation
+      }
+    }
+
     // Check availability
     const availability = await availabilityService.isSlotAvailable(
       organizationId,
@@ -470,6 +541,15 @@ export class BookingRepository {
           throw new Error('Time slot is no longer available')
         }
 
+        await assertRulesAllow(organizationId, {
+          therapistId: staffId,
+          patientId,
+          roomId,
+          date: date.toISOString().split('T')[0],
+          startTime,
+          endTime
+        }, { scheduleId })
+
         // Get or create schedule for this date if not provided
         const effectiveScheduleId = scheduleId || await findOrCreateSchedule(
           tx,
@@ -484,13 +564,17 @@ export class BookingRepository {
             therapistId: staffId,
             patientId,
             roomId,
+            sessionSpecId,
             date,
             startTime,
             endTime,
             notes,
             status: 'scheduled',
             bookedVia,
-            bookedByContactId
+            bookedByContactId,
+            locked,
+            seriesId,
+            seriesOccurrenceDate
           }
         })
       })
@@ -654,6 +738,22 @@ export class BookingRepository {
           throw new Error('New time slot is no longer available')
         }
 
+        await assertWithinBusinessHours(organizationId, {
+          date: hold.date.toISOString().split('T')[0],
+          startTime: hold.startTime,
+          endTime: hold.endTime
+        })
+
+        await assertRulesAllow(organizationId, {
+          therapistId: hold.staffId,
+          patientId: originalSession.patientId,
+          sessionSpecId: originalSession.sessionSpecId,
+          roomId: hold.roomId,
+          date: hold.date.toISOString().split('T')[0],
+          startTime: hold.startTime,
+          endTime: hold.endTime
+        }, { excludeSessionId: originalSessionId })
+
         // 4. Cancel the original session
         await tx.session.update({
           where: { id: originalSessionId },
@@ -714,7 +814,8 @@ export class BookingRepository {
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Failed to reschedule'
+        error: error instanceof Error ? error.message : 'Failed to reschedule',
+        violation: error instanceof BusinessHoursError ? error.violation : undefined
       }
     }
   }
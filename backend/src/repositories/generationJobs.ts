@@ -0,0 +1,74 @@
+import { prisma } from './base.js'
+import type { ScheduleGenerationJob, GenerationJobStatus, SchedulingEngine, Prisma } from '@prisma/client'
+
+export type { ScheduleGenerationJob, GenerationJobStatus }
+
+// Statuses of a job that has not finished yet
+export const ACTIVE_JOB_STATUSES: GenerationJobStatus[] = ['queued', 'running', 'validating']
+
+export interface GenerationJobCreate {
+  organizationId: string
+  createdById: string
+  weekStartDate: Date
+  engine?: SchedulingEngine | null
+}
+
+export interface GenerationJobUpdate {
+  status?: GenerationJobStatus
+  progress?: number
+  message?: string | null
+  scheduleId?: string | null
+  // Generation metadata of a finished job (engine, stats, quality, warnings)
+  result?: Record<string, unknown>
+  error?: string | null
+  startedAt?: Date
+  finishedAt?: Date
+}
+
+export class GenerationJobRepository {
+  async create(data: GenerationJobCreate): Promise<ScheduleGenerationJob> {
+    return prisma.scheduleGenerationJob.create({
+      data: {
+        organizationId: data.organizationId,
+        createdById: data.createdById,
+        weekStartDate: data.weekStartDate,
+        engine: data.engine ?? null,
+        message: 'Waiting to start'
+      }
+    })
+  }
+
+  async findById(id: string, organizationId: string): Promise<ScheduleGenerationJob | null> {
+    return prisma.scheduleGenerationJob.findFirst({
+      where: { id, organizationId }
+    })
+  }
+
+  /**
+   * Update a job that is still active. Returns null when the job has already
+   * finished (e.g. it was cancelled), so a late update can't overwrite it.
+   */
+  async updateIfActive(id: string, data: GenerationJobUpdate): Promise<ScheduleGenerationJob | null> {
+    const { count } = await prisma.scheduleGenerationJob.updateMany({
+      where: { id, status: { in: ACTIVE_JOB_STATUSES } },
+      data: { ...data, result: data.result as Prisma.InputJsonValue | undefined }
+    })
+    if (count === 0) return null
+
+    return prisma.scheduleGenerationJob.findUnique({ where: { id } })
+  }
+
+  /**
+   * Mark every active job as failed. Jobs run inside the server process, so
+   * any still active at startup were interrupted by a restart.
+   */
+  async failActive(error: string): Promise<number> {
+    const { count } = await prisma.scheduleGenerationJob.updateMany({
+      where: { status: { in: ACTIVE_JOB_STATUSES } },
+      data: { status: 'failed', error, finishedAt: new Date() }
+    })
+    return count
+  }
+}
+
+export const generationJobRepository = new GenerationJobRepository()
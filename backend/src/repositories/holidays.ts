@@ -0,0 +1,81 @@
+import { prisma } from './base.js'
+import type { CustomHoliday, Prisma } from '@prisma/client'
+
+export type { CustomHoliday }
+
+export interface HolidayCreate {
+  organizationId: string
+  name: string
+  date: Date
+  reason?: string | null
+  startTime?: string | null
+  endTime?: string | null
+  recurring?: boolean
+}
+
+export interface HolidayUpdate {
+  name?: string
+  date?: Date
+  reason?: string | null
+  startTime?: string | null
+  endTime?: string | null
+  recurring?: boolean
+}
+
+export class HolidayRepository {
+  async findByOrganization(organizationId: string, params: { from?: Date; to?: Date } = {}): Promise<CustomHoliday[]> {
+    const where: Prisma.CustomHolidayWhereInput = { organizationId }
+
+    if (params.from || params.to) {
+      // Recurring holidays apply every year, so they are always included
+      where.OR = [
+        { recurring: true },
+        { date: { gte: params.from, lte: params.to } }
+      ]
+    }
+
+    return prisma.customHoliday.findMany({
+      where,
+      orderBy: [{ date: 'asc' }, { name: 'asc' }]
+    })
+  }
+
+  async findById(id: string, organizationId: string): Promise<CustomHoliday | null> {
+    return prisma.customHoliday.findFirst({
+      where: { id, organizationId }
+    })
+  }
+
+  async create(data: HolidayCreate): Promise<CustomHoliday> {
+    return prisma.customHoliday.create({
+      data: {
+        organizationId: data.organizationId,
+        name: data.name,
+        date: data.date,
+        reason: data.reason,
+        startTime: data.startTime,
+        endTime: data.endTime,
+        recurring: data.recurring ?? false
+      }
+    })
+  }
+
+  async update(id: string, organizationId: string, data: HolidayUpdate): Promise<CustomHoliday | null> {
+    const existing = await this.findById(id, organizationId)
+    if (!existing) return null
+
+    return prisma.customHoliday.update({
+      where: { id },
+      data
+    })
+  }
+
+  async delete(id: string, organizationId: string): Promise<boolean> {
+    const result = await prisma.customHoliday.deleteMany({
+      where: { id, organizationId }
+    })
+    return result.count > 0
+  }
+}
+
+export const holidayRepository = new HolidayRepository()
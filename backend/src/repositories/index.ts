@@ -8,6 +8,7 @@ export * from './patients.js'
 export * from './rules.js'
 export * from './rooms.js'
 export * from './schedules.js'
+export * from './generationJobs.js'
 export * from './audit.js'
 export * from './baa.js'
 export * from './passwordResetTokens.js'
@@ -15,9 +16,17 @@ export * from './leads.js'
 export * from './organizationSettings.js'
 export * from './organizationFeatures.js'
 export * from './booking.js'
+export * from './holidays.js'
+export * from './authorizations.js'
+export * from './scheduleSnapshots.js'
+export * from './waitlist.js'
+export * from './series.js'
+export * from './reminders.js'
+export * from './notifications.js'
+export * from './patientContacts.js'
 
 // Re-export common types from Prisma
-export type { Gender, Status, UserRole, ScheduleStatus, RuleCategory, BaaStatus, AvailabilityStatus, TokenType, LeadStatus, SessionStatus, CancellationReason, BookingSource, ContactRelationship } from '@prisma/client'
+export type { Gender, Status, UserRole, ScheduleStatus, RuleCategory, BaaStatus, AvailabilityStatus, TokenType, LeadStatus, SessionStatus, CancellationReason, BookingSource, ContactRelationship, SchedulingEngine, GenerationJobStatus, AuthorizationPeriod, WaitlistStatus, WaitlistOfferStatus, SeriesStatus, ReminderChannel, ReminderStatus, NotificationChannel, NotificationStatus } from '@prisma/client'
 
 // Import singleton instances
 import { organizationRepository } from './organizations.js'
@@ -28,6 +37,7 @@ import { patientRepository } from './patients.js'
 import { ruleRepository } from './rules.js'
 import { roomRepository } from './rooms.js'
 import { scheduleRepository } from './schedules.js'
+import { generationJobRepository } from './generationJobs.js'
 import { auditRepository } from './audit.js'
 import { baaAgreementRepository } from './baa.js'
 import { passwordResetTokenRepository } from './passwordResetTokens.js'
@@ -35,6 +45,14 @@ import { leadRepository } from './leads.js'
 import { organizationSettingsRepository } from './organizationSettings.js'
 import { organizationFeaturesRepository } from './organizationFeatures.js'
 import { bookingRepository } from './booking.js'
+import { holidayRepository } from './holidays.js'
+import { authorizationRepository } from './authorizations.js'
+import { scheduleSnapshotRepository } from './scheduleSnapshots.js'
+import { waitlistRepository } from './waitlist.js'
+import { seriesRepository } from './series.js'
+import { reminderRepository } from './reminders.js'
+import { notificationRepository } from './notifications.js'
+import { patientContactRepository } from './patientContacts.js'
 
 // Export singleton instances as default repositories
 export const repositories = {
@@ -46,13 +64,22 @@ export const repositories = {
   rules: ruleRepository,
   rooms: roomRepository,
   schedules: scheduleRepository,
+  generationJobs: generationJobRepository,
   audit: auditRepository,
   baaAgreements: baaAgreementRepository,
   passwordResetTokens: passwordResetTokenRepository,
   leads: leadRepository,
   organizationSettings: organizationSettingsRepository,
   organizationFeatures: organizationFeaturesRepository,
-  booking: bookingRepository
+  booking: bookingRepository,
+  holidays: holidayRepository,
+  authorizations: authorizationRepository,
+  scheduleSnapshots: scheduleSnapshotRepository,
+  waitlist: waitlistRepository,
+  series: seriesRepository,
+  reminders: reminderRepository,
+  notifications: notificationRepository,
+  patientContacts: patientContactRepository
 }
 
 export default repositories
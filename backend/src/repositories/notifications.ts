@@ -0,0 +1,117 @@
+import { prisma, paginate, getPaginationOffsets, type DbClient, type PaginationParams, type PaginatedResult } from './base.js'
+import type { Notification, NotificationChannel, NotificationStatus, Prisma } from '@prisma/client'
+
+export type { Notification, NotificationChannel, NotificationStatus }
+
+export interface NotificationCreate {
+  organizationId?: string | null
+  channel: NotificationChannel
+  kind: string
+  recipients: string[]
+  subject?: string | null
+  textBody: string
+  htmlBody?: string | null
+  sensitive?: boolean
+}
+
+// What admins see; bodies can hold sign-in links and never leave the server
+export type NotificationSummary = Omit<Notification, 'textBody' | 'htmlBody'>
+
+const summaryFields = {
+  textBody: false,
+  htmlBody: false
+} satisfies Prisma.NotificationOmit
+
+export class NotificationRepository {
+  async create(data: NotificationCreate, client: DbClient = prisma): Promise<Notification> {
+    // Due from the app's clock, so the first attempt can go out straight away
+    return client.notification.create({ data: { ...data, nextAttemptAt: new Date() } })
+  }
+
+  async findByOrganization(
+    organizationId: string,
+    params: PaginationParams & { status?: NotificationStatus } = {}
+  ): Promise<PaginatedResult<NotificationSummary>> {
+    const { take, skip } = getPaginationOffsets(params)
+    const where: Prisma.NotificationWhereInput = { organizationId }
+    if (params.status) where.status = params.status
+
+    const [data, total] = await Promise.all([
+      prisma.notification.findMany({
+        where,
+        omit: summaryFields,
+        take,
+        skip,
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.notification.count({ where })
+    ])
+
+    return paginate(data, total, params)
+  }
+
+  async findById(id: string, organizationId: string): Promise<Notification | null> {
+    return prisma.notification.findFirst({
+      where: { id, organizationId }
+    })
+  }
+
+  /**
+   * Queued notifications whose next attempt is due, oldest first.
+   */
+  async findDueIds(now: Date, limit: number): Promise<string[]> {
+    const due = await prisma.notification.findMany({
+      where: { status: 'queued', nextAttemptAt: { lte: now } },
+      select: { id: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit
+    })
+    return due.map(n => n.id)
+  }
+
+  /**
+   * Take a due notification for one delivery attempt by pushing its next
+   * attempt out to leaseUntil. Returns null when it isn't due, or another
+   * worker took it first.
+   */
+  async claim(id: string, now: Date, leaseUntil: Date): Promise<Notification | null> {
+    const { count } = await prisma.notification.updateMany({
+      where: { id, status: 'queued', nextAttemptAt: { lte: now } },
+      data: { nextAttemptAt: leaseUntil }
+    })
+    if (count === 0) return null
+
+    return prisma.notification.findUnique({ where: { id } })
+  }
+
+  async update(id: string, data: Prisma.NotificationUpdateInput): Promise<Notification> {
+    return prisma.notification.update({
+      where: { id },
+      data
+    })
+  }
+
+  /**
+   * Mark the sent message with the provider's message id bounced.
+   */
+  async markBounced(providerMessageId: string, reason: string, channel: NotificationChannel = 'email'): Promise<number> {
+    const { count } = await prisma.notification.updateMany({
+      where: { providerMessageId, channel, status: 'sent' },
+      data: { status: 'bounced', lastError: reason }
+    })
+    return count
+  }
+
+  /**
+   * Record that the sent message with the provider's message id arrived.
+   */
+  async markDelivered(providerMessageId: string, channel: NotificationChannel, deliveredAt: Date): Promise<number> {
+    const { count } = await prisma.notification.updateMany({
+      where: { providerMessageId, channel, status: 'sent', deliveredAt: null },
+      data: { deliveredAt }
+    })
+    return count
+  }
+}
+
+export const notificationRepository = new NotificationRepository()
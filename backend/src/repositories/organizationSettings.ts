@@ -1,5 +1,5 @@
 import { prisma } from './base.js'
-import type { OrganizationSettings, Prisma } from '@prisma/client'
+import type { OrganizationSettings, Prisma, SchedulingEngine } from '@prisma/client'
 
 // Default business hours structure
 export const DEFAULT_BUSINESS_HOURS = {
@@ -18,6 +18,12 @@ export interface BusinessHoursDay {
   end: string
 }
 
+// Replaces the weekday hours on one date, e.g. closing early before a holiday
+export interface BusinessHoursException extends BusinessHoursDay {
+  date: string // YYYY-MM-DD
+  reason?: string | null
+}
+
 export interface BusinessHours {
   monday: BusinessHoursDay
   tuesday: BusinessHoursDay
@@ -26,6 +32,7 @@ export interface BusinessHours {
   friday: BusinessHoursDay
   saturday: BusinessHoursDay
   sunday: BusinessHoursDay
+  exceptions?: BusinessHoursException[]
 }
 
 export interface OrganizationSettingsUpdate {
@@ -34,9 +41,15 @@ export interface OrganizationSettingsUpdate {
   defaultSessionDuration?: number
   slotInterval?: number
   lateCancelWindowHours?: number
+  schedulingEngine?: SchedulingEngine
+  rollingHorizonWeeks?: number
+  continuityWeight?: number
+  closeOnFederalHolidays?: boolean
+  smsSenderId?: string | null
+  smsCountryCode?: string
 }
 
-export type { OrganizationSettings }
+export type { OrganizationSettings, SchedulingEngine }
 
 export class OrganizationSettingsRepository {
   /**
@@ -106,6 +119,33 @@ export class OrganizationSettingsRepository {
     return this.update(organizationId, { businessHours })
   }
 
+  /**
+   * Get the default schedule generation engine for an organization
+   */
+  async getSchedulingEngine(organizationId: string): Promise<SchedulingEngine> {
+    const settings = await this.findByOrganizationId(organizationId)
+    return settings.schedulingEngine
+  }
+
+  /**
+   * Whether the clinic closes on US federal holidays
+   */
+  async closesOnFederalHolidays(organizationId: string): Promise<boolean> {
+    const settings = await this.findByOrganizationId(organizationId)
+    return settings.closeOnFederalHolidays
+  }
+
+  /**
+   * Organizations that send texts from the given number or sender ID
+   */
+  async findOrganizationIdsBySmsSender(smsSenderId: string): Promise<string[]> {
+    const settings = await prisma.organizationSettings.findMany({
+      where: { smsSenderId },
+      select: { organizationId: true }
+    })
+    return settings.map(s => s.organizationId)
+  }
+
   /**
    * Get the late cancellation window in hours
    */
@@ -1,4 +1,4 @@
-import { prisma } from './base.js'
+import { prisma, type DbClient } from './base.js'
 import type { PasswordResetToken, TokenType } from '@prisma/client'
 import crypto from 'crypto'
 
@@ -32,9 +32,9 @@ export class PasswordResetTokenRepository {
    * Create a new token for a user
    * Invalidates any existing tokens of the same type for the user
    */
-  async create(userId: string, type: TokenType): Promise<PasswordResetToken> {
+  async create(userId: string, type: TokenType, client: DbClient = prisma): Promise<PasswordResetToken> {
     // Invalidate any existing tokens of this type for the user
-    await prisma.passwordResetToken.updateMany({
+    await client.passwordResetToken.updateMany({
       where: {
         userId,
         type,
@@ -49,7 +49,7 @@ export class PasswordResetTokenRepository {
     const token = this.generateToken()
     const expiresAt = this.getExpirationDate(type)
 
-    return prisma.passwordResetToken.create({
+    return client.passwordResetToken.create({
       data: {
         userId,
         token,
@@ -0,0 +1,33 @@
+import { prisma } from './base.js'
+import type { PatientContact } from '@prisma/client'
+
+export type { PatientContact }
+
+// A contact's phone, as entered, with its opt-in
+export type PhoneContact = Pick<PatientContact, 'id' | 'phone' | 'smsOptIn'>
+
+export class PatientContactRepository {
+  /**
+   * An organization's contacts whose stored phone ends with the given digits.
+   * Phones are stored as entered, so callers compare the normalized numbers.
+   */
+  async findByPhoneSuffix(digits: string, organizationId: string): Promise<PhoneContact[]> {
+    return prisma.patientContact.findMany({
+      where: {
+        phone: { endsWith: digits },
+        patient: { organizationId }
+      },
+      select: { id: true, phone: true, smsOptIn: true }
+    })
+  }
+
+  async setSmsOptIn(ids: string[], smsOptIn: boolean): Promise<number> {
+    const { count } = await prisma.patientContact.updateMany({
+      where: { id: { in: ids } },
+      data: { smsOptIn }
+    })
+    return count
+  }
+}
+
+export const patientContactRepository = new PatientContactRepository()
@@ -1,8 +1,39 @@
 import { prisma, paginate, getPaginationOffsets, type PaginationParams, type PaginatedResult } from './base.js'
-import type { Patient, Gender, Status, Prisma, PatientSessionSpec } from '@prisma/client'
+import { Prisma } from '@prisma/client'
+import type { Patient, Gender, Status, PatientSessionSpec } from '@prisma/client'
 
 export type { Gender, Status }
 
+export interface PatientAvailabilityWindow {
+  start: string
+  end: string
+}
+
+/**
+ * A date range where the weekly windows don't apply: a school holiday week
+ * (available all day, or only within start/end) or a family trip (unavailable).
+ */
+export interface PatientAvailabilityException {
+  startDate: string
+  endDate: string
+  available: boolean
+  start?: string
+  end?: string
+  reason?: string
+}
+
+/**
+ * When a patient can attend at all. A weekday that is missing or null means
+ * the patient is unavailable that day. Unlike preferredTimes this is a hard
+ * limit; a patient with no availability set can be booked at any time.
+ */
+export interface PatientAvailability {
+  weekly: {
+    [day: string]: PatientAvailabilityWindow | null
+  }
+  exceptions?: PatientAvailabilityException[]
+}
+
 export interface PatientCreate {
   organizationId: string
   name: string
@@ -10,6 +41,7 @@ export interface PatientCreate {
   gender: Gender
   sessionFrequency?: number
   preferredTimes?: string[] | null
+  availability?: PatientAvailability | null
   requiredCertifications?: string[]
   preferredRoomId?: string | null
   requiredRoomCapabilities?: string[]
@@ -22,6 +54,7 @@ export interface PatientUpdate {
   gender?: Gender
   sessionFrequency?: number
   preferredTimes?: string[] | null
+  availability?: PatientAvailability | null
   requiredCertifications?: string[]
   preferredRoomId?: string | null
   requiredRoomCapabilities?: string[]
@@ -78,6 +111,18 @@ export class PatientRepository {
     return prisma.patient.findFirst({ where })
   }
 
+  async findByIdWithSessionSpecs(id: string, organizationId: string): Promise<PatientWithSessionSpecs | null> {
+    return prisma.patient.findFirst({
+      where: { id, organizationId },
+      include: {
+        sessionSpecs: {
+          where: { isActive: true },
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    })
+  }
+
   async findByOrganization(organizationId: string, status?: Status): Promise<Patient[]> {
     const where: Prisma.PatientWhereInput = { organizationId }
     if (status) {
@@ -117,6 +162,7 @@ export class PatientRepository {
         gender: data.gender,
         sessionFrequency: data.sessionFrequency || 2,
         preferredTimes: data.preferredTimes || [],
+        availability: data.availability ? (data.availability as unknown as Prisma.InputJsonValue) : undefined,
         requiredCertifications: data.requiredCertifications || [],
         preferredRoom: data.preferredRoomId ? { connect: { id: data.preferredRoomId } } : undefined,
         requiredRoomCapabilities: data.requiredRoomCapabilities || [],
@@ -133,6 +179,9 @@ export class PatientRepository {
       if (data.gender !== undefined) updateData.gender = data.gender
       if (data.sessionFrequency !== undefined) updateData.sessionFrequency = data.sessionFrequency
       if (data.preferredTimes !== undefined) updateData.preferredTimes = data.preferredTimes || []
+      if (data.availability !== undefined) {
+        updateData.availability = data.availability ? (data.availability as unknown as Prisma.InputJsonValue) : Prisma.DbNull
+      }
       if (data.requiredCertifications !== undefined) updateData.requiredCertifications = data.requiredCertifications || []
       if (data.preferredRoomId !== undefined) {
         updateData.preferredRoom = data.preferredRoomId ? { connect: { id: data.preferredRoomId } } : { disconnect: true }
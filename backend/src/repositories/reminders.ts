@@ -0,0 +1,168 @@
+import { prisma, type DbClient } from './base.js'
+import type { SessionReminder, ReminderChannel, ReminderStatus, OrganizationFeatures, PatientContact, Prisma } from '@prisma/client'
+
+export type { SessionReminder, ReminderChannel, ReminderStatus }
+
+export type ReminderOrganization = OrganizationFeatures & {
+  organization: { id: string; name: string; subdomain: string; primaryColor: string }
+}
+
+type ReminderPatient = { id: string; name: string; contacts: PatientContact[] }
+
+export type ReminderSession = {
+  id: string
+  date: Date
+  startTime: string
+  endTime: string
+  capacity: number | null
+  therapist: { name: string }
+  room: { name: string } | null
+  patient: ReminderPatient
+  participants: { patient: ReminderPatient }[]
+}
+
+export interface SessionReminderClaim {
+  organizationId: string
+  sessionId: string
+  contactId: string
+  channel: ReminderChannel
+  hoursBefore: number
+  recipient: string
+}
+
+const REMINDED_STATUSES = ['scheduled', 'confirmed'] as const
+
+const patientWithContacts = {
+  select: { id: true, name: true, contacts: true }
+} satisfies Prisma.PatientDefaultArgs
+
+export function reminderKey(r: { sessionId: string; contactId: string; channel: ReminderChannel; hoursBefore: number }): string {
+  return `${r.sessionId}:${r.contactId}:${r.channel}:${r.hoursBefore}`
+}
+
+export class ReminderRepository {
+  /**
+   * Active organizations with email or SMS reminders turned on.
+   */
+  async findOrganizationsWithReminders(): Promise<ReminderOrganization[]> {
+    return prisma.organizationFeatures.findMany({
+      where: {
+        OR: [{ emailRemindersEnabled: true }, { smsRemindersEnabled: true }],
+        organization: { status: 'active' }
+      },
+      include: {
+        organization: { select: { id: true, name: true, subdomain: true, primaryColor: true } }
+      }
+    })
+  }
+
+  /**
+   * Scheduled and confirmed sessions on the given calendar dates. Draft
+   * schedules are still being worked on, so only their series and portal
+   * bookings, which are settled when booked, get reminders.
+   */
+  async findUpcomingSessions(organizationId: string, from: Date, to: Date): Promise<ReminderSession[]> {
+    return prisma.session.findMany({
+      where: {
+        schedule: { organizationId },
+        date: { gte: from, lte: to },
+        status: { in: [...REMINDED_STATUSES] },
+        OR: [
+          { schedule: { status: 'published' } },
+          { seriesId: { not: null } },
+          { bookedVia: 'portal' }
+        ]
+      },
+      select: {
+        id: true,
+        date: true,
+        startTime: true,
+        endTime: true,
+        capacity: true,
+        therapist: { select: { name: true } },
+        room: { select: { name: true } },
+        patient: patientWithContacts,
+        participants: {
+          where: { status: { in: [...REMINDED_STATUSES] } },
+          select: { patient: patientWithContacts }
+        }
+      },
+      orderBy: [{ date: 'asc' }, { startTime: 'asc' }]
+    })
+  }
+
+  /**
+   * Reminders already recorded for the sessions, as
+   * "sessionId:contactId:channel:hoursBefore" keys.
+   */
+  async findRecordedKeys(sessionIds: string[]): Promise<Set<string>> {
+    if (sessionIds.length === 0) return new Set()
+
+    const reminders = await prisma.sessionReminder.findMany({
+      where: { sessionId: { in: sessionIds } },
+      select: { sessionId: true, contactId: true, channel: true, hoursBefore: true }
+    })
+    return new Set(reminders.map(r => reminderKey(r)))
+  }
+
+  /**
+   * Reminders sent or being sent since the given time, for the monthly cap.
+   * Ones whose notification failed or bounced don't count.
+   */
+  async countSince(organizationId: string, since: Date): Promise<number> {
+    return prisma.sessionReminder.count({
+      where: {
+        organizationId,
+        createdAt: { gte: since },
+        status: { in: ['sending', 'queued', 'sent'] },
+        OR: [
+          { notificationId: null },
+          { notification: { status: { notIn: ['failed', 'bounced'] } } }
+        ]
+      }
+    })
+  }
+
+  /**
+   * Record a reminder before it's delivered. Returns null when the contact
+   * already got it, so it's never sent twice.
+   */
+  async claim(data: SessionReminderClaim, client: DbClient = prisma): Promise<SessionReminder | null> {
+    const { count } = await client.sessionReminder.createMany({
+      data: [data],
+      skipDuplicates: true
+    })
+    if (count === 0) return null
+
+    return client.sessionReminder.findUnique({
+      where: {
+        sessionId_contactId_channel_hoursBefore: {
+          sessionId: data.sessionId,
+          contactId: data.contactId,
+          channel: data.channel,
+          hoursBefore: data.hoursBefore
+        }
+      }
+    })
+  }
+
+  /**
+   * Record that the reminder is in the outbox, linked to its notification
+   * when one was written.
+   */
+  async markQueued(id: string, notificationId: string | null, client: DbClient = prisma): Promise<SessionReminder> {
+    return client.sessionReminder.update({
+      where: { id },
+      data: { status: 'queued', notificationId }
+    })
+  }
+
+  async markFailed(id: string, error: string, client: DbClient = prisma): Promise<SessionReminder> {
+    return client.sessionReminder.update({
+      where: { id },
+      data: { status: 'failed', error }
+    })
+  }
+}
+
+export const reminderRepository = new ReminderRepository()
@@ -0,0 +1,64 @@
+import { prisma, type DbClient } from './base.js'
+import type { ScheduleSnapshot as PrismaScheduleSnapshot, Prisma } from '@prisma/client'
+
+// A session as it stood when its schedule was published
+export interface SnapshotSession {
+  id: string
+  therapistId: string
+  therapistName: string | null
+  patientId: string
+  patientName: string | null
+  sessionSpecId: string | null
+  roomId: string | null
+  roomName: string | null
+  date: string // YYYY-MM-DD
+  startTime: string
+  endTime: string
+  status: string
+}
+
+export interface ScheduleSnapshot extends Omit<PrismaScheduleSnapshot, 'sessions'> {
+  sessions: SnapshotSession[]
+}
+
+export interface ScheduleSnapshotCreate {
+  organizationId: string
+  scheduleId: string
+  weekStartDate: Date
+  version: number
+  sessions: SnapshotSession[]
+  publishedById?: string | null
+}
+
+function toScheduleSnapshot(snapshot: PrismaScheduleSnapshot): ScheduleSnapshot {
+  return { ...snapshot, sessions: snapshot.sessions as unknown as SnapshotSession[] }
+}
+
+export class ScheduleSnapshotRepository {
+  async create(data: ScheduleSnapshotCreate, client: DbClient = prisma): Promise<ScheduleSnapshot> {
+    const snapshot = await client.scheduleSnapshot.create({
+      data: { ...data, sessions: data.sessions as unknown as Prisma.InputJsonValue }
+    })
+    return toScheduleSnapshot(snapshot)
+  }
+
+  async findById(id: string, organizationId: string): Promise<ScheduleSnapshot | null> {
+    const snapshot = await prisma.scheduleSnapshot.findFirst({
+      where: { id, organizationId }
+    })
+    return snapshot ? toScheduleSnapshot(snapshot) : null
+  }
+
+  /**
+   * Every snapshot taken of a week's schedules, newest first.
+   */
+  async findByWeek(organizationId: string, weekStartDate: Date): Promise<ScheduleSnapshot[]> {
+    const snapshots = await prisma.scheduleSnapshot.findMany({
+      where: { organizationId, weekStartDate },
+      orderBy: { publishedAt: 'desc' }
+    })
+    return snapshots.map(toScheduleSnapshot)
+  }
+}
+
+export const scheduleSnapshotRepository = new ScheduleSnapshotRepository()
@@ -1,12 +1,22 @@
-import { prisma, paginate, getPaginationOffsets, type PaginationParams, type PaginatedResult } from './base.js'
-import type { Schedule, Session, ScheduleStatus, Gender, SessionStatus, CancellationReason } from '@prisma/client'
+import { prisma, paginate, getPaginationOffsets, type DbClient, type PaginationParams, type PaginatedResult } from './base.js'
+import { Prisma } from '@prisma/client'
+import type { Schedule, Session, SessionParticipant, SessionStaff, SessionStaffRole, ScheduleStatus, Gender, SessionStatus, CancellationReason } from '@prisma/client'
 
-export type { Schedule, Session, ScheduleStatus, SessionStatus, CancellationReason }
+export type { Schedule, Session, SessionParticipant, SessionStaff, SessionStaffRole, ScheduleStatus, SessionStatus, CancellationReason }
 
 export interface ScheduleCreate {
   organizationId: string
   weekStartDate: Date
   createdBy: string
+  quality?: ScheduleQualityData
+  // Report from services/unmetDemand.ts
+  unmetDemand?: object
+}
+
+// Stored quality score; the breakdown mirrors services/scheduleQuality.ts
+export interface ScheduleQualityData {
+  score: number
+  components: Record<string, unknown>
 }
 
 export interface SessionCreate {
@@ -19,6 +29,30 @@ export interface SessionCreate {
   startTime: string
   endTime: string
   notes?: string | null
+  explanation?: object | null
+  locked?: boolean
+  // Group sessions only: the most patients that can enroll, and everyone
+  // enrolled (including patientId)
+  capacity?: number | null
+  participants?: SessionParticipantCreate[]
+  // Staff present besides the therapist
+  staffAssignments?: SessionStaffCreate[]
+}
+
+export interface SessionParticipantCreate {
+  patientId: string
+  sessionSpecId?: string | null
+}
+
+// What came of enrolling a patient in a group session
+export type AddParticipantResult =
+  | { status: 'enrolled'; participant: SessionParticipant }
+  | { status: 'full' }
+  | { status: 'already_enrolled' }
+
+export interface SessionStaffCreate {
+  staffId: string
+  role: SessionStaffRole
 }
 
 export interface SessionUpdate {
@@ -30,6 +64,10 @@ export interface SessionUpdate {
   startTime?: string
   endTime?: string
   notes?: string | null
+  // Set to null when a scheduler-placed session is edited by hand
+  explanation?: null
+  locked?: boolean
+  capacity?: number | null
 }
 
 export interface SessionStatusUpdate {
@@ -51,18 +89,81 @@ export interface SessionConfirmation {
   confirmedById: string
 }
 
+export interface SessionParticipantWithName extends SessionParticipant {
+  patientName?: string
+}
+
+export interface SessionStaffWithName extends SessionStaff {
+  staffName?: string
+}
+
 export interface SessionWithDetails extends Session {
   therapistName?: string
   patientName?: string
   therapistGender?: Gender
   roomName?: string
   roomCapabilities?: string[]
+  // Enrolled patients of a group session
+  participants?: SessionParticipantWithName[]
+  // Supervisors and co-treaters
+  staffAssignments?: SessionStaffWithName[]
+}
+
+export interface SessionHistoryEntry {
+  patientId: string
+  therapistId: string
+  sessionSpecId: string | null
+  date: Date
 }
 
 export interface ScheduleWithSessions extends Schedule {
   sessions: SessionWithDetails[]
 }
 
+// Session statuses a participant can still move on from
+const OPEN_STATUSES: SessionStatus[] = ['pending', 'scheduled', 'confirmed', 'checked_in', 'in_progress']
+
+const participantsWithNames = {
+  include: { patient: { select: { name: true } } },
+  orderBy: { createdAt: 'asc' }
+} satisfies Prisma.Session$participantsArgs
+
+function toParticipantsWithNames(
+  participants: (SessionParticipant & { patient?: { name: string } | null })[]
+): SessionParticipantWithName[] {
+  return participants.map(({ patient, ...participant }) => ({ ...participant, patientName: patient?.name }))
+}
+
+const staffAssignmentsWithNames = {
+  include: { staff: { select: { name: true } } },
+  orderBy: { createdAt: 'asc' }
+} satisfies Prisma.Session$staffAssignmentsArgs
+
+function toStaffAssignmentsWithNames(
+  assignments: (SessionStaff & { staff?: { name: string } | null })[]
+): SessionStaffWithName[] {
+  return assignments.map(({ staff, ...assignment }) => ({ ...assignment, staffName: staff?.name }))
+}
+
+function toSessionCreateData(data: SessionCreate): Prisma.SessionUncheckedCreateInput {
+  const { explanation, participants, staffAssignments, ...fields } = data
+  return {
+    ...fields,
+    explanation: explanation ? (explanation as Prisma.InputJsonValue) : undefined,
+    participants: participants?.length
+      ? { create: participants.map(p => ({ patientId: p.patientId, sessionSpecId: p.sessionSpecId ?? null })) }
+      : undefined,
+    staffAssignments: staffAssignments?.length
+      ? { create: staffAssignments.map(a => ({ staffId: a.staffId, role: a.role })) }
+      : undefined
+  }
+}
+
+function toSessionUpdateData(data: SessionUpdate): Prisma.SessionUncheckedUpdateInput {
+  const { explanation, ...fields } = data
+  return explanation === null ? { ...fields, explanation: Prisma.DbNull } : fields
+}
+
 export class ScheduleRepository {
   async findAll(
     organizationId: string,
@@ -111,7 +212,9 @@ export class ScheduleRepository {
           include: {
             therapist: { select: { name: true, gender: true } },
             patient: { select: { name: true } },
-            room: { select: { name: true, capabilities: true } }
+            room: { select: { name: true, capabilities: true } },
+            participants: participantsWithNames,
+            staffAssignments: staffAssignmentsWithNames
           },
           orderBy: [{ date: 'asc' }, { startTime: 'asc' }]
         }
@@ -124,6 +227,8 @@ export class ScheduleRepository {
       ...schedule,
       sessions: schedule.sessions.map(s => ({
         ...s,
+        participants: toParticipantsWithNames(s.participants),
+        staffAssignments: toStaffAssignmentsWithNames(s.staffAssignments),
         therapistName: s.therapist?.name || undefined,
         patientName: s.patient?.name || undefined,
         therapistGender: s.therapist?.gender || undefined,
@@ -147,14 +252,42 @@ export class ScheduleRepository {
       data: {
         organization: { connect: { id: data.organizationId } },
         weekStartDate: data.weekStartDate,
-        createdBy: { connect: { id: data.createdBy } }
+        createdBy: { connect: { id: data.createdBy } },
+        qualityScore: data.quality?.score,
+        qualityBreakdown: data.quality ? (data.quality.components as Prisma.InputJsonValue) : undefined,
+        unmetDemand: data.unmetDemand as Prisma.InputJsonValue | undefined
       }
     })
   }
 
-  async publish(id: string, organizationId: string): Promise<Schedule | null> {
+  async updateQuality(id: string, organizationId: string, quality: ScheduleQualityData): Promise<Schedule | null> {
     try {
       return await prisma.schedule.update({
+        where: { id, organizationId },
+        data: {
+          qualityScore: quality.score,
+          qualityBreakdown: quality.components as Prisma.InputJsonValue
+        }
+      })
+    } catch {
+      return null
+    }
+  }
+
+  async updateUnmetDemand(id: string, organizationId: string, unmetDemand: object): Promise<Schedule | null> {
+    try {
+      return await prisma.schedule.update({
+        where: { id, organizationId },
+        data: { unmetDemand: unmetDemand as Prisma.InputJsonValue }
+      })
+    } catch {
+      return null
+    }
+  }
+
+  async publish(id: string, organizationId: string, client: DbClient = prisma): Promise<Schedule | null> {
+    try {
+      return await client.schedule.update({
         where: { id, organizationId },
         data: {
           status: 'published',
@@ -209,7 +342,7 @@ export class ScheduleRepository {
 
   // Session methods
   async addSession(data: SessionCreate): Promise<Session> {
-    return prisma.session.create({ data })
+    return prisma.session.create({ data: toSessionCreateData(data) })
   }
 
   async addSessions(data: SessionCreate[]): Promise<Session[]> {
@@ -223,21 +356,45 @@ export class ScheduleRepository {
           scheduleId: session.scheduleId,
           therapistId: session.therapistId,
           patientId: session.patientId,
+          sessionSpecId: session.sessionSpecId ?? null,
           roomId: session.roomId ?? null,
           date: session.date,
           startTime: session.startTime,
           endTime: session.endTime,
-          notes: session.notes ?? null
+          notes: session.notes ?? null,
+          explanation: session.explanation ? (session.explanation as Prisma.InputJsonValue) : undefined,
+          locked: session.locked ?? false,
+          capacity: session.capacity ?? null,
+          participants: session.participants?.length
+            ? { create: session.participants.map(p => ({ patientId: p.patientId, sessionSpecId: p.sessionSpecId ?? null })) }
+            : undefined,
+          staffAssignments: session.staffAssignments?.length
+            ? { create: session.staffAssignments.map(a => ({ staffId: a.staffId, role: a.role })) }
+            : undefined
         }
       }))
     )
   }
 
+  /**
+   * Replace every unlocked session of a schedule with new ones, leaving locked
+   * sessions in place. Returns the number of sessions removed.
+   */
+  async replaceUnlockedSessions(scheduleId: string, data: SessionCreate[]): Promise<number> {
+    return prisma.$transaction(async (tx) => {
+      const removed = await tx.session.deleteMany({ where: { scheduleId, locked: false } })
+      for (const session of data) {
+        await tx.session.create({ data: toSessionCreateData(session) })
+      }
+      return removed.count
+    })
+  }
+
   async updateSession(sessionId: string, scheduleId: string, data: SessionUpdate): Promise<Session | null> {
     try {
       return await prisma.session.update({
         where: { id: sessionId, scheduleId },
-        data
+        data: toSessionUpdateData(data)
       })
     } catch {
       return null
@@ -271,13 +428,17 @@ export class ScheduleRepository {
       include: {
         therapist: { select: { name: true, gender: true } },
         patient: { select: { name: true } },
-        room: { select: { name: true, capabilities: true } }
+        room: { select: { name: true, capabilities: true } },
+        participants: participantsWithNames,
+        staffAssignments: staffAssignmentsWithNames
       },
       orderBy: [{ date: 'asc' }, { startTime: 'asc' }]
     })
 
     return sessions.map(s => ({
       ...s,
+      participants: toParticipantsWithNames(s.participants),
+      staffAssignments: toStaffAssignmentsWithNames(s.staffAssignments),
       therapistName: s.therapist?.name || undefined,
       patientName: s.patient?.name || undefined,
       therapistGender: s.therapist?.gender || undefined,
@@ -289,6 +450,29 @@ export class ScheduleRepository {
     })) as SessionWithDetails[]
   }
 
+  /**
+   * Sessions from published schedules whose week starts in [startDate, endDate),
+   * skipping sessions that did not take place. Used for continuity of care.
+   */
+  async getPublishedSessionHistory(
+    organizationId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<SessionHistoryEntry[]> {
+    return prisma.session.findMany({
+      where: {
+        schedule: {
+          organizationId,
+          status: 'published',
+          weekStartDate: { gte: startDate, lt: endDate }
+        },
+        status: { notIn: ['cancelled', 'late_cancel', 'no_show'] }
+      },
+      select: { patientId: true, therapistId: true, sessionSpecId: true, date: true },
+      orderBy: { date: 'asc' }
+    })
+  }
+
   async countSessionsBySchedule(scheduleId: string): Promise<number> {
     return prisma.session.count({ where: { scheduleId } })
   }
@@ -315,18 +499,21 @@ export class ScheduleRepository {
 
     // Copy all sessions from source to new schedule
     if (sourceSchedule.sessions.length > 0) {
-      await prisma.session.createMany({
-        data: sourceSchedule.sessions.map(session => ({
-          scheduleId: createdSchedule.id,
-          therapistId: session.therapistId,
-          patientId: session.patientId,
-          roomId: session.roomId,
-          date: session.date,
-          startTime: session.startTime,
-          endTime: session.endTime,
-          notes: session.notes
-        }))
-      })
+      await this.addSessions(sourceSchedule.sessions.map(session => ({
+        scheduleId: createdSchedule.id,
+        therapistId: session.therapistId,
+        patientId: session.patientId,
+        sessionSpecId: session.sessionSpecId,
+        roomId: session.roomId,
+        date: session.date,
+        startTime: session.startTime,
+        endTime: session.endTime,
+        notes: session.notes,
+        locked: session.locked,
+        capacity: session.capacity,
+        participants: session.participants?.map(p => ({ patientId: p.patientId, sessionSpecId: p.sessionSpecId })),
+        staffAssignments: session.staffAssignments?.map(a => ({ staffId: a.staffId, role: a.role }))
+      })))
     }
 
     // Return the new schedule with its sessions
@@ -356,18 +543,12 @@ export class ScheduleRepository {
 
     // Add validated sessions to the new schedule
     if (validSessions.length > 0) {
-      await prisma.session.createMany({
-        data: validSessions.map(session => ({
-          scheduleId: createdSchedule.id,
-          therapistId: session.therapistId,
-          patientId: session.patientId,
-          roomId: session.roomId,
-          date: session.date,
-          startTime: session.startTime,
-          endTime: session.endTime,
-          notes: session.notes
-        }))
-      })
+      await this.addSessions(validSessions.map(session => ({
+        ...session,
+        scheduleId: createdSchedule.id,
+        explanation: undefined,
+        locked: undefined
+      })))
     }
 
     // Return the new schedule with its sessions
@@ -379,19 +560,23 @@ export const scheduleRepository = new ScheduleRepository()
 
 // SessionRepository as a separate class for route compatibility
 export class SessionRepository {
-  async findBySchedule(scheduleId: string): Promise<SessionWithDetails[]> {
-    const sessions = await prisma.session.findMany({
+  async findBySchedule(scheduleId: string, client: DbClient = prisma): Promise<SessionWithDetails[]> {
+    const sessions = await client.session.findMany({
       where: { scheduleId },
       include: {
         therapist: { select: { name: true, gender: true } },
         patient: { select: { name: true } },
-        room: { select: { name: true, capabilities: true } }
+        room: { select: { name: true, capabilities: true } },
+        participants: participantsWithNames,
+        staffAssignments: staffAssignmentsWithNames
       },
       orderBy: [{ date: 'asc' }, { startTime: 'asc' }]
     })
 
     return sessions.map(s => ({
       ...s,
+      participants: toParticipantsWithNames(s.participants),
+      staffAssignments: toStaffAssignmentsWithNames(s.staffAssignments),
       therapistName: s.therapist?.name || undefined,
       patientName: s.patient?.name || undefined,
       therapistGender: s.therapist?.gender || undefined,
@@ -404,14 +589,14 @@ export class SessionRepository {
   }
 
   async create(data: SessionCreate): Promise<Session> {
-    return prisma.session.create({ data })
+    return prisma.session.create({ data: toSessionCreateData(data) })
   }
 
-  async update(sessionId: string, scheduleId: string, data: SessionUpdate): Promise<Session | null> {
+  async update(sessionId: string, scheduleId: string, data: SessionUpdate, client: DbClient = prisma): Promise<Session | null> {
     try {
-      return await prisma.session.update({
+      return await client.session.update({
         where: { id: sessionId, scheduleId },
-        data
+        data: toSessionUpdateData(data)
       })
     } catch {
       return null
@@ -455,6 +640,8 @@ export class SessionRepository {
         therapist: { select: { name: true, gender: true } },
         patient: { select: { name: true } },
         room: { select: { name: true, capabilities: true } },
+        participants: participantsWithNames,
+        staffAssignments: staffAssignmentsWithNames,
         statusUpdatedBy: { select: { email: true } },
         cancelledBy: { select: { email: true } },
         confirmedBy: { select: { email: true } }
@@ -465,6 +652,8 @@ export class SessionRepository {
 
     return {
       ...session,
+      participants: toParticipantsWithNames(session.participants),
+      staffAssignments: toStaffAssignmentsWithNames(session.staffAssignments),
       therapistName: session.therapist?.name || undefined,
       patientName: session.patient?.name || undefined,
       therapistGender: session.therapist?.gender || undefined,
@@ -518,22 +707,27 @@ export class SessionRepository {
   }
 
   async completeSession(sessionId: string, organizationId: string, userId: string): Promise<Session | null> {
-    return this.updateStatus(sessionId, organizationId, {
+    const session = await this.updateStatus(sessionId, organizationId, {
       status: 'completed',
       updatedById: userId,
       actualEndTime: new Date()
     })
+    if (session?.capacity) {
+      await this.closeParticipants(sessionId, 'completed')
+    }
+    return session
   }
 
   async cancelSession(
     sessionId: string,
     organizationId: string,
-    data: SessionCancellation
+    data: SessionCancellation,
+    client: DbClient = prisma
   ): Promise<Session | null> {
     try {
       const status: SessionStatus = data.isLateCancellation ? 'late_cancel' : 'cancelled'
 
-      return await prisma.session.update({
+      const session = await client.session.update({
         where: {
           id: sessionId,
           schedule: { organizationId }
@@ -548,11 +742,104 @@ export class SessionRepository {
           cancelledById: data.cancelledById
         }
       })
+      if (session.capacity) {
+        await this.closeParticipants(sessionId, status, client)
+      }
+      return session
     } catch {
       return null
     }
   }
 
+  /**
+   * Give a group session's participants whose attendance is still open the
+   * session's final status. Participants already marked (say, as a no-show)
+   * keep their status.
+   */
+  async closeParticipants(sessionId: string, status: SessionStatus, client: DbClient = prisma): Promise<void> {
+    await client.sessionParticipant.updateMany({
+      where: { sessionId, status: { in: OPEN_STATUSES } },
+      data: { status, statusUpdatedAt: new Date() }
+    })
+  }
+
+  /**
+   * Enroll a patient in a group session while it has room. The session row is
+   * locked for the checks, so concurrent enrollments can't both take the last
+   * place or enroll the same patient twice. A patient whose participation was
+   * cancelled is enrolled again on their existing row.
+   */
+  async addParticipant(sessionId: string, data: SessionParticipantCreate): Promise<AddParticipantResult> {
+    try {
+      return await prisma.$transaction(async (tx): Promise<AddParticipantResult> => {
+        const [session] = await tx.$queryRaw<Array<{ capacity: number | null }>>(
+          Prisma.sql`SELECT capacity FROM sessions WHERE id = ${sessionId} FOR UPDATE`
+        )
+        const existing = await tx.sessionParticipant.findUnique({
+          where: { sessionId_patientId: { sessionId, patientId: data.patientId } }
+        })
+        const cancelled = existing && (existing.status === 'cancelled' || existing.status === 'late_cancel')
+        if (existing && !cancelled) {
+          return { status: 'already_enrolled' }
+        }
+
+        const enrolled = await tx.sessionParticipant.count({
+          where: { sessionId, status: { notIn: ['cancelled', 'late_cancel'] } }
+        })
+        if (!session?.capacity || enrolled >= session.capacity) {
+          return { status: 'full' }
+        }
+
+        const participant = existing
+          ? await tx.sessionParticipant.update({
+            where: { id: existing.id },
+            data: { status: 'scheduled', statusUpdatedAt: new Date(), sessionSpecId: data.sessionSpecId ?? null }
+          })
+          : await tx.sessionParticipant.create({
+            data: { sessionId, patientId: data.patientId, sessionSpecId: data.sessionSpecId ?? null }
+          })
+        return { status: 'enrolled', participant }
+      })
+    } catch (error) {
+      // Enrolled by another request that got in first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { status: 'already_enrolled' }
+      }
+      throw error
+    }
+  }
+
+  async removeParticipant(sessionId: string, patientId: string): Promise<boolean> {
+    const result = await prisma.sessionParticipant.deleteMany({ where: { sessionId, patientId } })
+    return result.count > 0
+  }
+
+  async updateParticipantStatus(
+    sessionId: string,
+    patientId: string,
+    status: SessionStatus
+  ): Promise<SessionParticipant | null> {
+    try {
+      return await prisma.sessionParticipant.update({
+        where: { sessionId_patientId: { sessionId, patientId } },
+        data: { status, statusUpdatedAt: new Date() }
+      })
+    } catch {
+      return null
+    }
+  }
+
+  async addStaffAssignment(sessionId: string, data: SessionStaffCreate, client: DbClient = prisma): Promise<SessionStaff> {
+    return client.sessionStaff.create({
+      data: { sessionId, staffId: data.staffId, role: data.role }
+    })
+  }
+
+  async removeStaffAssignment(sessionId: string, staffId: string, client: DbClient = prisma): Promise<boolean> {
+    const result = await client.sessionStaff.deleteMany({ where: { sessionId, staffId } })
+    return result.count > 0
+  }
+
   async markNoShow(sessionId: string, organizationId: string, userId: string): Promise<Session | null> {
     return this.updateStatus(sessionId, organizationId, {
       status: 'no_show',
@@ -683,17 +970,14 @@ export class SessionRepository {
     const tomorrow = new Date(today)
     tomorrow.setDate(tomorrow.getDate() + 1)
 
-    const where: {
-      schedule: { organizationId: string; status: 'published' }
-      date: { gte: Date; lt: Date }
-      therapistId?: string
-    } = {
+    const where: Prisma.SessionWhereInput = {
       schedule: { organizationId, status: 'published' },
       date: { gte: today, lt: tomorrow }
     }
 
+    // A therapist's day includes sessions they supervise or co-treat
     if (therapistId) {
-      where.therapistId = therapistId
+      where.OR = [{ therapistId }, { staffAssignments: { some: { staffId: therapistId } } }]
     }
 
     const sessions = await prisma.session.findMany({
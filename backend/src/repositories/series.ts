@@ -0,0 +1,192 @@
+import { prisma } from './base.js'
+import type { AppointmentSeries, SeriesStatus, Session, Prisma } from '@prisma/client'
+
+export type { AppointmentSeries, SeriesStatus }
+
+export type AppointmentSeriesWithDetails = AppointmentSeries & {
+  patient: { id: string; name: string }
+  staff: { id: string; name: string }
+  room: { id: string; name: string } | null
+  sessionSpec: { id: string; name: string } | null
+}
+
+export interface SeriesCreate {
+  organizationId: string
+  patientId: string
+  staffId: string
+  roomId?: string | null
+  sessionSpecId?: string | null
+  rrule: string
+  startDate: Date
+  startTime: string
+  endTime: string
+  notes?: string | null
+  splitFromId?: string
+  createdByUserId?: string
+}
+
+export interface SeriesUpdate {
+  staffId?: string
+  roomId?: string | null
+  rrule?: string
+  startTime?: string
+  endTime?: string
+  notes?: string | null
+  status?: SeriesStatus
+  materializedThrough?: Date | null
+}
+
+// A session that occupies the therapist, patient or room at the same time
+export interface SeriesConflict {
+  sessionId: string
+  date: string
+  startTime: string
+  endTime: string
+  with: 'therapist' | 'patient' | 'room'
+}
+
+// Sessions that still hold their slot
+const CANCELLED_STATUSES = ['cancelled', 'late_cancel'] as const
+
+const withDetails = {
+  patient: { select: { id: true, name: true } },
+  staff: { select: { id: true, name: true } },
+  room: { select: { id: true, name: true } },
+  sessionSpec: { select: { id: true, name: true } }
+} satisfies Prisma.AppointmentSeriesInclude
+
+export class SeriesRepository {
+  async findByOrganization(
+    organizationId: string,
+    params: { patientId?: string; status?: SeriesStatus } = {}
+  ): Promise<AppointmentSeriesWithDetails[]> {
+    const where: Prisma.AppointmentSeriesWhereInput = { organizationId }
+    if (params.patientId) where.patientId = params.patientId
+    where.status = params.status ?? 'active'
+
+    return prisma.appointmentSeries.findMany({
+      where,
+      include: withDetails,
+      orderBy: [{ startDate: 'asc' }, { startTime: 'asc' }]
+    })
+  }
+
+  async findById(id: string, organizationId: string): Promise<AppointmentSeriesWithDetails | null> {
+    return prisma.appointmentSeries.findFirst({
+      where: { id, organizationId },
+      include: withDetails
+    })
+  }
+
+  /**
+   * Active series of every organization, for materializing sessions ahead.
+   */
+  async findActive(): Promise<AppointmentSeries[]> {
+    return prisma.appointmentSeries.findMany({
+      where: { status: 'active' },
+      orderBy: { createdAt: 'asc' }
+    })
+  }
+
+  async create(data: SeriesCreate): Promise<AppointmentSeries> {
+    return prisma.appointmentSeries.create({
+      data: {
+        organizationId: data.organizationId,
+        patientId: data.patientId,
+        staffId: data.staffId,
+        roomId: data.roomId ?? null,
+        sessionSpecId: data.sessionSpecId ?? null,
+        rrule: data.rrule,
+        startDate: data.startDate,
+        startTime: data.startTime,
+        endTime: data.endTime,
+        notes: data.notes ?? null,
+        splitFromId: data.splitFromId,
+        createdByUserId: data.createdByUserId
+      }
+    })
+  }
+
+  async update(id: string, data: SeriesUpdate): Promise<AppointmentSeries> {
+    return prisma.appointmentSeries.update({
+      where: { id },
+      data
+    })
+  }
+
+  /**
+   * The series' sessions, optionally only those on or after a date.
+   */
+  async findSessions(seriesId: string, params: { from?: Date } = {}): Promise<Session[]> {
+    return prisma.session.findMany({
+      where: {
+        seriesId,
+        ...(params.from ? { date: { gte: params.from } } : {})
+      },
+      orderBy: [{ date: 'asc' }, { startTime: 'asc' }]
+    })
+  }
+
+  /**
+   * Occurrence dates (YYYY-MM-DD) that already have a session, in any status,
+   * so cancelled and moved occurrences aren't materialized again.
+   */
+  async findOccurrenceDates(seriesId: string): Promise<Set<string>> {
+    const sessions = await prisma.session.findMany({
+      where: { seriesId, seriesOccurrenceDate: { not: null } },
+      select: { seriesOccurrenceDate: true }
+    })
+    return new Set(sessions.map(s => s.seriesOccurrenceDate!.toISOString().split('T')[0]))
+  }
+
+  /**
+   * Sessions on these dates that overlap startTime-endTime and share the
+   * therapist, patient or room. Sessions in `excludeSessionIds` (the series'
+   * own, when it's being edited) don't count.
+   */
+  async findConflicts(
+    organizationId: string,
+    slot: { dates: Date[]; startTime: string; endTime: string; staffId: string; patientId: string; roomId?: string | null },
+    excludeSessionIds: string[] = []
+  ): Promise<SeriesConflict[]> {
+    if (slot.dates.length === 0) return []
+
+    const sessions = await prisma.session.findMany({
+      where: {
+        schedule: { organizationId },
+        id: { notIn: excludeSessionIds },
+        date: { in: slot.dates },
+        status: { notIn: [...CANCELLED_STATUSES] },
+        // Exclusive boundaries: start1 < end2 AND start2 < end1
+        startTime: { lt: slot.endTime },
+        endTime: { gt: slot.startTime },
+        OR: [
+          { therapistId: slot.staffId },
+          { patientId: slot.patientId },
+          ...(slot.roomId ? [{ roomId: slot.roomId }] : [])
+        ]
+      },
+      orderBy: [{ date: 'asc' }, { startTime: 'asc' }]
+    })
+
+    return sessions.map(s => ({
+      sessionId: s.id,
+      date: s.date.toISOString().split('T')[0],
+      startTime: s.startTime,
+      endTime: s.endTime,
+      with: s.therapistId === slot.staffId ? 'therapist' : s.patientId === slot.patientId ? 'patient' : 'room'
+    }))
+  }
+
+  /**
+   * Remove sessions that haven't happened yet so the series can materialize
+   * them again with new details. Returns the number removed.
+   */
+  async deleteSessions(sessionIds: string[]): Promise<number> {
+    if (sessionIds.length === 0) return 0
+    const { count } = await prisma.session.deleteMany({ where: { id: { in: sessionIds } } })
+    return count
+  }
+}
+
+export const seriesRepository = new SeriesRepository()
@@ -1,4 +1,4 @@
-import { prisma, paginate, getPaginationOffsets, type PaginationParams, type PaginatedResult } from './base.js'
+import { prisma, paginate, getPaginationOffsets, type DbClient, type PaginationParams, type PaginatedResult } from './base.js'
 import type { StaffAvailability, AvailabilityStatus, Prisma } from '@prisma/client'
 
 export type { StaffAvailability, AvailabilityStatus }
@@ -197,8 +197,8 @@ export class StaffAvailabilityRepository {
   /**
    * Create a new availability record
    */
-  async create(data: StaffAvailabilityCreate): Promise<StaffAvailability> {
-    return prisma.staffAvailability.create({
+  async create(data: StaffAvailabilityCreate, client: DbClient = prisma): Promise<StaffAvailability> {
+    return client.staffAvailability.create({
       data: {
         staffId: data.staffId,
         date: data.date,
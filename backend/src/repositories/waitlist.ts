@@ -0,0 +1,204 @@
+import { prisma, type DbClient } from './base.js'
+import type { WaitlistEntry, WaitlistOffer, WaitlistStatus, WaitlistOfferStatus, PatientContact, Prisma } from '@prisma/client'
+
+export type { WaitlistEntry, WaitlistOffer, WaitlistStatus, WaitlistOfferStatus }
+
+export type WaitlistEntryWithDetails = WaitlistEntry & {
+  patient: { id: string; name: string }
+  sessionSpec: { id: string; name: string; durationMinutes: number | null; requiredCertifications: Prisma.JsonValue } | null
+  staff: { id: string; name: string } | null
+  offers: WaitlistOffer[]
+}
+
+export type WaitlistOfferWithEntry = WaitlistOffer & {
+  entry: WaitlistEntry
+}
+
+export interface WaitlistEntryCreate {
+  organizationId: string
+  patientId: string
+  sessionSpecId?: string | null
+  days?: string[]
+  earliestTime?: string | null
+  latestTime?: string | null
+  staffId?: string | null
+  requiredCertifications?: string[]
+  durationMinutes?: number | null
+  priority?: number
+  notes?: string | null
+  createdByUserId?: string
+}
+
+export interface WaitlistEntryUpdate {
+  sessionSpecId?: string | null
+  days?: string[]
+  earliestTime?: string | null
+  latestTime?: string | null
+  staffId?: string | null
+  requiredCertifications?: string[]
+  durationMinutes?: number | null
+  priority?: number
+  notes?: string | null
+}
+
+export interface WaitlistOfferCreate {
+  organizationId: string
+  entryId: string
+  holdId: string
+  contactId: string
+  sourceSessionId?: string | null
+  staffId: string
+  roomId?: string | null
+  date: Date
+  startTime: string
+  endTime: string
+  expiresAt: Date
+}
+
+const withDetails = {
+  patient: { select: { id: true, name: true } },
+  sessionSpec: { select: { id: true, name: true, durationMinutes: true, requiredCertifications: true } },
+  staff: { select: { id: true, name: true } },
+  offers: { where: { status: 'pending' }, orderBy: { createdAt: 'desc' } }
+} satisfies Prisma.WaitlistEntryInclude
+
+export class WaitlistRepository {
+  async findByOrganization(
+    organizationId: string,
+    params: { patientId?: string; status?: WaitlistStatus } = {}
+  ): Promise<WaitlistEntryWithDetails[]> {
+    const where: Prisma.WaitlistEntryWhereInput = { organizationId }
+    if (params.patientId) where.patientId = params.patientId
+    where.status = params.status ?? { in: ['waiting', 'offered'] }
+
+    return prisma.waitlistEntry.findMany({
+      where,
+      include: withDetails,
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }]
+    })
+  }
+
+  async findById(id: string, organizationId: string): Promise<WaitlistEntryWithDetails | null> {
+    return prisma.waitlistEntry.findFirst({
+      where: { id, organizationId },
+      include: withDetails
+    })
+  }
+
+  /**
+   * Entries waiting for a slot, in the order they're offered one: highest
+   * priority first, then whoever joined first.
+   */
+  async findWaiting(organizationId: string): Promise<WaitlistEntryWithDetails[]> {
+    return this.findByOrganization(organizationId, { status: 'waiting' })
+  }
+
+  async create(data: WaitlistEntryCreate): Promise<WaitlistEntry> {
+    return prisma.waitlistEntry.create({
+      data: {
+        organizationId: data.organizationId,
+        patientId: data.patientId,
+        sessionSpecId: data.sessionSpecId ?? null,
+        days: data.days ?? [],
+        earliestTime: data.earliestTime ?? null,
+        latestTime: data.latestTime ?? null,
+        staffId: data.staffId ?? null,
+        requiredCertifications: data.requiredCertifications ?? [],
+        durationMinutes: data.durationMinutes ?? null,
+        priority: data.priority,
+        notes: data.notes,
+        createdByUserId: data.createdByUserId
+      }
+    })
+  }
+
+  async update(id: string, organizationId: string, data: WaitlistEntryUpdate): Promise<WaitlistEntry | null> {
+    const existing = await this.findById(id, organizationId)
+    if (!existing) return null
+
+    return prisma.waitlistEntry.update({
+      where: { id },
+      data
+    })
+  }
+
+  async setStatus(id: string, status: WaitlistStatus, client: DbClient = prisma): Promise<WaitlistEntry> {
+    return client.waitlistEntry.update({
+      where: { id },
+      data: { status }
+    })
+  }
+
+  async createOffer(data: WaitlistOfferCreate, client: DbClient = prisma): Promise<WaitlistOffer> {
+    return client.waitlistOffer.create({ data })
+  }
+
+  async findOffer(id: string, organizationId: string): Promise<WaitlistOfferWithEntry | null> {
+    return prisma.waitlistOffer.findFirst({
+      where: { id, organizationId },
+      include: { entry: true }
+    })
+  }
+
+  /**
+   * Open offers the patient's contacts can claim.
+   */
+  async findPendingOffersForPatient(organizationId: string, patientId: string): Promise<WaitlistOffer[]> {
+    return prisma.waitlistOffer.findMany({
+      where: {
+        organizationId,
+        status: 'pending',
+        expiresAt: { gt: new Date() },
+        entry: { patientId }
+      },
+      orderBy: [{ date: 'asc' }, { startTime: 'asc' }]
+    })
+  }
+
+  /**
+   * Pending offers whose hold ran out before they were claimed.
+   */
+  async findExpiredOffers(now: Date): Promise<WaitlistOfferWithEntry[]> {
+    return prisma.waitlistOffer.findMany({
+      where: { status: 'pending', expiresAt: { lte: now } },
+      include: { entry: true },
+      orderBy: { expiresAt: 'asc' }
+    })
+  }
+
+  /**
+   * Entries already offered the slot freed by a session, so the slot moves on
+   * to someone new.
+   */
+  async findOfferedEntryIds(sourceSessionId: string): Promise<string[]> {
+    const offers = await prisma.waitlistOffer.findMany({
+      where: { sourceSessionId },
+      select: { entryId: true }
+    })
+    return offers.map(o => o.entryId)
+  }
+
+  /**
+   * The contact offers are sent to: the patient's primary portal contact,
+   * else whoever was given portal access first.
+   */
+  async findPortalContact(patientId: string): Promise<PatientContact | null> {
+    return prisma.patientContact.findFirst({
+      where: { patientId, canAccessPortal: true },
+      orderBy: [{ isPrimaryContact: 'desc' }, { createdAt: 'asc' }]
+    })
+  }
+
+  async updateOffer(
+    id: string,
+    data: { status: WaitlistOfferStatus; respondedAt?: Date; sessionId?: string },
+    client: DbClient = prisma
+  ): Promise<WaitlistOffer> {
+    return client.waitlistOffer.update({
+      where: { id },
+      data
+    })
+  }
+}
+
+export const waitlistRepository = new WaitlistRepository()
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import Fastify, { FastifyInstance } from 'fastify'
+import type { JWTPayload } from '../../types/index.js'
+
+vi.mock('../../middleware/auth.js', () => ({
+  authenticate: vi.fn(async () => {}),
+  requireAdminOrAssistant: vi.fn(() => async () => {})
+}))
+
+vi.mock('../../repositories/authorizations.js', () => ({
+  authorizationRepository: {
+    findByOrganization: vi.fn(),
+    findById: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/patients.js', () => ({
+  patientRepository: {
+    findById: vi.fn(),
+    findByIdWithSessionSpecs: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/audit.js', () => ({
+  logAudit: vi.fn()
+}))
+
+vi.mock('../../services/authorizations.js', () => ({
+  EXPIRY_WARNING_DAYS: 30,
+  getAuthorizationBalance: vi.fn()
+}))
+
+import { authorizationRepository } from '../../repositories/authorizations.js'
+import { patientRepository } from '../../repositories/patients.js'
+import { logAudit } from '../../repositories/audit.js'
+import { getAuthorizationBalance } from '../../services/authorizations.js'
+
+const defaultMockUser: JWTPayload = {
+  userId: 'test-user-id',
+  email: 'test@example.com',
+  role: 'admin',
+  organizationId: 'test-org-id'
+}
+
+const authorization = {
+  id: 'auth-1',
+  organizationId: 'test-org-id',
+  patientId: 'patient-1',
+  sessionSpecId: null,
+  payer: 'Aetna',
+  authNumber: 'A-100',
+  approvedUnits: 96,
+  unitMinutes: 15,
+  period: 'total' as const,
+  startDate: new Date('2025-01-01T00:00:00Z'),
+  endDate: new Date('2025-03-31T00:00:00Z'),
+  notes: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  patient: { id: 'patient-1', name: 'Emily Carter' },
+  sessionSpec: null
+}
+
+const payload = {
+  patientId: 'patient-1',
+  payer: 'Aetna',
+  authNumber: 'A-100',
+  approvedUnits: 96,
+  startDate: '2025-01-01',
+  endDate: '2025-03-31'
+}
+
+async function buildTestApp(): Promise<FastifyInstance> {
+  const app = Fastify({
+    logger: false
+  })
+
+  app.addHook('onRequest', async (request) => {
+    request.ctx = {
+      user: defaultMockUser,
+      organizationId: defaultMockUser.organizationId
+    }
+  })
+
+  const { authorizationRoutes } = await import('../authorizations.js')
+  await app.register(authorizationRoutes, { prefix: '/api/authorizations' })
+
+  return app
+}
+
+describe('Authorization Routes', () => {
+  let app: FastifyInstance
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    app = await buildTestApp()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('GET /api/authorizations/expiring', () => {
+    it('lists authorizations ending in the next 30 days with their balance', async () => {
+      vi.mocked(authorizationRepository.findByOrganization).mockResolvedValue([authorization])
+      vi.mocked(getAuthorizationBalance).mockResolvedValue({
+        periodStart: '2025-01-01',
+        periodEnd: '2025-03-31',
+        usedUnits: 40,
+        remainingUnits: 56
+      })
+
+      const response = await app.inject({ method: 'GET', url: '/api/authorizations/expiring' })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.json().data[0]).toMatchObject({ id: 'auth-1', usedUnits: 40, remainingUnits: 56 })
+
+      const { endingFrom, endingTo } = vi.mocked(authorizationRepository.findByOrganization).mock.calls[0][1]!
+      expect((endingTo!.getTime() - endingFrom!.getTime()) / (24 * 60 * 60 * 1000)).toBe(30)
+    })
+
+    it('returns 400 for a window longer than a year', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/authorizations/expiring?days=400' })
+
+      expect(response.statusCode).toBe(400)
+      expect(authorizationRepository.findByOrganization).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('POST /api/authorizations', () => {
+    it('creates an authorization for the patient', async () => {
+      vi.mocked(patientRepository.findById).mockResolvedValue({ id: 'patient-1' } as never)
+      vi.mocked(authorizationRepository.create).mockResolvedValue(authorization)
+
+      const response = await app.inject({ method: 'POST', url: '/api/authorizations', payload })
+
+      expect(response.statusCode).toBe(201)
+      expect(authorizationRepository.create).toHaveBeenCalledWith({
+        ...payload,
+        organizationId: 'test-org-id',
+        startDate: new Date('2025-01-01'),
+        endDate: new Date('2025-03-31')
+      })
+      expect(logAudit).toHaveBeenCalledWith('test-user-id', 'create', 'patient_authorization', 'auth-1', 'test-org-id', payload)
+    })
+
+    it('returns 400 when the session spec belongs to another patient', async () => {
+      vi.mocked(patientRepository.findById).mockResolvedValue({ id: 'patient-1' } as never)
+      vi.mocked(patientRepository.findByIdWithSessionSpecs).mockResolvedValue({ id: 'patient-1', sessionSpecs: [{ id: 'spec-1' }] } as never)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/authorizations',
+        payload: { ...payload, sessionSpecId: 'spec-2' }
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(response.json().error).toBe('Session spec does not belong to the patient')
+      expect(authorizationRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('returns 400 when the dates are reversed', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/authorizations',
+        payload: { ...payload, startDate: '2025-04-01' }
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(response.json().error).toBe('startDate must not be after endDate')
+    })
+  })
+
+  describe('PUT /api/authorizations/:id', () => {
+    it('checks a new end date against the stored start date', async () => {
+      vi.mocked(authorizationRepository.findById).mockResolvedValue(authorization)
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/authorizations/auth-1',
+        payload: { endDate: '2024-12-31' }
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(authorizationRepository.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('DELETE /api/authorizations/:id', () => {
+    it('returns 404 for an authorization of another organization', async () => {
+      vi.mocked(authorizationRepository.delete).mockResolvedValue(false)
+
+      const response = await app.inject({ method: 'DELETE', url: '/api/authorizations/auth-2' })
+
+      expect(response.statusCode).toBe(404)
+    })
+  })
+})
@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import Fastify, { FastifyInstance } from 'fastify'
+import type { JWTPayload } from '../../types/index.js'
+
+vi.mock('../../middleware/auth.js', () => ({
+  authenticate: vi.fn(async () => {}),
+  requireAdmin: vi.fn(() => async () => {})
+}))
+
+vi.mock('../../repositories/holidays.js', () => ({
+  holidayRepository: {
+    findByOrganization: vi.fn(),
+    findById: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/audit.js', () => ({
+  logAudit: vi.fn()
+}))
+
+vi.mock('../../services/holidays.js', () => ({
+  getClinicClosures: vi.fn(),
+  getFederalHolidays: vi.fn()
+}))
+
+import { holidayRepository } from '../../repositories/holidays.js'
+import { logAudit } from '../../repositories/audit.js'
+import { getClinicClosures, getFederalHolidays } from '../../services/holidays.js'
+
+const defaultMockUser: JWTPayload = {
+  userId: 'test-user-id',
+  email: 'test@example.com',
+  role: 'admin',
+  organizationId: 'test-org-id'
+}
+
+const holiday = {
+  id: 'holiday-1',
+  organizationId: 'test-org-id',
+  name: 'Christmas Eve',
+  date: new Date('2025-12-24T00:00:00Z'),
+  reason: null,
+  startTime: '13:00',
+  endTime: '18:00',
+  recurring: true,
+  createdAt: new Date(),
+  updatedAt: new Date()
+}
+
+async function buildTestApp(): Promise<FastifyInstance> {
+  const app = Fastify({
+    logger: false
+  })
+
+  app.addHook('onRequest', async (request) => {
+    request.ctx = {
+      user: defaultMockUser,
+      organizationId: defaultMockUser.organizationId
+    }
+  })
+
+  const { holidayRoutes } = await import('../holidays.js')
+  await app.register(holidayRoutes, { prefix: '/api/holidays' })
+
+  return app
+}
+
+describe('Holiday Routes', () => {
+  let app: FastifyInstance
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    app = await buildTestApp()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('POST /api/holidays', () => {
+    it('creates a recurring partial-day holiday', async () => {
+      vi.mocked(holidayRepository.create).mockResolvedValue(holiday)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/holidays',
+        payload: { name: 'Christmas Eve', date: '2025-12-24', startTime: '13:00', endTime: '18:00', recurring: true }
+      })
+
+      expect(response.statusCode).toBe(201)
+      expect(holidayRepository.create).toHaveBeenCalledWith({
+        organizationId: 'test-org-id',
+        name: 'Christmas Eve',
+        date: new Date('2025-12-24'),
+        reason: undefined,
+        startTime: '13:00',
+        endTime: '18:00',
+        recurring: true
+      })
+      expect(logAudit).toHaveBeenCalledWith('test-user-id', 'create', 'holiday', 'holiday-1', 'test-org-id', expect.any(Object))
+    })
+
+    it('returns 400 when only one closing time is given', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/holidays',
+        payload: { name: 'Early Close', date: '2025-12-31', startTime: '13:00' }
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(response.json().error).toBe('startTime and endTime must be set together')
+      expect(holidayRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('returns 400 for an invalid date', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/holidays',
+        payload: { name: 'Retreat', date: '12/24/2025' }
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(response.json().error).toBe('Validation failed')
+    })
+  })
+
+  describe('PUT /api/holidays/:id', () => {
+    it('checks new closing hours against the stored ones', async () => {
+      vi.mocked(holidayRepository.findById).mockResolvedValue(holiday)
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/holidays/holiday-1',
+        payload: { startTime: '19:00' }
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(response.json().error).toBe('startTime must be before endTime')
+      expect(holidayRepository.update).not.toHaveBeenCalled()
+    })
+
+    it('turns a partial-day holiday into an all-day one', async () => {
+      vi.mocked(holidayRepository.findById).mockResolvedValue(holiday)
+      vi.mocked(holidayRepository.update).mockResolvedValue({ ...holiday, startTime: null, endTime: null })
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/holidays/holiday-1',
+        payload: { startTime: null, endTime: null }
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(holidayRepository.update).toHaveBeenCalledWith('holiday-1', 'test-org-id', {
+        startTime: null,
+        endTime: null,
+        date: undefined
+      })
+    })
+
+    it('returns 404 for a holiday of another organization', async () => {
+      vi.mocked(holidayRepository.findById).mockResolvedValue(null)
+
+      const response = await app.inject({ method: 'PUT', url: '/api/holidays/holiday-2', payload: { name: 'Retreat' } })
+
+      expect(response.statusCode).toBe(404)
+    })
+  })
+
+  describe('DELETE /api/holidays/:id', () => {
+    it('deletes the holiday', async () => {
+      vi.mocked(holidayRepository.delete).mockResolvedValue(true)
+
+      const response = await app.inject({ method: 'DELETE', url: '/api/holidays/holiday-1' })
+
+      expect(response.statusCode).toBe(204)
+      expect(holidayRepository.delete).toHaveBeenCalledWith('holiday-1', 'test-org-id')
+    })
+  })
+
+  describe('GET /api/holidays/closures', () => {
+    it('returns the closures in the range', async () => {
+      const closures = [{ date: '2025-11-27', name: 'Thanksgiving', startTime: null, endTime: null }]
+      vi.mocked(getClinicClosures).mockResolvedValue(closures)
+
+      const response = await app.inject({ method: 'GET', url: '/api/holidays/closures?from=2025-11-24&to=2025-11-30' })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.json().data).toEqual(closures)
+      expect(getClinicClosures).toHaveBeenCalledWith('test-org-id', new Date('2025-11-24'), new Date('2025-11-30'))
+    })
+
+    it('returns 400 for a range longer than a year', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/holidays/closures?from=2025-01-01&to=2027-01-01' })
+
+      expect(response.statusCode).toBe(400)
+      expect(getClinicClosures).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET /api/holidays/federal', () => {
+    it('returns the federal holidays of the year', async () => {
+      const holidays = [{ name: 'Independence Day (observed)', date: '2026-07-03' }]
+      vi.mocked(getFederalHolidays).mockReturnValue(holidays)
+
+      const response = await app.inject({ method: 'GET', url: '/api/holidays/federal?year=2026' })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.json().data).toEqual(holidays)
+      expect(getFederalHolidays).toHaveBeenCalledWith(2026)
+    })
+
+    it('returns 400 without a year', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/holidays/federal' })
+
+      expect(response.statusCode).toBe(400)
+    })
+  })
+})
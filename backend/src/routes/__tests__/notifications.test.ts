@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import Fastify, { FastifyInstance } from 'fastify'
+import type { JWTPayload } from '../../types/index.js'
+
+vi.mock('../../middleware/auth.js', () => ({
+  requireAdmin: vi.fn(() => async () => {})
+}))
+
+vi.mock('../../repositories/notifications.js', () => ({
+  notificationRepository: {
+    findByOrganization: vi.fn(),
+    findById: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/audit.js', () => ({
+  logAudit: vi.fn()
+}))
+
+vi.mock('../../services/notifications.js', async () => {
+  const actual = await vi.importActual<typeof import('../../services/notifications.js')>('../../services/notifications.js')
+  return {
+    NotificationError: actual.NotificationError,
+    resendNotification: vi.fn(),
+    recordBounce: vi.fn(),
+    recordSmsReceipt: vi.fn()
+  }
+})
+
+vi.mock('../../services/sms.js', () => ({
+  handleInboundSms: vi.fn()
+}))
+
+import { notificationRepository, type Notification } from '../../repositories/notifications.js'
+import { logAudit } from '../../repositories/audit.js'
+import { NotificationError, recordBounce, recordSmsReceipt, resendNotification } from '../../services/notifications.js'
+import { handleInboundSms } from '../../services/sms.js'
+
+const defaultMockUser: JWTPayload = {
+  userId: 'test-user-id',
+  email: 'test@example.com',
+  role: 'admin',
+  organizationId: 'test-org-id'
+}
+
+const failed = {
+  id: 'notification-1',
+  organizationId: 'test-org-id',
+  channel: 'email',
+  kind: 'session_reminder',
+  recipients: ['maria@example.com'],
+  subject: 'Appointment reminder',
+  textBody: 'See you tomorrow',
+  htmlBody: null,
+  sensitive: false,
+  status: 'failed',
+  attempts: 6,
+  nextAttemptAt: new Date(),
+  lastError: 'Throttling',
+  providerMessageId: null,
+  sentAt: null,
+  deliveredAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date()
+} as Notification
+
+function sesEvent(message: Record<string, unknown>) {
+  return {
+    Type: 'Notification',
+    Message: JSON.stringify(message)
+  }
+}
+
+async function buildTestApp(): Promise<FastifyInstance> {
+  const app = Fastify({
+    logger: false
+  })
+
+  app.addHook('onRequest', async (request) => {
+    request.ctx = {
+      user: defaultMockUser,
+      organizationId: defaultMockUser.organizationId
+    }
+  })
+
+  const { notificationRoutes } = await import('../notifications.js')
+  await app.register(notificationRoutes, { prefix: '/api/notifications' })
+
+  return app
+}
+
+describe('Notification Routes', () => {
+  let app: FastifyInstance
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    process.env.SES_EVENTS_TOKEN = 'events-token'
+    process.env.SMS_EVENTS_TOKEN = 'sms-token'
+    process.env.SMS_PROVIDER = 'log'
+    app = await buildTestApp()
+  })
+
+  afterEach(async () => {
+    delete process.env.SES_EVENTS_TOKEN
+    delete process.env.SMS_EVENTS_TOKEN
+    delete process.env.SMS_PROVIDER
+    await app.close()
+  })
+
+  describe('GET /api/notifications', () => {
+    it('lists the organization\'s notifications filtered by status', async () => {
+      vi.mocked(notificationRepository.findByOrganization).mockResolvedValue({
+        data: [],
+        total: 0,
+        page: 1,
+        limit: 20,
+        totalPages: 0
+      })
+
+      const response = await app.inject({ method: 'GET', url: '/api/notifications?status=failed' })
+
+      expect(response.statusCode).toBe(200)
+      expect(notificationRepository.findByOrganization).toHaveBeenCalledWith('test-org-id', {
+        page: 1,
+        limit: 20,
+        status: 'failed'
+      })
+    })
+
+    it('rejects an unknown status', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/notifications?status=lost' })
+
+      expect(response.statusCode).toBe(400)
+    })
+  })
+
+  describe('POST /api/notifications/:id/resend', () => {
+    it('resends and audits', async () => {
+      vi.mocked(notificationRepository.findById).mockResolvedValue(failed)
+      vi.mocked(resendNotification).mockResolvedValue('sent')
+
+      const response = await app.inject({ method: 'POST', url: '/api/notifications/notification-1/resend' })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.json().data).toEqual({ id: 'notification-1', status: 'sent' })
+      expect(logAudit).toHaveBeenCalledWith('test-user-id', 'resend', 'notification', 'notification-1', 'test-org-id', {
+        kind: 'session_reminder',
+        previousStatus: 'failed'
+      })
+    })
+
+    it('returns 400 when it cannot be resent', async () => {
+      vi.mocked(notificationRepository.findById).mockResolvedValue({ ...failed, status: 'sent' })
+      vi.mocked(resendNotification).mockRejectedValue(new NotificationError('Only failed or bounced notifications can be resent'))
+
+      const response = await app.inject({ method: 'POST', url: '/api/notifications/notification-1/resend' })
+
+      expect(response.statusCode).toBe(400)
+      expect(logAudit).not.toHaveBeenCalled()
+    })
+
+    it('returns 404 for another organization\'s notification', async () => {
+      vi.mocked(notificationRepository.findById).mockResolvedValue(null)
+
+      const response = await app.inject({ method: 'POST', url: '/api/notifications/other/resend' })
+
+      expect(response.statusCode).toBe(404)
+    })
+  })
+
+  describe('POST /api/notifications/ses-events', () => {
+    it('records a permanent bounce sent by SNS as text/plain', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/notifications/ses-events?token=events-token',
+        headers: { 'content-type': 'text/plain; charset=UTF-8' },
+        payload: JSON.stringify(sesEvent({
+          notificationType: 'Bounce',
+          bounce: { bounceType: 'Permanent', bounceSubType: 'NoEmail' },
+          mail: { messageId: 'ses-message-1' }
+        }))
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(recordBounce).toHaveBeenCalledWith('ses-message-1', 'Bounced: NoEmail')
+    })
+
+    it('ignores transient bounces', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/notifications/ses-events?token=events-token',
+        payload: sesEvent({
+          notificationType: 'Bounce',
+          bounce: { bounceType: 'Transient' },
+          mail: { messageId: 'ses-message-1' }
+        })
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(recordBounce).not.toHaveBeenCalled()
+    })
+
+    it('rejects a request without the events token', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/notifications/ses-events?token=wrong',
+        payload: sesEvent({ notificationType: 'Bounce', mail: { messageId: 'ses-message-1' } })
+      })
+
+      expect(response.statusCode).toBe(401)
+      expect(recordBounce).not.toHaveBeenCalled()
+    })
+  })
+  describe('POST /api/notifications/sms-events', () => {
+    it('records receipts and handles replies', async () => {
+      vi.mocked(recordSmsReceipt).mockResolvedValueOnce(true).mockResolvedValueOnce(false)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/notifications/sms-events?token=sms-token',
+        payload: [
+          { type: 'receipt', messageId: 'sms-1', status: 'delivered' },
+          { type: 'receipt', messageId: 'unknown', status: 'failed', error: 'Unreachable' },
+          { type: 'inbound', from: '+15555550100', to: '+15555550199', body: 'STOP' }
+        ]
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.json()).toEqual({ received: true, receipts: 1, replies: 1 })
+      expect(recordSmsReceipt).toHaveBeenCalledWith('sms-1', true, undefined)
+      expect(recordSmsReceipt).toHaveBeenCalledWith('unknown', false, 'Unreachable')
+      expect(handleInboundSms).toHaveBeenCalledWith('+15555550100', '+15555550199', 'STOP')
+    })
+
+    it('rejects a request without the events token', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/notifications/sms-events?token=events-token',
+        payload: { type: 'inbound', from: '+15555550100', body: 'STOP' }
+      })
+
+      expect(response.statusCode).toBe(401)
+      expect(handleInboundSms).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import Fastify, { FastifyInstance } from 'fastify'
+import jwt from '@fastify/jwt'
+import cookie from '@fastify/cookie'
+import type { JWTPayload } from '../../types/index.js'
+import { RuleCategory, type Rule } from '@prisma/client'
+
+// Mock the auth middleware
+vi.mock('../../middleware/auth.js', () => ({
+  authenticate: vi.fn(async () => {}),
+  requireRole: vi.fn(() => async () => {}),
+  requireSuperAdmin: vi.fn(() => async () => {}),
+  requireAdmin: vi.fn(() => async () => {}),
+  requireAdminOrAssistant: vi.fn(() => async () => {})
+}))
+
+// Mock the repositories
+vi.mock('../../repositories/rules.js', () => ({
+  ruleRepository: {
+    findActiveByOrganization: vi.fn(),
+    findById: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/staff.js', () => ({
+  staffRepository: {
+    findByOrganization: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/patients.js', () => ({
+  patientRepository: {
+    findByOrganization: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/rooms.js', () => ({
+  roomRepository: {
+    findByOrganization: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/audit.js', () => ({
+  logAudit: vi.fn()
+}))
+
+// Mock the AI provider service
+vi.mock('../../services/aiProvider.js', () => ({
+  analyzeRulesWithAI: vi.fn()
+}))
+
+// Import mocked modules
+import { ruleRepository } from '../../repositories/rules.js'
+
+// Default mock user for testing
+const defaultMockUser: JWTPayload = {
+  userId: 'test-user-id',
+  email: 'test@example.com',
+  role: 'admin',
+  organizationId: 'test-org-id'
+}
+
+async function buildTestApp(options?: {
+  mockUser?: JWTPayload | null
+}): Promise<FastifyInstance> {
+  const app = Fastify({
+    logger: false
+  })
+
+  await app.register(cookie)
+  await app.register(jwt, {
+    secret: 'test-secret'
+  })
+
+  const mockUser = options?.mockUser !== undefined ? options.mockUser : defaultMockUser
+
+  app.addHook('onRequest', async (request) => {
+    request.ctx = {
+      user: mockUser,
+      organizationId: mockUser?.organizationId || null
+    }
+  })
+
+  const { ruleRoutes } = await import('../rules.js')
+  await app.register(ruleRoutes, { prefix: '/api/rules' })
+
+  return app
+}
+
+function mockRule(overrides: Partial<Rule> = {}): Rule {
+  return {
+    id: 'rule-1',
+    organizationId: 'test-org-id',
+    category: RuleCategory.session,
+    description: 'At most four sessions per day',
+    ruleLogic: { maxSessionsPerDay: 4 },
+    priority: 1,
+    isActive: true,
+    createdById: 'test-user-id',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  }
+}
+
+describe('Rules Routes', () => {
+  let app: FastifyInstance
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    app = await buildTestApp()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('GET /api/rules/schema', () => {
+    it('returns the rule logic catalog', async () => {
+      const response = await app.inject({ method: 'GET', url: '/api/rules/schema' })
+
+      expect(response.statusCode).toBe(200)
+      const body = JSON.parse(response.payload)
+      expect(body.data.version).toBe(1)
+      expect(body.data.categories).toHaveLength(6)
+      expect(ruleRepository.findById).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('POST /api/rules', () => {
+    it('stores normalized rule logic', async () => {
+      vi.mocked(ruleRepository.create).mockResolvedValue(mockRule({ category: RuleCategory.gender_pairing }))
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/rules',
+        payload: {
+          category: 'gender_pairing',
+          description: 'Female patients see female therapists',
+          ruleLogic: { therapistGender: 'female', patientGender: 'female' }
+        }
+      })
+
+      expect(response.statusCode).toBe(201)
+      expect(ruleRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        ruleLogic: { preferredTherapistGender: 'female', patientGender: 'female' }
+      }))
+    })
+
+    it('rejects rule logic outside the catalog', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/rules',
+        payload: {
+          category: 'session',
+          description: 'Short days',
+          ruleLogic: { maxHoursPerDay: 6 }
+        }
+      })
+
+      expect(response.statusCode).toBe(400)
+      const body = JSON.parse(response.payload)
+      expect(body.error).toBe('Invalid rule logic')
+      expect(body.details[0].field).toBe('maxHoursPerDay')
+      expect(ruleRepository.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('PUT /api/rules/:id', () => {
+    it('validates new logic against the stored category', async () => {
+      vi.mocked(ruleRepository.findById).mockResolvedValue(mockRule())
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/rules/rule-1',
+        payload: { ruleLogic: { type: 'force_pair' } }
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(ruleRepository.update).not.toHaveBeenCalled()
+    })
+
+    it('re-validates stored logic when only the category changes', async () => {
+      vi.mocked(ruleRepository.findById).mockResolvedValue(mockRule())
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/rules/rule-1',
+        payload: { category: 'certification' }
+      })
+
+      expect(response.statusCode).toBe(400)
+    })
+
+    it('skips logic validation for description-only updates', async () => {
+      vi.mocked(ruleRepository.update).mockResolvedValue(mockRule({ description: 'Renamed' }))
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/rules/rule-1',
+        payload: { description: 'Renamed' }
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(ruleRepository.findById).not.toHaveBeenCalled()
+      expect(ruleRepository.update).toHaveBeenCalledWith('rule-1', 'test-org-id', { description: 'Renamed' })
+    })
+
+    it('returns 404 when the rule does not exist', async () => {
+      vi.mocked(ruleRepository.findById).mockResolvedValue(null)
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/rules/missing',
+        payload: { ruleLogic: {} }
+      })
+
+      expect(response.statusCode).toBe(404)
+    })
+  })
+
+  describe('POST /api/rules/parse-voice', () => {
+    it('drops pairing logic it cannot resolve to staff and patients', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/rules/parse-voice',
+        payload: { transcript: 'Always pair Sarah with Emily' }
+      })
+
+      expect(response.statusCode).toBe(200)
+      const body = JSON.parse(response.payload)
+      expect(body.data.rule.category).toBe('specific_pairing')
+      expect(body.data.rule.ruleLogic).toEqual({})
+      expect(body.data.warnings.length).toBeGreaterThan(0)
+    })
+  })
+})
@@ -0,0 +1,251 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import Fastify, { FastifyInstance } from 'fastify'
+import jwt from '@fastify/jwt'
+import cookie from '@fastify/cookie'
+import websocket from '@fastify/websocket'
+import type { JWTPayload } from '../../types/index.js'
+
+vi.mock('../../middleware/auth.js', () => ({
+  authenticate: vi.fn(async () => {}),
+  requireRole: vi.fn(() => async () => {}),
+  requireSuperAdmin: vi.fn(() => async () => {}),
+  requireAdmin: vi.fn(() => async () => {}),
+  requireAdminOrAssistant: vi.fn(() => async () => {})
+}))
+
+vi.mock('../../repositories/generationJobs.js', () => ({
+  generationJobRepository: {
+    create: vi.fn(),
+    findById: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/audit.js', () => ({
+  logAudit: vi.fn()
+}))
+
+vi.mock('../../services/generationJobs.js', () => ({
+  runGenerationJob: vi.fn(async () => null),
+  cancelGenerationJob: vi.fn(),
+  subscribeToGenerationJob: vi.fn(() => () => {}),
+  isJobFinished: vi.fn(() => false),
+  toJobEvent: vi.fn()
+}))
+
+vi.mock('../../services/aiProvider.js', () => ({
+  isProviderConfigured: vi.fn(() => true),
+  getActiveProvider: vi.fn(() => 'openai')
+}))
+
+vi.mock('../../services/scheduler.js', () => ({
+  AI_ENGINE_DISABLED: 'AI scheduling is turned off for this organization.'
+}))
+
+vi.mock('../../repositories/organizationSettings.js', () => ({
+  organizationSettingsRepository: {
+    getSchedulingEngine: vi.fn(async () => 'ai')
+  }
+}))
+
+import { generationJobRepository } from '../../repositories/generationJobs.js'
+import { logAudit } from '../../repositories/audit.js'
+import { runGenerationJob, cancelGenerationJob } from '../../services/generationJobs.js'
+import { isProviderConfigured } from '../../services/aiProvider.js'
+import { organizationSettingsRepository } from '../../repositories/organizationSettings.js'
+
+const defaultMockUser: JWTPayload = {
+  userId: 'test-user-id',
+  email: 'test@example.com',
+  role: 'admin',
+  organizationId: 'test-org-id'
+}
+
+const queuedJob = {
+  id: 'job-1',
+  organizationId: 'test-org-id',
+  createdById: 'test-user-id',
+  weekStartDate: new Date('2024-01-15T00:00:00Z'),
+  engine: null,
+  status: 'queued',
+  progress: 0,
+  message: 'Waiting to start',
+  scheduleId: null,
+  result: null,
+  error: null
+}
+
+async function buildTestApp(): Promise<FastifyInstance> {
+  const app = Fastify({
+    logger: false
+  })
+
+  await app.register(cookie)
+  await app.register(jwt, {
+    secret: 'test-secret'
+  })
+  await app.register(websocket)
+
+  app.addHook('onRequest', async (request) => {
+    request.ctx = {
+      user: defaultMockUser,
+      organizationId: defaultMockUser.organizationId
+    }
+  })
+
+  const { scheduleJobRoutes } = await import('../scheduleJobs.js')
+  await app.register(scheduleJobRoutes, { prefix: '/api/schedules/jobs' })
+
+  return app
+}
+
+describe('Schedule Job Routes', () => {
+  let app: FastifyInstance
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    app = await buildTestApp()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('POST /api/schedules/jobs', () => {
+    it('queues a job and returns it right away', async () => {
+      vi.mocked(generationJobRepository.create).mockResolvedValue(queuedJob as any)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/jobs',
+        payload: { weekStartDate: '2024-01-15', engine: 'solver' }
+      })
+
+      expect(response.statusCode).toBe(202)
+      expect(response.json().data.id).toBe('job-1')
+      expect(generationJobRepository.create).toHaveBeenCalledWith({
+        organizationId: 'test-org-id',
+        createdById: 'test-user-id',
+        weekStartDate: new Date('2024-01-15'),
+        engine: 'solver'
+      })
+      expect(runGenerationJob).toHaveBeenCalledWith(queuedJob)
+    })
+
+    it('audits the schedule once the job completes', async () => {
+      vi.mocked(generationJobRepository.create).mockResolvedValue(queuedJob as any)
+      vi.mocked(runGenerationJob).mockResolvedValue({
+        schedule: { id: 'schedule-1' },
+        result: { engine: 'solver', stats: { totalSessions: 4, patientsScheduled: 2, therapistsUsed: 1 } }
+      } as any)
+
+      await app.inject({
+        method: 'POST',
+        url: '/api/schedules/jobs',
+        payload: { weekStartDate: '2024-01-15' }
+      })
+      await vi.waitFor(() => expect(logAudit).toHaveBeenCalled())
+
+      expect(logAudit).toHaveBeenCalledWith('test-user-id', 'create', 'schedule', 'schedule-1', 'test-org-id', expect.objectContaining({
+        engine: 'solver',
+        sessionsGenerated: 4,
+        jobId: 'job-1'
+      }))
+    })
+
+    it('returns 400 without a week start date', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/jobs',
+        payload: {}
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(response.json().error).toBe('Validation failed')
+      expect(generationJobRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('returns 503 when the AI engine is requested but not configured', async () => {
+      vi.mocked(isProviderConfigured).mockReturnValueOnce(false)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/jobs',
+        payload: { weekStartDate: '2024-01-15', engine: 'ai' }
+      })
+
+      expect(response.statusCode).toBe(503)
+      expect(generationJobRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('returns 403 when the AI engine is requested and the organization uses the solver', async () => {
+      vi.mocked(organizationSettingsRepository.getSchedulingEngine).mockResolvedValueOnce('solver')
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/jobs',
+        payload: { weekStartDate: '2024-01-15', engine: 'ai' }
+      })
+
+      expect(response.statusCode).toBe(403)
+      expect(generationJobRepository.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('GET /api/schedules/jobs/:id', () => {
+    it('returns the job with its result', async () => {
+      vi.mocked(generationJobRepository.findById).mockResolvedValue({
+        ...queuedJob,
+        status: 'done',
+        progress: 100,
+        scheduleId: 'schedule-1',
+        result: { engine: 'solver', warnings: [] }
+      } as any)
+
+      const response = await app.inject({ method: 'GET', url: '/api/schedules/jobs/job-1' })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.json().data).toMatchObject({ status: 'done', scheduleId: 'schedule-1' })
+      expect(generationJobRepository.findById).toHaveBeenCalledWith('job-1', 'test-org-id')
+    })
+
+    it('returns 404 for a job of another organization', async () => {
+      vi.mocked(generationJobRepository.findById).mockResolvedValue(null)
+
+      const response = await app.inject({ method: 'GET', url: '/api/schedules/jobs/job-2' })
+
+      expect(response.statusCode).toBe(404)
+    })
+  })
+
+  describe('POST /api/schedules/jobs/:id/cancel', () => {
+    it('cancels a running job', async () => {
+      vi.mocked(cancelGenerationJob).mockResolvedValue({ ...queuedJob, status: 'cancelled' } as any)
+
+      const response = await app.inject({ method: 'POST', url: '/api/schedules/jobs/job-1/cancel' })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.json().data.status).toBe('cancelled')
+      expect(cancelGenerationJob).toHaveBeenCalledWith('job-1', 'test-org-id')
+      expect(logAudit).toHaveBeenCalledWith('test-user-id', 'update', 'schedule_generation_job', 'job-1', 'test-org-id', {
+        action: 'cancel'
+      })
+    })
+
+    it('returns 409 when the job already finished', async () => {
+      vi.mocked(cancelGenerationJob).mockResolvedValue({ ...queuedJob, status: 'done' } as any)
+
+      const response = await app.inject({ method: 'POST', url: '/api/schedules/jobs/job-1/cancel' })
+
+      expect(response.statusCode).toBe(409)
+      expect(logAudit).not.toHaveBeenCalled()
+    })
+
+    it('returns 404 when the job does not exist', async () => {
+      vi.mocked(cancelGenerationJob).mockResolvedValue(null)
+
+      const response = await app.inject({ method: 'POST', url: '/api/schedules/jobs/missing/cancel' })
+
+      expect(response.statusCode).toBe(404)
+    })
+  })
+})
@@ -10,7 +10,41 @@ const defaultMockUser = {
   organizationId: 'test-org-id'
 }
 
+const mockQuality = {
+  score: 75,
+  components: {
+    preferredTime: { score: 0.5, hits: 1, total: 2 },
+    genderPreference: { score: null, hits: 0, total: 0 },
+    continuity: { score: 1, hits: 2, total: 2 },
+    spread: { score: null, hits: 0, total: 0 }
+  }
+}
+
+const mockUnmetDemand = {
+  requestedSessions: 3,
+  scheduledSessions: 1,
+  missingSessions: 2,
+  specs: [{
+    patientId: 'patient-1',
+    patientName: 'Emily Carter',
+    sessionSpecId: 'spec-1',
+    sessionSpecName: 'Speech, Language',
+    requested: 3,
+    scheduled: 1,
+    missing: 2,
+    slotsChecked: 80,
+    constraints: [{ reason: 'no_therapist_free' as const, message: 'No therapist with SLP is working and free', slots: 64 }],
+    suggestions: ['Add working hours for therapists with SLP, or hire another one']
+  }]
+}
+
 // Mock the auth middleware - must be before other imports
+// Publishing runs in a transaction; its client is the one the repositories get
+const mockTx = { name: 'tx' }
+vi.mock('../../repositories/base.js', () => ({
+  prisma: { $transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn(mockTx)) }
+}))
+
 vi.mock('../../middleware/auth.js', () => ({
   authenticate: vi.fn(async () => {}),
   requireRole: vi.fn(() => async () => {}),
@@ -33,9 +67,18 @@ vi.mock('../../repositories/schedules.js', () => ({
   },
   sessionRepository: {
     findBySchedule: vi.fn(),
+    findById: vi.fn(),
     create: vi.fn(),
     update: vi.fn(),
-    delete: vi.fn()
+    delete: vi.fn(),
+    cancelSession: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/staffAvailability.js', () => ({
+  staffAvailabilityRepository: {
+    findByIdWithOrg: vi.fn(),
+    create: vi.fn()
   }
 }))
 
@@ -57,9 +100,38 @@ vi.mock('../../repositories/audit.js', () => ({
   logAudit: vi.fn()
 }))
 
+vi.mock('../../repositories/scheduleSnapshots.js', () => ({
+  scheduleSnapshotRepository: {
+    create: vi.fn(),
+    findById: vi.fn(),
+    findByWeek: vi.fn()
+  }
+}))
+
 vi.mock('../../services/scheduler.js', () => ({
   generateSchedule: vi.fn(),
-  validateAndRegenerateCopiedSchedule: vi.fn()
+  validateAndRegenerateCopiedSchedule: vi.fn(),
+  checkSessionRules: vi.fn(async () => ({ hardViolations: [], softViolations: [], score: 0, satisfiedRuleIds: [] })),
+  refreshScheduleQuality: vi.fn(async () => null),
+  proposeScheduleRepair: vi.fn(),
+  applyScheduleRepair: vi.fn(async () => ({ reassigned: 1, moved: 0, cancelled: 1, availabilityId: 'availability-1' })),
+  validateRepairChanges: vi.fn(async () => []),
+  generateScheduleSeries: vi.fn(),
+  regenerateSchedule: vi.fn(),
+  getScheduleSupervision: vi.fn(),
+  simulateSchedule: vi.fn(),
+  SchedulingEngineError: class SchedulingEngineError extends Error {},
+  AI_ENGINE_DISABLED: 'AI scheduling is turned off for this organization.'
+}))
+
+vi.mock('../../repositories/organizationSettings.js', () => ({
+  organizationSettingsRepository: {
+    getSchedulingEngine: vi.fn(async () => 'ai')
+  }
+}))
+
+vi.mock('../../services/rollingSchedules.js', () => ({
+  refreshRollingSchedules: vi.fn()
 }))
 
 vi.mock('../../services/sessionLookup.js', () => ({
@@ -77,6 +149,10 @@ vi.mock('../../services/sessionValidation.js', () => ({
   validateSessionEntities: vi.fn()
 }))
 
+vi.mock('../../services/businessHours.js', () => ({
+  findBusinessHoursViolation: vi.fn(async () => null)
+}))
+
 vi.mock('../../services/aiProvider.js', () => ({
   isProviderConfigured: vi.fn(() => true),
   getActiveProvider: vi.fn(() => 'openai')
@@ -86,10 +162,30 @@ vi.mock('../../services/aiProvider.js', () => ({
 import { scheduleRepository, sessionRepository } from '../../repositories/schedules.js'
 import { staffRepository } from '../../repositories/staff.js'
 import { patientRepository } from '../../repositories/patients.js'
-import { generateSchedule, validateAndRegenerateCopiedSchedule } from '../../services/scheduler.js'
+import {
+  generateSchedule,
+  validateAndRegenerateCopiedSchedule,
+  checkSessionRules,
+  refreshScheduleQuality,
+  proposeScheduleRepair,
+  applyScheduleRepair,
+  validateRepairChanges,
+  generateScheduleSeries,
+  regenerateSchedule,
+  getScheduleSupervision,
+  simulateSchedule
+} from '../../services/scheduler.js'
+import { ScenarioError } from '../../services/scenarios.js'
+import { refreshRollingSchedules } from '../../services/rollingSchedules.js'
+import { logAudit } from '../../repositories/audit.js'
+import { scheduleSnapshotRepository } from '../../repositories/scheduleSnapshots.js'
+import { prisma } from '../../repositories/base.js'
+import { staffAvailabilityRepository } from '../../repositories/staffAvailability.js'
 import { findMatchingSessions, checkForConflicts, getDateForDayOfWeek } from '../../services/sessionLookup.js'
 import { validateSessionEntities } from '../../services/sessionValidation.js'
 import { isProviderConfigured } from '../../services/aiProvider.js'
+import { organizationSettingsRepository } from '../../repositories/organizationSettings.js'
+import { findBusinessHoursViolation } from '../../services/businessHours.js'
 
 describe('Schedule Routes', () => {
   let app: FastifyInstance
@@ -114,7 +210,10 @@ describe('Schedule Routes', () => {
           createdById: 'test-user-id',
           createdAt: new Date(),
           publishedAt: null,
-          version: 1
+          version: 1,
+          qualityScore: null,
+          qualityBreakdown: null,
+          unmetDemand: null
         },
         {
           id: 'schedule-2',
@@ -124,7 +223,10 @@ describe('Schedule Routes', () => {
           createdById: 'test-user-id',
           createdAt: new Date(),
           publishedAt: new Date(),
-          version: 1
+          version: 1,
+          qualityScore: null,
+          qualityBreakdown: null,
+          unmetDemand: null
         }
       ]
 
@@ -202,6 +304,243 @@ describe('Schedule Routes', () => {
     })
   })
 
+  describe('GET /api/schedules/:id/supervision', () => {
+    it('returns each supervised therapist\'s weekly totals', async () => {
+      const summary = {
+        ruleId: 'rule-1',
+        staffId: 'staff-1',
+        staffName: 'Sarah Johnson',
+        weekStartDate: '2025-01-06',
+        supervisorCertification: 'BCBA',
+        minimumPercent: 5,
+        directMinutes: 1200,
+        supervisedMinutes: 60,
+        requiredMinutes: 60,
+        met: true
+      }
+      vi.mocked(getScheduleSupervision).mockResolvedValue([summary])
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/schedules/schedule-1/supervision'
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(getScheduleSupervision).toHaveBeenCalledWith('test-org-id', 'schedule-1')
+      expect(JSON.parse(response.payload).data).toEqual([summary])
+    })
+
+    it('returns 404 when schedule not found', async () => {
+      vi.mocked(getScheduleSupervision).mockResolvedValue(null)
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/schedules/non-existent/supervision'
+      })
+
+      expect(response.statusCode).toBe(404)
+    })
+  })
+
+  describe('GET /api/schedules/:id/versions', () => {
+    it('lists the snapshots published for the schedule\'s week', async () => {
+      const weekStartDate = new Date('2025-01-06')
+      const publishedAt = new Date('2025-01-03T12:00:00Z')
+      vi.mocked(scheduleRepository.findById).mockResolvedValue({ id: 'schedule-2', weekStartDate } as any)
+      vi.mocked(scheduleSnapshotRepository.findByWeek).mockResolvedValue([{
+        id: 'snapshot-1',
+        organizationId: 'test-org-id',
+        scheduleId: 'schedule-1',
+        weekStartDate,
+        version: 1,
+        sessions: [{} as any, {} as any],
+        publishedById: 'test-user-id',
+        publishedAt
+      }])
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/schedules/schedule-2/versions'
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(scheduleSnapshotRepository.findByWeek).toHaveBeenCalledWith('test-org-id', weekStartDate)
+      expect(JSON.parse(response.payload).data).toEqual([{
+        id: 'snapshot-1',
+        scheduleId: 'schedule-1',
+        version: 1,
+        publishedAt: publishedAt.toISOString(),
+        publishedById: 'test-user-id',
+        sessionCount: 2
+      }])
+    })
+  })
+
+  describe('GET /api/schedules/:id/diff', () => {
+    const weekStartDate = new Date('2025-01-06')
+    const snapshotSession = {
+      id: 'session-1',
+      therapistId: 'staff-1',
+      therapistName: 'Sarah Johnson',
+      patientId: 'patient-1',
+      patientName: 'Emily Carter',
+      sessionSpecId: 'spec-1',
+      roomId: null,
+      roomName: null,
+      date: '2025-01-06',
+      startTime: '09:00',
+      endTime: '10:00',
+      status: 'scheduled'
+    }
+    const snapshot = {
+      id: 'snapshot-1',
+      organizationId: 'test-org-id',
+      scheduleId: 'schedule-1',
+      weekStartDate,
+      version: 1,
+      sessions: [snapshotSession],
+      publishedById: 'test-user-id',
+      publishedAt: new Date('2025-01-03T12:00:00Z')
+    }
+
+    beforeEach(() => {
+      vi.mocked(scheduleRepository.findById).mockResolvedValue({
+        id: 'schedule-2',
+        weekStartDate,
+        version: 2,
+        publishedAt: null
+      } as any)
+      // The draft copy moved the session to the afternoon with another therapist
+      vi.mocked(sessionRepository.findBySchedule).mockResolvedValue([{
+        ...snapshotSession,
+        id: 'session-2',
+        therapistId: 'staff-2',
+        therapistName: 'Mike Davis',
+        date: new Date('2025-01-06T00:00:00Z'),
+        startTime: '14:00',
+        endTime: '15:00'
+      }] as any)
+    })
+
+    it('compares against the week\'s latest snapshot by default', async () => {
+      vi.mocked(scheduleSnapshotRepository.findByWeek).mockResolvedValue([snapshot])
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/schedules/schedule-2/diff'
+      })
+
+      expect(response.statusCode).toBe(200)
+      const body = JSON.parse(response.payload)
+      expect(body.data.from).toEqual(expect.objectContaining({ snapshotId: 'snapshot-1', version: 1 }))
+      expect(body.data.to).toEqual(expect.objectContaining({ snapshotId: null, scheduleId: 'schedule-2', version: 2 }))
+      expect(body.data.changed).toEqual([
+        expect.objectContaining({ changes: ['moved', 'reassigned'] })
+      ])
+      expect(body.data.summary).toEqual({ added: 0, removed: 0, moved: 1, reassigned: 1, statusChanged: 0, unchanged: 0 })
+    })
+
+    it('compares against the snapshot named by against', async () => {
+      vi.mocked(scheduleSnapshotRepository.findById).mockResolvedValue({ ...snapshot, sessions: [] })
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/schedules/schedule-2/diff?against=snapshot-1'
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(scheduleSnapshotRepository.findById).toHaveBeenCalledWith('snapshot-1', 'test-org-id')
+      expect(JSON.parse(response.payload).data.summary.added).toBe(1)
+    })
+
+    it('returns 404 when the week has never been published', async () => {
+      vi.mocked(scheduleSnapshotRepository.findByWeek).mockResolvedValue([])
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/schedules/schedule-2/diff'
+      })
+
+      expect(response.statusCode).toBe(404)
+      expect(JSON.parse(response.payload).error).toBe('This week has no published version to compare against')
+    })
+
+    it('returns 404 when against names nothing', async () => {
+      vi.mocked(scheduleSnapshotRepository.findById).mockResolvedValue(null)
+      vi.mocked(scheduleRepository.findById).mockImplementation(async (id: string) =>
+        id === 'schedule-2' ? ({ id, weekStartDate, version: 2, publishedAt: null } as any) : null
+      )
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/schedules/schedule-2/diff?against=missing'
+      })
+
+      expect(response.statusCode).toBe(404)
+      expect(JSON.parse(response.payload).error).toBe('Version to compare against not found')
+    })
+  })
+
+  describe('GET /api/schedules/:id/unmet-demand', () => {
+    it('returns the report stored with the schedule', async () => {
+      vi.mocked(scheduleRepository.findById).mockResolvedValue({ id: 'schedule-1', unmetDemand: mockUnmetDemand } as any)
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/schedules/schedule-1/unmet-demand'
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(JSON.parse(response.payload).data).toEqual(mockUnmetDemand)
+    })
+
+    it('returns null for a schedule without a report', async () => {
+      vi.mocked(scheduleRepository.findById).mockResolvedValue({ id: 'schedule-1', unmetDemand: null } as any)
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/schedules/schedule-1/unmet-demand'
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(JSON.parse(response.payload).data).toBeNull()
+    })
+  })
+
+  describe('GET /api/schedules/:id/export/unmet-demand', () => {
+    it('exports the report as CSV', async () => {
+      vi.mocked(scheduleRepository.findById).mockResolvedValue({
+        id: 'schedule-1',
+        weekStartDate: new Date('2025-01-06'),
+        unmetDemand: mockUnmetDemand
+      } as any)
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/schedules/schedule-1/export/unmet-demand'
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.headers['content-type']).toContain('text/csv')
+      expect(response.headers['content-disposition']).toContain('unmet-demand-2025-01-06.csv')
+      expect(response.payload.split('\n')).toEqual([
+        'patient,sessionSpec,requested,scheduled,missing,constraints,suggestions',
+        'Emily Carter,"Speech, Language",3,1,2,No therapist with SLP is working and free (64 of 80 slots),"Add working hours for therapists with SLP, or hire another one"'
+      ])
+    })
+
+    it('returns 404 for a schedule without a report', async () => {
+      vi.mocked(scheduleRepository.findById).mockResolvedValue({ id: 'schedule-1', unmetDemand: null } as any)
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/schedules/schedule-1/export/unmet-demand'
+      })
+
+      expect(response.statusCode).toBe(404)
+    })
+  })
+
   describe('POST /api/schedules/generate', () => {
     it('generates a new schedule successfully', async () => {
       const mockSchedule = {
@@ -214,7 +553,16 @@ describe('Schedule Routes', () => {
           { scheduleId: '', therapistId: 'staff-1', patientId: 'patient-1', date: new Date(), startTime: '09:00', endTime: '10:00' }
         ],
         warnings: [],
-        stats: { totalSessions: 1, patientsScheduled: 1, therapistsUsed: 1 }
+        engine: 'ai' as const,
+        stats: {
+          totalSessions: 1,
+          patientsScheduled: 1,
+          therapistsUsed: 1,
+          ruleScore: 0,
+          continuityOfCare: { matched: 1, total: 1, rate: 1 }
+        },
+        quality: mockQuality,
+        unmetDemand: mockUnmetDemand
       }
       const mockSessions = [
         { id: 'session-1', therapistId: 'staff-1', patientId: 'patient-1' }
@@ -242,20 +590,90 @@ describe('Schedule Routes', () => {
       const body = JSON.parse(response.payload)
       expect(body.data.id).toBe('new-schedule')
       expect(body.meta.stats.totalSessions).toBe(1)
+      expect(body.meta.stats.continuityOfCare).toEqual({ matched: 1, total: 1, rate: 1 })
+      expect(body.meta.quality).toEqual(mockQuality)
+      expect(body.meta.unmetDemand).toEqual(mockUnmetDemand)
+      expect(scheduleRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ quality: mockQuality, unmetDemand: mockUnmetDemand })
+      )
     })
 
-    it('returns 503 when AI provider is not configured', async () => {
+    it('returns 503 when the AI engine is requested but not configured', async () => {
       vi.mocked(isProviderConfigured).mockReturnValueOnce(false)
 
       const response = await app.inject({
         method: 'POST',
         url: '/api/schedules/generate',
-        payload: { weekStartDate: '2025-01-06' }
+        payload: { weekStartDate: '2025-01-06', engine: 'ai' }
       })
 
       expect(response.statusCode).toBe(503)
       const body = JSON.parse(response.payload)
       expect(body.error).toContain('not configured')
+      expect(generateSchedule).not.toHaveBeenCalled()
+    })
+
+    it('returns 403 when the AI engine is requested and the organization uses the solver', async () => {
+      vi.mocked(organizationSettingsRepository.getSchedulingEngine).mockResolvedValueOnce('solver')
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/generate',
+        payload: { weekStartDate: '2025-01-06', engine: 'ai' }
+      })
+
+      expect(response.statusCode).toBe(403)
+      expect(JSON.parse(response.payload).error).toContain('turned off')
+      expect(generateSchedule).not.toHaveBeenCalled()
+    })
+
+    it('generates without an AI provider when no engine is requested', async () => {
+      vi.mocked(isProviderConfigured).mockReturnValue(false)
+      vi.mocked(generateSchedule).mockResolvedValue({
+        sessions: [],
+        warnings: ['AI scheduling service is not configured. The schedule was generated with the built-in solver.'],
+        engine: 'solver',
+        stats: { totalSessions: 0, patientsScheduled: 0, therapistsUsed: 0, ruleScore: 0, continuityOfCare: { matched: 0, total: 0, rate: null } },
+        quality: mockQuality,
+        unmetDemand: mockUnmetDemand
+      })
+      vi.mocked(scheduleRepository.create).mockResolvedValue({ id: 'new-schedule' } as any)
+      vi.mocked(sessionRepository.findBySchedule).mockResolvedValue([])
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/generate',
+        payload: { weekStartDate: '2025-01-06' }
+      })
+
+      vi.mocked(isProviderConfigured).mockReturnValue(true)
+
+      expect(response.statusCode).toBe(201)
+      const body = JSON.parse(response.payload)
+      expect(body.meta.engine).toBe('solver')
+      expect(generateSchedule).toHaveBeenCalledWith('test-org-id', expect.any(Date), { engine: undefined })
+    })
+
+    it('passes the requested solver engine through to the scheduler', async () => {
+      vi.mocked(generateSchedule).mockResolvedValue({
+        sessions: [],
+        warnings: [],
+        engine: 'solver',
+        stats: { totalSessions: 0, patientsScheduled: 0, therapistsUsed: 0, ruleScore: 0, continuityOfCare: { matched: 0, total: 0, rate: null } },
+        quality: mockQuality,
+        unmetDemand: mockUnmetDemand
+      })
+      vi.mocked(scheduleRepository.create).mockResolvedValue({ id: 'new-schedule' } as any)
+      vi.mocked(sessionRepository.findBySchedule).mockResolvedValue([])
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/generate',
+        payload: { weekStartDate: '2025-01-06', engine: 'solver' }
+      })
+
+      expect(response.statusCode).toBe(201)
+      expect(generateSchedule).toHaveBeenCalledWith('test-org-id', expect.any(Date), { engine: 'solver' })
     })
 
     it('returns 400 when no active staff', async () => {
@@ -297,6 +715,228 @@ describe('Schedule Routes', () => {
     })
   })
 
+  describe('POST /api/schedules/generate-series', () => {
+    it('generates consecutive weeks and reports each one', async () => {
+      vi.mocked(generateScheduleSeries).mockResolvedValue([
+        {
+          weekStartDate: '2025-01-06',
+          schedule: { id: 'schedule-1' },
+          result: {
+            sessions: [],
+            warnings: [],
+            engine: 'solver',
+            stats: { totalSessions: 4, patientsScheduled: 2, therapistsUsed: 2, ruleScore: 0 },
+            quality: mockQuality
+          }
+        },
+        { weekStartDate: '2025-01-13', schedule: { id: 'schedule-2' }, result: null }
+      ] as any)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/generate-series',
+        payload: { weekStartDate: '2025-01-06', weeks: 2, engine: 'solver' }
+      })
+
+      expect(response.statusCode).toBe(201)
+      const body = JSON.parse(response.payload)
+      expect(body.data.map((s: { id: string }) => s.id)).toEqual(['schedule-1', 'schedule-2'])
+      expect(body.meta.weeks[0]).toMatchObject({ scheduleId: 'schedule-1', generated: true, engine: 'solver' })
+      expect(body.meta.weeks[1]).toMatchObject({ scheduleId: 'schedule-2', generated: false })
+      expect(generateScheduleSeries).toHaveBeenCalledWith('test-org-id', expect.any(Date), 2, 'test-user-id', { engine: 'solver' })
+      expect(logAudit).toHaveBeenCalledTimes(1)
+    })
+
+    it('rejects more than eight weeks', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/generate-series',
+        payload: { weekStartDate: '2025-01-06', weeks: 9 }
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(generateScheduleSeries).not.toHaveBeenCalled()
+    })
+
+    it('returns 400 when no active staff', async () => {
+      vi.mocked(generateScheduleSeries).mockRejectedValue(new Error('No active staff members found'))
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/generate-series',
+        payload: { weekStartDate: '2025-01-06', weeks: 4 }
+      })
+
+      expect(response.statusCode).toBe(400)
+    })
+  })
+
+  describe('POST /api/schedules/:id/regenerate', () => {
+    const draftSchedule = {
+      id: 'schedule-1',
+      status: 'draft',
+      weekStartDate: new Date('2025-01-06'),
+      sessions: [{ id: 'session-1', locked: true }, { id: 'session-2', locked: false }]
+    }
+
+    it('regenerates the draft around its locked sessions', async () => {
+      vi.mocked(scheduleRepository.findByIdWithSessions).mockResolvedValue(draftSchedule as any)
+      vi.mocked(regenerateSchedule).mockResolvedValue({
+        result: {
+          sessions: [],
+          warnings: ['Room A is over capacity'],
+          engine: 'solver',
+          stats: { totalSessions: 5, patientsScheduled: 3, therapistsUsed: 2, ruleScore: 0 },
+          quality: mockQuality
+        },
+        lockedSessions: 1
+      } as any)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/schedule-1/regenerate',
+        payload: { engine: 'solver' }
+      })
+
+      expect(response.statusCode).toBe(200)
+      const body = JSON.parse(response.payload)
+      expect(body.data.id).toBe('schedule-1')
+      expect(body.meta).toMatchObject({ engine: 'solver', lockedSessions: 1, warnings: ['Room A is over capacity'] })
+      expect(regenerateSchedule).toHaveBeenCalledWith('test-org-id', draftSchedule, { engine: 'solver' })
+      expect(logAudit).toHaveBeenCalledWith('test-user-id', 'update', 'schedule', 'schedule-1', 'test-org-id', {
+        action: 'regenerate',
+        engine: 'solver',
+        sessionsGenerated: 5,
+        lockedSessions: 1
+      })
+    })
+
+    it('refuses the AI engine when the organization uses the solver', async () => {
+      vi.mocked(scheduleRepository.findByIdWithSessions).mockResolvedValue(draftSchedule as never)
+      vi.mocked(organizationSettingsRepository.getSchedulingEngine).mockResolvedValueOnce('solver')
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/schedule-1/regenerate',
+        payload: { engine: 'ai' }
+      })
+
+      expect(response.statusCode).toBe(403)
+      expect(regenerateSchedule).not.toHaveBeenCalled()
+    })
+
+    it('refuses to regenerate a published schedule', async () => {
+      vi.mocked(scheduleRepository.findByIdWithSessions).mockResolvedValue({ ...draftSchedule, status: 'published' } as any)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/schedule-1/regenerate',
+        payload: {}
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(regenerateSchedule).not.toHaveBeenCalled()
+    })
+
+    it('returns 404 for an unknown schedule', async () => {
+      vi.mocked(scheduleRepository.findByIdWithSessions).mockResolvedValue(null)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/missing/regenerate',
+        payload: {}
+      })
+
+      expect(response.statusCode).toBe(404)
+    })
+  })
+
+  describe('POST /api/schedules/rolling/refresh', () => {
+    it('refreshes the rolling horizon and audits changed weeks', async () => {
+      vi.mocked(refreshRollingSchedules).mockResolvedValue({
+        horizonWeeks: 2,
+        weeks: [
+          { weekStartDate: '2025-01-13', scheduleId: 'schedule-2', action: 'repaired', changes: 1, warnings: [] },
+          { weekStartDate: '2025-01-20', scheduleId: 'schedule-3', action: 'unchanged', changes: 0, warnings: [] }
+        ]
+      })
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/rolling/refresh'
+      })
+
+      expect(response.statusCode).toBe(200)
+      const body = JSON.parse(response.payload)
+      expect(body.meta.horizonWeeks).toBe(2)
+      expect(body.data).toHaveLength(2)
+      expect(refreshRollingSchedules).toHaveBeenCalledWith('test-org-id', 'test-user-id')
+      expect(logAudit).toHaveBeenCalledTimes(1)
+      expect(logAudit).toHaveBeenCalledWith('test-user-id', 'update', 'schedule', 'schedule-2', 'test-org-id', expect.objectContaining({
+        action: 'rolling_repair'
+      }))
+    })
+  })
+
+  describe('POST /api/schedules/simulate', () => {
+    const scenario = {
+      staff: {
+        add: [{ name: 'New RBT', gender: 'other', certifications: ['RBT'], defaultHours: { monday: { start: '09:00', end: '17:00' } } }]
+      },
+      rooms: { remove: ['room-3'] }
+    }
+
+    it('runs generation with the scenario and saves nothing', async () => {
+      const simulation = { weekStartDate: '2025-01-06', scenario: { totalSessions: 12 }, current: null }
+      vi.mocked(simulateSchedule).mockResolvedValue(simulation as any)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/simulate',
+        payload: { weekStartDate: '2025-01-06', scenario }
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(JSON.parse(response.payload).data).toEqual(simulation)
+      expect(simulateSchedule).toHaveBeenCalledWith(
+        'test-org-id',
+        new Date('2025-01-06'),
+        {
+          staff: { add: [expect.objectContaining({ name: 'New RBT', certifications: ['RBT'] })] },
+          rooms: { remove: ['room-3'] }
+        },
+        { engine: undefined }
+      )
+      expect(scheduleRepository.create).not.toHaveBeenCalled()
+      expect(logAudit).not.toHaveBeenCalled()
+    })
+
+    it('rejects an invalid scenario', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/simulate',
+        payload: { weekStartDate: '2025-01-06', scenario: { sessionSpecs: { update: [{ sessionsPerWeek: 4 }] } } }
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(JSON.parse(response.payload).error).toBe('Validation failed')
+      expect(simulateSchedule).not.toHaveBeenCalled()
+    })
+
+    it('returns 400 when the scenario refers to a missing record', async () => {
+      vi.mocked(simulateSchedule).mockRejectedValue(new ScenarioError('Scenario refers to room room-3, which doesn\'t exist'))
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/simulate',
+        payload: { weekStartDate: '2025-01-06', scenario }
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(JSON.parse(response.payload).error).toBe('Scenario refers to room room-3, which doesn\'t exist')
+    })
+  })
+
   describe('POST /api/schedules/:id/publish', () => {
     it('publishes a schedule successfully', async () => {
       const mockSchedule = {
@@ -305,6 +945,8 @@ describe('Schedule Routes', () => {
       }
 
       vi.mocked(scheduleRepository.publish).mockResolvedValue(mockSchedule as any)
+      vi.mocked(sessionRepository.findBySchedule).mockResolvedValue([])
+      vi.mocked(scheduleSnapshotRepository.create).mockResolvedValue({ id: 'snapshot-1' } as any)
 
       const response = await app.inject({
         method: 'POST',
@@ -316,6 +958,50 @@ describe('Schedule Routes', () => {
       expect(body.data.status).toBe('published')
     })
 
+    it('stores a snapshot of the published sessions', async () => {
+      const weekStartDate = new Date('2025-01-06')
+      vi.mocked(scheduleRepository.publish).mockResolvedValue({
+        id: 'schedule-1',
+        weekStartDate,
+        version: 2,
+        status: 'published'
+      } as any)
+      vi.mocked(sessionRepository.findBySchedule).mockResolvedValue([{
+        id: 'session-1',
+        therapistId: 'staff-1',
+        therapistName: 'Sarah Johnson',
+        patientId: 'patient-1',
+        patientName: 'Emily Carter',
+        sessionSpecId: null,
+        roomId: null,
+        date: new Date('2025-01-06T00:00:00Z'),
+        startTime: '09:00',
+        endTime: '10:00',
+        status: 'scheduled'
+      }] as any)
+      vi.mocked(scheduleSnapshotRepository.create).mockResolvedValue({ id: 'snapshot-1' } as any)
+
+      await app.inject({
+        method: 'POST',
+        url: '/api/schedules/schedule-1/publish'
+      })
+
+      expect(scheduleRepository.publish).toHaveBeenCalledWith('schedule-1', 'test-org-id', mockTx)
+      expect(sessionRepository.findBySchedule).toHaveBeenCalledWith('schedule-1', mockTx)
+      expect(scheduleSnapshotRepository.create).toHaveBeenCalledWith({
+        organizationId: 'test-org-id',
+        scheduleId: 'schedule-1',
+        weekStartDate,
+        version: 2,
+        sessions: [expect.objectContaining({ id: 'session-1', date: '2025-01-06', therapistName: 'Sarah Johnson' })],
+        publishedById: 'test-user-id'
+      }, mockTx)
+      expect(logAudit).toHaveBeenCalledWith('test-user-id', 'publish', 'schedule', 'schedule-1', 'test-org-id', {
+        snapshotId: 'snapshot-1',
+        version: 2
+      })
+    })
+
     it('returns 404 when schedule not found', async () => {
       vi.mocked(scheduleRepository.publish).mockResolvedValue(null)
 
@@ -325,6 +1011,22 @@ describe('Schedule Routes', () => {
       })
 
       expect(response.statusCode).toBe(404)
+      expect(scheduleSnapshotRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('fails without publishing when the snapshot cannot be stored', async () => {
+      vi.mocked(scheduleRepository.publish).mockResolvedValue({ id: 'schedule-1', version: 2, status: 'published' } as never)
+      vi.mocked(sessionRepository.findBySchedule).mockResolvedValue([])
+      vi.mocked(scheduleSnapshotRepository.create).mockRejectedValueOnce(new Error('write failed'))
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/schedule-1/publish'
+      })
+
+      expect(response.statusCode).toBe(500)
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1)
+      expect(logAudit).not.toHaveBeenCalled()
     })
   })
 
@@ -342,24 +1044,100 @@ describe('Schedule Routes', () => {
         url: '/api/schedules/schedule-1/archive'
       })
 
-      expect(response.statusCode).toBe(200)
+      expect(response.statusCode).toBe(200)
+      const body = JSON.parse(response.payload)
+      expect(body.data.status).toBe('archived')
+    })
+  })
+
+  describe('POST /api/schedules/:id/sessions', () => {
+    it('creates a new session', async () => {
+      const mockSchedule = { id: 'schedule-1', status: 'draft' }
+      const mockSession = {
+        id: 'session-1',
+        therapistId: 'staff-1',
+        patientId: 'patient-1'
+      }
+
+      vi.mocked(scheduleRepository.findById).mockResolvedValue(mockSchedule as any)
+      vi.mocked(validateSessionEntities).mockResolvedValue({ valid: true, errors: [] })
+      vi.mocked(sessionRepository.create).mockResolvedValue(mockSession as any)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/schedule-1/sessions',
+        payload: {
+          staffId: 'staff-1',
+          patientId: 'patient-1',
+          date: '2025-01-06',
+          startTime: '09:00',
+          endTime: '10:00'
+        }
+      })
+
+      expect(response.statusCode).toBe(201)
+      const body = JSON.parse(response.payload)
+      expect(body.data.id).toBe('session-1')
+      expect(checkSessionRules).toHaveBeenCalledWith('test-org-id', expect.objectContaining({
+        therapistId: 'staff-1',
+        patientId: 'patient-1',
+        date: '2025-01-06'
+      }), { scheduleId: 'schedule-1' })
+    })
+
+    it('returns 409 when the session breaks a hard rule', async () => {
+      const mockSchedule = { id: 'schedule-1', status: 'draft' }
+
+      vi.mocked(scheduleRepository.findById).mockResolvedValue(mockSchedule as any)
+      vi.mocked(validateSessionEntities).mockResolvedValue({ valid: true, errors: [] })
+      vi.mocked(checkSessionRules).mockResolvedValueOnce({
+        hardViolations: [{
+          ruleId: 'rule-1',
+          category: 'session',
+          description: 'Max 1 session per day',
+          message: 'Sarah Johnson would exceed 1 sessions on 2025-01-06',
+          hard: true,
+          penalty: 0
+        }],
+        softViolations: [],
+        score: 0,
+        satisfiedRuleIds: []
+      })
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/schedule-1/sessions',
+        payload: {
+          staffId: 'staff-1',
+          patientId: 'patient-1',
+          date: '2025-01-06',
+          startTime: '09:00',
+          endTime: '10:00'
+        }
+      })
+
+      expect(response.statusCode).toBe(409)
       const body = JSON.parse(response.payload)
-      expect(body.data.status).toBe('archived')
+      expect(body.error).toBe('Session violates scheduling rules')
+      expect(body.details).toEqual(['Sarah Johnson would exceed 1 sessions on 2025-01-06'])
+      expect(sessionRepository.create).not.toHaveBeenCalled()
     })
-  })
 
-  describe('POST /api/schedules/:id/sessions', () => {
-    it('creates a new session', async () => {
+    it('returns 409 with the violation when the session is outside business hours', async () => {
       const mockSchedule = { id: 'schedule-1', status: 'draft' }
-      const mockSession = {
-        id: 'session-1',
-        therapistId: 'staff-1',
-        patientId: 'patient-1'
+      const violation = {
+        code: 'OUTSIDE_BUSINESS_HOURS' as const,
+        message: 'Session time 17:00-18:00 is outside business hours on 2025-01-10 (08:00-14:00)',
+        date: '2025-01-10',
+        startTime: '17:00',
+        endTime: '18:00',
+        businessHours: { start: '08:00', end: '14:00' },
+        exceptionReason: null
       }
 
       vi.mocked(scheduleRepository.findById).mockResolvedValue(mockSchedule as any)
       vi.mocked(validateSessionEntities).mockResolvedValue({ valid: true, errors: [] })
-      vi.mocked(sessionRepository.create).mockResolvedValue(mockSession as any)
+      vi.mocked(findBusinessHoursViolation).mockResolvedValueOnce(violation)
 
       const response = await app.inject({
         method: 'POST',
@@ -367,15 +1145,22 @@ describe('Schedule Routes', () => {
         payload: {
           staffId: 'staff-1',
           patientId: 'patient-1',
-          date: '2025-01-06',
-          startTime: '09:00',
-          endTime: '10:00'
+          date: '2025-01-10',
+          startTime: '17:00',
+          endTime: '18:00'
         }
       })
 
-      expect(response.statusCode).toBe(201)
+      expect(response.statusCode).toBe(409)
       const body = JSON.parse(response.payload)
-      expect(body.data.id).toBe('session-1')
+      expect(body.code).toBe('OUTSIDE_BUSINESS_HOURS')
+      expect(body.details).toEqual(violation)
+      expect(findBusinessHoursViolation).toHaveBeenCalledWith('test-org-id', {
+        date: '2025-01-10',
+        startTime: '17:00',
+        endTime: '18:00'
+      })
+      expect(sessionRepository.create).not.toHaveBeenCalled()
     })
 
     it('returns 400 when session entities are invalid (cross-tenant)', async () => {
@@ -425,6 +1210,18 @@ describe('Schedule Routes', () => {
   })
 
   describe('PUT /api/schedules/:scheduleId/sessions/:sessionId', () => {
+    const mockExistingSession = {
+      id: 'session-1',
+      scheduleId: 'schedule-1',
+      therapistId: 'staff-1',
+      patientId: 'patient-1',
+      sessionSpecId: 'spec-1',
+      roomId: null,
+      date: new Date('2025-01-06T00:00:00Z'),
+      startTime: '09:00',
+      endTime: '10:00'
+    }
+
     it('updates a session successfully', async () => {
       const mockSchedule = { id: 'schedule-1', status: 'draft' }
       const mockSession = {
@@ -434,6 +1231,7 @@ describe('Schedule Routes', () => {
       }
 
       vi.mocked(scheduleRepository.findById).mockResolvedValue(mockSchedule as any)
+      vi.mocked(sessionRepository.findById).mockResolvedValue(mockExistingSession as any)
       vi.mocked(sessionRepository.update).mockResolvedValue(mockSession as any)
 
       const response = await app.inject({
@@ -448,13 +1246,108 @@ describe('Schedule Routes', () => {
       expect(response.statusCode).toBe(200)
       const body = JSON.parse(response.payload)
       expect(body.data.startTime).toBe('10:00')
+      expect(checkSessionRules).toHaveBeenCalledWith('test-org-id', {
+        therapistId: 'staff-1',
+        patientId: 'patient-1',
+        sessionSpecId: 'spec-1',
+        roomId: null,
+        date: '2025-01-06',
+        startTime: '10:00',
+        endTime: '11:00'
+      }, { scheduleId: 'schedule-1', excludeSessionId: 'session-1' })
+      expect(sessionRepository.update).toHaveBeenCalledWith('session-1', 'schedule-1', expect.objectContaining({ explanation: null }))
+      expect(refreshScheduleQuality).toHaveBeenCalledWith('test-org-id', 'schedule-1')
+    })
+
+    it('returns 409 when the change breaks a hard rule', async () => {
+      const mockSchedule = { id: 'schedule-1', status: 'draft' }
+
+      vi.mocked(scheduleRepository.findById).mockResolvedValue(mockSchedule as any)
+      vi.mocked(sessionRepository.findById).mockResolvedValue(mockExistingSession as any)
+      vi.mocked(checkSessionRules).mockResolvedValueOnce({
+        hardViolations: [{
+          ruleId: 'rule-1',
+          category: 'availability',
+          description: 'Sessions end by 16:00 on Fridays',
+          message: 'Sessions on friday must end by 16:00',
+          hard: true,
+          penalty: 0
+        }],
+        softViolations: [],
+        score: 0,
+        satisfiedRuleIds: []
+      })
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/schedules/schedule-1/sessions/session-1',
+        payload: {
+          date: '2025-01-10',
+          startTime: '16:00',
+          endTime: '17:00'
+        }
+      })
+
+      expect(response.statusCode).toBe(409)
+      expect(sessionRepository.update).not.toHaveBeenCalled()
+    })
+
+    it('does not complete a session, which would skip authorization usage', async () => {
+      vi.mocked(scheduleRepository.findById).mockResolvedValue({ id: 'schedule-1', status: 'published' } as never)
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/schedules/schedule-1/sessions/session-1',
+        payload: { status: 'completed' }
+      })
+
+      expect(response.statusCode).not.toBe(200)
+      expect(sessionRepository.update).not.toHaveBeenCalled()
+    })
+
+    it('skips the rule check for note-only edits', async () => {
+      const mockSchedule = { id: 'schedule-1', status: 'draft' }
+
+      vi.mocked(scheduleRepository.findById).mockResolvedValue(mockSchedule as any)
+      vi.mocked(sessionRepository.update).mockResolvedValue({ id: 'session-1', notes: 'Bring toys' } as any)
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/schedules/schedule-1/sessions/session-1',
+        payload: { notes: 'Bring toys' }
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(checkSessionRules).not.toHaveBeenCalled()
+      expect(refreshScheduleQuality).not.toHaveBeenCalled()
+    })
+
+    it('locks a session without touching its explanation', async () => {
+      const mockSchedule = { id: 'schedule-1', status: 'draft' }
+
+      vi.mocked(scheduleRepository.findById).mockResolvedValue(mockSchedule as any)
+      vi.mocked(sessionRepository.update).mockResolvedValue({ id: 'session-1', locked: true } as any)
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/schedules/schedule-1/sessions/session-1',
+        payload: { locked: true }
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(JSON.parse(response.payload).data.locked).toBe(true)
+      expect(sessionRepository.update).toHaveBeenCalledWith('session-1', 'schedule-1', expect.objectContaining({
+        locked: true,
+        explanation: undefined
+      }))
+      expect(checkSessionRules).not.toHaveBeenCalled()
     })
 
     it('returns 404 when session not found', async () => {
       const mockSchedule = { id: 'schedule-1', status: 'draft' }
 
       vi.mocked(scheduleRepository.findById).mockResolvedValue(mockSchedule as any)
-      vi.mocked(sessionRepository.update).mockResolvedValue(null)
+      vi.mocked(sessionRepository.findById).mockResolvedValue(null)
 
       const response = await app.inject({
         method: 'PUT',
@@ -465,6 +1358,7 @@ describe('Schedule Routes', () => {
       })
 
       expect(response.statusCode).toBe(404)
+      expect(sessionRepository.update).not.toHaveBeenCalled()
     })
   })
 
@@ -481,6 +1375,7 @@ describe('Schedule Routes', () => {
       })
 
       expect(response.statusCode).toBe(204)
+      expect(refreshScheduleQuality).toHaveBeenCalledWith('test-org-id', 'schedule-1')
     })
 
     it('returns 404 when session not found', async () => {
@@ -498,6 +1393,214 @@ describe('Schedule Routes', () => {
     })
   })
 
+  describe('POST /api/schedules/:id/repair', () => {
+    const mockSchedule = {
+      id: 'schedule-1',
+      status: 'published',
+      weekStartDate: new Date('2025-01-06T00:00:00Z'),
+      sessions: [
+        { id: 'session-1', therapistId: 'staff-1', patientId: 'patient-1', patientName: 'Emily Carter', status: 'scheduled' },
+        { id: 'session-2', therapistId: 'staff-1', patientId: 'patient-2', patientName: 'Ava Lee', status: 'scheduled' }
+      ]
+    }
+
+    it('returns a proposed change set for a new unavailability', async () => {
+      const proposal = {
+        unavailability: { staffId: 'staff-1', date: '2025-01-08', available: false, startTime: null, endTime: null, reason: 'Sick' },
+        changes: [{ sessionId: 'session-1', action: 'reassign' }],
+        warnings: []
+      }
+      vi.mocked(scheduleRepository.findByIdWithSessions).mockResolvedValue(mockSchedule as any)
+      vi.mocked(validateSessionEntities).mockResolvedValue({ valid: true, errors: [] })
+      vi.mocked(proposeScheduleRepair).mockResolvedValue(proposal as any)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/schedule-1/repair',
+        payload: { staffId: 'staff-1', date: '2025-01-08', reason: 'Sick' }
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(JSON.parse(response.payload).data).toEqual(proposal)
+      expect(proposeScheduleRepair).toHaveBeenCalledWith('test-org-id', mockSchedule, proposal.unavailability)
+      expect(sessionRepository.update).not.toHaveBeenCalled()
+    })
+
+    it('uses an existing availability record', async () => {
+      vi.mocked(scheduleRepository.findByIdWithSessions).mockResolvedValue(mockSchedule as any)
+      vi.mocked(staffAvailabilityRepository.findByIdWithOrg).mockResolvedValue({
+        id: 'availability-1',
+        staffId: 'staff-1',
+        date: new Date('2025-01-08T00:00:00Z'),
+        available: true,
+        startTime: '09:00',
+        endTime: '12:00',
+        reason: 'Appointment'
+      } as any)
+      vi.mocked(proposeScheduleRepair).mockResolvedValue({ changes: [], warnings: [] } as any)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/schedule-1/repair',
+        payload: { availabilityId: 'availability-1' }
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(proposeScheduleRepair).toHaveBeenCalledWith('test-org-id', mockSchedule, {
+        staffId: 'staff-1',
+        date: '2025-01-08',
+        available: true,
+        startTime: '09:00',
+        endTime: '12:00',
+        reason: 'Appointment'
+      })
+    })
+
+    it('returns 400 without a staff member and date', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/schedule-1/repair',
+        payload: { reason: 'Sick' }
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(proposeScheduleRepair).not.toHaveBeenCalled()
+    })
+
+    it('returns 400 when the date is outside the schedule week', async () => {
+      vi.mocked(scheduleRepository.findByIdWithSessions).mockResolvedValue(mockSchedule as any)
+      vi.mocked(validateSessionEntities).mockResolvedValue({ valid: true, errors: [] })
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/schedule-1/repair',
+        payload: { staffId: 'staff-1', date: '2025-01-20' }
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(proposeScheduleRepair).not.toHaveBeenCalled()
+    })
+
+    it('applies the accepted changes and records the unavailability', async () => {
+      vi.mocked(scheduleRepository.findByIdWithSessions).mockResolvedValue(mockSchedule as any)
+      vi.mocked(validateSessionEntities).mockResolvedValue({ valid: true, errors: [] })
+      vi.mocked(checkForConflicts).mockResolvedValue([])
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/schedule-1/repair/apply',
+        payload: {
+          staffId: 'staff-1',
+          date: '2025-01-08',
+          reason: 'Sick',
+          changes: [
+            {
+              sessionId: 'session-1',
+              action: 'reassign',
+              replacement: { therapistId: 'staff-2', roomId: null, date: '2025-01-08', startTime: '10:00', endTime: '11:00' }
+            },
+            { sessionId: 'session-2', action: 'cancel' }
+          ]
+        }
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(JSON.parse(response.payload).meta).toEqual({
+        availabilityId: 'availability-1',
+        applied: { reassigned: 1, moved: 0, cancelled: 1 }
+      })
+      expect(applyScheduleRepair).toHaveBeenCalledWith('test-org-id', 'schedule-1', [
+        {
+          sessionId: 'session-1',
+          action: 'reassign',
+          replacement: { therapistId: 'staff-2', roomId: null, date: '2025-01-08', startTime: '10:00', endTime: '11:00' }
+        },
+        { sessionId: 'session-2', action: 'cancel' }
+      ], { cancelledById: 'test-user-id', notes: 'Sick' }, expect.objectContaining({
+        staffId: 'staff-1',
+        available: false,
+        status: 'approved'
+      }))
+      expect(refreshScheduleQuality).toHaveBeenCalledWith('test-org-id', 'schedule-1')
+    })
+
+    it('returns 409 and changes nothing when a replacement slot is taken', async () => {
+      vi.mocked(scheduleRepository.findByIdWithSessions).mockResolvedValue(mockSchedule as any)
+      vi.mocked(validateSessionEntities).mockResolvedValue({ valid: true, errors: [] })
+      vi.mocked(checkForConflicts).mockResolvedValue([
+        { id: 'session-9', therapistName: 'John Smith', patientName: 'Noah Kim', startTime: '10:00', status: 'scheduled' }
+      ] as any)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/schedule-1/repair/apply',
+        payload: {
+          staffId: 'staff-1',
+          date: '2025-01-08',
+          changes: [{
+            sessionId: 'session-1',
+            action: 'move',
+            replacement: { therapistId: 'staff-2', roomId: null, date: '2025-01-08', startTime: '10:00', endTime: '11:00' }
+          }]
+        }
+      })
+
+      expect(response.statusCode).toBe(409)
+      expect(JSON.parse(response.payload).details[0]).toContain('conflicts with John Smith')
+      expect(applyScheduleRepair).not.toHaveBeenCalled()
+    })
+
+    it('returns 409 when a replacement breaks business hours, availability or rules', async () => {
+      vi.mocked(scheduleRepository.findByIdWithSessions).mockResolvedValue(mockSchedule as never)
+      vi.mocked(validateSessionEntities).mockResolvedValue({ valid: true, errors: [] })
+      vi.mocked(checkForConflicts).mockResolvedValue([])
+      vi.mocked(validateRepairChanges).mockResolvedValueOnce([
+        'Emily Carter at 18:00 on 2025-01-08: Session is outside business hours'
+      ])
+      const changes = [{
+        sessionId: 'session-1',
+        action: 'move',
+        replacement: { therapistId: 'staff-2', roomId: null, date: '2025-01-08', startTime: '18:00', endTime: '19:00' }
+      }]
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/schedule-1/repair/apply',
+        payload: { staffId: 'staff-1', date: '2025-01-08', changes }
+      })
+
+      expect(response.statusCode).toBe(409)
+      expect(JSON.parse(response.payload).details).toEqual([
+        'Emily Carter at 18:00 on 2025-01-08: Session is outside business hours'
+      ])
+      expect(validateRepairChanges).toHaveBeenCalledWith('test-org-id', mockSchedule, expect.objectContaining({ staffId: 'staff-1', date: '2025-01-08' }), changes)
+      expect(applyScheduleRepair).not.toHaveBeenCalled()
+    })
+
+    it('returns 409 when a session no longer has the supervisor being replaced', async () => {
+      vi.mocked(scheduleRepository.findByIdWithSessions).mockResolvedValue(mockSchedule as never)
+      vi.mocked(validateSessionEntities).mockResolvedValue({ valid: true, errors: [] })
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/schedules/schedule-1/repair/apply',
+        payload: {
+          staffId: 'staff-4',
+          date: '2025-01-08',
+          changes: [{
+            sessionId: 'session-1',
+            action: 'replace_staff',
+            staffAssignment: { staffId: 'staff-4', role: 'supervisor', replacementStaffId: 'staff-5' }
+          }]
+        }
+      })
+
+      expect(response.statusCode).toBe(409)
+      expect(JSON.parse(response.payload).details).toEqual(['Session session-1 no longer has that supervisor or co-treater'])
+      expect(applyScheduleRepair).not.toHaveBeenCalled()
+    })
+  })
+
   describe('POST /api/schedules/:id/modify-voice', () => {
     const mockSchedule = {
       id: 'schedule-1',
@@ -558,6 +1661,35 @@ describe('Schedule Routes', () => {
       })
     })
 
+    describe('lock action', () => {
+      it('locks the matching session', async () => {
+        const mockSession = {
+          id: 'session-1',
+          therapistName: 'Sarah Johnson',
+          patientName: 'Emily Carter',
+          startTime: '09:00'
+        }
+
+        vi.mocked(scheduleRepository.findByIdWithSessions).mockResolvedValue(mockSchedule as any)
+        vi.mocked(findMatchingSessions).mockResolvedValue([
+          { session: mockSession, matchScore: 80, matchDetails: ['Patient: Emily Carter'] }
+        ] as any)
+        vi.mocked(sessionRepository.update).mockResolvedValue({ ...mockSession, locked: true } as any)
+
+        const response = await app.inject({
+          method: 'POST',
+          url: '/api/schedules/schedule-1/modify-voice',
+          payload: { action: 'lock', patientName: 'Emily' }
+        })
+
+        expect(response.statusCode).toBe(200)
+        const body = JSON.parse(response.payload)
+        expect(body.data.action).toBe('locked')
+        expect(body.data.session.locked).toBe(true)
+        expect(sessionRepository.update).toHaveBeenCalledWith('session-1', 'schedule-1', { locked: true })
+      })
+    })
+
     describe('move action', () => {
       it('moves a session to a new time', async () => {
         const mockSession = {
@@ -636,6 +1768,65 @@ describe('Schedule Routes', () => {
         const body = JSON.parse(response.payload)
         expect(body.error).toContain('Time conflict')
       })
+
+      it('returns 409 when the move breaks a hard rule', async () => {
+        const mockSession = {
+          id: 'session-1',
+          therapistId: 'staff-1',
+          patientId: 'patient-1',
+          sessionSpecId: 'spec-1',
+          roomId: null,
+          therapistName: 'Sarah Johnson',
+          date: new Date('2025-01-06'),
+          startTime: '09:00',
+          endTime: '10:00'
+        }
+
+        vi.mocked(scheduleRepository.findByIdWithSessions).mockResolvedValue(mockSchedule as never)
+        vi.mocked(findMatchingSessions).mockResolvedValue([
+          { session: mockSession, matchScore: 80, matchDetails: [] }
+        ] as never)
+        vi.mocked(checkForConflicts).mockResolvedValue([])
+        vi.mocked(checkSessionRules).mockResolvedValueOnce({
+          hardViolations: [{
+            ruleId: 'rule-1',
+            category: 'availability',
+            description: 'No sessions after 16:00',
+            message: 'Sessions must end by 16:00',
+            hard: true,
+            penalty: 0
+          }],
+          softViolations: [],
+          score: 0,
+          satisfiedRuleIds: []
+        })
+
+        const response = await app.inject({
+          method: 'POST',
+          url: '/api/schedules/schedule-1/modify-voice',
+          payload: {
+            action: 'move',
+            therapistName: 'Sarah',
+            newStartTime: '16:00'
+          }
+        })
+
+        expect(response.statusCode).toBe(409)
+        expect(JSON.parse(response.payload)).toEqual({
+          error: 'Session violates scheduling rules',
+          details: ['Sessions must end by 16:00']
+        })
+        expect(checkSessionRules).toHaveBeenCalledWith('test-org-id', {
+          therapistId: 'staff-1',
+          patientId: 'patient-1',
+          sessionSpecId: 'spec-1',
+          roomId: null,
+          date: '2025-01-06',
+          startTime: '16:00',
+          endTime: '17:00'
+        }, { scheduleId: 'schedule-1', excludeSessionId: 'session-1' })
+        expect(sessionRepository.update).not.toHaveBeenCalled()
+      })
     })
 
     it('returns 400 when trying to modify a published schedule', async () => {
@@ -882,6 +2073,56 @@ describe('Schedule Routes', () => {
         const body = JSON.parse(response.payload)
         expect(body.error).toContain('Time conflict')
       })
+
+      it('returns 409 when the new session breaks a hard rule', async () => {
+        vi.mocked(scheduleRepository.findByIdWithSessions).mockResolvedValue(mockSchedule as never)
+        vi.mocked(findMatchingSessions).mockResolvedValue([])
+        vi.mocked(staffRepository.findAll).mockResolvedValue({
+          data: [{ id: 'staff-1', name: 'Sarah Johnson' }],
+          total: 1,
+          totalPages: 1,
+          page: 1,
+          limit: 10
+        } as never)
+        vi.mocked(patientRepository.findAll).mockResolvedValue({
+          data: [{ id: 'patient-1', name: 'Emily Carter' }],
+          total: 1,
+          totalPages: 1,
+          page: 1,
+          limit: 10
+        } as never)
+        vi.mocked(getDateForDayOfWeek).mockReturnValue(new Date('2025-01-07'))
+        vi.mocked(checkForConflicts).mockResolvedValue([])
+        vi.mocked(checkSessionRules).mockResolvedValueOnce({
+          hardViolations: [{
+            ruleId: 'rule-1',
+            category: 'gender_pairing',
+            description: 'Emily requires a female therapist',
+            message: 'Emily Carter requires a female therapist',
+            hard: true,
+            penalty: 0
+          }],
+          softViolations: [],
+          score: 0,
+          satisfiedRuleIds: []
+        })
+
+        const response = await app.inject({
+          method: 'POST',
+          url: '/api/schedules/schedule-1/modify-voice',
+          payload: {
+            action: 'create',
+            therapistName: 'Sarah',
+            patientName: 'Emily',
+            newDayOfWeek: 'tuesday',
+            newStartTime: '10:00'
+          }
+        })
+
+        expect(response.statusCode).toBe(409)
+        expect(JSON.parse(response.payload).details).toEqual(['Emily Carter requires a female therapist'])
+        expect(sessionRepository.create).not.toHaveBeenCalled()
+      })
     })
   })
 
@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import Fastify, { FastifyInstance } from 'fastify'
+import type { JWTPayload } from '../../types/index.js'
+
+vi.mock('../../middleware/auth.js', () => ({
+  authenticate: vi.fn(async () => {}),
+  requireAdminOrAssistant: vi.fn(() => async () => {})
+}))
+
+vi.mock('../../repositories/series.js', () => ({
+  seriesRepository: {
+    findByOrganization: vi.fn(),
+    findById: vi.fn(),
+    findSessions: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/schedules.js', () => ({
+  sessionRepository: { findById: vi.fn() }
+}))
+
+vi.mock('../../repositories/patients.js', () => ({
+  patientRepository: { findByIdWithSessionSpecs: vi.fn() }
+}))
+
+vi.mock('../../repositories/audit.js', () => ({
+  logAudit: vi.fn()
+}))
+
+vi.mock('../../services/sessionValidation.js', () => ({
+  validateSessionEntities: vi.fn()
+}))
+
+vi.mock('../../services/series.js', async () => {
+  const actual = await vi.importActual<typeof import('../../services/series.js')>('../../services/series.js')
+  return {
+    SeriesError: actual.SeriesError,
+    SeriesConflictError: actual.SeriesConflictError,
+    previewSeries: vi.fn(),
+    createSeries: vi.fn(),
+    updateSeries: vi.fn(),
+    cancelSeries: vi.fn()
+  }
+})
+
+import { seriesRepository } from '../../repositories/series.js'
+import { sessionRepository } from '../../repositories/schedules.js'
+import { logAudit } from '../../repositories/audit.js'
+import { validateSessionEntities } from '../../services/sessionValidation.js'
+import { createSeries, updateSeries, cancelSeries, SeriesConflictError } from '../../services/series.js'
+
+const defaultMockUser: JWTPayload = {
+  userId: 'test-user-id',
+  email: 'test@example.com',
+  role: 'admin',
+  organizationId: 'test-org-id'
+}
+
+const series = {
+  id: 'series-1',
+  organizationId: 'test-org-id',
+  patientId: 'patient-1',
+  staffId: 'staff-1',
+  roomId: null,
+  sessionSpecId: null,
+  rrule: 'FREQ=WEEKLY;BYDAY=MO,WE',
+  startDate: new Date('2026-03-02T00:00:00.000Z'),
+  startTime: '15:00',
+  endTime: '16:00',
+  notes: null,
+  status: 'active' as const,
+  materializedThrough: null,
+  splitFromId: null,
+  createdByUserId: 'test-user-id',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  patient: { id: 'patient-1', name: 'Emily Carter' },
+  staff: { id: 'staff-1', name: 'Sarah Johnson' },
+  room: null,
+  sessionSpec: null
+}
+
+const payload = {
+  patientId: 'patient-1',
+  staffId: 'staff-1',
+  rrule: 'FREQ=WEEKLY;BYDAY=MO,WE',
+  startDate: '2026-03-02',
+  startTime: '15:00',
+  endTime: '16:00'
+}
+
+async function buildTestApp(): Promise<FastifyInstance> {
+  const app = Fastify({
+    logger: false
+  })
+
+  app.addHook('onRequest', async (request) => {
+    request.ctx = {
+      user: defaultMockUser,
+      organizationId: defaultMockUser.organizationId
+    }
+  })
+
+  const { seriesRoutes } = await import('../series.js')
+  await app.register(seriesRoutes, { prefix: '/api/series' })
+
+  return app
+}
+
+describe('Series Routes', () => {
+  let app: FastifyInstance
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    vi.mocked(validateSessionEntities).mockResolvedValue({ valid: true, errors: [] })
+    app = await buildTestApp()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('POST /api/series', () => {
+    it('creates the series and reports what was booked', async () => {
+      vi.mocked(createSeries).mockResolvedValue({ series, created: 8, skipped: [] })
+
+      const response = await app.inject({ method: 'POST', url: '/api/series', payload })
+
+      expect(response.statusCode).toBe(201)
+      expect(response.json().meta).toEqual({ created: 8, skipped: [] })
+      expect(createSeries).toHaveBeenCalledWith('test-org-id', payload, {
+        allowConflicts: undefined,
+        createdByUserId: 'test-user-id'
+      })
+      expect(logAudit).toHaveBeenCalledWith('test-user-id', 'create', 'appointment_series', 'series-1', 'test-org-id', payload)
+    })
+
+    it('returns 409 with the conflicting sessions', async () => {
+      const conflict = { sessionId: 'other', date: '2026-03-04', startTime: '15:30', endTime: '16:30', with: 'room' as const }
+      vi.mocked(createSeries).mockRejectedValue(new SeriesConflictError([conflict]))
+
+      const response = await app.inject({ method: 'POST', url: '/api/series', payload })
+
+      expect(response.statusCode).toBe(409)
+      expect(response.json().conflicts).toEqual([conflict])
+    })
+
+    it('returns 400 for a reversed time range', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/series',
+        payload: { ...payload, endTime: '14:00' }
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(createSeries).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('PUT /api/series/:id/occurrences/:sessionId', () => {
+    it('rejects a rule change for a single occurrence', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/series/series-1/occurrences/session-1',
+        payload: { scope: 'this', rrule: 'FREQ=WEEKLY;BYDAY=TU' }
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(updateSeries).not.toHaveBeenCalled()
+    })
+
+    it('returns 404 for a series of another organization', async () => {
+      vi.mocked(seriesRepository.findById).mockResolvedValue(null)
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/series/series-9/occurrences/session-1',
+        payload: { scope: 'all', startTime: '16:00', endTime: '17:00' }
+      })
+
+      expect(response.statusCode).toBe(404)
+      expect(updateSeries).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('POST /api/series/:id/occurrences/:sessionId/cancel', () => {
+    it('cancels with the requested scope', async () => {
+      const session = { id: 'session-1', seriesId: 'series-1' }
+      vi.mocked(seriesRepository.findById).mockResolvedValue(series)
+      vi.mocked(sessionRepository.findById).mockResolvedValue(session as never)
+      vi.mocked(cancelSeries).mockResolvedValue(5)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/series/series-1/occurrences/session-1/cancel',
+        payload: { scope: 'following', reason: 'patient_request' }
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.json().meta).toEqual({ cancelled: 5 })
+      expect(cancelSeries).toHaveBeenCalledWith('test-org-id', series, session, 'following', {
+        cancelledById: 'test-user-id',
+        reason: 'patient_request',
+        notes: undefined
+      })
+    })
+  })
+})
@@ -0,0 +1,294 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import Fastify, { FastifyInstance } from 'fastify'
+import type { JWTPayload } from '../../types/index.js'
+
+vi.mock('../../middleware/auth.js', () => ({
+  authenticate: vi.fn(async () => {}),
+  requireAdminOrAssistant: vi.fn(() => async () => {})
+}))
+
+vi.mock('../../repositories/schedules.js', () => ({
+  sessionRepository: {
+    findById: vi.fn(),
+    addParticipant: vi.fn(),
+    removeParticipant: vi.fn(),
+    updateParticipantStatus: vi.fn(),
+    updateStatus: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/patients.js', () => ({
+  patientRepository: {
+    findByIdWithSessionSpecs: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/staff.js', () => ({
+  staffRepository: {}
+}))
+
+vi.mock('../../repositories/organizationSettings.js', () => ({
+  organizationSettingsRepository: {}
+}))
+
+vi.mock('../../repositories/audit.js', () => ({
+  logAudit: vi.fn()
+}))
+
+vi.mock('../../services/authorizations.js', () => ({
+  consumeAuthorization: vi.fn()
+}))
+
+vi.mock('../../services/sessionLookup.js', () => ({
+  checkForConflicts: vi.fn()
+}))
+
+import { sessionRepository } from '../../repositories/schedules.js'
+import { patientRepository } from '../../repositories/patients.js'
+import { logAudit } from '../../repositories/audit.js'
+import { checkForConflicts } from '../../services/sessionLookup.js'
+import { consumeAuthorization } from '../../services/authorizations.js'
+
+const defaultMockUser: JWTPayload = {
+  userId: 'test-user-id',
+  email: 'test@example.com',
+  role: 'admin',
+  organizationId: 'test-org-id'
+}
+
+function participant(patientId: string, status = 'scheduled') {
+  return { id: `participant-${patientId}`, sessionId: 'session-1', patientId, sessionSpecId: null, status, statusUpdatedAt: null, createdAt: new Date() }
+}
+
+const groupSession = {
+  id: 'session-1',
+  scheduleId: 'schedule-1',
+  therapistId: 'staff-1',
+  patientId: 'patient-1',
+  date: new Date('2025-01-06T00:00:00Z'),
+  startTime: '10:00',
+  endTime: '11:00',
+  status: 'scheduled',
+  capacity: 2,
+  participants: [participant('patient-1')]
+}
+
+async function buildTestApp(): Promise<FastifyInstance> {
+  const app = Fastify({
+    logger: false
+  })
+
+  app.addHook('onRequest', async (request) => {
+    request.ctx = {
+      user: defaultMockUser,
+      organizationId: defaultMockUser.organizationId
+    }
+  })
+
+  const { sessionRoutes } = await import('../sessions.js')
+  await app.register(sessionRoutes, { prefix: '/api/sessions' })
+
+  return app
+}
+
+describe('Group Session Participant Routes', () => {
+  let app: FastifyInstance
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    app = await buildTestApp()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('POST /api/sessions/:id/participants', () => {
+    it('enrolls a free patient while the group has room', async () => {
+      vi.mocked(sessionRepository.findById).mockResolvedValue(groupSession as never)
+      vi.mocked(patientRepository.findByIdWithSessionSpecs).mockResolvedValue({ id: 'patient-2', name: 'Michael Brown', sessionSpecs: [{ id: 'spec-2' }] } as never)
+      vi.mocked(checkForConflicts).mockResolvedValue([])
+      vi.mocked(sessionRepository.addParticipant).mockResolvedValue({ status: 'enrolled', participant: participant('patient-2') } as never)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/sessions/session-1/participants',
+        payload: { patientId: 'patient-2', sessionSpecId: 'spec-2' }
+      })
+
+      expect(response.statusCode).toBe(201)
+      expect(sessionRepository.addParticipant).toHaveBeenCalledWith('session-1', { patientId: 'patient-2', sessionSpecId: 'spec-2' })
+      expect(logAudit).toHaveBeenCalledWith('test-user-id', 'update', 'session', 'session-1', 'test-org-id', {
+        action: 'add_participant',
+        patientId: 'patient-2',
+        sessionSpecId: 'spec-2'
+      })
+    })
+
+    it('returns 409 when the group is full', async () => {
+      vi.mocked(sessionRepository.findById).mockResolvedValue({
+        ...groupSession,
+        participants: [participant('patient-1'), participant('patient-3')]
+      } as never)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/sessions/session-1/participants',
+        payload: { patientId: 'patient-2' }
+      })
+
+      expect(response.statusCode).toBe(409)
+      expect(response.json().error).toBe('Group session is full (capacity 2)')
+      expect(sessionRepository.addParticipant).not.toHaveBeenCalled()
+    })
+
+    it('returns 409 when the last place is taken before the enrollment is saved', async () => {
+      vi.mocked(sessionRepository.findById).mockResolvedValue(groupSession as never)
+      vi.mocked(patientRepository.findByIdWithSessionSpecs).mockResolvedValue({ id: 'patient-2', name: 'Michael Brown', sessionSpecs: [] } as never)
+      vi.mocked(checkForConflicts).mockResolvedValue([])
+      vi.mocked(sessionRepository.addParticipant).mockResolvedValue({ status: 'full' })
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/sessions/session-1/participants',
+        payload: { patientId: 'patient-2' }
+      })
+
+      expect(response.statusCode).toBe(409)
+      expect(response.json().error).toBe('Group session is full (capacity 2)')
+      expect(logAudit).not.toHaveBeenCalled()
+    })
+
+    it('returns 409 when the patient is enrolled before the enrollment is saved', async () => {
+      vi.mocked(sessionRepository.findById).mockResolvedValue(groupSession as never)
+      vi.mocked(patientRepository.findByIdWithSessionSpecs).mockResolvedValue({ id: 'patient-2', name: 'Michael Brown', sessionSpecs: [] } as never)
+      vi.mocked(checkForConflicts).mockResolvedValue([])
+      vi.mocked(sessionRepository.addParticipant).mockResolvedValue({ status: 'already_enrolled' })
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/sessions/session-1/participants',
+        payload: { patientId: 'patient-2' }
+      })
+
+      expect(response.statusCode).toBe(409)
+      expect(response.json().error).toBe('Patient is already enrolled in this session')
+      expect(logAudit).not.toHaveBeenCalled()
+    })
+
+    it('enrolls a patient whose participation was cancelled again', async () => {
+      vi.mocked(sessionRepository.findById).mockResolvedValue({
+        ...groupSession,
+        participants: [participant('patient-1'), participant('patient-2', 'cancelled')]
+      } as never)
+      vi.mocked(patientRepository.findByIdWithSessionSpecs).mockResolvedValue({ id: 'patient-2', name: 'Michael Brown', sessionSpecs: [] } as never)
+      vi.mocked(checkForConflicts).mockResolvedValue([])
+      vi.mocked(sessionRepository.addParticipant).mockResolvedValue({ status: 'enrolled', participant: participant('patient-2') } as never)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/sessions/session-1/participants',
+        payload: { patientId: 'patient-2' }
+      })
+
+      expect(response.statusCode).toBe(201)
+      expect(sessionRepository.addParticipant).toHaveBeenCalledWith('session-1', { patientId: 'patient-2' })
+    })
+
+    it('returns 409 when the patient has another session at that time', async () => {
+      vi.mocked(sessionRepository.findById).mockResolvedValue(groupSession as never)
+      vi.mocked(patientRepository.findByIdWithSessionSpecs).mockResolvedValue({ id: 'patient-2', name: 'Michael Brown', sessionSpecs: [] } as never)
+      vi.mocked(checkForConflicts).mockResolvedValue([{ id: 'session-2' }] as never)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/sessions/session-1/participants',
+        payload: { patientId: 'patient-2' }
+      })
+
+      expect(response.statusCode).toBe(409)
+      expect(response.json().error).toBe('Michael Brown already has a session at this time')
+    })
+
+    it('returns 400 for a 1:1 session', async () => {
+      vi.mocked(sessionRepository.findById).mockResolvedValue({ ...groupSession, capacity: null, participants: [] } as never)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/sessions/session-1/participants',
+        payload: { patientId: 'patient-2' }
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(response.json().error).toBe('Session is not a group session')
+    })
+  })
+
+  describe('DELETE /api/sessions/:id/participants/:patientId', () => {
+    it('keeps the session\'s first patient enrolled', async () => {
+      vi.mocked(sessionRepository.findById).mockResolvedValue(groupSession as never)
+
+      const response = await app.inject({ method: 'DELETE', url: '/api/sessions/session-1/participants/patient-1' })
+
+      expect(response.statusCode).toBe(400)
+      expect(sessionRepository.removeParticipant).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('PUT /api/sessions/:id/participants/:patientId/status', () => {
+    it('records one participant\'s attendance', async () => {
+      vi.mocked(sessionRepository.findById).mockResolvedValue(groupSession as never)
+      vi.mocked(sessionRepository.updateParticipantStatus).mockResolvedValue(participant('patient-1', 'no_show') as never)
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/sessions/session-1/participants/patient-1/status',
+        payload: { status: 'no_show' }
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(sessionRepository.updateParticipantStatus).toHaveBeenCalledWith('session-1', 'patient-1', 'no_show')
+    })
+  })
+
+  describe('PUT /api/sessions/:id/status', () => {
+    it('draws down every participant\'s authorization when a session is completed', async () => {
+      const inProgress = { ...groupSession, status: 'in_progress', participants: [participant('patient-1'), participant('patient-2')] }
+      vi.mocked(sessionRepository.findById).mockResolvedValue(inProgress as never)
+      vi.mocked(sessionRepository.updateStatus).mockResolvedValue({ ...groupSession, status: 'completed' } as never)
+      vi.mocked(consumeAuthorization).mockResolvedValue([{ authorizationId: 'auth-1', units: 4 }] as never)
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/sessions/session-1/status',
+        payload: { status: 'completed' }
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(consumeAuthorization).toHaveBeenCalledWith('test-org-id', expect.objectContaining({
+        status: 'completed',
+        participants: inProgress.participants
+      }))
+      expect(logAudit).toHaveBeenCalledWith('test-user-id', 'update', 'session', 'session-1', 'test-org-id', {
+        action: 'status_change',
+        fromStatus: 'in_progress',
+        toStatus: 'completed',
+        authorizationUsage: [{ authorizationId: 'auth-1', units: 4 }]
+      })
+    })
+
+    it('leaves authorizations alone for other statuses', async () => {
+      vi.mocked(sessionRepository.findById).mockResolvedValue(groupSession as never)
+      vi.mocked(sessionRepository.updateStatus).mockResolvedValue({ ...groupSession, status: 'confirmed' } as never)
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/sessions/session-1/status',
+        payload: { status: 'confirmed' }
+      })
+
+      expect(response.statusCode).toBe(200)
+      expect(consumeAuthorization).not.toHaveBeenCalled()
+    })
+  })
+})
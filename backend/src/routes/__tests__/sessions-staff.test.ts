@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import Fastify, { FastifyInstance } from 'fastify'
+import type { JWTPayload } from '../../types/index.js'
+
+vi.mock('../../middleware/auth.js', () => ({
+  authenticate: vi.fn(async () => {}),
+  requireAdminOrAssistant: vi.fn(() => async () => {})
+}))
+
+vi.mock('../../repositories/schedules.js', () => ({
+  sessionRepository: {
+    findById: vi.fn(),
+    addStaffAssignment: vi.fn(),
+    removeStaffAssignment: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/staff.js', () => ({
+  staffRepository: {
+    findById: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/patients.js', () => ({
+  patientRepository: {}
+}))
+
+vi.mock('../../repositories/organizationSettings.js', () => ({
+  organizationSettingsRepository: {}
+}))
+
+vi.mock('../../repositories/audit.js', () => ({
+  logAudit: vi.fn()
+}))
+
+vi.mock('../../services/authorizations.js', () => ({
+  consumeAuthorization: vi.fn()
+}))
+
+vi.mock('../../services/sessionLookup.js', () => ({
+  checkForConflicts: vi.fn()
+}))
+
+import { sessionRepository } from '../../repositories/schedules.js'
+import { staffRepository } from '../../repositories/staff.js'
+import { logAudit } from '../../repositories/audit.js'
+import { checkForConflicts } from '../../services/sessionLookup.js'
+
+const defaultMockUser: JWTPayload = {
+  userId: 'test-user-id',
+  email: 'test@example.com',
+  role: 'admin',
+  organizationId: 'test-org-id'
+}
+
+const session = {
+  id: 'session-1',
+  scheduleId: 'schedule-1',
+  therapistId: 'staff-1',
+  patientId: 'patient-1',
+  date: new Date('2025-01-06T00:00:00Z'),
+  startTime: '10:00',
+  endTime: '11:00',
+  status: 'scheduled',
+  staffAssignments: []
+}
+
+async function buildTestApp(): Promise<FastifyInstance> {
+  const app = Fastify({
+    logger: false
+  })
+
+  app.addHook('onRequest', async (request) => {
+    request.ctx = {
+      user: defaultMockUser,
+      organizationId: defaultMockUser.organizationId
+    }
+  })
+
+  const { sessionRoutes } = await import('../sessions.js')
+  await app.register(sessionRoutes, { prefix: '/api/sessions' })
+
+  return app
+}
+
+describe('Session Staff Routes', () => {
+  let app: FastifyInstance
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    app = await buildTestApp()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('POST /api/sessions/:id/staff', () => {
+    it('adds a free supervisor to the session', async () => {
+      vi.mocked(sessionRepository.findById).mockResolvedValue(session as never)
+      vi.mocked(staffRepository.findById).mockResolvedValue({ id: 'staff-2', name: 'Dana Whitfield' } as never)
+      vi.mocked(checkForConflicts).mockResolvedValue([])
+      vi.mocked(sessionRepository.addStaffAssignment).mockResolvedValue({ id: 'assignment-1', staffId: 'staff-2', role: 'supervisor' } as never)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/sessions/session-1/staff',
+        payload: { staffId: 'staff-2', role: 'supervisor' }
+      })
+
+      expect(response.statusCode).toBe(201)
+      expect(checkForConflicts).toHaveBeenCalledWith(expect.objectContaining({ therapistId: 'staff-2', excludeSessionId: 'session-1' }))
+      expect(sessionRepository.addStaffAssignment).toHaveBeenCalledWith('session-1', { staffId: 'staff-2', role: 'supervisor' })
+      expect(logAudit).toHaveBeenCalledWith('test-user-id', 'update', 'session', 'session-1', 'test-org-id', {
+        action: 'add_staff',
+        staffId: 'staff-2',
+        role: 'supervisor'
+      })
+    })
+
+    it('returns 409 when the staff member has another session at that time', async () => {
+      vi.mocked(sessionRepository.findById).mockResolvedValue(session as never)
+      vi.mocked(staffRepository.findById).mockResolvedValue({ id: 'staff-2', name: 'Dana Whitfield' } as never)
+      vi.mocked(checkForConflicts).mockResolvedValue([{ id: 'session-2' }] as never)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/sessions/session-1/staff',
+        payload: { staffId: 'staff-2', role: 'co_treater' }
+      })
+
+      expect(response.statusCode).toBe(409)
+      expect(response.json().error).toBe('Dana Whitfield already has a session at this time')
+      expect(sessionRepository.addStaffAssignment).not.toHaveBeenCalled()
+    })
+
+    it('returns 409 for the session\'s own therapist', async () => {
+      vi.mocked(sessionRepository.findById).mockResolvedValue(session as never)
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/sessions/session-1/staff',
+        payload: { staffId: 'staff-1', role: 'co_treater' }
+      })
+
+      expect(response.statusCode).toBe(409)
+      expect(response.json().error).toBe('Staff member is already assigned to this session')
+    })
+
+    it('rejects an unknown role', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/sessions/session-1/staff',
+        payload: { staffId: 'staff-2', role: 'observer' }
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(sessionRepository.findById).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('DELETE /api/sessions/:id/staff/:staffId', () => {
+    it('removes the assignment', async () => {
+      vi.mocked(sessionRepository.findById).mockResolvedValue(session as never)
+      vi.mocked(sessionRepository.removeStaffAssignment).mockResolvedValue(true)
+
+      const response = await app.inject({ method: 'DELETE', url: '/api/sessions/session-1/staff/staff-2' })
+
+      expect(response.statusCode).toBe(204)
+      expect(sessionRepository.removeStaffAssignment).toHaveBeenCalledWith('session-1', 'staff-2')
+    })
+
+    it('returns 404 when the staff member is not assigned', async () => {
+      vi.mocked(sessionRepository.findById).mockResolvedValue(session as never)
+      vi.mocked(sessionRepository.removeStaffAssignment).mockResolvedValue(false)
+
+      const response = await app.inject({ method: 'DELETE', url: '/api/sessions/session-1/staff/staff-3' })
+
+      expect(response.statusCode).toBe(404)
+    })
+  })
+})
@@ -40,6 +40,13 @@ vi.mock('../../services/email.js', () => ({
   sendSuperAdminInvitation: vi.fn().mockResolvedValue(true)
 }))
 
+const mockTx = { name: 'tx' }
+vi.mock('../../repositories/base.js', () => ({
+  prisma: { $transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn(mockTx)) }
+}))
+
+import { sendSuperAdminInvitation } from '../../services/email.js'
+
 describe('Super Admin Users Routes', () => {
   let app: FastifyInstance
   let superAdminToken: string
@@ -216,6 +223,11 @@ describe('Super Admin Users Routes', () => {
       expect(body.data.role).toBe('super_admin')
       expect(body.inviteSent).toBe(true)
       expect(body.message).toContain('invitation email sent')
+      expect(mockPasswordResetTokenRepository.create).toHaveBeenCalledWith('new-super-admin', 'invitation', mockTx)
+      expect(sendSuperAdminInvitation).toHaveBeenCalledWith(
+        expect.objectContaining({ user: { email: 'newadmin@example.com', name: 'New Admin' } }),
+        { tx: mockTx }
+      )
     })
 
     it('should reject duplicate email', async () => {
@@ -390,6 +402,7 @@ describe('Super Admin Users Routes', () => {
       expect(response.statusCode).toBe(200)
       const body = JSON.parse(response.body)
       expect(body.message).toContain('Invitation email sent')
+      expect(mockPasswordResetTokenRepository.create).toHaveBeenCalledWith('super-admin-2', 'invitation', mockTx)
     })
 
     it('should reject resend for user who already set up password', async () => {
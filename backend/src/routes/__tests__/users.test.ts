@@ -50,6 +50,11 @@ vi.mock('../../repositories/audit.js', () => ({
   logAudit: vi.fn()
 }))
 
+const mockTx = { name: 'tx' }
+vi.mock('../../repositories/base.js', () => ({
+  prisma: { $transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn(mockTx)) }
+}))
+
 describe('User Routes', () => {
   let app: FastifyInstance
   let adminToken: string
@@ -298,8 +303,10 @@ describe('User Routes', () => {
         expect.objectContaining({
           user: { email: 'invited@test.com', name: 'Invited User' },
           token: 'invitation-token-3'
-        })
+        }),
+        { organizationId: 'org-1', tx: mockTx }
       )
+      expect(mockPasswordResetTokenRepository.create).toHaveBeenCalledWith('new-user-3', 'invitation', mockTx)
     })
   })
 
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import Fastify, { FastifyInstance } from 'fastify'
+import type { JWTPayload } from '../../types/index.js'
+
+vi.mock('../../middleware/auth.js', () => ({
+  authenticate: vi.fn(async () => {}),
+  requireAdminOrAssistant: vi.fn(() => async () => {})
+}))
+
+vi.mock('../../repositories/waitlist.js', () => ({
+  waitlistRepository: {
+    findByOrganization: vi.fn(),
+    findById: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/audit.js', () => ({
+  logAudit: vi.fn()
+}))
+
+vi.mock('../../services/waitlist.js', () => ({
+  removeFromWaitlist: vi.fn(),
+  waitlistEntryError: vi.fn()
+}))
+
+import { waitlistRepository } from '../../repositories/waitlist.js'
+import { logAudit } from '../../repositories/audit.js'
+import { removeFromWaitlist, waitlistEntryError } from '../../services/waitlist.js'
+
+const defaultMockUser: JWTPayload = {
+  userId: 'test-user-id',
+  email: 'test@example.com',
+  role: 'admin',
+  organizationId: 'test-org-id'
+}
+
+const entry = {
+  id: 'entry-1',
+  organizationId: 'test-org-id',
+  patientId: 'patient-1',
+  sessionSpecId: null,
+  days: ['monday', 'wednesday'],
+  earliestTime: '09:00',
+  latestTime: '12:00',
+  staffId: null,
+  requiredCertifications: [],
+  durationMinutes: null,
+  priority: 0,
+  notes: null,
+  status: 'waiting' as const,
+  createdByUserId: 'test-user-id',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  patient: { id: 'patient-1', name: 'Emily Carter' },
+  sessionSpec: null,
+  staff: null,
+  offers: []
+}
+
+const payload = {
+  patientId: 'patient-1',
+  days: ['monday', 'wednesday'],
+  earliestTime: '09:00',
+  latestTime: '12:00'
+}
+
+async function buildTestApp(): Promise<FastifyInstance> {
+  const app = Fastify({
+    logger: false
+  })
+
+  app.addHook('onRequest', async (request) => {
+    request.ctx = {
+      user: defaultMockUser,
+      organizationId: defaultMockUser.organizationId
+    }
+  })
+
+  const { waitlistRoutes } = await import('../waitlist.js')
+  await app.register(waitlistRoutes, { prefix: '/api/waitlist' })
+
+  return app
+}
+
+describe('Waitlist Routes', () => {
+  let app: FastifyInstance
+
+  beforeEach(async () => {
+    vi.clearAllMocks()
+    app = await buildTestApp()
+  })
+
+  afterEach(async () => {
+    await app.close()
+  })
+
+  describe('GET /api/waitlist', () => {
+    it('lists entries filtered by patient', async () => {
+      vi.mocked(waitlistRepository.findByOrganization).mockResolvedValue([entry])
+
+      const response = await app.inject({ method: 'GET', url: '/api/waitlist?patientId=patient-1' })
+
+      expect(response.statusCode).toBe(200)
+      expect(response.json().data).toHaveLength(1)
+      expect(waitlistRepository.findByOrganization).toHaveBeenCalledWith('test-org-id', { patientId: 'patient-1' })
+    })
+  })
+
+  describe('POST /api/waitlist', () => {
+    it('adds the patient with their constraints', async () => {
+      vi.mocked(waitlistEntryError).mockResolvedValue(null)
+      vi.mocked(waitlistRepository.create).mockResolvedValue(entry)
+
+      const response = await app.inject({ method: 'POST', url: '/api/waitlist', payload })
+
+      expect(response.statusCode).toBe(201)
+      expect(waitlistRepository.create).toHaveBeenCalledWith({
+        ...payload,
+        organizationId: 'test-org-id',
+        createdByUserId: 'test-user-id'
+      })
+      expect(logAudit).toHaveBeenCalledWith('test-user-id', 'create', 'waitlist_entry', 'entry-1', 'test-org-id', payload)
+    })
+
+    it('returns 400 when the window is reversed', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/waitlist',
+        payload: { ...payload, earliestTime: '13:00' }
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(response.json().error).toBe('earliestTime must be before latestTime')
+      expect(waitlistRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('returns 400 for an unknown weekday', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/waitlist',
+        payload: { ...payload, days: ['someday'] }
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(response.json().error).toBe('Validation failed')
+    })
+
+    it('returns 404 for a patient of another organization', async () => {
+      vi.mocked(waitlistEntryError).mockResolvedValue('Patient not found')
+
+      const response = await app.inject({ method: 'POST', url: '/api/waitlist', payload })
+
+      expect(response.statusCode).toBe(404)
+    })
+  })
+
+  describe('PUT /api/waitlist/:id', () => {
+    it('checks a new earliest time against the stored latest time', async () => {
+      vi.mocked(waitlistRepository.findById).mockResolvedValue(entry)
+
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/waitlist/entry-1',
+        payload: { earliestTime: '12:30' }
+      })
+
+      expect(response.statusCode).toBe(400)
+      expect(waitlistRepository.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('DELETE /api/waitlist/:id', () => {
+    it('takes the patient off the waitlist', async () => {
+      vi.mocked(waitlistRepository.findById).mockResolvedValue(entry)
+
+      const response = await app.inject({ method: 'DELETE', url: '/api/waitlist/entry-1' })
+
+      expect(response.statusCode).toBe(204)
+      expect(removeFromWaitlist).toHaveBeenCalledWith(entry)
+    })
+
+    it('returns 404 for an entry of another organization', async () => {
+      vi.mocked(waitlistRepository.findById).mockResolvedValue(null)
+
+      const response = await app.inject({ method: 'DELETE', url: '/api/waitlist/entry-2' })
+
+      expect(response.statusCode).toBe(404)
+      expect(removeFromWaitlist).not.toHaveBeenCalled()
+    })
+  })
+})
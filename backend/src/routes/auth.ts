@@ -5,6 +5,7 @@ import { getClientIp, rateLimit } from '../middleware/rateLimit.js'
 import { userRepository } from '../repositories/users.js'
 import { organizationRepository } from '../repositories/organizations.js'
 import { passwordResetTokenRepository } from '../repositories/passwordResetTokens.js'
+import { prisma } from '../repositories/base.js'
 import { logAudit } from '../repositories/audit.js'
 import { mfaService } from '../services/mfa.js'
 import { sendPasswordResetEmail } from '../services/email.js'
@@ -325,24 +326,24 @@ export async function authRoutes(fastify: FastifyInstance) {
 
       if (userWithPassword?.passwordHash) {
         try {
-          // Create password reset token (1 hour expiry)
-          const tokenRecord = await passwordResetTokenRepository.create(user.id, 'password_reset')
-
           // Get organization for email branding
           let organization = null
           if (user.organizationId) {
             organization = await organizationRepository.findById(user.organizationId)
           }
 
-          // Send password reset email
-          await sendPasswordResetEmail({
-            user: { email: user.email, name: user.name },
-            organization: organization ? {
-              name: organization.name,
-              subdomain: organization.subdomain,
-              primaryColor: organization.primaryColor
-            } : null,
-            token: tokenRecord.token
+          // Create a password reset token (1 hour expiry) and queue its email together
+          await prisma.$transaction(async (tx) => {
+            const tokenRecord = await passwordResetTokenRepository.create(user.id, 'password_reset', tx)
+            await sendPasswordResetEmail({
+              user: { email: user.email, name: user.name },
+              organization: organization ? {
+                name: organization.name,
+                subdomain: organization.subdomain,
+                primaryColor: organization.primaryColor
+              } : null,
+              token: tokenRecord.token
+            }, { organizationId: user.organizationId, tx })
           })
 
           // Log the request
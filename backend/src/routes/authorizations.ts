@@ -0,0 +1,245 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
+import { z } from 'zod'
+import { authenticate, requireAdminOrAssistant } from '../middleware/auth.js'
+import { authorizationRepository, type PatientAuthorizationWithDetails } from '../repositories/authorizations.js'
+import { patientRepository } from '../repositories/patients.js'
+import { logAudit } from '../repositories/audit.js'
+import { getAuthorizationBalance, EXPIRY_WARNING_DAYS } from '../services/authorizations.js'
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+
+const authorizationSchema = z.object({
+  patientId: z.string().min(1),
+  // Leave out to cover all of the patient's sessions
+  sessionSpecId: z.string().min(1).nullable().optional(),
+  payer: z.string().min(1).max(100),
+  authNumber: z.string().min(1).max(50),
+  approvedUnits: z.number().int().min(0),
+  unitMinutes: z.number().int().min(1).max(480).optional(),
+  period: z.enum(['week', 'month', 'total']).optional(),
+  startDate: dateSchema,
+  endDate: dateSchema,
+  notes: z.string().max(1000).nullable().optional()
+})
+
+const updateAuthorizationSchema = authorizationSchema.omit({ patientId: true }).partial()
+
+const listQuerySchema = z.object({
+  patientId: z.string().optional()
+})
+
+const expiringQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(EXPIRY_WARNING_DAYS)
+})
+
+function today(): string {
+  return new Date().toISOString().split('T')[0]
+}
+
+/**
+ * Add the units used and left in the current period.
+ */
+async function withBalance(authorization: PatientAuthorizationWithDetails) {
+  return { ...authorization, ...(await getAuthorizationBalance(authorization, today())) }
+}
+
+/**
+ * Why the session spec can't be authorized for the patient, or null when it
+ * can (or no spec was given).
+ */
+async function sessionSpecError(
+  organizationId: string,
+  patientId: string,
+  sessionSpecId: string | null | undefined
+): Promise<string | null> {
+  if (!sessionSpecId) return null
+  const patient = await patientRepository.findByIdWithSessionSpecs(patientId, organizationId)
+  if (!patient?.sessionSpecs.some(spec => spec.id === sessionSpecId)) {
+    return 'Session spec does not belong to the patient'
+  }
+  return null
+}
+
+export async function authorizationRoutes(fastify: FastifyInstance) {
+  // List authorizations with their current balance, optionally for one patient
+  fastify.get('/', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = listQuerySchema.safeParse(request.query)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+
+    const authorizations = await authorizationRepository.findByOrganization(organizationId, {
+      patientId: parseResult.data.patientId
+    })
+
+    return { data: await Promise.all(authorizations.map(withBalance)) }
+  })
+
+  // Authorizations ending within the next `days` days (30 by default)
+  fastify.get('/expiring', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = expiringQuerySchema.safeParse(request.query)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+
+    const from = new Date(today())
+    const to = new Date(from)
+    to.setUTCDate(to.getUTCDate() + parseResult.data.days)
+
+    const authorizations = await authorizationRepository.findByOrganization(organizationId, {
+      endingFrom: from,
+      endingTo: to
+    })
+
+    return { data: await Promise.all(authorizations.map(withBalance)) }
+  })
+
+  // Get single authorization
+  fastify.get('/:id', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const authorization = await authorizationRepository.findById(id, organizationId)
+    if (!authorization) {
+      return reply.status(404).send({ error: 'Authorization not found' })
+    }
+
+    return { data: await withBalance(authorization) }
+  })
+
+  // Create authorization
+  fastify.post('/', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = authorizationSchema.safeParse(request.body)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+    const body = parseResult.data
+
+    if (body.startDate > body.endDate) {
+      return reply.status(400).send({ error: 'startDate must not be after endDate' })
+    }
+
+    const patient = await patientRepository.findById(body.patientId, organizationId)
+    if (!patient) {
+      return reply.status(404).send({ error: 'Patient not found' })
+    }
+
+    const specError = await sessionSpecError(organizationId, body.patientId, body.sessionSpecId)
+    if (specError) {
+      return reply.status(400).send({ error: specError })
+    }
+
+    const authorization = await authorizationRepository.create({
+      ...body,
+      organizationId,
+      startDate: new Date(body.startDate),
+      endDate: new Date(body.endDate)
+    })
+
+    await logAudit(ctx.userId, 'create', 'patient_authorization', authorization.id, organizationId, body)
+
+    return reply.status(201).send({ data: authorization })
+  })
+
+  // Update authorization
+  fastify.put('/:id', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = updateAuthorizationSchema.safeParse(request.body)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+    const body = parseResult.data
+
+    const existing = await authorizationRepository.findById(id, organizationId)
+    if (!existing) {
+      return reply.status(404).send({ error: 'Authorization not found' })
+    }
+
+    const startDate = body.startDate ?? existing.startDate.toISOString().split('T')[0]
+    const endDate = body.endDate ?? existing.endDate.toISOString().split('T')[0]
+    if (startDate > endDate) {
+      return reply.status(400).send({ error: 'startDate must not be after endDate' })
+    }
+
+    const specError = await sessionSpecError(organizationId, existing.patientId, body.sessionSpecId)
+    if (specError) {
+      return reply.status(400).send({ error: specError })
+    }
+
+    const authorization = await authorizationRepository.update(id, organizationId, {
+      ...body,
+      startDate: body.startDate ? new Date(body.startDate) : undefined,
+      endDate: body.endDate ? new Date(body.endDate) : undefined
+    })
+
+    if (!authorization) {
+      return reply.status(404).send({ error: 'Authorization not found' })
+    }
+
+    await logAudit(ctx.userId, 'update', 'patient_authorization', id, organizationId, body)
+
+    return { data: authorization }
+  })
+
+  // Delete authorization (its usage history goes with it)
+  fastify.delete('/:id', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const deleted = await authorizationRepository.delete(id, organizationId)
+    if (!deleted) {
+      return reply.status(404).send({ error: 'Authorization not found' })
+    }
+
+    await logAudit(ctx.userId, 'delete', 'patient_authorization', id, organizationId)
+
+    return reply.status(204).send()
+  })
+}
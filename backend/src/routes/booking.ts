@@ -406,7 +406,9 @@ export default async function bookingRoutes(fastify: FastifyInstance) {
         if (!result.success) {
           return reply.code(409).send({
             error: 'Booking failed',
-            message: result.error
+            message: result.error,
+            code: result.violation?.code,
+            details: result.violation
           })
         }
 
@@ -488,7 +490,9 @@ export default async function bookingRoutes(fastify: FastifyInstance) {
         if (!result.success) {
           return reply.code(409).send({
             error: 'Booking failed',
-            message: result.error
+            message: result.error,
+            code: result.violation?.code,
+            details: result.violation
           })
         }
 
@@ -0,0 +1,237 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
+import { z } from 'zod'
+import { authenticate, requireAdmin } from '../middleware/auth.js'
+import { holidayRepository } from '../repositories/holidays.js'
+import { logAudit } from '../repositories/audit.js'
+import { getClinicClosures, getFederalHolidays } from '../services/holidays.js'
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+const timeSchema = z.string().regex(/^([01][0-9]|2[0-3]):[0-5][0-9]$/, 'Time must be in HH:mm format')
+
+const holidaySchema = z.object({
+  name: z.string().min(1).max(100),
+  date: dateSchema,
+  reason: z.string().max(500).nullable().optional(),
+  // Partial-day closure; leave both out to close all day
+  startTime: timeSchema.nullable().optional(),
+  endTime: timeSchema.nullable().optional(),
+  recurring: z.boolean().optional()
+})
+
+const updateHolidaySchema = holidaySchema.partial()
+
+const listQuerySchema = z.object({
+  from: dateSchema.optional(),
+  to: dateSchema.optional()
+})
+
+const closuresQuerySchema = z.object({
+  from: dateSchema,
+  to: dateSchema
+})
+
+const federalQuerySchema = z.object({
+  year: z.coerce.number().int().min(1900).max(2200)
+})
+
+// Longest range the closures endpoint expands
+const MAX_CLOSURE_RANGE_DAYS = 366
+
+/**
+ * Closing hours must come as a pair, with the start before the end.
+ */
+function closingHoursError(startTime?: string | null, endTime?: string | null): string | null {
+  if (!startTime && !endTime) return null
+  if (!startTime || !endTime) return 'startTime and endTime must be set together'
+  if (startTime >= endTime) return 'startTime must be before endTime'
+  return null
+}
+
+export async function holidayRoutes(fastify: FastifyInstance) {
+  // List custom holidays, optionally limited to a date range
+  fastify.get('/', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = listQuerySchema.safeParse(request.query)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+    const { from, to } = parseResult.data
+
+    const holidays = await holidayRepository.findByOrganization(organizationId, {
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined
+    })
+
+    return { data: holidays }
+  })
+
+  // Every day or part of a day the clinic is closed in a range (federal and custom)
+  fastify.get('/closures', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = closuresQuerySchema.safeParse(request.query)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+
+    const from = new Date(parseResult.data.from)
+    const to = new Date(parseResult.data.to)
+    const days = (to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000)
+    if (days < 0 || days > MAX_CLOSURE_RANGE_DAYS) {
+      return reply.status(400).send({ error: `Date range must be between 0 and ${MAX_CLOSURE_RANGE_DAYS} days` })
+    }
+
+    const closures = await getClinicClosures(organizationId, from, to)
+
+    return { data: closures }
+  })
+
+  // The year's US federal holidays on their observed dates, closed or not
+  fastify.get('/federal', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const parseResult = federalQuerySchema.safeParse(request.query)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+
+    return { data: getFederalHolidays(parseResult.data.year) }
+  })
+
+  // Get single holiday
+  fastify.get('/:id', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const holiday = await holidayRepository.findById(id, organizationId)
+    if (!holiday) {
+      return reply.status(404).send({ error: 'Holiday not found' })
+    }
+
+    return { data: holiday }
+  })
+
+  // Create holiday
+  fastify.post('/', { preHandler: requireAdmin() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = holidaySchema.safeParse(request.body)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+    const body = parseResult.data
+
+    const hoursError = closingHoursError(body.startTime, body.endTime)
+    if (hoursError) {
+      return reply.status(400).send({ error: hoursError })
+    }
+
+    const holiday = await holidayRepository.create({
+      organizationId,
+      name: body.name,
+      date: new Date(body.date),
+      reason: body.reason,
+      startTime: body.startTime ?? null,
+      endTime: body.endTime ?? null,
+      recurring: body.recurring
+    })
+
+    await logAudit(ctx.userId, 'create', 'holiday', holiday.id, organizationId, body)
+
+    return reply.status(201).send({ data: holiday })
+  })
+
+  // Update holiday
+  fastify.put('/:id', { preHandler: requireAdmin() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = updateHolidaySchema.safeParse(request.body)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+    const body = parseResult.data
+
+    const existing = await holidayRepository.findById(id, organizationId)
+    if (!existing) {
+      return reply.status(404).send({ error: 'Holiday not found' })
+    }
+
+    const hoursError = closingHoursError(
+      body.startTime !== undefined ? body.startTime : existing.startTime,
+      body.endTime !== undefined ? body.endTime : existing.endTime
+    )
+    if (hoursError) {
+      return reply.status(400).send({ error: hoursError })
+    }
+
+    const holiday = await holidayRepository.update(id, organizationId, {
+      ...body,
+      date: body.date ? new Date(body.date) : undefined
+    })
+
+    if (!holiday) {
+      return reply.status(404).send({ error: 'Holiday not found' })
+    }
+
+    await logAudit(ctx.userId, 'update', 'holiday', id, organizationId, body)
+
+    return { data: holiday }
+  })
+
+  // Delete holiday
+  fastify.delete('/:id', { preHandler: requireAdmin() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const deleted = await holidayRepository.delete(id, organizationId)
+    if (!deleted) {
+      return reply.status(404).send({ error: 'Holiday not found' })
+    }
+
+    await logAudit(ctx.userId, 'delete', 'holiday', id, organizationId)
+
+    return reply.status(204).send()
+  })
+}
@@ -0,0 +1,178 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
+import { timingSafeEqual } from 'crypto'
+import { z } from 'zod'
+import { requireAdmin } from '../middleware/auth.js'
+import { notificationRepository } from '../repositories/notifications.js'
+import { logAudit } from '../repositories/audit.js'
+import { NotificationError, recordBounce, recordSmsReceipt, resendNotification } from '../services/notifications.js'
+import { handleInboundSms } from '../services/sms.js'
+import { getSmsProvider } from '../services/smsProvider/index.js'
+
+const listQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(20),
+  status: z.enum(['queued', 'sent', 'failed', 'bounced']).optional()
+})
+
+// The parts of an SNS message (SES bounces, SMS events) we use
+const snsMessageSchema = z.object({
+  Type: z.string(),
+  Message: z.string().optional(),
+  SubscribeURL: z.string().optional()
+})
+
+const sesEventSchema = z.object({
+  notificationType: z.string().optional(),
+  eventType: z.string().optional(),
+  bounce: z.object({
+    bounceType: z.string(),
+    bounceSubType: z.string().optional()
+  }).optional(),
+  mail: z.object({
+    messageId: z.string()
+  })
+})
+
+function hasEventsToken(request: FastifyRequest, expected: string | undefined): boolean {
+  const { token } = request.query as { token?: string }
+  if (!expected || !token) return false
+
+  const a = Buffer.from(token)
+  const b = Buffer.from(expected)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+export async function notificationRoutes(fastify: FastifyInstance) {
+  // SNS posts its messages as text/plain
+  fastify.addContentTypeParser('text/plain', { parseAs: 'string' }, (_request, body, done) => {
+    try {
+      done(null, JSON.parse(body as string))
+    } catch (error) {
+      done(error as Error, undefined)
+    }
+  })
+
+  // List the organization's emails and text messages, newest first
+  fastify.get('/', { preHandler: requireAdmin() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = listQuerySchema.safeParse(request.query)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+
+    return notificationRepository.findByOrganization(organizationId, parseResult.data)
+  })
+
+  // Send a failed or bounced notification again
+  fastify.post('/:id/resend', { preHandler: requireAdmin() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const notification = await notificationRepository.findById(id, organizationId)
+    if (!notification) {
+      return reply.status(404).send({ error: 'Notification not found' })
+    }
+
+    try {
+      const status = await resendNotification(notification)
+
+      await logAudit(ctx.userId, 'resend', 'notification', id, organizationId, {
+        kind: notification.kind,
+        previousStatus: notification.status
+      })
+
+      return { data: { id, status } }
+    } catch (error) {
+      if (error instanceof NotificationError) {
+        return reply.status(400).send({ error: error.message })
+      }
+      throw error
+    }
+  })
+
+  // PUBLIC: SES bounce notifications, delivered by an SNS topic subscription.
+  // The subscription URL carries SES_EVENTS_TOKEN as its token parameter.
+  fastify.post('/ses-events', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!hasEventsToken(request, process.env.SES_EVENTS_TOKEN)) {
+      return reply.status(401).send({ error: 'Unauthorized' })
+    }
+
+    const envelope = snsMessageSchema.safeParse(request.body)
+    if (!envelope.success) {
+      return reply.status(400).send({ error: 'Validation failed', details: envelope.error.issues })
+    }
+
+    if (envelope.data.Type === 'SubscriptionConfirmation') {
+      // Confirmed by hand, so a leaked token can't subscribe someone else's topic
+      console.log(`[Notifications] Confirm the SES events subscription at: ${envelope.data.SubscribeURL}`)
+      return { received: true }
+    }
+
+    if (envelope.data.Type !== 'Notification' || !envelope.data.Message) {
+      return { received: true }
+    }
+
+    let message: unknown
+    try {
+      message = JSON.parse(envelope.data.Message)
+    } catch {
+      return reply.status(400).send({ error: 'Invalid SES event' })
+    }
+
+    const event = sesEventSchema.safeParse(message)
+    if (!event.success) {
+      return reply.status(400).send({ error: 'Validation failed', details: event.error.issues })
+    }
+
+    const { bounce, mail } = event.data
+    const type = event.data.notificationType ?? event.data.eventType
+
+    // Transient bounces are retried by SES itself
+    if (type === 'Bounce' && bounce?.bounceType === 'Permanent') {
+      const reason = bounce.bounceSubType ? `Bounced: ${bounce.bounceSubType}` : 'Bounced'
+      await recordBounce(mail.messageId, reason)
+    }
+
+    return { received: true }
+  })
+
+  // PUBLIC: Delivery receipts and replies from the SMS provider, in its own
+  // format. The webhook URL carries SMS_EVENTS_TOKEN as its token parameter.
+  fastify.post('/sms-events', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!hasEventsToken(request, process.env.SMS_EVENTS_TOKEN)) {
+      return reply.status(401).send({ error: 'Unauthorized' })
+    }
+
+    const envelope = snsMessageSchema.safeParse(request.body)
+    if (envelope.success && envelope.data.Type === 'SubscriptionConfirmation') {
+      console.log(`[Notifications] Confirm the SMS events subscription at: ${envelope.data.SubscribeURL}`)
+      return { received: true }
+    }
+
+    let receipts = 0
+    let replies = 0
+    for (const event of getSmsProvider().parseEvents(request.body)) {
+      if (event.type === 'receipt') {
+        if (await recordSmsReceipt(event.messageId, event.delivered, event.reason)) receipts++
+      } else {
+        await handleInboundSms(event.from, event.to, event.body)
+        replies++
+      }
+    }
+
+    return { received: true, receipts, replies }
+  })
+}
@@ -6,12 +6,40 @@ import { logAudit } from '../repositories/audit.js'
 import { prisma } from '../repositories/base.js'
 import { ContactRelationship } from '@prisma/client'
 
+const timeSchema = z.string().regex(/^([01][0-9]|2[0-3]):[0-5][0-9]$/, 'Time must be in HH:mm format')
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+
+const availabilityWindowSchema = z.object({
+  start: timeSchema,
+  end: timeSchema
+}).refine(w => w.start < w.end, { message: 'start must be before end' })
+
+// Hard limits on when the patient can attend; null clears them (any time)
+const availabilitySchema = z.object({
+  weekly: z.record(availabilityWindowSchema.nullable()),
+  exceptions: z.array(z.object({
+    startDate: dateSchema,
+    endDate: dateSchema,
+    available: z.boolean(),
+    // Only when available for part of the day; leave both out for all day
+    start: timeSchema.optional(),
+    end: timeSchema.optional(),
+    reason: z.string().max(200).optional()
+  })
+    .refine(e => e.startDate <= e.endDate, { message: 'startDate must not be after endDate' })
+    .refine(e => (!e.start && !e.end) || (!!e.start && !!e.end && e.start < e.end), {
+      message: 'start and end must be set together, with start before end'
+    })
+  ).max(100).optional()
+})
+
 const createPatientSchema = z.object({
   name: z.string().min(1),
   identifier: z.string().nullish(),
   gender: z.enum(['male', 'female', 'other']),
   sessionFrequency: z.number().min(1).max(10),
   preferredTimes: z.array(z.string()).nullish(),
+  availability: availabilitySchema.nullish(),
   requiredCertifications: z.array(z.string()).optional(),
   preferredRoomId: z.string().uuid().nullish(),
   requiredRoomCapabilities: z.array(z.string()).optional(),
@@ -84,6 +112,7 @@ export async function patientRoutes(fastify: FastifyInstance) {
       gender: body.gender,
       sessionFrequency: body.sessionFrequency,
       preferredTimes: body.preferredTimes,
+      availability: body.availability,
       requiredCertifications: body.requiredCertifications,
       preferredRoomId: body.preferredRoomId,
       requiredRoomCapabilities: body.requiredRoomCapabilities,
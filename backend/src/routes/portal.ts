@@ -14,12 +14,15 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
 import { portalAuthService } from '../services/portalAuth.js'
 import { portalAuthenticate, requirePatientPortalEnabled, getPortalUser } from '../middleware/portalAuth.js'
 import { prisma } from '../repositories/base.js'
-import { SessionStatus } from '@prisma/client'
+import { SessionStatus, type Prisma } from '@prisma/client'
 import { organizationSettingsRepository } from '../repositories/organizationSettings.js'
 import { organizationFeaturesRepository } from '../repositories/organizationFeatures.js'
 import { auditRepository } from '../repositories/audit.js'
 import { availabilityService } from '../services/availability.js'
+import { getClinicClosures, findClosure, describeClosure } from '../services/holidays.js'
+import { findPatientAvailabilityViolation } from '../services/patientAvailability.js'
 import { bookingRepository } from '../repositories/booking.js'
+import { offerCancelledSession, getPendingOffers, claimOffer, declineOffer } from '../services/waitlist.js'
 import {
   parseLocalDateTime,
   formatLocalDate,
@@ -83,6 +86,10 @@ interface HoldIdParams {
   holdId: string
 }
 
+interface OfferIdParams {
+  offerId: string
+}
+
 function parsePositiveInt(value: unknown, fallback: number): number {
   const n = typeof value === 'string' ? parseInt(value, 10) : typeof value === 'number' ? value : NaN
   if (!Number.isFinite(n) || n <= 0) return fallback
@@ -115,6 +122,24 @@ function buildDateTimeFromDate(date: Date, timeStr: string, timezone: string): D
   }
 }
 
+/**
+ * Sessions the patient attends: their own sessions and the group sessions
+ * they are enrolled in.
+ */
+function patientSessionsWhere(patientId: string): Prisma.SessionWhereInput {
+  return {
+    OR: [
+      { patientId, capacity: null },
+      { participants: { some: { patientId } } }
+    ]
+  }
+}
+
+// The patient's own place in a group session; other patients are never shown
+function ownParticipation(patientId: string) {
+  return { where: { patientId }, select: { status: true } }
+}
+
 function mapPortalSession(
   session: {
     id: string
@@ -126,6 +151,8 @@ function mapPortalSession(
     confirmedAt: Date | null
     therapist: { name: string }
     room: { name: string } | null
+    capacity?: number | null
+    participants?: { status: string }[]
   },
   options: {
     portalAllowCancel: boolean
@@ -133,8 +160,11 @@ function mapPortalSession(
     portalRequireConfirmation: boolean
   }
 ) {
-  const canModifyByStatus = ['pending', 'scheduled', 'confirmed'].includes(session.status)
-  const canConfirmByStatus = session.status === 'scheduled' && !session.confirmedAt
+  // Group sessions show the patient's own attendance and are changed by staff only
+  const isGroupSession = Boolean(session.capacity)
+  const status = session.participants?.[0]?.status ?? session.status
+  const canModifyByStatus = !isGroupSession && ['pending', 'scheduled', 'confirmed'].includes(status)
+  const canConfirmByStatus = !isGroupSession && status === 'scheduled' && !session.confirmedAt
 
   return {
     id: session.id,
@@ -143,7 +173,8 @@ function mapPortalSession(
     endTime: session.endTime,
     therapistName: session.therapist.name,
     roomName: session.room?.name ?? null,
-    status: session.status,
+    status,
+    isGroupSession,
     notes: session.notes,
     confirmedAt: session.confirmedAt,
     canCancel: options.portalAllowCancel && canModifyByStatus,
@@ -519,7 +550,7 @@ export async function portalRoutes(fastify: FastifyInstance) {
 
       const sessions = await prisma.session.findMany({
         where: {
-          patientId: user.patientId,
+          ...patientSessionsWhere(user.patientId),
           date: { gte: new Date() },
           status: { notIn: ['cancelled', 'late_cancel'] },
           schedule: {
@@ -532,7 +563,8 @@ export async function portalRoutes(fastify: FastifyInstance) {
           },
           room: {
             select: { id: true, name: true }
-          }
+          },
+          participants: ownParticipation(user.patientId)
         },
         orderBy: [
           { date: 'asc' },
@@ -551,7 +583,9 @@ export async function portalRoutes(fastify: FastifyInstance) {
             notes: s.notes,
             confirmedAt: s.confirmedAt,
             therapist: { name: s.therapist.name },
-            room: s.room ? { name: s.room.name } : null
+            room: s.room ? { name: s.room.name } : null,
+            capacity: s.capacity,
+            participants: s.participants
           },
           {
             portalAllowCancel: features.portalAllowCancel,
@@ -581,7 +615,7 @@ export async function portalRoutes(fastify: FastifyInstance) {
       const session = await prisma.session.findFirst({
         where: {
           id: sessionId,
-          patientId: user.patientId,
+          ...patientSessionsWhere(user.patientId),
           schedule: {
             organizationId: user.organizationId
           }
@@ -592,7 +626,8 @@ export async function portalRoutes(fastify: FastifyInstance) {
           },
           room: {
             select: { id: true, name: true }
-          }
+          },
+          participants: ownParticipation(user.patientId)
         }
       })
 
@@ -614,7 +649,9 @@ export async function portalRoutes(fastify: FastifyInstance) {
             notes: session.notes,
             confirmedAt: session.confirmedAt,
             therapist: { name: session.therapist.name },
-            room: session.room ? { name: session.room.name } : null
+            room: session.room ? { name: session.room.name } : null,
+            capacity: session.capacity,
+            participants: session.participants
           },
           {
             portalAllowCancel: features.portalAllowCancel,
@@ -645,6 +682,7 @@ export async function portalRoutes(fastify: FastifyInstance) {
         where: {
           id: sessionId,
           patientId: user.patientId,
+          capacity: null,
           status: 'scheduled',
           schedule: {
             organizationId: user.organizationId
@@ -741,6 +779,7 @@ export async function portalRoutes(fastify: FastifyInstance) {
         where: {
           id: sessionId,
           patientId: user.patientId,
+          capacity: null,
           status: { in: ['scheduled', 'confirmed'] },
           schedule: {
             organizationId: user.organizationId
@@ -797,6 +836,9 @@ export async function portalRoutes(fastify: FastifyInstance) {
         }
       )
 
+      // Offer the freed slot to the waitlist
+      await offerCancelledSession(user.organizationId, session)
+
       const features = await organizationFeaturesRepository.findByOrganizationId(user.organizationId)
       const sessionWithDetails = await prisma.session.findUnique({
         where: { id: sessionId },
@@ -870,6 +912,7 @@ export async function portalRoutes(fastify: FastifyInstance) {
         where: {
           id: sessionId,
           patientId: user.patientId,
+          capacity: null,
           status: { notIn: ['cancelled', 'late_cancel'] },
           schedule: {
             organizationId: user.organizationId
@@ -908,7 +951,9 @@ export async function portalRoutes(fastify: FastifyInstance) {
       if (!result.success) {
         return reply.code(400).send({
           error: 'Reschedule failed',
-          message: result.error || 'Failed to reschedule appointment'
+          message: result.error || 'Failed to reschedule appointment',
+          code: result.violation?.code,
+          details: result.violation
         })
       }
 
@@ -980,11 +1025,15 @@ export async function portalRoutes(fastify: FastifyInstance) {
       const skip = (page - 1) * limit
       const features = await organizationFeaturesRepository.findByOrganizationId(user.organizationId)
 
-      const where = {
-        patientId: user.patientId,
-        OR: [
-          { date: { lt: new Date() } },
-          { status: { in: [SessionStatus.completed, SessionStatus.cancelled, SessionStatus.late_cancel, SessionStatus.no_show] } }
+      const where: Prisma.SessionWhereInput = {
+        AND: [
+          patientSessionsWhere(user.patientId),
+          {
+            OR: [
+              { date: { lt: new Date() } },
+              { status: { in: [SessionStatus.completed, SessionStatus.cancelled, SessionStatus.late_cancel, SessionStatus.no_show] } }
+            ]
+          }
         ],
         schedule: { organizationId: user.organizationId }
       }
@@ -995,7 +1044,8 @@ export async function portalRoutes(fastify: FastifyInstance) {
           where,
           include: {
             therapist: true,
-            room: true
+            room: true,
+            participants: ownParticipation(user.patientId)
           },
           orderBy: [
             { date: 'desc' },
@@ -1017,7 +1067,9 @@ export async function portalRoutes(fastify: FastifyInstance) {
             notes: s.notes,
             confirmedAt: s.confirmedAt,
             therapist: { name: s.therapist?.name || 'Unknown' },
-            room: s.room ? { name: s.room.name } : null
+            room: s.room ? { name: s.room.name } : null,
+            capacity: s.capacity,
+            participants: s.participants
           },
           {
             portalAllowCancel: features.portalAllowCancel,
@@ -1140,7 +1192,8 @@ export async function portalRoutes(fastify: FastifyInstance) {
         dateFrom: fromDate,
         dateTo: toDate,
         durationMinutes: duration ? parseInt(duration) : settings.defaultSessionDuration,
-        staffId
+        staffId,
+        patientId: user.patientId
       })
 
       // Filter out slots that are before the minimum booking time
@@ -1263,6 +1316,27 @@ export async function portalRoutes(fastify: FastifyInstance) {
         })
       }
 
+      const closures = await getClinicClosures(user.organizationId, new Date(date), new Date(date))
+      const closure = findClosure(closures, date, startTime, endTime)
+      if (closure) {
+        return reply.code(400).send({
+          error: 'Clinic closed',
+          message: `The clinic is closed for ${describeClosure(closure)}`
+        })
+      }
+
+      const patientUnavailable = await findPatientAvailabilityViolation(user.organizationId, user.patientId, {
+        date,
+        startTime,
+        endTime
+      })
+      if (patientUnavailable) {
+        return reply.code(400).send({
+          error: 'Patient unavailable',
+          message: patientUnavailable
+        })
+      }
+
       const staff = await prisma.staff.findFirst({
         where: { id: staffId, organizationId: user.organizationId, status: 'active' },
         select: { id: true, name: true }
@@ -1459,7 +1533,9 @@ export async function portalRoutes(fastify: FastifyInstance) {
       if (!result.success) {
         return reply.code(409).send({
           error: 'Booking failed',
-          message: result.error
+          message: result.error,
+          code: result.violation?.code,
+          details: result.violation
         })
       }
 
@@ -1564,6 +1640,130 @@ export async function portalRoutes(fastify: FastifyInstance) {
     }
   )
 
+  /**
+   * GET /portal/waitlist/offers
+   * Slots freed by cancellations and held for the patient from the waitlist
+   */
+  fastify.get(
+    '/waitlist/offers',
+    { preHandler: [portalAuthenticate, requirePatientPortalEnabled] },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const user = getPortalUser(request)
+
+      const offers = await getPendingOffers(user.organizationId, user.patientId)
+
+      return reply.send({ data: offers })
+    }
+  )
+
+  /**
+   * POST /portal/waitlist/offers/:offerId/claim
+   * Book the slot held by a waitlist offer
+   */
+  fastify.post<{ Params: OfferIdParams }>(
+    '/waitlist/offers/:offerId/claim',
+    { preHandler: [portalAuthenticate, requirePatientPortalEnabled] },
+    async (
+      request: FastifyRequest<{ Params: OfferIdParams }>,
+      reply: FastifyReply
+    ) => {
+      const user = getPortalUser(request)
+      const { offerId } = request.params
+
+      const result = await claimOffer(offerId, user)
+
+      if (!result.success) {
+        return reply.code(409).send({
+          error: 'Claim failed',
+          message: result.error
+        })
+      }
+
+      await auditRepository.log(
+        null,
+        'waitlist.claimed',
+        'session',
+        result.sessionId!,
+        user.organizationId,
+        {
+          contactId: user.contactId,
+          patientId: user.patientId,
+          offerId
+        }
+      )
+
+      const features = await organizationFeaturesRepository.findByOrganizationId(user.organizationId)
+      const session = await prisma.session.findUnique({
+        where: { id: result.sessionId },
+        include: {
+          therapist: { select: { name: true } },
+          room: { select: { name: true } }
+        }
+      })
+
+      return reply.code(201).send({
+        message: 'Appointment booked successfully.',
+        data: session ? mapPortalSession(
+          {
+            id: session.id,
+            date: session.date,
+            startTime: session.startTime,
+            endTime: session.endTime,
+            status: session.status,
+            notes: session.notes,
+            confirmedAt: session.confirmedAt,
+            therapist: { name: session.therapist.name },
+            room: session.room ? { name: session.room.name } : null
+          },
+          {
+            portalAllowCancel: features.portalAllowCancel,
+            portalAllowReschedule: features.portalAllowReschedule,
+            portalRequireConfirmation: features.portalRequireConfirmation
+          }
+        ) : null
+      })
+    }
+  )
+
+  /**
+   * POST /portal/waitlist/offers/:offerId/decline
+   * Turn down a waitlist offer so the slot goes to the next person
+   */
+  fastify.post<{ Params: OfferIdParams }>(
+    '/waitlist/offers/:offerId/decline',
+    { preHandler: [portalAuthenticate, requirePatientPortalEnabled] },
+    async (
+      request: FastifyRequest<{ Params: OfferIdParams }>,
+      reply: FastifyReply
+    ) => {
+      const user = getPortalUser(request)
+      const { offerId } = request.params
+
+      const declined = await declineOffer(offerId, user)
+
+      if (!declined) {
+        return reply.code(404).send({
+          error: 'Not found',
+          message: 'Offer not found or no longer available'
+        })
+      }
+
+      await auditRepository.log(
+        null,
+        'waitlist.declined',
+        'waitlist_offer',
+        offerId,
+        user.organizationId,
+        {
+          contactId: user.contactId,
+          patientId: user.patientId
+        }
+      )
+
+      return reply.send({ success: true })
+    }
+  )
+
 }
 
 export default portalRoutes
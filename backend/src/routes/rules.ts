@@ -7,9 +7,10 @@ import { patientRepository } from '../repositories/patients.js'
 import { roomRepository } from '../repositories/rooms.js'
 import { logAudit } from '../repositories/audit.js'
 import { analyzeRulesWithAI } from '../services/aiProvider.js'
+import { getRuleSchemaCatalog, validateRuleLogic, sanitizeRuleLogic } from '../services/ruleSchemas.js'
 
 const createRuleSchema = z.object({
-  category: z.enum(['gender_pairing', 'session', 'availability', 'specific_pairing', 'certification']),
+  category: z.enum(['gender_pairing', 'session', 'availability', 'specific_pairing', 'certification', 'supervision']),
   description: z.string().min(1),
   ruleLogic: z.record(z.unknown()),
   priority: z.number().optional()
@@ -45,6 +46,11 @@ export async function ruleRoutes(fastify: FastifyInstance) {
     return result
   })
 
+  // Catalog of the ruleLogic fields accepted for each category
+  fastify.get('/schema', { preHandler: authenticate }, async () => {
+    return { data: getRuleSchemaCatalog() }
+  })
+
   // Get single rule
   fastify.get('/:id', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
     const { id } = request.params as { id: string }
@@ -72,11 +78,16 @@ export async function ruleRoutes(fastify: FastifyInstance) {
       return reply.status(400).send({ error: 'Organization context required' })
     }
 
+    const logic = validateRuleLogic(body.category, body.ruleLogic)
+    if (!logic.success) {
+      return reply.status(400).send({ error: 'Invalid rule logic', details: logic.issues })
+    }
+
     const rule = await ruleRepository.create({
       organizationId,
       category: body.category,
       description: body.description,
-      ruleLogic: body.ruleLogic,
+      ruleLogic: logic.ruleLogic,
       priority: body.priority,
       createdById: ctx.userId
     })
@@ -97,7 +108,26 @@ export async function ruleRoutes(fastify: FastifyInstance) {
       return reply.status(400).send({ error: 'Organization context required' })
     }
 
-    const rule = await ruleRepository.update(id, organizationId, body)
+    const update = { ...body }
+
+    // A category change re-validates the stored logic against the new category
+    if (body.ruleLogic !== undefined || body.category !== undefined) {
+      const existing = await ruleRepository.findById(id, organizationId)
+      if (!existing) {
+        return reply.status(404).send({ error: 'Rule not found' })
+      }
+
+      const logic = validateRuleLogic(
+        body.category ?? existing.category,
+        body.ruleLogic ?? (existing.ruleLogic as Record<string, unknown>)
+      )
+      if (!logic.success) {
+        return reply.status(400).send({ error: 'Invalid rule logic', details: logic.issues })
+      }
+      update.ruleLogic = logic.ruleLogic
+    }
+
+    const rule = await ruleRepository.update(id, organizationId, update)
     if (!rule) {
       return reply.status(404).send({ error: 'Rule not found' })
     }
@@ -215,8 +245,7 @@ export async function ruleRoutes(fastify: FastifyInstance) {
     if (lowerTranscript.includes('male') || lowerTranscript.includes('female') || lowerTranscript.includes('gender')) {
       category = 'gender_pairing'
       ruleLogic = {
-        type: 'gender_match',
-        therapistGender: lowerTranscript.includes('male therapist') ? 'male' : 'female',
+        preferredTherapistGender: lowerTranscript.includes('male therapist') ? 'male' : 'female',
         patientGender: lowerTranscript.includes('male patient') ? 'male' : 'any'
       }
     } else if (lowerTranscript.includes('always pair') || lowerTranscript.includes('never pair')) {
@@ -233,18 +262,21 @@ export async function ruleRoutes(fastify: FastifyInstance) {
     } else if (lowerTranscript.includes('certification') || lowerTranscript.includes('certified')) {
       category = 'certification'
       ruleLogic = {
-        type: 'require_certification'
+        enforceRequired: true
       }
     }
 
+    const { ruleLogic: sanitized, warnings } = sanitizeRuleLogic(category, ruleLogic)
+
     return {
       data: {
         rule: {
           category,
           description: transcript,
-          ruleLogic
+          ruleLogic: sanitized
         },
-        confidence: 0.85
+        confidence: 0.85,
+        warnings
       }
     }
   })
@@ -0,0 +1,207 @@
+/**
+ * Background schedule generation jobs
+ * Start a job, follow its progress over a WebSocket, cancel it, and read the
+ * result once it is done
+ */
+
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
+import type { WebSocket } from '@fastify/websocket'
+import { z } from 'zod'
+import { authenticate, requireAdminOrAssistant } from '../middleware/auth.js'
+import { generationJobRepository } from '../repositories/generationJobs.js'
+import { logAudit } from '../repositories/audit.js'
+import { organizationSettingsRepository } from '../repositories/organizationSettings.js'
+import { isProviderConfigured, getActiveProvider } from '../services/aiProvider.js'
+import { AI_ENGINE_DISABLED } from '../services/scheduler.js'
+import {
+  runGenerationJob,
+  cancelGenerationJob,
+  subscribeToGenerationJob,
+  isJobFinished,
+  toJobEvent,
+  type GenerationJobEvent
+} from '../services/generationJobs.js'
+import type { JWTPayload, UserRole } from '../types/index.js'
+
+const ALLOWED_ROLES: UserRole[] = ['super_admin', 'admin', 'admin_assistant']
+
+const startJobSchema = z.object({
+  weekStartDate: z.string(),
+  // Overrides the organization's default engine for this job
+  engine: z.enum(['ai', 'solver']).optional()
+})
+
+type JobStreamMessage =
+  | { type: 'status'; job: GenerationJobEvent }
+  | { type: 'error'; code: string; message: string }
+
+function sendMessage(socket: WebSocket, message: JobStreamMessage): void {
+  if (socket.readyState === 1) { // WebSocket.OPEN
+    socket.send(JSON.stringify(message))
+  }
+}
+
+function closeWithError(socket: WebSocket, code: string, message: string): void {
+  sendMessage(socket, { type: 'error', code, message })
+  socket.close()
+}
+
+export async function scheduleJobRoutes(fastify: FastifyInstance) {
+  // Start generating a schedule in the background
+  fastify.post('/', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = startJobSchema.safeParse(request.body)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+    const body = parseResult.data
+
+    // Organizations that schedule with the solver keep patient data away from the AI provider
+    if (body.engine === 'ai' && (await organizationSettingsRepository.getSchedulingEngine(organizationId)) === 'solver') {
+      return reply.status(403).send({ error: AI_ENGINE_DISABLED })
+    }
+
+    // An explicit AI request cannot fall back to the solver, so the provider must be configured
+    if (body.engine === 'ai' && !isProviderConfigured()) {
+      const provider = getActiveProvider()
+      const configHint = provider === 'openai'
+        ? 'Please set OPENAI_API_KEY.'
+        : 'Please configure AWS credentials.'
+      return reply.status(503).send({
+        error: `AI scheduling service not configured. ${configHint}`
+      })
+    }
+
+    const job = await generationJobRepository.create({
+      organizationId,
+      createdById: ctx.userId,
+      weekStartDate: new Date(body.weekStartDate),
+      engine: body.engine
+    })
+
+    runGenerationJob(job)
+      .then(async (completed) => {
+        if (!completed) return
+        await logAudit(ctx.userId, 'create', 'schedule', completed.schedule.id, organizationId, {
+          weekStartDate: body.weekStartDate,
+          engine: completed.result.engine,
+          sessionsGenerated: completed.result.stats.totalSessions,
+          patientsScheduled: completed.result.stats.patientsScheduled,
+          therapistsUsed: completed.result.stats.therapistsUsed,
+          jobId: job.id
+        })
+      })
+      .catch((err) => {
+        console.error('[ScheduleJobs] Generation job failed:', err)
+      })
+
+    return reply.status(202).send({ data: job })
+  })
+
+  // Job status, progress and (once done) the generated schedule's ID and metadata
+  fastify.get('/:id', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const job = await generationJobRepository.findById(id, organizationId)
+    if (!job) {
+      return reply.status(404).send({ error: 'Generation job not found' })
+    }
+
+    return { data: job }
+  })
+
+  // Cancel a job that has not finished
+  fastify.post('/:id/cancel', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const job = await cancelGenerationJob(id, organizationId)
+    if (!job) {
+      return reply.status(404).send({ error: 'Generation job not found' })
+    }
+    if (job.status !== 'cancelled') {
+      return reply.status(409).send({ error: `Generation job has already finished (${job.status})` })
+    }
+
+    await logAudit(ctx.userId, 'update', 'schedule_generation_job', job.id, organizationId, {
+      action: 'cancel'
+    })
+
+    return { data: job }
+  })
+
+  // WebSocket stream of a job's progress. Sends the current state on connect,
+  // then every update, and closes once the job has finished.
+  // Token is passed as: /api/schedules/jobs/:id/stream?token=<jwt>
+  fastify.get('/:id/stream', { websocket: true }, async (socket: WebSocket, request: FastifyRequest) => {
+    const { id } = request.params as { id: string }
+    const url = new URL(request.url, `http://${request.headers.host}`)
+    const token = url.searchParams.get('token')
+
+    if (!token) {
+      closeWithError(socket, 'UNAUTHORIZED', 'Authentication required')
+      return
+    }
+
+    let user: JWTPayload
+    try {
+      user = fastify.jwt.verify<JWTPayload>(token)
+    } catch {
+      closeWithError(socket, 'INVALID_TOKEN', 'Invalid authentication token')
+      return
+    }
+
+    if (!ALLOWED_ROLES.includes(user.role)) {
+      closeWithError(socket, 'FORBIDDEN', 'Insufficient permissions')
+      return
+    }
+
+    const organizationId = user.organizationId
+    if (!organizationId) {
+      closeWithError(socket, 'NO_ORG_CONTEXT', 'Organization context required')
+      return
+    }
+
+    const job = await generationJobRepository.findById(id, organizationId)
+    if (!job) {
+      closeWithError(socket, 'NOT_FOUND', 'Generation job not found')
+      return
+    }
+
+    const unsubscribe = subscribeToGenerationJob(id, (event) => {
+      sendMessage(socket, { type: 'status', job: event })
+      if (isJobFinished(event.status)) {
+        unsubscribe()
+        socket.close()
+      }
+    })
+    socket.on('close', unsubscribe)
+
+    // Read again now that we are subscribed, so an update made in between isn't missed
+    const current = await generationJobRepository.findById(id, organizationId) ?? job
+    sendMessage(socket, { type: 'status', job: toJobEvent(current) })
+    if (isJobFinished(current.status)) {
+      unsubscribe()
+      socket.close()
+    }
+  })
+}
@@ -4,7 +4,25 @@ import { authenticate, requireAdminOrAssistant } from '../middleware/auth.js'
 import { scheduleRepository, sessionRepository } from '../repositories/schedules.js'
 import { organizationRepository } from '../repositories/organizations.js'
 import { logAudit } from '../repositories/audit.js'
-import { generateSchedule, validateAndRegenerateCopiedSchedule, type SessionModification } from '../services/scheduler.js'
+import { staffAvailabilityRepository } from '../repositories/staffAvailability.js'
+import { organizationSettingsRepository, type SchedulingEngine } from '../repositories/organizationSettings.js'
+import {
+  generateSchedule,
+  validateAndRegenerateCopiedSchedule,
+  checkSessionRules,
+  refreshScheduleQuality,
+  proposeScheduleRepair,
+  applyScheduleRepair,
+  validateRepairChanges,
+  generateScheduleSeries,
+  regenerateSchedule,
+  getScheduleSupervision,
+  simulateSchedule,
+  SchedulingEngineError,
+  AI_ENGINE_DISABLED,
+  type SessionModification,
+  type RepairUnavailability
+} from '../services/scheduler.js'
 import { generateSchedulePdf } from '../services/pdfGenerator.js'
 import {
   findMatchingSessions,
@@ -14,9 +32,97 @@ import {
 } from '../services/sessionLookup.js'
 import { validateSessionEntities } from '../services/sessionValidation.js'
 import { isProviderConfigured, getActiveProvider } from '../services/aiProvider.js'
+import { refreshRollingSchedules } from '../services/rollingSchedules.js'
+import { findBusinessHoursViolation, type BusinessHoursViolation } from '../services/businessHours.js'
+import type { RuleEvaluation } from '../services/ruleEngine.js'
+import {
+  publishSchedule,
+  getCurrentVersion,
+  findBaselineVersion,
+  diffSchedules
+} from '../services/scheduleHistory.js'
+import { scheduleSnapshotRepository } from '../repositories/scheduleSnapshots.js'
+import { ScenarioError } from '../services/scenarios.js'
+import { unmetDemandToCsv, type UnmetDemandReport } from '../services/unmetDemand.js'
 
 const generateScheduleSchema = z.object({
-  weekStartDate: z.string()
+  weekStartDate: z.string(),
+  // Overrides the organization's default engine for this request
+  engine: z.enum(['ai', 'solver']).optional()
+})
+
+const generateSeriesSchema = generateScheduleSchema.extend({
+  weeks: z.number().int().min(1).max(8)
+})
+
+// What-if changes: records to add, fields to change by id, and ids to remove
+function scenarioChangesSchema<Add extends z.ZodTypeAny, Update extends z.ZodTypeAny>(add: Add, update: Update) {
+  return z.object({
+    add: z.array(add).optional(),
+    update: z.array(update).optional(),
+    remove: z.array(z.string()).optional()
+  }).optional()
+}
+
+const hoursSchema = z.record(z.object({ start: z.string(), end: z.string() }).nullable())
+
+const scenarioStaffSchema = z.object({
+  name: z.string().min(1),
+  gender: z.enum(['male', 'female', 'other']),
+  certifications: z.array(z.string()).default([]),
+  defaultHours: hoursSchema
+})
+
+const scenarioSessionSpecSchema = z.object({
+  name: z.string().min(1),
+  sessionsPerWeek: z.number().int().min(0).max(14),
+  durationMinutes: z.number().int().positive().nullable().default(null),
+  requiredCertifications: z.array(z.string()).default([]),
+  preferredTimes: z.array(z.string()).nullable().default(null),
+  preferredRoomId: z.string().nullish(),
+  requiredRoomCapabilities: z.array(z.string()).optional(),
+  groupSize: z.number().int().min(2).nullish()
+})
+
+const scenarioPatientSchema = z.object({
+  name: z.string().min(1),
+  gender: z.enum(['male', 'female', 'other']),
+  availability: z.object({ weekly: hoursSchema }).nullish(),
+  sessionSpecs: z.array(scenarioSessionSpecSchema)
+})
+
+const scenarioRoomSchema = z.object({
+  name: z.string().min(1),
+  capabilities: z.array(z.string()).default([])
+})
+
+const scenarioRuleSchema = z.object({
+  category: z.string(),
+  description: z.string(),
+  ruleLogic: z.record(z.unknown()),
+  priority: z.number().int().default(2)
+})
+
+const withId = { id: z.string() }
+
+const simulateScheduleSchema = generateScheduleSchema.extend({
+  scenario: z.object({
+    staff: scenarioChangesSchema(scenarioStaffSchema, scenarioStaffSchema.partial().extend(withId)),
+    patients: scenarioChangesSchema(
+      scenarioPatientSchema,
+      scenarioPatientSchema.omit({ sessionSpecs: true }).partial().extend(withId)
+    ),
+    sessionSpecs: scenarioChangesSchema(
+      scenarioSessionSpecSchema.extend({ patientId: z.string() }),
+      scenarioSessionSpecSchema.partial().extend(withId)
+    ),
+    rooms: scenarioChangesSchema(scenarioRoomSchema, scenarioRoomSchema.partial().extend(withId)),
+    rules: scenarioChangesSchema(scenarioRuleSchema, scenarioRuleSchema.partial().extend(withId))
+  })
+})
+
+const regenerateScheduleSchema = z.object({
+  engine: z.enum(['ai', 'solver']).optional()
 })
 
 const updateSessionSchema = z.object({
@@ -26,12 +132,14 @@ const updateSessionSchema = z.object({
   date: z.string().optional(),
   startTime: z.string().optional(),
   endTime: z.string().optional(),
-  status: z.enum(['scheduled', 'completed', 'cancelled', 'no_show']).optional(),
-  notes: z.string().optional()
+  // Completing goes through POST /api/sessions/:id/complete, which draws down authorizations
+  status: z.enum(['scheduled', 'cancelled', 'no_show']).optional(),
+  notes: z.string().optional(),
+  locked: z.boolean().optional()
 })
 
 const voiceModifySchema = z.object({
-  action: z.enum(['move', 'cancel', 'swap', 'create']),
+  action: z.enum(['move', 'cancel', 'swap', 'create', 'lock', 'unlock']),
   therapistName: z.string().optional(),
   patientName: z.string().optional(),
   currentDate: z.string().optional(),
@@ -44,6 +152,163 @@ const voiceModifySchema = z.object({
   notes: z.string().optional()
 })
 
+const timeSchema = z.string().regex(/^\d{2}:\d{2}$/, 'Expected a time as HH:MM')
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD')
+
+// Either an existing approved availability record or a new one to record on apply
+const repairUnavailabilitySchema = z.object({
+  availabilityId: z.string().optional(),
+  staffId: z.string().optional(),
+  date: dateSchema.optional(),
+  available: z.boolean().optional(),
+  startTime: timeSchema.nullish(),
+  endTime: timeSchema.nullish(),
+  reason: z.string().nullish()
+})
+
+const repairScheduleSchema = repairUnavailabilitySchema.refine(
+  body => body.availabilityId || (body.staffId && body.date),
+  { message: 'Provide an availabilityId or a staffId and date' }
+)
+
+const repairSlotSchema = z.object({
+  therapistId: z.string(),
+  roomId: z.string().nullable(),
+  date: dateSchema,
+  startTime: timeSchema,
+  endTime: timeSchema
+})
+
+const repairStaffAssignmentSchema = z.object({
+  staffId: z.string(),
+  role: z.enum(['supervisor', 'co_treater']),
+  replacementStaffId: z.string().optional()
+})
+
+const applyRepairSchema = repairUnavailabilitySchema.extend({
+  changes: z.array(z.object({
+    sessionId: z.string(),
+    action: z.enum(['reassign', 'move', 'cancel', 'replace_staff', 'drop_staff']),
+    replacement: repairSlotSchema.optional(),
+    staffAssignment: repairStaffAssignmentSchema.optional()
+  })).min(1)
+}).refine(
+  body => body.availabilityId || (body.staffId && body.date),
+  { message: 'Provide an availabilityId or a staffId and date' }
+)
+
+/**
+ * Resolve the unavailability a repair is based on, from an existing record or
+ * from the request body, making sure the staff member belongs to the organization.
+ */
+async function resolveRepairUnavailability(
+  organizationId: string,
+  body: z.infer<typeof repairUnavailabilitySchema>
+): Promise<RepairUnavailability | { status: number; error: string }> {
+  if (body.availabilityId) {
+    const record = await staffAvailabilityRepository.findByIdWithOrg(body.availabilityId, organizationId)
+    if (!record) {
+      return { status: 404, error: 'Availability record not found' }
+    }
+    return {
+      staffId: record.staffId,
+      date: record.date.toISOString().split('T')[0],
+      available: record.available,
+      startTime: record.startTime,
+      endTime: record.endTime,
+      reason: record.reason
+    }
+  }
+
+  const validation = await validateSessionEntities(organizationId, { staffId: body.staffId })
+  if (!validation.valid) {
+    return { status: 400, error: validation.errors.join('; ') }
+  }
+  if (body.available && !(body.startTime && body.endTime)) {
+    return { status: 400, error: 'Partial availability needs a startTime and endTime' }
+  }
+
+  return {
+    staffId: body.staffId!,
+    date: body.date!,
+    available: body.available ?? false,
+    startTime: body.startTime ?? null,
+    endTime: body.endTime ?? null,
+    reason: body.reason ?? null
+  }
+}
+
+/**
+ * Reject a session that falls outside the organization's business hours,
+ * with the violation attached so clients can show the hours that apply.
+ */
+function sendBusinessHoursViolation(reply: FastifyReply, violation: BusinessHoursViolation) {
+  return reply.status(409).send({
+    error: violation.message,
+    code: violation.code,
+    details: violation
+  })
+}
+
+/**
+ * Reject a session that breaks a hard scheduling rule, listing the rules it breaks.
+ */
+function sendRuleViolations(reply: FastifyReply, ruleCheck: RuleEvaluation) {
+  return reply.status(409).send({
+    error: 'Session violates scheduling rules',
+    details: ruleCheck.hardViolations.map(v => v.message)
+  })
+}
+
+/**
+ * Why an explicit AI request can't run, or null when generation can go ahead.
+ * Organizations that schedule with the solver keep patient data away from the
+ * AI provider, and unlike the organization default, an explicit request can't
+ * fall back to the solver when no provider is configured.
+ */
+async function checkRequestedEngine(
+  organizationId: string,
+  engine: SchedulingEngine | undefined
+): Promise<{ status: number; error: string } | null> {
+  if (engine !== 'ai') return null
+
+  if ((await organizationSettingsRepository.getSchedulingEngine(organizationId)) === 'solver') {
+    return { status: 403, error: AI_ENGINE_DISABLED }
+  }
+
+  if (!isProviderConfigured()) {
+    const configHint = getActiveProvider() === 'openai'
+      ? 'Please set OPENAI_API_KEY.'
+      : 'Please configure AWS credentials.'
+    return { status: 503, error: `AI scheduling service not configured. ${configHint}` }
+  }
+
+  return null
+}
+
+/**
+ * Turn a failed generation into a response: 403 when the organization turned
+ * AI scheduling off, 503 when the AI service failed, 400 when there is nobody
+ * to schedule, otherwise 500 with the given message.
+ */
+function sendGenerationError(reply: FastifyReply, error: unknown, message: string) {
+  if (error instanceof SchedulingEngineError) {
+    return reply.status(403).send({ error: error.message })
+  }
+  if (error instanceof Error) {
+    if (error.message.includes('AI service error')) {
+      return reply.status(503).send({
+        error: 'AI scheduling service temporarily unavailable. Please try again.'
+      })
+    }
+    if (error.message.includes('No active staff') || error.message.includes('No active patients')) {
+      return reply.status(400).send({ error: error.message })
+    }
+  }
+
+  return reply.status(500).send({ error: message })
+}
+
 export async function scheduleRoutes(fastify: FastifyInstance) {
   // List all schedules
   fastify.get('/', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
@@ -93,6 +358,103 @@ export async function scheduleRoutes(fastify: FastifyInstance) {
     }
   })
 
+  // Supervision totals per supervised therapist and week
+  fastify.get('/:id/supervision', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const report = await getScheduleSupervision(organizationId, id)
+    if (!report) {
+      return reply.status(404).send({ error: 'Schedule not found' })
+    }
+
+    return { data: report }
+  })
+
+  // Snapshots published for the schedule's week, newest first
+  fastify.get('/:id/versions', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const schedule = await scheduleRepository.findById(id, organizationId)
+    if (!schedule) {
+      return reply.status(404).send({ error: 'Schedule not found' })
+    }
+
+    const snapshots = await scheduleSnapshotRepository.findByWeek(organizationId, schedule.weekStartDate)
+
+    return {
+      data: snapshots.map(snapshot => ({
+        id: snapshot.id,
+        scheduleId: snapshot.scheduleId,
+        version: snapshot.version,
+        publishedAt: snapshot.publishedAt,
+        publishedById: snapshot.publishedById,
+        sessionCount: snapshot.sessions.length
+      }))
+    }
+  })
+
+  // Compare the schedule against a snapshot or another schedule
+  // (?against=<snapshot or schedule id>, default: the week's latest snapshot)
+  fastify.get('/:id/diff', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const { against } = request.query as { against?: string }
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const schedule = await scheduleRepository.findById(id, organizationId)
+    if (!schedule) {
+      return reply.status(404).send({ error: 'Schedule not found' })
+    }
+
+    const baseline = await findBaselineVersion(organizationId, schedule, against)
+    if (!baseline) {
+      return reply.status(404).send({
+        error: against ? 'Version to compare against not found' : 'This week has no published version to compare against'
+      })
+    }
+
+    const current = await getCurrentVersion(schedule)
+
+    return {
+      data: {
+        from: baseline.ref,
+        to: current.ref,
+        ...diffSchedules(baseline.sessions, current.sessions)
+      }
+    }
+  })
+
+  // Session specs the schedule's generation left short, and why. Null for
+  // schedules that weren't generated (or were generated before the report existed)
+  fastify.get('/:id/unmet-demand', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const schedule = await scheduleRepository.findById(id, organizationId)
+    if (!schedule) {
+      return reply.status(404).send({ error: 'Schedule not found' })
+    }
+
+    return { data: (schedule.unmetDemand as UnmetDemandReport | null) ?? null }
+  })
+
   // Generate new schedule
   fastify.post('/generate', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
     const body = generateScheduleSchema.parse(request.body)
@@ -105,28 +467,23 @@ export async function scheduleRoutes(fastify: FastifyInstance) {
 
     const weekStartDate = new Date(body.weekStartDate)
 
-    // Check if AI provider is configured
-    if (!isProviderConfigured()) {
-      const provider = getActiveProvider()
-      const configHint = provider === 'openai'
-        ? 'Please set OPENAI_API_KEY.'
-        : 'Please configure AWS credentials.'
-      return reply.status(503).send({
-        error: `AI scheduling service not configured. ${configHint}`
-      })
+    const engineError = await checkRequestedEngine(organizationId, body.engine)
+    if (engineError) {
+      return reply.status(engineError.status).send({ error: engineError.error })
     }
 
     try {
-      // Generate sessions using AI
       console.log(`Generating schedule for week starting ${body.weekStartDate}...`)
-      const result = await generateSchedule(organizationId, weekStartDate)
-      console.log(`Generated ${result.stats.totalSessions} sessions`)
+      const result = await generateSchedule(organizationId, weekStartDate, { engine: body.engine })
+      console.log(`Generated ${result.stats.totalSessions} sessions using ${result.engine}`)
 
       // Create the schedule record
       const schedule = await scheduleRepository.create({
         organizationId,
         weekStartDate,
-        createdBy: ctx.userId
+        createdBy: ctx.userId,
+        quality: result.quality,
+        unmetDemand: result.unmetDemand
       })
 
       // Add generated sessions to the schedule
@@ -140,6 +497,7 @@ export async function scheduleRoutes(fastify: FastifyInstance) {
 
       await logAudit(ctx.userId, 'create', 'schedule', schedule.id, organizationId, {
         weekStartDate: body.weekStartDate,
+        engine: result.engine,
         sessionsGenerated: result.stats.totalSessions,
         patientsScheduled: result.stats.patientsScheduled,
         therapistsUsed: result.stats.therapistsUsed
@@ -154,28 +512,206 @@ export async function scheduleRoutes(fastify: FastifyInstance) {
           sessions
         },
         meta: {
+          engine: result.engine,
           stats: result.stats,
-          warnings: result.warnings
+          quality: result.quality,
+          warnings: result.warnings,
+          unmetDemand: result.unmetDemand
         }
       })
     } catch (error) {
       console.error('Schedule generation failed:', error)
 
-      if (error instanceof Error) {
-        if (error.message.includes('AI service error')) {
-          return reply.status(503).send({
-            error: 'AI scheduling service temporarily unavailable. Please try again.'
-          })
+      return sendGenerationError(reply, error, 'Failed to generate schedule. Please try again.')
+    }
+  })
+
+  // Generate several consecutive weeks that keep the same patient-therapist pairings
+  fastify.post('/generate-series', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = generateSeriesSchema.safeParse(request.body)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+    const body = parseResult.data
+
+    const engineError = await checkRequestedEngine(organizationId, body.engine)
+    if (engineError) {
+      return reply.status(engineError.status).send({ error: engineError.error })
+    }
+
+    try {
+      console.log(`Generating ${body.weeks} weeks starting ${body.weekStartDate}...`)
+      const series = await generateScheduleSeries(
+        organizationId,
+        new Date(body.weekStartDate),
+        body.weeks,
+        ctx.userId,
+        { engine: body.engine }
+      )
+
+      for (const week of series) {
+        if (!week.result) continue
+        await logAudit(ctx.userId, 'create', 'schedule', week.schedule.id, organizationId, {
+          weekStartDate: week.weekStartDate,
+          engine: week.result.engine,
+          sessionsGenerated: week.result.stats.totalSessions,
+          series: true
+        })
+      }
+
+      return reply.status(201).send({
+        data: series.map(week => week.schedule),
+        meta: {
+          weeks: series.map(week => ({
+            weekStartDate: week.weekStartDate,
+            scheduleId: week.schedule.id,
+            generated: week.result !== null,
+            engine: week.result?.engine,
+            stats: week.result?.stats,
+            quality: week.result?.quality,
+            warnings: week.result?.warnings ?? ['A schedule already exists for this week and was left unchanged.']
+          }))
         }
-        if (error.message.includes('No active staff') || error.message.includes('No active patients')) {
-          return reply.status(400).send({ error: error.message })
+      })
+    } catch (error) {
+      console.error('Schedule series generation failed:', error)
+
+      return sendGenerationError(reply, error, 'Failed to generate schedules. Please try again.')
+    }
+  })
+
+  // Dry-run generation with what-if changes to staff, patients, specs, rooms
+  // and rules; nothing is saved
+  fastify.post('/simulate', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = simulateScheduleSchema.safeParse(request.body)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+    const body = parseResult.data
+
+    const engineError = await checkRequestedEngine(organizationId, body.engine)
+    if (engineError) {
+      return reply.status(engineError.status).send({ error: engineError.error })
+    }
+
+    try {
+      const simulation = await simulateSchedule(organizationId, new Date(body.weekStartDate), body.scenario, { engine: body.engine })
+      return { data: simulation }
+    } catch (error) {
+      console.error('Schedule simulation failed:', error)
+
+      if (error instanceof ScenarioError) {
+        return reply.status(400).send({ error: error.message })
+      }
+      return sendGenerationError(reply, error, 'Failed to simulate schedule. Please try again.')
+    }
+  })
+
+  // Regenerate a draft schedule, keeping its locked sessions in place
+  fastify.post('/:id/regenerate', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = regenerateScheduleSchema.safeParse(request.body ?? {})
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+    const body = parseResult.data
+
+    const schedule = await scheduleRepository.findByIdWithSessions(id, organizationId)
+    if (!schedule) {
+      return reply.status(404).send({ error: 'Schedule not found' })
+    }
+
+    if (schedule.status !== 'draft') {
+      return reply.status(400).send({
+        error: 'Only draft schedules can be regenerated. Create a draft copy first.'
+      })
+    }
+
+    const engineError = await checkRequestedEngine(organizationId, body.engine)
+    if (engineError) {
+      return reply.status(engineError.status).send({ error: engineError.error })
+    }
+
+    try {
+      const { result, lockedSessions } = await regenerateSchedule(organizationId, schedule, { engine: body.engine })
+
+      await logAudit(ctx.userId, 'update', 'schedule', id, organizationId, {
+        action: 'regenerate',
+        engine: result.engine,
+        sessionsGenerated: result.stats.totalSessions,
+        lockedSessions
+      })
+
+      const updated = await scheduleRepository.findByIdWithSessions(id, organizationId)
+
+      return {
+        data: updated,
+        meta: {
+          engine: result.engine,
+          stats: result.stats,
+          quality: result.quality,
+          warnings: result.warnings,
+          unmetDemand: result.unmetDemand,
+          lockedSessions
         }
       }
+    } catch (error) {
+      console.error('Schedule regeneration failed:', error)
+
+      return sendGenerationError(reply, error, 'Failed to regenerate schedule. Please try again.')
+    }
+  })
 
-      return reply.status(500).send({
-        error: 'Failed to generate schedule. Please try again.'
+  // Bring the rolling horizon of draft schedules up to date
+  fastify.post('/rolling/refresh', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const result = await refreshRollingSchedules(organizationId, ctx.userId)
+
+    for (const week of result.weeks) {
+      if (!week.scheduleId || (week.action !== 'generated' && week.action !== 'repaired')) continue
+      await logAudit(ctx.userId, week.action === 'generated' ? 'create' : 'update', 'schedule', week.scheduleId, organizationId, {
+        action: `rolling_${week.action === 'generated' ? 'generate' : 'repair'}`,
+        weekStartDate: week.weekStartDate,
+        changes: week.changes
       })
     }
+
+    return { data: result.weeks, meta: { horizonWeeks: result.horizonWeeks } }
   })
 
   // Publish schedule
@@ -188,12 +724,13 @@ export async function scheduleRoutes(fastify: FastifyInstance) {
       return reply.status(400).send({ error: 'Organization context required' })
     }
 
-    const schedule = await scheduleRepository.publish(id, organizationId)
-    if (!schedule) {
+    const published = await publishSchedule(organizationId, id, ctx.userId)
+    if (!published) {
       return reply.status(404).send({ error: 'Schedule not found' })
     }
+    const { schedule, snapshot } = published
 
-    await logAudit(ctx.userId, 'publish', 'schedule', id, organizationId)
+    await logAudit(ctx.userId, 'publish', 'schedule', id, organizationId, { snapshotId: snapshot.id, version: schedule.version })
 
     return { data: schedule }
   })
@@ -358,6 +895,12 @@ export async function scheduleRoutes(fastify: FastifyInstance) {
       startTime: string
       endTime: string
       notes?: string
+      // Makes a group session with the patient as its first participant
+      capacity?: number
+    }
+
+    if (body.capacity !== undefined && (!Number.isInteger(body.capacity) || body.capacity < 2)) {
+      return reply.status(400).send({ error: 'capacity must be a whole number of at least 2' })
     }
 
     // SECURITY: Validate that referenced entities belong to this organization
@@ -374,6 +917,28 @@ export async function scheduleRoutes(fastify: FastifyInstance) {
       })
     }
 
+    const outsideHours = await findBusinessHoursViolation(organizationId, {
+      date: body.date.split('T')[0],
+      startTime: body.startTime,
+      endTime: body.endTime
+    })
+    if (outsideHours) {
+      return sendBusinessHoursViolation(reply, outsideHours)
+    }
+
+    const ruleCheck = await checkSessionRules(organizationId, {
+      therapistId: body.staffId,
+      patientId: body.patientId,
+      roomId: body.roomId || null,
+      date: body.date.split('T')[0],
+      startTime: body.startTime,
+      endTime: body.endTime
+    }, { scheduleId: id })
+
+    if (ruleCheck.hardViolations.length > 0) {
+      return sendRuleViolations(reply, ruleCheck)
+    }
+
     const session = await sessionRepository.create({
       scheduleId: id,
       therapistId: body.staffId,
@@ -382,12 +947,18 @@ export async function scheduleRoutes(fastify: FastifyInstance) {
       date: new Date(body.date),
       startTime: body.startTime,
       endTime: body.endTime,
-      notes: body.notes
+      notes: body.notes,
+      capacity: body.capacity ?? null,
+      participants: body.capacity ? [{ patientId: body.patientId }] : undefined
     })
 
+    await refreshScheduleQuality(organizationId, id)
     await logAudit(ctx.userId, 'create', 'session', session.id, organizationId, body)
 
-    return reply.status(201).send({ data: session })
+    return reply.status(201).send({
+      data: session,
+      meta: { ruleWarnings: ruleCheck.softViolations.map(v => v.message) }
+    })
   })
 
   // Update session within schedule
@@ -435,18 +1006,60 @@ export async function scheduleRoutes(fastify: FastifyInstance) {
       }
     }
 
+    // Re-check rules when the assignment or timing changes
+    let ruleWarnings: string[] = []
+    const reschedules = ['staffId', 'patientId', 'roomId', 'date', 'startTime', 'endTime']
+      .some(field => body[field as keyof typeof body] !== undefined)
+
+    if (reschedules) {
+      const existing = await sessionRepository.findById(sessionId, organizationId)
+      if (!existing || existing.scheduleId !== scheduleId) {
+        return reply.status(404).send({ error: 'Session not found' })
+      }
+
+      const date = body.date ? body.date.split('T')[0] : existing.date.toISOString().split('T')[0]
+      const startTime = body.startTime ?? existing.startTime
+      const endTime = body.endTime ?? existing.endTime
+
+      const outsideHours = await findBusinessHoursViolation(organizationId, { date, startTime, endTime })
+      if (outsideHours) {
+        return sendBusinessHoursViolation(reply, outsideHours)
+      }
+
+      const ruleCheck = await checkSessionRules(organizationId, {
+        therapistId: body.staffId ?? existing.therapistId,
+        patientId: body.patientId ?? existing.patientId,
+        sessionSpecId: existing.sessionSpecId,
+        roomId: body.roomId !== undefined ? body.roomId : existing.roomId,
+        date,
+        startTime,
+        endTime
+      }, { scheduleId, excludeSessionId: sessionId })
+
+      if (ruleCheck.hardViolations.length > 0) {
+        return sendRuleViolations(reply, ruleCheck)
+      }
+      ruleWarnings = ruleCheck.softViolations.map(v => v.message)
+    }
+
     const session = await sessionRepository.update(sessionId, scheduleId, {
       ...body,
-      date: body.date ? new Date(body.date) : undefined
+      date: body.date ? new Date(body.date) : undefined,
+      // The scheduler's explanation no longer describes a hand-moved session
+      explanation: reschedules ? null : undefined
     })
 
     if (!session) {
       return reply.status(404).send({ error: 'Session not found' })
     }
 
+    if (reschedules) {
+      await refreshScheduleQuality(organizationId, scheduleId)
+    }
+
     await logAudit(ctx.userId, 'update', 'session', sessionId, organizationId, body)
 
-    return { data: session }
+    return { data: session, meta: { ruleWarnings } }
   })
 
   // Delete session from schedule
@@ -471,12 +1084,189 @@ export async function scheduleRoutes(fastify: FastifyInstance) {
       return reply.status(404).send({ error: 'Session not found' })
     }
 
+    await refreshScheduleQuality(organizationId, scheduleId)
     await logAudit(ctx.userId, 'delete', 'session', sessionId, organizationId)
 
     return reply.status(204).send()
   })
 
-  // Modify schedule via voice command (move, cancel sessions)
+  // Propose a repair for sessions affected by a staff member calling out
+  fastify.post('/:id/repair', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = repairScheduleSchema.safeParse(request.body)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+
+    const schedule = await scheduleRepository.findByIdWithSessions(id, organizationId)
+    if (!schedule) {
+      return reply.status(404).send({ error: 'Schedule not found' })
+    }
+
+    const unavailability = await resolveRepairUnavailability(organizationId, parseResult.data)
+    if ('error' in unavailability) {
+      return reply.status(unavailability.status).send({ error: unavailability.error })
+    }
+
+    const weekStart = schedule.weekStartDate.toISOString().split('T')[0]
+    const weekEnd = new Date(schedule.weekStartDate)
+    weekEnd.setDate(weekEnd.getDate() + 6)
+    if (unavailability.date < weekStart || unavailability.date > weekEnd.toISOString().split('T')[0]) {
+      return reply.status(400).send({ error: 'The unavailability date is outside this schedule\'s week' })
+    }
+
+    const proposal = await proposeScheduleRepair(organizationId, schedule, unavailability)
+
+    return {
+      data: proposal,
+      meta: { availabilityId: parseResult.data.availabilityId }
+    }
+  })
+
+  // Apply the repair changes the admin accepted
+  fastify.post('/:id/repair/apply', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = applyRepairSchema.safeParse(request.body)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+    const body = parseResult.data
+
+    const schedule = await scheduleRepository.findByIdWithSessions(id, organizationId)
+    if (!schedule) {
+      return reply.status(404).send({ error: 'Schedule not found' })
+    }
+
+    const unavailability = await resolveRepairUnavailability(organizationId, body)
+    if ('error' in unavailability) {
+      return reply.status(unavailability.status).send({ error: unavailability.error })
+    }
+
+    // Re-check every accepted change against the schedule as it is now
+    const changedIds = new Set(body.changes.map(c => c.sessionId))
+    const problems: string[] = []
+    for (const change of body.changes) {
+      const session = schedule.sessions.find(s => s.id === change.sessionId)
+      if (!session) {
+        problems.push(`Session ${change.sessionId} is not part of this schedule`)
+        continue
+      }
+      if (change.action === 'cancel') continue
+
+      if (change.action === 'replace_staff' || change.action === 'drop_staff') {
+        const assignment = change.staffAssignment
+        if (!assignment || !session.staffAssignments?.some(a => a.staffId === assignment.staffId && a.role === assignment.role)) {
+          problems.push(`Session ${change.sessionId} no longer has that supervisor or co-treater`)
+          continue
+        }
+        if (change.action === 'replace_staff') {
+          if (!assignment.replacementStaffId) {
+            problems.push(`Session ${change.sessionId} has no replacement staff member`)
+            continue
+          }
+          const validation = await validateSessionEntities(organizationId, { staffId: assignment.replacementStaffId })
+          if (!validation.valid) problems.push(...validation.errors)
+        }
+        continue
+      }
+
+      if (!change.replacement) {
+        problems.push(`Session ${change.sessionId} has no replacement slot`)
+        continue
+      }
+
+      const validation = await validateSessionEntities(organizationId, {
+        staffId: change.replacement.therapistId,
+        roomId: change.replacement.roomId || undefined
+      })
+      if (!validation.valid) {
+        problems.push(...validation.errors)
+        continue
+      }
+
+      // Sessions moved or cancelled in this same repair no longer block their old slot
+      const conflicts = (await checkForConflicts({
+        scheduleId: id,
+        therapistId: change.replacement.therapistId,
+        patientId: session.patientId,
+        date: new Date(change.replacement.date),
+        startTime: change.replacement.startTime,
+        endTime: change.replacement.endTime,
+        excludeSessionId: session.id
+      })).filter(c => !changedIds.has(c.id) && c.status !== 'cancelled' && c.status !== 'late_cancel')
+
+      if (conflicts.length > 0) {
+        const conflict = conflicts[0]
+        problems.push(
+          `${session.patientName || 'Session'} at ${change.replacement.startTime} on ${change.replacement.date} conflicts with ${conflict.therapistName || 'therapist'}'s session with ${conflict.patientName || 'patient'} at ${conflict.startTime}`
+        )
+      }
+    }
+
+    // Hours, closures, availability and hard rules, as the proposal checked them
+    if (problems.length === 0) {
+      problems.push(...await validateRepairChanges(organizationId, schedule, unavailability, body.changes))
+    }
+
+    if (problems.length > 0) {
+      return reply.status(409).send({
+        error: 'The schedule changed since the repair was proposed. Please request a new repair.',
+        details: problems
+      })
+    }
+
+    // Record the unavailability with the changes, so future generation respects it
+    const { availabilityId: recordedId, ...applied } = await applyScheduleRepair(organizationId, id, body.changes, {
+      cancelledById: ctx.userId,
+      notes: unavailability.reason
+    }, body.availabilityId ? undefined : {
+      staffId: unavailability.staffId,
+      date: new Date(unavailability.date),
+      available: unavailability.available ?? false,
+      startTime: unavailability.startTime,
+      endTime: unavailability.endTime,
+      reason: unavailability.reason,
+      status: 'approved'
+    })
+    const availabilityId = body.availabilityId ?? recordedId
+
+    await refreshScheduleQuality(organizationId, id)
+    await logAudit(ctx.userId, 'update', 'schedule', id, organizationId, {
+      action: 'repair',
+      availabilityId,
+      staffId: unavailability.staffId,
+      date: unavailability.date,
+      ...applied
+    })
+
+    const updated = await scheduleRepository.findByIdWithSessions(id, organizationId)
+
+    return {
+      data: updated,
+      meta: { availabilityId, applied }
+    }
+  })
+
+  // Modify schedule via voice command (move, cancel, lock sessions)
   fastify.post('/:id/modify-voice', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
     const { id } = request.params as { id: string }
     const body = voiceModifySchema.parse(request.body)
@@ -538,6 +1328,8 @@ export async function scheduleRoutes(fastify: FastifyInstance) {
           return reply.status(500).send({ error: 'Failed to cancel session' })
         }
 
+        await refreshScheduleQuality(organizationId, id)
+
         await logAudit(ctx.userId, 'delete', 'session', session.id, organizationId, {
           action: 'voice_cancel',
           therapistName: session.therapistName,
@@ -570,6 +1362,15 @@ export async function scheduleRoutes(fastify: FastifyInstance) {
         const newStartTime = body.newStartTime || session.startTime
         const newEndTime = body.newEndTime || calculateNewEndTime(newStartTime)
 
+        const outsideHours = await findBusinessHoursViolation(organizationId, {
+          date: newDate.toISOString().split('T')[0],
+          startTime: newStartTime,
+          endTime: newEndTime
+        })
+        if (outsideHours) {
+          return sendBusinessHoursViolation(reply, outsideHours)
+        }
+
         // Check for conflicts at the new time
         const conflicts = await checkForConflicts({
           scheduleId: id,
@@ -589,17 +1390,34 @@ export async function scheduleRoutes(fastify: FastifyInstance) {
           })
         }
 
+        const ruleCheck = await checkSessionRules(organizationId, {
+          therapistId: session.therapistId,
+          patientId: session.patientId,
+          sessionSpecId: session.sessionSpecId,
+          roomId: session.roomId,
+          date: newDate.toISOString().split('T')[0],
+          startTime: newStartTime,
+          endTime: newEndTime
+        }, { scheduleId: id, excludeSessionId: session.id })
+
+        if (ruleCheck.hardViolations.length > 0) {
+          return sendRuleViolations(reply, ruleCheck)
+        }
+
         // Update the session
         const updatedSession = await sessionRepository.update(session.id, id, {
           date: newDate,
           startTime: newStartTime,
-          endTime: newEndTime
+          endTime: newEndTime,
+          explanation: null
         })
 
         if (!updatedSession) {
           return reply.status(500).send({ error: 'Failed to move session' })
         }
 
+        await refreshScheduleQuality(organizationId, id)
+
         await logAudit(ctx.userId, 'update', 'session', session.id, organizationId, {
           action: 'voice_move',
           from: { date: session.date, startTime: session.startTime },
@@ -619,6 +1437,31 @@ export async function scheduleRoutes(fastify: FastifyInstance) {
               startTime: newStartTime
             },
             message: `Moved ${session.therapistName || 'therapist'}'s session from ${session.startTime} to ${newStartTime}`
+          },
+          meta: { ruleWarnings: ruleCheck.softViolations.map(v => v.message) }
+        }
+      }
+
+      case 'lock':
+      case 'unlock': {
+        const session = matchingResults[0].session
+        const locked = body.action === 'lock'
+
+        const updatedSession = await sessionRepository.update(session.id, id, { locked })
+        if (!updatedSession) {
+          return reply.status(500).send({ error: `Failed to ${body.action} session` })
+        }
+
+        await logAudit(ctx.userId, 'update', 'session', session.id, organizationId, {
+          action: `voice_${body.action}`,
+          locked
+        })
+
+        return {
+          data: {
+            action: locked ? 'locked' : 'unlocked',
+            session: updatedSession,
+            message: `${locked ? 'Locked' : 'Unlocked'} ${session.therapistName || 'therapist'}'s session with ${session.patientName || 'patient'} at ${session.startTime}`
           }
         }
       }
@@ -715,6 +1558,15 @@ export async function scheduleRoutes(fastify: FastifyInstance) {
         const startTime = body.newStartTime
         const endTime = body.newEndTime || calculateNewEndTime(startTime)
 
+        const outsideHours = await findBusinessHoursViolation(organizationId, {
+          date: sessionDate.toISOString().split('T')[0],
+          startTime,
+          endTime
+        })
+        if (outsideHours) {
+          return sendBusinessHoursViolation(reply, outsideHours)
+        }
+
         // Check for conflicts at the requested time
         const conflicts = await checkForConflicts({
           scheduleId: id,
@@ -733,6 +1585,19 @@ export async function scheduleRoutes(fastify: FastifyInstance) {
           })
         }
 
+        const ruleCheck = await checkSessionRules(organizationId, {
+          therapistId: therapist.id,
+          patientId: patient.id,
+          roomId: null,
+          date: sessionDate.toISOString().split('T')[0],
+          startTime,
+          endTime
+        }, { scheduleId: id })
+
+        if (ruleCheck.hardViolations.length > 0) {
+          return sendRuleViolations(reply, ruleCheck)
+        }
+
         // Create the session
         const newSession = await sessionRepository.create({
           scheduleId: id,
@@ -744,6 +1609,7 @@ export async function scheduleRoutes(fastify: FastifyInstance) {
           notes: body.notes
         })
 
+        await refreshScheduleQuality(organizationId, id)
         await logAudit(ctx.userId, 'create', 'session', newSession.id, organizationId, {
           action: 'voice_create',
           therapistName: therapist.name,
@@ -761,7 +1627,8 @@ export async function scheduleRoutes(fastify: FastifyInstance) {
               patientName: patient.name
             },
             message: `Created session for ${patient.name} with ${therapist.name} at ${startTime}`
-          }
+          },
+          meta: { ruleWarnings: ruleCheck.softViolations.map(v => v.message) }
         }
       }
 
@@ -813,4 +1680,28 @@ export async function scheduleRoutes(fastify: FastifyInstance) {
       return reply.status(500).send({ error: 'Failed to generate PDF' })
     }
   })
+
+  // Export the unmet demand report as CSV
+  fastify.get('/:id/export/unmet-demand', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const schedule = await scheduleRepository.findById(id, organizationId)
+    if (!schedule) {
+      return reply.status(404).send({ error: 'Schedule not found' })
+    }
+    if (!schedule.unmetDemand) {
+      return reply.status(404).send({ error: 'This schedule has no unmet demand report' })
+    }
+
+    const dateStr = new Date(schedule.weekStartDate).toISOString().split('T')[0]
+    reply.header('Content-Type', 'text/csv')
+    reply.header('Content-Disposition', `attachment; filename="unmet-demand-${dateStr}.csv"`)
+
+    return reply.send(unmetDemandToCsv(schedule.unmetDemand as unknown as UnmetDemandReport))
+  })
 }
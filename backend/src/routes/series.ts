@@ -0,0 +1,362 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
+import { z } from 'zod'
+import { authenticate, requireAdminOrAssistant } from '../middleware/auth.js'
+import { seriesRepository } from '../repositories/series.js'
+import { sessionRepository } from '../repositories/schedules.js'
+import { patientRepository } from '../repositories/patients.js'
+import { logAudit } from '../repositories/audit.js'
+import { validateSessionEntities } from '../services/sessionValidation.js'
+import {
+  previewSeries,
+  createSeries,
+  updateSeries,
+  cancelSeries,
+  SeriesError,
+  SeriesConflictError
+} from '../services/series.js'
+import type { CancellationReason } from '@prisma/client'
+
+const timeSchema = z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:mm format')
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format')
+
+const seriesSchema = z.object({
+  patientId: z.string().min(1),
+  staffId: z.string().min(1),
+  roomId: z.string().min(1).nullable().optional(),
+  sessionSpecId: z.string().min(1).nullable().optional(),
+  // RFC 5545 RRULE, e.g. FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20260630
+  rrule: z.string().min(1).max(500),
+  startDate: dateSchema,
+  startTime: timeSchema,
+  endTime: timeSchema,
+  notes: z.string().max(1000).nullable().optional()
+})
+
+const createSeriesSchema = seriesSchema.extend({
+  // Book the series anyway, skipping the occurrences that clash
+  allowConflicts: z.boolean().optional()
+})
+
+const updateOccurrenceSchema = z.object({
+  scope: z.enum(['this', 'following', 'all']),
+  rrule: z.string().min(1).max(500).optional(),
+  date: dateSchema.optional(),
+  startTime: timeSchema.optional(),
+  endTime: timeSchema.optional(),
+  staffId: z.string().min(1).optional(),
+  roomId: z.string().min(1).nullable().optional(),
+  notes: z.string().max(1000).nullable().optional(),
+  allowConflicts: z.boolean().optional()
+})
+
+const cancelSeriesSchema = z.object({
+  reason: z.enum(['patient_request', 'caregiver_request', 'therapist_unavailable', 'weather', 'illness', 'scheduling_conflict', 'other']),
+  notes: z.string().optional()
+})
+
+const cancelOccurrenceSchema = cancelSeriesSchema.extend({
+  scope: z.enum(['this', 'following', 'all'])
+})
+
+const listQuerySchema = z.object({
+  patientId: z.string().optional(),
+  status: z.enum(['active', 'ended', 'cancelled']).optional()
+})
+
+type OccurrenceParams = { id: string; sessionId: string }
+
+function sendSeriesError(reply: FastifyReply, error: unknown) {
+  if (error instanceof SeriesConflictError) {
+    return reply.status(409).send({ error: error.message, conflicts: error.conflicts })
+  }
+  if (error instanceof SeriesError) {
+    return reply.status(400).send({ error: error.message })
+  }
+  throw error
+}
+
+/**
+ * Check that the series' patient, staff member, room and session spec belong
+ * to the organization. Returns an error message, or null when they do.
+ */
+async function seriesEntityError(
+  organizationId: string,
+  fields: { patientId?: string; staffId?: string; roomId?: string | null; sessionSpecId?: string | null }
+): Promise<string | null> {
+  const validation = await validateSessionEntities(organizationId, fields)
+  if (!validation.valid) {
+    return validation.errors.join('; ')
+  }
+  if (fields.patientId && fields.sessionSpecId) {
+    const patient = await patientRepository.findByIdWithSessionSpecs(fields.patientId, organizationId)
+    if (!patient?.sessionSpecs.some(spec => spec.id === fields.sessionSpecId)) {
+      return 'Session spec does not belong to the patient'
+    }
+  }
+  return null
+}
+
+export async function seriesRoutes(fastify: FastifyInstance) {
+  // List appointment series; active ones by default
+  fastify.get('/', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = listQuerySchema.safeParse(request.query)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+
+    const series = await seriesRepository.findByOrganization(organizationId, parseResult.data)
+
+    return { data: series }
+  })
+
+  // Get a series with its sessions
+  fastify.get('/:id', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const series = await seriesRepository.findById(id, organizationId)
+    if (!series) {
+      return reply.status(404).send({ error: 'Series not found' })
+    }
+
+    const sessions = await seriesRepository.findSessions(id)
+
+    return { data: { ...series, sessions } }
+  })
+
+  // Preview the occurrences a series would book, and their conflicts
+  fastify.post('/preview', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = seriesSchema.safeParse(request.body)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+
+    try {
+      return { data: await previewSeries(organizationId, parseResult.data) }
+    } catch (error) {
+      return sendSeriesError(reply, error)
+    }
+  })
+
+  // Create a series and book its upcoming occurrences
+  fastify.post('/', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = createSeriesSchema.safeParse(request.body)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+    const { allowConflicts, ...body } = parseResult.data
+
+    if (body.startTime >= body.endTime) {
+      return reply.status(400).send({ error: 'startTime must be before endTime' })
+    }
+
+    const entityError = await seriesEntityError(organizationId, body)
+    if (entityError) {
+      return reply.status(400).send({ error: entityError })
+    }
+
+    try {
+      const { series, created, skipped } = await createSeries(organizationId, body, {
+        allowConflicts,
+        createdByUserId: ctx.userId
+      })
+
+      await logAudit(ctx.userId, 'create', 'appointment_series', series.id, organizationId, body)
+
+      return reply.status(201).send({ data: series, meta: { created, skipped } })
+    } catch (error) {
+      return sendSeriesError(reply, error)
+    }
+  })
+
+  // Edit one occurrence, it and the ones after it, or the whole series
+  fastify.put('/:id/occurrences/:sessionId', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id, sessionId } = request.params as OccurrenceParams
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = updateOccurrenceSchema.safeParse(request.body)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+    const { scope, allowConflicts, ...changes } = parseResult.data
+
+    if (scope === 'this' && changes.rrule) {
+      return reply.status(400).send({ error: 'The recurrence rule can only change for following or all occurrences' })
+    }
+    if (scope !== 'this' && changes.date) {
+      return reply.status(400).send({ error: 'Only a single occurrence can move to another date' })
+    }
+    if (changes.startTime && changes.endTime && changes.startTime >= changes.endTime) {
+      return reply.status(400).send({ error: 'startTime must be before endTime' })
+    }
+
+    const entityError = await seriesEntityError(organizationId, changes)
+    if (entityError) {
+      return reply.status(400).send({ error: entityError })
+    }
+
+    const series = await seriesRepository.findById(id, organizationId)
+    if (!series) {
+      return reply.status(404).send({ error: 'Series not found' })
+    }
+
+    const session = await sessionRepository.findById(sessionId, organizationId)
+    if (!session) {
+      return reply.status(404).send({ error: 'Session not found' })
+    }
+
+    try {
+      const result = await updateSeries(organizationId, series, session, scope, changes, {
+        allowConflicts,
+        updatedByUserId: ctx.userId
+      })
+
+      await logAudit(ctx.userId, 'update', 'appointment_series', result.series.id, organizationId, {
+        action: 'update_occurrences',
+        scope,
+        sessionId,
+        ...changes
+      })
+
+      return {
+        data: result.series,
+        meta: { session: result.session ?? null, created: result.created, skipped: result.skipped }
+      }
+    } catch (error) {
+      return sendSeriesError(reply, error)
+    }
+  })
+
+  // Cancel the whole series; sessions that already happened are kept
+  fastify.post('/:id/cancel', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = cancelSeriesSchema.safeParse(request.body)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+    const body = parseResult.data
+
+    const series = await seriesRepository.findById(id, organizationId)
+    if (!series) {
+      return reply.status(404).send({ error: 'Series not found' })
+    }
+
+    try {
+      const cancelled = await cancelSeries(organizationId, series, null, 'all', {
+        cancelledById: ctx.userId,
+        reason: body.reason as CancellationReason,
+        notes: body.notes
+      })
+
+      await logAudit(ctx.userId, 'update', 'appointment_series', id, organizationId, {
+        action: 'cancel_series',
+        reason: body.reason,
+        cancelled
+      })
+
+      return { success: true, meta: { cancelled } }
+    } catch (error) {
+      return sendSeriesError(reply, error)
+    }
+  })
+
+  // Cancel one occurrence, it and the ones after it, or the whole series
+  fastify.post('/:id/occurrences/:sessionId/cancel', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id, sessionId } = request.params as OccurrenceParams
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = cancelOccurrenceSchema.safeParse(request.body)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+    const body = parseResult.data
+
+    const series = await seriesRepository.findById(id, organizationId)
+    if (!series) {
+      return reply.status(404).send({ error: 'Series not found' })
+    }
+
+    const session = await sessionRepository.findById(sessionId, organizationId)
+    if (!session) {
+      return reply.status(404).send({ error: 'Session not found' })
+    }
+
+    try {
+      const cancelled = await cancelSeries(organizationId, series, session, body.scope, {
+        cancelledById: ctx.userId,
+        reason: body.reason as CancellationReason,
+        notes: body.notes
+      })
+
+      await logAudit(ctx.userId, 'update', 'appointment_series', id, organizationId, {
+        action: 'cancel_occurrences',
+        scope: body.scope,
+        sessionId,
+        reason: body.reason,
+        cancelled
+      })
+
+      return { success: true, meta: { cancelled } }
+    } catch (error) {
+      return sendSeriesError(reply, error)
+    }
+  })
+}
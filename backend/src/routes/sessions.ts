@@ -3,7 +3,12 @@ import { z } from 'zod'
 import { authenticate, requireAdminOrAssistant } from '../middleware/auth.js'
 import { sessionRepository, type SessionStatus, type CancellationReason } from '../repositories/schedules.js'
 import { organizationSettingsRepository } from '../repositories/organizationSettings.js'
+import { patientRepository } from '../repositories/patients.js'
+import { staffRepository } from '../repositories/staff.js'
 import { logAudit } from '../repositories/audit.js'
+import { consumeAuthorization } from '../services/authorizations.js'
+import { checkForConflicts } from '../services/sessionLookup.js'
+import { offerCancelledSession } from '../services/waitlist.js'
 
 // Valid status transitions - ensures proper workflow
 const validStatusTransitions: Record<SessionStatus, SessionStatus[]> = {
@@ -28,6 +33,24 @@ const cancelSessionSchema = z.object({
   notes: z.string().optional()
 })
 
+const addParticipantSchema = z.object({
+  patientId: z.string().min(1),
+  // The patient's group spec the session counts toward
+  sessionSpecId: z.string().min(1).nullable().optional()
+})
+
+const participantStatusSchema = z.object({
+  status: updateStatusSchema.shape.status
+})
+
+const addStaffSchema = z.object({
+  staffId: z.string().min(1),
+  role: z.enum(['supervisor', 'co_treater'])
+})
+
+// Statuses after which a session's enrollment can no longer change
+const CLOSED_STATUSES: SessionStatus[] = ['completed', 'cancelled', 'late_cancel', 'no_show']
+
 export async function sessionRoutes(fastify: FastifyInstance) {
   // Get today's sessions for the authenticated user (or all sessions for admins)
   fastify.get('/today', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
@@ -41,7 +64,6 @@ export async function sessionRoutes(fastify: FastifyInstance) {
     // If staff role, get their associated therapist ID
     let therapistId: string | undefined
     if (user.role === 'staff') {
-      const { staffRepository } = await import('../repositories/staff.js')
       const staff = await staffRepository.findByUserId(user.userId)
       if (staff) {
         therapistId = staff.id
@@ -159,10 +181,18 @@ export async function sessionRoutes(fastify: FastifyInstance) {
       return reply.status(500).send({ error: 'Failed to update session status' })
     }
 
+    // Completing here uses up authorization units just like the complete action
+    const usage = body.status === 'completed'
+      ? await consumeAuthorization(organizationId, { ...session, participants: currentSession.participants })
+      : []
+
     await logAudit(ctx.userId, 'update', 'session', id, organizationId, {
       action: 'status_change',
       fromStatus: currentSession.status,
-      toStatus: body.status
+      toStatus: body.status,
+      ...(usage.length > 0 && {
+        authorizationUsage: usage.map(u => ({ authorizationId: u.authorizationId, units: u.units }))
+      })
     })
 
     return { data: session }
@@ -264,8 +294,14 @@ export async function sessionRoutes(fastify: FastifyInstance) {
       return reply.status(500).send({ error: 'Failed to complete session' })
     }
 
+    // Completed sessions use up units of the payer authorizations covering them
+    const usage = await consumeAuthorization(organizationId, { ...session, participants: currentSession.participants })
+
     await logAudit(ctx.userId, 'update', 'session', id, organizationId, {
-      action: 'complete_session'
+      action: 'complete_session',
+      ...(usage.length > 0 && {
+        authorizationUsage: usage.map(u => ({ authorizationId: u.authorizationId, units: u.units }))
+      })
     })
 
     return { data: session }
@@ -321,10 +357,16 @@ export async function sessionRoutes(fastify: FastifyInstance) {
       isLateCancellation
     })
 
+    // Offer the freed slot to the waitlist
+    const waitlistOffer = await offerCancelledSession(organizationId, session)
+
     return {
       data: session,
       meta: {
         isLateCancellation,
+        waitlistOffer: waitlistOffer
+          ? { id: waitlistOffer.id, entryId: waitlistOffer.entryId, expiresAt: waitlistOffer.expiresAt }
+          : null,
         message: isLateCancellation
           ? 'Session marked as late cancellation (within cancellation window)'
           : 'Session cancelled successfully'
@@ -402,4 +444,250 @@ export async function sessionRoutes(fastify: FastifyInstance) {
 
     return { data: session }
   })
+
+  // Enroll a patient in a group session
+  fastify.post('/:id/participants', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = addParticipantSchema.safeParse(request.body)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+    const body = parseResult.data
+
+    const session = await sessionRepository.findById(id, organizationId)
+    if (!session) {
+      return reply.status(404).send({ error: 'Session not found' })
+    }
+
+    if (!session.capacity) {
+      return reply.status(400).send({ error: 'Session is not a group session' })
+    }
+
+    if (CLOSED_STATUSES.includes(session.status)) {
+      return reply.status(400).send({ error: `Cannot enroll patients in a session with status '${session.status}'` })
+    }
+
+    // A patient whose participation was cancelled can enroll again
+    const active = (session.participants || []).filter(p => p.status !== 'cancelled' && p.status !== 'late_cancel')
+    if (active.some(p => p.patientId === body.patientId)) {
+      return reply.status(409).send({ error: 'Patient is already enrolled in this session' })
+    }
+
+    if (active.length >= session.capacity) {
+      return reply.status(409).send({ error: `Group session is full (capacity ${session.capacity})` })
+    }
+
+    const patient = await patientRepository.findByIdWithSessionSpecs(body.patientId, organizationId)
+    if (!patient) {
+      return reply.status(404).send({ error: 'Patient not found' })
+    }
+
+    if (body.sessionSpecId && !patient.sessionSpecs.some(spec => spec.id === body.sessionSpecId)) {
+      return reply.status(400).send({ error: 'Session spec does not belong to the patient' })
+    }
+
+    const conflicts = await checkForConflicts({
+      scheduleId: session.scheduleId,
+      patientId: body.patientId,
+      date: session.date,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      excludeSessionId: id
+    })
+    if (conflicts.length > 0) {
+      return reply.status(409).send({
+        error: `${patient.name} already has a session at this time`,
+        conflicts
+      })
+    }
+
+    // Checked again with the session locked, in case another enrollment got in meanwhile
+    const result = await sessionRepository.addParticipant(id, body)
+    if (result.status === 'already_enrolled') {
+      return reply.status(409).send({ error: 'Patient is already enrolled in this session' })
+    }
+    if (result.status === 'full') {
+      return reply.status(409).send({ error: `Group session is full (capacity ${session.capacity})` })
+    }
+    const { participant } = result
+
+    await logAudit(ctx.userId, 'update', 'session', id, organizationId, {
+      action: 'add_participant',
+      patientId: body.patientId,
+      sessionSpecId: body.sessionSpecId ?? null
+    })
+
+    return reply.status(201).send({ data: participant })
+  })
+
+  // Remove a patient from a group session
+  fastify.delete('/:id/participants/:patientId', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id, patientId } = request.params as { id: string; patientId: string }
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const session = await sessionRepository.findById(id, organizationId)
+    if (!session) {
+      return reply.status(404).send({ error: 'Session not found' })
+    }
+
+    // The session's own patient anchors it; cancel the session to drop them
+    if (session.patientId === patientId) {
+      return reply.status(400).send({ error: 'The session\'s first patient cannot be removed; cancel the session instead' })
+    }
+
+    const removed = await sessionRepository.removeParticipant(id, patientId)
+    if (!removed) {
+      return reply.status(404).send({ error: 'Participant not found' })
+    }
+
+    await logAudit(ctx.userId, 'update', 'session', id, organizationId, {
+      action: 'remove_participant',
+      patientId
+    })
+
+    return reply.status(204).send()
+  })
+
+  // Record one group participant's attendance
+  fastify.put('/:id/participants/:patientId/status', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id, patientId } = request.params as { id: string; patientId: string }
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = participantStatusSchema.safeParse(request.body)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+
+    const session = await sessionRepository.findById(id, organizationId)
+    if (!session) {
+      return reply.status(404).send({ error: 'Session not found' })
+    }
+
+    const participant = await sessionRepository.updateParticipantStatus(id, patientId, parseResult.data.status)
+    if (!participant) {
+      return reply.status(404).send({ error: 'Participant not found' })
+    }
+
+    await logAudit(ctx.userId, 'update', 'session', id, organizationId, {
+      action: 'participant_status_change',
+      patientId,
+      toStatus: parseResult.data.status
+    })
+
+    return { data: participant }
+  })
+
+  // Add a supervisor or co-treater to a session
+  fastify.post('/:id/staff', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = addStaffSchema.safeParse(request.body)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+    const body = parseResult.data
+
+    const session = await sessionRepository.findById(id, organizationId)
+    if (!session) {
+      return reply.status(404).send({ error: 'Session not found' })
+    }
+
+    if (CLOSED_STATUSES.includes(session.status)) {
+      return reply.status(400).send({ error: `Cannot add staff to a session with status '${session.status}'` })
+    }
+
+    if (session.therapistId === body.staffId || session.staffAssignments?.some(a => a.staffId === body.staffId)) {
+      return reply.status(409).send({ error: 'Staff member is already assigned to this session' })
+    }
+
+    const staff = await staffRepository.findById(body.staffId, organizationId)
+    if (!staff) {
+      return reply.status(404).send({ error: 'Staff member not found' })
+    }
+
+    const conflicts = await checkForConflicts({
+      scheduleId: session.scheduleId,
+      therapistId: body.staffId,
+      date: session.date,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      excludeSessionId: id
+    })
+    if (conflicts.length > 0) {
+      return reply.status(409).send({
+        error: `${staff.name} already has a session at this time`,
+        conflicts
+      })
+    }
+
+    const assignment = await sessionRepository.addStaffAssignment(id, body)
+
+    await logAudit(ctx.userId, 'update', 'session', id, organizationId, {
+      action: 'add_staff',
+      staffId: body.staffId,
+      role: body.role
+    })
+
+    return reply.status(201).send({ data: assignment })
+  })
+
+  // Remove a supervisor or co-treater from a session
+  fastify.delete('/:id/staff/:staffId', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id, staffId } = request.params as { id: string; staffId: string }
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const session = await sessionRepository.findById(id, organizationId)
+    if (!session) {
+      return reply.status(404).send({ error: 'Session not found' })
+    }
+
+    const removed = await sessionRepository.removeStaffAssignment(id, staffId)
+    if (!removed) {
+      return reply.status(404).send({ error: 'Staff assignment not found' })
+    }
+
+    await logAudit(ctx.userId, 'update', 'session', id, organizationId, {
+      action: 'remove_staff',
+      staffId
+    })
+
+    return reply.status(204).send()
+  })
 }
@@ -1,10 +1,12 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
 import { z } from 'zod'
 import { authenticate, requireAdmin } from '../middleware/auth.js'
-import { organizationSettingsRepository, type BusinessHours } from '../repositories/organizationSettings.js'
+import { organizationSettingsRepository, type BusinessHours, type SchedulingEngine } from '../repositories/organizationSettings.js'
 import { organizationFeaturesRepository, FEATURE_TIERS, type FeatureTier } from '../repositories/organizationFeatures.js'
 import { getFeatureStatuses } from '../middleware/featureGuard.js'
 import { logAudit } from '../repositories/audit.js'
+import { refreshRollingSchedules } from '../services/rollingSchedules.js'
+import { normalizePhone } from '../utils/phone.js'
 
 const businessHoursDaySchema = z.object({
   open: z.boolean(),
@@ -12,26 +14,45 @@ const businessHoursDaySchema = z.object({
   end: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/)
 })
 
+// Hours for one date that replace the weekday's, e.g. closing early before a holiday
+const businessHoursExceptionSchema = businessHoursDaySchema.extend({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  reason: z.string().max(200).nullable().optional()
+})
+
+const businessHoursSchema = z.object({
+  monday: businessHoursDaySchema,
+  tuesday: businessHoursDaySchema,
+  wednesday: businessHoursDaySchema,
+  thursday: businessHoursDaySchema,
+  friday: businessHoursDaySchema,
+  saturday: businessHoursDaySchema,
+  sunday: businessHoursDaySchema,
+  exceptions: z.array(businessHoursExceptionSchema).max(366).optional()
+})
+
 const updateSettingsSchema = z.object({
-  businessHours: z.object({
-    monday: businessHoursDaySchema,
-    tuesday: businessHoursDaySchema,
-    wednesday: businessHoursDaySchema,
-    thursday: businessHoursDaySchema,
-    friday: businessHoursDaySchema,
-    saturday: businessHoursDaySchema,
-    sunday: businessHoursDaySchema
-  }).optional(),
+  businessHours: businessHoursSchema.optional(),
   timezone: z.string().optional(),
   defaultSessionDuration: z.number().min(15).max(480).optional(),
   slotInterval: z.number().min(5).max(60).optional(),
-  lateCancelWindowHours: z.number().min(0).max(168).optional()
+  lateCancelWindowHours: z.number().min(0).max(168).optional(),
+  schedulingEngine: z.enum(['ai', 'solver']).optional(),
+  rollingHorizonWeeks: z.number().int().min(0).max(12).optional(),
+  continuityWeight: z.number().int().min(0).max(100).optional(),
+  closeOnFederalHolidays: z.boolean().optional(),
+  // A phone number, or an alphanumeric sender ID where carriers allow one
+  smsSenderId: z.string().trim().min(1).max(20).nullable().optional(),
+  smsCountryCode: z.string().regex(/^[1-9]\d{0,2}$/, 'Country code must be 1-3 digits, without +').optional()
 })
 
+// Carriers allow up to 11 letters, digits and spaces, with at least one letter
+const ALPHANUMERIC_SENDER_ID = /^(?=.*[A-Za-z])[A-Za-z0-9 ]{1,11}$/
+
 const updateFeaturesSchema = z.object({
   emailRemindersEnabled: z.boolean().optional(),
   smsRemindersEnabled: z.boolean().optional(),
-  reminderHours: z.array(z.number().min(0).max(168)).optional(),
+  reminderHours: z.array(z.number().int().min(1).max(168)).optional(),
   patientPortalEnabled: z.boolean().optional(),
   portalAllowCancel: z.boolean().optional(),
   portalAllowReschedule: z.boolean().optional(),
@@ -84,16 +105,42 @@ export async function settingsRoutes(fastify: FastifyInstance) {
       return reply.status(400).send({ error: 'Organization context required' })
     }
 
+    // Sender numbers are stored as E.164, so replies to them can be matched
+    if (body.smsSenderId && !ALPHANUMERIC_SENDER_ID.test(body.smsSenderId)) {
+      const countryCode = body.smsCountryCode
+        ?? (await organizationSettingsRepository.findByOrganizationId(organizationId)).smsCountryCode
+      const number = normalizePhone(body.smsSenderId, countryCode)
+      if (!number) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          details: [{ path: ['smsSenderId'], message: 'Must be a phone number or a sender ID of up to 11 letters and digits' }]
+        })
+      }
+      body.smsSenderId = number
+    }
+
     const settings = await organizationSettingsRepository.update(organizationId, body as {
       businessHours?: BusinessHours
       timezone?: string
       defaultSessionDuration?: number
       slotInterval?: number
       lateCancelWindowHours?: number
+      schedulingEngine?: SchedulingEngine
+      rollingHorizonWeeks?: number
+      continuityWeight?: number
+      closeOnFederalHolidays?: boolean
+      smsSenderId?: string | null
+      smsCountryCode?: string
     })
 
     await logAudit(ctx.userId, 'update', 'organization_settings', settings.id, organizationId, body)
 
+    if (body.rollingHorizonWeeks) {
+      refreshRollingSchedules(organizationId, ctx.userId).catch((err) => {
+        console.error('[Settings] Failed to refresh rolling schedules:', err)
+      })
+    }
+
     return { data: settings }
   })
 
@@ -112,15 +159,7 @@ export async function settingsRoutes(fastify: FastifyInstance) {
 
   // Update business hours only (admin only)
   fastify.put('/business-hours', { preHandler: requireAdmin() }, async (request: FastifyRequest, reply: FastifyReply) => {
-    const body = z.object({
-      monday: businessHoursDaySchema,
-      tuesday: businessHoursDaySchema,
-      wednesday: businessHoursDaySchema,
-      thursday: businessHoursDaySchema,
-      friday: businessHoursDaySchema,
-      saturday: businessHoursDaySchema,
-      sunday: businessHoursDaySchema
-    }).parse(request.body)
+    const body = businessHoursSchema.parse(request.body)
 
     const organizationId = request.ctx.organizationId
     const ctx = request.ctx.user!
@@ -4,6 +4,7 @@ import { authenticate, requireAdminOrAssistant } from '../middleware/auth.js'
 import { staffAvailabilityRepository } from '../repositories/staffAvailability.js'
 import { staffRepository } from '../repositories/staff.js'
 import { logAudit } from '../repositories/audit.js'
+import { refreshRollingSchedules } from '../services/rollingSchedules.js'
 
 // Zod schemas for validation
 const createAvailabilitySchema = z.object({
@@ -20,6 +21,16 @@ const reviewRequestSchema = z.object({
   notes: z.string().max(500).optional()
 })
 
+/**
+ * Approved unavailability can invalidate drafted upcoming weeks, so bring the
+ * rolling horizon up to date in the background.
+ */
+function refreshRollingHorizon(organizationId: string, userId: string) {
+  refreshRollingSchedules(organizationId, userId).catch((err) => {
+    console.error('[Availability] Failed to refresh rolling schedules:', err)
+  })
+}
+
 const dateRangeQuerySchema = z.object({
   startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
   endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
@@ -119,6 +130,10 @@ export async function staffAvailabilityRoutes(fastify: FastifyInstance) {
         status
       })
 
+      if (status === 'approved') {
+        refreshRollingHorizon(organizationId, user.userId)
+      }
+
       return reply.status(201).send({ data: availability })
     }
   )
@@ -173,6 +188,10 @@ export async function staffAvailabilityRoutes(fastify: FastifyInstance) {
 
       await logAudit(user.userId, 'update', 'staff_availability', id, organizationId, body)
 
+      if (updated.status === 'approved') {
+        refreshRollingHorizon(organizationId, user.userId)
+      }
+
       return { data: updated }
     }
   )
@@ -258,6 +277,8 @@ export async function staffAvailabilityRoutes(fastify: FastifyInstance) {
         notes: body.notes
       })
 
+      refreshRollingHorizon(organizationId, user.userId)
+
       return { data: approved }
     }
   )
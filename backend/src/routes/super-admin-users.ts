@@ -1,6 +1,7 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
 import { z } from 'zod'
 import { requireSuperAdmin } from '../middleware/auth.js'
+import { prisma } from '../repositories/base.js'
 import { userRepository } from '../repositories/users.js'
 import { passwordResetTokenRepository } from '../repositories/passwordResetTokens.js'
 import { logAudit } from '../repositories/audit.js'
@@ -95,18 +96,18 @@ export async function superAdminUserRoutes(fastify: FastifyInstance) {
     // Send invitation email
     let inviteSent = false
     try {
-      // Create invitation token
-      const tokenRecord = await passwordResetTokenRepository.create(user.id, 'invitation')
-
       // Get inviter's name
       const inviter = await userRepository.findById(ctx.userId)
       const inviterName = inviter?.name || 'A super administrator'
 
-      // Send invitation email
-      await sendSuperAdminInvitation({
-        user: { email: body.email, name: body.name },
-        token: tokenRecord.token,
-        invitedByName: inviterName
+      // Create the invitation token and queue its email together
+      await prisma.$transaction(async (tx) => {
+        const tokenRecord = await passwordResetTokenRepository.create(user.id, 'invitation', tx)
+        await sendSuperAdminInvitation({
+          user: { email: body.email, name: body.name },
+          token: tokenRecord.token,
+          invitedByName: inviterName
+        }, { tx })
       })
 
       inviteSent = true
@@ -179,18 +180,18 @@ export async function superAdminUserRoutes(fastify: FastifyInstance) {
     }
 
     try {
-      // Create new invitation token (invalidates old ones)
-      const tokenRecord = await passwordResetTokenRepository.create(id, 'invitation')
-
       // Get inviter's name
       const inviter = await userRepository.findById(ctx.userId)
       const inviterName = inviter?.name || 'A super administrator'
 
-      // Send invitation email
-      await sendSuperAdminInvitation({
-        user: { email: existing.email, name: existing.name },
-        token: tokenRecord.token,
-        invitedByName: inviterName
+      // Create a new invitation token (invalidates old ones) and queue its email together
+      await prisma.$transaction(async (tx) => {
+        const tokenRecord = await passwordResetTokenRepository.create(id, 'invitation', tx)
+        await sendSuperAdminInvitation({
+          user: { email: existing.email, name: existing.name },
+          token: tokenRecord.token,
+          invitedByName: inviterName
+        }, { tx })
       })
 
       await logAudit(ctx.userId, 'resend_invite', 'super_admin_user', id, null)
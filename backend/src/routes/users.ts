@@ -1,6 +1,7 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
 import { z } from 'zod'
 import { requireAdmin } from '../middleware/auth.js'
+import { prisma } from '../repositories/base.js'
 import { userRepository } from '../repositories/users.js'
 import { passwordResetTokenRepository } from '../repositories/passwordResetTokens.js'
 import { organizationRepository } from '../repositories/organizations.js'
@@ -120,23 +121,23 @@ export async function userRoutes(fastify: FastifyInstance) {
     let inviteSent = false
     if (!body.password && body.sendInvite) {
       try {
-        // Create invitation token
-        const tokenRecord = await passwordResetTokenRepository.create(user.id, 'invitation')
-
         // Get inviter's name
         const inviter = await userRepository.findById(ctx.userId)
         const inviterName = inviter?.name || 'An administrator'
 
-        // Send invitation email (organization already fetched above)
-        await sendUserInvitation({
-          user: { email: body.email, name: body.name },
-          organization: organization ? {
-            name: organization.name,
-            subdomain: organization.subdomain,
-            primaryColor: organization.primaryColor
-          } : null,
-          token: tokenRecord.token,
-          invitedByName: inviterName
+        // Create the invitation token and queue its email together (organization already fetched above)
+        await prisma.$transaction(async (tx) => {
+          const tokenRecord = await passwordResetTokenRepository.create(user.id, 'invitation', tx)
+          await sendUserInvitation({
+            user: { email: body.email, name: body.name },
+            organization: organization ? {
+              name: organization.name,
+              subdomain: organization.subdomain,
+              primaryColor: organization.primaryColor
+            } : null,
+            token: tokenRecord.token,
+            invitedByName: inviterName
+          }, { organizationId, tx })
         })
 
         inviteSent = true
@@ -180,9 +181,6 @@ export async function userRoutes(fastify: FastifyInstance) {
     }
 
     try {
-      // Create new invitation token (invalidates old ones)
-      const tokenRecord = await passwordResetTokenRepository.create(id, 'invitation')
-
       // Get organization details for email
       const organization = await organizationRepository.findById(organizationId)
 
@@ -190,16 +188,19 @@ export async function userRoutes(fastify: FastifyInstance) {
       const inviter = await userRepository.findById(ctx.userId)
       const inviterName = inviter?.name || 'An administrator'
 
-      // Send invitation email
-      await sendUserInvitation({
-        user: { email: user.email, name: user.name },
-        organization: organization ? {
-          name: organization.name,
-          subdomain: organization.subdomain,
-          primaryColor: organization.primaryColor
-        } : null,
-        token: tokenRecord.token,
-        invitedByName: inviterName
+      // Create a new invitation token (invalidates old ones) and queue its email together
+      await prisma.$transaction(async (tx) => {
+        const tokenRecord = await passwordResetTokenRepository.create(id, 'invitation', tx)
+        await sendUserInvitation({
+          user: { email: user.email, name: user.name },
+          organization: organization ? {
+            name: organization.name,
+            subdomain: organization.subdomain,
+            primaryColor: organization.primaryColor
+          } : null,
+          token: tokenRecord.token,
+          invitedByName: inviterName
+        }, { organizationId, tx })
       })
 
       await logAudit(ctx.userId, 'resend_invite', 'user', id, organizationId)
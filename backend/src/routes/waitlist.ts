@@ -0,0 +1,187 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
+import { z } from 'zod'
+import { authenticate, requireAdminOrAssistant } from '../middleware/auth.js'
+import { waitlistRepository } from '../repositories/waitlist.js'
+import { logAudit } from '../repositories/audit.js'
+import { removeFromWaitlist, waitlistEntryError } from '../services/waitlist.js'
+
+const timeSchema = z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:mm format')
+
+const waitlistEntrySchema = z.object({
+  patientId: z.string().min(1),
+  sessionSpecId: z.string().min(1).nullable().optional(),
+  // Leave empty for any weekday
+  days: z.array(z.enum(['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'])).optional(),
+  earliestTime: timeSchema.nullable().optional(),
+  latestTime: timeSchema.nullable().optional(),
+  staffId: z.string().min(1).nullable().optional(),
+  requiredCertifications: z.array(z.string().min(1)).optional(),
+  durationMinutes: z.number().int().min(15).max(480).nullable().optional(),
+  priority: z.number().int().min(0).max(100).optional(),
+  notes: z.string().max(1000).nullable().optional()
+})
+
+const updateWaitlistEntrySchema = waitlistEntrySchema.omit({ patientId: true }).partial()
+
+const listQuerySchema = z.object({
+  patientId: z.string().optional(),
+  status: z.enum(['waiting', 'offered', 'booked', 'cancelled']).optional()
+})
+
+function windowError(earliestTime?: string | null, latestTime?: string | null): string | null {
+  if (earliestTime && latestTime && earliestTime >= latestTime) {
+    return 'earliestTime must be before latestTime'
+  }
+  return null
+}
+
+export async function waitlistRoutes(fastify: FastifyInstance) {
+  // List waitlist entries, in the order they're offered slots; waiting and offered by default
+  fastify.get('/', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = listQuerySchema.safeParse(request.query)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+
+    const entries = await waitlistRepository.findByOrganization(organizationId, parseResult.data)
+
+    return { data: entries }
+  })
+
+  // Get single waitlist entry
+  fastify.get('/:id', { preHandler: authenticate }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const entry = await waitlistRepository.findById(id, organizationId)
+    if (!entry) {
+      return reply.status(404).send({ error: 'Waitlist entry not found' })
+    }
+
+    return { data: entry }
+  })
+
+  // Add a patient to the waitlist
+  fastify.post('/', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = waitlistEntrySchema.safeParse(request.body)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+    const body = parseResult.data
+
+    const timeError = windowError(body.earliestTime, body.latestTime)
+    if (timeError) {
+      return reply.status(400).send({ error: timeError })
+    }
+
+    const entryError = await waitlistEntryError(organizationId, body.patientId, body)
+    if (entryError === 'Patient not found') {
+      return reply.status(404).send({ error: entryError })
+    }
+    if (entryError) {
+      return reply.status(400).send({ error: entryError })
+    }
+
+    const entry = await waitlistRepository.create({
+      ...body,
+      organizationId,
+      createdByUserId: ctx.userId
+    })
+
+    await logAudit(ctx.userId, 'create', 'waitlist_entry', entry.id, organizationId, body)
+
+    return reply.status(201).send({ data: entry })
+  })
+
+  // Update an entry's constraints
+  fastify.put('/:id', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const parseResult = updateWaitlistEntrySchema.safeParse(request.body)
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.issues
+      })
+    }
+    const body = parseResult.data
+
+    const existing = await waitlistRepository.findById(id, organizationId)
+    if (!existing) {
+      return reply.status(404).send({ error: 'Waitlist entry not found' })
+    }
+
+    const timeError = windowError(
+      body.earliestTime !== undefined ? body.earliestTime : existing.earliestTime,
+      body.latestTime !== undefined ? body.latestTime : existing.latestTime
+    )
+    if (timeError) {
+      return reply.status(400).send({ error: timeError })
+    }
+
+    const entryError = await waitlistEntryError(organizationId, existing.patientId, body)
+    if (entryError) {
+      return reply.status(400).send({ error: entryError })
+    }
+
+    const entry = await waitlistRepository.update(id, organizationId, body)
+    if (!entry) {
+      return reply.status(404).send({ error: 'Waitlist entry not found' })
+    }
+
+    await logAudit(ctx.userId, 'update', 'waitlist_entry', id, organizationId, body)
+
+    return { data: entry }
+  })
+
+  // Take a patient off the waitlist; an open offer is withdrawn and passed on
+  fastify.delete('/:id', { preHandler: requireAdminOrAssistant() }, async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string }
+    const organizationId = request.ctx.organizationId
+    const ctx = request.ctx.user!
+
+    if (!organizationId) {
+      return reply.status(400).send({ error: 'Organization context required' })
+    }
+
+    const entry = await waitlistRepository.findById(id, organizationId)
+    if (!entry) {
+      return reply.status(404).send({ error: 'Waitlist entry not found' })
+    }
+
+    await removeFromWaitlist(entry)
+
+    await logAudit(ctx.userId, 'delete', 'waitlist_entry', id, organizationId)
+
+    return reply.status(204).send()
+  })
+}
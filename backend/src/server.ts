@@ -16,7 +16,12 @@ import { staffRoutes } from './routes/staff.js'
 import { patientRoutes } from './routes/patients.js'
 import { ruleRoutes } from './routes/rules.js'
 import { roomRoutes } from './routes/rooms.js'
+import { holidayRoutes } from './routes/holidays.js'
+import { authorizationRoutes } from './routes/authorizations.js'
+import { waitlistRoutes } from './routes/waitlist.js'
+import { seriesRoutes } from './routes/series.js'
 import { scheduleRoutes } from './routes/schedules.js'
+import { scheduleJobRoutes } from './routes/scheduleJobs.js'
 import { sessionRoutes } from './routes/sessions.js'
 import { userRoutes } from './routes/users.js'
 import { voiceRoutes } from './routes/voice.js'
@@ -32,9 +37,24 @@ import { settingsRoutes } from './routes/settings.js'
 import bookingRoutes from './routes/booking.js'
 import portalRoutes from './routes/portal.js'
 import { helpRoutes } from './routes/help.js'
+import { notificationRoutes } from './routes/notifications.js'
 import { organizationMiddleware } from './middleware/organization.js'
 import { checkDbHealth } from './db/index.js'
 import { getJwtExpiresIn } from './config/security.js'
+import { failInterruptedGenerationJobs } from './services/generationJobs.js'
+import { advanceExpiredOffers } from './services/waitlist.js'
+import { materializeAllSeries } from './services/series.js'
+import { sendDueReminders } from './services/reminders.js'
+import { processOutbox } from './services/notifications.js'
+
+// How often unclaimed waitlist offers are checked for expiry
+const WAITLIST_SWEEP_INTERVAL_MS = 60 * 1000
+// How often appointment series book occurrences entering their horizon
+const SERIES_SWEEP_INTERVAL_MS = 60 * 60 * 1000
+// How often sessions are checked for reminders that have come due
+const REMINDER_SWEEP_INTERVAL_MS = 5 * 60 * 1000
+// How often the notification outbox is checked for emails and texts due a delivery attempt
+const NOTIFICATION_OUTBOX_INTERVAL_MS = 30 * 1000
 
 const server = Fastify({
   logger: true
@@ -86,7 +106,12 @@ async function start() {
   await server.register(patientRoutes, { prefix: '/api/patients' })
   await server.register(ruleRoutes, { prefix: '/api/rules' })
   await server.register(roomRoutes, { prefix: '/api/rooms' })
+  await server.register(holidayRoutes, { prefix: '/api/holidays' })
+  await server.register(authorizationRoutes, { prefix: '/api/authorizations' })
+  await server.register(waitlistRoutes, { prefix: '/api/waitlist' })
+  await server.register(seriesRoutes, { prefix: '/api/series' })
   await server.register(scheduleRoutes, { prefix: '/api/schedules' })
+  await server.register(scheduleJobRoutes, { prefix: '/api/schedules/jobs' })
   await server.register(sessionRoutes, { prefix: '/api/sessions' })
   await server.register(userRoutes, { prefix: '/api/users' })
   await server.register(voiceRoutes, { prefix: '/api/voice' })
@@ -101,6 +126,7 @@ async function start() {
   await server.register(bookingRoutes, { prefix: '/api/booking' })
   await server.register(portalRoutes, { prefix: '/api/portal' })
   await server.register(helpRoutes, { prefix: '/api/help' })
+  await server.register(notificationRoutes, { prefix: '/api/notifications' })
 
   // Health check - basic (for load balancer)
   server.get('/api/health', async () => {
@@ -161,6 +187,34 @@ async function start() {
   try {
     await server.listen({ port, host })
     console.log(`Server running at http://${host}:${port}`)
+
+    failInterruptedGenerationJobs().catch((err) => {
+      console.error('[Server] Failed to clean up interrupted generation jobs:', err)
+    })
+
+    setInterval(() => {
+      advanceExpiredOffers().catch((err) => {
+        console.error('[Server] Failed to advance expired waitlist offers:', err)
+      })
+    }, WAITLIST_SWEEP_INTERVAL_MS).unref()
+
+    setInterval(() => {
+      materializeAllSeries().catch((err) => {
+        console.error('[Server] Failed to materialize appointment series:', err)
+      })
+    }, SERIES_SWEEP_INTERVAL_MS).unref()
+
+    setInterval(() => {
+      sendDueReminders().catch((err) => {
+        console.error('[Server] Failed to send session reminders:', err)
+      })
+    }, REMINDER_SWEEP_INTERVAL_MS).unref()
+
+    setInterval(() => {
+      processOutbox().catch((err) => {
+        console.error('[Server] Failed to process the notification outbox:', err)
+      })
+    }, NOTIFICATION_OUTBOX_INTERVAL_MS).unref()
   } catch (err) {
     server.log.error(err)
     process.exit(1)
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../../repositories/authorizations.js', () => ({
+  authorizationRepository: {
+    findByPatient: vi.fn(),
+    findForPatients: vi.fn(),
+    getUsedUnits: vi.fn(),
+    recordUsage: vi.fn(),
+    findOpenSessions: vi.fn()
+  }
+}))
+
+import {
+  unitsForSession,
+  getAuthorizationPeriod,
+  findCoveringAuthorization,
+  consumeAuthorization,
+  getAuthorizationsForScheduling,
+  authorizationWarnings
+} from '../authorizations.js'
+import { authorizationRepository, type PatientAuthorization } from '../../repositories/authorizations.js'
+import type { PatientForScheduling } from '../aiProvider.js'
+
+function authorization(fields: Partial<PatientAuthorization> = {}): PatientAuthorization {
+  return {
+    id: 'auth-1',
+    organizationId: 'org-1',
+    patientId: 'patient-1',
+    sessionSpecId: null,
+    payer: 'Aetna',
+    authNumber: 'A-100',
+    approvedUnits: 40,
+    unitMinutes: 15,
+    period: 'total',
+    startDate: new Date('2025-01-01T00:00:00Z'),
+    endDate: new Date('2025-03-31T00:00:00Z'),
+    notes: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...fields
+  }
+}
+
+describe('unitsForSession', () => {
+  it('rounds a partial unit up', () => {
+    expect(unitsForSession(15, '09:00', '10:00')).toBe(4)
+    expect(unitsForSession(15, '09:00', '09:50')).toBe(4)
+  })
+})
+
+describe('getAuthorizationPeriod', () => {
+  const dates = { startDate: '2025-01-01', endDate: '2025-03-31' }
+
+  it('uses the Monday to Sunday week, clipped to the authorization', () => {
+    expect(getAuthorizationPeriod({ ...dates, period: 'week' }, '2025-01-08')).toEqual({ from: '2025-01-06', to: '2025-01-12' })
+    expect(getAuthorizationPeriod({ ...dates, period: 'week' }, '2025-01-02')).toEqual({ from: '2025-01-01', to: '2025-01-05' })
+  })
+
+  it('uses the calendar month', () => {
+    expect(getAuthorizationPeriod({ ...dates, period: 'month' }, '2025-02-14')).toEqual({ from: '2025-02-01', to: '2025-02-28' })
+  })
+
+  it('uses the whole authorization for a total', () => {
+    expect(getAuthorizationPeriod({ ...dates, period: 'total' }, '2025-02-14')).toEqual({ from: '2025-01-01', to: '2025-03-31' })
+  })
+})
+
+describe('findCoveringAuthorization', () => {
+  const general = { id: 'general', sessionSpecId: null, startDate: '2025-01-01', endDate: '2025-03-31' }
+  const speech = { id: 'speech', sessionSpecId: 'spec-speech', startDate: '2025-01-01', endDate: '2025-01-31' }
+
+  it('prefers an authorization for the session spec', () => {
+    expect(findCoveringAuthorization([general, speech], 'spec-speech', '2025-01-15').authorization?.id).toBe('speech')
+    expect(findCoveringAuthorization([general, speech], 'spec-aba', '2025-01-15').authorization?.id).toBe('general')
+  })
+
+  it('reports an applicable authorization that has expired', () => {
+    expect(findCoveringAuthorization([general, speech], 'spec-speech', '2025-02-03')).toEqual({ applies: true, authorization: null })
+  })
+
+  it('does not apply when nothing is on file for the spec', () => {
+    expect(findCoveringAuthorization([speech], 'spec-aba', '2025-01-15')).toEqual({ applies: false, authorization: null })
+  })
+})
+
+describe('consumeAuthorization', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  const session = {
+    id: 'session-1',
+    patientId: 'patient-1',
+    sessionSpecId: 'spec-1',
+    date: new Date('2025-01-08T00:00:00Z'),
+    startTime: '09:00',
+    endTime: '10:30'
+  }
+
+  it('records the session\'s units against the covering authorization', async () => {
+    vi.mocked(authorizationRepository.findByPatient).mockResolvedValue([authorization()])
+
+    await consumeAuthorization('org-1', session)
+
+    expect(authorizationRepository.recordUsage).toHaveBeenCalledWith({
+      authorizationId: 'auth-1',
+      sessionId: 'session-1',
+      units: 6,
+      date: session.date
+    })
+  })
+
+  it('records nothing when no authorization covers the session', async () => {
+    vi.mocked(authorizationRepository.findByPatient).mockResolvedValue([
+      authorization({ endDate: new Date('2025-01-05T00:00:00Z') })
+    ])
+
+    expect(await consumeAuthorization('org-1', session)).toEqual([])
+    expect(authorizationRepository.recordUsage).not.toHaveBeenCalled()
+  })
+
+  it('charges each group participant who attended to their own authorization', async () => {
+    vi.mocked(authorizationRepository.findByPatient).mockImplementation(async (_org, patientId) => [
+      authorization({ id: `auth-${patientId}`, patientId })
+    ])
+
+    await consumeAuthorization('org-1', {
+      ...session,
+      participants: [
+        { patientId: 'patient-1', sessionSpecId: 'spec-1', status: 'completed' },
+        { patientId: 'patient-2', sessionSpecId: 'spec-2', status: 'no_show' },
+        { patientId: 'patient-3', sessionSpecId: 'spec-3', status: 'checked_in' }
+      ]
+    })
+
+    expect(vi.mocked(authorizationRepository.recordUsage).mock.calls.map(([usage]) => usage.authorizationId)).toEqual([
+      'auth-patient-1',
+      'auth-patient-3'
+    ])
+  })
+})
+
+describe('getAuthorizationsForScheduling', () => {
+  it('subtracts used units and units held by other published sessions', async () => {
+    vi.mocked(authorizationRepository.findForPatients).mockResolvedValue([authorization()])
+    vi.mocked(authorizationRepository.getUsedUnits).mockResolvedValue(20)
+    vi.mocked(authorizationRepository.findOpenSessions).mockResolvedValue([
+      { sessionSpecId: 'spec-1', date: new Date('2025-01-20T00:00:00Z'), startTime: '09:00', endTime: '10:00' }
+    ])
+
+    const result = await getAuthorizationsForScheduling(
+      'org-1',
+      ['patient-1'],
+      new Date('2025-01-06T00:00:00Z'),
+      new Date('2025-01-12T00:00:00Z')
+    )
+
+    expect(result.get('patient-1')).toEqual([expect.objectContaining({ id: 'auth-1', remainingUnits: 16 })])
+  })
+})
+
+describe('authorizationWarnings', () => {
+  const patient = (remainingUnits: number, endDate: string): PatientForScheduling => ({
+    id: 'patient-1',
+    identifier: null,
+    name: 'Emily Carter',
+    gender: 'female',
+    sessionSpecs: [],
+    authorizations: [{
+      id: 'auth-1',
+      payer: 'Aetna',
+      authNumber: 'A-100',
+      sessionSpecId: null,
+      unitMinutes: 15,
+      startDate: '2025-01-01',
+      endDate,
+      remainingUnits
+    }]
+  })
+  const weekEnd = new Date('2025-01-12T00:00:00Z')
+
+  it('warns about exhausted authorizations', () => {
+    expect(authorizationWarnings([patient(0, '2025-06-30')], weekEnd)).toEqual([
+      'Authorization A-100 (Aetna) for Emily Carter has no units left; its sessions were not scheduled.'
+    ])
+  })
+
+  it('warns about authorizations expiring within 30 days', () => {
+    expect(authorizationWarnings([patient(10, '2025-02-01')], weekEnd)).toEqual([
+      'Authorization A-100 (Aetna) for Emily Carter expires on 2025-02-01.'
+    ])
+    expect(authorizationWarnings([patient(10, '2025-03-01')], weekEnd)).toEqual([])
+  })
+})
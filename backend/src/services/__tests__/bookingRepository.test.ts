@@ -15,6 +15,10 @@ vi.mock('../availability.js', () => ({
   }
 }))
 
+vi.mock('../scheduler.js', () => ({
+  checkSessionRules: vi.fn().mockResolvedValue({ hardViolations: [], softViolations: [], score: 0, satisfiedRuleIds: [] })
+}))
+
 vi.mock('../../repositories/organizationSettings.js', () => ({
   organizationSettingsRepository: {
     findByOrganizationId: vi.fn().mockResolvedValue({
@@ -23,7 +27,8 @@ vi.mock('../../repositories/organizationSettings.js', () => ({
       slotInterval: 30,
       lateCancelWindowHours: 24,
       businessHours: {}
-    })
+    }),
+    getBusinessHours: vi.fn()
   }
 }))
 
@@ -46,9 +51,22 @@ interface MockTxClient {
   }
 }
 
+const weekdayHours = { open: true, start: '08:00', end: '18:00' }
+const businessHours = {
+  monday: weekdayHours,
+  tuesday: weekdayHours,
+  wednesday: weekdayHours,
+  thursday: weekdayHours,
+  friday: { open: true, start: '08:00', end: '14:00' },
+  saturday: { open: false, start: '08:00', end: '18:00' },
+  sunday: { open: false, start: '08:00', end: '18:00' }
+}
+
 describe('BookingRepository', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     vi.clearAllMocks()
+    const { organizationSettingsRepository } = await import('../../repositories/organizationSettings.js')
+    vi.mocked(organizationSettingsRepository.getBusinessHours).mockResolvedValue(businessHours)
   })
 
   it('rejects booking from hold when a conflicting session exists', async () => {
@@ -156,5 +174,139 @@ describe('BookingRepository', () => {
       data: { convertedToSessionId: 'session-1' }
     })
   })
-})
 
+  it('rejects booking from hold when it breaks a hard scheduling rule', async () => {
+    const { BookingRepository } = await import('../../repositories/booking.js')
+    const { checkSessionRules } = await import('../scheduler.js')
+    const repo = new BookingRepository()
+
+    vi.mocked(checkSessionRules).mockResolvedValueOnce({
+      hardViolations: [{
+        ruleId: 'rule-1',
+        category: 'session',
+        description: 'Max 6 sessions per day',
+        message: 'Sarah Johnson would exceed 6 sessions on 2025-01-01',
+        hard: true,
+        penalty: 0
+      }],
+      softViolations: [],
+      score: 0,
+      satisfiedRuleIds: []
+    })
+
+    const tx: MockTxClient = {
+      appointmentHold: {
+        findFirst: vi.fn().mockResolvedValue({
+          id: 'hold-1',
+          organizationId: 'org-1',
+          staffId: 'staff-1',
+          roomId: null,
+          date: new Date('2025-01-01'),
+          startTime: '10:00',
+          endTime: '11:00',
+          expiresAt: new Date(Date.now() + 60_000),
+          releasedAt: null,
+          convertedToSessionId: null,
+          createdByContactId: 'contact-1',
+          createdByUserId: null
+        }),
+        update: vi.fn()
+      },
+      session: {
+        findFirst: vi.fn().mockResolvedValue(null),
+        create: vi.fn()
+      }
+    }
+
+    mockPrisma.$transaction.mockImplementationOnce(async (fn: (txArg: unknown) => Promise<unknown>) => {
+      return fn(tx)
+    })
+
+    const result = await repo.bookFromHold({
+      holdId: 'hold-1',
+      organizationId: 'org-1',
+      patientId: 'patient-1',
+      bookedVia: 'portal',
+      bookedByContactId: 'contact-1'
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.error).toBe('Booking violates scheduling rules: Sarah Johnson would exceed 6 sessions on 2025-01-01')
+    expect(checkSessionRules).toHaveBeenCalledWith('org-1', expect.objectContaining({
+      therapistId: 'staff-1',
+      patientId: 'patient-1',
+      date: '2025-01-01'
+    }), { scheduleId: undefined })
+    expect(tx.session.create).not.toHaveBeenCalled()
+  })
+
+  it('rejects booking from hold after business hours with the violation', async () => {
+    const { BookingRepository } = await import('../../repositories/booking.js')
+    const repo = new BookingRepository()
+
+    const tx: MockTxClient = {
+      appointmentHold: {
+        findFirst: vi.fn().mockResolvedValue({
+          id: 'hold-1',
+          organizationId: 'org-1',
+          staffId: 'staff-1',
+          roomId: null,
+          date: new Date('2025-01-03'), // Friday, open 08:00-14:00
+          startTime: '14:00',
+          endTime: '15:00',
+          expiresAt: new Date(Date.now() + 60_000),
+          releasedAt: null,
+          convertedToSessionId: null,
+          createdByContactId: 'contact-1',
+          createdByUserId: null
+        }),
+        update: vi.fn()
+      },
+      session: {
+        findFirst: vi.fn().mockResolvedValue(null),
+        create: vi.fn()
+      }
+    }
+
+    mockPrisma.$transaction.mockImplementationOnce(async (fn: (txArg: unknown) => Promise<unknown>) => {
+      return fn(tx)
+    })
+
+    const result = await repo.bookFromHold({
+      holdId: 'hold-1',
+      organizationId: 'org-1',
+      patientId: 'patient-1',
+      bookedVia: 'portal',
+      bookedByContactId: 'contact-1'
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.violation).toMatchObject({
+      code: 'OUTSIDE_BUSINESS_HOURS',
+      date: '2025-01-03',
+      businessHours: { start: '08:00', end: '14:00' }
+    })
+    expect(tx.session.create).not.toHaveBeenCalled()
+  })
+
+  it('rejects a direct booking on a closed day before checking availability', async () => {
+    const { BookingRepository } = await import('../../repositories/booking.js')
+    const { availabilityService } = await import('../availability.js')
+    const repo = new BookingRepository()
+
+    const result = await repo.bookDirect({
+      organizationId: 'org-1',
+      staffId: 'staff-1',
+      patientId: 'patient-1',
+      date: new Date('2025-01-04T15:00:00Z'), // Saturday
+      startTime: '10:00',
+      endTime: '11:00',
+      bookedVia: 'admin'
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.violation?.code).toBe('CLOSED_DAY')
+    expect(availabilityService.isSlotAvailable).not.toHaveBeenCalled()
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled()
+  })
+})
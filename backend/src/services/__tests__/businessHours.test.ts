@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../../repositories/organizationSettings.js', () => ({
+  organizationSettingsRepository: { getBusinessHours: vi.fn() }
+}))
+
+import { getBusinessHoursForDate, checkBusinessHours, closuresOutsideBusinessHours } from '../businessHours.js'
+import type { BusinessHours } from '../../repositories/organizationSettings.js'
+
+const weekday = { open: true, start: '08:00', end: '18:00' }
+const closed = { open: false, start: '08:00', end: '18:00' }
+
+const businessHours: BusinessHours = {
+  monday: weekday,
+  tuesday: weekday,
+  wednesday: weekday,
+  thursday: weekday,
+  friday: { open: true, start: '08:00', end: '14:00' },
+  saturday: closed,
+  sunday: closed,
+  exceptions: [
+    { date: '2025-12-24', open: true, start: '08:00', end: '12:00', reason: 'Christmas Eve' },
+    { date: '2025-12-27', open: true, start: '09:00', end: '13:00', reason: 'Make-up Saturday' }
+  ]
+}
+
+describe('getBusinessHoursForDate', () => {
+  it('uses the weekday hours', () => {
+    expect(getBusinessHoursForDate(businessHours, '2025-12-19')).toEqual({ open: true, start: '08:00', end: '14:00' })
+  })
+
+  it('lets a date exception replace the weekday hours', () => {
+    expect(getBusinessHoursForDate(businessHours, '2025-12-27')).toMatchObject({ open: true, start: '09:00', end: '13:00' })
+  })
+})
+
+describe('checkBusinessHours', () => {
+  it('accepts a session inside business hours', () => {
+    expect(checkBusinessHours(businessHours, { date: '2025-12-22', startTime: '08:00', endTime: '18:00' })).toBeNull()
+  })
+
+  it('rejects a session that runs past closing', () => {
+    expect(checkBusinessHours(businessHours, { date: '2025-12-19', startTime: '13:30', endTime: '14:30' })).toEqual({
+      code: 'OUTSIDE_BUSINESS_HOURS',
+      message: 'Session time 13:30-14:30 is outside business hours on 2025-12-19 (08:00-14:00)',
+      date: '2025-12-19',
+      startTime: '13:30',
+      endTime: '14:30',
+      businessHours: { start: '08:00', end: '14:00' },
+      exceptionReason: null
+    })
+  })
+
+  it('rejects a session on a closed day', () => {
+    const violation = checkBusinessHours(businessHours, { date: '2025-12-20', startTime: '10:00', endTime: '11:00' })
+
+    expect(violation?.code).toBe('CLOSED_DAY')
+    expect(violation?.businessHours).toBeNull()
+  })
+
+  it('names the exception that shortened the day', () => {
+    const violation = checkBusinessHours(businessHours, { date: '2025-12-24', startTime: '12:00', endTime: '13:00' })
+
+    expect(violation?.code).toBe('OUTSIDE_BUSINESS_HOURS')
+    expect(violation?.exceptionReason).toBe('Christmas Eve')
+  })
+})
+
+describe('closuresOutsideBusinessHours', () => {
+  it('closes the hours around each open day and all of each closed day', () => {
+    expect(closuresOutsideBusinessHours(businessHours, '2025-12-19', '2025-12-20')).toEqual([
+      { date: '2025-12-19', name: 'Outside business hours', startTime: '00:00', endTime: '08:00' },
+      { date: '2025-12-19', name: 'Outside business hours', startTime: '14:00', endTime: '23:59' },
+      { date: '2025-12-20', name: 'Outside business hours', startTime: null, endTime: null }
+    ])
+  })
+})
@@ -0,0 +1,373 @@
+import { describe, it, expect } from 'vitest'
+import { generateScheduleWithSolver, matchesPreferredTimes } from '../constraintSolver.js'
+import { validateSessions, type UnavailabilityMap } from '../scheduler.js'
+import type { StaffForScheduling, PatientForScheduling, RoomForScheduling, RuleForScheduling } from '../aiProvider.js'
+import type { StaffAvailability } from '../../repositories/staffAvailability.js'
+
+const weekStart = new Date('2025-01-06T00:00:00Z') // Monday
+
+const weekdayHours = {
+  monday: { start: '09:00', end: '17:00' },
+  tuesday: { start: '09:00', end: '17:00' },
+  wednesday: { start: '09:00', end: '17:00' },
+  thursday: { start: '09:00', end: '17:00' },
+  friday: { start: '09:00', end: '17:00' }
+}
+
+const staff: StaffForScheduling[] = [
+  { id: 'staff-1', name: 'Sarah Johnson', gender: 'female', certifications: ['ABA'], defaultHours: weekdayHours },
+  { id: 'staff-2', name: 'John Smith', gender: 'male', certifications: ['ABA', 'Speech'], defaultHours: weekdayHours }
+]
+
+function spec(id: string, overrides: Partial<PatientForScheduling['sessionSpecs'][number]> = {}) {
+  return {
+    id,
+    name: 'Core Therapy',
+    sessionsPerWeek: 3,
+    durationMinutes: 60,
+    requiredCertifications: ['ABA'],
+    preferredTimes: [],
+    preferredRoomId: null,
+    requiredRoomCapabilities: [],
+    ...overrides
+  }
+}
+
+const patients: PatientForScheduling[] = [
+  { id: 'patient-1', identifier: 'EC-001', name: 'Emily Carter', gender: 'female', sessionSpecs: [spec('spec-1')] },
+  { id: 'patient-2', identifier: 'MB-002', name: 'Michael Brown', gender: 'male', sessionSpecs: [spec('spec-2', { requiredCertifications: ['Speech'] })] },
+  { id: 'patient-3', identifier: 'AL-003', name: 'Ava Lee', gender: 'female', sessionSpecs: [spec('spec-3', { sessionsPerWeek: 2 })] }
+]
+
+const rooms: RoomForScheduling[] = [
+  { id: 'room-1', name: 'Room A', capabilities: [] },
+  { id: 'room-2', name: 'Sensory Room', capabilities: ['sensory'] }
+]
+
+function unavailability(staffId: string, date: string, fields: Partial<StaffAvailability> = {}): UnavailabilityMap {
+  return new Map([[staffId, [{
+    id: 'ua-1',
+    staffId,
+    date: new Date(`${date}T00:00:00Z`),
+    available: false,
+    startTime: null,
+    endTime: null,
+    reason: 'Sick',
+    ...fields
+  } as StaffAvailability]]])
+}
+
+describe('generateScheduleWithSolver', () => {
+  it('schedules every requested session and passes validation', () => {
+    const result = generateScheduleWithSolver(weekStart, staff, patients, [], rooms)
+    const validation = validateSessions(result.sessions, staff, patients, rooms)
+
+    expect(result.sessions).toHaveLength(8)
+    expect(validation.errors).toHaveLength(0)
+    expect(validation.warnings).toHaveLength(0)
+  })
+
+  it('is deterministic and independent of input ordering', () => {
+    const first = generateScheduleWithSolver(weekStart, staff, patients, [], rooms)
+    const second = generateScheduleWithSolver(
+      weekStart,
+      [...staff].reverse(),
+      [...patients].reverse(),
+      [],
+      [...rooms].reverse()
+    )
+
+    expect(second).toEqual(first)
+  })
+
+  it('spreads sessions of a spec across different days', () => {
+    const result = generateScheduleWithSolver(weekStart, staff, patients, [], rooms)
+    const spec1Dates = result.sessions.filter(s => s.sessionSpecId === 'spec-1').map(s => s.date)
+
+    expect(new Set(spec1Dates).size).toBe(spec1Dates.length)
+  })
+
+  it('only assigns therapists with the required certifications', () => {
+    const result = generateScheduleWithSolver(weekStart, staff, patients, [], rooms)
+
+    for (const session of result.sessions.filter(s => s.sessionSpecId === 'spec-2')) {
+      expect(session.therapistId).toBe('staff-2')
+    }
+  })
+
+  it('avoids therapists on approved days off', () => {
+    const result = generateScheduleWithSolver(
+      weekStart,
+      staff,
+      patients,
+      [],
+      rooms,
+      unavailability('staff-2', '2025-01-06')
+    )
+
+    expect(result.sessions.some(s => s.therapistId === 'staff-2' && s.date === '2025-01-06')).toBe(false)
+  })
+
+  it('stays inside partial availability windows', () => {
+    const result = generateScheduleWithSolver(
+      weekStart,
+      staff,
+      patients,
+      [],
+      rooms,
+      unavailability('staff-2', '2025-01-06', { available: true, startTime: '13:00', endTime: '15:00' })
+    )
+
+    for (const session of result.sessions.filter(s => s.therapistId === 'staff-2' && s.date === '2025-01-06')) {
+      expect(session.startTime >= '13:00').toBe(true)
+      expect(session.endTime <= '15:00').toBe(true)
+    }
+  })
+
+  it('enforces required gender pairing rules', () => {
+    const rules: RuleForScheduling[] = [{
+      id: 'rule-1',
+      category: 'gender_pairing',
+      description: 'Female patients must be seen by female therapists',
+      ruleLogic: { patientGender: 'female', preferredTherapistGender: 'female', priority: 'required' },
+      priority: 1
+    }]
+
+    const result = generateScheduleWithSolver(weekStart, staff, patients, rules, rooms)
+    const femalePatientSessions = result.sessions.filter(s => s.patientId === 'patient-1' || s.patientId === 'patient-3')
+
+    expect(femalePatientSessions).toHaveLength(5)
+    expect(femalePatientSessions.every(s => s.therapistId === 'staff-1')).toBe(true)
+  })
+
+  it('respects hard session rules from the rule engine', () => {
+    const rules: RuleForScheduling[] = [{
+      id: 'rule-1',
+      category: 'session',
+      description: 'Therapists see at most one patient per day',
+      ruleLogic: { maxSessionsPerDay: 1 },
+      priority: 1
+    }]
+
+    const result = generateScheduleWithSolver(weekStart, staff, patients, rules, rooms)
+    const validation = validateSessions(result.sessions, staff, patients, rooms, undefined, rules)
+    const therapistDays = result.sessions.map(s => `${s.therapistId}:${s.date}`)
+
+    expect(new Set(therapistDays).size).toBe(therapistDays.length)
+    expect(validation.errors).toHaveLength(0)
+  })
+
+  it('honors preferred times when capacity allows', () => {
+    const afternoonPatients: PatientForScheduling[] = [
+      { ...patients[0], sessionSpecs: [spec('spec-1', { preferredTimes: ['Afternoon'] })] }
+    ]
+
+    const result = generateScheduleWithSolver(weekStart, staff, afternoonPatients, [], rooms)
+
+    expect(result.sessions).toHaveLength(3)
+    expect(result.sessions.every(s => s.startTime >= '12:00' && s.startTime < '17:00')).toBe(true)
+  })
+
+  it('assigns rooms with the required capabilities', () => {
+    const sensoryPatients: PatientForScheduling[] = [
+      { ...patients[0], sessionSpecs: [spec('spec-1', { requiredRoomCapabilities: ['sensory'] })] }
+    ]
+
+    const result = generateScheduleWithSolver(weekStart, staff, sensoryPatients, [], rooms)
+
+    expect(result.sessions).toHaveLength(3)
+    expect(result.sessions.every(s => s.roomId === 'room-2')).toBe(true)
+  })
+
+  it('uses the configured default duration when a spec has none', () => {
+    const untimedPatients: PatientForScheduling[] = [
+      { ...patients[0], sessionSpecs: [spec('spec-1', { durationMinutes: null, sessionsPerWeek: 1 })] }
+    ]
+
+    const result = generateScheduleWithSolver(weekStart, staff, untimedPatients, [], [], new Map(), {
+      defaultDurationMinutes: 45
+    })
+
+    expect(result.sessions[0].startTime).toBe('09:00')
+    expect(result.sessions[0].endTime).toBe('09:45')
+  })
+
+  it('keeps preferred pairings carried over from the previous week', () => {
+    const unpaired = generateScheduleWithSolver(weekStart, staff, patients, [], rooms)
+    const original = unpaired.sessions.find(s => s.sessionSpecId === 'spec-1')!.therapistId
+    const preferred = original === 'staff-1' ? 'staff-2' : 'staff-1'
+
+    const result = generateScheduleWithSolver(weekStart, staff, patients, [], rooms, new Map(), {
+      pairings: { 'spec-1': preferred }
+    })
+    const therapists = new Set(result.sessions.filter(s => s.sessionSpecId === 'spec-1').map(s => s.therapistId))
+
+    expect(therapists).toEqual(new Set([preferred]))
+  })
+
+  it('prefers therapists the patient has seen before, scaled by the continuity weight', () => {
+    const unweighted = generateScheduleWithSolver(weekStart, staff, patients, [], rooms)
+    const original = unweighted.sessions.find(s => s.patientId === 'patient-3')!.therapistId
+    const familiar = original === 'staff-1' ? 'staff-2' : 'staff-1'
+    const affinity = { 'patient-3': { [familiar]: 1 } }
+
+    const off = generateScheduleWithSolver(weekStart, staff, patients, [], rooms, new Map(), {
+      affinity,
+      continuityWeight: 0
+    })
+    const on = generateScheduleWithSolver(weekStart, staff, patients, [], rooms, new Map(), {
+      affinity,
+      continuityWeight: 100
+    })
+
+    expect(off).toEqual(unweighted)
+    expect(on.sessions.filter(s => s.patientId === 'patient-3').every(s => s.therapistId === familiar)).toBe(true)
+  })
+
+  it('warns when no therapist is qualified for a spec', () => {
+    const unqualified: PatientForScheduling[] = [
+      { ...patients[0], sessionSpecs: [spec('spec-1', { requiredCertifications: ['OT'] })] }
+    ]
+
+    const result = generateScheduleWithSolver(weekStart, staff, unqualified, [], rooms)
+
+    expect(result.sessions).toHaveLength(0)
+    expect(result.warnings[0]).toContain('No qualified therapist available for Emily Carter')
+  })
+
+  it('moves a blocking session to make room for a constrained demand', () => {
+    // Greedy gives Emily the preferred female therapist, leaving no room for Michael's second session
+    const tightStaff: StaffForScheduling[] = [
+      { id: 'staff-1', name: 'Sarah Johnson', gender: 'female', certifications: ['ABA', 'Speech'], defaultHours: { monday: { start: '09:00', end: '11:00' } } },
+      { id: 'staff-2', name: 'John Smith', gender: 'male', certifications: ['ABA'], defaultHours: { monday: { start: '09:00', end: '10:00' } } }
+    ]
+    const tightPatients: PatientForScheduling[] = [
+      { ...patients[0], sessionSpecs: [spec('spec-1', { sessionsPerWeek: 1 })] },
+      { ...patients[1], sessionSpecs: [spec('spec-2', { sessionsPerWeek: 2, requiredCertifications: ['Speech'] })] }
+    ]
+
+    const rules: RuleForScheduling[] = [{
+      id: 'rule-1',
+      category: 'gender_pairing',
+      description: 'Female patients prefer female therapists',
+      ruleLogic: { patientGender: 'female', preferredTherapistGender: 'female', priority: 'preferred' },
+      priority: 1
+    }]
+
+    const result = generateScheduleWithSolver(weekStart, tightStaff, tightPatients, rules, [])
+    const validation = validateSessions(result.sessions, tightStaff, tightPatients)
+
+    expect(result.sessions).toHaveLength(3)
+    expect(validation.errors).toHaveLength(0)
+    expect(result.sessions.find(s => s.patientId === 'patient-1')?.therapistId).toBe('staff-2')
+  })
+
+  it('places only the remaining demand around booked sessions', () => {
+    const booked = [
+      { therapistId: 'staff-1', patientId: 'patient-1', sessionSpecId: 'spec-1', roomId: 'room-1', date: '2025-01-06', startTime: '09:00', endTime: '10:00' },
+      { therapistId: 'staff-2', patientId: 'patient-2', sessionSpecId: 'spec-2', roomId: 'room-1', date: '2025-01-07', startTime: '09:00', endTime: '10:00' }
+    ]
+
+    const result = generateScheduleWithSolver(weekStart, staff, patients, [], rooms, new Map(), { booked })
+    const validation = validateSessions([...booked, ...result.sessions], staff, patients, rooms)
+
+    expect(result.sessions.filter(s => s.sessionSpecId === 'spec-1')).toHaveLength(2)
+    expect(result.sessions.filter(s => s.sessionSpecId === 'spec-2')).toHaveLength(2)
+    expect(result.sessions.filter(s => s.sessionSpecId === 'spec-3')).toHaveLength(2)
+    expect(result.sessions).not.toContainEqual(expect.objectContaining(booked[0]))
+    expect(validation.errors).toHaveLength(0)
+  })
+
+  it('places nothing while the clinic is closed', () => {
+    const closures = [
+      { date: '2025-01-06', name: 'Staff Retreat', startTime: null, endTime: null },
+      { date: '2025-01-07', name: 'Early Close', startTime: '12:00', endTime: '18:00' }
+    ]
+
+    const result = generateScheduleWithSolver(weekStart, staff, patients, [], rooms, new Map(), { closures })
+
+    expect(result.sessions.length).toBeGreaterThan(0)
+    expect(result.sessions.filter(s => s.date === '2025-01-06')).toHaveLength(0)
+    expect(result.sessions.filter(s => s.date === '2025-01-07' && s.endTime > '12:00')).toHaveLength(0)
+  })
+
+  it('keeps each patient within their availability', () => {
+    const afterSchool = { start: '15:00', end: '17:00' }
+    const limited: PatientForScheduling[] = [
+      {
+        ...patients[0],
+        availability: {
+          weekly: { monday: afterSchool, tuesday: afterSchool, wednesday: afterSchool, thursday: afterSchool, friday: afterSchool },
+          exceptions: [{ startDate: '2025-01-08', endDate: '2025-01-08', available: false, reason: 'Field trip' }]
+        }
+      },
+      patients[1],
+      patients[2]
+    ]
+
+    const result = generateScheduleWithSolver(weekStart, staff, limited, [], rooms)
+    const emily = result.sessions.filter(s => s.patientId === 'patient-1')
+
+    expect(emily).toHaveLength(3)
+    expect(emily.every(s => s.startTime >= '15:00' && s.endTime <= '17:00' && s.date !== '2025-01-08')).toBe(true)
+  })
+
+  it('stays within each insurance authorization', () => {
+    const authorization = {
+      id: 'auth-1',
+      payer: 'Aetna',
+      authNumber: 'A-100',
+      sessionSpecId: 'spec-1',
+      unitMinutes: 15,
+      startDate: '2025-01-01',
+      endDate: '2025-01-08',
+      remainingUnits: 8
+    }
+    const authorized: PatientForScheduling[] = [{ ...patients[0], authorizations: [authorization] }, patients[1], patients[2]]
+
+    const result = generateScheduleWithSolver(weekStart, staff, authorized, [], rooms)
+    const emily = result.sessions.filter(s => s.patientId === 'patient-1')
+
+    // Two one-hour sessions use all 8 units, and the authorization ends on Wednesday
+    expect(emily).toHaveLength(2)
+    expect(emily.every(s => s.date <= '2025-01-08')).toBe(true)
+  })
+
+  it('places patients with the same group spec together, up to the group size', () => {
+    const group = (id: string) => spec(id, { name: 'Social Skills Group', sessionsPerWeek: 1, groupSize: 2 })
+    const grouped: PatientForScheduling[] = [
+      { ...patients[0], sessionSpecs: [group('group-1')] },
+      { ...patients[1], sessionSpecs: [group('group-2')] },
+      { ...patients[2], sessionSpecs: [group('group-3')] }
+    ]
+
+    const result = generateScheduleWithSolver(weekStart, staff, grouped, [], rooms)
+    const validation = validateSessions(result.sessions, staff, grouped, rooms)
+
+    expect(result.sessions.map(s => s.participants?.map(p => p.patientId))).toEqual(
+      expect.arrayContaining([['patient-1', 'patient-2'], ['patient-3']])
+    )
+    expect(result.sessions.every(s => s.capacity === 2)).toBe(true)
+    expect(validation.errors).toHaveLength(0)
+    expect(validation.warnings).toHaveLength(0)
+  })
+})
+
+describe('matchesPreferredTimes', () => {
+  it('matches named periods of the day', () => {
+    expect(matchesPreferredTimes(['Morning'], 9 * 60)).toBe(true)
+    expect(matchesPreferredTimes(['Morning'], 13 * 60)).toBe(false)
+    expect(matchesPreferredTimes(['afternoon'], 13 * 60)).toBe(true)
+  })
+
+  it('matches exact times and ranges', () => {
+    expect(matchesPreferredTimes(['14:00'], 14 * 60)).toBe(true)
+    expect(matchesPreferredTimes(['09:00-12:00'], 11 * 60)).toBe(true)
+    expect(matchesPreferredTimes(['09:00-12:00'], 12 * 60)).toBe(false)
+  })
+
+  it('ignores hints it does not understand', () => {
+    expect(matchesPreferredTimes(['after school'], 9 * 60)).toBe(true)
+    expect(matchesPreferredTimes([], 9 * 60)).toBe(true)
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { buildPatientAffinity, pairingsFromAffinity, measureContinuity } from '../continuityOfCare.js'
+import type { StaffForScheduling, PatientForScheduling } from '../aiProvider.js'
+
+const weekStart = new Date('2025-01-27T00:00:00Z')
+
+function visit(patientId: string, therapistId: string, date: string) {
+  return { patientId, therapistId, date: new Date(`${date}T00:00:00Z`) }
+}
+
+describe('buildPatientAffinity', () => {
+  it('scores therapists relative to the patient\'s usual one', () => {
+    const affinity = buildPatientAffinity([
+      visit('patient-1', 'staff-1', '2025-01-20'),
+      visit('patient-1', 'staff-1', '2025-01-22'),
+      visit('patient-1', 'staff-2', '2025-01-21')
+    ], weekStart)
+
+    expect(affinity).toEqual({ 'patient-1': { 'staff-1': 1, 'staff-2': 0.5 } })
+  })
+
+  it('weights recent weeks more heavily', () => {
+    const affinity = buildPatientAffinity([
+      visit('patient-1', 'staff-1', '2025-01-06'),
+      visit('patient-1', 'staff-1', '2025-01-07'),
+      visit('patient-1', 'staff-2', '2025-01-20'),
+      visit('patient-1', 'staff-2', '2025-01-21')
+    ], weekStart)
+
+    // Sessions two weeks before last week count 0.8^2 as much
+    expect(affinity['patient-1']).toEqual({ 'staff-1': 0.64, 'staff-2': 1 })
+  })
+})
+
+describe('pairingsFromAffinity', () => {
+  const hours = { monday: { start: '09:00', end: '17:00' } }
+  const staff: StaffForScheduling[] = [
+    { id: 'staff-1', name: 'Sarah Johnson', gender: 'female', certifications: [], defaultHours: hours },
+    { id: 'staff-2', name: 'John Smith', gender: 'male', certifications: ['ABA'], defaultHours: hours }
+  ]
+  const patients: PatientForScheduling[] = [{
+    id: 'patient-1',
+    identifier: null,
+    name: 'Emily Carter',
+    gender: 'female',
+    sessionSpecs: [
+      { id: 'spec-1', name: 'Play', sessionsPerWeek: 1, durationMinutes: 60, requiredCertifications: [], preferredTimes: [], preferredRoomId: null, requiredRoomCapabilities: [] },
+      { id: 'spec-2', name: 'ABA', sessionsPerWeek: 2, durationMinutes: 60, requiredCertifications: ['ABA'], preferredTimes: [], preferredRoomId: null, requiredRoomCapabilities: [] }
+    ]
+  }]
+
+  it('picks the closest therapist who is qualified for each spec', () => {
+    const pairings = pairingsFromAffinity({ 'patient-1': { 'staff-1': 1, 'staff-2': 0.4 } }, patients, staff)
+
+    expect(pairings).toEqual({ 'spec-1': 'staff-1', 'spec-2': 'staff-2' })
+  })
+
+  it('leaves patients without history unpaired', () => {
+    expect(pairingsFromAffinity({}, patients, staff)).toEqual({})
+  })
+})
+
+describe('measureContinuity', () => {
+  it('counts sessions kept with a familiar therapist', () => {
+    const stats = measureContinuity([
+      { patientId: 'patient-1', therapistId: 'staff-1' },
+      { patientId: 'patient-1', therapistId: 'staff-3' },
+      { patientId: 'patient-2', therapistId: 'staff-2' }
+    ], { 'patient-1': { 'staff-1': 1 } })
+
+    expect(stats).toEqual({ matched: 1, total: 2, rate: 0.5 })
+  })
+
+  it('reports no rate without any history', () => {
+    expect(measureContinuity([{ patientId: 'patient-1', therapistId: 'staff-1' }], {}))
+      .toEqual({ matched: 0, total: 0, rate: null })
+  })
+})
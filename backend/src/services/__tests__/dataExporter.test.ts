@@ -456,6 +456,20 @@ describe('dataExporter', () => {
       )
     })
 
+    it('rejects rule records with invalid rule logic', async () => {
+      vi.mocked(ruleRepository.findActiveByOrganization).mockResolvedValue([])
+
+      const records = [
+        { category: 'session', description: 'Max 2 sessions', priority: 5, ruleLogic: { maxSessions: 2 } }
+      ]
+
+      const result = await executeImport(organizationId, records, 'rules', userId)
+
+      expect(result.created).toBe(0)
+      expect(result.errors[0]).toContain('Invalid rule logic for "Max 2 sessions"')
+      expect(ruleRepository.create).not.toHaveBeenCalled()
+    })
+
     it('reports errors when record creation fails', async () => {
       vi.mocked(staffRepository.findByOrganization).mockResolvedValue([])
       vi.mocked(staffRepository.create).mockRejectedValue(new Error('Database error'))
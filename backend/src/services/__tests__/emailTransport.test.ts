@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import nodemailer from 'nodemailer'
+import {
+  deliverEmail,
+  getConfiguredTransport,
+  getEmailTransport,
+  getMemoryMailbox,
+  type EmailMessage
+} from '../emailTransport/index.js'
+import { SesEmailTransport } from '../emailTransport/transports/ses.js'
+import { SmtpEmailTransport } from '../emailTransport/transports/smtp.js'
+import { FileEmailTransport } from '../emailTransport/transports/localSink.js'
+
+const message: EmailMessage = {
+  to: ['maria@example.com'],
+  subject: 'Appointment reminder',
+  htmlBody: '<p>See you tomorrow</p>',
+  textBody: 'See you tomorrow'
+}
+
+const sender = { from: 'noreply@sayitschedule.com', replyTo: 'support@sayitschedule.com' }
+
+describe('Email transports', () => {
+  const env = { ...process.env }
+
+  beforeEach(() => {
+    getMemoryMailbox().clear()
+  })
+
+  afterEach(() => {
+    process.env = { ...env }
+    vi.restoreAllMocks()
+  })
+
+  describe('getConfiguredTransport', () => {
+    it('defaults to SES', () => {
+      delete process.env.EMAIL_TRANSPORT
+      expect(getConfiguredTransport()).toBe('ses')
+      expect(getEmailTransport()).toBeInstanceOf(SesEmailTransport)
+    })
+
+    it('reads EMAIL_TRANSPORT', () => {
+      process.env.EMAIL_TRANSPORT = 'Memory'
+      expect(getConfiguredTransport()).toBe('memory')
+      expect(getEmailTransport()).toBe(getMemoryMailbox())
+    })
+
+    it('rejects an unknown transport', () => {
+      process.env.EMAIL_TRANSPORT = 'carrier-pigeon'
+      expect(() => getConfiguredTransport()).toThrow('Unknown email transport: carrier-pigeon')
+    })
+  })
+
+  describe('memory mailbox', () => {
+    it('keeps the composed email', async () => {
+      process.env.EMAIL_TRANSPORT = 'memory'
+
+      const messageId = await deliverEmail(message)
+
+      const [sent] = getMemoryMailbox().mailbox
+      expect(sent.messageId).toBe(messageId)
+      expect(sent.to).toEqual(['maria@example.com'])
+      expect(sent.raw).toContain('Subject: Appointment reminder')
+      expect(sent.raw).toContain('To: maria@example.com')
+      expect(sent.raw).toContain('Reply-To: support@sayitschedule.com')
+      expect(sent.raw).toContain('See you tomorrow')
+    })
+  })
+
+  describe('file sink', () => {
+    let directory: string
+
+    beforeEach(async () => {
+      directory = await mkdtemp(path.join(os.tmpdir(), 'email-sink-'))
+      process.env.EMAIL_SINK_DIR = directory
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+    })
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true })
+    })
+
+    it('writes each email to an .eml file', async () => {
+      const transport = new FileEmailTransport(sender)
+
+      await transport.send(message)
+      await transport.send({ ...message, subject: 'Second reminder' })
+
+      const files = (await readdir(directory)).sort()
+      expect(files).toHaveLength(2)
+      expect(files[0]).toMatch(/maria@example\.com\.eml$/)
+
+      const contents = await Promise.all(files.map(file => readFile(path.join(directory, file), 'utf8')))
+      expect(contents.some(raw => raw.includes('Subject: Second reminder'))).toBe(true)
+    })
+  })
+
+  describe('SMTP', () => {
+    it('requires SMTP_HOST', () => {
+      delete process.env.SMTP_HOST
+      expect(() => new SmtpEmailTransport(sender)).toThrow('SMTP_HOST is required')
+    })
+
+    it('connects with the configured credentials and sends', async () => {
+      process.env.SMTP_HOST = 'smtp.example.com'
+      process.env.SMTP_PORT = '465'
+      process.env.SMTP_USER = 'mailer'
+      process.env.SMTP_PASSWORD = 'secret'
+
+      const sendMail = vi.fn().mockResolvedValue({ messageId: '<abc@example.com>', rejected: [] })
+      const createTransport = vi.spyOn(nodemailer, 'createTransport').mockReturnValue({ sendMail } as never)
+
+      const messageId = await new SmtpEmailTransport(sender).send(message)
+
+      expect(messageId).toBe('<abc@example.com>')
+      expect(createTransport).toHaveBeenCalledWith({
+        host: 'smtp.example.com',
+        port: 465,
+        secure: true,
+        auth: { user: 'mailer', pass: 'secret' }
+      })
+      expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+        from: 'noreply@sayitschedule.com',
+        to: ['maria@example.com'],
+        subject: 'Appointment reminder'
+      }))
+    })
+  })
+})
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../../repositories/generationJobs.js', () => ({
+  ACTIVE_JOB_STATUSES: ['queued', 'running', 'validating'],
+  generationJobRepository: {
+    findById: vi.fn(),
+    updateIfActive: vi.fn(),
+    failActive: vi.fn()
+  }
+}))
+
+vi.mock('../scheduler.js', () => ({
+  generateSchedule: vi.fn(),
+  saveGeneratedSchedule: vi.fn()
+}))
+
+vi.mock('../../repositories/schedules.js', () => ({
+  scheduleRepository: { delete: vi.fn() }
+}))
+
+import {
+  runGenerationJob,
+  cancelGenerationJob,
+  subscribeToGenerationJob,
+  type GenerationJobEvent
+} from '../generationJobs.js'
+import { generationJobRepository, type ScheduleGenerationJob } from '../../repositories/generationJobs.js'
+import { generateSchedule, saveGeneratedSchedule } from '../scheduler.js'
+import { scheduleRepository } from '../../repositories/schedules.js'
+
+const createdAt = new Date('2025-01-10T09:00:00Z')
+
+const job: ScheduleGenerationJob = {
+  id: 'job-1',
+  organizationId: 'org-1',
+  createdById: 'user-1',
+  weekStartDate: new Date('2025-01-13T00:00:00Z'),
+  engine: 'solver',
+  status: 'queued',
+  progress: 0,
+  message: null,
+  scheduleId: null,
+  result: null,
+  error: null,
+  createdAt,
+  startedAt: null,
+  finishedAt: null,
+  updatedAt: createdAt
+}
+
+const generated = {
+  sessions: [],
+  warnings: ['Room A is over capacity'],
+  engine: 'solver',
+  stats: { totalSessions: 12, patientsScheduled: 4, therapistsUsed: 2, ruleScore: 0 },
+  quality: { score: 90, components: {} }
+}
+
+describe('runGenerationJob', () => {
+  let events: GenerationJobEvent[]
+  let unsubscribe: () => void
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    unsubscribe?.()
+    events = []
+    unsubscribe = subscribeToGenerationJob('job-1', event => events.push(event))
+    // Echo each update back as the stored job
+    vi.mocked(generationJobRepository.updateIfActive).mockImplementation(async (_id, data) => ({ ...job, ...data }) as never)
+  })
+
+  it('reports progress, saves the draft and records the result', async () => {
+    vi.mocked(generateSchedule).mockImplementation(async (_org, _week, options) => {
+      options?.onProgress?.({ stage: 'generating', percent: 50, message: 'Generating sessions' })
+      options?.onProgress?.({ stage: 'validating', percent: 80, message: 'Validating sessions' })
+      return generated as never
+    })
+    vi.mocked(saveGeneratedSchedule).mockResolvedValue({ id: 'schedule-1' } as never)
+
+    const completed = await runGenerationJob(job)
+
+    expect(completed?.schedule.id).toBe('schedule-1')
+    expect(saveGeneratedSchedule).toHaveBeenCalledWith('org-1', job.weekStartDate, 'user-1', generated)
+    expect(events.map(e => [e.status, e.progress])).toEqual([
+      ['running', 0],
+      ['running', 50],
+      ['validating', 80],
+      ['done', 100]
+    ])
+    expect(generationJobRepository.updateIfActive).toHaveBeenLastCalledWith('job-1', expect.objectContaining({
+      status: 'done',
+      scheduleId: 'schedule-1',
+      result: {
+        engine: 'solver',
+        stats: generated.stats,
+        quality: generated.quality,
+        warnings: generated.warnings
+      }
+    }))
+  })
+
+  it('marks the job failed with a readable error', async () => {
+    vi.mocked(generateSchedule).mockRejectedValue(new Error('No active staff members found'))
+
+    const completed = await runGenerationJob(job)
+
+    expect(completed).toBeNull()
+    expect(events.at(-1)).toMatchObject({ status: 'failed', error: 'No active staff members found' })
+    expect(saveGeneratedSchedule).not.toHaveBeenCalled()
+  })
+
+  it('hides unexpected errors behind a generic message', async () => {
+    vi.mocked(generateSchedule).mockRejectedValue(new Error('connection reset'))
+
+    await runGenerationJob(job)
+
+    expect(events.at(-1)?.error).toBe('Failed to generate schedule. Please try again.')
+  })
+
+  it('does not start a job that was cancelled while queued', async () => {
+    vi.mocked(generationJobRepository.updateIfActive).mockResolvedValue(null)
+
+    const completed = await runGenerationJob(job)
+
+    expect(completed).toBeNull()
+    expect(generateSchedule).not.toHaveBeenCalled()
+  })
+
+  it('discards the result of a job cancelled while it ran', async () => {
+    vi.mocked(generationJobRepository.findById).mockResolvedValue({ ...job, status: 'running' })
+    let cancelled: Promise<unknown> = Promise.resolve()
+    vi.mocked(generateSchedule).mockImplementation(async (_org, _week, options) => {
+      cancelled = cancelGenerationJob('job-1', 'org-1')
+      await cancelled
+      expect(options?.signal?.aborted).toBe(true)
+      return generated as never
+    })
+
+    const completed = await runGenerationJob(job)
+    await cancelled
+
+    expect(completed).toBeNull()
+    expect(saveGeneratedSchedule).not.toHaveBeenCalled()
+    expect(events.at(-1)?.status).toBe('cancelled')
+  })
+
+  it('deletes the draft of a job cancelled while it was being saved', async () => {
+    vi.mocked(generateSchedule).mockResolvedValue(generated as never)
+    vi.mocked(saveGeneratedSchedule).mockResolvedValue({ id: 'schedule-1' } as never)
+    // The job is cancelled by the time it's marked done
+    vi.mocked(generationJobRepository.updateIfActive).mockImplementation(async (_id, data) =>
+      data.status === 'done' ? null : ({ ...job, ...data }) as never
+    )
+
+    const completed = await runGenerationJob(job)
+
+    expect(completed).toBeNull()
+    expect(scheduleRepository.delete).toHaveBeenCalledWith('schedule-1', 'org-1')
+  })
+})
+
+describe('cancelGenerationJob', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('leaves a finished job alone', async () => {
+    vi.mocked(generationJobRepository.findById).mockResolvedValue({ ...job, status: 'done' })
+
+    const result = await cancelGenerationJob('job-1', 'org-1')
+
+    expect(result?.status).toBe('done')
+    expect(generationJobRepository.updateIfActive).not.toHaveBeenCalled()
+  })
+
+  it('returns null for an unknown job', async () => {
+    vi.mocked(generationJobRepository.findById).mockResolvedValue(null)
+
+    expect(await cancelGenerationJob('missing', 'org-1')).toBeNull()
+  })
+})
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../../repositories/holidays.js', () => ({
+  holidayRepository: { findByOrganization: vi.fn() }
+}))
+
+vi.mock('../../repositories/organizationSettings.js', () => ({
+  organizationSettingsRepository: { closesOnFederalHolidays: vi.fn() }
+}))
+
+import { getFederalHolidays, expandHolidays, getClinicClosures, findClosure } from '../holidays.js'
+import { holidayRepository } from '../../repositories/holidays.js'
+import { organizationSettingsRepository } from '../../repositories/organizationSettings.js'
+
+function holiday(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'holiday-1',
+    organizationId: 'org-1',
+    name: 'Staff Retreat',
+    date: new Date('2025-03-14T00:00:00Z'),
+    reason: null,
+    startTime: null,
+    endTime: null,
+    recurring: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides
+  }
+}
+
+describe('getFederalHolidays', () => {
+  it('calculates fixed and floating holidays', () => {
+    const holidays = Object.fromEntries(getFederalHolidays(2025).map(h => [h.name, h.date]))
+
+    expect(holidays["New Year's Day"]).toBe('2025-01-01')
+    expect(holidays['Martin Luther King Jr. Day']).toBe('2025-01-20')
+    expect(holidays['Memorial Day']).toBe('2025-05-26')
+    expect(holidays['Labor Day']).toBe('2025-09-01')
+    expect(holidays['Columbus Day']).toBe('2025-10-13')
+    expect(holidays['Veterans Day']).toBe('2025-11-11')
+    expect(holidays['Thanksgiving']).toBe('2025-11-27')
+  })
+
+  it('observes weekend holidays on the nearest weekday', () => {
+    const holidays = Object.fromEntries(getFederalHolidays(2026).map(h => [h.name, h.date]))
+
+    // July 4, 2026 is a Saturday and November 11, 2029 a Sunday
+    expect(holidays['Independence Day (observed)']).toBe('2026-07-03')
+    expect(Object.fromEntries(getFederalHolidays(2029).map(h => [h.name, h.date]))['Veterans Day (observed)']).toBe('2029-11-12')
+  })
+})
+
+describe('expandHolidays', () => {
+  it('repeats recurring holidays in every year of the range', () => {
+    const closures = expandHolidays(
+      [holiday({ name: 'Founders Day', date: new Date('2020-01-02T00:00:00Z'), recurring: true })],
+      '2025-12-01',
+      '2026-01-31'
+    )
+
+    expect(closures.map(c => c.date)).toEqual(['2026-01-02'])
+  })
+
+  it('drops one-off holidays outside the range', () => {
+    expect(expandHolidays([holiday()], '2025-03-15', '2025-03-21')).toEqual([])
+  })
+})
+
+describe('getClinicClosures', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(organizationSettingsRepository.closesOnFederalHolidays).mockResolvedValue(true)
+  })
+
+  it('combines custom and federal holidays in date order', async () => {
+    vi.mocked(holidayRepository.findByOrganization).mockResolvedValue([
+      holiday({ name: 'Day after Thanksgiving', date: new Date('2025-11-28T00:00:00Z'), startTime: '12:00', endTime: '18:00' })
+    ])
+
+    const closures = await getClinicClosures('org-1', new Date('2025-11-24T00:00:00Z'), new Date('2025-11-30T00:00:00Z'))
+
+    expect(closures).toEqual([
+      { date: '2025-11-27', name: 'Thanksgiving', startTime: null, endTime: null },
+      { date: '2025-11-28', name: 'Day after Thanksgiving', startTime: '12:00', endTime: '18:00' }
+    ])
+  })
+
+  it('leaves out federal holidays for an organization that stays open on them', async () => {
+    vi.mocked(organizationSettingsRepository.closesOnFederalHolidays).mockResolvedValue(false)
+    vi.mocked(holidayRepository.findByOrganization).mockResolvedValue([
+      holiday({ name: 'Day after Thanksgiving', date: new Date('2025-11-28T00:00:00Z') })
+    ])
+
+    const closures = await getClinicClosures('org-1', new Date('2025-11-24T00:00:00Z'), new Date('2025-11-30T00:00:00Z'))
+
+    expect(closures.map(c => c.name)).toEqual(['Day after Thanksgiving'])
+  })
+
+  it('closes on the observed date of a weekend holiday', async () => {
+    vi.mocked(holidayRepository.findByOrganization).mockResolvedValue([])
+
+    // New Year's Day 2028 is a Saturday, observed on Friday, December 31, 2027
+    const closures = await getClinicClosures('org-1', new Date('2027-12-27T00:00:00Z'), new Date('2027-12-31T00:00:00Z'))
+
+    expect(closures).toEqual([
+      { date: '2027-12-31', name: "New Year's Day (observed)", startTime: null, endTime: null }
+    ])
+  })
+})
+
+describe('findClosure', () => {
+  const closures = [
+    { date: '2025-11-27', name: 'Thanksgiving', startTime: null, endTime: null },
+    { date: '2025-12-24', name: 'Christmas Eve', startTime: '13:00', endTime: '18:00' }
+  ]
+
+  it('matches any time on an all-day closure', () => {
+    expect(findClosure(closures, '2025-11-27', '09:00', '10:00')?.name).toBe('Thanksgiving')
+    expect(findClosure(closures, '2025-11-27')?.name).toBe('Thanksgiving')
+  })
+
+  it('matches only overlapping times on a partial-day closure', () => {
+    expect(findClosure(closures, '2025-12-24', '12:30', '13:30')?.name).toBe('Christmas Eve')
+    expect(findClosure(closures, '2025-12-24', '12:00', '13:00')).toBeNull()
+    expect(findClosure(closures, '2025-12-24')).toBeNull()
+  })
+})
@@ -0,0 +1,258 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../../repositories/notifications.js', () => ({
+  notificationRepository: {
+    create: vi.fn(),
+    claim: vi.fn(),
+    update: vi.fn(),
+    findDueIds: vi.fn(),
+    markBounced: vi.fn(),
+    markDelivered: vi.fn()
+  }
+}))
+
+vi.mock('../emailTransport/index.js', () => ({
+  deliverEmail: vi.fn()
+}))
+
+vi.mock('../smsProvider/index.js', () => ({
+  deliverSms: vi.fn()
+}))
+
+import {
+  MAX_ATTEMPTS,
+  NotificationError,
+  deliverNotification,
+  processOutbox,
+  queueNotification,
+  recordBounce,
+  recordSmsReceipt,
+  resendNotification,
+  retryDelayMs
+} from '../notifications.js'
+import { notificationRepository, type Notification } from '../../repositories/notifications.js'
+import { deliverEmail } from '../emailTransport/index.js'
+import { deliverSms } from '../smsProvider/index.js'
+
+const now = new Date('2026-03-02T12:00:00.000Z')
+
+function notification(fields: Partial<Notification> = {}): Notification {
+  return {
+    id: 'notification-1',
+    organizationId: 'org-1',
+    channel: 'email',
+    kind: 'session_reminder',
+    recipients: ['maria@example.com'],
+    subject: 'Appointment reminder',
+    textBody: 'See you tomorrow',
+    htmlBody: '<p>See you tomorrow</p>',
+    sensitive: false,
+    status: 'queued',
+    attempts: 0,
+    nextAttemptAt: now,
+    lastError: null,
+    providerMessageId: null,
+    sentAt: null,
+    deliveredAt: null,
+    createdAt: now,
+    updatedAt: now,
+    ...fields
+  }
+}
+
+describe('Notification outbox', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('retryDelayMs', () => {
+    it('doubles from a minute and caps at an hour', () => {
+      expect(retryDelayMs(1)).toBe(60 * 1000)
+      expect(retryDelayMs(2)).toBe(2 * 60 * 1000)
+      expect(retryDelayMs(5)).toBe(16 * 60 * 1000)
+      expect(retryDelayMs(10)).toBe(60 * 60 * 1000)
+    })
+  })
+
+  describe('deliverNotification', () => {
+    it('sends an email and records the provider message id', async () => {
+      vi.mocked(notificationRepository.claim).mockResolvedValue(notification())
+      vi.mocked(deliverEmail).mockResolvedValue('ses-message-1')
+
+      const status = await deliverNotification('notification-1', now)
+
+      expect(status).toBe('sent')
+      expect(deliverEmail).toHaveBeenCalledWith({
+        to: ['maria@example.com'],
+        subject: 'Appointment reminder',
+        htmlBody: '<p>See you tomorrow</p>',
+        textBody: 'See you tomorrow'
+      })
+      expect(notificationRepository.update).toHaveBeenCalledWith('notification-1', expect.objectContaining({
+        status: 'sent',
+        attempts: 1,
+        providerMessageId: 'ses-message-1'
+      }))
+    })
+
+    it('sends a text message to its one recipient', async () => {
+      vi.mocked(notificationRepository.claim).mockResolvedValue(notification({
+        channel: 'sms',
+        recipients: ['+15555550100'],
+        subject: null,
+        htmlBody: null
+      }))
+      vi.mocked(deliverSms).mockResolvedValue('sns-message-1')
+
+      expect(await deliverNotification('notification-1', now)).toBe('sent')
+      expect(deliverSms).toHaveBeenCalledWith('+15555550100', 'See you tomorrow', 'org-1')
+      expect(deliverEmail).not.toHaveBeenCalled()
+    })
+
+    it('clears the body of a sensitive message once sent', async () => {
+      vi.mocked(notificationRepository.claim).mockResolvedValue(notification({ sensitive: true }))
+      vi.mocked(deliverEmail).mockResolvedValue('ses-message-1')
+
+      await deliverNotification('notification-1', now)
+
+      expect(notificationRepository.update).toHaveBeenCalledWith('notification-1', expect.objectContaining({
+        status: 'sent',
+        textBody: null,
+        htmlBody: null
+      }))
+    })
+
+    it('schedules a retry with backoff after a failed attempt', async () => {
+      vi.mocked(notificationRepository.claim).mockResolvedValue(notification({ attempts: 2 }))
+      vi.mocked(deliverEmail).mockRejectedValue(new Error('Throttling'))
+
+      const status = await deliverNotification('notification-1', now)
+
+      expect(status).toBe('queued')
+      expect(notificationRepository.update).toHaveBeenCalledWith('notification-1', {
+        attempts: 3,
+        lastError: 'Throttling',
+        nextAttemptAt: new Date(now.getTime() + 4 * 60 * 1000)
+      })
+    })
+
+    it('gives up after the last attempt', async () => {
+      vi.mocked(notificationRepository.claim).mockResolvedValue(notification({ attempts: MAX_ATTEMPTS - 1, sensitive: true }))
+      vi.mocked(deliverEmail).mockRejectedValue(new Error('Throttling'))
+
+      const status = await deliverNotification('notification-1', now)
+
+      expect(status).toBe('failed')
+      expect(notificationRepository.update).toHaveBeenCalledWith('notification-1', {
+        status: 'failed',
+        attempts: MAX_ATTEMPTS,
+        lastError: 'Throttling',
+        textBody: null,
+        htmlBody: null
+      })
+    })
+
+    it('does nothing when the notification is not due', async () => {
+      vi.mocked(notificationRepository.claim).mockResolvedValue(null)
+
+      expect(await deliverNotification('notification-1', now)).toBeNull()
+      expect(deliverEmail).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('queueNotification', () => {
+    const data = {
+      organizationId: 'org-1',
+      channel: 'email' as const,
+      kind: 'session_reminder',
+      recipients: ['maria@example.com'],
+      textBody: 'See you tomorrow'
+    }
+
+    it('makes the first attempt straight away', async () => {
+      vi.mocked(notificationRepository.create).mockResolvedValue(notification())
+      vi.mocked(notificationRepository.claim).mockResolvedValue(notification())
+      vi.mocked(deliverEmail).mockResolvedValue('ses-message-1')
+
+      await queueNotification(data)
+
+      expect(notificationRepository.create).toHaveBeenCalledWith(data, undefined)
+      expect(deliverEmail).toHaveBeenCalled()
+    })
+
+    it('leaves delivery to the worker inside a transaction', async () => {
+      const tx = { notification: {} } as never
+      vi.mocked(notificationRepository.create).mockResolvedValue(notification())
+
+      await queueNotification(data, { tx })
+
+      expect(notificationRepository.create).toHaveBeenCalledWith(data, tx)
+      expect(notificationRepository.claim).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('processOutbox', () => {
+    it('delivers due notifications and carries on past errors', async () => {
+      vi.mocked(notificationRepository.findDueIds).mockResolvedValue(['notification-1', 'notification-2', 'notification-3'])
+      vi.mocked(notificationRepository.claim)
+        .mockResolvedValueOnce(notification())
+        .mockRejectedValueOnce(new Error('connection reset'))
+        .mockResolvedValueOnce(notification({ id: 'notification-3' }))
+      vi.mocked(deliverEmail).mockResolvedValue('ses-message')
+
+      expect(await processOutbox(now)).toBe(2)
+    })
+  })
+
+  describe('resendNotification', () => {
+    it('requeues a failed notification with fresh attempts', async () => {
+      vi.mocked(notificationRepository.claim).mockResolvedValue(notification())
+      vi.mocked(deliverEmail).mockResolvedValue('ses-message-2')
+
+      const status = await resendNotification(notification({ status: 'failed', attempts: MAX_ATTEMPTS }))
+
+      expect(status).toBe('sent')
+      expect(notificationRepository.update).toHaveBeenCalledWith('notification-1', expect.objectContaining({
+        status: 'queued',
+        attempts: 0,
+        lastError: null
+      }))
+    })
+
+    it('refuses a notification that was delivered', async () => {
+      await expect(resendNotification(notification({ status: 'sent' }))).rejects.toThrow(NotificationError)
+    })
+
+    it('refuses a sensitive notification whose body was cleared', async () => {
+      await expect(
+        resendNotification(notification({ status: 'failed', sensitive: true, textBody: null, htmlBody: null }))
+      ).rejects.toThrow(/can't be resent/)
+      expect(notificationRepository.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('recordBounce', () => {
+    it('reports whether a sent email matched', async () => {
+      vi.mocked(notificationRepository.markBounced).mockResolvedValueOnce(1).mockResolvedValueOnce(0)
+
+      expect(await recordBounce('ses-message-1', 'Bounced: General')).toBe(true)
+      expect(await recordBounce('unknown', 'Bounced: General')).toBe(false)
+    })
+  })
+  describe('recordSmsReceipt', () => {
+    it('marks a delivered text message', async () => {
+      vi.mocked(notificationRepository.markDelivered).mockResolvedValue(1)
+
+      expect(await recordSmsReceipt('sns-message-1', true)).toBe(true)
+      expect(notificationRepository.markDelivered).toHaveBeenCalledWith('sns-message-1', 'sms', expect.any(Date))
+      expect(notificationRepository.markBounced).not.toHaveBeenCalled()
+    })
+
+    it('marks an undeliverable text message as bounced', async () => {
+      vi.mocked(notificationRepository.markBounced).mockResolvedValue(1)
+
+      expect(await recordSmsReceipt('sns-message-1', false, 'Phone number unreachable')).toBe(true)
+      expect(notificationRepository.markBounced).toHaveBeenCalledWith('sns-message-1', 'Phone number unreachable', 'sms')
+    })
+  })
+})
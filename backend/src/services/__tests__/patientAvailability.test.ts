@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../../repositories/patients.js', () => ({
+  patientRepository: { findById: vi.fn() }
+}))
+
+import { getPatientAvailabilityForDate, checkPatientAvailability, patientUnavailableTimes } from '../patientAvailability.js'
+import type { PatientAvailability } from '../../repositories/patients.js'
+
+const afterSchool = { start: '15:00', end: '18:00' }
+
+const availability: PatientAvailability = {
+  weekly: {
+    monday: afterSchool,
+    tuesday: afterSchool,
+    wednesday: afterSchool,
+    thursday: afterSchool,
+    friday: { start: '13:00', end: '18:00' },
+    saturday: null
+  },
+  exceptions: [
+    { startDate: '2025-12-22', endDate: '2026-01-02', available: true, reason: 'Winter break' },
+    { startDate: '2025-12-17', endDate: '2025-12-17', available: false, reason: 'Dentist' }
+  ]
+}
+
+const patient = { name: 'Emily Carter', availability }
+
+describe('getPatientAvailabilityForDate', () => {
+  it('uses the weekday window', () => {
+    expect(getPatientAvailabilityForDate(availability, '2025-12-19')).toEqual({
+      available: true,
+      start: '13:00',
+      end: '18:00',
+      reason: null
+    })
+  })
+
+  it('treats a missing weekday as unavailable', () => {
+    expect(getPatientAvailabilityForDate(availability, '2025-12-21')?.available).toBe(false)
+  })
+
+  it('lets an exception range replace the weekly windows', () => {
+    expect(getPatientAvailabilityForDate(availability, '2025-12-23')).toEqual({
+      available: true,
+      start: null,
+      end: null,
+      reason: 'Winter break'
+    })
+  })
+
+  it('returns null for a patient without availability', () => {
+    expect(getPatientAvailabilityForDate(null, '2025-12-19')).toBeNull()
+  })
+})
+
+describe('checkPatientAvailability', () => {
+  it('accepts a session inside the window', () => {
+    expect(checkPatientAvailability(patient, { date: '2025-12-15', startTime: '15:00', endTime: '16:00' })).toBeNull()
+  })
+
+  it('rejects a session during school hours', () => {
+    expect(checkPatientAvailability(patient, { date: '2025-12-15', startTime: '14:00', endTime: '15:00' })).toBe(
+      "Session time 14:00-15:00 is outside Emily Carter's availability on 2025-12-15 (15:00-18:00)"
+    )
+  })
+
+  it('rejects a session on an unavailable date and gives the reason', () => {
+    expect(checkPatientAvailability(patient, { date: '2025-12-17', startTime: '15:00', endTime: '16:00' })).toBe(
+      'Emily Carter is not available on 2025-12-17 (Dentist)'
+    )
+  })
+
+  it('accepts any time during an all-day exception', () => {
+    expect(checkPatientAvailability(patient, { date: '2025-12-23', startTime: '09:00', endTime: '10:00' })).toBeNull()
+  })
+})
+
+describe('patientUnavailableTimes', () => {
+  it('blocks the hours around each window and all of each unavailable day', () => {
+    expect(patientUnavailableTimes(availability, '2025-12-19', '2025-12-22')).toEqual([
+      { date: '2025-12-19', name: 'Patient unavailable', startTime: '00:00', endTime: '13:00' },
+      { date: '2025-12-19', name: 'Patient unavailable', startTime: '18:00', endTime: '23:59' },
+      { date: '2025-12-20', name: 'Patient unavailable', startTime: null, endTime: null },
+      { date: '2025-12-21', name: 'Patient unavailable', startTime: null, endTime: null }
+    ])
+  })
+})
@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('../../repositories/reminders.js', async () => {
+  const actual = await vi.importActual<typeof import('../../repositories/reminders.js')>('../../repositories/reminders.js')
+  return {
+    reminderKey: actual.reminderKey,
+    reminderRepository: {
+      findOrganizationsWithReminders: vi.fn(),
+      findUpcomingSessions: vi.fn(),
+      findRecordedKeys: vi.fn(),
+      countSince: vi.fn(),
+      claim: vi.fn(),
+      markQueued: vi.fn(),
+      markFailed: vi.fn()
+    }
+  }
+})
+
+// Each reminder is claimed and queued in a transaction with this client
+const mockTx = { name: 'tx' }
+vi.mock('../../repositories/base.js', () => ({
+  prisma: { $transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn(mockTx)) }
+}))
+
+vi.mock('../../repositories/organizationSettings.js', () => ({
+  organizationSettingsRepository: { findByOrganizationId: vi.fn() }
+}))
+
+vi.mock('../email.js', () => ({
+  sendSessionReminder: vi.fn()
+}))
+
+vi.mock('../sms.js', () => ({
+  sendSms: vi.fn()
+}))
+
+import { dueReminderOffset, sendOrganizationReminders, sendDueReminders } from '../reminders.js'
+import { reminderRepository, type ReminderOrganization, type ReminderSession } from '../../repositories/reminders.js'
+import { organizationSettingsRepository } from '../../repositories/organizationSettings.js'
+import { sendSessionReminder } from '../email.js'
+import { sendSms } from '../sms.js'
+import type { PatientContact } from '@prisma/client'
+
+function features(fields: Partial<ReminderOrganization> = {}): ReminderOrganization {
+  return {
+    organizationId: 'org-1',
+    emailRemindersEnabled: true,
+    smsRemindersEnabled: false,
+    reminderHours: [24, 2],
+    patientPortalEnabled: false,
+    maxRemindersPerMonth: null,
+    organization: { id: 'org-1', name: 'Bright Steps', subdomain: 'bright', primaryColor: '#2563eb' },
+    ...fields
+  } as ReminderOrganization
+}
+
+function contact(fields: Partial<PatientContact> = {}): PatientContact {
+  return {
+    id: 'contact-1',
+    patientId: 'patient-1',
+    name: 'Maria Carter',
+    email: 'maria@example.com',
+    phone: '+15555550100',
+    emailOptIn: true,
+    smsOptIn: false,
+    canAccessPortal: false,
+    ...fields
+  } as PatientContact
+}
+
+function session(date: string, startTime: string, contacts: PatientContact[] = [contact()]): ReminderSession {
+  return {
+    id: `session-${date}-${startTime}`,
+    date: new Date(`${date}T00:00:00.000Z`),
+    startTime,
+    endTime: '16:00',
+    capacity: null,
+    therapist: { name: 'Sarah Johnson' },
+    room: null,
+    patient: { id: 'patient-1', name: 'Emily Carter', contacts },
+    participants: []
+  }
+}
+
+describe('Session reminders', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    // Monday 10:00 UTC
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-03-02T10:00:00.000Z'))
+
+    vi.mocked(organizationSettingsRepository.findByOrganizationId).mockResolvedValue({ timezone: 'UTC' } as never)
+    vi.mocked(reminderRepository.findRecordedKeys).mockResolvedValue(new Set())
+    vi.mocked(reminderRepository.countSince).mockResolvedValue(0)
+    vi.mocked(reminderRepository.claim).mockImplementation(async (data) => ({ id: `reminder-${data.sessionId}`, ...data }) as never)
+    vi.mocked(sendSessionReminder).mockImplementation(async (_data, options) => {
+      options?.onQueued?.({ id: 'notification-1' } as never)
+      return true
+    })
+    vi.mocked(sendSms).mockResolvedValue(true)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('dueReminderOffset', () => {
+    it('picks the nearest offset the session has come within', () => {
+      expect(dueReminderOffset([24, 2], 30)).toBeNull()
+      expect(dueReminderOffset([24, 2], 20)).toBe(24)
+      expect(dueReminderOffset([24, 2], 1.5)).toBe(2)
+      expect(dueReminderOffset([24, 2], -1)).toBeNull()
+    })
+  })
+
+  describe('sendOrganizationReminders', () => {
+    it('emails opted-in contacts of sessions inside an offset', async () => {
+      const optedOut = contact({ id: 'contact-2', email: 'dad@example.com', emailOptIn: false })
+      vi.mocked(reminderRepository.findUpcomingSessions).mockResolvedValue([
+        session('2026-03-03', '09:00', [contact(), optedOut]),
+        // More than 24 hours out
+        session('2026-03-04', '09:00')
+      ])
+
+      const result = await sendOrganizationReminders(features())
+
+      expect(result).toEqual({ sent: 1, failed: 0, overLimit: 0 })
+      expect(reminderRepository.claim).toHaveBeenCalledWith({
+        organizationId: 'org-1',
+        sessionId: 'session-2026-03-03-09:00',
+        contactId: 'contact-1',
+        channel: 'email',
+        hoursBefore: 24,
+        recipient: 'maria@example.com'
+      }, mockTx)
+      expect(sendSessionReminder).toHaveBeenCalledWith(expect.objectContaining({
+        contact: { email: 'maria@example.com', name: 'Maria Carter' },
+        patientName: 'Emily Carter',
+        therapistName: 'Sarah Johnson'
+      }), { organizationId: 'org-1', tx: mockTx, onQueued: expect.any(Function) })
+      expect(reminderRepository.markQueued).toHaveBeenCalledWith('reminder-session-2026-03-03-09:00', 'notification-1', mockTx)
+    })
+
+    it('does not send a reminder that was already recorded', async () => {
+      vi.mocked(reminderRepository.findUpcomingSessions).mockResolvedValue([session('2026-03-02', '11:00')])
+      vi.mocked(reminderRepository.findRecordedKeys).mockResolvedValue(new Set(['session-2026-03-02-11:00:contact-1:email:2']))
+
+      const result = await sendOrganizationReminders(features())
+
+      expect(result.sent).toBe(0)
+      expect(reminderRepository.claim).not.toHaveBeenCalled()
+    })
+
+    it('texts contacts who opted in to SMS when SMS reminders are on', async () => {
+      vi.mocked(reminderRepository.findUpcomingSessions).mockResolvedValue([
+        session('2026-03-02', '11:00', [contact({ smsOptIn: true })])
+      ])
+
+      const result = await sendOrganizationReminders(features({ emailRemindersEnabled: false, smsRemindersEnabled: true }))
+
+      expect(result.sent).toBe(1)
+      expect(sendSms).toHaveBeenCalledWith('+15555550100', expect.stringContaining("Emily Carter's appointment"), {
+        organizationId: 'org-1',
+        kind: 'session_reminder',
+        tx: mockTx,
+        onQueued: expect.any(Function)
+      })
+      expect(sendSessionReminder).not.toHaveBeenCalled()
+    })
+
+    it('stops at the monthly limit', async () => {
+      vi.mocked(reminderRepository.findUpcomingSessions).mockResolvedValue([
+        session('2026-03-02', '11:00'),
+        session('2026-03-02', '11:30')
+      ])
+      vi.mocked(reminderRepository.countSince).mockResolvedValue(499)
+
+      const result = await sendOrganizationReminders(features({ maxRemindersPerMonth: 500 }))
+
+      expect(result).toEqual({ sent: 1, failed: 0, overLimit: 1 })
+      expect(reminderRepository.countSince).toHaveBeenCalledWith('org-1', new Date('2026-03-01T00:00:00.000Z'))
+    })
+
+    it('records a failed delivery', async () => {
+      vi.mocked(reminderRepository.findUpcomingSessions).mockResolvedValue([session('2026-03-02', '11:00')])
+      vi.mocked(sendSessionReminder).mockResolvedValue(false)
+
+      const result = await sendOrganizationReminders(features())
+
+      expect(result.failed).toBe(1)
+      expect(reminderRepository.markFailed).toHaveBeenCalledWith('reminder-session-2026-03-02-11:00', 'email delivery failed', mockTx)
+    })
+
+    it('leaves a reminder that could not be queued for the next sweep', async () => {
+      vi.mocked(reminderRepository.findUpcomingSessions).mockResolvedValue([session('2026-03-02', '11:00')])
+      vi.mocked(sendSessionReminder).mockRejectedValue(new Error('connection lost'))
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await sendOrganizationReminders(features())
+
+      expect(result.failed).toBe(1)
+      expect(reminderRepository.markQueued).not.toHaveBeenCalled()
+      expect(reminderRepository.markFailed).not.toHaveBeenCalled()
+    })
+
+    it('does not count a reminder that could not be queued towards the monthly limit', async () => {
+      vi.mocked(reminderRepository.findUpcomingSessions).mockResolvedValue([
+        session('2026-03-02', '11:00'),
+        session('2026-03-02', '11:30')
+      ])
+      vi.mocked(reminderRepository.countSince).mockResolvedValue(499)
+      vi.mocked(sendSessionReminder).mockRejectedValueOnce(new Error('connection lost'))
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await sendOrganizationReminders(features({ maxRemindersPerMonth: 500 }))
+
+      expect(result).toEqual({ sent: 1, failed: 1, overLimit: 0 })
+    })
+  })
+
+  describe('sendDueReminders', () => {
+    it('keeps going when one organization fails', async () => {
+      vi.mocked(reminderRepository.findOrganizationsWithReminders).mockResolvedValue([
+        features({ organizationId: 'org-broken' }),
+        features()
+      ])
+      vi.mocked(reminderRepository.findUpcomingSessions)
+        .mockRejectedValueOnce(new Error('connection lost'))
+        .mockResolvedValueOnce([session('2026-03-02', '11:00')])
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const result = await sendDueReminders()
+
+      expect(result.sent).toBe(1)
+    })
+  })
+})
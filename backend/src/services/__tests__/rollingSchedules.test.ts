@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../../repositories/organizationSettings.js', () => ({
+  organizationSettingsRepository: { findByOrganizationId: vi.fn() }
+}))
+
+vi.mock('../../repositories/schedules.js', () => ({
+  scheduleRepository: { findByWeek: vi.fn(), findByIdWithSessions: vi.fn() }
+}))
+
+vi.mock('../../repositories/staffAvailability.js', () => ({
+  staffAvailabilityRepository: { getApprovedUnavailability: vi.fn() }
+}))
+
+vi.mock('../scheduler.js', () => ({
+  generateSchedule: vi.fn(),
+  saveGeneratedSchedule: vi.fn(),
+  pairingsForWeek: vi.fn(async () => ({})),
+  pairingsFromSessions: vi.fn(() => ({})),
+  addWeeks: (date: Date, weeks: number) => new Date(date.getTime() + weeks * 7 * 24 * 60 * 60 * 1000),
+  proposeScheduleRepair: vi.fn(),
+  applyScheduleRepair: vi.fn(),
+  refreshScheduleQuality: vi.fn()
+}))
+
+import { refreshRollingSchedules, nextWeekStart } from '../rollingSchedules.js'
+import { organizationSettingsRepository } from '../../repositories/organizationSettings.js'
+import { scheduleRepository } from '../../repositories/schedules.js'
+import { staffAvailabilityRepository } from '../../repositories/staffAvailability.js'
+import {
+  generateSchedule,
+  saveGeneratedSchedule,
+  pairingsForWeek,
+  pairingsFromSessions,
+  proposeScheduleRepair,
+  applyScheduleRepair,
+  refreshScheduleQuality
+} from '../scheduler.js'
+
+const today = new Date('2025-01-08T15:00:00Z') // Wednesday
+
+const generated = {
+  sessions: [],
+  warnings: [],
+  engine: 'solver',
+  stats: { totalSessions: 0, patientsScheduled: 0, therapistsUsed: 0, ruleScore: 0 },
+  quality: { score: 100, components: {} }
+}
+
+describe('nextWeekStart', () => {
+  it('returns the following Monday', () => {
+    expect(nextWeekStart(today).toISOString()).toBe('2025-01-13T00:00:00.000Z')
+    expect(nextWeekStart(new Date('2025-01-06T08:00:00Z')).toISOString()).toBe('2025-01-13T00:00:00.000Z')
+    expect(nextWeekStart(new Date('2025-01-12T08:00:00Z')).toISOString()).toBe('2025-01-13T00:00:00.000Z')
+  })
+})
+
+describe('refreshRollingSchedules', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(organizationSettingsRepository.findByOrganizationId).mockResolvedValue({ rollingHorizonWeeks: 2 } as never)
+    vi.mocked(staffAvailabilityRepository.getApprovedUnavailability).mockResolvedValue([])
+  })
+
+  it('does nothing when the rolling horizon is off', async () => {
+    vi.mocked(organizationSettingsRepository.findByOrganizationId).mockResolvedValue({ rollingHorizonWeeks: 0 } as never)
+
+    const result = await refreshRollingSchedules('org-1', 'user-1', today)
+
+    expect(result).toEqual({ horizonWeeks: 0, weeks: [] })
+    expect(scheduleRepository.findByWeek).not.toHaveBeenCalled()
+  })
+
+  it('drafts missing weeks, carrying pairings from week to week', async () => {
+    vi.mocked(scheduleRepository.findByWeek).mockResolvedValue(null)
+    vi.mocked(pairingsForWeek).mockResolvedValueOnce({ 'spec-1': 'staff-1' })
+    vi.mocked(pairingsFromSessions).mockReturnValueOnce({ 'spec-1': 'staff-2' })
+    vi.mocked(generateSchedule).mockResolvedValue(generated as never)
+    vi.mocked(saveGeneratedSchedule)
+      .mockResolvedValueOnce({ id: 'schedule-1' } as never)
+      .mockResolvedValueOnce({ id: 'schedule-2' } as never)
+
+    const result = await refreshRollingSchedules('org-1', 'user-1', today)
+
+    expect(result.weeks.map(w => [w.weekStartDate, w.action])).toEqual([
+      ['2025-01-13', 'generated'],
+      ['2025-01-20', 'generated']
+    ])
+    expect(generateSchedule).toHaveBeenNthCalledWith(1, 'org-1', new Date('2025-01-13T00:00:00Z'), {
+      preferredPairings: { 'spec-1': 'staff-1' }
+    })
+    expect(generateSchedule).toHaveBeenNthCalledWith(2, 'org-1', new Date('2025-01-20T00:00:00Z'), {
+      preferredPairings: { 'spec-1': 'staff-2' }
+    })
+  })
+
+  it('repairs drafts against approved unavailability instead of regenerating them', async () => {
+    const draft = { id: 'schedule-1', status: 'draft', sessions: [] }
+    vi.mocked(scheduleRepository.findByWeek)
+      .mockResolvedValueOnce(draft as never)
+      .mockResolvedValueOnce({ id: 'schedule-2', status: 'published' } as never)
+    vi.mocked(scheduleRepository.findByIdWithSessions).mockResolvedValue(draft as never)
+    vi.mocked(staffAvailabilityRepository.getApprovedUnavailability).mockResolvedValueOnce([{
+      staffId: 'staff-1',
+      date: new Date('2025-01-14T00:00:00Z'),
+      available: false,
+      startTime: null,
+      endTime: null,
+      reason: 'Sick'
+    }] as never)
+    const changes = [{ sessionId: 'session-1', action: 'reassign', replacement: { therapistId: 'staff-2' } }]
+    vi.mocked(proposeScheduleRepair).mockResolvedValue({ changes, warnings: [] } as never)
+
+    const result = await refreshRollingSchedules('org-1', 'user-1', today)
+
+    expect(result.weeks.map(w => w.action)).toEqual(['repaired', 'unchanged'])
+    expect(proposeScheduleRepair).toHaveBeenCalledWith('org-1', draft, expect.objectContaining({
+      staffId: 'staff-1',
+      date: '2025-01-14'
+    }))
+    expect(applyScheduleRepair).toHaveBeenCalledWith('org-1', 'schedule-1', changes, {
+      cancelledById: 'user-1',
+      notes: 'Sick'
+    })
+    expect(refreshScheduleQuality).toHaveBeenCalledWith('org-1', 'schedule-1')
+    expect(generateSchedule).not.toHaveBeenCalled()
+    // Published schedules are not checked for repairs at all
+    expect(staffAvailabilityRepository.getApprovedUnavailability).toHaveBeenCalledTimes(1)
+  })
+
+  it('stops at the first week that cannot be generated', async () => {
+    vi.mocked(scheduleRepository.findByWeek).mockResolvedValue(null)
+    vi.mocked(generateSchedule).mockRejectedValue(new Error('No active staff members found'))
+
+    const result = await refreshRollingSchedules('org-1', 'user-1', today)
+
+    expect(result.weeks).toEqual([{
+      weekStartDate: '2025-01-13',
+      scheduleId: null,
+      action: 'failed',
+      changes: 0,
+      warnings: ['No active staff members found']
+    }])
+  })
+})
@@ -0,0 +1,272 @@
+import { describe, it, expect } from 'vitest'
+import {
+  evaluateSessionRules,
+  createRuleContext,
+  RuleSessionIndex,
+  softRulePenalty,
+  type RuleSession
+} from '../ruleEngine.js'
+import type { StaffForScheduling, PatientForScheduling, RoomForScheduling, RuleForScheduling } from '../aiProvider.js'
+
+const weekdayHours = {
+  monday: { start: '08:00', end: '18:00' },
+  friday: { start: '08:00', end: '18:00' }
+}
+
+const staff: StaffForScheduling[] = [
+  { id: 'staff-1', name: 'Sarah Johnson', gender: 'female', certifications: ['ABA'], defaultHours: weekdayHours },
+  { id: 'staff-2', name: 'John Smith', gender: 'male', certifications: ['ABA', 'BCBA'], defaultHours: weekdayHours }
+]
+
+const patients: PatientForScheduling[] = [
+  {
+    id: 'patient-1',
+    identifier: 'EC-001',
+    name: 'Emily Carter',
+    gender: 'female',
+    sessionSpecs: [{
+      id: 'spec-1',
+      name: 'Core Therapy',
+      sessionsPerWeek: 4,
+      durationMinutes: 60,
+      requiredCertifications: ['ABA'],
+      preferredTimes: ['Morning'],
+      preferredRoomId: null,
+      requiredRoomCapabilities: ['wheelchair_accessible']
+    }]
+  },
+  {
+    id: 'patient-2',
+    identifier: 'MB-002',
+    name: 'Michael Brown',
+    gender: 'male',
+    sessionSpecs: [{
+      id: 'spec-2',
+      name: 'Supervision',
+      sessionsPerWeek: 1,
+      durationMinutes: 60,
+      requiredCertifications: ['BCBA'],
+      preferredTimes: [],
+      preferredRoomId: null,
+      requiredRoomCapabilities: []
+    }]
+  }
+]
+
+const rooms: RoomForScheduling[] = [
+  { id: 'room-1', name: 'Room A', capabilities: [] },
+  { id: 'room-2', name: 'Accessible Room', capabilities: ['wheelchair_accessible'] }
+]
+
+const context = createRuleContext(staff, patients, rooms)
+
+function rule(category: string, ruleLogic: Record<string, unknown>, priority = 1): RuleForScheduling {
+  return { id: `rule-${category}`, category, description: `${category} rule`, ruleLogic, priority }
+}
+
+function session(overrides: Partial<RuleSession> = {}): RuleSession {
+  return {
+    therapistId: 'staff-1',
+    patientId: 'patient-1',
+    sessionSpecId: 'spec-1',
+    roomId: 'room-2',
+    date: '2025-01-06', // Monday
+    startTime: '09:00',
+    endTime: '10:00',
+    ...overrides
+  }
+}
+
+describe('evaluateSessionRules', () => {
+  it('returns a clean evaluation when there are no rules', () => {
+    expect(evaluateSessionRules(session(), [], context)).toEqual({
+      hardViolations: [],
+      softViolations: [],
+      score: 0,
+      satisfiedRuleIds: []
+    })
+  })
+
+  it('reports rules that concern the session and pass as satisfied', () => {
+    const rules = [
+      rule('gender_pairing', { patientGender: 'female', preferredTherapistGender: 'female' }),
+      rule('certification', { patientRequires: ['BCBA'], therapistMustHave: ['BCBA'] })
+    ]
+
+    // The certification rule only concerns BCBA specs, so it is neither satisfied nor violated
+    expect(evaluateSessionRules(session(), rules, context).satisfiedRuleIds).toEqual(['rule-gender_pairing'])
+  })
+
+  describe('gender_pairing', () => {
+    const required = rule('gender_pairing', { patientGender: 'female', preferredTherapistGender: 'female', priority: 'required' })
+    const preferred = rule('gender_pairing', { patientGender: 'female', preferredTherapistGender: 'female', priority: 'preferred' }, 2)
+
+    it('rejects a required pairing mismatch', () => {
+      const result = evaluateSessionRules(session({ therapistId: 'staff-2' }), [required], context)
+
+      expect(result.hardViolations).toHaveLength(1)
+      expect(result.hardViolations[0].message).toContain('female therapist')
+    })
+
+    it('scores a preferred pairing mismatch', () => {
+      const result = evaluateSessionRules(session({ therapistId: 'staff-2' }), [preferred], context)
+
+      expect(result.hardViolations).toHaveLength(0)
+      expect(result.softViolations).toHaveLength(1)
+      expect(result.score).toBe(softRulePenalty(preferred))
+    })
+
+    it('ignores patients of another gender', () => {
+      const result = evaluateSessionRules(
+        session({ patientId: 'patient-2', sessionSpecId: 'spec-2', therapistId: 'staff-1' }),
+        [required],
+        context
+      )
+
+      expect(result.hardViolations).toHaveLength(0)
+    })
+  })
+
+  describe('session', () => {
+    it('enforces maxSessionsPerDay for the therapist', () => {
+      const index = new RuleSessionIndex([
+        session({ patientId: 'patient-2', sessionSpecId: 'spec-2', startTime: '11:00', endTime: '12:00' })
+      ])
+      const result = evaluateSessionRules(session(), [rule('session', { maxSessionsPerDay: 1 })], context, index)
+
+      expect(result.hardViolations[0].message).toBe('Sarah Johnson would exceed 1 sessions on 2025-01-06')
+    })
+
+    it('enforces minGapMinutes between therapist sessions', () => {
+      const index = new RuleSessionIndex([
+        session({ patientId: 'patient-2', sessionSpecId: 'spec-2', startTime: '10:00', endTime: '11:00' })
+      ])
+      const rules = [rule('session', { minGapMinutes: 15, applies: 'therapist' })]
+
+      expect(evaluateSessionRules(session(), rules, context, index).hardViolations).toHaveLength(1)
+      expect(evaluateSessionRules(session({ startTime: '08:00', endTime: '08:45' }), rules, context, index).hardViolations).toHaveLength(0)
+    })
+
+    it('enforces maxConsecutiveMinutes with the required break', () => {
+      const index = new RuleSessionIndex([
+        session({ patientId: 'patient-2', sessionSpecId: 'spec-2', startTime: '10:00', endTime: '11:00' }),
+        session({ patientId: 'patient-2', sessionSpecId: 'spec-2', startTime: '11:00', endTime: '12:00' })
+      ])
+      const rules = [rule('session', { maxConsecutiveMinutes: 180, requiredBreakMinutes: 30 })]
+
+      // 09:00-12:00 is exactly 180 minutes; 12:15 start joins the block because the break is too short
+      expect(evaluateSessionRules(session(), rules, context, index).hardViolations).toHaveLength(0)
+      expect(
+        evaluateSessionRules(session({ startTime: '12:15', endTime: '13:15' }), rules, context, index).hardViolations
+      ).toHaveLength(1)
+      expect(
+        evaluateSessionRules(session({ startTime: '12:30', endTime: '13:30' }), rules, context, index).hardViolations
+      ).toHaveLength(0)
+    })
+
+    it('enforces startTimeIntervals', () => {
+      const rules = [rule('session', { startTimeIntervals: [0, 30] })]
+
+      expect(evaluateSessionRules(session({ startTime: '09:30', endTime: '10:30' }), rules, context).hardViolations).toHaveLength(0)
+      expect(evaluateSessionRules(session({ startTime: '09:15', endTime: '10:15' }), rules, context).hardViolations).toHaveLength(1)
+    })
+
+    it('spreads high-frequency specs across days', () => {
+      const index = new RuleSessionIndex([session({ startTime: '13:00', endTime: '14:00' })])
+      const spread = rule('session', { frequencyThreshold: 4, spreadAcrossDays: true, minDayGap: 1 })
+
+      expect(evaluateSessionRules(session(), [spread], context, index).hardViolations).toHaveLength(1)
+      expect(evaluateSessionRules(session({ date: '2025-01-07' }), [spread], context, index).hardViolations).toHaveLength(0)
+    })
+  })
+
+  describe('availability', () => {
+    it('enforces a time window', () => {
+      const rules = [rule('availability', { type: 'time_window', startTime: '08:00', endTime: '18:00' })]
+
+      expect(evaluateSessionRules(session({ startTime: '17:30', endTime: '18:30' }), rules, context).hardViolations).toHaveLength(1)
+    })
+
+    it('enforces day restrictions only on that day', () => {
+      const rules = [rule('availability', { type: 'day_restriction', dayOfWeek: 'friday', endTime: '16:00' })]
+
+      expect(evaluateSessionRules(session({ startTime: '16:00', endTime: '17:00' }), rules, context).hardViolations).toHaveLength(0)
+      expect(
+        evaluateSessionRules(session({ date: '2025-01-10', startTime: '16:00', endTime: '17:00' }), rules, context).hardViolations[0].message
+      ).toBe('Sessions on friday must end by 16:00')
+    })
+
+    it('excludes listed dates', () => {
+      const rules = [rule('availability', { type: 'exclude_dates', dates: ['2025-01-06'] })]
+
+      expect(evaluateSessionRules(session(), rules, context).hardViolations).toHaveLength(1)
+    })
+
+    it('excludes federal holidays on their observed dates when asked to', () => {
+      const rules = [rule('availability', { type: 'exclude_dates', excludeFederalHolidays: true })]
+
+      // July 4, 2026 is a Saturday, observed on Friday, July 3
+      expect(
+        evaluateSessionRules(session({ date: '2026-07-03' }), rules, context).hardViolations[0].message
+      ).toBe('No sessions may be scheduled on Independence Day (observed)')
+      expect(evaluateSessionRules(session(), rules, context).hardViolations).toHaveLength(0)
+    })
+
+    it('scores preferred time windows for specs that ask for them', () => {
+      const rules = [rule('availability', { preferredTime: 'Morning', endTime: '12:00', priority: 'preferred' })]
+
+      expect(evaluateSessionRules(session({ startTime: '13:00', endTime: '14:00' }), rules, context).softViolations).toHaveLength(1)
+      expect(
+        evaluateSessionRules(session({ patientId: 'patient-2', sessionSpecId: 'spec-2', therapistId: 'staff-2', startTime: '13:00', endTime: '14:00' }), rules, context).softViolations
+      ).toHaveLength(0)
+    })
+
+    it('can be scoped to a single therapist', () => {
+      const rules = [rule('availability', { staffId: 'staff-2', availableDays: ['wednesday'] })]
+
+      expect(evaluateSessionRules(session(), rules, context).hardViolations).toHaveLength(0)
+      expect(evaluateSessionRules(session({ therapistId: 'staff-2' }), rules, context).hardViolations).toHaveLength(1)
+    })
+  })
+
+  describe('specific_pairing', () => {
+    it('enforces prevent_pair', () => {
+      const rules = [rule('specific_pairing', { type: 'prevent_pair', therapistId: 'staff-1', patientId: 'patient-1' })]
+
+      expect(evaluateSessionRules(session(), rules, context).hardViolations).toHaveLength(1)
+      expect(evaluateSessionRules(session({ therapistId: 'staff-2' }), rules, context).hardViolations).toHaveLength(0)
+    })
+
+    it('scores therapist switches under maintain_consistency', () => {
+      const index = new RuleSessionIndex([session({ therapistId: 'staff-2', date: '2025-01-07' })])
+      const rules = [rule('specific_pairing', { type: 'maintain_consistency', priority: 'preferred' })]
+
+      expect(evaluateSessionRules(session(), rules, context, index).softViolations).toHaveLength(1)
+    })
+
+    it('requires the room capability named by room_requirement', () => {
+      const rules = [rule('specific_pairing', { type: 'room_requirement', capability: 'wheelchair_accessible', required: true })]
+
+      expect(evaluateSessionRules(session({ roomId: 'room-1' }), rules, context).hardViolations).toHaveLength(1)
+      expect(evaluateSessionRules(session(), rules, context).hardViolations).toHaveLength(0)
+    })
+  })
+
+  describe('certification', () => {
+    it('enforces therapistMustHave for matching patients', () => {
+      const rules = [rule('certification', { patientRequires: ['BCBA'], therapistMustHave: ['BCBA', 'BCBA-D'] })]
+
+      expect(
+        evaluateSessionRules(session({ patientId: 'patient-2', sessionSpecId: 'spec-2' }), rules, context).hardViolations
+      ).toHaveLength(1)
+    })
+
+    it('treats preferCertification as soft', () => {
+      const rules = [rule('certification', { preferCertification: 'BCBA' }, 3)]
+      const result = evaluateSessionRules(session(), rules, context)
+
+      expect(result.hardViolations).toHaveLength(0)
+      expect(result.score).toBe(8)
+    })
+  })
+})
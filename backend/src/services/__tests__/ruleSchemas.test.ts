@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import {
+  RULE_SCHEMA_VERSION,
+  getRuleSchemaCatalog,
+  normalizeRuleLogic,
+  validateRuleLogic,
+  sanitizeRuleLogic,
+  describeRuleLogicForPrompt
+} from '../ruleSchemas.js'
+
+describe('getRuleSchemaCatalog', () => {
+  it('describes every rule category', () => {
+    const catalog = getRuleSchemaCatalog()
+
+    expect(catalog.version).toBe(RULE_SCHEMA_VERSION)
+    expect(catalog.categories.map(c => c.category)).toEqual([
+      'gender_pairing',
+      'session',
+      'availability',
+      'specific_pairing',
+      'certification',
+      'supervision'
+    ])
+  })
+})
+
+describe('normalizeRuleLogic', () => {
+  it('renames legacy keys and drops no-op flags', () => {
+    expect(normalizeRuleLogic('gender_pairing', {
+      type: 'gender_match',
+      therapistGender: 'female',
+      patientGender: 'any',
+      enforcePreference: true
+    })).toEqual({ preferredTherapistGender: 'female', patientGender: 'any' })
+
+    expect(normalizeRuleLogic('certification', { preferCertification: 'BCBA', staffId: 'staff-1' }))
+      .toEqual({ preferCertifications: 'BCBA', therapistId: 'staff-1' })
+  })
+
+  it('keeps the current key when both spellings are present', () => {
+    expect(normalizeRuleLogic('gender_pairing', { therapistGender: 'male', preferredTherapistGender: 'female' }))
+      .toEqual({ preferredTherapistGender: 'female' })
+  })
+})
+
+describe('validateRuleLogic', () => {
+  it('accepts description-only rules', () => {
+    expect(validateRuleLogic('session', {})).toEqual({ success: true, ruleLogic: {} })
+  })
+
+  it('coerces single values into lists', () => {
+    const result = validateRuleLogic('availability', { type: 'day_restriction', dayOfWeek: 'Friday', endTime: '16:00' })
+
+    expect(result).toEqual({
+      success: true,
+      ruleLogic: { type: 'day_restriction', dayOfWeek: ['friday'], endTime: '16:00' }
+    })
+  })
+
+  it('rejects keys outside the catalog', () => {
+    const result = validateRuleLogic('session', { maxSessionsPerDay: 4, maxPatients: 2 })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.issues[0].field).toBe('maxPatients')
+    }
+  })
+
+  it('rejects malformed values', () => {
+    const result = validateRuleLogic('availability', { type: 'time_window', startTime: '8am' })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.issues).toEqual([{ field: 'startTime', message: 'Expected a time as HH:MM' }])
+    }
+  })
+
+  it('requires the fields a type depends on', () => {
+    const result = validateRuleLogic('specific_pairing', { type: 'force_pair', therapistId: 'staff-1' })
+
+    expect(result.success).toBe(false)
+    if (!result.success) {
+      expect(result.issues).toEqual([{ field: 'patientId', message: 'patientId is required for force_pair' }])
+    }
+  })
+
+  it('rejects fields that belong to another type', () => {
+    const result = validateRuleLogic('specific_pairing', { type: 'maintain_consistency', capability: 'sensory' })
+
+    expect(result.success).toBe(false)
+  })
+
+  it('requires the therapist gender for non-empty gender rules', () => {
+    expect(validateRuleLogic('gender_pairing', { patientGender: 'female' }).success).toBe(false)
+  })
+})
+
+describe('sanitizeRuleLogic', () => {
+  it('drops invalid keys and reports them', () => {
+    const result = sanitizeRuleLogic('session', { maxSessionsPerDay: 4, favoriteColor: 'blue' })
+
+    expect(result.ruleLogic).toEqual({ maxSessionsPerDay: 4 })
+    expect(result.warnings).toHaveLength(1)
+  })
+
+  it('falls back to a description-only rule when the logic cannot be repaired', () => {
+    const result = sanitizeRuleLogic('specific_pairing', { type: 'prevent_pair' })
+
+    expect(result.ruleLogic).toEqual({})
+    expect(result.warnings.length).toBeGreaterThan(0)
+  })
+})
+
+describe('describeRuleLogicForPrompt', () => {
+  it('lists the keys of every category', () => {
+    const text = describeRuleLogicForPrompt()
+
+    expect(text).toContain('gender_pairing:')
+    expect(text).toContain('preferredTherapistGender: enum (male | female | other)')
+    expect(text).toContain('type: one of force_pair, prevent_pair')
+  })
+})
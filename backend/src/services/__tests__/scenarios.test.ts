@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import { applyScenario, measureCoverage, ScenarioError, type SchedulingData } from '../scenarios.js'
+import type { PatientForScheduling } from '../aiProvider.js'
+
+const weekdays = {
+  monday: { start: '08:00', end: '17:00' },
+  tuesday: { start: '08:00', end: '17:00' }
+}
+
+function specFields(sessionsPerWeek: number) {
+  return {
+    name: 'Core Therapy',
+    sessionsPerWeek,
+    durationMinutes: 60,
+    requiredCertifications: [],
+    preferredTimes: []
+  }
+}
+
+function spec(id: string, sessionsPerWeek: number) {
+  return { id, ...specFields(sessionsPerWeek) }
+}
+
+const patients: PatientForScheduling[] = [
+  { id: 'patient-1', identifier: null, name: 'Emily Carter', gender: 'female', sessionSpecs: [spec('spec-1', 2)] },
+  { id: 'patient-2', identifier: null, name: 'Michael Brown', gender: 'male', sessionSpecs: [spec('spec-2', 3)] }
+]
+
+const data: SchedulingData = {
+  staff: [{ id: 'staff-1', name: 'Riley Brooks', gender: 'female', certifications: ['RBT'], defaultHours: weekdays }],
+  patients,
+  rooms: [
+    { id: 'room-1', name: 'Room 1', capabilities: [] },
+    { id: 'room-3', name: 'Room 3', capabilities: ['sensory'] }
+  ],
+  rules: []
+}
+
+describe('applyScenario', () => {
+  it('adds staff, closes rooms and changes session frequency', () => {
+    const result = applyScenario(data, {
+      staff: { add: [{ name: 'New RBT', gender: 'other', certifications: ['RBT'], defaultHours: weekdays }] },
+      rooms: { remove: ['room-3'] },
+      sessionSpecs: { update: [{ id: 'spec-1', sessionsPerWeek: 4 }] }
+    })
+
+    expect(result.staff.map(s => s.id)).toEqual(['staff-1', 'scenario-staff-1'])
+    expect(result.rooms.map(r => r.id)).toEqual(['room-1'])
+    expect(result.patients[0].sessionSpecs[0]).toEqual(spec('spec-1', 4))
+    // The real data is left alone
+    expect(data.patients[0].sessionSpecs[0].sessionsPerWeek).toBe(2)
+    expect(data.rooms).toHaveLength(2)
+  })
+
+  it('adds patients with their specs and specs to existing patients', () => {
+    const result = applyScenario(data, {
+      patients: {
+        add: [{ name: 'New Patient', gender: 'male', sessionSpecs: [specFields(2)] }]
+      },
+      sessionSpecs: { add: [{ ...specFields(1), patientId: 'patient-2' }] }
+    })
+
+    expect(result.patients.map(p => p.sessionSpecs.map(s => s.id))).toEqual([
+      ['spec-1'],
+      ['spec-2', 'scenario-session-spec-1'],
+      ['scenario-patient-1-spec-1']
+    ])
+  })
+
+  it('drops patients left without session specs', () => {
+    const result = applyScenario(data, { sessionSpecs: { remove: ['spec-2'] } })
+
+    expect(result.patients.map(p => p.id)).toEqual(['patient-1'])
+  })
+
+  it('rejects changes to records that don\'t exist', () => {
+    expect(() => applyScenario(data, { rooms: { remove: ['room-9'] } })).toThrow(ScenarioError)
+    expect(() => applyScenario(data, { staff: { update: [{ id: 'staff-9', name: 'Nobody' }] } })).toThrow(
+      'Scenario refers to staff staff-9, which doesn\'t exist'
+    )
+  })
+})
+
+describe('measureCoverage', () => {
+  it('counts sessions toward each spec, up to its sessions per week', () => {
+    const coverage = measureCoverage(patients, [
+      { patientId: 'patient-1', sessionSpecId: 'spec-1' },
+      { patientId: 'patient-1', sessionSpecId: 'spec-1' },
+      { patientId: 'patient-1', sessionSpecId: 'spec-1' },
+      { patientId: 'patient-2', sessionSpecId: 'spec-2' },
+      { patientId: 'patient-2', sessionSpecId: 'spec-2', status: 'cancelled' }
+    ])
+
+    expect(coverage).toEqual({
+      requestedSessions: 5,
+      scheduledSessions: 3,
+      percent: 60,
+      patients: 2,
+      patientsFullyScheduled: 1,
+      unmet: [{
+        patientId: 'patient-2',
+        patientName: 'Michael Brown',
+        sessionSpecId: 'spec-2',
+        sessionSpecName: 'Core Therapy',
+        requested: 3,
+        scheduled: 1
+      }]
+    })
+  })
+
+  it('counts each participant of a group session', () => {
+    const coverage = measureCoverage(patients, [{
+      patientId: 'patient-1',
+      sessionSpecId: 'spec-1',
+      participants: [
+        { patientId: 'patient-1', sessionSpecId: 'spec-1' },
+        { patientId: 'patient-2', sessionSpecId: 'spec-2' }
+      ]
+    }])
+
+    expect(coverage.scheduledSessions).toBe(2)
+  })
+
+  it('is complete when nothing is requested', () => {
+    expect(measureCoverage([], []).percent).toBe(100)
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { planScheduleChunks, remainingDemand } from '../scheduleChunks.js'
+import type { PatientForScheduling } from '../aiProvider.js'
+
+function patient(id: string, specIds: string[] = [`${id}-spec`]): PatientForScheduling {
+  return {
+    id,
+    identifier: null,
+    name: id,
+    gender: 'other',
+    sessionSpecs: specIds.map(specId => ({
+      id: specId,
+      name: 'Core Therapy',
+      sessionsPerWeek: 2,
+      durationMinutes: 60,
+      requiredCertifications: [],
+      preferredTimes: null
+    }))
+  }
+}
+
+const ids = (chunk: { patients: PatientForScheduling[] }) => chunk.patients.map(p => p.id)
+
+describe('planScheduleChunks', () => {
+  it('keeps everyone in one chunk when they fit', () => {
+    const chunks = planScheduleChunks([patient('p-2'), patient('p-1')], {}, 5)
+
+    expect(chunks.map(ids)).toEqual([['p-1', 'p-2']])
+  })
+
+  it('splits patients into chunks of at most the limit', () => {
+    const patients = ['p-1', 'p-2', 'p-3', 'p-4', 'p-5'].map(id => patient(id))
+
+    const chunks = planScheduleChunks(patients, {}, 2)
+
+    expect(chunks.map(ids)).toEqual([['p-1', 'p-2'], ['p-3', 'p-4'], ['p-5']])
+  })
+
+  it('keeps a caseload together and carries its pairings', () => {
+    const patients = [patient('p-1'), patient('p-2'), patient('p-3'), patient('p-4')]
+    const pairings = { 'p-2-spec': 'staff-b', 'p-4-spec': 'staff-b', 'p-3-spec': 'staff-a' }
+
+    const chunks = planScheduleChunks(patients, pairings, 2)
+
+    expect(chunks.map(ids)).toEqual([['p-3'], ['p-2', 'p-4'], ['p-1']])
+    expect(chunks[1].pairings).toEqual({ 'p-2-spec': 'staff-b', 'p-4-spec': 'staff-b' })
+    expect(chunks[2].pairings).toEqual({})
+  })
+
+  it('groups a patient under the therapist most of their specs are paired with', () => {
+    const patients = [patient('p-1', ['s-1', 's-2', 's-3']), patient('p-2'), patient('p-3')]
+    const pairings = { 's-1': 'staff-b', 's-2': 'staff-b', 's-3': 'staff-a', 'p-2-spec': 'staff-a', 'p-3-spec': 'staff-b' }
+
+    const chunks = planScheduleChunks(patients, pairings, 2)
+
+    expect(chunks.map(ids)).toEqual([['p-2'], ['p-1', 'p-3']])
+  })
+
+  it('splits a caseload larger than the limit', () => {
+    const patients = ['p-1', 'p-2', 'p-3'].map(id => patient(id))
+    const pairings = { 'p-1-spec': 'staff-a', 'p-2-spec': 'staff-a', 'p-3-spec': 'staff-a' }
+
+    const chunks = planScheduleChunks(patients, pairings, 2)
+
+    expect(chunks.map(ids)).toEqual([['p-1', 'p-2'], ['p-3']])
+  })
+})
+
+describe('remainingDemand', () => {
+  it('subtracts booked sessions and drops patients with nothing left', () => {
+    const booked = [
+      { therapistId: 'staff-1', patientId: 'p-1', sessionSpecId: 'p-1-spec', date: '2025-01-06', startTime: '09:00', endTime: '10:00' },
+      { therapistId: 'staff-1', patientId: 'p-2', sessionSpecId: 'p-2-spec', date: '2025-01-06', startTime: '10:00', endTime: '11:00' },
+      { therapistId: 'staff-1', patientId: 'p-2', sessionSpecId: 'p-2-spec', date: '2025-01-07', startTime: '10:00', endTime: '11:00' }
+    ]
+
+    const remaining = remainingDemand([patient('p-1'), patient('p-2')], booked)
+
+    expect(remaining.map(p => p.id)).toEqual(['p-1'])
+    expect(remaining[0].sessionSpecs[0].sessionsPerWeek).toBe(1)
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { diffSchedules } from '../scheduleHistory.js'
+import type { SnapshotSession } from '../../repositories/scheduleSnapshots.js'
+
+function session(fields: Partial<SnapshotSession> = {}): SnapshotSession {
+  return {
+    id: 'session-1',
+    therapistId: 'staff-1',
+    therapistName: 'Sarah Johnson',
+    patientId: 'patient-1',
+    patientName: 'Emily Carter',
+    sessionSpecId: 'spec-1',
+    roomId: 'room-1',
+    roomName: 'Room A',
+    date: '2025-01-06',
+    startTime: '09:00',
+    endTime: '10:00',
+    status: 'scheduled',
+    ...fields
+  }
+}
+
+describe('diffSchedules', () => {
+  it('reports nothing for identical versions', () => {
+    const sessions = [session(), session({ id: 'session-2', patientId: 'patient-2' })]
+
+    expect(diffSchedules(sessions, sessions)).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+      summary: { added: 0, removed: 0, moved: 0, reassigned: 0, statusChanged: 0, unchanged: 2 }
+    })
+  })
+
+  it('matches sessions of the same schedule by id', () => {
+    const before = [session()]
+    const after = [session({ date: '2025-01-07', therapistId: 'staff-2', status: 'cancelled' })]
+
+    expect(diffSchedules(before, after).changed).toEqual([
+      { before: before[0], after: after[0], changes: ['moved', 'reassigned', 'status'] }
+    ])
+  })
+
+  it('counts a different room as a reassignment', () => {
+    const diff = diffSchedules([session()], [session({ roomId: 'room-2' })])
+
+    expect(diff.changed[0].changes).toEqual(['reassigned'])
+  })
+
+  it('matches a draft copy\'s sessions by patient and spec, keeping identical slots together', () => {
+    const before = [
+      session({ id: 'a-1', date: '2025-01-06' }),
+      session({ id: 'a-2', date: '2025-01-08' })
+    ]
+    const after = [
+      // The Monday session was moved to Tuesday; Wednesday's is untouched
+      session({ id: 'b-1', date: '2025-01-07' }),
+      session({ id: 'b-2', date: '2025-01-08' })
+    ]
+
+    const diff = diffSchedules(before, after)
+
+    expect(diff.changed).toEqual([{ before: before[0], after: after[0], changes: ['moved'] }])
+    expect(diff.summary).toEqual({ added: 0, removed: 0, moved: 1, reassigned: 0, statusChanged: 0, unchanged: 1 })
+  })
+
+  it('reports unmatched sessions as added or removed', () => {
+    const before = [session({ id: 'a-1', patientId: 'patient-1' })]
+    const after = [session({ id: 'b-1', patientId: 'patient-2' })]
+
+    const diff = diffSchedules(before, after)
+
+    expect(diff.added).toEqual(after)
+    expect(diff.removed).toEqual(before)
+    expect(diff.changed).toEqual([])
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import { explainSchedule } from '../scheduleQuality.js'
+import type { RuleSession } from '../ruleEngine.js'
+import type { StaffForScheduling, PatientForScheduling, RoomForScheduling, RuleForScheduling } from '../aiProvider.js'
+
+const weekdayHours = {
+  monday: { start: '09:00', end: '17:00' },
+  tuesday: { start: '09:00', end: '17:00' },
+  wednesday: { start: '09:00', end: '17:00' }
+}
+
+const staff: StaffForScheduling[] = [
+  { id: 'staff-1', name: 'Sarah Johnson', gender: 'female', certifications: ['ABA'], defaultHours: weekdayHours },
+  { id: 'staff-2', name: 'John Smith', gender: 'male', certifications: ['ABA'], defaultHours: weekdayHours }
+]
+
+function spec(id: string, overrides: Partial<PatientForScheduling['sessionSpecs'][number]> = {}) {
+  return {
+    id,
+    name: 'Core Therapy',
+    sessionsPerWeek: 2,
+    durationMinutes: 60,
+    requiredCertifications: ['ABA'],
+    preferredTimes: [],
+    preferredRoomId: null,
+    requiredRoomCapabilities: [],
+    ...overrides
+  }
+}
+
+const patients: PatientForScheduling[] = [
+  {
+    id: 'patient-1',
+    identifier: 'EC-001',
+    name: 'Emily Carter',
+    gender: 'female',
+    sessionSpecs: [spec('spec-1', { preferredTimes: ['Morning'], preferredRoomId: 'room-1' })]
+  }
+]
+
+const rooms: RoomForScheduling[] = [
+  { id: 'room-1', name: 'Room A', capabilities: [] },
+  { id: 'room-2', name: 'Room B', capabilities: [] }
+]
+
+const genderRule: RuleForScheduling = {
+  id: 'rule-1',
+  category: 'gender_pairing',
+  description: 'Female patients prefer female therapists',
+  ruleLogic: { patientGender: 'female', preferredTherapistGender: 'female', priority: 'preferred' },
+  priority: 1
+}
+
+function session(overrides: Partial<RuleSession> = {}): RuleSession {
+  return {
+    therapistId: 'staff-1',
+    patientId: 'patient-1',
+    sessionSpecId: 'spec-1',
+    roomId: 'room-1',
+    date: '2025-01-06',
+    startTime: '09:00',
+    endTime: '10:00',
+    ...overrides
+  }
+}
+
+describe('explainSchedule', () => {
+  it('explains why the therapist and room were picked', () => {
+    const result = explainSchedule([session()], staff, patients, rooms, [genderRule])
+    const [explanation] = result.explanations
+
+    expect(explanation.satisfiedRules).toEqual([{ ruleId: 'rule-1', description: genderRule.description }])
+    expect(explanation.brokenPreferences).toEqual([])
+    expect(explanation.therapist.map(r => r.code)).toEqual(['gender_match', 'certified', 'working_hours'])
+    expect(explanation.room).toEqual([{ code: 'preferred_room', message: "Room A is Emily Carter's preferred room" }])
+  })
+
+  it('lists broken soft preferences', () => {
+    const result = explainSchedule(
+      [session({ therapistId: 'staff-2', roomId: 'room-2', startTime: '14:00', endTime: '15:00' })],
+      staff,
+      patients,
+      rooms,
+      [genderRule]
+    )
+    const codes = result.explanations[0].brokenPreferences.map(p => p.code)
+
+    expect(codes).toEqual(['rule', 'preferred_time', 'preferred_room'])
+    expect(result.explanations[0].brokenPreferences[0].ruleId).toBe('rule-1')
+    expect(result.quality.components.preferredTime).toEqual({ score: 0, hits: 0, total: 1 })
+    expect(result.quality.components.genderPreference).toEqual({ score: 0, hits: 0, total: 1 })
+  })
+
+  it('scores continuity and spread across the week', () => {
+    const result = explainSchedule(
+      [
+        session(),
+        session({ date: '2025-01-07' }),
+        session({ date: '2025-01-07', therapistId: 'staff-2', startTime: '11:00', endTime: '12:00' })
+      ],
+      staff,
+      patients,
+      rooms
+    )
+
+    expect(result.quality.components.continuity).toEqual({ score: 0.667, hits: 2, total: 3 })
+    expect(result.quality.components.spread).toEqual({ score: 0.667, hits: 2, total: 3 })
+    expect(result.explanations[0].therapist.some(r => r.code === 'continuity')).toBe(true)
+    expect(result.explanations[2].therapist.some(r => r.code === 'continuity')).toBe(false)
+  })
+
+  it('averages only the components that can be measured', () => {
+    const result = explainSchedule([session(), session({ date: '2025-01-07', startTime: '14:00', endTime: '15:00' })], staff, patients, rooms)
+
+    // Preferred time 1/2, continuity 2/2, spread 2/2; no gender rules to measure
+    expect(result.quality.components.genderPreference.score).toBeNull()
+    expect(result.quality.score).toBe(83)
+  })
+
+  it('scores an empty schedule as perfect', () => {
+    const result = explainSchedule([], staff, patients, rooms)
+
+    expect(result.explanations).toEqual([])
+    expect(result.quality.score).toBe(100)
+  })
+})
@@ -0,0 +1,394 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { ScheduleWithSessions } from '../../repositories/schedules.js'
+
+vi.mock('../../repositories/staff.js', () => ({
+  staffRepository: { findByOrganization: vi.fn() }
+}))
+
+vi.mock('../../repositories/patients.js', () => ({
+  patientRepository: { findByOrganizationWithSessionSpecs: vi.fn() }
+}))
+
+vi.mock('../../repositories/rules.js', () => ({
+  ruleRepository: { findActiveByOrganization: vi.fn() }
+}))
+
+vi.mock('../../repositories/rooms.js', () => ({
+  roomRepository: { findByOrganization: vi.fn() }
+}))
+
+vi.mock('../../repositories/staffAvailability.js', () => ({
+  staffAvailabilityRepository: { getApprovedUnavailability: vi.fn(), create: vi.fn() }
+}))
+
+// A repair is applied in a transaction with this client
+const mockTx = { name: 'tx' }
+vi.mock('../../repositories/base.js', () => ({
+  prisma: { $transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn(mockTx)) }
+}))
+
+vi.mock('../../repositories/holidays.js', () => ({
+  holidayRepository: { findByOrganization: vi.fn(async () => []) }
+}))
+
+vi.mock('../../repositories/organizationSettings.js', () => ({
+  organizationSettingsRepository: {
+    getBusinessHours: vi.fn(async () => ({
+      monday: { open: true, start: '08:00', end: '18:00' },
+      tuesday: { open: true, start: '08:00', end: '18:00' },
+      wednesday: { open: true, start: '08:00', end: '18:00' },
+      thursday: { open: true, start: '08:00', end: '18:00' },
+      friday: { open: true, start: '08:00', end: '18:00' },
+      saturday: { open: false, start: '08:00', end: '18:00' },
+      sunday: { open: false, start: '08:00', end: '18:00' }
+    })),
+    getSchedulingEngine: vi.fn(async () => 'ai'),
+    closesOnFederalHolidays: vi.fn(async () => true)
+  }
+}))
+
+vi.mock('../../repositories/schedules.js', () => ({
+  scheduleRepository: {},
+  sessionRepository: {
+    update: vi.fn(),
+    cancelSession: vi.fn(),
+    addStaffAssignment: vi.fn(),
+    removeStaffAssignment: vi.fn()
+  }
+}))
+
+vi.mock('../aiProvider.js', () => ({
+  generateScheduleWithAI: vi.fn(),
+  chatCompletion: vi.fn(),
+  isProviderConfigured: vi.fn(() => false)
+}))
+
+import { proposeScheduleRepair, applyScheduleRepair, validateRepairChanges } from '../scheduler.js'
+import { sessionRepository } from '../../repositories/schedules.js'
+import { staffRepository } from '../../repositories/staff.js'
+import { patientRepository } from '../../repositories/patients.js'
+import { ruleRepository } from '../../repositories/rules.js'
+import { roomRepository } from '../../repositories/rooms.js'
+import { staffAvailabilityRepository } from '../../repositories/staffAvailability.js'
+
+const weekdayHours = {
+  monday: { start: '09:00', end: '17:00' },
+  tuesday: { start: '09:00', end: '17:00' },
+  wednesday: { start: '09:00', end: '17:00' },
+  thursday: { start: '09:00', end: '17:00' },
+  friday: { start: '09:00', end: '17:00' }
+}
+
+const staff = [
+  { id: 'staff-1', name: 'Sarah Johnson', gender: 'female', certifications: ['ABA'], defaultHours: weekdayHours },
+  { id: 'staff-2', name: 'John Smith', gender: 'male', certifications: ['ABA'], defaultHours: weekdayHours },
+  { id: 'staff-3', name: 'Maria Garcia', gender: 'female', certifications: [], defaultHours: weekdayHours }
+]
+
+const supervisors = [
+  { id: 'staff-4', name: 'Dana Brooks', gender: 'female', certifications: ['ABA', 'BCBA'], defaultHours: weekdayHours },
+  { id: 'staff-5', name: 'Lee Park', gender: 'male', certifications: ['ABA', 'BCBA'], defaultHours: weekdayHours }
+]
+
+function patient(id: string, name: string) {
+  return {
+    id,
+    identifier: null,
+    name,
+    gender: 'female',
+    sessionSpecs: [{
+      id: `spec-${id}`,
+      name: 'Core Therapy',
+      sessionsPerWeek: 2,
+      durationMinutes: 60,
+      requiredCertifications: ['ABA'],
+      preferredTimes: [],
+      preferredRoomId: null,
+      requiredRoomCapabilities: []
+    }]
+  }
+}
+
+function session(id: string, therapistId: string, patientId: string, date: string, startTime: string, endTime: string) {
+  return {
+    id,
+    scheduleId: 'schedule-1',
+    therapistId,
+    patientId,
+    sessionSpecId: `spec-${patientId}`,
+    roomId: null,
+    date: new Date(`${date}T00:00:00Z`),
+    startTime,
+    endTime,
+    status: 'scheduled'
+  }
+}
+
+function supervised(base: ReturnType<typeof session>, supervisorId: string) {
+  return { ...base, staffAssignments: [{ sessionId: base.id, staffId: supervisorId, role: 'supervisor' as const }] }
+}
+
+function schedule(sessions: ReturnType<typeof session>[]): ScheduleWithSessions {
+  return {
+    id: 'schedule-1',
+    organizationId: 'org-1',
+    weekStartDate: new Date('2025-01-06T00:00:00Z'),
+    status: 'published',
+    sessions
+  } as unknown as ScheduleWithSessions
+}
+
+describe('proposeScheduleRepair', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(staffRepository.findByOrganization).mockResolvedValue(staff as never)
+    vi.mocked(patientRepository.findByOrganizationWithSessionSpecs).mockResolvedValue([
+      patient('patient-1', 'Emily Carter'),
+      patient('patient-2', 'Ava Lee')
+    ] as never)
+    vi.mocked(ruleRepository.findActiveByOrganization).mockResolvedValue([])
+    vi.mocked(roomRepository.findByOrganization).mockResolvedValue([])
+    vi.mocked(staffAvailabilityRepository.getApprovedUnavailability).mockResolvedValue([])
+  })
+
+  it('hands the slot to another qualified therapist when one is free', async () => {
+    const proposal = await proposeScheduleRepair('org-1', schedule([
+      session('session-1', 'staff-1', 'patient-1', '2025-01-08', '10:00', '11:00')
+    ]), { staffId: 'staff-1', date: '2025-01-08', reason: 'Sick' })
+
+    expect(proposal.changes).toHaveLength(1)
+    expect(proposal.changes[0]).toMatchObject({
+      sessionId: 'session-1',
+      action: 'reassign',
+      replacement: { therapistId: 'staff-2', date: '2025-01-08', startTime: '10:00', endTime: '11:00' }
+    })
+  })
+
+  it('moves a session to the nearest free slot when no therapist can cover it', async () => {
+    const proposal = await proposeScheduleRepair('org-1', schedule([
+      session('session-1', 'staff-1', 'patient-1', '2025-01-08', '10:00', '11:00'),
+      session('session-2', 'staff-2', 'patient-2', '2025-01-08', '10:00', '11:00')
+    ]), { staffId: 'staff-1', date: '2025-01-08' })
+
+    expect(proposal.changes[0]).toMatchObject({
+      action: 'move',
+      replacement: { therapistId: 'staff-2', date: '2025-01-08', startTime: '09:00', endTime: '10:00' }
+    })
+  })
+
+  it('only touches sessions outside a partial availability window', async () => {
+    const proposal = await proposeScheduleRepair('org-1', schedule([
+      session('session-1', 'staff-1', 'patient-1', '2025-01-08', '09:00', '10:00'),
+      session('session-2', 'staff-1', 'patient-2', '2025-01-08', '14:00', '15:00')
+    ]), { staffId: 'staff-1', date: '2025-01-08', available: true, startTime: '09:00', endTime: '12:00' })
+
+    expect(proposal.changes.map(c => c.sessionId)).toEqual(['session-2'])
+  })
+
+  it('proposes cancelling sessions that cannot be re-placed', async () => {
+    vi.mocked(staffRepository.findByOrganization).mockResolvedValue([staff[0], staff[2]] as never)
+
+    const proposal = await proposeScheduleRepair('org-1', schedule([
+      session('session-1', 'staff-1', 'patient-1', '2025-01-10', '10:00', '11:00')
+    ]), { staffId: 'staff-1', date: '2025-01-10' })
+
+    expect(proposal.changes[0].action).toBe('cancel')
+    expect(proposal.warnings[0]).toContain('could not be re-placed')
+  })
+
+  it('replaces an unavailable supervisor with another free one', async () => {
+    vi.mocked(staffRepository.findByOrganization).mockResolvedValue([...staff, ...supervisors] as never)
+
+    const proposal = await proposeScheduleRepair('org-1', schedule([
+      supervised(session('session-1', 'staff-2', 'patient-1', '2025-01-08', '10:00', '11:00'), 'staff-4')
+    ]), { staffId: 'staff-4', date: '2025-01-08' })
+
+    expect(proposal.changes).toHaveLength(1)
+    expect(proposal.changes[0]).toMatchObject({
+      sessionId: 'session-1',
+      action: 'replace_staff',
+      staffAssignment: { staffId: 'staff-4', role: 'supervisor', replacementStaffId: 'staff-5' }
+    })
+    expect(proposal.changes[0].replacement).toBeUndefined()
+  })
+
+  it('drops an unavailable supervisor when no one else is free', async () => {
+    vi.mocked(staffRepository.findByOrganization).mockResolvedValue([...staff, ...supervisors] as never)
+
+    const proposal = await proposeScheduleRepair('org-1', schedule([
+      supervised(session('session-1', 'staff-2', 'patient-1', '2025-01-08', '10:00', '11:00'), 'staff-4'),
+      session('session-2', 'staff-5', 'patient-2', '2025-01-08', '10:00', '11:00')
+    ]), { staffId: 'staff-4', date: '2025-01-08' })
+
+    expect(proposal.changes).toHaveLength(1)
+    expect(proposal.changes[0]).toMatchObject({
+      sessionId: 'session-1',
+      action: 'drop_staff',
+      staffAssignment: { staffId: 'staff-4', role: 'supervisor' }
+    })
+    expect(proposal.changes[0].staffAssignment?.replacementStaffId).toBeUndefined()
+    expect(proposal.warnings).toContain('1 session(s) would lose their supervisor. Check supervision before applying.')
+  })
+
+  it('reports when no sessions are affected', async () => {
+    const proposal = await proposeScheduleRepair('org-1', schedule([
+      session('session-1', 'staff-2', 'patient-1', '2025-01-08', '10:00', '11:00')
+    ]), { staffId: 'staff-1', date: '2025-01-08' })
+
+    expect(proposal.changes).toEqual([])
+    expect(proposal.warnings).toEqual(['No sessions are affected by this unavailability.'])
+  })
+})
+
+describe('validateRepairChanges', () => {
+  const repairSchedule = schedule([
+    session('session-1', 'staff-1', 'patient-1', '2025-01-08', '10:00', '11:00'),
+    session('session-2', 'staff-2', 'patient-2', '2025-01-08', '13:00', '14:00')
+  ])
+  const replacement = (therapistId: string, startTime: string, endTime: string) => ({
+    therapistId, roomId: null, date: '2025-01-08', startTime, endTime
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(staffRepository.findByOrganization).mockResolvedValue(staff as never)
+    vi.mocked(patientRepository.findByOrganizationWithSessionSpecs).mockResolvedValue([
+      patient('patient-1', 'Emily Carter'),
+      patient('patient-2', 'Ava Lee')
+    ] as never)
+    vi.mocked(ruleRepository.findActiveByOrganization).mockResolvedValue([])
+    vi.mocked(roomRepository.findByOrganization).mockResolvedValue([])
+    vi.mocked(staffAvailabilityRepository.getApprovedUnavailability).mockResolvedValue([])
+  })
+
+  it('accepts replacements that still fit', async () => {
+    expect(await validateRepairChanges('org-1', repairSchedule, { staffId: 'staff-1', date: '2025-01-08' }, [
+      { sessionId: 'session-1', action: 'reassign', replacement: replacement('staff-2', '10:00', '11:00') }
+    ])).toEqual([])
+  })
+
+  it('rejects a replacement outside business hours', async () => {
+    const problems = await validateRepairChanges('org-1', repairSchedule, { staffId: 'staff-1', date: '2025-01-08' }, [
+      { sessionId: 'session-1', action: 'move', replacement: replacement('staff-2', '18:00', '19:00') }
+    ])
+
+    expect(problems.length).toBeGreaterThan(0)
+    expect(problems[0]).toContain('at 18:00 on 2025-01-08')
+  })
+
+  it('rejects a replacement with the therapist who is unavailable', async () => {
+    const problems = await validateRepairChanges('org-1', repairSchedule, { staffId: 'staff-1', date: '2025-01-08' }, [
+      { sessionId: 'session-1', action: 'move', replacement: replacement('staff-1', '15:00', '16:00') }
+    ])
+
+    expect(problems.length).toBeGreaterThan(0)
+  })
+
+  it('rejects a replacement supervisor who is busy at the time', async () => {
+    vi.mocked(staffRepository.findByOrganization).mockResolvedValue([...staff, ...supervisors] as never)
+
+    const problems = await validateRepairChanges('org-1', schedule([
+      supervised(session('session-1', 'staff-2', 'patient-1', '2025-01-08', '10:00', '11:00'), 'staff-4'),
+      session('session-2', 'staff-5', 'patient-2', '2025-01-08', '10:00', '11:00')
+    ]), { staffId: 'staff-4', date: '2025-01-08' }, [{
+      sessionId: 'session-1',
+      action: 'replace_staff',
+      staffAssignment: { staffId: 'staff-4', role: 'supervisor', replacementStaffId: 'staff-5' }
+    }])
+
+    expect(problems.length).toBeGreaterThan(0)
+  })
+
+  it('checks replacements against each other', async () => {
+    const problems = await validateRepairChanges('org-1', repairSchedule, { staffId: 'staff-2', date: '2025-01-08' }, [
+      { sessionId: 'session-1', action: 'reassign', replacement: replacement('staff-3', '10:00', '11:00') },
+      { sessionId: 'session-2', action: 'move', replacement: replacement('staff-1', '10:00', '11:00') }
+    ])
+
+    expect(problems.length).toBeGreaterThan(0)
+  })
+})
+
+describe('applyScheduleRepair', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(sessionRepository.update).mockResolvedValue({ id: 'session' } as never)
+    vi.mocked(sessionRepository.cancelSession).mockResolvedValue({ id: 'session' } as never)
+  })
+
+  it('updates re-placed sessions and cancels the rest', async () => {
+    const applied = await applyScheduleRepair('org-1', 'schedule-1', [
+      {
+        sessionId: 'session-1',
+        action: 'reassign',
+        replacement: { therapistId: 'staff-2', roomId: null, date: '2025-01-08', startTime: '10:00', endTime: '11:00' }
+      },
+      {
+        sessionId: 'session-2',
+        action: 'move',
+        replacement: { therapistId: 'staff-2', roomId: 'room-1', date: '2025-01-09', startTime: '09:00', endTime: '10:00' }
+      },
+      { sessionId: 'session-3', action: 'cancel' }
+    ], { cancelledById: 'user-1', notes: 'Sick' })
+
+    expect(applied).toEqual({ reassigned: 1, moved: 1, cancelled: 1, staffReplaced: 0, staffDropped: 0, availabilityId: null })
+    expect(sessionRepository.update).toHaveBeenCalledWith('session-1', 'schedule-1', {
+      therapistId: 'staff-2',
+      roomId: null,
+      date: new Date('2025-01-08'),
+      startTime: '10:00',
+      endTime: '11:00',
+      explanation: null
+    }, mockTx)
+    expect(sessionRepository.cancelSession).toHaveBeenCalledWith('session-3', 'org-1', {
+      cancelledById: 'user-1',
+      reason: 'therapist_unavailable',
+      notes: 'Sick'
+    }, mockTx)
+  })
+
+  it('replaces or drops supervisors and co-treaters', async () => {
+    vi.mocked(sessionRepository.removeStaffAssignment).mockResolvedValue(true)
+
+    const applied = await applyScheduleRepair('org-1', 'schedule-1', [
+      {
+        sessionId: 'session-1',
+        action: 'replace_staff',
+        staffAssignment: { staffId: 'staff-4', role: 'supervisor', replacementStaffId: 'staff-5' }
+      },
+      { sessionId: 'session-2', action: 'drop_staff', staffAssignment: { staffId: 'staff-4', role: 'co_treater' } }
+    ], { cancelledById: 'user-1' })
+
+    expect(applied).toMatchObject({ staffReplaced: 1, staffDropped: 1 })
+    expect(sessionRepository.removeStaffAssignment).toHaveBeenCalledWith('session-1', 'staff-4', mockTx)
+    expect(sessionRepository.removeStaffAssignment).toHaveBeenCalledWith('session-2', 'staff-4', mockTx)
+    expect(sessionRepository.addStaffAssignment).toHaveBeenCalledTimes(1)
+    expect(sessionRepository.addStaffAssignment).toHaveBeenCalledWith('session-1', { staffId: 'staff-5', role: 'supervisor' }, mockTx)
+    expect(sessionRepository.update).not.toHaveBeenCalled()
+  })
+
+  it('records the unavailability in the same transaction', async () => {
+    const unavailability = { staffId: 'staff-1', date: new Date('2025-01-08'), available: false, reason: 'Sick', status: 'approved' as const }
+    vi.mocked(staffAvailabilityRepository.create).mockResolvedValue({ id: 'availability-1' } as never)
+
+    const applied = await applyScheduleRepair('org-1', 'schedule-1', [
+      { sessionId: 'session-3', action: 'cancel' }
+    ], { cancelledById: 'user-1', notes: 'Sick' }, unavailability)
+
+    expect(applied.availabilityId).toBe('availability-1')
+    expect(staffAvailabilityRepository.create).toHaveBeenCalledWith(unavailability, mockTx)
+  })
+
+  it('fails the whole repair when a session can\'t be changed', async () => {
+    vi.mocked(sessionRepository.update).mockResolvedValue(null)
+
+    await expect(applyScheduleRepair('org-1', 'schedule-1', [
+      { sessionId: 'session-3', action: 'cancel' },
+      {
+        sessionId: 'session-1',
+        action: 'reassign',
+        replacement: { therapistId: 'staff-2', roomId: null, date: '2025-01-08', startTime: '10:00', endTime: '11:00' }
+      }
+    ], { cancelledById: 'user-1' })).rejects.toThrow('Session session-1 could not be updated')
+  })
+})
@@ -3,9 +3,14 @@ import {
   timeToMinutes,
   sessionsOverlap,
   getDayOfWeek,
-  validateSessions
+  validateSessions,
+  pairingsFromSessions,
+  lockedForGeneration,
+  resolveSchedulingEngine,
+  SchedulingEngineError
 } from '../scheduler.js'
-import type { StaffForScheduling, PatientForScheduling, GeneratedSession } from '../aiProvider.js'
+import type { SessionWithDetails } from '../../repositories/schedules.js'
+import type { StaffForScheduling, PatientForScheduling, GeneratedSession, RuleForScheduling } from '../aiProvider.js'
 
 describe('Scheduler Helper Functions', () => {
   describe('timeToMinutes', () => {
@@ -301,6 +306,108 @@ describe('validateSessions', () => {
     })
   })
 
+  describe('invalid sessions - holidays', () => {
+    it('rejects sessions while the clinic is closed', () => {
+      const sessions: GeneratedSession[] = [
+        { therapistId: 'staff-1', patientId: 'patient-1', sessionSpecId: 'spec-1', date: '2025-01-06', startTime: '09:00', endTime: '10:00' },
+        { therapistId: 'staff-1', patientId: 'patient-2', sessionSpecId: 'spec-2', date: '2025-01-08', startTime: '14:00', endTime: '15:00' }
+      ]
+      const closures = [{ date: '2025-01-08', name: 'Early Close', startTime: '13:00', endTime: '17:00' }]
+
+      const result = validateSessions(sessions, baseStaff, basePatients, [], undefined, [], [], closures)
+
+      expect(result.valid).toHaveLength(1)
+      expect(result.errors[0].errors).toContain('The clinic is closed for Early Close (2025-01-08 13:00-17:00)')
+    })
+  })
+
+  describe('invalid sessions - business hours', () => {
+    it('rejects sessions outside the business hours of their day', () => {
+      const sessions: GeneratedSession[] = [
+        { therapistId: 'staff-1', patientId: 'patient-1', sessionSpecId: 'spec-1', date: '2025-01-06', startTime: '09:00', endTime: '10:00' },
+        { therapistId: 'staff-1', patientId: 'patient-2', sessionSpecId: 'spec-2', date: '2025-01-10', startTime: '14:00', endTime: '15:00' }
+      ]
+      const open = { open: true, start: '08:00', end: '18:00' }
+      const businessHours = {
+        monday: open,
+        tuesday: open,
+        wednesday: open,
+        thursday: open,
+        friday: { open: true, start: '08:00', end: '14:00' },
+        saturday: { ...open, open: false },
+        sunday: { ...open, open: false }
+      }
+
+      const result = validateSessions(sessions, baseStaff, basePatients, [], undefined, [], [], [], businessHours)
+
+      expect(result.valid).toHaveLength(1)
+      expect(result.errors[0].errors).toContain('Session time 14:00-15:00 is outside business hours on 2025-01-10 (08:00-14:00)')
+    })
+  })
+
+  describe('invalid sessions - patient availability', () => {
+    it('rejects sessions outside the patient\'s availability', () => {
+      const afterSchool = { start: '15:00', end: '18:00' }
+      const patients: PatientForScheduling[] = [
+        {
+          ...basePatients[0],
+          availability: {
+            weekly: { monday: afterSchool, tuesday: afterSchool, wednesday: afterSchool, thursday: afterSchool, friday: afterSchool },
+            exceptions: [{ startDate: '2025-01-09', endDate: '2025-01-10', available: true, reason: 'School holiday' }]
+          }
+        },
+        basePatients[1]
+      ]
+      const sessions: GeneratedSession[] = [
+        { therapistId: 'staff-1', patientId: 'patient-1', sessionSpecId: 'spec-1', date: '2025-01-06', startTime: '09:00', endTime: '10:00' },
+        { therapistId: 'staff-1', patientId: 'patient-1', sessionSpecId: 'spec-1', date: '2025-01-07', startTime: '15:00', endTime: '16:00' },
+        { therapistId: 'staff-1', patientId: 'patient-1', sessionSpecId: 'spec-1', date: '2025-01-09', startTime: '09:00', endTime: '10:00' }
+      ]
+
+      const result = validateSessions(sessions, baseStaff, patients)
+
+      expect(result.valid).toHaveLength(2)
+      expect(result.errors[0].errors).toContain(
+        "Session time 09:00-10:00 is outside Emily Carter's availability on 2025-01-06 (15:00-18:00)"
+      )
+    })
+  })
+
+  describe('invalid sessions - insurance authorizations', () => {
+    it('rejects sessions beyond the units left or outside the authorization', () => {
+      const patients: PatientForScheduling[] = [
+        {
+          ...basePatients[0],
+          authorizations: [{
+            id: 'auth-1',
+            payer: 'Aetna',
+            authNumber: 'A-100',
+            sessionSpecId: null,
+            unitMinutes: 15,
+            startDate: '2025-01-01',
+            endDate: '2025-01-09',
+            remainingUnits: 6
+          }]
+        },
+        basePatients[1]
+      ]
+      const sessions: GeneratedSession[] = [
+        { therapistId: 'staff-1', patientId: 'patient-1', sessionSpecId: 'spec-1', date: '2025-01-06', startTime: '09:00', endTime: '10:00' },
+        { therapistId: 'staff-1', patientId: 'patient-1', sessionSpecId: 'spec-1', date: '2025-01-07', startTime: '09:00', endTime: '10:00' },
+        { therapistId: 'staff-1', patientId: 'patient-1', sessionSpecId: 'spec-1', date: '2025-01-08', startTime: '09:00', endTime: '09:30' },
+        { therapistId: 'staff-1', patientId: 'patient-1', sessionSpecId: 'spec-1', date: '2025-01-10', startTime: '09:00', endTime: '09:30' }
+      ]
+
+      const result = validateSessions(sessions, baseStaff, patients)
+
+      expect(result.valid.map(s => s.startTime)).toEqual(['09:00', '09:00'])
+      expect(result.errors.map(e => e.errors[0])).toEqual([
+        'Authorization A-100 (Aetna) has 2 unit(s) left for Emily Carter, but the session needs 4',
+        "No insurance authorization covers Emily Carter's session on 2025-01-10"
+      ])
+    })
+  })
+
   describe('invalid sessions - time conflicts', () => {
     it('rejects overlapping sessions for the same therapist', () => {
       const sessions: GeneratedSession[] = [
@@ -355,6 +462,184 @@ describe('validateSessions', () => {
       expect(result.errors).toHaveLength(1)
       expect(result.errors[0].errors[0]).toContain('Patient Michael Brown has overlapping sessions')
     })
+
+    it('checks sessions against booked sessions without returning them', () => {
+      const booked: GeneratedSession[] = [{
+        therapistId: 'staff-1',
+        patientId: 'patient-1',
+        sessionSpecId: 'spec-1',
+        date: '2025-01-06T12:00:00',
+        startTime: '10:00',
+        endTime: '11:00'
+      }]
+      const sessions: GeneratedSession[] = [
+        { ...booked[0], patientId: 'patient-2', sessionSpecId: 'spec-2', startTime: '10:30', endTime: '11:30' },
+        { ...booked[0], startTime: '11:00', endTime: '12:00' }
+      ]
+
+      const result = validateSessions(sessions, baseStaff, basePatients, [], undefined, [], booked)
+
+      expect(result.valid).toHaveLength(1)
+      expect(result.valid[0].startTime).toBe('11:00')
+      expect(result.errors[0].errors[0]).toContain('overlapping sessions')
+    })
+  })
+
+  describe('group sessions', () => {
+    const groupPatients: PatientForScheduling[] = basePatients.map(p => ({
+      ...p,
+      sessionSpecs: p.sessionSpecs.map(spec => ({ ...spec, groupSize: 2 }))
+    }))
+    const group: GeneratedSession = {
+      therapistId: 'staff-1',
+      patientId: 'patient-1',
+      sessionSpecId: 'spec-1',
+      date: '2025-01-06',
+      startTime: '10:00',
+      endTime: '11:00',
+      capacity: 2,
+      participants: [
+        { patientId: 'patient-1', sessionSpecId: 'spec-1' },
+        { patientId: 'patient-2', sessionSpecId: 'spec-2' }
+      ]
+    }
+
+    it('accepts a group session and counts it for every participant', () => {
+      const result = validateSessions([group], baseStaff, groupPatients)
+
+      expect(result.errors).toHaveLength(0)
+      expect(result.valid[0]).toMatchObject({ capacity: 2, participants: group.participants })
+      expect(result.warnings.some(w => w.includes('Michael Brown') && w.includes('scheduled for 1 sessions'))).toBe(true)
+    })
+
+    it('rejects a group over capacity or with specs that are not group specs', () => {
+      const overCapacity = validateSessions([{ ...group, capacity: 1 }], baseStaff, groupPatients)
+      const notGroups = validateSessions([group], baseStaff, basePatients)
+
+      expect(overCapacity.errors[0].errors).toContain('Group session has 2 participants but a capacity of 1')
+      expect(notGroups.errors[0].errors).toContain('Session spec "Core Therapy" for Michael Brown is not a group session spec')
+    })
+
+    it('rejects a participant who already has a session at that time', () => {
+      const booked: GeneratedSession[] = [{
+        therapistId: 'staff-2',
+        patientId: 'patient-2',
+        sessionSpecId: 'spec-2',
+        date: '2025-01-06',
+        startTime: '10:30',
+        endTime: '11:30'
+      }]
+
+      const result = validateSessions([group], baseStaff, groupPatients, [], undefined, [], booked)
+
+      expect(result.errors[0].errors).toContain('Patient Michael Brown has overlapping sessions on 2025-01-06')
+    })
+  })
+
+  describe('staff assignments', () => {
+    const supervised: GeneratedSession = {
+      therapistId: 'staff-1',
+      patientId: 'patient-1',
+      sessionSpecId: 'spec-1',
+      date: '2025-01-06',
+      startTime: '10:00',
+      endTime: '11:00',
+      staffAssignments: [{ staffId: 'staff-2', role: 'supervisor' }]
+    }
+
+    it('accepts a supervisor who is working and free, and keeps them on the session', () => {
+      const result = validateSessions([supervised], baseStaff, basePatients)
+
+      expect(result.errors).toHaveLength(0)
+      expect(result.valid[0].staffAssignments).toEqual([{ staffId: 'staff-2', role: 'supervisor' }])
+    })
+
+    it('rejects secondary staff who are busy or not working', () => {
+      const booked: GeneratedSession[] = [{
+        therapistId: 'staff-2',
+        patientId: 'patient-2',
+        sessionSpecId: 'spec-2',
+        date: '2025-01-06',
+        startTime: '10:30',
+        endTime: '11:30'
+      }]
+
+      const busy = validateSessions([supervised], baseStaff, basePatients, [], undefined, [], booked)
+      const offDay = validateSessions([{ ...supervised, date: '2025-01-07' }], baseStaff, basePatients)
+
+      expect(busy.errors[0].errors).toContain('John Smith has overlapping sessions on 2025-01-06')
+      expect(offDay.errors[0].errors).toContain('John Smith is not working 10:00-11:00 on 2025-01-07')
+    })
+
+    it('keeps a supervisor\'s own sessions from overlapping the ones they supervise', () => {
+      const ownSession: GeneratedSession = {
+        therapistId: 'staff-2',
+        patientId: 'patient-2',
+        sessionSpecId: 'spec-2',
+        date: '2025-01-06',
+        startTime: '10:00',
+        endTime: '11:00'
+      }
+
+      const result = validateSessions([supervised, ownSession], baseStaff, basePatients)
+
+      expect(result.valid).toHaveLength(1)
+      expect(result.errors[0].errors).toContain('Therapist John Smith has overlapping sessions on 2025-01-06')
+    })
+  })
+
+  describe('scheduling rules', () => {
+    const sessions: GeneratedSession[] = [
+      {
+        therapistId: 'staff-1',
+        patientId: 'patient-1',
+        sessionSpecId: 'spec-1',
+        date: '2025-01-06T12:00:00',
+        startTime: '09:00',
+        endTime: '10:00'
+      },
+      {
+        therapistId: 'staff-1',
+        patientId: 'patient-2',
+        sessionSpecId: 'spec-2',
+        date: '2025-01-06T12:00:00',
+        startTime: '10:00',
+        endTime: '11:00'
+      }
+    ]
+
+    it('rejects sessions that break a hard rule', () => {
+      const rules: RuleForScheduling[] = [{
+        id: 'rule-1',
+        category: 'session',
+        description: 'One session per therapist per day',
+        ruleLogic: { maxSessionsPerDay: 1 },
+        priority: 1
+      }]
+
+      const result = validateSessions(sessions, baseStaff, basePatients, [], undefined, rules)
+
+      expect(result.valid).toHaveLength(1)
+      expect(result.errors).toHaveLength(1)
+      expect(result.errors[0].errors[0]).toBe(
+        'Rule "One session per therapist per day": Sarah Johnson would exceed 1 sessions on 2025-01-06T12:00:00'
+      )
+    })
+
+    it('keeps sessions that only break soft rules and reports their score', () => {
+      const rules: RuleForScheduling[] = [{
+        id: 'rule-1',
+        category: 'gender_pairing',
+        description: 'Male patients prefer male therapists',
+        ruleLogic: { patientGender: 'male', preferredTherapistGender: 'male', priority: 'preferred' },
+        priority: 1
+      }]
+
+      const result = validateSessions(sessions, baseStaff, basePatients, [], undefined, rules)
+
+      expect(result.valid).toHaveLength(2)
+      expect(result.ruleScore).toBe(10)
+    })
   })
 
   describe('session frequency warnings', () => {
@@ -464,3 +749,83 @@ describe('validateSessions', () => {
     })
   })
 })
+
+describe('pairingsFromSessions', () => {
+  it('picks the therapist each spec sees most often', () => {
+    expect(pairingsFromSessions([
+      { sessionSpecId: 'spec-1', therapistId: 'staff-2' },
+      { sessionSpecId: 'spec-1', therapistId: 'staff-1' },
+      { sessionSpecId: 'spec-1', therapistId: 'staff-2' },
+      { sessionSpecId: 'spec-2', therapistId: 'staff-3' },
+      { sessionSpecId: 'spec-2', therapistId: 'staff-1' },
+      { sessionSpecId: null, therapistId: 'staff-4' }
+    ])).toEqual({ 'spec-1': 'staff-2', 'spec-2': 'staff-1' })
+  })
+
+  it('ignores cancelled sessions', () => {
+    expect(pairingsFromSessions([
+      { sessionSpecId: 'spec-1', therapistId: 'staff-1', status: 'cancelled' },
+      { sessionSpecId: 'spec-1', therapistId: 'staff-2', status: 'scheduled' }
+    ])).toEqual({ 'spec-1': 'staff-2' })
+  })
+})
+
+describe('lockedForGeneration', () => {
+  const lockedSession = (overrides: Partial<SessionWithDetails>) => ({
+    id: 'session-1',
+    therapistId: 'staff-1',
+    patientId: 'patient-1',
+    sessionSpecId: 'spec-1',
+    roomId: null,
+    date: new Date('2025-01-06T00:00:00Z'),
+    startTime: '09:00',
+    endTime: '10:00',
+    capacity: null,
+    ...overrides
+  }) as SessionWithDetails
+
+  it('keeps the participants, capacity and staff of a locked group session', () => {
+    const [group] = lockedForGeneration([lockedSession({
+      capacity: 3,
+      participants: [
+        { patientId: 'patient-1', sessionSpecId: 'spec-1' },
+        { patientId: 'patient-2', sessionSpecId: 'spec-2' },
+        { patientId: 'patient-3', sessionSpecId: null }
+      ] as never,
+      staffAssignments: [{ staffId: 'staff-9', role: 'supervisor' }] as never
+    })])
+
+    expect(group).toMatchObject({
+      sessionSpecId: 'spec-1',
+      date: '2025-01-06',
+      capacity: 3,
+      participants: [
+        { patientId: 'patient-1', sessionSpecId: 'spec-1' },
+        { patientId: 'patient-2', sessionSpecId: 'spec-2' }
+      ],
+      staffAssignments: [{ staffId: 'staff-9', role: 'supervisor' }]
+    })
+  })
+
+  it('skips sessions without a session spec', () => {
+    expect(lockedForGeneration([
+      lockedSession({ sessionSpecId: null }),
+      lockedSession({ id: 'session-2', startTime: '11:00', endTime: '12:00' })
+    ]).map(s => s.startTime)).toEqual(['11:00'])
+  })
+})
+
+describe('resolveSchedulingEngine', () => {
+  it('uses the organization default when no engine is requested', () => {
+    expect(resolveSchedulingEngine('solver')).toBe('solver')
+    expect(resolveSchedulingEngine('ai')).toBe('ai')
+  })
+
+  it('lets an AI organization request the solver', () => {
+    expect(resolveSchedulingEngine('ai', 'solver')).toBe('solver')
+  })
+
+  it('refuses the AI engine to an organization that uses the solver', () => {
+    expect(() => resolveSchedulingEngine('solver', 'ai')).toThrow(SchedulingEngineError)
+  })
+})
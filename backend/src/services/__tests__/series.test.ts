@@ -0,0 +1,244 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('../../repositories/series.js', () => ({
+  seriesRepository: {
+    create: vi.fn(),
+    update: vi.fn(),
+    findSessions: vi.fn(),
+    findOccurrenceDates: vi.fn(),
+    findConflicts: vi.fn(),
+    deleteSessions: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/booking.js', () => ({
+  bookingRepository: { bookDirect: vi.fn() }
+}))
+
+vi.mock('../../repositories/schedules.js', () => ({
+  sessionRepository: { update: vi.fn(), cancelSession: vi.fn() }
+}))
+
+vi.mock('../../repositories/organizationSettings.js', () => ({
+  organizationSettingsRepository: {
+    findByOrganizationId: vi.fn(),
+    isLateCancellation: vi.fn()
+  }
+}))
+
+vi.mock('../businessHours.js', () => ({
+  findBusinessHoursViolation: vi.fn()
+}))
+
+vi.mock('../scheduler.js', () => ({
+  checkSessionRules: vi.fn()
+}))
+
+vi.mock('../waitlist.js', () => ({
+  offerCancelledSession: vi.fn()
+}))
+
+import {
+  createSeries,
+  materializeSeries,
+  updateSeries,
+  cancelSeries,
+  SeriesError,
+  SeriesConflictError
+} from '../series.js'
+import { seriesRepository, type AppointmentSeries } from '../../repositories/series.js'
+import { bookingRepository } from '../../repositories/booking.js'
+import { sessionRepository } from '../../repositories/schedules.js'
+import { organizationSettingsRepository } from '../../repositories/organizationSettings.js'
+import { offerCancelledSession } from '../waitlist.js'
+import type { Session } from '@prisma/client'
+
+const input = {
+  patientId: 'patient-1',
+  staffId: 'staff-1',
+  rrule: 'FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4',
+  startDate: '2026-03-02',
+  startTime: '15:00',
+  endTime: '16:00'
+}
+
+function series(fields: Partial<AppointmentSeries> = {}): AppointmentSeries {
+  return {
+    id: 'series-1',
+    organizationId: 'org-1',
+    patientId: 'patient-1',
+    staffId: 'staff-1',
+    roomId: null,
+    sessionSpecId: null,
+    rrule: 'FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4',
+    startDate: new Date('2026-03-02T00:00:00.000Z'),
+    startTime: '15:00',
+    endTime: '16:00',
+    notes: null,
+    status: 'active',
+    materializedThrough: null,
+    splitFromId: null,
+    createdByUserId: 'user-1',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...fields
+  }
+}
+
+function session(date: string, fields: Partial<Session> = {}): Session {
+  return {
+    id: `session-${date}`,
+    scheduleId: 'schedule-1',
+    therapistId: 'staff-1',
+    patientId: 'patient-1',
+    sessionSpecId: null,
+    roomId: null,
+    date: new Date(`${date}T00:00:00.000Z`),
+    startTime: '15:00',
+    endTime: '16:00',
+    status: 'scheduled',
+    seriesId: 'series-1',
+    seriesOccurrenceDate: new Date(`${date}T00:00:00.000Z`),
+    ...fields
+  } as Session
+}
+
+const cancellation = { cancelledById: 'user-1', reason: 'patient_request' as const }
+
+describe('Appointment series', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    // Monday morning, before the first occurrence
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-03-02T09:00:00.000Z'))
+
+    vi.mocked(organizationSettingsRepository.findByOrganizationId).mockResolvedValue({ timezone: 'UTC' } as never)
+    vi.mocked(organizationSettingsRepository.isLateCancellation).mockResolvedValue(false)
+    vi.mocked(seriesRepository.findConflicts).mockResolvedValue([])
+    vi.mocked(seriesRepository.findOccurrenceDates).mockResolvedValue(new Set())
+    vi.mocked(seriesRepository.create).mockImplementation(async (data) => series({ ...data, id: 'series-2' }))
+    vi.mocked(seriesRepository.update).mockImplementation(async (_id, data) => series(data as Partial<AppointmentSeries>))
+    vi.mocked(bookingRepository.bookDirect).mockResolvedValue({ success: true, sessionId: 'new-session' })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('createSeries', () => {
+    it('books every upcoming occurrence as a locked series session', async () => {
+      const result = await createSeries('org-1', input, { createdByUserId: 'user-1' })
+
+      expect(result.created).toBe(4)
+      expect(bookingRepository.bookDirect).toHaveBeenCalledWith(expect.objectContaining({
+        date: new Date('2026-03-04T00:00:00.000Z'),
+        startTime: '15:00',
+        locked: true,
+        seriesId: 'series-2',
+        seriesOccurrenceDate: new Date('2026-03-04T00:00:00.000Z')
+      }))
+      // COUNT=4 runs out inside the horizon
+      expect(seriesRepository.update).toHaveBeenCalledWith('series-2', expect.objectContaining({ status: 'ended' }))
+    })
+
+    it('rejects occurrences that clash with existing sessions', async () => {
+      const conflict = { sessionId: 'other', date: '2026-03-04', startTime: '15:30', endTime: '16:30', with: 'patient' as const }
+      vi.mocked(seriesRepository.findConflicts).mockResolvedValue([conflict])
+
+      await expect(createSeries('org-1', input)).rejects.toBeInstanceOf(SeriesConflictError)
+      expect(seriesRepository.create).not.toHaveBeenCalled()
+    })
+
+    it('skips clashing occurrences when conflicts are allowed', async () => {
+      const conflict = { sessionId: 'other', date: '2026-03-04', startTime: '15:30', endTime: '16:30', with: 'patient' as const }
+      vi.mocked(seriesRepository.findConflicts).mockResolvedValue([conflict])
+
+      const result = await createSeries('org-1', input, { allowConflicts: true })
+
+      expect(result.created).toBe(3)
+      expect(result.skipped).toEqual([{ date: '2026-03-04', reason: "Conflicts with the patient's session at 15:30" }])
+    })
+
+    it('rejects unsupported and finished rules', async () => {
+      await expect(createSeries('org-1', { ...input, rrule: 'FREQ=YEARLY' })).rejects.toBeInstanceOf(SeriesError)
+      await expect(createSeries('org-1', { ...input, rrule: 'FREQ=WEEKLY;UNTIL=20260101' }))
+        .rejects.toThrow('The series has no upcoming occurrences')
+    })
+  })
+
+  describe('materializeSeries', () => {
+    it('books occurrences after the covered range that have no session yet', async () => {
+      vi.mocked(seriesRepository.findOccurrenceDates).mockResolvedValue(new Set(['2026-03-11']))
+
+      const result = await materializeSeries(series({
+        rrule: 'FREQ=WEEKLY;BYDAY=MO,WE',
+        materializedThrough: new Date('2026-03-08T00:00:00.000Z')
+      }))
+
+      const dates = vi.mocked(bookingRepository.bookDirect).mock.calls.map(([call]) => call.date.toISOString().split('T')[0])
+      expect(dates[0]).toBe('2026-03-09')
+      expect(dates).not.toContain('2026-03-11')
+      expect(result.created).toBe(dates.length)
+    })
+
+    it('ends a series whose rule has run out', async () => {
+      await materializeSeries(series({ rrule: 'FREQ=WEEKLY;UNTIL=20260301' }))
+
+      expect(seriesRepository.update).toHaveBeenCalledWith('series-1', { status: 'ended' })
+      expect(bookingRepository.bookDirect).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('updateSeries', () => {
+    it('splits the series at the occurrence for "following"', async () => {
+      const open = [session('2026-03-09'), session('2026-03-11')]
+      vi.mocked(seriesRepository.findSessions).mockResolvedValue(open)
+
+      const result = await updateSeries('org-1', series(), open[0], 'following', { startTime: '16:00', endTime: '17:00' })
+
+      expect(seriesRepository.update).toHaveBeenCalledWith('series-1', {
+        rrule: 'FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20260308',
+        status: 'ended'
+      })
+      // Two of the four occurrences came before the split
+      expect(seriesRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        rrule: 'FREQ=WEEKLY;BYDAY=MO,WE;COUNT=2',
+        startDate: new Date('2026-03-09T00:00:00.000Z'),
+        startTime: '16:00',
+        splitFromId: 'series-1'
+      }))
+      expect(seriesRepository.deleteSessions).toHaveBeenCalledWith(['session-2026-03-09', 'session-2026-03-11'])
+      expect(result.series.id).toBe('series-2')
+    })
+
+    it('rejects a session from another series', async () => {
+      await expect(updateSeries('org-1', series(), session('2026-03-09', { seriesId: 'series-9' }), 'all', {}))
+        .rejects.toThrow('Session is not an occurrence of this series')
+    })
+  })
+
+  describe('cancelSeries', () => {
+    it('cancels one occurrence and offers its slot to the waitlist', async () => {
+      const occurrence = session('2026-03-04')
+      vi.mocked(sessionRepository.cancelSession).mockResolvedValue({ ...occurrence, status: 'cancelled' })
+
+      const cancelled = await cancelSeries('org-1', series(), occurrence, 'this', cancellation)
+
+      expect(cancelled).toBe(1)
+      expect(seriesRepository.update).not.toHaveBeenCalled()
+      expect(offerCancelledSession).toHaveBeenCalledWith('org-1', expect.objectContaining({ id: 'session-2026-03-04' }))
+    })
+
+    it('cancels the whole series and its open sessions', async () => {
+      const occurrences = [session('2026-03-02', { status: 'completed' }), session('2026-03-04')]
+      vi.mocked(seriesRepository.findSessions).mockResolvedValue(occurrences)
+      vi.mocked(sessionRepository.cancelSession).mockImplementation(async (id) => ({ ...occurrences[1], id, status: 'cancelled' }))
+
+      const cancelled = await cancelSeries('org-1', series(), occurrences[1], 'all', cancellation)
+
+      expect(cancelled).toBe(1)
+      expect(seriesRepository.update).toHaveBeenCalledWith('series-1', { status: 'cancelled' })
+      expect(sessionRepository.cancelSession).toHaveBeenCalledTimes(1)
+    })
+  })
+})
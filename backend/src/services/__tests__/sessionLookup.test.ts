@@ -1,11 +1,23 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi } from 'vitest'
+
+vi.mock('../../db/index.js', () => ({
+  prisma: {
+    session: {
+      findMany: vi.fn()
+    }
+  }
+}))
+
+import { prisma } from '../../db/index.js'
 import {
   DAYS_OF_WEEK,
   getDayOfWeekFromDate,
   normalizeName,
   fuzzyNameMatch,
   calculateNewEndTime,
-  getDateForDayOfWeek
+  getDateForDayOfWeek,
+  sessionPatients,
+  checkForConflicts
 } from '../sessionLookup.js'
 
 describe('SessionLookup Helper Functions', () => {
@@ -211,4 +223,55 @@ describe('SessionLookup Helper Functions', () => {
       expect(result.getDate()).toBe(5)
     })
   })
+
+  describe('sessionPatients', () => {
+    it('returns the session\'s patient for a 1:1 session', () => {
+      expect(sessionPatients({ patientId: 'p1', sessionSpecId: 's1' })).toEqual([{ patientId: 'p1', sessionSpecId: 's1' }])
+    })
+
+    it('returns every participant of a group session', () => {
+      const participants = [{ patientId: 'p1', sessionSpecId: 's1' }, { patientId: 'p2', sessionSpecId: 's2' }]
+      expect(sessionPatients({ patientId: 'p1', sessionSpecId: 's1', participants })).toEqual(participants)
+    })
+  })
+})
+
+describe('checkForConflicts', () => {
+  const group = {
+    id: 'group-1',
+    therapistId: 't1',
+    patientId: 'p1',
+    date: new Date('2025-01-06T00:00:00Z'),
+    startTime: '10:00',
+    endTime: '11:00',
+    therapist: { name: 'Sarah Johnson' },
+    patient: { name: 'Emily Carter' },
+    participants: [
+      { patientId: 'p1', status: 'scheduled' },
+      { patientId: 'p2', status: 'scheduled' },
+      { patientId: 'p3', status: 'cancelled' }
+    ],
+    staffAssignments: [{ staffId: 't2', role: 'supervisor' }]
+  }
+  const slot = { scheduleId: 'schedule-1', date: new Date('2025-01-06T00:00:00Z'), startTime: '10:30', endTime: '11:30' }
+
+  it('finds a conflict for any patient enrolled in a group session', async () => {
+    vi.mocked(prisma.session.findMany).mockResolvedValue([group] as never)
+
+    expect(await checkForConflicts({ ...slot, patientId: 'p2' })).toHaveLength(1)
+  })
+
+  it('ignores participants who cancelled', async () => {
+    vi.mocked(prisma.session.findMany).mockResolvedValue([group] as never)
+
+    expect(await checkForConflicts({ ...slot, patientId: 'p3' })).toHaveLength(0)
+    expect(await checkForConflicts({ ...slot, patientId: 'p4' })).toHaveLength(0)
+  })
+
+  it('treats a session\'s supervisors and co-treaters as busy', async () => {
+    vi.mocked(prisma.session.findMany).mockResolvedValue([group] as never)
+
+    expect(await checkForConflicts({ ...slot, therapistId: 't2' })).toHaveLength(1)
+    expect(await checkForConflicts({ ...slot, therapistId: 't3' })).toHaveLength(0)
+  })
 })
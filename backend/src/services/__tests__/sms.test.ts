@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../../repositories/organizationSettings.js', () => ({
+  organizationSettingsRepository: {
+    findByOrganizationId: vi.fn(),
+    findOrganizationIdsBySmsSender: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/patientContacts.js', () => ({
+  patientContactRepository: {
+    findByPhoneSuffix: vi.fn(),
+    setSmsOptIn: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/audit.js', () => ({
+  logAudit: vi.fn()
+}))
+
+vi.mock('../notifications.js', () => ({
+  queueNotification: vi.fn()
+}))
+
+import { handleInboundSms, optInKeyword, sendSms } from '../sms.js'
+import { organizationSettingsRepository } from '../../repositories/organizationSettings.js'
+import { patientContactRepository } from '../../repositories/patientContacts.js'
+import { logAudit } from '../../repositories/audit.js'
+import { queueNotification } from '../notifications.js'
+
+function contact(id: string, phone: string, smsOptIn: boolean) {
+  return { id, phone, smsOptIn }
+}
+
+describe('SMS service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  describe('sendSms', () => {
+    it('queues the number in E.164 with the organization country code', async () => {
+      vi.mocked(organizationSettingsRepository.findByOrganizationId).mockResolvedValue({ smsCountryCode: '44' } as never)
+      vi.mocked(queueNotification).mockResolvedValue({ status: 'sent' } as never)
+
+      expect(await sendSms('07700 900123', 'See you tomorrow', { organizationId: 'org-1', kind: 'session_reminder' })).toBe(true)
+      expect(queueNotification).toHaveBeenCalledWith(expect.objectContaining({
+        channel: 'sms',
+        recipients: ['+447700900123']
+      }), { tx: undefined })
+    })
+
+    it('does not queue an invalid number', async () => {
+      expect(await sendSms('12345', 'Your code', { kind: 'portal_login_code' })).toBe(false)
+      expect(queueNotification).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('optInKeyword', () => {
+    it('recognizes opt-out and opt-in keywords', () => {
+      expect(optInKeyword(' stop ')).toBe(false)
+      expect(optInKeyword('Unsubscribe please')).toBe(false)
+      expect(optInKeyword('START')).toBe(true)
+      expect(optInKeyword('See you then')).toBeNull()
+    })
+  })
+
+  describe('handleInboundSms', () => {
+    beforeEach(() => {
+      vi.mocked(organizationSettingsRepository.findByOrganizationId).mockResolvedValue({ smsCountryCode: '1' } as never)
+    })
+
+    it('opts out the contacts with the sender number', async () => {
+      vi.mocked(organizationSettingsRepository.findOrganizationIdsBySmsSender).mockResolvedValue(['org-1'])
+      vi.mocked(patientContactRepository.findByPhoneSuffix).mockResolvedValue([
+        contact('contact-1', '(555) 555-0100', true),
+        contact('contact-2', '555-444-0100', true),
+        contact('contact-3', '5555550100', false)
+      ])
+
+      expect(await handleInboundSms('+15555550100', '+1 (555) 555-0199', 'STOP')).toBe(1)
+
+      expect(organizationSettingsRepository.findOrganizationIdsBySmsSender).toHaveBeenCalledWith('+15555550199')
+      expect(patientContactRepository.findByPhoneSuffix).toHaveBeenCalledWith('0100', 'org-1')
+      expect(patientContactRepository.setSmsOptIn).toHaveBeenCalledWith(['contact-1'], false)
+      expect(logAudit).toHaveBeenCalledWith(null, 'sms_opt_out', 'patient_contact', 'contact-1', 'org-1', { keyword: 'STOP' })
+    })
+
+    it('reads stored numbers with the organization country code', async () => {
+      vi.mocked(organizationSettingsRepository.findOrganizationIdsBySmsSender).mockResolvedValue(['org-2'])
+      vi.mocked(organizationSettingsRepository.findByOrganizationId).mockResolvedValue({ smsCountryCode: '44' } as never)
+      vi.mocked(patientContactRepository.findByPhoneSuffix).mockResolvedValue([
+        contact('contact-1', '07700 900123', false)
+      ])
+
+      expect(await handleInboundSms('+447700900123', '+447700900199', 'start')).toBe(1)
+
+      expect(patientContactRepository.setSmsOptIn).toHaveBeenCalledWith(['contact-1'], true)
+    })
+
+    it('ignores replies to a number no organization sends from', async () => {
+      vi.mocked(organizationSettingsRepository.findOrganizationIdsBySmsSender).mockResolvedValue([])
+
+      expect(await handleInboundSms('+15555550100', '+15555550199', 'STOP')).toBe(0)
+      expect(patientContactRepository.findByPhoneSuffix).not.toHaveBeenCalled()
+    })
+
+    it('ignores replies to a number shared by several organizations', async () => {
+      vi.mocked(organizationSettingsRepository.findOrganizationIdsBySmsSender).mockResolvedValue(['org-1', 'org-2'])
+
+      expect(await handleInboundSms('+15555550100', '+15555550199', 'STOP')).toBe(0)
+      expect(patientContactRepository.findByPhoneSuffix).not.toHaveBeenCalled()
+    })
+
+    it('ignores replies without the number they were sent to', async () => {
+      expect(await handleInboundSms('+15555550100', undefined, 'STOP')).toBe(0)
+      expect(organizationSettingsRepository.findOrganizationIdsBySmsSender).not.toHaveBeenCalled()
+    })
+
+    it('ignores other replies', async () => {
+      expect(await handleInboundSms('+15555550100', '+15555550199', 'Running late')).toBe(0)
+      expect(patientContactRepository.findByPhoneSuffix).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+vi.mock('../../repositories/organizationSettings.js', () => ({
+  organizationSettingsRepository: {
+    findByOrganizationId: vi.fn()
+  }
+}))
+
+import {
+  deliverSms,
+  getConfiguredProvider,
+  getLogProvider,
+  getSmsProvider
+} from '../smsProvider/index.js'
+import { SnsSmsProvider } from '../smsProvider/providers/sns.js'
+import { HttpGatewaySmsProvider, parseGatewayEvents } from '../smsProvider/providers/httpGateway.js'
+import { organizationSettingsRepository } from '../../repositories/organizationSettings.js'
+
+describe('SMS providers', () => {
+  const env = { ...process.env }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    getLogProvider().clear()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    process.env = { ...env }
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  describe('getConfiguredProvider', () => {
+    it('logs texts when AWS is not configured outside production', () => {
+      delete process.env.SMS_PROVIDER
+      delete process.env.AWS_ACCESS_KEY_ID
+      process.env.NODE_ENV = 'test'
+      expect(getConfiguredProvider()).toBe('log')
+    })
+
+    it('uses SNS when AWS is configured', () => {
+      delete process.env.SMS_PROVIDER
+      process.env.AWS_REGION = 'us-east-1'
+      process.env.AWS_ACCESS_KEY_ID = 'AKIA'
+      expect(getConfiguredProvider()).toBe('sns')
+      expect(getSmsProvider()).toBeInstanceOf(SnsSmsProvider)
+    })
+
+    it('reads SMS_PROVIDER', () => {
+      process.env.SMS_PROVIDER = 'HTTP'
+      expect(getConfiguredProvider()).toBe('http')
+    })
+
+    it('rejects an unknown provider', () => {
+      process.env.SMS_PROVIDER = 'fax'
+      expect(() => getConfiguredProvider()).toThrow('Unknown SMS provider: fax')
+    })
+  })
+
+  describe('deliverSms', () => {
+    it('sends from the organization sender', async () => {
+      process.env.SMS_PROVIDER = 'log'
+      vi.mocked(organizationSettingsRepository.findByOrganizationId).mockResolvedValue({
+        smsSenderId: '+15555550199'
+      } as never)
+
+      const messageId = await deliverSms('+15555550100', 'See you tomorrow', 'org-1')
+
+      const [sent] = getLogProvider().outbox
+      expect(sent.messageId).toBe(messageId)
+      expect(sent).toMatchObject({ to: '+15555550100', from: '+15555550199', body: 'See you tomorrow' })
+    })
+
+    it('sends from the default sender without an organization', async () => {
+      process.env.SMS_PROVIDER = 'log'
+
+      await deliverSms('+15555550100', 'Your code is 123456')
+
+      expect(getLogProvider().outbox[0].from).toBeNull()
+      expect(organizationSettingsRepository.findByOrganizationId).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('HTTP gateway', () => {
+    it('requires SMS_GATEWAY_URL', () => {
+      delete process.env.SMS_GATEWAY_URL
+      expect(() => new HttpGatewaySmsProvider()).toThrow('SMS_GATEWAY_URL is required')
+    })
+
+    it('posts the message with the bearer token', async () => {
+      process.env.SMS_GATEWAY_URL = 'https://sms.example.com/messages'
+      process.env.SMS_GATEWAY_TOKEN = 'secret'
+      const fetch = vi.fn().mockResolvedValue(new Response(JSON.stringify({ id: 42 }), { status: 201 }))
+      vi.stubGlobal('fetch', fetch)
+
+      const messageId = await new HttpGatewaySmsProvider().send({ to: '+15555550100', body: 'Hello' })
+
+      expect(messageId).toBe('42')
+      expect(fetch).toHaveBeenCalledWith('https://sms.example.com/messages', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer secret' },
+        body: JSON.stringify({ to: '+15555550100', body: 'Hello' })
+      })
+    })
+
+    it('throws when the gateway rejects the message', async () => {
+      process.env.SMS_GATEWAY_URL = 'https://sms.example.com/messages'
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('invalid number', { status: 422 })))
+
+      await expect(new HttpGatewaySmsProvider().send({ to: '+1', body: 'Hello' }))
+        .rejects.toThrow('SMS gateway returned 422: invalid number')
+    })
+
+    it('reads receipts and replies, skipping anything else', () => {
+      expect(parseGatewayEvents([
+        { type: 'receipt', messageId: 'm-1', status: 'delivered' },
+        { type: 'receipt', messageId: 'm-2', status: 'failed', error: 'Unreachable' },
+        { type: 'inbound', from: '+15555550100', to: '+15555550199', body: 'STOP' },
+        { type: 'unknown' }
+      ])).toEqual([
+        { type: 'receipt', messageId: 'm-1', delivered: true, reason: undefined },
+        { type: 'receipt', messageId: 'm-2', delivered: false, reason: 'Unreachable' },
+        { type: 'inbound', from: '+15555550100', to: '+15555550199', body: 'STOP' }
+      ])
+    })
+  })
+
+  describe('SNS events', () => {
+    const provider = new SnsSmsProvider()
+    const notification = (message: object) => ({ Type: 'Notification', Message: JSON.stringify(message) })
+
+    it('reads a two-way SMS reply', () => {
+      expect(provider.parseEvents(notification({
+        originationNumber: '+15555550100',
+        destinationNumber: '+15555550199',
+        messageBody: 'Stop'
+      }))).toEqual([{ type: 'inbound', from: '+15555550100', to: '+15555550199', body: 'Stop' }])
+    })
+
+    it('reads final delivery statuses and ignores the rest', () => {
+      expect(provider.parseEvents(notification({ messageId: 'm-1', messageStatus: 'DELIVERED' })))
+        .toEqual([{ type: 'receipt', messageId: 'm-1', delivered: true }])
+      expect(provider.parseEvents(notification({
+        messageId: 'm-2',
+        messageStatus: 'CARRIER_UNREACHABLE',
+        messageStatusDescription: 'Phone is switched off'
+      }))).toEqual([{ type: 'receipt', messageId: 'm-2', delivered: false, reason: 'Phone is switched off' }])
+      expect(provider.parseEvents(notification({ messageId: 'm-3', messageStatus: 'PENDING' }))).toEqual([])
+    })
+
+    it('ignores anything but notifications', () => {
+      expect(provider.parseEvents({ Type: 'SubscriptionConfirmation' })).toEqual([])
+      expect(provider.parseEvents({ Type: 'Notification', Message: 'not json' })).toEqual([])
+    })
+  })
+})
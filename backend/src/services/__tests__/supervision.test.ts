@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { supervisionRequirements, supervisionReport, assignSupervision } from '../supervision.js'
+import type { StaffForScheduling, RuleForScheduling } from '../aiProvider.js'
+
+const weekdays = {
+  monday: { start: '08:00', end: '17:00' },
+  tuesday: { start: '08:00', end: '17:00' },
+  wednesday: { start: '08:00', end: '17:00' }
+}
+
+const staff: StaffForScheduling[] = [
+  { id: 'rbt-1', name: 'Riley Brooks', gender: 'female', certifications: ['RBT'], defaultHours: weekdays },
+  { id: 'bcba-1', name: 'Dana Whitfield', gender: 'female', certifications: ['BCBA'], defaultHours: weekdays },
+  { id: 'bcba-2', name: 'Marcus Lee', gender: 'male', certifications: ['BCBA'], defaultHours: { monday: weekdays.monday } }
+]
+
+const ratio: RuleForScheduling = {
+  id: 'rule-1',
+  category: 'supervision',
+  description: '10% of RBT hours supervised by a BCBA',
+  ruleLogic: { type: 'supervision_ratio', supervisedCertification: 'RBT', supervisorCertification: 'BCBA', minimumPercent: 10 },
+  priority: 1
+}
+
+function rbtSession(date: string, startTime: string, endTime: string) {
+  return { therapistId: 'rbt-1', date, startTime, endTime } as {
+    therapistId: string
+    date: string
+    startTime: string
+    endTime: string
+    staffAssignments?: { staffId: string; role: 'supervisor' | 'co_treater' }[]
+  }
+}
+
+describe('supervisionRequirements', () => {
+  it('skips supervision rules missing part of the ratio', () => {
+    const partial = { ...ratio, id: 'rule-2', ruleLogic: { type: 'supervision_ratio', supervisedCertification: 'RBT' } }
+
+    expect(supervisionRequirements([ratio, partial]).map(r => r.ruleId)).toEqual(['rule-1'])
+  })
+})
+
+describe('supervisionReport', () => {
+  it('totals each supervised therapist\'s minutes per week', () => {
+    const sessions = [
+      { ...rbtSession('2025-01-06', '09:00', '12:00'), staffAssignments: [{ staffId: 'bcba-1', role: 'supervisor' as const }] },
+      rbtSession('2025-01-07', '09:00', '16:00'),
+      // A co-treater isn't a supervisor
+      { ...rbtSession('2025-01-13', '09:00', '10:00'), staffAssignments: [{ staffId: 'bcba-1', role: 'co_treater' as const }] }
+    ]
+
+    expect(supervisionReport(sessions, staff, [ratio])).toEqual([
+      expect.objectContaining({
+        staffId: 'rbt-1',
+        weekStartDate: '2025-01-06',
+        directMinutes: 600,
+        supervisedMinutes: 180,
+        requiredMinutes: 60,
+        met: true
+      }),
+      expect.objectContaining({
+        weekStartDate: '2025-01-13',
+        directMinutes: 60,
+        supervisedMinutes: 0,
+        requiredMinutes: 6,
+        met: false
+      })
+    ])
+  })
+})
+
+describe('assignSupervision', () => {
+  it('adds supervisors until the ratio is met, spreading the load', () => {
+    const sessions = [
+      rbtSession('2025-01-06', '09:00', '10:00'),
+      rbtSession('2025-01-06', '10:00', '11:00'),
+      rbtSession('2025-01-06', '11:00', '15:00'),
+      rbtSession('2025-01-07', '09:00', '17:00')
+    ]
+
+    const { warnings } = assignSupervision(sessions, staff, [ratio])
+
+    // 14 hours direct: 84 minutes of supervision take two one-hour sessions
+    expect(sessions.map(s => s.staffAssignments)).toEqual([
+      [{ staffId: 'bcba-1', role: 'supervisor' }],
+      [{ staffId: 'bcba-2', role: 'supervisor' }],
+      undefined,
+      undefined
+    ])
+    expect(warnings).toEqual([])
+  })
+
+  it('only uses supervisors who are working and free, and warns when short', () => {
+    const sessions = [rbtSession('2025-01-07', '09:00', '11:00')]
+    const booked = [{ therapistId: 'bcba-1', date: '2025-01-07', startTime: '08:00', endTime: '12:00' }]
+
+    const { warnings } = assignSupervision(sessions, staff, [ratio], new Map(), booked)
+
+    expect(sessions[0].staffAssignments).toBeUndefined()
+    expect(warnings).toEqual([
+      'Riley Brooks has 0 of the 12 minutes of BCBA supervision required by "10% of RBT hours supervised by a BCBA" for the week of 2025-01-06.'
+    ])
+  })
+
+  it('leaves sessions alone without supervision rules', () => {
+    const sessions = [rbtSession('2025-01-06', '09:00', '10:00')]
+
+    expect(assignSupervision(sessions, staff, []).warnings).toEqual([])
+    expect(sessions[0].staffAssignments).toBeUndefined()
+  })
+})
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest'
+import { explainUnmetDemand, type UnmetDemandInput } from '../unmetDemand.js'
+import type { PatientForScheduling } from '../aiProvider.js'
+
+const weekStartDate = new Date('2025-01-06T00:00:00Z') // Monday
+
+function spec(overrides: Partial<PatientForScheduling['sessionSpecs'][number]> = {}) {
+  return {
+    id: 'spec-1',
+    name: 'Core Therapy',
+    sessionsPerWeek: 2,
+    durationMinutes: 60,
+    requiredCertifications: ['ABA'],
+    preferredTimes: [],
+    requiredRoomCapabilities: [],
+    ...overrides
+  }
+}
+
+// One therapist, working Monday 09:00-13:00: four one-hour slots
+function input(overrides: Partial<UnmetDemandInput> = {}): UnmetDemandInput {
+  return {
+    weekStartDate,
+    staff: [{
+      id: 'staff-1',
+      name: 'Sarah Johnson',
+      gender: 'female',
+      certifications: ['ABA'],
+      defaultHours: { monday: { start: '09:00', end: '13:00' } }
+    }],
+    patients: [
+      { id: 'patient-1', identifier: null, name: 'Emily Carter', gender: 'female', sessionSpecs: [spec()] },
+      { id: 'patient-2', identifier: null, name: 'Michael Brown', gender: 'male', sessionSpecs: [spec({ id: 'spec-2', sessionsPerWeek: 1 })] }
+    ],
+    rooms: [],
+    rules: [],
+    sessions: [],
+    slotIntervalMinutes: 60,
+    ...overrides
+  }
+}
+
+function session(patientId: string, sessionSpecId: string, startTime: string, endTime: string) {
+  return { therapistId: 'staff-1', patientId, sessionSpecId, date: '2025-01-06', startTime, endTime }
+}
+
+describe('explainUnmetDemand', () => {
+  it('puts each slot down to the first constraint it fails', () => {
+    const base = input()
+    const report = explainUnmetDemand({
+      ...base,
+      patients: [{ ...base.patients[0], availability: { weekly: { monday: { start: '10:00', end: '13:00' } } } }, base.patients[1]],
+      sessions: [
+        session('patient-1', 'spec-1', '10:00', '11:00'),
+        session('patient-2', 'spec-2', '11:00', '12:00')
+      ]
+    })
+
+    expect(report).toEqual({
+      requestedSessions: 3,
+      scheduledSessions: 2,
+      missingSessions: 1,
+      specs: [{
+        patientId: 'patient-1',
+        patientName: 'Emily Carter',
+        sessionSpecId: 'spec-1',
+        sessionSpecName: 'Core Therapy',
+        requested: 2,
+        scheduled: 1,
+        missing: 1,
+        slotsChecked: 4,
+        constraints: [
+          { reason: 'patient_unavailable', message: 'Emily Carter isn\'t available', slots: 1 },
+          { reason: 'patient_booked', message: 'Emily Carter already has another session', slots: 1 },
+          { reason: 'no_therapist_free', message: 'No therapist with ABA is working and free', slots: 1 },
+          { reason: 'open_slots', message: 'Open, but left unused to fit other sessions', slots: 1 }
+        ],
+        suggestions: [
+          'Widen Emily Carter\'s availability',
+          'Move or shorten Emily Carter\'s other sessions',
+          'Add working hours for therapists with ABA, or hire another one',
+          'Regenerate the schedule, or add the session by hand in one of the open slots'
+        ]
+      }]
+    })
+  })
+
+  it('orders constraints by the slots they rule out', () => {
+    const report = explainUnmetDemand(input({
+      sessions: [session('patient-2', 'spec-2', '09:00', '11:00')],
+      closures: [{ date: '2025-01-06', name: 'Staff meeting', startTime: '11:00', endTime: '12:00' }]
+    }))
+
+    expect(report.specs[0].constraints.map(c => [c.reason, c.slots])).toEqual([
+      ['no_therapist_free', 2],
+      ['clinic_closed', 1],
+      ['open_slots', 1]
+    ])
+  })
+
+  it('names the hard rules every free therapist breaks', () => {
+    const report = explainUnmetDemand(input({
+      rules: [{
+        id: 'rule-1',
+        category: 'gender_pairing',
+        description: 'Michael sees male therapists',
+        ruleLogic: { patientGender: 'male', preferredTherapistGender: 'male', priority: 'required' },
+        priority: 1
+      }],
+      sessions: [session('patient-1', 'spec-1', '09:00', '10:00'), session('patient-1', 'spec-1', '10:00', '11:00')]
+    }))
+
+    expect(report.specs).toHaveLength(1)
+    expect(report.specs[0].constraints).toEqual([
+      { reason: 'no_therapist_free', message: 'No therapist with ABA is working and free', slots: 2 },
+      { reason: 'rule_conflict', message: 'Breaks a scheduling rule: "Michael sees male therapists"', slots: 2 }
+    ])
+    expect(report.specs[0].suggestions).toContain('Relax or deactivate the rule "Michael sees male therapists"')
+  })
+
+  it('suggests fewer sessions per week when no slot is left', () => {
+    const report = explainUnmetDemand(input({
+      patients: [{ id: 'patient-1', identifier: null, name: 'Emily Carter', gender: 'female', sessionSpecs: [spec({ sessionsPerWeek: 5 })] }],
+      sessions: [
+        session('patient-1', 'spec-1', '09:00', '11:00'),
+        session('patient-1', 'spec-1', '11:00', '12:00'),
+        session('patient-1', 'spec-1', '12:00', '13:00')
+      ]
+    }))
+
+    expect(report.specs[0].constraints).toEqual([
+      { reason: 'patient_booked', message: 'Emily Carter already has another session', slots: 4 }
+    ])
+    expect(report.specs[0].suggestions).toEqual([
+      'Move or shorten Emily Carter\'s other sessions',
+      'Lower "Core Therapy" to 3 session(s) per week'
+    ])
+  })
+
+  it('rules out the whole spec when no therapist has its certifications', () => {
+    const report = explainUnmetDemand(input({
+      patients: [{ id: 'patient-1', identifier: null, name: 'Emily Carter', gender: 'female', sessionSpecs: [spec({ requiredCertifications: ['SLP'] })] }]
+    }))
+
+    expect(report.specs[0]).toEqual(expect.objectContaining({
+      missing: 2,
+      slotsChecked: 0,
+      constraints: [{
+        reason: 'no_certified_therapist',
+        message: 'No active therapist has the required certifications (SLP)',
+        slots: 0
+      }],
+      suggestions: ['Certify or hire a therapist with SLP, or change the certifications "Core Therapy" requires']
+    }))
+  })
+
+  it('checks rooms with the required capabilities', () => {
+    const sensory = [spec({ requiredRoomCapabilities: ['sensory'] })]
+    const patients = [{ id: 'patient-1', identifier: null, name: 'Emily Carter', gender: 'female' as const, sessionSpecs: sensory }]
+
+    expect(explainUnmetDemand(input({ patients })).specs[0].constraints[0].reason).toBe('no_capable_room')
+
+    const report = explainUnmetDemand(input({
+      patients,
+      rooms: [{ id: 'room-1', name: 'Sensory Room', capabilities: ['sensory'] }],
+      // Another therapist's sessions hold the room all morning
+      sessions: [{ ...session('patient-2', 'spec-2', '09:00', '13:00'), therapistId: 'staff-2', roomId: 'room-1' }]
+    }))
+    expect(report.specs[0].constraints).toEqual([
+      { reason: 'no_room_free', message: 'Every room with sensory is booked', slots: 4 }
+    ])
+  })
+})
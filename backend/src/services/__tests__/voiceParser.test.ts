@@ -268,6 +268,28 @@ describe('VoiceParser Service', () => {
       expect(result.warnings).toEqual([])
     })
 
+    it('drops rule logic keys outside the rule schema catalog', async () => {
+      vi.mocked(chatCompletion).mockResolvedValue(JSON.stringify({
+        commandType: 'create_rules',
+        rules: [{
+          category: 'availability',
+          description: 'Debbie only works Wednesdays',
+          priority: 5,
+          ruleLogic: { availableDays: 'Wednesday', mood: 'happy' },
+          confidence: 0.9,
+          warnings: []
+        }],
+        overallConfidence: 0.9,
+        globalWarnings: []
+      }))
+
+      const result = await parseMultipleRulesCommand('Debbie only works Wednesdays')
+
+      expect(result.rules[0].ruleLogic).toEqual({ availableDays: ['wednesday'] })
+      expect(result.rules[0].warnings).toHaveLength(1)
+      expect(result.rules[0].warnings[0]).toContain('mood')
+    })
+
     it('throws error on AI failure', async () => {
       vi.mocked(chatCompletion).mockRejectedValue(new Error('API timeout'))
 
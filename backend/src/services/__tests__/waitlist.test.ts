@@ -0,0 +1,329 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+vi.mock('../../repositories/waitlist.js', () => ({
+  waitlistRepository: {
+    findWaiting: vi.fn(),
+    findOfferedEntryIds: vi.fn(),
+    findPortalContact: vi.fn(),
+    createOffer: vi.fn(),
+    setStatus: vi.fn(),
+    findOffer: vi.fn(),
+    updateOffer: vi.fn(),
+    findExpiredOffers: vi.fn()
+  }
+}))
+
+// Offers are saved and their email queued in a transaction with this client
+const mockTx = { name: 'tx' }
+vi.mock('../../repositories/base.js', () => ({
+  prisma: { $transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn(mockTx)) }
+}))
+
+vi.mock('../../repositories/booking.js', () => ({
+  bookingRepository: {
+    createHold: vi.fn(),
+    bookFromHold: vi.fn(),
+    releaseHold: vi.fn()
+  }
+}))
+
+vi.mock('../../repositories/staff.js', () => ({
+  staffRepository: { findById: vi.fn() }
+}))
+
+vi.mock('../../repositories/patients.js', () => ({
+  patientRepository: { findByIdWithSessionSpecs: vi.fn() }
+}))
+
+vi.mock('../../repositories/organizations.js', () => ({
+  organizationRepository: { findById: vi.fn() }
+}))
+
+vi.mock('../../repositories/organizationSettings.js', () => ({
+  organizationSettingsRepository: { findByOrganizationId: vi.fn() }
+}))
+
+vi.mock('../../repositories/audit.js', () => ({
+  auditRepository: { log: vi.fn() }
+}))
+
+vi.mock('../availability.js', () => ({
+  availabilityService: { getAvailableSlots: vi.fn() }
+}))
+
+vi.mock('../email.js', () => ({
+  sendWaitlistOffer: vi.fn()
+}))
+
+import {
+  entryMatchesSlot,
+  offerFreedSlot,
+  claimOffer,
+  declineOffer,
+  advanceExpiredOffers,
+  OFFER_HOLD_MINUTES
+} from '../waitlist.js'
+import { waitlistRepository, type WaitlistEntryWithDetails } from '../../repositories/waitlist.js'
+import { bookingRepository } from '../../repositories/booking.js'
+import { staffRepository } from '../../repositories/staff.js'
+import { organizationRepository } from '../../repositories/organizations.js'
+import { organizationSettingsRepository } from '../../repositories/organizationSettings.js'
+import { availabilityService } from '../availability.js'
+import { sendWaitlistOffer } from '../email.js'
+
+function entry(fields: Partial<WaitlistEntryWithDetails> = {}): WaitlistEntryWithDetails {
+  return {
+    id: 'entry-1',
+    organizationId: 'org-1',
+    patientId: 'patient-1',
+    sessionSpecId: null,
+    days: [],
+    earliestTime: null,
+    latestTime: null,
+    staffId: null,
+    requiredCertifications: [],
+    durationMinutes: null,
+    priority: 0,
+    notes: null,
+    status: 'waiting',
+    createdByUserId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    patient: { id: 'patient-1', name: 'Emily Carter' },
+    sessionSpec: null,
+    staff: null,
+    offers: [],
+    ...fields
+  }
+}
+
+// Monday 10:00-11:00 with Sarah
+const mondaySlot = { dayOfWeek: 'monday', startTime: '10:00', endTime: '11:00', staffId: 'staff-1' }
+
+// Next January, so the slot hasn't started yet
+const slotDate = new Date(Date.UTC(new Date().getUTCFullYear() + 1, 0, 6))
+
+const freedSlot = {
+  organizationId: 'org-1',
+  staffId: 'staff-1',
+  roomId: null,
+  date: slotDate,
+  startTime: '10:00',
+  endTime: '11:00',
+  sourceSessionId: 'session-1'
+}
+
+const contact = { id: 'contact-1', name: 'Anna Carter', email: 'anna@example.com', emailOptIn: true }
+
+describe('entryMatchesSlot', () => {
+  it('matches any slot when the entry has no constraints', () => {
+    expect(entryMatchesSlot(entry(), mondaySlot, [])).toBe(true)
+  })
+
+  it('checks days, window and therapist', () => {
+    expect(entryMatchesSlot(entry({ days: ['tuesday'] }), mondaySlot, [])).toBe(false)
+    expect(entryMatchesSlot(entry({ earliestTime: '10:30' }), mondaySlot, [])).toBe(false)
+    expect(entryMatchesSlot(entry({ latestTime: '10:45' }), mondaySlot, [])).toBe(false)
+    expect(entryMatchesSlot(entry({ staffId: 'staff-2' }), mondaySlot, [])).toBe(false)
+    expect(entryMatchesSlot(entry({ days: ['monday'], earliestTime: '09:00', latestTime: '12:00', staffId: 'staff-1' }), mondaySlot, [])).toBe(true)
+  })
+
+  it('fits a shorter session inside the window', () => {
+    expect(entryMatchesSlot(entry({ durationMinutes: 30, earliestTime: '10:30' }), mondaySlot, [])).toBe(true)
+    expect(entryMatchesSlot(entry({ durationMinutes: 90 }), mondaySlot, [])).toBe(false)
+  })
+
+  it('needs the entry\'s and the session spec\'s certifications', () => {
+    const withSpec = entry({
+      requiredCertifications: ['BCBA'],
+      sessionSpec: { id: 'spec-1', name: 'Assessment', durationMinutes: 60, requiredCertifications: ['ABA'] }
+    })
+    expect(entryMatchesSlot(withSpec, mondaySlot, ['ABA'])).toBe(false)
+    expect(entryMatchesSlot(withSpec, mondaySlot, ['ABA', 'BCBA'])).toBe(true)
+  })
+})
+
+describe('offerFreedSlot', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(organizationSettingsRepository.findByOrganizationId).mockResolvedValue({ timezone: 'UTC' } as never)
+    vi.mocked(staffRepository.findById).mockResolvedValue({ id: 'staff-1', name: 'Sarah Johnson', status: 'active', certifications: ['ABA'] } as never)
+    vi.mocked(organizationRepository.findById).mockResolvedValue({ id: 'org-1', name: 'Sunrise Therapy', subdomain: 'sunrise' } as never)
+    vi.mocked(waitlistRepository.findOfferedEntryIds).mockResolvedValue([])
+    vi.mocked(waitlistRepository.findPortalContact).mockResolvedValue(contact as never)
+    vi.mocked(bookingRepository.createHold).mockResolvedValue({
+      success: true,
+      hold: { id: 'hold-1', expiresAt: new Date('2030-01-01T00:00:00Z') } as never
+    })
+    vi.mocked(waitlistRepository.createOffer).mockImplementation(async (data) => ({ id: 'offer-1', ...data }) as never)
+  })
+
+  it('holds the slot for the first entry the patient is free for and emails their contact', async () => {
+    vi.mocked(waitlistRepository.findWaiting).mockResolvedValue([
+      entry({ id: 'entry-busy', patientId: 'patient-busy' }),
+      entry({ id: 'entry-1' })
+    ])
+    vi.mocked(availabilityService.getAvailableSlots).mockImplementation(async (query) => ({
+      slots: query.patientId === 'patient-busy'
+        ? []
+        : [{ date: slotDate.toISOString().split('T')[0], startTime: '10:00', endTime: '11:00', staffId: 'staff-1' }],
+      query: {} as never
+    }))
+
+    const offer = await offerFreedSlot(freedSlot)
+
+    expect(offer).toMatchObject({ entryId: 'entry-1', holdId: 'hold-1', contactId: 'contact-1', sourceSessionId: 'session-1' })
+    expect(bookingRepository.createHold).toHaveBeenCalledWith(expect.objectContaining({
+      staffId: 'staff-1',
+      startTime: '10:00',
+      endTime: '11:00',
+      createdByContactId: 'contact-1',
+      holdDurationMinutes: OFFER_HOLD_MINUTES
+    }))
+    expect(waitlistRepository.createOffer).toHaveBeenCalledWith(expect.objectContaining({ entryId: 'entry-1' }), mockTx)
+    expect(waitlistRepository.setStatus).toHaveBeenCalledWith('entry-1', 'offered', mockTx)
+    expect(sendWaitlistOffer).toHaveBeenCalledWith(expect.objectContaining({
+      contact: { email: 'anna@example.com', name: 'Anna Carter' },
+      patientName: 'Emily Carter',
+      therapistName: 'Sarah Johnson'
+    }), { organizationId: 'org-1', tx: mockTx })
+  })
+
+  it('passes over entries already offered the slot and those without a portal contact', async () => {
+    vi.mocked(waitlistRepository.findWaiting).mockResolvedValue([
+      entry({ id: 'entry-offered' }),
+      entry({ id: 'entry-no-contact', patientId: 'patient-2' })
+    ])
+    vi.mocked(waitlistRepository.findOfferedEntryIds).mockResolvedValue(['entry-offered'])
+    vi.mocked(waitlistRepository.findPortalContact).mockResolvedValue(null)
+    vi.mocked(availabilityService.getAvailableSlots).mockResolvedValue({
+      slots: [{ date: slotDate.toISOString().split('T')[0], startTime: '10:00', endTime: '11:00', staffId: 'staff-1' }],
+      query: {} as never
+    })
+
+    expect(await offerFreedSlot(freedSlot)).toBeNull()
+    expect(availabilityService.getAvailableSlots).toHaveBeenCalledTimes(1)
+    expect(bookingRepository.createHold).not.toHaveBeenCalled()
+  })
+
+  it('releases the hold when the offer can\'t be saved', async () => {
+    vi.mocked(waitlistRepository.findWaiting).mockResolvedValue([entry()])
+    vi.mocked(availabilityService.getAvailableSlots).mockResolvedValue({
+      slots: [{ date: slotDate.toISOString().split('T')[0], startTime: '10:00', endTime: '11:00', staffId: 'staff-1' }],
+      query: {} as never
+    })
+    vi.mocked(waitlistRepository.setStatus).mockRejectedValueOnce(new Error('connection reset'))
+
+    await expect(offerFreedSlot(freedSlot)).rejects.toThrow('connection reset')
+    expect(bookingRepository.releaseHold).toHaveBeenCalledWith('hold-1')
+  })
+
+  it('doesn\'t offer a slot that has already started', async () => {
+    expect(await offerFreedSlot({ ...freedSlot, date: new Date('2020-01-06T00:00:00Z') })).toBeNull()
+    expect(waitlistRepository.findWaiting).not.toHaveBeenCalled()
+  })
+})
+
+describe('claimOffer', () => {
+  const portalUser = { organizationId: 'org-1', patientId: 'patient-1', contactId: 'contact-1' }
+  const offer = {
+    id: 'offer-1',
+    entryId: 'entry-1',
+    holdId: 'hold-1',
+    status: 'pending',
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    entry: { patientId: 'patient-1', sessionSpecId: 'spec-1' }
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('books the held slot and marks the entry booked', async () => {
+    vi.mocked(waitlistRepository.findOffer).mockResolvedValue(offer as never)
+    vi.mocked(bookingRepository.bookFromHold).mockResolvedValue({ success: true, sessionId: 'session-9' })
+
+    expect(await claimOffer('offer-1', portalUser)).toEqual({ success: true, sessionId: 'session-9' })
+    expect(bookingRepository.bookFromHold).toHaveBeenCalledWith(expect.objectContaining({
+      holdId: 'hold-1',
+      patientId: 'patient-1',
+      sessionSpecId: 'spec-1',
+      bookedVia: 'portal',
+      bookedByContactId: 'contact-1'
+    }), mockTx)
+    expect(waitlistRepository.updateOffer).toHaveBeenCalledWith('offer-1', expect.objectContaining({ status: 'claimed', sessionId: 'session-9' }), mockTx)
+    expect(waitlistRepository.setStatus).toHaveBeenCalledWith('entry-1', 'booked', mockTx)
+  })
+
+  it('leaves the offer open when the booking fails', async () => {
+    vi.mocked(waitlistRepository.findOffer).mockResolvedValue(offer as never)
+    vi.mocked(bookingRepository.bookFromHold).mockResolvedValue({ success: false, error: 'Time slot is no longer available' })
+
+    expect(await claimOffer('offer-1', portalUser)).toEqual({ success: false, error: 'Time slot is no longer available' })
+    expect(waitlistRepository.updateOffer).not.toHaveBeenCalled()
+    expect(waitlistRepository.setStatus).not.toHaveBeenCalled()
+  })
+
+  it('refuses another patient\'s offer or one that has expired', async () => {
+    vi.mocked(waitlistRepository.findOffer).mockResolvedValue({ ...offer, entry: { patientId: 'patient-2' } } as never)
+    expect((await claimOffer('offer-1', portalUser)).success).toBe(false)
+
+    vi.mocked(waitlistRepository.findOffer).mockResolvedValue({ ...offer, expiresAt: new Date(Date.now() - 1000) } as never)
+    expect((await claimOffer('offer-1', portalUser)).success).toBe(false)
+
+    expect(bookingRepository.bookFromHold).not.toHaveBeenCalled()
+  })
+})
+
+describe('declineOffer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(organizationSettingsRepository.findByOrganizationId).mockResolvedValue({ timezone: 'UTC' } as never)
+    vi.mocked(staffRepository.findById).mockResolvedValue({ id: 'staff-1', name: 'Sarah Johnson', status: 'active', certifications: [] } as never)
+    vi.mocked(waitlistRepository.findOfferedEntryIds).mockResolvedValue(['entry-1'])
+    vi.mocked(waitlistRepository.findWaiting).mockResolvedValue([])
+  })
+
+  it('releases the hold and puts the entry back in line together, then offers the slot on', async () => {
+    vi.mocked(waitlistRepository.findOffer).mockResolvedValue({
+      id: 'offer-1',
+      entryId: 'entry-1',
+      holdId: 'hold-1',
+      status: 'pending',
+      ...freedSlot,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      entry: { patientId: 'patient-1' }
+    } as never)
+
+    expect(await declineOffer('offer-1', { organizationId: 'org-1', patientId: 'patient-1' })).toBe(true)
+    expect(bookingRepository.releaseHold).toHaveBeenCalledWith('hold-1', mockTx)
+    expect(waitlistRepository.updateOffer).toHaveBeenCalledWith('offer-1', expect.objectContaining({ status: 'declined' }), mockTx)
+    expect(waitlistRepository.setStatus).toHaveBeenCalledWith('entry-1', 'waiting', mockTx)
+    expect(waitlistRepository.findWaiting).toHaveBeenCalledWith('org-1')
+  })
+})
+
+describe('advanceExpiredOffers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(organizationSettingsRepository.findByOrganizationId).mockResolvedValue({ timezone: 'UTC' } as never)
+    vi.mocked(staffRepository.findById).mockResolvedValue({ id: 'staff-1', name: 'Sarah Johnson', status: 'active', certifications: [] } as never)
+    vi.mocked(waitlistRepository.findOfferedEntryIds).mockResolvedValue(['entry-1'])
+    vi.mocked(waitlistRepository.findWaiting).mockResolvedValue([])
+  })
+
+  it('expires the offer, puts the entry back in line and offers the slot on', async () => {
+    vi.mocked(waitlistRepository.findExpiredOffers).mockResolvedValue([{
+      id: 'offer-1',
+      entryId: 'entry-1',
+      ...freedSlot,
+      entry: { status: 'offered' }
+    }] as never)
+
+    expect(await advanceExpiredOffers()).toBe(1)
+    expect(waitlistRepository.updateOffer).toHaveBeenCalledWith('offer-1', { status: 'expired' })
+    expect(waitlistRepository.setStatus).toHaveBeenCalledWith('entry-1', 'waiting')
+    expect(waitlistRepository.findOfferedEntryIds).toHaveBeenCalledWith('session-1')
+    expect(waitlistRepository.findWaiting).toHaveBeenCalledWith('org-1')
+  })
+})
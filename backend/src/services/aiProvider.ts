@@ -22,6 +22,8 @@ export type {
   RoomForScheduling,
   GeneratedSession,
   ScheduleGenerationResult,
+  PreferredPairings,
+  ClinicClosure,
   RuleConflict,
   RuleDuplicate,
   SuggestedRule,
@@ -66,15 +68,18 @@ export async function generateScheduleWithAI(
   staff: novaProvider.StaffForScheduling[],
   patients: novaProvider.PatientForScheduling[],
   rules: novaProvider.RuleForScheduling[],
-  rooms: novaProvider.RoomForScheduling[] = []
+  rooms: novaProvider.RoomForScheduling[] = [],
+  pairings: novaProvider.PreferredPairings = {},
+  booked: novaProvider.GeneratedSession[] = [],
+  closures: novaProvider.ClinicClosure[] = []
 ): Promise<novaProvider.ScheduleGenerationResult> {
   const provider = getProvider()
 
   if (provider === 'openai') {
-    return openaiProvider.generateScheduleWithAI(weekStartDate, staff, patients, rules, rooms)
+    return openaiProvider.generateScheduleWithAI(weekStartDate, staff, patients, rules, rooms, pairings, booked, closures)
   }
 
-  return novaProvider.generateScheduleWithAI(weekStartDate, staff, patients, rules, rooms)
+  return novaProvider.generateScheduleWithAI(weekStartDate, staff, patients, rules, rooms, pairings, booked, closures)
 }
 
 /**
@@ -0,0 +1,309 @@
+/**
+ * Insurance Authorizations
+ *
+ * A payer authorizes a number of units (usually 15 minutes each) for a
+ * patient's services between a start and an end date, either in total or
+ * renewing every week or month. Completing a session consumes its units from
+ * the authorization that covers it; an authorization for a specific session
+ * spec covers that spec ahead of one for all of the patient's sessions.
+ *
+ * When a spec has authorizations on file, the schedulers only place its
+ * sessions on dates an authorization covers and never beyond the units left
+ * in the period. Specs without authorizations are not limited.
+ */
+
+import {
+  authorizationRepository,
+  type PatientAuthorization,
+  type AuthorizationUsage
+} from '../repositories/authorizations.js'
+import type { PatientForScheduling } from './aiProvider.js'
+import { timeToMinutes } from '../utils/timezone.js'
+
+// Authorizations ending within this many days get an expiry warning
+export const EXPIRY_WARNING_DAYS = 30
+
+type PatientAuthorizationForScheduling = NonNullable<PatientForScheduling['authorizations']>[number]
+
+interface LedgerSession {
+  patientId: string
+  sessionSpecId?: string | null
+  date: string
+  startTime: string
+  endTime: string
+}
+
+interface CoverageFields {
+  sessionSpecId: string | null
+  startDate: string
+  endDate: string
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * Whole units a session uses; a partial unit counts as a full one.
+ */
+export function unitsForSession(unitMinutes: number, startTime: string, endTime: string): number {
+  return Math.ceil((timeToMinutes(endTime) - timeToMinutes(startTime)) / unitMinutes)
+}
+
+/**
+ * The period whose units a session on this date draws from: its week
+ * (Monday to Sunday), its month, or the whole authorization, never reaching
+ * outside the authorization's dates.
+ */
+export function getAuthorizationPeriod(
+  authorization: { period: PatientAuthorization['period']; startDate: string; endDate: string },
+  date: string
+): { from: string; to: string } {
+  let from = authorization.startDate
+  let to = authorization.endDate
+
+  const day = new Date(`${date}T00:00:00Z`)
+  if (authorization.period === 'week') {
+    const monday = new Date(day)
+    monday.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7))
+    const sunday = new Date(monday)
+    sunday.setUTCDate(monday.getUTCDate() + 6)
+    from = toDateString(monday)
+    to = toDateString(sunday)
+  } else if (authorization.period === 'month') {
+    from = toDateString(new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1)))
+    to = toDateString(new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)))
+  }
+
+  return {
+    from: from < authorization.startDate ? authorization.startDate : from,
+    to: to > authorization.endDate ? authorization.endDate : to
+  }
+}
+
+/**
+ * Which of a patient's authorizations a session of this spec on this date
+ * draws from. `applies` is false when no authorization is on file for the
+ * spec at all, in which case the session isn't limited.
+ */
+export function findCoveringAuthorization<T extends CoverageFields>(
+  authorizations: T[],
+  sessionSpecId: string | null,
+  date: string
+): { applies: boolean; authorization: T | null } {
+  const forSpec = authorizations.filter(a => a.sessionSpecId === sessionSpecId && sessionSpecId !== null)
+  const forAll = authorizations.filter(a => a.sessionSpecId === null)
+  const applicable = forSpec.length > 0 ? forSpec : forAll
+
+  return {
+    applies: applicable.length > 0,
+    authorization: applicable.find(a => a.startDate <= date && date <= a.endDate) ?? null
+  }
+}
+
+function toCoverage(authorization: PatientAuthorization) {
+  return {
+    ...authorization,
+    startDate: toDateString(authorization.startDate),
+    endDate: toDateString(authorization.endDate)
+  }
+}
+
+export interface AuthorizationBalance {
+  periodStart: string
+  periodEnd: string
+  usedUnits: number
+  remainingUnits: number
+}
+
+/**
+ * Units used and left in the period containing the date. Dates before the
+ * authorization starts or after it ends count as its first or last day.
+ */
+export async function getAuthorizationBalance(
+  authorization: PatientAuthorization,
+  date: string
+): Promise<AuthorizationBalance> {
+  const coverage = toCoverage(authorization)
+  const clamped = date < coverage.startDate ? coverage.startDate : date > coverage.endDate ? coverage.endDate : date
+  const period = getAuthorizationPeriod(coverage, clamped)
+  const usedUnits = await authorizationRepository.getUsedUnits(authorization.id, new Date(period.from), new Date(period.to))
+
+  return {
+    periodStart: period.from,
+    periodEnd: period.to,
+    usedUnits,
+    remainingUnits: Math.max(0, authorization.approvedUnits - usedUnits)
+  }
+}
+
+// Participant statuses that mean the patient didn't attend a group session
+const MISSED_STATUSES = ['cancelled', 'late_cancel', 'no_show']
+
+/**
+ * Consume a completed session's units from the authorization covering it.
+ * For a group session, each patient who attended is charged to their own
+ * authorization. Sessions no authorization covers are skipped.
+ */
+export async function consumeAuthorization(
+  organizationId: string,
+  session: {
+    id: string
+    patientId: string
+    sessionSpecId: string | null
+    date: Date
+    startTime: string
+    endTime: string
+    participants?: { patientId: string; sessionSpecId: string | null; status: string }[]
+  }
+): Promise<AuthorizationUsage[]> {
+  const attendees = session.participants?.length
+    ? session.participants.filter(p => !MISSED_STATUSES.includes(p.status))
+    : [{ patientId: session.patientId, sessionSpecId: session.sessionSpecId }]
+
+  const usage: AuthorizationUsage[] = []
+  for (const attendee of attendees) {
+    const authorizations = (await authorizationRepository.findByPatient(organizationId, attendee.patientId)).map(toCoverage)
+    const { authorization } = findCoveringAuthorization(authorizations, attendee.sessionSpecId, toDateString(session.date))
+    if (!authorization) continue
+
+    usage.push(await authorizationRepository.recordUsage({
+      authorizationId: authorization.id,
+      sessionId: session.id,
+      units: unitsForSession(authorization.unitMinutes, session.startTime, session.endTime),
+      date: session.date
+    }))
+  }
+
+  return usage
+}
+
+/**
+ * Each patient's authorizations in effect during a schedule week, with the
+ * units left for it: approved units for the period containing the week,
+ * less units already consumed and units held by upcoming sessions in
+ * published schedules outside the week.
+ */
+export async function getAuthorizationsForScheduling(
+  organizationId: string,
+  patientIds: string[],
+  weekStartDate: Date,
+  weekEndDate: Date
+): Promise<Map<string, PatientAuthorizationForScheduling[]>> {
+  const authorizations = await authorizationRepository.findForPatients(organizationId, patientIds, weekStartDate, weekEndDate)
+  const weekStart = toDateString(weekStartDate)
+  const byPatient = new Map<string, PatientAuthorizationForScheduling[]>()
+
+  for (const record of authorizations) {
+    const authorization = toCoverage(record)
+    const periodDate = weekStart > authorization.startDate ? weekStart : authorization.startDate
+    const period = getAuthorizationPeriod(authorization, periodDate)
+    const from = new Date(period.from)
+    const to = new Date(period.to)
+
+    const used = await authorizationRepository.getUsedUnits(authorization.id, from, to)
+    const siblings = authorizations.filter(a => a.patientId === authorization.patientId).map(toCoverage)
+    const open = await authorizationRepository.findOpenSessions(organizationId, authorization.patientId, from, to, {
+      from: weekStartDate,
+      to: weekEndDate
+    })
+    const held = open
+      .filter(s => findCoveringAuthorization(siblings, s.sessionSpecId, toDateString(s.date)).authorization?.id === authorization.id)
+      .reduce((sum, s) => sum + unitsForSession(authorization.unitMinutes, s.startTime, s.endTime), 0)
+
+    const list = byPatient.get(authorization.patientId) || []
+    list.push({
+      id: authorization.id,
+      payer: authorization.payer,
+      authNumber: authorization.authNumber,
+      sessionSpecId: authorization.sessionSpecId,
+      unitMinutes: authorization.unitMinutes,
+      startDate: authorization.startDate,
+      endDate: authorization.endDate,
+      remainingUnits: Math.max(0, authorization.approvedUnits - used - held)
+    })
+    byPatient.set(authorization.patientId, list)
+  }
+
+  return byPatient
+}
+
+/**
+ * Tracks the units charged to each authorization as sessions are placed, so
+ * a schedule never uses more than an authorization has left.
+ */
+export class AuthorizationLedger {
+  private readonly patients: Map<string, PatientForScheduling>
+  private readonly charged = new Map<string, number>()
+
+  constructor(patients: PatientForScheduling[]) {
+    this.patients = new Map(patients.map(p => [p.id, p]))
+  }
+
+  private resolve(session: LedgerSession) {
+    const authorizations = this.patients.get(session.patientId)?.authorizations || []
+    const date = session.date.split('T')[0]
+    return findCoveringAuthorization(authorizations, session.sessionSpecId ?? null, date)
+  }
+
+  /**
+   * Why the session can't be charged to an authorization, or null when it
+   * can (or needs none).
+   */
+  check(session: LedgerSession): string | null {
+    const { applies, authorization } = this.resolve(session)
+    if (!applies) return null
+
+    const name = this.patients.get(session.patientId)?.name ?? session.patientId
+    const date = session.date.split('T')[0]
+    if (!authorization) {
+      return `No insurance authorization covers ${name}'s session on ${date}`
+    }
+
+    const units = unitsForSession(authorization.unitMinutes, session.startTime, session.endTime)
+    const left = authorization.remainingUnits - (this.charged.get(authorization.id) || 0)
+    if (units > left) {
+      return `Authorization ${authorization.authNumber} (${authorization.payer}) has ${left} unit(s) left for ${name}, but the session needs ${units}`
+    }
+
+    return null
+  }
+
+  /**
+   * Charge (or with -1, refund) the session's units to its authorization.
+   */
+  charge(
+    session: LedgerSession,
+    direction: 1 | -1 = 1
+  ): void {
+    const { authorization } = this.resolve(session)
+    if (!authorization) return
+
+    const units = unitsForSession(authorization.unitMinutes, session.startTime, session.endTime)
+    this.charged.set(authorization.id, (this.charged.get(authorization.id) || 0) + direction * units)
+  }
+}
+
+/**
+ * Warnings for a schedule week: authorizations with no units left for it and
+ * authorizations ending within EXPIRY_WARNING_DAYS of the week.
+ */
+export function authorizationWarnings(patients: PatientForScheduling[], weekEndDate: Date): string[] {
+  const warnings: string[] = []
+  const horizon = new Date(weekEndDate)
+  horizon.setUTCDate(horizon.getUTCDate() + EXPIRY_WARNING_DAYS)
+  const weekEnd = toDateString(weekEndDate)
+
+  for (const patient of patients) {
+    for (const authorization of patient.authorizations || []) {
+      const label = `Authorization ${authorization.authNumber} (${authorization.payer}) for ${patient.name}`
+      if (authorization.remainingUnits === 0) {
+        warnings.push(`${label} has no units left; its sessions were not scheduled.`)
+      } else if (authorization.endDate >= weekEnd && authorization.endDate <= toDateString(horizon)) {
+        warnings.push(`${label} expires on ${authorization.endDate}.`)
+      }
+    }
+  }
+
+  return warnings
+}
@@ -6,6 +6,8 @@
  * - Staff default working hours
  * - Staff time-off/availability overrides
  * - Organization business hours
+ * - Holidays (federal and custom clinic closures)
+ * - The patient's availability windows (when a patient is given)
  * - Existing sessions
  * - Active appointment holds
  * - Room conflicts (optional)
@@ -18,13 +20,14 @@
 
 import { prisma } from '../repositories/base.js'
 import { staffRepository } from '../repositories/staff.js'
+import { patientRepository, type PatientAvailability } from '../repositories/patients.js'
 import { staffAvailabilityRepository } from '../repositories/staffAvailability.js'
-import {
-  organizationSettingsRepository,
-  type BusinessHours,
-  type BusinessHoursDay
-} from '../repositories/organizationSettings.js'
+import { organizationSettingsRepository, type BusinessHours } from '../repositories/organizationSettings.js'
 import { sessionsOverlap } from './scheduler.js'
+import { getClinicClosures, findClosure, describeClosure } from './holidays.js'
+import { getBusinessHoursForDate } from './businessHours.js'
+import { patientUnavailableTimes } from './patientAvailability.js'
+import type { ClinicClosure } from './aiProvider.js'
 import {
   formatLocalDate,
   getLocalDayOfWeek,
@@ -56,7 +59,7 @@ export interface AvailabilityQuery {
   durationMinutes?: number // Desired appointment duration
   staffId?: string // Filter to specific staff member
   roomId?: string // Filter to specific room
-  patientId?: string // For checking patient conflicts
+  patientId?: string // For checking patient conflicts and availability
 }
 
 export interface AvailabilityResult {
@@ -321,10 +324,20 @@ export class AvailabilityService {
       }
     }
 
-    // Check for patient's existing sessions if patientId provided
+    // Holidays in the range; closure dates are local dates like the range itself
+    const closures = await getClinicClosures(organizationId, new Date(fromDateStr), new Date(toDateStr))
+
+    // Check for patient's existing sessions and availability if patientId provided
     let patientSessions: typeof existingSessions = []
+    let patientUnavailable: ClinicClosure[] = []
     if (patientId) {
       patientSessions = existingSessions.filter(s => s.patientId === patientId)
+      const patient = await patientRepository.findById(patientId, organizationId)
+      patientUnavailable = patientUnavailableTimes(
+        patient?.availability as PatientAvailability | null | undefined,
+        fromDateStr,
+        toDateStr
+      )
     }
 
     // Calculate available slots for each staff member on each date
@@ -337,12 +350,20 @@ export class AvailabilityService {
         // Use timezone-aware day of week calculation
         const dayOfWeek = getLocalDayOfWeek(dateStr, timezone)
 
-        // Check organization business hours for this day
-        const bizHoursDay = businessHours[dayOfWeek as keyof BusinessHours] as BusinessHoursDay
+        // Check organization business hours for this day (or its exception)
+        const bizHoursDay = getBusinessHoursForDate(businessHours, dateStr)
         if (!bizHoursDay?.open) {
           continue // Organization is closed this day
         }
 
+        if (findClosure(closures, dateStr)) {
+          continue // Closed all day for a holiday
+        }
+
+        if (findClosure(patientUnavailable, dateStr)) {
+          continue // Patient can't attend this day
+        }
+
         // Check staff availability override for this day
         const override = overrideMap.get(staff.id)?.get(dateStr)
         if (override && !override.available) {
@@ -395,6 +416,20 @@ export class AvailabilityService {
           })
         }
 
+        // Add partial-day holiday closures
+        for (const closure of closures) {
+          if (closure.date === dateStr && closure.startTime && closure.endTime) {
+            blockedSlots.push({ startTime: closure.startTime, endTime: closure.endTime })
+          }
+        }
+
+        // Add times outside the patient's availability
+        for (const blocked of patientUnavailable) {
+          if (blocked.date === dateStr && blocked.startTime && blocked.endTime) {
+            blockedSlots.push({ startTime: blocked.startTime, endTime: blocked.endTime })
+          }
+        }
+
         // Add active holds
         const staffHolds = holdMap.get(staff.id)?.get(dateStr) || []
         for (const hold of staffHolds) {
@@ -481,7 +516,7 @@ export class AvailabilityService {
     const dateStr = formatLocalDate(date, timezone)
     const dayOfWeek = getLocalDayOfWeek(dateStr, timezone)
 
-    const bizHoursDay = businessHours[dayOfWeek as keyof BusinessHours] as BusinessHoursDay
+    const bizHoursDay = getBusinessHoursForDate(businessHours, dateStr)
 
     // Get availability override
     const overrides = await staffAvailabilityRepository.getApprovedUnavailability(
@@ -491,8 +526,10 @@ export class AvailabilityService {
     )
     const override = overrides.find(o => o.staffId === staffId)
 
+    const closures = await getClinicClosures(organizationId, new Date(dateStr), new Date(dateStr))
+
     // Check if staff is available at all
-    if (!bizHoursDay?.open) {
+    if (!bizHoursDay?.open || findClosure(closures, dateStr)) {
       return {
         staffId,
         staffName: staff.name,
@@ -583,7 +620,10 @@ export class AvailabilityService {
 
     const blockedSlots: TimeSlot[] = [
       ...sessions.map(s => ({ startTime: s.startTime, endTime: s.endTime })),
-      ...holds.map(h => ({ startTime: h.startTime, endTime: h.endTime }))
+      ...holds.map(h => ({ startTime: h.startTime, endTime: h.endTime })),
+      ...closures
+        .filter(c => c.startTime && c.endTime)
+        .map(c => ({ startTime: c.startTime!, endTime: c.endTime! }))
     ]
 
     const freeRanges = subtractBlockedSlots(effectiveHours, blockedSlots)
@@ -619,6 +659,15 @@ export class AvailabilityService {
       }
     }
 
+    const closures = await getClinicClosures(organizationId, new Date(dayAvailability.date), new Date(dayAvailability.date))
+    const closure = findClosure(closures, dayAvailability.date, startTime, endTime)
+    if (closure) {
+      return {
+        available: false,
+        reason: `The clinic is closed for ${describeClosure(closure)}`
+      }
+    }
+
     const slotStart = timeToMinutes(startTime)
     const slotEnd = timeToMinutes(endTime)
 
@@ -0,0 +1,159 @@
+/**
+ * Business Hours
+ *
+ * The organization's business hours are the outer bound for every session,
+ * whichever way it is created: schedule generation, manual edits, voice
+ * commands, admin bookings and the patient portal. Each weekday has its own
+ * hours, and an exception replaces them on a single date (closing early on
+ * the Friday before a long weekend, opening on a Saturday for make-ups).
+ *
+ * Dates are YYYY-MM-DD strings and times HH:mm in the organization's local time.
+ */
+
+import {
+  organizationSettingsRepository,
+  type BusinessHours,
+  type BusinessHoursDay
+} from '../repositories/organizationSettings.js'
+import type { ClinicClosure } from './aiProvider.js'
+import { timeToMinutes } from '../utils/timezone.js'
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const
+
+export type BusinessHoursViolationCode = 'CLOSED_DAY' | 'OUTSIDE_BUSINESS_HOURS'
+
+export interface BusinessHoursViolation {
+  code: BusinessHoursViolationCode
+  message: string
+  date: string
+  startTime: string
+  endTime: string
+  // The hours that apply on the date; null when the organization is closed all day
+  businessHours: { start: string; end: string } | null
+  // Reason given for the date exception that set these hours, if any
+  exceptionReason: string | null
+}
+
+/**
+ * Thrown where a session cannot be created outside business hours, so callers
+ * can tell this failure apart and pass the violation on.
+ */
+export class BusinessHoursError extends Error {
+  constructor(public readonly violation: BusinessHoursViolation) {
+    super(violation.message)
+    this.name = 'BusinessHoursError'
+  }
+}
+
+/**
+ * The hours that apply on a date: its exception if there is one, otherwise
+ * the weekday's hours. A weekday missing from the settings counts as closed.
+ */
+export function getBusinessHoursForDate(
+  businessHours: BusinessHours,
+  date: string
+): BusinessHoursDay & { exceptionReason?: string | null } {
+  const exception = businessHours.exceptions?.find(e => e.date === date)
+  if (exception) {
+    return { open: exception.open, start: exception.start, end: exception.end, exceptionReason: exception.reason ?? null }
+  }
+
+  const weekday = WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()]
+  return businessHours[weekday] ?? { open: false, start: '00:00', end: '00:00' }
+}
+
+/**
+ * Why a session on this date and time falls outside business hours, or null
+ * when it fits.
+ */
+export function checkBusinessHours(
+  businessHours: BusinessHours,
+  session: { date: string; startTime: string; endTime: string }
+): BusinessHoursViolation | null {
+  const { date, startTime, endTime } = session
+  const hours = getBusinessHoursForDate(businessHours, date)
+  const exceptionReason = hours.exceptionReason ?? null
+
+  if (!hours.open) {
+    return {
+      code: 'CLOSED_DAY',
+      message: `The clinic is closed on ${date}${exceptionReason ? ` (${exceptionReason})` : ''}`,
+      date,
+      startTime,
+      endTime,
+      businessHours: null,
+      exceptionReason
+    }
+  }
+
+  if (timeToMinutes(startTime) < timeToMinutes(hours.start) || timeToMinutes(endTime) > timeToMinutes(hours.end)) {
+    return {
+      code: 'OUTSIDE_BUSINESS_HOURS',
+      message: `Session time ${startTime}-${endTime} is outside business hours on ${date} (${hours.start}-${hours.end})`,
+      date,
+      startTime,
+      endTime,
+      businessHours: { start: hours.start, end: hours.end },
+      exceptionReason
+    }
+  }
+
+  return null
+}
+
+/**
+ * Load the organization's business hours and check a session against them.
+ */
+export async function findBusinessHoursViolation(
+  organizationId: string,
+  session: { date: string; startTime: string; endTime: string }
+): Promise<BusinessHoursViolation | null> {
+  const businessHours = await organizationSettingsRepository.getBusinessHours(organizationId)
+  return checkBusinessHours(businessHours, session)
+}
+
+/**
+ * Throw a BusinessHoursError when a session falls outside business hours.
+ */
+export async function assertWithinBusinessHours(
+  organizationId: string,
+  session: { date: string; startTime: string; endTime: string }
+): Promise<void> {
+  const violation = await findBusinessHoursViolation(organizationId, session)
+  if (violation) {
+    throw new BusinessHoursError(violation)
+  }
+}
+
+/**
+ * The times outside business hours on each date between from and to
+ * (inclusive), as closures the schedule generators already know to avoid.
+ */
+export function closuresOutsideBusinessHours(
+  businessHours: BusinessHours,
+  from: string,
+  to: string
+): ClinicClosure[] {
+  const closures: ClinicClosure[] = []
+  const day = new Date(`${from}T00:00:00Z`)
+  const last = new Date(`${to}T00:00:00Z`)
+
+  for (; day <= last; day.setUTCDate(day.getUTCDate() + 1)) {
+    const date = day.toISOString().split('T')[0]
+    const hours = getBusinessHoursForDate(businessHours, date)
+    const name = 'Outside business hours'
+
+    if (!hours.open) {
+      closures.push({ date, name, startTime: null, endTime: null })
+      continue
+    }
+    if (timeToMinutes(hours.start) > 0) {
+      closures.push({ date, name, startTime: '00:00', endTime: hours.start })
+    }
+    if (timeToMinutes(hours.end) < timeToMinutes('23:59')) {
+      closures.push({ date, name, startTime: hours.end, endTime: '23:59' })
+    }
+  }
+
+  return closures
+}
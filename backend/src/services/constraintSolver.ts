@@ -0,0 +1,739 @@
+/**
+ * Deterministic Constraint Solver
+ *
+ * Built-in schedule generator that works without an AI provider. It takes the
+ * same inputs as generateScheduleWithAI and returns the same result shape, so
+ * its output goes through the regular validateSessions pass. Identical inputs
+ * always produce an identical schedule, which makes it suitable for clinics
+ * that cannot send data to an LLM and for regression tests.
+ *
+ * Strategy:
+ * 1. Expand every patient session spec into individual session demands and
+ *    order them most-constrained first (fewest qualified therapists).
+ * 2. Greedy placement, one round per session index so every spec gets its
+ *    first session before any spec gets its second. Each demand takes the
+ *    lowest-cost feasible (therapist, room, date, start time) candidate.
+ * 3. Local search: unplaced demands try to displace a single blocking session
+ *    that can itself be re-placed elsewhere, then improvement passes move
+ *    sessions to cheaper slots until nothing improves.
+ *
+ * Scheduling rules go through the rule engine: candidates that break a hard
+ * rule are skipped and soft rule penalties are added to the candidate cost.
+ *
+ * Sessions passed as `booked` are already in the schedule: they hold their
+ * therapist, patient and room, count toward their spec's sessions per week,
+ * are never moved, and are not part of the result. Nothing is placed while
+ * the clinic is closed for a holiday (`closures`) or outside a patient's
+ * availability, and a spec's sessions never use more units than its
+ * insurance authorization has left.
+ *
+ * Group specs (those with a group size) that share a name, duration and
+ * required certifications are pooled: each round places one session for up
+ * to the smallest group size in the pool, and every patient in it must be
+ * free.
+ */
+
+import type {
+  StaffForScheduling,
+  PatientForScheduling,
+  RuleForScheduling,
+  RoomForScheduling,
+  GeneratedSession,
+  ScheduleGenerationResult,
+  PreferredPairings,
+  ClinicClosure
+} from './aiProvider.js'
+import type { UnavailabilityMap } from './scheduler.js'
+import type { PatientAffinity } from './continuityOfCare.js'
+import { DAYS_OF_WEEK, sessionPatients } from './sessionLookup.js'
+import { evaluateSessionRules, createRuleContext, RuleSessionIndex, type RuleSession } from './ruleEngine.js'
+import { patientUnavailableTimes } from './patientAvailability.js'
+import { AuthorizationLedger } from './authorizations.js'
+import { timeToMinutes, minutesToTime } from '../utils/timezone.js'
+
+type SessionSpec = PatientForScheduling['sessionSpecs'][number]
+
+export interface SolverOptions {
+  slotIntervalMinutes?: number
+  defaultDurationMinutes?: number
+  maxImprovementPasses?: number
+  // Therapists each session spec had in the previous week
+  pairings?: PreferredPairings
+  // Therapists each patient has seen in prior published schedules
+  affinity?: PatientAffinity
+  // How strongly to keep prior therapists, 0-100
+  continuityWeight?: number
+  // Sessions already in the schedule; only the remaining demand is placed
+  booked?: GeneratedSession[]
+  // Holidays: nothing is placed while the clinic is closed
+  closures?: ClinicClosure[]
+}
+
+const DEFAULT_SLOT_INTERVAL = 30
+const DEFAULT_DURATION = 60
+const DEFAULT_IMPROVEMENT_PASSES = 3
+
+// Candidate cost weights (lower total cost wins)
+const SAME_DAY_PENALTY = 100
+const PAIRING_PENALTY = 30
+// Penalty for a therapist the patient has never seen, at full continuity weight
+const CONTINUITY_PENALTY = 40
+const SOFT_RULE_WEIGHT = 3
+const PREFERRED_TIME_PENALTY = 20
+const NO_ROOM_PENALTY = 15
+const THERAPIST_SWITCH_PENALTY = 10
+const PREFERRED_ROOM_PENALTY = 5
+const LOAD_PENALTY_PER_HOUR = 1
+
+interface DemandMember {
+  patient: PatientForScheduling
+  spec: SessionSpec
+}
+
+interface Demand extends DemandMember {
+  // Everyone the session is for, starting with patient and spec
+  members: DemandMember[]
+  // Set for group sessions
+  capacity?: number
+  index: number
+  durationMinutes: number
+  therapists: StaffForScheduling[]
+}
+
+interface Placement {
+  demand: Demand
+  therapistId: string
+  roomId: string | null
+  date: string
+  start: number
+  end: number
+}
+
+interface Interval {
+  start: number
+  end: number
+  placement: Placement
+}
+
+/**
+ * Tracks booked intervals per therapist, patient and room for each date.
+ */
+class Occupancy {
+  private intervals = new Map<string, Interval[]>()
+
+  private key(kind: string, id: string, date: string): string {
+    return `${kind}:${id}:${date}`
+  }
+
+  private keysFor(p: Placement): string[] {
+    const keys = [
+      this.key('therapist', p.therapistId, p.date),
+      ...p.demand.members.map(m => this.key('patient', m.patient.id, p.date))
+    ]
+    if (p.roomId) {
+      keys.push(this.key('room', p.roomId, p.date))
+    }
+    return keys
+  }
+
+  add(p: Placement): void {
+    for (const key of this.keysFor(p)) {
+      const list = this.intervals.get(key) || []
+      list.push({ start: p.start, end: p.end, placement: p })
+      this.intervals.set(key, list)
+    }
+  }
+
+  remove(p: Placement): void {
+    for (const key of this.keysFor(p)) {
+      const list = this.intervals.get(key)
+      if (list) {
+        this.intervals.set(key, list.filter(i => i.placement !== p))
+      }
+    }
+  }
+
+  conflicts(kind: string, id: string, date: string, start: number, end: number): Placement[] {
+    const list = this.intervals.get(this.key(kind, id, date)) || []
+    return list.filter(i => i.start < end && start < i.end).map(i => i.placement)
+  }
+
+  isFree(kind: string, id: string, date: string, start: number, end: number): boolean {
+    const list = this.intervals.get(this.key(kind, id, date))
+    return !list || !list.some(i => i.start < end && start < i.end)
+  }
+}
+
+/**
+ * The weekdays (Monday to Friday) sessions are placed on.
+ */
+export function getWeekDates(weekStartDate: Date): string[] {
+  const dates: string[] = []
+  for (let i = 0; i < 5; i++) { // Monday to Friday
+    const date = new Date(weekStartDate)
+    date.setDate(date.getDate() + i)
+    dates.push(date.toISOString().split('T')[0])
+  }
+  return dates
+}
+
+/**
+ * Returns true when the start time satisfies at least one preferred time hint.
+ * Hints are free text ("Morning", "Afternoon", "14:00", "09:00-12:00");
+ * unrecognized hints never count against a candidate.
+ */
+export function matchesPreferredTimes(preferredTimes: string[] | null, start: number): boolean {
+  if (!preferredTimes || preferredTimes.length === 0) return true
+
+  let recognized = false
+  for (const raw of preferredTimes) {
+    const hint = raw.trim().toLowerCase()
+    const range = hint.match(/^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/)
+
+    if (hint === 'morning') {
+      recognized = true
+      if (start < 12 * 60) return true
+    } else if (hint === 'afternoon') {
+      recognized = true
+      if (start >= 12 * 60 && start < 17 * 60) return true
+    } else if (hint === 'evening') {
+      recognized = true
+      if (start >= 17 * 60) return true
+    } else if (range) {
+      recognized = true
+      if (start >= timeToMinutes(range[1]) && start < timeToMinutes(range[2])) return true
+    } else if (/^\d{1,2}:\d{2}$/.test(hint)) {
+      recognized = true
+      if (start === timeToMinutes(hint)) return true
+    }
+  }
+
+  return !recognized
+}
+
+/**
+ * Working window for a therapist on a date, after applying approved time off.
+ */
+export function getTherapistWindow(
+  therapist: StaffForScheduling,
+  date: string,
+  unavailabilityMap: UnavailabilityMap
+): { start: number; end: number } | null {
+  const day = DAYS_OF_WEEK[new Date(date).getDay()]
+  const hours = therapist.defaultHours?.[day]
+  if (!hours) return null
+
+  let start = timeToMinutes(hours.start)
+  let end = timeToMinutes(hours.end)
+
+  for (const unavail of unavailabilityMap.get(therapist.id) || []) {
+    if (unavail.date.toISOString().split('T')[0] !== date) continue
+    if (!unavail.available) return null
+    if (unavail.startTime && unavail.endTime) {
+      start = Math.max(start, timeToMinutes(unavail.startTime))
+      end = Math.min(end, timeToMinutes(unavail.endTime))
+    }
+  }
+
+  return start < end ? { start, end } : null
+}
+
+export function generateScheduleWithSolver(
+  weekStartDate: Date,
+  staff: StaffForScheduling[],
+  patients: PatientForScheduling[],
+  rules: RuleForScheduling[],
+  rooms: RoomForScheduling[] = [],
+  unavailabilityMap: UnavailabilityMap = new Map(),
+  options: SolverOptions = {}
+): ScheduleGenerationResult {
+  const slotInterval = options.slotIntervalMinutes || DEFAULT_SLOT_INTERVAL
+  const defaultDuration = options.defaultDurationMinutes || DEFAULT_DURATION
+  const maxPasses = options.maxImprovementPasses ?? DEFAULT_IMPROVEMENT_PASSES
+  const pairings = options.pairings || {}
+  const affinity = options.affinity || {}
+  const continuityPenalty = CONTINUITY_PENALTY * ((options.continuityWeight ?? 0) / 100)
+  const warnings: string[] = []
+
+  // Sort inputs by ID so the result does not depend on repository ordering
+  const byId = <T extends { id: string }>(a: T, b: T) => a.id.localeCompare(b.id)
+  const sortedStaff = [...staff].sort(byId)
+  const sortedPatients = [...patients].sort(byId)
+  const sortedRooms = [...rooms].sort(byId)
+
+  const weekDates = getWeekDates(weekStartDate)
+  const ruleContext = createRuleContext(sortedStaff, sortedPatients, sortedRooms)
+
+  // Precompute each therapist's working window per date
+  const windows = new Map<string, { start: number; end: number } | null>()
+  for (const therapist of sortedStaff) {
+    for (const date of weekDates) {
+      windows.set(`${therapist.id}:${date}`, getTherapistWindow(therapist, date, unavailabilityMap))
+    }
+  }
+
+  // Closed intervals per date in minutes; an all-day closure covers the whole day
+  const closed = new Map<string, { start: number; end: number }[]>()
+  for (const closure of options.closures || []) {
+    const intervals = closed.get(closure.date) || []
+    intervals.push(closure.startTime && closure.endTime
+      ? { start: timeToMinutes(closure.startTime), end: timeToMinutes(closure.endTime) }
+      : { start: 0, end: 24 * 60 })
+    closed.set(closure.date, intervals)
+  }
+
+  function isClosed(date: string, start: number, end: number): boolean {
+    return (closed.get(date) || []).some(c => c.start < end && start < c.end)
+  }
+
+  // Times each patient can't attend, per patient and date, in minutes
+  const patientBlocked = new Map<string, { start: number; end: number }[]>()
+  for (const patient of sortedPatients) {
+    for (const blocked of patientUnavailableTimes(patient.availability, weekDates[0], weekDates[weekDates.length - 1])) {
+      const key = `${patient.id}:${blocked.date}`
+      const intervals = patientBlocked.get(key) || []
+      intervals.push(blocked.startTime && blocked.endTime
+        ? { start: timeToMinutes(blocked.startTime), end: timeToMinutes(blocked.endTime) }
+        : { start: 0, end: 24 * 60 })
+      patientBlocked.set(key, intervals)
+    }
+  }
+
+  function isPatientUnavailable(patientId: string, date: string, start: number, end: number): boolean {
+    return (patientBlocked.get(`${patientId}:${date}`) || []).some(c => c.start < end && start < c.end)
+  }
+
+  // Units charged to each authorization by the sessions placed so far
+  const ledger = new AuthorizationLedger(sortedPatients)
+
+  function isOverAuthorized(demand: Demand, date: string, start: number, end: number): boolean {
+    return demand.members.some(m => m.patient.authorizations?.length && ledger.check({
+      patientId: m.patient.id,
+      sessionSpecId: m.spec.id,
+      date,
+      startTime: minutesToTime(start),
+      endTime: minutesToTime(end)
+    }) !== null)
+  }
+
+  function isAnyPatientUnavailable(demand: Demand, date: string, start: number, end: number): boolean {
+    return demand.members.some(m => isPatientUnavailable(m.patient.id, date, start, end))
+  }
+
+  // Booked sessions count toward their specs before any demand is expanded
+  const bookedCounts = new Map<string, number>()
+  for (const session of options.booked || []) {
+    for (const { sessionSpecId } of sessionPatients(session)) {
+      bookedCounts.set(sessionSpecId, (bookedCounts.get(sessionSpecId) || 0) + 1)
+    }
+  }
+
+  function qualifiedTherapists(spec: SessionSpec): StaffForScheduling[] {
+    return sortedStaff.filter(t =>
+      spec.requiredCertifications.every(cert => t.certifications.includes(cert))
+    )
+  }
+
+  // Expand session specs into individual demands; group specs are pooled first
+  const demands: Demand[] = []
+  const pools = new Map<string, (DemandMember & { remaining: number })[]>()
+  for (const patient of sortedPatients) {
+    for (const spec of [...patient.sessionSpecs].sort(byId)) {
+      const firstIndex = bookedCounts.get(spec.id) || 0
+      if (firstIndex >= spec.sessionsPerWeek) continue
+
+      if (spec.groupSize) {
+        const key = [
+          spec.name.trim().toLowerCase(),
+          spec.durationMinutes ?? defaultDuration,
+          [...spec.requiredCertifications].sort().join(',')
+        ].join('|')
+        const pool = pools.get(key) || []
+        pool.push({ patient, spec, remaining: spec.sessionsPerWeek - firstIndex })
+        pools.set(key, pool)
+        continue
+      }
+
+      const therapists = qualifiedTherapists(spec)
+
+      if (therapists.length === 0) {
+        warnings.push(
+          `No qualified therapist available for ${patient.name} (${spec.name}); ${spec.sessionsPerWeek - firstIndex} session(s) left unscheduled.`
+        )
+        continue
+      }
+
+      for (let index = firstIndex; index < spec.sessionsPerWeek; index++) {
+        demands.push({
+          patient,
+          spec,
+          members: [{ patient, spec }],
+          index,
+          durationMinutes: spec.durationMinutes ?? defaultDuration,
+          therapists
+        })
+      }
+    }
+  }
+
+  for (const pool of pools.values()) {
+    const therapists = qualifiedTherapists(pool[0].spec)
+
+    if (therapists.length === 0) {
+      for (const { patient, spec, remaining } of pool) {
+        warnings.push(
+          `No qualified therapist available for ${patient.name} (${spec.name}); ${remaining} session(s) left unscheduled.`
+        )
+      }
+      continue
+    }
+
+    const capacity = Math.min(...pool.map(m => m.spec.groupSize!))
+    const rounds = Math.max(...pool.map(m => m.remaining))
+    for (let index = 0; index < rounds; index++) {
+      const enrolled = pool.filter(m => m.remaining > index)
+      for (let i = 0; i < enrolled.length; i += capacity) {
+        const members = enrolled.slice(i, i + capacity).map(({ patient, spec }) => ({ patient, spec }))
+        demands.push({
+          ...members[0],
+          members,
+          capacity,
+          index,
+          durationMinutes: pool[0].spec.durationMinutes ?? defaultDuration,
+          therapists
+        })
+      }
+    }
+  }
+
+  // Most constrained first, one round per session index
+  demands.sort((a, b) =>
+    a.index - b.index ||
+    a.therapists.length - b.therapists.length ||
+    a.patient.id.localeCompare(b.patient.id) ||
+    a.spec.id.localeCompare(b.spec.id)
+  )
+
+  const occupancy = new Occupancy()
+  const placements: Placement[] = []
+  const fixed = new Set<Placement>()
+  const ruleIndex = new RuleSessionIndex()
+  const ruleSessions = new Map<Placement, RuleSession>()
+
+  // Running tallies used by the cost function
+  const specDays = new Map<string, Map<string, number>>()
+  const patientTherapists = new Map<string, Map<string, number>>()
+  const therapistMinutes = new Map<string, number>()
+
+  function bump(map: Map<string, Map<string, number>>, outer: string, inner: string, delta: number): void {
+    const counts = map.get(outer) || new Map<string, number>()
+    counts.set(inner, (counts.get(inner) || 0) + delta)
+    if (counts.get(inner) === 0) counts.delete(inner)
+    map.set(outer, counts)
+  }
+
+  function track(p: Placement, delta: number): void {
+    for (const m of p.demand.members) {
+      bump(specDays, m.spec.id, p.date, delta)
+      bump(patientTherapists, m.patient.id, p.therapistId, delta)
+    }
+    therapistMinutes.set(p.therapistId, (therapistMinutes.get(p.therapistId) || 0) + delta * (p.end - p.start))
+  }
+
+  function toRuleSession(p: Placement): RuleSession {
+    return {
+      therapistId: p.therapistId,
+      patientId: p.demand.patient.id,
+      sessionSpecId: p.demand.spec.id,
+      roomId: p.roomId,
+      date: p.date,
+      startTime: minutesToTime(p.start),
+      endTime: minutesToTime(p.end)
+    }
+  }
+
+  // Charge (or refund) each patient's authorization for the placement
+  function charge(p: Placement, direction: 1 | -1): void {
+    for (const m of p.demand.members) {
+      ledger.charge({ ...toRuleSession(p), patientId: m.patient.id, sessionSpecId: m.spec.id }, direction)
+    }
+  }
+
+  function place(p: Placement): void {
+    occupancy.add(p)
+    placements.push(p)
+    track(p, 1)
+    charge(p, 1)
+    if (rules.length > 0) {
+      const session = toRuleSession(p)
+      ruleSessions.set(p, session)
+      ruleIndex.add(session)
+    }
+  }
+
+  function unplace(p: Placement): void {
+    occupancy.remove(p)
+    placements.splice(placements.indexOf(p), 1)
+    track(p, -1)
+    charge(p, -1)
+    const session = ruleSessions.get(p)
+    if (session) {
+      ruleIndex.remove(session)
+      ruleSessions.delete(p)
+    }
+  }
+
+  /**
+   * Weighted soft rule penalty, or null when the placement breaks a hard rule.
+   */
+  function ruleCost(p: Placement): number | null {
+    if (rules.length === 0) return 0
+    const evaluation = evaluateSessionRules(toRuleSession(p), rules, ruleContext, ruleIndex)
+    if (evaluation.hardViolations.length > 0) return null
+    return evaluation.score * SOFT_RULE_WEIGHT
+  }
+
+  function chooseRoom(demand: Demand, date: string, start: number, end: number): { roomId: string | null; feasible: boolean } {
+    const required = demand.spec.requiredRoomCapabilities || []
+    const candidates = sortedRooms.filter(r =>
+      required.every(cap => r.capabilities.includes(cap)) &&
+      occupancy.isFree('room', r.id, date, start, end)
+    )
+
+    const preferred = candidates.find(r => r.id === demand.spec.preferredRoomId)
+    if (preferred) return { roomId: preferred.id, feasible: true }
+
+    if (candidates.length > 0) {
+      // Keep well-equipped rooms free for sessions that need them
+      const room = candidates.reduce((min, r) => r.capabilities.length < min.capabilities.length ? r : min)
+      return { roomId: room.id, feasible: true }
+    }
+
+    return { roomId: null, feasible: required.length === 0 }
+  }
+
+  function roomCost(p: Placement): number {
+    let total = 0
+    if (sortedRooms.length > 0 && !p.roomId) total += NO_ROOM_PENALTY
+    if (p.demand.spec.preferredRoomId && p.roomId !== p.demand.spec.preferredRoomId) {
+      total += PREFERRED_ROOM_PENALTY
+    }
+    return total
+  }
+
+  /**
+   * Cost of a candidate placement against the current (not yet including it)
+   * state, excluding the room component.
+   */
+  function baseCost(p: Omit<Placement, 'roomId'>): number {
+    const { demand } = p
+    let total = 0
+
+    if (demand.members.some(m => specDays.get(m.spec.id)?.has(p.date))) total += SAME_DAY_PENALTY
+
+    if (!matchesPreferredTimes(demand.spec.preferredTimes, p.start)) {
+      total += PREFERRED_TIME_PENALTY
+    }
+
+    // Continuity across weeks: keep last week's therapist for this spec
+    const paired = pairings[demand.spec.id]
+    if (paired && paired !== p.therapistId) total += PAIRING_PENALTY
+
+    // Continuity of care: prefer therapists the patient has seen in past weeks
+    const seenBefore = affinity[demand.patient.id]
+    if (seenBefore && continuityPenalty > 0) {
+      total += continuityPenalty * (1 - (seenBefore[p.therapistId] ?? 0))
+    }
+
+    // Continuity: prefer therapists who already see this patient this week
+    const seenBy = patientTherapists.get(demand.patient.id)
+    if (seenBy && seenBy.size > 0 && !seenBy.has(p.therapistId)) {
+      total += THERAPIST_SWITCH_PENALTY
+    }
+
+    // Balance load across therapists
+    total += ((therapistMinutes.get(p.therapistId) || 0) / 60) * LOAD_PENALTY_PER_HOUR
+
+    return total
+  }
+
+  function cost(p: Placement): number {
+    return baseCost(p) + roomCost(p) + (ruleCost(p) ?? 0)
+  }
+
+  /**
+   * Find the cheapest feasible placement for a demand given current occupancy.
+   */
+  function findBest(demand: Demand): { placement: Placement; cost: number } | null {
+    let best: { placement: Placement; cost: number } | null = null
+
+    for (const date of weekDates) {
+      for (const therapist of demand.therapists) {
+        const window = windows.get(`${therapist.id}:${date}`)
+        if (!window) continue
+
+        for (let start = window.start; start + demand.durationMinutes <= window.end; start += slotInterval) {
+          const end = start + demand.durationMinutes
+          if (isClosed(date, start, end)) continue
+          if (isAnyPatientUnavailable(demand, date, start, end)) continue
+          if (!occupancy.isFree('therapist', therapist.id, date, start, end)) continue
+          if (demand.members.some(m => !occupancy.isFree('patient', m.patient.id, date, start, end))) continue
+          if (isOverAuthorized(demand, date, start, end)) continue
+
+          // Room costs are never negative, so skip room selection when the base already loses
+          const base = baseCost({ demand, therapistId: therapist.id, date, start, end })
+          if (best && base >= best.cost) continue
+
+          const room = chooseRoom(demand, date, start, end)
+          if (!room.feasible) continue
+
+          const placement: Placement = { demand, therapistId: therapist.id, roomId: room.roomId, date, start, end }
+          const rulePenalty = ruleCost(placement)
+          if (rulePenalty === null) continue
+
+          const placementCost = base + roomCost(placement) + rulePenalty
+          if (!best || placementCost < best.cost) {
+            best = { placement, cost: placementCost }
+          }
+        }
+      }
+    }
+
+    return best
+  }
+
+  /**
+   * Placed sessions that are the only obstacle (therapist or patient overlap)
+   * to at least one otherwise-valid slot for the demand.
+   */
+  function findSingleBlockers(demand: Demand): Placement[] {
+    const blockers = new Set<Placement>()
+
+    for (const date of weekDates) {
+      for (const therapist of demand.therapists) {
+        const window = windows.get(`${therapist.id}:${date}`)
+        if (!window) continue
+
+        for (let start = window.start; start + demand.durationMinutes <= window.end; start += slotInterval) {
+          const end = start + demand.durationMinutes
+          if (isClosed(date, start, end)) continue
+          if (isAnyPatientUnavailable(demand, date, start, end)) continue
+          const blocking = new Set([
+            ...occupancy.conflicts('therapist', therapist.id, date, start, end),
+            ...demand.members.flatMap(m => occupancy.conflicts('patient', m.patient.id, date, start, end))
+          ])
+          if (blocking.size === 1) {
+            const [blocker] = blocking
+            if (!fixed.has(blocker)) blockers.add(blocker)
+          }
+        }
+      }
+    }
+
+    return [...blockers]
+  }
+
+  // Booked sessions hold their slots for the whole run
+  const patientsById = new Map(sortedPatients.map(p => [p.id, p]))
+  for (const session of options.booked || []) {
+    const members = sessionPatients(session).map(({ patientId, sessionSpecId }) => {
+      const patient = patientsById.get(patientId) ||
+        { id: patientId, identifier: null, name: patientId, gender: 'other' as const, sessionSpecs: [] }
+      const spec = patient.sessionSpecs.find(s => s.id === sessionSpecId) ||
+        { id: sessionSpecId, name: sessionSpecId, sessionsPerWeek: 0, durationMinutes: null, requiredCertifications: [], preferredTimes: null }
+      return { patient, spec }
+    })
+    const start = timeToMinutes(session.startTime)
+    const end = timeToMinutes(session.endTime)
+    const placement: Placement = {
+      demand: { ...members[0], members, capacity: session.capacity, index: 0, durationMinutes: end - start, therapists: [] },
+      therapistId: session.therapistId,
+      roomId: session.roomId ?? null,
+      date: session.date,
+      start,
+      end
+    }
+    place(placement)
+    fixed.add(placement)
+  }
+
+  // Phase 1: greedy construction
+  const unplaced: Demand[] = []
+  for (const demand of demands) {
+    const best = findBest(demand)
+    if (best) {
+      place(best.placement)
+    } else {
+      unplaced.push(demand)
+    }
+  }
+
+  // Phase 2: repair unplaced demands by displacing a single blocking session
+  for (const demand of [...unplaced]) {
+    for (const blocker of findSingleBlockers(demand)) {
+      unplace(blocker)
+      const freed = findBest(demand)
+      if (freed) {
+        place(freed.placement)
+        const relocated = findBest(blocker.demand)
+        if (relocated) {
+          place(relocated.placement)
+          unplaced.splice(unplaced.indexOf(demand), 1)
+          break
+        }
+        unplace(freed.placement)
+      }
+      place(blocker)
+    }
+  }
+
+  // Phase 3: improvement passes
+  for (let pass = 0; pass < maxPasses; pass++) {
+    let improved = false
+
+    for (const current of [...placements]) {
+      if (fixed.has(current)) continue
+      unplace(current)
+      const currentCost = cost(current)
+      if (currentCost === 0) {
+        place(current)
+        continue
+      }
+
+      const best = findBest(current.demand)
+      if (best && best.cost < currentCost) {
+        place(best.placement)
+        improved = true
+      } else {
+        place(current)
+      }
+    }
+
+    if (!improved) break
+  }
+
+  const sessions: GeneratedSession[] = placements
+    .filter(p => !fixed.has(p))
+    .map(p => ({
+      therapistId: p.therapistId,
+      patientId: p.demand.patient.id,
+      sessionSpecId: p.demand.spec.id,
+      roomId: p.roomId ?? undefined,
+      date: p.date,
+      startTime: minutesToTime(p.start),
+      endTime: minutesToTime(p.end),
+      ...(p.demand.capacity
+        ? {
+            capacity: p.demand.capacity,
+            participants: p.demand.members.map(m => ({ patientId: m.patient.id, sessionSpecId: m.spec.id }))
+          }
+        : {})
+    }))
+    .sort((a, b) =>
+      a.date.localeCompare(b.date) ||
+      a.startTime.localeCompare(b.startTime) ||
+      a.therapistId.localeCompare(b.therapistId)
+    )
+
+  return { sessions, warnings }
+}
@@ -0,0 +1,105 @@
+/**
+ * Continuity of Care
+ *
+ * Learns which therapists each patient has been seeing from recent published
+ * schedules so generation can keep those pairings. The affinity of a
+ * patient-therapist pair is their recency-weighted session count relative to
+ * the patient's most frequent therapist: 1 for the usual therapist, 0 for a
+ * therapist the patient has never seen.
+ */
+
+import { scheduleRepository } from '../repositories/schedules.js'
+import type { StaffForScheduling, PatientForScheduling, PreferredPairings } from './aiProvider.js'
+
+// Patient ID -> therapist ID -> affinity (0-1)
+export type PatientAffinity = Record<string, Record<string, number>>
+
+export interface ContinuityStats {
+  // Sessions of patients with history that went to a therapist they have seen before
+  matched: number
+  total: number
+  // matched / total, null when no scheduled patient has any history
+  rate: number | null
+}
+
+// How far back to look, and how much each week further back counts
+export const CONTINUITY_HISTORY_WEEKS = 8
+const WEEKLY_DECAY = 0.8
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000
+
+export function buildPatientAffinity(
+  history: Array<{ patientId: string; therapistId: string; date: Date }>,
+  weekStartDate: Date
+): PatientAffinity {
+  const totals: Record<string, Record<string, number>> = {}
+  for (const session of history) {
+    // 0 for the week just before weekStartDate, 1 for the week before that, ...
+    const weeksAgo = Math.max(0, Math.ceil((weekStartDate.getTime() - session.date.getTime()) / WEEK_MS) - 1)
+    const perTherapist = totals[session.patientId] ?? (totals[session.patientId] = {})
+    perTherapist[session.therapistId] = (perTherapist[session.therapistId] ?? 0) + WEEKLY_DECAY ** weeksAgo
+  }
+
+  const affinity: PatientAffinity = {}
+  for (const [patientId, perTherapist] of Object.entries(totals)) {
+    const max = Math.max(...Object.values(perTherapist))
+    affinity[patientId] = {}
+    for (const [therapistId, total] of Object.entries(perTherapist)) {
+      affinity[patientId][therapistId] = Math.round((total / max) * 1000) / 1000
+    }
+  }
+  return affinity
+}
+
+/**
+ * Affinity from the published schedules of the weeks before weekStartDate.
+ */
+export async function loadPatientAffinity(organizationId: string, weekStartDate: Date): Promise<PatientAffinity> {
+  const historyStart = new Date(weekStartDate.getTime() - CONTINUITY_HISTORY_WEEKS * WEEK_MS)
+  const history = await scheduleRepository.getPublishedSessionHistory(organizationId, historyStart, weekStartDate)
+  return buildPatientAffinity(history, weekStartDate)
+}
+
+/**
+ * Each spec's preferred therapist from affinity: the patient's closest
+ * therapist who holds the spec's required certifications. Used by engines
+ * that take pairings rather than weights.
+ */
+export function pairingsFromAffinity(
+  affinity: PatientAffinity,
+  patients: PatientForScheduling[],
+  staff: StaffForScheduling[]
+): PreferredPairings {
+  const staffById = new Map(staff.map(s => [s.id, s]))
+  const pairings: PreferredPairings = {}
+
+  for (const patient of patients) {
+    const ranked = Object.entries(affinity[patient.id] ?? {})
+      .sort(([aId, a], [bId, b]) => b - a || aId.localeCompare(bId))
+
+    for (const spec of patient.sessionSpecs) {
+      const required = spec.requiredCertifications || []
+      const match = ranked.find(([therapistId]) => {
+        const therapist = staffById.get(therapistId)
+        return therapist && required.every(cert => therapist.certifications.includes(cert))
+      })
+      if (match) pairings[spec.id] = match[0]
+    }
+  }
+  return pairings
+}
+
+export function measureContinuity(
+  sessions: Array<{ patientId: string; therapistId: string }>,
+  affinity: PatientAffinity
+): ContinuityStats {
+  let matched = 0
+  let total = 0
+  for (const session of sessions) {
+    const seen = affinity[session.patientId]
+    if (!seen) continue
+    total++
+    if (seen[session.therapistId] !== undefined) matched++
+  }
+  return { matched, total, rate: total > 0 ? Math.round((matched / total) * 1000) / 1000 : null }
+}
@@ -2,6 +2,7 @@ import { staffRepository, type StaffCreate, type DefaultHours } from '../reposit
 import { patientRepository, type PatientCreate } from '../repositories/patients.js'
 import { roomRepository, type RoomCreate } from '../repositories/rooms.js'
 import { ruleRepository, type RuleCreate } from '../repositories/rules.js'
+import { validateRuleLogic } from './ruleSchemas.js'
 import type { Staff, Patient, Room, Rule, Gender, RuleCategory } from '@prisma/client'
 
 export type ExportEntityType = 'staff' | 'patients' | 'rooms' | 'rules'
@@ -46,7 +47,7 @@ const REQUIRED_FIELDS: Record<ExportEntityType, string[]> = {
 // Valid enum values
 const VALID_GENDERS = ['male', 'female', 'other']
 const VALID_STATUSES = ['active', 'inactive']
-const VALID_RULE_CATEGORIES = ['gender_pairing', 'session', 'availability', 'specific_pairing', 'certification']
+const VALID_RULE_CATEGORIES = ['gender_pairing', 'session', 'availability', 'specific_pairing', 'certification', 'supervision']
 
 /**
  * Escape a value for CSV format
@@ -75,7 +76,7 @@ function escapeCSV(value: unknown): string {
 /**
  * Convert records to CSV format
  */
-function toCSV(records: Record<string, unknown>[], headers: string[]): string {
+export function toCSV(records: Record<string, unknown>[], headers: string[]): string {
   const lines: string[] = []
 
   // Header row
@@ -556,11 +557,18 @@ export async function executeImport(
         }
 
         try {
+          const category = String(record['category']) as RuleCategory
+          const logic = validateRuleLogic(category, (record['ruleLogic'] as Record<string, unknown>) || {})
+          if (!logic.success) {
+            errors.push(`Invalid rule logic for "${record['description']}": ${logic.issues.map(i => `${i.field} ${i.message}`).join('; ')}`)
+            continue
+          }
+
           const createData: RuleCreate = {
             organizationId,
-            category: String(record['category']) as RuleCategory,
+            category,
             description: String(record['description']),
-            ruleLogic: (record['ruleLogic'] as Record<string, unknown>) || {},
+            ruleLogic: logic.ruleLogic,
             priority: typeof record['priority'] === 'number' ? record['priority'] : 0,
             createdById: userId
           }
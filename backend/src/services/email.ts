@@ -1,17 +1,9 @@
-import { SESClient, SendEmailCommand } from '@aws-sdk/client-ses'
 import type { Schedule, StaffAvailability, Staff, Organization } from '@prisma/client'
-
-// Initialize SES client
-const sesClient = new SESClient({
-  region: process.env.AWS_REGION || 'us-east-1'
-})
+import { queueNotification, type QueueOptions } from './notifications.js'
 
 // Email configuration
-const EMAIL_FROM = process.env.EMAIL_FROM || 'noreply@sayitschedule.com'
-const EMAIL_REPLY_TO = process.env.EMAIL_REPLY_TO || 'support@sayitschedule.com'
 const EMAIL_ENABLED = process.env.EMAIL_ENABLED === 'true'
 const APP_URL = process.env.APP_URL || 'https://sayitschedule.com'
-const SES_CONFIGURATION_SET = process.env.SES_CONFIGURATION_SET || 'sayitschedule-production'
 
 /**
  * Escape HTML special characters to prevent XSS in email templates
@@ -52,6 +44,18 @@ export interface EmailRecipient {
   name: string
 }
 
+export interface NotificationOptions extends QueueOptions {
+  // Organization the email is sent for, whose notification log lists it
+  organizationId?: string | null
+}
+
+interface EmailNotification extends NotificationOptions {
+  // Which template it is, e.g. password_reset
+  kind: string
+  // Carries a sign-in link; the body is cleared once it's sent
+  sensitive?: boolean
+}
+
 interface SchedulePublishedData {
   schedule: Schedule
   organization: Organization
@@ -99,6 +103,20 @@ interface PasswordResetData {
   token: string
 }
 
+interface PortalLoginLinkData {
+  contact: {
+    email: string
+    name: string
+  }
+  organization: {
+    name: string
+    subdomain: string
+    primaryColor?: string | null
+  }
+  token: string
+  expiresInMinutes: number
+}
+
 interface SuperAdminInvitationData {
   user: {
     email: string
@@ -108,6 +126,46 @@ interface SuperAdminInvitationData {
   invitedByName: string
 }
 
+interface WaitlistOfferData {
+  contact: {
+    email: string
+    name: string
+  }
+  organization: {
+    name: string
+    subdomain: string
+    primaryColor?: string | null
+  }
+  patientName: string
+  therapistName: string
+  date: Date
+  startTime: string
+  endTime: string
+  expiresAt: Date
+  // Organization's timezone, for when the hold runs out
+  timezone: string
+}
+
+interface SessionReminderData {
+  contact: {
+    email: string
+    name: string
+  }
+  organization: {
+    name: string
+    subdomain: string
+    primaryColor?: string | null
+  }
+  patientName: string
+  therapistName: string
+  date: Date
+  startTime: string
+  endTime: string
+  roomName?: string | null
+  // Link to the portal, for contacts who can sign in to it
+  includePortalLink: boolean
+}
+
 interface LeadNotificationData {
   id: string
   name: string
@@ -120,13 +178,15 @@ interface LeadNotificationData {
 }
 
 /**
- * Send an email using AWS SES
+ * Queue an email in the notification outbox, which delivers it and retries
+ * failures. Returns false when there's no one valid to send it to.
  */
 async function sendEmail(
   to: string | string[],
   subject: string,
   htmlBody: string,
-  textBody: string
+  textBody: string,
+  notification: EmailNotification
 ): Promise<boolean> {
   if (!EMAIL_ENABLED) {
     console.log(`[Email] Skipping email (disabled): ${subject}`)
@@ -141,37 +201,22 @@ async function sendEmail(
     return false
   }
 
+  const { kind, sensitive, organizationId, tx, onQueued } = notification
   try {
-    const command = new SendEmailCommand({
-      Source: EMAIL_FROM,
-      Destination: {
-        ToAddresses: validRecipients
-      },
-      ReplyToAddresses: [EMAIL_REPLY_TO],
-      ConfigurationSetName: SES_CONFIGURATION_SET,
-      Message: {
-        Subject: {
-          Data: subject,
-          Charset: 'UTF-8'
-        },
-        Body: {
-          Html: {
-            Data: htmlBody,
-            Charset: 'UTF-8'
-          },
-          Text: {
-            Data: textBody,
-            Charset: 'UTF-8'
-          }
-        }
-      }
-    })
-
-    await sesClient.send(command)
-    console.log(`[Email] Sent: ${subject} to ${validRecipients.join(', ')}`)
+    await queueNotification({
+      organizationId,
+      channel: 'email',
+      kind,
+      recipients: validRecipients,
+      subject,
+      htmlBody,
+      textBody,
+      sensitive
+    }, { tx, onQueued })
     return true
   } catch (error) {
-    console.error(`[Email] Failed to send: ${subject}`, error)
+    console.error(`[Email] Failed to queue email: ${subject}`, error)
+    if (tx) throw error
     return false
   }
 }
@@ -310,7 +355,8 @@ function renderTransactionalEmailHtml(options: {
  * Send schedule published notification to all staff
  */
 export async function sendSchedulePublishedNotification(
-  data: SchedulePublishedData
+  data: SchedulePublishedData,
+  options: NotificationOptions = {}
 ): Promise<void> {
   const { schedule, organization, staff } = data
   const weekStart = formatWeekStart(schedule.weekStartDate)
@@ -359,7 +405,11 @@ Questions? Contact your administrator.
 
   // Send to each staff member individually for privacy
   for (const email of staffEmails) {
-    await sendEmail(email, subject, htmlBody, textBody)
+    await sendEmail(email, subject, htmlBody, textBody, {
+      organizationId: organization.id,
+      ...options,
+      kind: 'schedule_published'
+    })
   }
 }
 
@@ -368,7 +418,8 @@ Questions? Contact your administrator.
  */
 export async function sendTimeOffRequestSubmitted(
   data: TimeOffRequestData,
-  adminEmails: string[]
+  adminEmails: string[],
+  options: NotificationOptions = {}
 ): Promise<void> {
   const { availability, staff, organization } = data
   const requestDate = formatDate(availability.date)
@@ -441,7 +492,11 @@ Sent by Say It Schedule for ${orgName}.
 
   // Send individually for privacy
   for (const email of adminEmails) {
-    await sendEmail(email, subject, htmlBody, textBody)
+    await sendEmail(email, subject, htmlBody, textBody, {
+      organizationId: organization.id,
+      ...options,
+      kind: 'time_off_submitted'
+    })
   }
 }
 
@@ -449,7 +504,8 @@ Sent by Say It Schedule for ${orgName}.
  * Send time-off request approved/rejected notification to staff
  */
 export async function sendTimeOffReviewed(
-  data: TimeOffReviewedData
+  data: TimeOffReviewedData,
+  options: NotificationOptions = {}
 ): Promise<void> {
   const { availability, staff, organization, approved, reviewerNotes } = data
 
@@ -529,14 +585,19 @@ Sent by Say It Schedule for ${organization.name}.
 Questions? Contact your administrator.
 `
 
-  await sendEmail(staff.email, subject, htmlBody, textBody)
+  await sendEmail(staff.email, subject, htmlBody, textBody, {
+    organizationId: organization.id,
+    ...options,
+    kind: 'time_off_reviewed'
+  })
 }
 
 /**
  * Send user invitation email with password setup link
  */
 export async function sendUserInvitation(
-  data: UserInvitationData
+  data: UserInvitationData,
+  options: NotificationOptions = {}
 ): Promise<boolean> {
   const { user, organization, token, invitedByName } = data
 
@@ -580,7 +641,7 @@ Sent by Say It Schedule for ${orgName}.
 Questions? Reply to this email or contact your administrator.
 `
 
-  return sendEmail(user.email, subject, htmlBody, textBody)
+  return sendEmail(user.email, subject, htmlBody, textBody, { ...options, kind: 'user_invitation', sensitive: true })
 }
 
 /**
@@ -588,7 +649,8 @@ Questions? Reply to this email or contact your administrator.
  * Super admins don't belong to an organization, so they use the main app URL
  */
 export async function sendSuperAdminInvitation(
-  data: SuperAdminInvitationData
+  data: SuperAdminInvitationData,
+  options: NotificationOptions = {}
 ): Promise<boolean> {
   const { user, token, invitedByName } = data
 
@@ -640,14 +702,15 @@ Sent by Say It Schedule.
 Questions? Reply to this email.
 `
 
-  return sendEmail(user.email, subject, htmlBody, textBody)
+  return sendEmail(user.email, subject, htmlBody, textBody, { ...options, kind: 'super_admin_invitation', sensitive: true })
 }
 
 /**
  * Send password reset email with reset link
  */
 export async function sendPasswordResetEmail(
-  data: PasswordResetData
+  data: PasswordResetData,
+  options: NotificationOptions = {}
 ): Promise<boolean> {
   const { user, organization, token } = data
 
@@ -695,14 +758,191 @@ Sent by Say It Schedule for ${orgName}.
 Need help? Reply to this email or contact your administrator.
 `
 
-  return sendEmail(user.email, subject, htmlBody, textBody)
+  return sendEmail(user.email, subject, htmlBody, textBody, { ...options, kind: 'password_reset', sensitive: true })
+}
+
+/**
+ * Send a patient portal contact their sign-in link
+ */
+export async function sendPortalLoginLink(
+  data: PortalLoginLinkData,
+  options: NotificationOptions = {}
+): Promise<boolean> {
+  const { contact, organization, token, expiresInMinutes } = data
+
+  const orgName = organization.name
+  const primaryColor = sanitizeBrandColor(organization.primaryColor, '#2563eb')
+  // A fragment, so the token isn't sent in referrers to third-party assets
+  const loginUrl = buildOrgUrl(organization.subdomain, `/portal/verify#token=${token}`)
+
+  const subject = `Your ${orgName} portal login link`
+
+  const htmlBody = renderTransactionalEmailHtml({
+    brandName: orgName,
+    brandColor: primaryColor,
+    preheader: `Sign in to the ${orgName} patient portal. Link expires in ${expiresInMinutes} minutes.`,
+    heading: 'Sign in to the patient portal',
+    bodyHtml: `
+      <p style="margin: 0 0 12px 0;">Hi ${escapeHtml(contact.name)},</p>
+      <p style="margin: 0 0 18px 0;">Use the button below to sign in to the <strong>${escapeHtml(orgName)}</strong> patient portal.</p>
+      ${renderEmailButton(loginUrl, 'Sign in', primaryColor)}
+      ${renderEmailUrlFallback(loginUrl, primaryColor)}
+      <p style="margin: 14px 0 0 0; font-size: 13px; color: #6b7280;">This link expires in ${expiresInMinutes} minutes and can only be used once.</p>
+      <div style="margin: 14px 0 0 0; padding: 12px 14px; border-radius: 10px; background-color: #fffbeb; border: 1px solid #fde68a; color: #92400e; font-size: 13px; line-height: 1.5;">
+        <strong>Didn’t request this?</strong> You can ignore this email — no one can sign in without the link.
+      </div>
+    `,
+    footerHtml: `<p style="margin: 0;">Sent by Say It Schedule for ${escapeHtml(orgName)}.</p><p style="margin: 8px 0 0 0;">Questions? Contact the clinic.</p>`
+  })
+
+  const textBody = `
+${orgName} - Patient portal login
+
+Hi ${contact.name},
+
+Sign in to the ${orgName} patient portal: ${loginUrl}
+
+This link expires in ${expiresInMinutes} minutes and can only be used once.
+
+Didn't request this? You can safely ignore this email. No one can sign in without the link.
+
+---
+Sent by Say It Schedule for ${orgName}.
+Questions? Contact the clinic.
+`
+
+  return sendEmail(contact.email, subject, htmlBody, textBody, { ...options, kind: 'portal_login_link', sensitive: true })
+}
+
+/**
+ * Send a waitlisted patient's contact the slot being held for them
+ */
+export async function sendWaitlistOffer(
+  data: WaitlistOfferData,
+  options: NotificationOptions = {}
+): Promise<boolean> {
+  const { contact, organization, patientName, therapistName, startTime, endTime } = data
+
+  const orgName = organization.name
+  const primaryColor = sanitizeBrandColor(organization.primaryColor, '#2563eb')
+  const portalUrl = buildOrgUrl(organization.subdomain, '/portal/dashboard')
+  // Session dates are calendar dates stored at UTC midnight
+  const date = data.date.toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC'
+  })
+  const expiresAt = data.expiresAt.toLocaleString('en-US', {
+    weekday: 'long',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: data.timezone
+  })
+
+  const subject = `[${orgName}] An appointment opened up for ${patientName}`
+
+  const htmlBody = renderTransactionalEmailHtml({
+    brandName: orgName,
+    brandColor: primaryColor,
+    preheader: `${date}, ${startTime} - ${endTime} with ${therapistName} is being held for ${patientName}.`,
+    heading: 'An appointment opened up',
+    bodyHtml: `
+      <p style="margin: 0 0 12px 0;">Hi ${escapeHtml(contact.name)},</p>
+      <p style="margin: 0 0 12px 0;">A slot opened up and we're holding it for <strong>${escapeHtml(patientName)}</strong>, who is on the waitlist:</p>
+      <p style="margin: 0 0 18px 0;"><strong>${escapeHtml(date)}, ${escapeHtml(startTime)} - ${escapeHtml(endTime)}</strong> with ${escapeHtml(therapistName)}</p>
+      ${renderEmailButton(portalUrl, 'Claim this appointment', primaryColor)}
+      ${renderEmailUrlFallback(portalUrl, primaryColor)}
+      <p style="margin: 14px 0 0 0; font-size: 13px; color: #6b7280;">The slot is held until ${escapeHtml(expiresAt)}. After that it is offered to the next person on the waitlist.</p>
+    `,
+    footerHtml: `<p style="margin: 0;">Sent by Say It Schedule for ${escapeHtml(orgName)}.</p><p style="margin: 8px 0 0 0;">Questions? Contact the clinic.</p>`
+  })
+
+  const textBody = `
+${orgName} - An appointment opened up
+
+Hi ${contact.name},
+
+A slot opened up and we're holding it for ${patientName}, who is on the waitlist:
+
+${date}, ${startTime} - ${endTime} with ${therapistName}
+
+Claim it in the patient portal: ${portalUrl}
+
+The slot is held until ${expiresAt}. After that it is offered to the next person on the waitlist.
+
+---
+Sent by Say It Schedule for ${orgName}.
+Questions? Contact the clinic.
+`
+
+  return sendEmail(contact.email, subject, htmlBody, textBody, { ...options, kind: 'waitlist_offer' })
+}
+
+/**
+ * Remind a patient's contact of an upcoming session
+ */
+export async function sendSessionReminder(
+  data: SessionReminderData,
+  options: NotificationOptions = {}
+): Promise<boolean> {
+  const { contact, organization, patientName, therapistName, startTime, endTime, roomName } = data
+
+  const orgName = organization.name
+  const primaryColor = sanitizeBrandColor(organization.primaryColor, '#2563eb')
+  const portalUrl = buildOrgUrl(organization.subdomain, '/portal/dashboard')
+  // Session dates are calendar dates stored at UTC midnight
+  const date = data.date.toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    timeZone: 'UTC'
+  })
+  const where = roomName ? ` in ${roomName}` : ''
+
+  const subject = `[${orgName}] Reminder: ${patientName}'s appointment on ${date} at ${startTime}`
+
+  const htmlBody = renderTransactionalEmailHtml({
+    brandName: orgName,
+    brandColor: primaryColor,
+    preheader: `${patientName} has an appointment on ${date}, ${startTime} - ${endTime} with ${therapistName}.`,
+    heading: 'Appointment reminder',
+    bodyHtml: `
+      <p style="margin: 0 0 12px 0;">Hi ${escapeHtml(contact.name)},</p>
+      <p style="margin: 0 0 12px 0;">This is a reminder of <strong>${escapeHtml(patientName)}</strong>'s upcoming appointment:</p>
+      <p style="margin: 0 0 18px 0;"><strong>${escapeHtml(date)}, ${escapeHtml(startTime)} - ${escapeHtml(endTime)}</strong> with ${escapeHtml(therapistName)}${escapeHtml(where)}</p>
+      ${data.includePortalLink ? `${renderEmailButton(portalUrl, 'View in the portal', primaryColor)}
+      ${renderEmailUrlFallback(portalUrl, primaryColor)}` : ''}
+      <p style="margin: 14px 0 0 0; font-size: 13px; color: #6b7280;">If you can't make it, please let us know as soon as possible.</p>
+    `,
+    footerHtml: `<p style="margin: 0;">Sent by Say It Schedule for ${escapeHtml(orgName)}.</p><p style="margin: 8px 0 0 0;">Questions? Contact the clinic.</p>`
+  })
+
+  const textBody = `
+${orgName} - Appointment reminder
+
+Hi ${contact.name},
+
+This is a reminder of ${patientName}'s upcoming appointment:
+
+${date}, ${startTime} - ${endTime} with ${therapistName}${where}
+${data.includePortalLink ? `\nView it in the patient portal: ${portalUrl}\n` : ''}
+If you can't make it, please let us know as soon as possible.
+
+---
+Sent by Say It Schedule for ${orgName}.
+Questions? Contact the clinic.
+`
+
+  return sendEmail(contact.email, subject, htmlBody, textBody, { ...options, kind: 'session_reminder' })
 }
 
 /**
  * Send notification to sales team when a new lead is submitted
  */
 export async function sendLeadNotification(
-  lead: LeadNotificationData
+  lead: LeadNotificationData,
+  options: NotificationOptions = {}
 ): Promise<boolean> {
   const SALES_EMAIL = process.env.SALES_EMAIL || 'sales@sayitschedule.com'
   const subject = `New Lead: ${lead.name}${lead.company ? ` from ${lead.company}` : ''}`
@@ -778,7 +1018,7 @@ This lead was captured from Say It Schedule landing page.
 Lead ID: ${lead.id}
 `
 
-  return sendEmail(SALES_EMAIL, subject, htmlBody, textBody)
+  return sendEmail(SALES_EMAIL, subject, htmlBody, textBody, { ...options, kind: 'lead_notification' })
 }
 
 export const emailService = {
@@ -787,6 +1027,9 @@ export const emailService = {
   sendTimeOffReviewed,
   sendUserInvitation,
   sendPasswordResetEmail,
+  sendPortalLoginLink,
+  sendWaitlistOffer,
+  sendSessionReminder,
   sendLeadNotification,
   sendEmail
 }
@@ -0,0 +1,27 @@
+/**
+ * Email transport module
+ *
+ * Hands rendered emails to the transport EMAIL_TRANSPORT selects: AWS SES,
+ * any SMTP relay, or a local sink for development and tests. Called by the
+ * notification outbox; everything else sends email through the templates in
+ * email.ts.
+ */
+
+import type { EmailMessage } from './types.js'
+import { getEmailTransport } from './transportFactory.js'
+
+export * from './types.js'
+export type { SentEmail } from './transports/localSink.js'
+export {
+  getEmailTransport,
+  getConfiguredTransport,
+  getMemoryMailbox,
+} from './transportFactory.js'
+
+/**
+ * Send an email with the configured transport. Throws when it can't be
+ * handed over; returns the transport's message id.
+ */
+export async function deliverEmail(message: EmailMessage): Promise<string | undefined> {
+  return getEmailTransport().send(message)
+}
@@ -0,0 +1,65 @@
+/**
+ * Email transport factory
+ * Creates and manages singleton instances of email transports
+ */
+
+import type { EmailSender, EmailTransport, EmailTransportType } from './types.js'
+import { SesEmailTransport } from './transports/ses.js'
+import { SmtpEmailTransport } from './transports/smtp.js'
+import { FileEmailTransport, MemoryEmailTransport } from './transports/localSink.js'
+
+const transports = new Map<EmailTransportType, EmailTransport>()
+
+function getSender(): EmailSender {
+  return {
+    from: process.env.EMAIL_FROM || 'noreply@sayitschedule.com',
+    replyTo: process.env.EMAIL_REPLY_TO || 'support@sayitschedule.com'
+  }
+}
+
+function createTransport(type: EmailTransportType): EmailTransport {
+  switch (type) {
+    case 'ses':
+      return new SesEmailTransport(getSender())
+    case 'smtp':
+      return new SmtpEmailTransport(getSender())
+    case 'file':
+      return new FileEmailTransport(getSender())
+    case 'memory':
+      return new MemoryEmailTransport(getSender())
+    default:
+      throw new Error(`Unknown email transport: ${type}`)
+  }
+}
+
+/**
+ * Get the email transport configured by EMAIL_TRANSPORT
+ * Uses singleton pattern to reuse transport instances
+ */
+export function getEmailTransport(type: EmailTransportType = getConfiguredTransport()): EmailTransport {
+  let transport = transports.get(type)
+  if (!transport) {
+    transport = createTransport(type)
+    transports.set(type, transport)
+  }
+  return transport
+}
+
+/**
+ * Get the configured email transport type
+ * 'ses' unless EMAIL_TRANSPORT names another
+ */
+export function getConfiguredTransport(): EmailTransportType {
+  const envTransport = process.env.EMAIL_TRANSPORT?.toLowerCase() || 'ses'
+  if (envTransport === 'ses' || envTransport === 'smtp' || envTransport === 'file' || envTransport === 'memory') {
+    return envTransport
+  }
+  throw new Error(`Unknown email transport: ${envTransport}`)
+}
+
+/**
+ * The in-memory mailbox, for tests and local inspection
+ */
+export function getMemoryMailbox(): MemoryEmailTransport {
+  return getEmailTransport('memory') as MemoryEmailTransport
+}
@@ -0,0 +1,91 @@
+/**
+ * Local email sinks
+ * Compose each email exactly as it would be sent, but keep it on this machine:
+ * written to a directory as an .eml file, or held in an in-memory mailbox.
+ * For development and tests; nothing leaves the server.
+ */
+
+import { mkdir, writeFile } from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import nodemailer, { type Transporter } from 'nodemailer'
+import type { EmailMessage, EmailSender, EmailTransport } from '../types.js'
+
+export interface SentEmail extends EmailMessage {
+  messageId: string
+  sentAt: Date
+  // The full RFC 822 message, as an .eml file would hold it
+  raw: string
+}
+
+abstract class LocalSinkEmailTransport implements EmailTransport {
+  private composer: Transporter
+
+  constructor(private sender: EmailSender) {
+    this.composer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' })
+  }
+
+  protected abstract store(email: SentEmail): Promise<void>
+
+  async send(message: EmailMessage): Promise<string | undefined> {
+    const messageId = `<${randomUUID()}@local.sayitschedule>`
+    const info = await this.composer.sendMail({
+      from: this.sender.from,
+      replyTo: this.sender.replyTo,
+      to: message.to,
+      subject: message.subject,
+      html: message.htmlBody,
+      text: message.textBody,
+      messageId
+    })
+
+    await this.store({
+      ...message,
+      messageId,
+      sentAt: new Date(),
+      raw: (info.message as Buffer).toString('utf8')
+    })
+
+    return messageId
+  }
+}
+
+/**
+ * Writes each email to EMAIL_SINK_DIR (default: a sayitschedule-mail folder in
+ * the system temp directory) as an .eml file any mail client can open.
+ */
+export class FileEmailTransport extends LocalSinkEmailTransport {
+  readonly directory: string
+
+  constructor(sender: EmailSender) {
+    super(sender)
+    this.directory = path.resolve(process.env.EMAIL_SINK_DIR || path.join(os.tmpdir(), 'sayitschedule-mail'))
+  }
+
+  protected async store(email: SentEmail): Promise<void> {
+    await mkdir(this.directory, { recursive: true })
+
+    const stamp = email.sentAt.toISOString().replace(/[:.]/g, '-')
+    const recipient = email.to[0].replace(/[^a-zA-Z0-9@._-]/g, '_')
+    const file = path.join(this.directory, `${stamp}-${email.messageId.slice(1, 9)}-${recipient}.eml`)
+
+    await writeFile(file, email.raw, 'utf8')
+    console.log(`[Email] Wrote "${email.subject}" to ${file}`)
+  }
+}
+
+/**
+ * Keeps every email in memory, newest last, for tests and local inspection.
+ */
+export class MemoryEmailTransport extends LocalSinkEmailTransport {
+  readonly mailbox: SentEmail[] = []
+
+  protected async store(email: SentEmail): Promise<void> {
+    this.mailbox.push(email)
+  }
+
+  clear(): void {
+    this.mailbox.length = 0
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * AWS SES email transport
+ * Sends through the SES API, tagged with a configuration set so bounces are reported
+ */
+
+import { SESClient, SendEmailCommand } from '@aws-sdk/client-ses'
+import type { EmailMessage, EmailSender, EmailTransport } from '../types.js'
+
+export class SesEmailTransport implements EmailTransport {
+  private client: SESClient
+  private configurationSet: string
+
+  constructor(private sender: EmailSender) {
+    this.client = new SESClient({
+      region: process.env.AWS_REGION || 'us-east-1'
+    })
+    this.configurationSet = process.env.SES_CONFIGURATION_SET || 'sayitschedule-production'
+  }
+
+  async send(message: EmailMessage): Promise<string | undefined> {
+    const command = new SendEmailCommand({
+      Source: this.sender.from,
+      Destination: {
+        ToAddresses: message.to
+      },
+      ReplyToAddresses: [this.sender.replyTo],
+      ConfigurationSetName: this.configurationSet,
+      Message: {
+        Subject: {
+          Data: message.subject,
+          Charset: 'UTF-8'
+        },
+        Body: {
+          Html: {
+            Data: message.htmlBody,
+            Charset: 'UTF-8'
+          },
+          Text: {
+            Data: message.textBody,
+            Charset: 'UTF-8'
+          }
+        }
+      }
+    })
+
+    const result = await this.client.send(command)
+    return result.MessageId
+  }
+}
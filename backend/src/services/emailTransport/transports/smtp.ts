@@ -0,0 +1,50 @@
+/**
+ * SMTP email transport
+ * Sends through any SMTP relay (SendGrid, Postmark, Mailgun, an office server, ...)
+ */
+
+import nodemailer, { type Transporter } from 'nodemailer'
+import type SMTPTransport from 'nodemailer/lib/smtp-transport/index.js'
+import type { EmailMessage, EmailSender, EmailTransport } from '../types.js'
+
+export class SmtpEmailTransport implements EmailTransport {
+  private transporter: Transporter<SMTPTransport.SentMessageInfo>
+
+  constructor(private sender: EmailSender) {
+    const host = process.env.SMTP_HOST
+    if (!host) {
+      throw new Error('SMTP_HOST is required for the smtp email transport')
+    }
+
+    const port = parseInt(process.env.SMTP_PORT || '587', 10)
+    const user = process.env.SMTP_USER
+
+    this.transporter = nodemailer.createTransport({
+      host,
+      port,
+      // Implicit TLS on 465; other ports upgrade with STARTTLS when offered
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+      auth: user ? { user, pass: process.env.SMTP_PASSWORD || '' } : undefined
+    })
+  }
+
+  async send(message: EmailMessage): Promise<string | undefined> {
+    const info = await this.transporter.sendMail({
+      from: this.sender.from,
+      replyTo: this.sender.replyTo,
+      to: message.to,
+      subject: message.subject,
+      html: message.htmlBody,
+      text: message.textBody
+    })
+
+    // Nodemailer throws when every recipient is refused; a partial refusal isn't retried,
+    // as that would send the others a second copy
+    if (info.rejected.length > 0) {
+      const rejected = info.rejected.map(r => typeof r === 'string' ? r : r.address)
+      console.warn(`[Email] SMTP server refused ${rejected.join(', ')} for: ${message.subject}`)
+    }
+
+    return info.messageId
+  }
+}
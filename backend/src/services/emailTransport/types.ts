@@ -0,0 +1,26 @@
+/**
+ * Email transport types and interfaces
+ * Provides abstraction for the services that deliver rendered emails
+ */
+
+export type EmailTransportType = 'ses' | 'smtp' | 'file' | 'memory'
+
+export interface EmailMessage {
+  to: string[]
+  subject: string
+  htmlBody: string
+  textBody: string
+}
+
+export interface EmailSender {
+  from: string
+  replyTo: string
+}
+
+export interface EmailTransport {
+  /**
+   * Deliver one email. Throws when it can't be handed over; returns the
+   * message id the provider assigned, which bounce notifications refer to.
+   */
+  send(message: EmailMessage): Promise<string | undefined>
+}
@@ -0,0 +1,217 @@
+/**
+ * Schedule Generation Jobs
+ *
+ * Runs schedule generation in the background so the request that starts it
+ * can return right away. Each job is persisted with its status and progress
+ * (queued -> running -> validating -> done, or failed / cancelled), and every
+ * update is pushed to the job's subscribers, e.g. the job stream WebSocket.
+ *
+ * Jobs run inside the server process. Cancelling stops generation at the
+ * next stage boundary; an AI request already in flight is left to finish and
+ * its result is discarded.
+ */
+
+import {
+  generationJobRepository,
+  ACTIVE_JOB_STATUSES,
+  type ScheduleGenerationJob,
+  type GenerationJobStatus,
+  type GenerationJobUpdate
+} from '../repositories/generationJobs.js'
+import { scheduleRepository, type Schedule } from '../repositories/schedules.js'
+import {
+  generateSchedule,
+  saveGeneratedSchedule,
+  type GenerationProgress,
+  type ScheduleGenerationOutput
+} from './scheduler.js'
+
+export interface GenerationJobEvent {
+  jobId: string
+  status: GenerationJobStatus
+  progress: number
+  message: string | null
+  scheduleId: string | null
+  error: string | null
+}
+
+export type GenerationJobListener = (event: GenerationJobEvent) => void
+
+export interface CompletedGenerationJob {
+  schedule: Schedule
+  result: ScheduleGenerationOutput
+}
+
+const listeners = new Map<string, Set<GenerationJobListener>>()
+const controllers = new Map<string, AbortController>()
+
+export function isJobFinished(status: GenerationJobStatus): boolean {
+  return !ACTIVE_JOB_STATUSES.includes(status)
+}
+
+export function toJobEvent(job: ScheduleGenerationJob): GenerationJobEvent {
+  return {
+    jobId: job.id,
+    status: job.status,
+    progress: job.progress,
+    message: job.message,
+    scheduleId: job.scheduleId,
+    error: job.error
+  }
+}
+
+/**
+ * Listen for a job's updates. Returns a function that stops listening.
+ */
+export function subscribeToGenerationJob(jobId: string, listener: GenerationJobListener): () => void {
+  let jobListeners = listeners.get(jobId)
+  if (!jobListeners) {
+    jobListeners = new Set()
+    listeners.set(jobId, jobListeners)
+  }
+  jobListeners.add(listener)
+
+  return () => {
+    jobListeners.delete(listener)
+    if (jobListeners.size === 0 && listeners.get(jobId) === jobListeners) {
+      listeners.delete(jobId)
+    }
+  }
+}
+
+function publish(job: ScheduleGenerationJob): void {
+  const event = toJobEvent(job)
+  for (const listener of listeners.get(job.id) ?? []) {
+    try {
+      listener(event)
+    } catch (err) {
+      console.error('[GenerationJobs] Listener failed:', err)
+    }
+  }
+}
+
+/**
+ * Persist and publish an update. Returns false when the job had already
+ * finished, e.g. because it was cancelled.
+ */
+async function updateJob(jobId: string, data: GenerationJobUpdate): Promise<boolean> {
+  const job = await generationJobRepository.updateIfActive(jobId, data)
+  if (!job) return false
+  publish(job)
+  return true
+}
+
+function describeGenerationError(error: unknown): string {
+  if (error instanceof Error) {
+    if (error.message.includes('AI service error')) {
+      return 'AI scheduling service temporarily unavailable. Please try again.'
+    }
+    if (
+      error.message.includes('No active staff') ||
+      error.message.includes('No active patients') ||
+      error.message.includes('no active session specs')
+    ) {
+      return error.message
+    }
+  }
+  return 'Failed to generate schedule. Please try again.'
+}
+
+/**
+ * Run a queued job to completion and save its schedule as a draft. Returns
+ * the schedule and generation result, or null when the job failed or was
+ * cancelled (the job record says which).
+ */
+export async function runGenerationJob(job: ScheduleGenerationJob): Promise<CompletedGenerationJob | null> {
+  const controller = new AbortController()
+  controllers.set(job.id, controller)
+
+  // Progress is reported synchronously, so queue the writes to keep them in order
+  let progressWrites: Promise<unknown> = Promise.resolve()
+  const onProgress = (progress: GenerationProgress) => {
+    progressWrites = progressWrites.then(() => updateJob(job.id, {
+      status: progress.stage === 'validating' ? 'validating' : 'running',
+      progress: progress.percent,
+      message: progress.message
+    }))
+  }
+
+  try {
+    const started = await updateJob(job.id, { status: 'running', message: 'Starting', startedAt: new Date() })
+    if (!started) return null
+
+    const result = await generateSchedule(job.organizationId, job.weekStartDate, {
+      engine: job.engine ?? undefined,
+      onProgress,
+      signal: controller.signal
+    })
+    await progressWrites
+    if (controller.signal.aborted) return null
+
+    const schedule = await saveGeneratedSchedule(job.organizationId, job.weekStartDate, job.createdById, result)
+    const completed = await updateJob(job.id, {
+      status: 'done',
+      progress: 100,
+      message: `Generated ${result.stats.totalSessions} sessions`,
+      scheduleId: schedule.id,
+      result: {
+        engine: result.engine,
+        stats: result.stats,
+        quality: result.quality,
+        warnings: result.warnings,
+        unmetDemand: result.unmetDemand
+      },
+      finishedAt: new Date()
+    })
+    // Cancelled while the draft was being saved, so it's not wanted
+    if (!completed) {
+      await scheduleRepository.delete(schedule.id, job.organizationId)
+      return null
+    }
+
+    return { schedule, result }
+  } catch (error) {
+    await progressWrites.catch(() => undefined)
+    if (controller.signal.aborted) return null
+
+    console.error(`[GenerationJobs] Job ${job.id} failed:`, error)
+    await updateJob(job.id, {
+      status: 'failed',
+      message: 'Generation failed',
+      error: describeGenerationError(error),
+      finishedAt: new Date()
+    })
+    return null
+  } finally {
+    controllers.delete(job.id)
+  }
+}
+
+/**
+ * Cancel a job that has not finished yet. Returns the job as it stands
+ * afterwards (unchanged if it had already finished), or null if not found.
+ */
+export async function cancelGenerationJob(jobId: string, organizationId: string): Promise<ScheduleGenerationJob | null> {
+  const job = await generationJobRepository.findById(jobId, organizationId)
+  if (!job || isJobFinished(job.status)) return job
+
+  const cancelled = await generationJobRepository.updateIfActive(jobId, {
+    status: 'cancelled',
+    message: 'Cancelled',
+    finishedAt: new Date()
+  })
+  controllers.get(jobId)?.abort()
+
+  if (!cancelled) {
+    return generationJobRepository.findById(jobId, organizationId)
+  }
+  publish(cancelled)
+  return cancelled
+}
+
+/**
+ * Fail the jobs a previous server process left unfinished.
+ */
+export async function failInterruptedGenerationJobs(): Promise<number> {
+  return generationJobRepository.failActive('Generation was interrupted by a server restart. Please try again.')
+}
@@ -0,0 +1,169 @@
+/**
+ * Holidays
+ *
+ * Works out when the clinic is closed: the US federal holidays, unless the
+ * organization turned them off on the Settings page, plus its custom
+ * holidays. A custom holiday may close the clinic for part of a day only, and
+ * recurring custom holidays repeat on the same month and day every year.
+ * Federal holiday dates are calculated, so nothing needs to be seeded; one
+ * falling on a Saturday is observed the Friday before and one falling on a
+ * Sunday the Monday after, as federal offices do.
+ *
+ * Dates are YYYY-MM-DD strings, the same form schedule generation uses.
+ */
+
+import { holidayRepository, type CustomHoliday } from '../repositories/holidays.js'
+import { organizationSettingsRepository } from '../repositories/organizationSettings.js'
+import type { ClinicClosure } from './aiProvider.js'
+import { timeToMinutes } from '../utils/timezone.js'
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * The nth weekday (0 = Sunday) of a month (0 = January); n = -1 is the last one.
+ */
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, n: number): string {
+  if (n === -1) {
+    const last = new Date(Date.UTC(year, month + 1, 0))
+    last.setUTCDate(last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7))
+    return toDateString(last)
+  }
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay()
+  const day = 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7
+  return toDateString(new Date(Date.UTC(year, month, day)))
+}
+
+function fixedDate(year: number, month: number, day: number): string {
+  return toDateString(new Date(Date.UTC(year, month, day)))
+}
+
+const FEDERAL_HOLIDAYS: { name: string; date: (year: number) => string }[] = [
+  { name: "New Year's Day", date: year => fixedDate(year, 0, 1) },
+  { name: 'Martin Luther King Jr. Day', date: year => nthWeekdayOfMonth(year, 0, 1, 3) },
+  { name: "Presidents' Day", date: year => nthWeekdayOfMonth(year, 1, 1, 3) },
+  { name: 'Memorial Day', date: year => nthWeekdayOfMonth(year, 4, 1, -1) },
+  { name: 'Juneteenth', date: year => fixedDate(year, 5, 19) },
+  { name: 'Independence Day', date: year => fixedDate(year, 6, 4) },
+  { name: 'Labor Day', date: year => nthWeekdayOfMonth(year, 8, 1, 1) },
+  { name: 'Columbus Day', date: year => nthWeekdayOfMonth(year, 9, 1, 2) },
+  { name: 'Veterans Day', date: year => fixedDate(year, 10, 11) },
+  { name: 'Thanksgiving', date: year => nthWeekdayOfMonth(year, 10, 4, 4) },
+  { name: 'Christmas Day', date: year => fixedDate(year, 11, 25) }
+]
+
+/**
+ * The day a holiday is observed: Friday for a Saturday, Monday for a Sunday.
+ */
+function observedDate(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`)
+  const shift = day.getUTCDay() === 6 ? -1 : day.getUTCDay() === 0 ? 1 : 0
+  day.setUTCDate(day.getUTCDate() + shift)
+  return toDateString(day)
+}
+
+/**
+ * The year's federal holidays on their observed dates. New Year's Day on a
+ * Saturday is observed on December 31 of the year before.
+ */
+export function getFederalHolidays(year: number): { name: string; date: string }[] {
+  return FEDERAL_HOLIDAYS.map(holiday => {
+    const date = holiday.date(year)
+    const observed = observedDate(date)
+    return { name: observed === date ? holiday.name : `${holiday.name} (observed)`, date: observed }
+  })
+}
+
+/**
+ * The federal holiday observed on a date, or null.
+ */
+export function getFederalHoliday(date: string): { name: string; date: string } | null {
+  const year = Number(date.slice(0, 4))
+  // December 31 may be the next year's New Year's Day, observed
+  return [...getFederalHolidays(year), ...getFederalHolidays(year + 1)].find(h => h.date === date) ?? null
+}
+
+/**
+ * Closures for the custom holidays that fall between from and to (inclusive),
+ * with recurring holidays repeated in every year of the range.
+ */
+export function expandHolidays(holidays: CustomHoliday[], from: string, to: string): ClinicClosure[] {
+  const closures: ClinicClosure[] = []
+  const firstYear = Number(from.slice(0, 4))
+  const lastYear = Number(to.slice(0, 4))
+
+  for (const holiday of holidays) {
+    const date = toDateString(holiday.date)
+    const dates = holiday.recurring
+      ? Array.from({ length: lastYear - firstYear + 1 }, (_, i) => `${firstYear + i}${date.slice(4)}`)
+      : [date]
+
+    for (const day of dates) {
+      if (day < from || day > to) continue
+      closures.push({
+        date: day,
+        name: holiday.name,
+        startTime: holiday.startTime,
+        endTime: holiday.endTime
+      })
+    }
+  }
+
+  return closures
+}
+
+/**
+ * Every federal and custom holiday closure between from and to (inclusive),
+ * ordered by date. Federal holidays are left out for organizations that stay
+ * open on them.
+ */
+export async function getClinicClosures(organizationId: string, from: Date, to: Date): Promise<ClinicClosure[]> {
+  const fromDate = toDateString(from)
+  const toDate = toDateString(to)
+
+  const [holidays, closeOnFederalHolidays] = await Promise.all([
+    holidayRepository.findByOrganization(organizationId, { from, to }),
+    organizationSettingsRepository.closesOnFederalHolidays(organizationId)
+  ])
+  const closures = expandHolidays(holidays, fromDate, toDate)
+
+  if (closeOnFederalHolidays) {
+    // The next year's New Year's Day may be observed on December 31
+    for (let year = from.getUTCFullYear(); year <= to.getUTCFullYear() + 1; year++) {
+      for (const holiday of getFederalHolidays(year)) {
+        if (holiday.date >= fromDate && holiday.date <= toDate) {
+          closures.push({ date: holiday.date, name: holiday.name, startTime: null, endTime: null })
+        }
+      }
+    }
+  }
+
+  return closures.sort((a, b) => a.date.localeCompare(b.date) || (a.startTime ?? '').localeCompare(b.startTime ?? ''))
+}
+
+/**
+ * The closure a session on this date and time runs into, or null. Without a
+ * time only closures that last all day count.
+ */
+export function findClosure(
+  closures: ClinicClosure[],
+  date: string,
+  startTime?: string,
+  endTime?: string
+): ClinicClosure | null {
+  for (const closure of closures) {
+    if (closure.date !== date) continue
+    if (!closure.startTime || !closure.endTime) return closure
+    if (!startTime || !endTime) continue
+    if (timeToMinutes(startTime) < timeToMinutes(closure.endTime) && timeToMinutes(closure.startTime) < timeToMinutes(endTime)) {
+      return closure
+    }
+  }
+  return null
+}
+
+export function describeClosure(closure: ClinicClosure): string {
+  const hours = closure.startTime && closure.endTime ? ` ${closure.startTime}-${closure.endTime}` : ''
+  return `${closure.name} (${closure.date}${hours})`
+}
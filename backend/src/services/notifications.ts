@@ -0,0 +1,184 @@
+/**
+ * Notification Outbox
+ *
+ * Emails and text messages aren't sent inline. They're written to the
+ * notifications table first, inside the caller's transaction when it has
+ * one, and delivered from there: straight away when queued outside a
+ * transaction, otherwise by the outbox worker once the transaction has
+ * committed. A failed attempt is retried with exponential backoff (1, 2, 4,
+ * 8, 16 minutes); after MAX_ATTEMPTS the notification is marked failed, for
+ * an admin to resend. SES bounce notifications mark sent emails bounced, and
+ * SMS delivery receipts mark texts delivered or bounced.
+ *
+ * Sensitive messages (sign-in links and codes) have their bodies cleared
+ * once they're sent or given up on, so they can't be read back or resent.
+ */
+
+import {
+  notificationRepository,
+  type Notification,
+  type NotificationCreate,
+  type NotificationStatus
+} from '../repositories/notifications.js'
+import type { DbClient } from '../repositories/base.js'
+import { deliverEmail } from './emailTransport/index.js'
+import { deliverSms } from './smsProvider/index.js'
+
+export const MAX_ATTEMPTS = 6
+const RETRY_BASE_MS = 60 * 1000
+const RETRY_MAX_MS = 60 * 60 * 1000
+// How long an attempt holds a notification before another worker may take it
+const ATTEMPT_LEASE_MS = 5 * 60 * 1000
+const WORKER_BATCH_SIZE = 50
+
+export interface QueueOptions {
+  // Queue inside the caller's transaction; delivered after it commits
+  tx?: DbClient
+  // Called with the notification once it's written, to link it to what it's for
+  onQueued?: (notification: Notification) => void
+}
+
+export class NotificationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'NotificationError'
+  }
+}
+
+/**
+ * Wait before the next attempt, after the given number of failed ones.
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS)
+}
+
+async function send(notification: Notification): Promise<string | undefined> {
+  if (!notification.textBody) {
+    throw new NotificationError('The message body is no longer available')
+  }
+
+  if (notification.channel === 'sms') {
+    return deliverSms(notification.recipients[0], notification.textBody, notification.organizationId)
+  }
+
+  return deliverEmail({
+    to: notification.recipients,
+    subject: notification.subject ?? '',
+    htmlBody: notification.htmlBody ?? notification.textBody,
+    textBody: notification.textBody
+  })
+}
+
+/**
+ * Make one delivery attempt, if the notification is due one. Returns its
+ * status afterwards, or null when it wasn't due.
+ */
+export async function deliverNotification(id: string, now: Date = new Date()): Promise<NotificationStatus | null> {
+  const notification = await notificationRepository.claim(id, now, new Date(now.getTime() + ATTEMPT_LEASE_MS))
+  if (!notification) return null
+
+  const attempts = notification.attempts + 1
+  const scrubbed = notification.sensitive ? { textBody: null, htmlBody: null } : {}
+
+  try {
+    const providerMessageId = await send(notification)
+    await notificationRepository.update(id, {
+      status: 'sent',
+      attempts,
+      sentAt: new Date(),
+      providerMessageId: providerMessageId ?? null,
+      lastError: null,
+      ...scrubbed
+    })
+    return 'sent'
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error)
+
+    if (attempts >= MAX_ATTEMPTS) {
+      console.error(`[Notifications] Giving up on ${notification.kind} ${id} after ${attempts} attempts:`, error)
+      await notificationRepository.update(id, { status: 'failed', attempts, lastError, ...scrubbed })
+      return 'failed'
+    }
+
+    console.warn(`[Notifications] Attempt ${attempts} of ${notification.kind} ${id} failed: ${lastError}`)
+    await notificationRepository.update(id, {
+      attempts,
+      lastError,
+      nextAttemptAt: new Date(now.getTime() + retryDelayMs(attempts))
+    })
+    return 'queued'
+  }
+}
+
+/**
+ * Queue a notification. Outside a transaction, the first attempt is made
+ * before this returns.
+ */
+export async function queueNotification(data: NotificationCreate, options: QueueOptions = {}): Promise<Notification> {
+  const notification = await notificationRepository.create(data, options.tx)
+  options.onQueued?.(notification)
+
+  if (!options.tx) {
+    await deliverNotification(notification.id)
+  }
+
+  return notification
+}
+
+/**
+ * Deliver the notifications that are due, for the outbox worker. Returns how
+ * many were sent.
+ */
+export async function processOutbox(now: Date = new Date()): Promise<number> {
+  const ids = await notificationRepository.findDueIds(now, WORKER_BATCH_SIZE)
+
+  let sent = 0
+  for (const id of ids) {
+    try {
+      if (await deliverNotification(id, now) === 'sent') sent++
+    } catch (error) {
+      console.error(`[Notifications] Failed to deliver ${id}:`, error)
+    }
+  }
+
+  return sent
+}
+
+/**
+ * Queue a failed or bounced notification again, with a fresh set of attempts.
+ */
+export async function resendNotification(notification: Notification): Promise<NotificationStatus> {
+  if (notification.status !== 'failed' && notification.status !== 'bounced') {
+    throw new NotificationError('Only failed or bounced notifications can be resent')
+  }
+  if (!notification.textBody) {
+    throw new NotificationError('This notification held a sign-in link or code and can\'t be resent. Send a new one instead.')
+  }
+
+  await notificationRepository.update(notification.id, {
+    status: 'queued',
+    attempts: 0,
+    nextAttemptAt: new Date(),
+    lastError: null
+  })
+
+  return (await deliverNotification(notification.id)) ?? 'queued'
+}
+
+/**
+ * Mark the email SES sent with this message id bounced.
+ */
+export async function recordBounce(providerMessageId: string, reason: string): Promise<boolean> {
+  return (await notificationRepository.markBounced(providerMessageId, reason)) > 0
+}
+
+/**
+ * Apply an SMS provider's delivery receipt to the text it sent: delivered, or
+ * bounced when the carrier couldn't deliver it.
+ */
+export async function recordSmsReceipt(providerMessageId: string, delivered: boolean, reason?: string): Promise<boolean> {
+  const count = delivered
+    ? await notificationRepository.markDelivered(providerMessageId, 'sms', new Date())
+    : await notificationRepository.markBounced(providerMessageId, reason ?? 'Undeliverable', 'sms')
+  return count > 0
+}
@@ -31,6 +31,33 @@ export interface PatientSessionSpecForScheduling {
   preferredTimes: string[] | null
   preferredRoomId?: string | null
   requiredRoomCapabilities?: string[]
+  // Group specs with the same name are scheduled together, up to this many patients per session
+  groupSize?: number | null
+}
+
+export interface PatientAvailabilityForScheduling {
+  weekly: Record<string, { start: string; end: string } | null>
+  exceptions?: {
+    startDate: string
+    endDate: string
+    available: boolean
+    start?: string
+    end?: string
+    reason?: string
+  }[]
+}
+
+export interface PatientAuthorizationForScheduling {
+  id: string
+  payer: string
+  authNumber: string
+  // Null when the authorization covers all of the patient's sessions
+  sessionSpecId: string | null
+  unitMinutes: number
+  startDate: string
+  endDate: string
+  // Units the schedule week may still use
+  remainingUnits: number
 }
 
 export interface PatientForScheduling {
@@ -38,6 +65,10 @@ export interface PatientForScheduling {
   identifier: string | null
   name: string
   gender: 'male' | 'female' | 'other'
+  // Hard limit on when the patient can attend; absent means any time
+  availability?: PatientAvailabilityForScheduling | null
+  // Payer authorizations in effect this week; covered specs can't exceed them
+  authorizations?: PatientAuthorizationForScheduling[]
   sessionSpecs: PatientSessionSpecForScheduling[]
 }
 
@@ -64,6 +95,12 @@ export interface GeneratedSession {
   startTime: string // HH:mm
   endTime: string // HH:mm
   notes?: string
+  // Group sessions only: the most patients that can enroll, and every enrolled
+  // patient with their own spec (patientId and sessionSpecId are the first)
+  capacity?: number
+  participants?: { patientId: string; sessionSpecId: string }[]
+  // Supervisors and co-treaters present besides the therapist
+  staffAssignments?: { staffId: string; role: 'supervisor' | 'co_treater' }[]
 }
 
 export interface ScheduleGenerationResult {
@@ -71,6 +108,18 @@ export interface ScheduleGenerationResult {
   warnings: string[]
 }
 
+// Session spec ID -> therapist ID carried over from the previous week
+export type PreferredPairings = Record<string, string>
+
+// A day or part of a day the clinic is closed (holiday)
+export interface ClinicClosure {
+  date: string // YYYY-MM-DD
+  name: string
+  // Both null when the clinic is closed all day
+  startTime: string | null // HH:mm
+  endTime: string | null // HH:mm
+}
+
 // Rule Analysis types
 export interface RuleConflict {
   ruleIds: string[]
@@ -142,14 +191,38 @@ function formatSessionSpecsForPrompt(specs: PatientSessionSpecForScheduling[]):
     Required Certifications: [${spec.requiredCertifications.join(', ')}]
     Preferred Times: [${(spec.preferredTimes || []).join(', ')}]
     Preferred Room: ${spec.preferredRoomId || 'None'}
-    Required Room Capabilities: [${roomCaps}]`
+    Required Room Capabilities: [${roomCaps}]${spec.groupSize ? `
+    Group Size: ${spec.groupSize}` : ''}`
   }).join('\n')
 }
 
+function formatAvailabilityForPrompt(availability: PatientAvailabilityForScheduling): string {
+  const weekly = Object.entries(availability.weekly)
+    .filter(([, hours]) => hours)
+    .map(([day, hours]) => `${day} ${hours!.start}-${hours!.end}`)
+    .join(', ')
+  const exceptions = (availability.exceptions || []).map(e => {
+    const hours = !e.available ? 'unavailable' : e.start && e.end ? `${e.start}-${e.end}` : 'any time'
+    return `${e.startDate} to ${e.endDate} ${hours}${e.reason ? ` (${e.reason})` : ''}`
+  }).join('; ')
+  return `${weekly || 'none'} (unavailable at all other times)${exceptions ? `; exceptions: ${exceptions}` : ''}`
+}
+
+function formatAuthorizationsForPrompt(authorizations: PatientAuthorizationForScheduling[]): string {
+  return authorizations.map(a => {
+    const minutes = a.remainingUnits * a.unitMinutes
+    return `${a.sessionSpecId ? `spec ${a.sessionSpecId}` : 'all specs'} ${a.startDate} to ${a.endDate}, ${minutes} minutes left`
+  }).join('; ')
+}
+
 function formatPatientsForPrompt(patients: PatientForScheduling[]): string {
   return patients.map(p => {
+    const availability = p.availability ? `
+  Availability (hard limit): ${formatAvailabilityForPrompt(p.availability)}` : ''
+    const authorizations = p.authorizations?.length ? `
+  Insurance Authorizations (hard limit): ${formatAuthorizationsForPrompt(p.authorizations)}` : ''
     return `- ID: ${p.id}
-  Gender: ${p.gender}
+  Gender: ${p.gender}${availability}${authorizations}
   Session Specs:
 ${formatSessionSpecsForPrompt(p.sessionSpecs)}`
   }).join('\n')
@@ -170,6 +243,26 @@ function formatRulesForPrompt(rules: RuleForScheduling[]): string {
   }).join('\n')
 }
 
+function formatPairingsForPrompt(pairings: PreferredPairings): string {
+  return Object.entries(pairings).map(([sessionSpecId, therapistId]) => {
+    return `- Session Spec ID: ${sessionSpecId} -> Therapist ID: ${therapistId}`
+  }).join('\n')
+}
+
+function formatClosuresForPrompt(closures: ClinicClosure[]): string {
+  return closures.map(c => {
+    const hours = c.startTime && c.endTime ? `${c.startTime}-${c.endTime}` : 'all day'
+    return `- ${c.date} ${hours}: ${c.name}`
+  }).join('\n')
+}
+
+function formatBookedForPrompt(booked: GeneratedSession[]): string {
+  return booked.map(b => {
+    const room = b.roomId ? `, Room ID: ${b.roomId}` : ''
+    return `- ${b.date} ${b.startTime}-${b.endTime}: Therapist ID: ${b.therapistId}, Patient ID: ${b.patientId}${room}`
+  }).join('\n')
+}
+
 function getWeekDates(weekStartDate: Date): string[] {
   const dates: string[] = []
   for (let i = 0; i < 5; i++) { // Monday to Friday
@@ -185,7 +278,10 @@ export async function generateScheduleWithAI(
   staff: StaffForScheduling[],
   patients: PatientForScheduling[],
   rules: RuleForScheduling[],
-  rooms: RoomForScheduling[] = []
+  rooms: RoomForScheduling[] = [],
+  pairings: PreferredPairings = {},
+  booked: GeneratedSession[] = [],
+  closures: ClinicClosure[] = []
 ): Promise<ScheduleGenerationResult> {
   const weekDates = getWeekDates(weekStartDate)
   const hasRooms = rooms.length > 0
@@ -195,10 +291,10 @@ export async function generateScheduleWithAI(
 CRITICAL RULES:
 1. Each therapist can only have ONE session at a time (no overlapping sessions)
 2. Each patient can only have ONE session at a time (no overlapping sessions)
-3. Sessions must be within the therapist's working hours for that day
+3. Sessions must be within the therapist's working hours for that day and the patient's availability, if given
 4. Therapists must have ALL required certifications for the specific session spec being scheduled
 5. Try to honor gender pairing rules when possible
-6. Each patient session spec should receive its required number of sessions per week
+6. Each patient session spec should receive its required number of sessions per week, but never more session time than its insurance authorization has left, and only on dates the authorization covers
 7. Distribute sessions evenly across the week when possible
 8. Standard session duration is 60 minutes unless otherwise specified${hasRooms ? `
 9. Assign rooms to sessions when rooms are available
@@ -213,6 +309,21 @@ You must return ONLY a valid JSON object with no additional text.`
 ROOMS (${rooms.length} rooms):
 ${formatRoomsForPrompt(rooms)}` : ''
 
+  const pairingsSection = Object.keys(pairings).length > 0 ? `
+
+PREFERRED PAIRINGS (keep these therapists from the previous week unless a rule or availability prevents it):
+${formatPairingsForPrompt(pairings)}` : ''
+
+  const bookedSection = booked.length > 0 ? `
+
+ALREADY BOOKED (${booked.length} sessions already in the schedule; the therapists, patients and rooms are busy at these times, so do not overlap them and do not repeat them):
+${formatBookedForPrompt(booked)}` : ''
+
+  const closuresSection = closures.length > 0 ? `
+
+CLINIC CLOSED (holidays and outside business hours; do not schedule any session during these times):
+${formatClosuresForPrompt(closures)}` : ''
+
   const userPrompt = `Generate a schedule for the week of ${weekDates[0]} to ${weekDates[4]}.
 
 AVAILABLE DATES: ${weekDates.join(', ')}
@@ -221,7 +332,7 @@ STAFF (${staff.length} therapists):
 ${formatStaffForPrompt(staff)}
 
 PATIENTS (${patients.length} patients):
-${formatPatientsForPrompt(patients)}${roomsSection}
+${formatPatientsForPrompt(patients)}${roomsSection}${pairingsSection}${bookedSection}${closuresSection}
 
 SCHEDULING RULES:
 ${rules.length > 0 ? formatRulesForPrompt(rules) : 'No specific rules defined.'}
@@ -247,7 +358,8 @@ Ensure:
 - Use exact UUIDs from the staff, patient, and session spec lists above${hasRooms ? ' (and rooms if used)' : ''}
 - Times are in 24-hour format (e.g., "09:00", "14:30")
 - Each session spec gets approximately its required sessions per week
-- No time conflicts for any therapist${hasRooms ? ', patient, or room' : ' or patient'}`
+- No time conflicts for any therapist${hasRooms ? ', patient, or room' : ' or patient'}
+- Session specs with a Group Size and the same name are scheduled together: one session for up to Group Size patients, with "capacity" set to the group size and "participants" listing each patient as {"patientId", "sessionSpecId"} (patientId and sessionSpecId of the session are the first participant's)`
 
   const debugAI = process.env.DEBUG_AI_REQUESTS === 'true'
 
@@ -388,7 +500,7 @@ Return a JSON object with this exact structure:
       "priority": "high" | "medium" | "low",
       "suggestedRules": [
         {
-          "category": "gender_pairing" | "session" | "availability" | "specific_pairing" | "certification",
+          "category": "gender_pairing" | "session" | "availability" | "specific_pairing" | "certification" | "supervision",
           "description": "The actual rule text that can be added directly to the system",
           "priority": 50
         }
@@ -0,0 +1,134 @@
+/**
+ * Patient Availability
+ *
+ * Hard limits on when a patient can attend, kept apart from the soft
+ * preferredTimes hints. Each weekday has at most one window (after school,
+ * say 15:00-18:00), and exceptions cover date ranges where the weekly windows
+ * don't apply, such as a school holiday week or a family trip.
+ *
+ * A patient without availability can be booked at any time. Dates are
+ * YYYY-MM-DD strings and times HH:mm in the organization's local time.
+ */
+
+import { patientRepository, type PatientAvailability } from '../repositories/patients.js'
+import type { ClinicClosure } from './aiProvider.js'
+import { timeToMinutes } from '../utils/timezone.js'
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const
+
+export interface PatientDayAvailability {
+  available: boolean
+  // Only set when the patient is limited to part of the day
+  start: string | null
+  end: string | null
+  // Reason given for the exception that applies on the date, if any
+  reason: string | null
+}
+
+/**
+ * Whether the patient can attend on a date, and between which times. Returns
+ * null when the patient has no availability set and can be booked any time.
+ */
+export function getPatientAvailabilityForDate(
+  availability: PatientAvailability | null | undefined,
+  date: string
+): PatientDayAvailability | null {
+  if (!availability) return null
+
+  const exception = availability.exceptions?.find(e => e.startDate <= date && date <= e.endDate)
+  if (exception) {
+    return {
+      available: exception.available,
+      start: exception.available ? exception.start ?? null : null,
+      end: exception.available ? exception.end ?? null : null,
+      reason: exception.reason ?? null
+    }
+  }
+
+  const weekday = WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()]
+  const window = availability.weekly?.[weekday]
+  if (!window) {
+    return { available: false, start: null, end: null, reason: null }
+  }
+  return { available: true, start: window.start, end: window.end, reason: null }
+}
+
+/**
+ * Why the patient can't attend a session at this date and time, or null when
+ * it fits their availability.
+ */
+export function checkPatientAvailability(
+  patient: { name: string; availability?: PatientAvailability | null },
+  session: { date: string; startTime: string; endTime: string }
+): string | null {
+  const day = getPatientAvailabilityForDate(patient.availability, session.date)
+  if (!day) return null
+
+  const reason = day.reason ? ` (${day.reason})` : ''
+  if (!day.available) {
+    return `${patient.name} is not available on ${session.date}${reason}`
+  }
+  if (day.start && day.end && (
+    timeToMinutes(session.startTime) < timeToMinutes(day.start) ||
+    timeToMinutes(session.endTime) > timeToMinutes(day.end)
+  )) {
+    return `Session time ${session.startTime}-${session.endTime} is outside ${patient.name}'s availability on ${session.date} (${day.start}-${day.end})${reason}`
+  }
+
+  return null
+}
+
+/**
+ * The times the patient can't attend on each date between from and to
+ * (inclusive), in the same shape as clinic closures so the solver can skip
+ * them the same way.
+ */
+export function patientUnavailableTimes(
+  availability: PatientAvailability | null | undefined,
+  from: string,
+  to: string
+): ClinicClosure[] {
+  if (!availability) return []
+
+  const blocked: ClinicClosure[] = []
+  const day = new Date(`${from}T00:00:00Z`)
+  const last = new Date(`${to}T00:00:00Z`)
+
+  for (; day <= last; day.setUTCDate(day.getUTCDate() + 1)) {
+    const date = day.toISOString().split('T')[0]
+    const hours = getPatientAvailabilityForDate(availability, date)
+    if (!hours) continue
+    const name = hours.reason ?? 'Patient unavailable'
+
+    if (!hours.available) {
+      blocked.push({ date, name, startTime: null, endTime: null })
+      continue
+    }
+    if (!hours.start || !hours.end) continue
+    if (timeToMinutes(hours.start) > 0) {
+      blocked.push({ date, name, startTime: '00:00', endTime: hours.start })
+    }
+    if (timeToMinutes(hours.end) < timeToMinutes('23:59')) {
+      blocked.push({ date, name, startTime: hours.end, endTime: '23:59' })
+    }
+  }
+
+  return blocked
+}
+
+/**
+ * Load the patient and check a session against their availability. Returns
+ * null when the patient can attend (or no longer exists).
+ */
+export async function findPatientAvailabilityViolation(
+  organizationId: string,
+  patientId: string,
+  session: { date: string; startTime: string; endTime: string }
+): Promise<string | null> {
+  const patient = await patientRepository.findById(patientId, organizationId)
+  if (!patient) return null
+  return checkPatientAvailability(
+    { name: patient.name, availability: patient.availability as PatientAvailability | null },
+    session
+  )
+}
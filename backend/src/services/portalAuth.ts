@@ -2,11 +2,11 @@
  * Portal Authentication Service
  *
  * Handles magic link / OTP authentication for patient portal users.
- * Uses AWS SNS for SMS and can integrate with email providers.
+ * Sends OTPs through the SMS service and can integrate with email providers.
  */
 
 import { createHash, randomBytes } from 'crypto'
-import { prisma } from '../repositories/base.js'
+import { prisma, type DbClient } from '../repositories/base.js'
 import type { PatientContact, Patient, Organization } from '@prisma/client'
 
 // Contact with patient relation included (as returned by verifyToken)
@@ -14,6 +14,8 @@ type ContactWithPatient = PatientContact & {
   patient: Patient & { organization: Organization }
 }
 import { organizationFeaturesRepository } from '../repositories/organizationFeatures.js'
+import { sendSms } from './sms.js'
+import { sendPortalLoginLink } from './email.js'
 
 // ═══════════════════════════════════════════════════════════════════════════════
 // CONFIGURATION
@@ -89,43 +91,6 @@ function hashToken(token: string): string {
 // ═══════════════════════════════════════════════════════════════════════════════
 
 export class PortalAuthService {
-  private snsClient: { send: (message: string, phone: string) => Promise<boolean> } | null = null
-
-  constructor() {
-    // Initialize SNS client if AWS credentials are available
-    this.initializeSNS()
-  }
-
-  private async initializeSNS() {
-    // Lazy load AWS SDK to avoid issues in environments without it
-    if (process.env.AWS_REGION && process.env.AWS_ACCESS_KEY_ID) {
-      try {
-        // Dynamic import - AWS SDK is optional dependency
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const snsModule = await import('@aws-sdk/client-sns' as any) as any
-        const { SNSClient, PublishCommand } = snsModule
-        const client = new SNSClient({ region: process.env.AWS_REGION })
-
-        this.snsClient = {
-          send: async (message: string, phone: string): Promise<boolean> => {
-            try {
-              await client.send(new PublishCommand({
-                Message: message,
-                PhoneNumber: phone
-              }))
-              return true
-            } catch (error) {
-              console.error('SNS send error:', error)
-              return false
-            }
-          }
-        }
-      } catch (error) {
-        console.warn('AWS SNS not available:', error)
-      }
-    }
-  }
-
   /**
    * Request a login token (magic link or OTP)
    */
@@ -185,32 +150,36 @@ export class PortalAuthService {
     const expiresAt = new Date()
     expiresAt.setMinutes(expiresAt.getMinutes() + TOKEN_EXPIRY_MINUTES)
 
-    // Invalidate any existing unused tokens for this contact
-    await prisma.portalLoginToken.updateMany({
-      where: {
-        contactId: contact.id,
-        usedAt: null,
-        expiresAt: { gt: new Date() }
-      },
-      data: {
-        expiresAt: new Date() // Expire immediately
-      }
-    })
+    // Replace the contact's unused tokens and queue the new one in one transaction,
+    // so a code is only ever sent for a token that was saved
+    const sent = await prisma.$transaction(async (tx) => {
+      // Invalidate any existing unused tokens for this contact
+      await tx.portalLoginToken.updateMany({
+        where: {
+          contactId: contact.id,
+          usedAt: null,
+          expiresAt: { gt: new Date() }
+        },
+        data: {
+          expiresAt: new Date() // Expire immediately
+        }
+      })
 
-    // Create the new token
-    await prisma.portalLoginToken.create({
-      data: {
-        contactId: contact.id,
-        tokenHash,
-        channel,
-        expiresAt,
-        ipAddress,
-        userAgent
-      }
-    })
+      // Create the new token
+      await tx.portalLoginToken.create({
+        data: {
+          contactId: contact.id,
+          tokenHash,
+          channel,
+          expiresAt,
+          ipAddress,
+          userAgent
+        }
+      })
 
-    // Send the token
-    const sent = await this.sendToken(contact, token, channel)
+      // Send the token
+      return this.sendToken(contact, token, channel, tx)
+    })
 
     if (!sent) {
       return {
@@ -512,60 +481,37 @@ export class PortalAuthService {
    * Send the token via the appropriate channel
    */
   private async sendToken(
-    contact: PatientContact & { patient: { organization: { name: string } } },
+    contact: PatientContact & { patient: { organizationId: string; organization: Organization } },
     token: string,
-    channel: 'email' | 'sms'
+    channel: 'email' | 'sms',
+    tx: DbClient
   ): Promise<boolean> {
-    const orgName = contact.patient.organization.name
+    const { organization } = contact.patient
 
     if (channel === 'sms') {
-      return this.sendSMS(contact.phone!, token, orgName)
-    } else {
-      return this.sendEmail(contact.email!, token, orgName)
+      return this.sendSMS(contact.phone!, token, organization.name, contact.patient.organizationId, tx)
     }
-  }
 
-  /**
-   * Send OTP via SMS using AWS SNS
-   */
-  private async sendSMS(phone: string, otp: string, orgName: string): Promise<boolean> {
-    const message = `Your ${orgName} portal login code is: ${otp}. It expires in ${TOKEN_EXPIRY_MINUTES} minutes.`
-
-    if (this.snsClient) {
-      return this.snsClient.send(message, phone)
-    }
-
-    // Development fallback - log to console
-    if (process.env.NODE_ENV !== 'production') {
-      console.log(`[DEV SMS] To: ${phone}, Message: ${message}`)
-      return true
-    }
-
-    console.error('SMS sending not configured')
-    return false
+    return sendPortalLoginLink({
+      contact: { email: contact.email!, name: contact.name },
+      organization,
+      token,
+      expiresInMinutes: TOKEN_EXPIRY_MINUTES
+    }, { organizationId: contact.patient.organizationId, tx })
   }
 
   /**
-   * Send magic link via email
-   * TODO: Integrate with email provider (SES, SendGrid, etc.)
+   * Send OTP via SMS
    */
-  private async sendEmail(email: string, token: string, orgName: string): Promise<boolean> {
-    const portalUrl = process.env.PORTAL_URL || 'http://localhost:5173/portal'
-    // Use fragment so the token is not sent in HTTP referrers to third-party assets.
-    const magicLink = `${portalUrl}/verify#token=${token}`
-
-    // Development fallback - log to console
-    if (process.env.NODE_ENV !== 'production') {
-      console.log(`[DEV EMAIL] To: ${email}`)
-      console.log(`  Subject: Your ${orgName} portal login link`)
-      console.log(`  Link: ${magicLink}`)
-      return true
-    }
-
-    // TODO: Implement actual email sending
-    // For now, we'll use AWS SES or similar
-    console.warn('Email sending not implemented, token:', token.substring(0, 8) + '...')
-    return false
+  private async sendSMS(
+    phone: string,
+    otp: string,
+    orgName: string,
+    organizationId: string,
+    tx: DbClient
+  ): Promise<boolean> {
+    const message = `Your ${orgName} portal login code is: ${otp}. It expires in ${TOKEN_EXPIRY_MINUTES} minutes.`
+    return sendSms(phone, message, { organizationId, kind: 'portal_login_code', sensitive: true, tx })
   }
 
   private async isHipaaIdleExpired(session: {
@@ -0,0 +1,252 @@
+/**
+ * Session Reminders
+ *
+ * A background sweep reminds patients' contacts of their upcoming sessions
+ * at each of the organization's reminderHours offsets (e.g. 24 and 2 hours
+ * before). A session is only reminded for the nearest offset it has come
+ * within, so a session booked an hour ahead gets one reminder rather than
+ * every offset at once.
+ *
+ * Reminders go by email and/or SMS, as the organization's features allow,
+ * to contacts who opted in to that channel. Each one is recorded in the same
+ * transaction that queues it in the notification outbox, keyed by session,
+ * contact, channel and offset so it's never sent twice, and linked to its
+ * notification. Reminders count towards maxRemindersPerMonth unless their
+ * notification failed or bounced; once the cap is reached, the rest of the
+ * month's reminders are dropped.
+ */
+
+import {
+  reminderRepository,
+  reminderKey,
+  type ReminderOrganization,
+  type ReminderSession,
+  type ReminderChannel
+} from '../repositories/reminders.js'
+import { organizationSettingsRepository } from '../repositories/organizationSettings.js'
+import { prisma } from '../repositories/base.js'
+import { sendSessionReminder } from './email.js'
+import { sendSms } from './sms.js'
+import type { QueueOptions } from './notifications.js'
+import { formatLocalDate, getValidTimezone, parseLocalDateStart, parseLocalDateTime } from '../utils/timezone.js'
+import type { PatientContact } from '@prisma/client'
+
+const HOUR_MS = 60 * 60 * 1000
+
+export interface ReminderSweepResult {
+  // Queued in the notification outbox
+  sent: number
+  failed: number
+  // Reminders dropped because the organization hit its monthly cap
+  overLimit: number
+}
+
+interface PendingReminder {
+  session: ReminderSession
+  patientName: string
+  contact: PatientContact
+  channel: ReminderChannel
+  recipient: string
+  hoursBefore: number
+}
+
+/**
+ * The offset a session is due a reminder for: the smallest one it has come
+ * within. Null when it's further out than every offset, or already started.
+ */
+export function dueReminderOffset(offsets: number[], hoursUntil: number): number | null {
+  if (hoursUntil <= 0) return null
+  const due = offsets.filter(hours => hours >= hoursUntil)
+  return due.length > 0 ? Math.min(...due) : null
+}
+
+function reminderOffsets(features: ReminderOrganization): number[] {
+  const hours = Array.isArray(features.reminderHours) ? features.reminderHours : []
+  return [...new Set(hours.filter((h): h is number => typeof h === 'number' && Number.isInteger(h) && h > 0))]
+}
+
+function utcDate(dateStr: string): Date {
+  return new Date(`${dateStr}T00:00:00.000Z`)
+}
+
+/**
+ * Contacts of the patients in a session who opted in to the channel. Group
+ * sessions remind every enrolled patient's contacts.
+ */
+function recipients(session: ReminderSession, channel: ReminderChannel) {
+  const patients = session.capacity === null
+    ? [session.patient]
+    : session.participants.map(p => p.patient)
+
+  return patients.flatMap(patient =>
+    patient.contacts.flatMap(contact => {
+      const recipient = channel === 'email'
+        ? (contact.emailOptIn ? contact.email : null)
+        : (contact.smsOptIn ? contact.phone : null)
+      return recipient ? [{ patientName: patient.name, contact, recipient }] : []
+    })
+  )
+}
+
+function smsMessage(orgName: string, reminder: PendingReminder): string {
+  const { session } = reminder
+  const date = session.date.toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC'
+  })
+  return `${orgName}: Reminder of ${reminder.patientName}'s appointment with ${session.therapist.name} on ${date} at ${session.startTime}.`
+}
+
+async function deliver(features: ReminderOrganization, reminder: PendingReminder, queue: QueueOptions): Promise<boolean> {
+  const { organization } = features
+  const { session } = reminder
+
+  if (reminder.channel === 'sms') {
+    return sendSms(reminder.recipient, smsMessage(organization.name, reminder), {
+      organizationId: organization.id,
+      kind: 'session_reminder',
+      ...queue
+    })
+  }
+
+  return sendSessionReminder({
+    contact: { email: reminder.recipient, name: reminder.contact.name },
+    organization,
+    patientName: reminder.patientName,
+    therapistName: session.therapist.name,
+    date: session.date,
+    startTime: session.startTime,
+    endTime: session.endTime,
+    roomName: session.room?.name,
+    includePortalLink: features.patientPortalEnabled && reminder.contact.canAccessPortal
+  }, { organizationId: organization.id, ...queue })
+}
+
+/**
+ * Send the reminders an organization's sessions are due.
+ */
+export async function sendOrganizationReminders(
+  features: ReminderOrganization,
+  now: Date = new Date()
+): Promise<ReminderSweepResult> {
+  const result: ReminderSweepResult = { sent: 0, failed: 0, overLimit: 0 }
+  const organizationId = features.organizationId
+
+  const offsets = reminderOffsets(features)
+  const channels: ReminderChannel[] = []
+  if (features.emailRemindersEnabled) channels.push('email')
+  if (features.smsRemindersEnabled) channels.push('sms')
+  if (offsets.length === 0 || channels.length === 0) return result
+
+  const settings = await organizationSettingsRepository.findByOrganizationId(organizationId)
+  const timezone = getValidTimezone(settings.timezone)
+
+  const today = formatLocalDate(now, timezone)
+  const lastDay = formatLocalDate(new Date(now.getTime() + Math.max(...offsets) * HOUR_MS), timezone)
+  const sessions = await reminderRepository.findUpcomingSessions(organizationId, utcDate(today), utcDate(lastDay))
+
+  const dueSessions: { session: ReminderSession; hoursBefore: number }[] = []
+  for (const session of sessions) {
+    const dateStr = session.date.toISOString().split('T')[0]
+    const hoursUntil = (parseLocalDateTime(dateStr, session.startTime, timezone).getTime() - now.getTime()) / HOUR_MS
+    const hoursBefore = dueReminderOffset(offsets, hoursUntil)
+    if (hoursBefore !== null) dueSessions.push({ session, hoursBefore })
+  }
+
+  const recorded = await reminderRepository.findRecordedKeys(dueSessions.map(d => d.session.id))
+  const pending: PendingReminder[] = []
+  for (const { session, hoursBefore } of dueSessions) {
+    for (const channel of channels) {
+      for (const { patientName, contact, recipient } of recipients(session, channel)) {
+        const key = reminderKey({ sessionId: session.id, contactId: contact.id, channel, hoursBefore })
+        if (!recorded.has(key)) {
+          pending.push({ session, patientName, contact, channel, recipient, hoursBefore })
+        }
+      }
+    }
+  }
+  if (pending.length === 0) return result
+
+  let remaining = Infinity
+  if (features.maxRemindersPerMonth !== null) {
+    const monthStart = parseLocalDateStart(`${today.slice(0, 7)}-01`, timezone)
+    remaining = features.maxRemindersPerMonth - await reminderRepository.countSince(organizationId, monthStart)
+  }
+
+  for (const reminder of pending) {
+    if (remaining <= 0) {
+      result.overLimit++
+      continue
+    }
+
+    // The outbox worker delivers the reminder once the claim is committed
+    let outcome: 'sent' | 'failed' | null
+    try {
+      outcome = await prisma.$transaction(async (tx) => {
+        const claimed = await reminderRepository.claim({
+          organizationId,
+          sessionId: reminder.session.id,
+          contactId: reminder.contact.id,
+          channel: reminder.channel,
+          hoursBefore: reminder.hoursBefore,
+          recipient: reminder.recipient
+        }, tx)
+        // Another sweep got to it first
+        if (!claimed) return null
+
+        // The notification has the outcome from here; the reminder is linked to it
+        let notificationId: string | null = null
+        const onQueued = (notification: { id: string }) => { notificationId = notification.id }
+        if (await deliver(features, reminder, { tx, onQueued })) {
+          await reminderRepository.markQueued(claimed.id, notificationId, tx)
+          return 'sent'
+        }
+        await reminderRepository.markFailed(claimed.id, `${reminder.channel} delivery failed`, tx)
+        return 'failed'
+      })
+    } catch (error) {
+      // Nothing was recorded, so the next sweep tries again and the cap is untouched
+      console.error(`[Reminders] Failed to queue ${reminder.channel} reminder for session ${reminder.session.id}:`, error)
+      result.failed++
+      continue
+    }
+    if (!outcome) continue
+    remaining--
+
+    if (outcome === 'sent') {
+      result.sent++
+    } else {
+      result.failed++
+    }
+  }
+
+  if (result.overLimit > 0) {
+    console.warn(`[Reminders] Organization ${organizationId} reached its monthly limit; ${result.overLimit} reminders not sent`)
+  }
+
+  return result
+}
+
+/**
+ * Send the reminders every organization is due. One organization's failure
+ * doesn't hold up the others.
+ */
+export async function sendDueReminders(now: Date = new Date()): Promise<ReminderSweepResult> {
+  const total: ReminderSweepResult = { sent: 0, failed: 0, overLimit: 0 }
+  const organizations = await reminderRepository.findOrganizationsWithReminders()
+
+  for (const features of organizations) {
+    try {
+      const result = await sendOrganizationReminders(features, now)
+      total.sent += result.sent
+      total.failed += result.failed
+      total.overLimit += result.overLimit
+    } catch (error) {
+      console.error(`[Reminders] Failed to send reminders for organization ${features.organizationId}:`, error)
+    }
+  }
+
+  return total
+}
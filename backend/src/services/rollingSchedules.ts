@@ -0,0 +1,150 @@
+/**
+ * Rolling Schedules
+ *
+ * Keeps the next K weeks (the organization's rollingHorizonWeeks) drafted.
+ * Weeks without a schedule get a generated draft that keeps the previous
+ * week's pairings. Existing drafts are repaired in place against approved
+ * unavailability instead of being regenerated, so manual edits survive.
+ * Published schedules are never touched.
+ */
+
+import { organizationSettingsRepository } from '../repositories/organizationSettings.js'
+import { scheduleRepository } from '../repositories/schedules.js'
+import { staffAvailabilityRepository } from '../repositories/staffAvailability.js'
+import {
+  generateSchedule,
+  saveGeneratedSchedule,
+  pairingsForWeek,
+  pairingsFromSessions,
+  addWeeks,
+  proposeScheduleRepair,
+  applyScheduleRepair,
+  refreshScheduleQuality
+} from './scheduler.js'
+
+export interface RollingWeekResult {
+  weekStartDate: string
+  scheduleId: string | null
+  // generated: new draft, repaired: draft updated, unchanged: nothing to do, failed: see warnings
+  action: 'generated' | 'repaired' | 'unchanged' | 'failed'
+  changes: number
+  warnings: string[]
+}
+
+export interface RollingRefreshResult {
+  horizonWeeks: number
+  weeks: RollingWeekResult[]
+}
+
+/**
+ * The Monday after the given day (UTC), where the rolling horizon starts.
+ */
+export function nextWeekStart(today: Date): Date {
+  const date = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()))
+  const daysUntilMonday = ((8 - date.getUTCDay()) % 7) || 7
+  date.setUTCDate(date.getUTCDate() + daysUntilMonday)
+  return date
+}
+
+/**
+ * Bring the organization's upcoming weeks up to date. Does nothing when the
+ * rolling horizon is turned off.
+ */
+export async function refreshRollingSchedules(
+  organizationId: string,
+  userId: string,
+  today: Date = new Date()
+): Promise<RollingRefreshResult> {
+  const settings = await organizationSettingsRepository.findByOrganizationId(organizationId)
+  const horizonWeeks = settings.rollingHorizonWeeks
+  const weeks: RollingWeekResult[] = []
+  if (horizonWeeks <= 0) {
+    return { horizonWeeks: 0, weeks }
+  }
+
+  const firstWeek = nextWeekStart(today)
+  let pairings = await pairingsForWeek(organizationId, addWeeks(firstWeek, -1))
+
+  for (let i = 0; i < horizonWeeks; i++) {
+    const weekStartDate = addWeeks(firstWeek, i)
+    const weekStart = weekStartDate.toISOString().split('T')[0]
+    const existing = await scheduleRepository.findByWeek(organizationId, weekStartDate)
+
+    if (!existing) {
+      try {
+        const result = await generateSchedule(organizationId, weekStartDate, { preferredPairings: pairings })
+        const schedule = await saveGeneratedSchedule(organizationId, weekStartDate, userId, result)
+        pairings = { ...pairings, ...pairingsFromSessions(result.sessions) }
+        weeks.push({
+          weekStartDate: weekStart,
+          scheduleId: schedule.id,
+          action: 'generated',
+          changes: result.sessions.length,
+          warnings: result.warnings
+        })
+      } catch (error) {
+        // Later weeks would fail the same way (e.g. no active staff)
+        weeks.push({
+          weekStartDate: weekStart,
+          scheduleId: null,
+          action: 'failed',
+          changes: 0,
+          warnings: [error instanceof Error ? error.message : 'Schedule generation failed']
+        })
+        break
+      }
+      continue
+    }
+
+    let changes = 0
+    const warnings: string[] = []
+
+    if (existing.status === 'draft') {
+      const weekEndDate = new Date(weekStartDate)
+      weekEndDate.setUTCDate(weekEndDate.getUTCDate() + 6)
+      const unavailability = await staffAvailabilityRepository.getApprovedUnavailability(
+        organizationId,
+        weekStartDate,
+        weekEndDate
+      )
+
+      for (const record of unavailability) {
+        // Reload so each repair sees the changes made for the previous record
+        const schedule = await scheduleRepository.findByIdWithSessions(existing.id, organizationId)
+        if (!schedule) break
+
+        const proposal = await proposeScheduleRepair(organizationId, schedule, {
+          staffId: record.staffId,
+          date: record.date.toISOString().split('T')[0],
+          available: record.available,
+          startTime: record.startTime,
+          endTime: record.endTime,
+          reason: record.reason
+        })
+        if (proposal.changes.length === 0) continue
+
+        await applyScheduleRepair(organizationId, existing.id, proposal.changes, {
+          cancelledById: userId,
+          notes: record.reason
+        })
+        changes += proposal.changes.length
+        warnings.push(...proposal.warnings)
+      }
+
+      if (changes > 0) {
+        await refreshScheduleQuality(organizationId, existing.id)
+      }
+    }
+
+    pairings = { ...pairings, ...(await pairingsForWeek(organizationId, weekStartDate)) }
+    weeks.push({
+      weekStartDate: weekStart,
+      scheduleId: existing.id,
+      action: changes > 0 ? 'repaired' : 'unchanged',
+      changes,
+      warnings
+    })
+  }
+
+  return { horizonWeeks, weeks }
+}
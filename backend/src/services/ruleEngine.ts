@@ -0,0 +1,561 @@
+/**
+ * Rule Engine
+ *
+ * Enforces Rule.ruleLogic against concrete sessions. Every RuleCategory has
+ * one evaluator that inspects a candidate session together with the sessions
+ * already accepted around it and reports findings.
+ *
+ * Hard vs soft:
+ * - ruleLogic.priority === 'required' always makes findings hard (rejected)
+ * - ruleLogic.priority === 'preferred' always makes findings soft (scored)
+ * - Otherwise preference-style findings (gender pairing, preferCertification,
+ *   maintain_consistency, ...) are soft and constraint-style findings
+ *   (maxSessionsPerDay, minGapMinutes, time windows, ...) are hard
+ *
+ * Soft findings add a penalty based on Rule.priority (1 = most important) to
+ * the evaluation score; a score of 0 means every preference was honored.
+ * Rules that concern a session but produce no findings are reported as
+ * satisfied. Keys an evaluator does not understand are ignored.
+ */
+
+import type { RuleCategory } from '../repositories/rules.js'
+import type {
+  StaffForScheduling,
+  PatientForScheduling,
+  RuleForScheduling,
+  RoomForScheduling
+} from './aiProvider.js'
+import { DAYS_OF_WEEK } from './sessionLookup.js'
+import { getFederalHoliday } from './holidays.js'
+import { timeToMinutes } from '../utils/timezone.js'
+
+type SessionSpec = PatientForScheduling['sessionSpecs'][number]
+
+export interface RuleSession {
+  therapistId: string
+  patientId: string
+  sessionSpecId?: string | null
+  roomId?: string | null
+  date: string // YYYY-MM-DD
+  startTime: string // HH:mm
+  endTime: string // HH:mm
+}
+
+export interface RuleViolation {
+  ruleId: string
+  category: RuleCategory
+  description: string
+  message: string
+  hard: boolean
+  penalty: number
+}
+
+export interface RuleEvaluation {
+  hardViolations: RuleViolation[]
+  softViolations: RuleViolation[]
+  // Sum of soft violation penalties (0 = all preferences honored)
+  score: number
+  // Rules that concern the session and are fully honored
+  satisfiedRuleIds: string[]
+}
+
+export interface RuleEngineContext {
+  staff: Map<string, StaffForScheduling>
+  patients: Map<string, PatientForScheduling>
+  rooms: Map<string, RoomForScheduling>
+}
+
+interface RuleFinding {
+  message: string
+  // Preference findings are soft unless the rule is explicitly required
+  preference?: boolean
+}
+
+interface EvaluationInput {
+  session: RuleSession
+  therapist: StaffForScheduling
+  patient: PatientForScheduling
+  spec: SessionSpec | null
+  room: RoomForScheduling | null
+  dayOfWeek: string
+  index: RuleSessionIndex
+}
+
+// Returns null when the rule does not concern the session at all
+type RuleEvaluator = (logic: Record<string, unknown>, input: EvaluationInput) => RuleFinding[] | null
+
+/**
+ * Accepted sessions indexed for the lookups evaluators need.
+ */
+export class RuleSessionIndex {
+  private therapistDays = new Map<string, RuleSession[]>()
+  private patientSessions = new Map<string, RuleSession[]>()
+
+  constructor(sessions: RuleSession[] = []) {
+    for (const session of sessions) {
+      this.add(session)
+    }
+  }
+
+  add(session: RuleSession): void {
+    push(this.therapistDays, `${session.therapistId}:${session.date}`, session)
+    push(this.patientSessions, session.patientId, session)
+  }
+
+  remove(session: RuleSession): void {
+    pull(this.therapistDays, `${session.therapistId}:${session.date}`, session)
+    pull(this.patientSessions, session.patientId, session)
+  }
+
+  forTherapistDay(therapistId: string, date: string): RuleSession[] {
+    return this.therapistDays.get(`${therapistId}:${date}`) || []
+  }
+
+  forPatient(patientId: string): RuleSession[] {
+    return this.patientSessions.get(patientId) || []
+  }
+}
+
+function push(map: Map<string, RuleSession[]>, key: string, session: RuleSession): void {
+  const list = map.get(key)
+  if (list) {
+    list.push(session)
+  } else {
+    map.set(key, [session])
+  }
+}
+
+function pull(map: Map<string, RuleSession[]>, key: string, session: RuleSession): void {
+  const list = map.get(key)
+  if (!list) return
+  const position = list.indexOf(session)
+  if (position !== -1) list.splice(position, 1)
+}
+
+export function createRuleContext(
+  staff: StaffForScheduling[],
+  patients: PatientForScheduling[],
+  rooms: RoomForScheduling[] = []
+): RuleEngineContext {
+  return {
+    staff: new Map(staff.map(s => [s.id, s])),
+    patients: new Map(patients.map(p => [p.id, p])),
+    rooms: new Map(rooms.map(r => [r.id, r]))
+  }
+}
+
+// ─── ruleLogic accessors ──────────────────────────────────────────────────────
+
+function num(logic: Record<string, unknown>, key: string): number | null {
+  const value = logic[key]
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+function str(logic: Record<string, unknown>, key: string): string | null {
+  const value = logic[key]
+  return typeof value === 'string' && value.length > 0 ? value : null
+}
+
+function strList(logic: Record<string, unknown>, key: string): string[] | null {
+  const value = logic[key]
+  if (typeof value === 'string') return [value]
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string')
+  return null
+}
+
+function lower(values: string[] | null): string[] | null {
+  return values ? values.map(v => v.toLowerCase()) : null
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function dayOfWeekFor(date: string): string {
+  return DAYS_OF_WEEK[new Date(`${date.slice(0, 10)}T00:00:00Z`).getUTCDay()]
+}
+
+function dayNumber(date: string): number {
+  return Math.round(Date.parse(`${date.slice(0, 10)}T00:00:00Z`) / 86_400_000)
+}
+
+function isSame(a: RuleSession, b: RuleSession): boolean {
+  return a === b || (
+    a.therapistId === b.therapistId &&
+    a.patientId === b.patientId &&
+    a.date === b.date &&
+    a.startTime === b.startTime
+  )
+}
+
+function otherTherapistSessions(input: EvaluationInput): RuleSession[] {
+  return input.index
+    .forTherapistDay(input.session.therapistId, input.session.date)
+    .filter(s => !isSame(s, input.session))
+}
+
+function otherPatientSessions(input: EvaluationInput): RuleSession[] {
+  return input.index
+    .forPatient(input.session.patientId)
+    .filter(s => !isSame(s, input.session))
+}
+
+/**
+ * Checks a session against optional startTime/endTime bounds.
+ */
+function windowFindings(logic: Record<string, unknown>, session: RuleSession, label: string): RuleFinding[] {
+  const startTime = str(logic, 'startTime')
+  const endTime = str(logic, 'endTime')
+  const findings: RuleFinding[] = []
+
+  if (startTime && timeToMinutes(session.startTime) < timeToMinutes(startTime)) {
+    findings.push({ message: `${label} cannot start before ${startTime}` })
+  }
+  if (endTime && timeToMinutes(session.endTime) > timeToMinutes(endTime)) {
+    findings.push({ message: `${label} must end by ${endTime}` })
+  }
+  return findings
+}
+
+// ─── Evaluators ───────────────────────────────────────────────────────────────
+
+const evaluateGenderPairing: RuleEvaluator = (logic, { therapist, patient }) => {
+  const therapistGender = str(logic, 'preferredTherapistGender') ?? str(logic, 'therapistGender')
+  if (!therapistGender) return null
+
+  const patientGender = str(logic, 'patientGender')
+  if (patientGender && patientGender !== 'any' && patientGender !== patient.gender) return null
+
+  if (therapist.gender === therapistGender) return []
+  return [{
+    message: `${patient.name} should be paired with a ${therapistGender} therapist, but ${therapist.name} is ${therapist.gender}`,
+    preference: true
+  }]
+}
+
+const evaluateSession: RuleEvaluator = (logic, input) => {
+  const { session, therapist, patient, spec } = input
+  const findings: RuleFinding[] = []
+  let checked = false
+  const appliesToPatient = str(logic, 'applies') === 'patient'
+  const start = timeToMinutes(session.startTime)
+  const end = timeToMinutes(session.endTime)
+
+  const maxSessionsPerDay = num(logic, 'maxSessionsPerDay')
+  if (maxSessionsPerDay !== null) {
+    checked = true
+    const sameDay = appliesToPatient
+      ? otherPatientSessions(input).filter(s => s.date === session.date)
+      : otherTherapistSessions(input)
+    if (sameDay.length + 1 > maxSessionsPerDay) {
+      const who = appliesToPatient ? patient.name : therapist.name
+      findings.push({ message: `${who} would exceed ${maxSessionsPerDay} sessions on ${session.date}` })
+    }
+  }
+
+  const minGapMinutes = num(logic, 'minGapMinutes')
+  if (minGapMinutes !== null) {
+    checked = true
+    const sameDay = appliesToPatient
+      ? otherPatientSessions(input).filter(s => s.date === session.date)
+      : otherTherapistSessions(input)
+    for (const other of sameDay) {
+      const gap = Math.max(timeToMinutes(other.startTime) - end, start - timeToMinutes(other.endTime))
+      // Overlaps (gap < 0) are reported by conflict checks, not by this rule
+      if (gap >= 0 && gap < minGapMinutes) {
+        const who = appliesToPatient ? patient.name : therapist.name
+        findings.push({ message: `${who} needs ${minGapMinutes} minutes between sessions on ${session.date}` })
+        break
+      }
+    }
+  }
+
+  const maxConsecutiveMinutes = num(logic, 'maxConsecutiveMinutes')
+  if (maxConsecutiveMinutes !== null) {
+    checked = true
+    const requiredBreak = Math.max(num(logic, 'requiredBreakMinutes') ?? 1, 1)
+    const day = [...otherTherapistSessions(input), session]
+      .map(s => ({ start: timeToMinutes(s.startTime), end: timeToMinutes(s.endTime) }))
+      .sort((a, b) => a.start - b.start)
+
+    // Merge sessions separated by less than the required break into blocks
+    const blocks: { start: number; end: number }[] = []
+    for (const item of day) {
+      const last = blocks[blocks.length - 1]
+      if (last && item.start - last.end < requiredBreak) {
+        last.end = Math.max(last.end, item.end)
+      } else {
+        blocks.push({ ...item })
+      }
+    }
+
+    const block = blocks.find(b => b.start <= start && end <= b.end)
+    if (block && block.end - block.start > maxConsecutiveMinutes) {
+      findings.push({
+        message: `${therapist.name} would work more than ${maxConsecutiveMinutes} consecutive minutes without a ${requiredBreak}-minute break on ${session.date}`
+      })
+    }
+  }
+
+  const startTimeIntervals = logic.startTimeIntervals
+  if (Array.isArray(startTimeIntervals) && startTimeIntervals.length > 0) {
+    checked = true
+    if (!startTimeIntervals.includes(start % 60)) {
+      findings.push({ message: `Session start ${session.startTime} is not on an allowed interval (${startTimeIntervals.join(', ')})` })
+    }
+  }
+
+  if (logic.spreadAcrossDays === true && spec) {
+    const threshold = num(logic, 'frequencyThreshold') ?? 0
+    const minDayGap = Math.max(num(logic, 'minDayGap') ?? 1, 1)
+
+    if (spec.sessionsPerWeek >= threshold) {
+      checked = true
+      const today = dayNumber(session.date)
+      const tooClose = otherPatientSessions(input).some(s =>
+        s.sessionSpecId === spec.id && Math.abs(dayNumber(s.date) - today) < minDayGap
+      )
+      if (tooClose) {
+        findings.push({ message: `${patient.name}'s ${spec.name} sessions must be at least ${minDayGap} day(s) apart` })
+      }
+    }
+  }
+
+  return checked ? findings : null
+}
+
+const evaluateAvailability: RuleEvaluator = (logic, input) => {
+  const { session, spec, dayOfWeek } = input
+  const type = str(logic, 'type')
+  const days = lower(strList(logic, 'dayOfWeek'))
+
+  const availableDays = lower(strList(logic, 'availableDays'))
+  if (availableDays && !availableDays.includes(dayOfWeek)) {
+    return [{ message: `Sessions are only allowed on ${availableDays.join(', ')}` }]
+  }
+  const checkedDays = availableDays ? [] : null
+
+  if (type === 'exclude_dates') {
+    const dates = strList(logic, 'dates') || []
+    if (dates.includes(session.date)) return [{ message: `No sessions may be scheduled on ${session.date}` }]
+    // Applies even when the organization stays open on federal holidays
+    const holiday = logic.excludeFederalHolidays === true ? getFederalHoliday(session.date) : null
+    return holiday ? [{ message: `No sessions may be scheduled on ${holiday.name}` }] : []
+  }
+
+  if (type === 'day_restriction') {
+    if (!days || !days.includes(dayOfWeek)) return checkedDays
+    if (!str(logic, 'startTime') && !str(logic, 'endTime')) {
+      return [{ message: `No sessions may be scheduled on ${dayOfWeek}` }]
+    }
+    return windowFindings(logic, session, `Sessions on ${dayOfWeek}`)
+  }
+
+  const preferredTime = str(logic, 'preferredTime')
+  if (preferredTime) {
+    const wantsIt = spec?.preferredTimes?.some(t => t.toLowerCase() === preferredTime.toLowerCase())
+    if (!wantsIt) return checkedDays
+    return windowFindings(logic, session, `${preferredTime} sessions`).map(f => ({ ...f, preference: true }))
+  }
+
+  if (type === 'time_window' || str(logic, 'startTime') || str(logic, 'endTime')) {
+    if (days && !days.includes(dayOfWeek)) return checkedDays
+    return windowFindings(logic, session, 'Sessions')
+  }
+
+  return checkedDays
+}
+
+const evaluateSpecificPairing: RuleEvaluator = (logic, input) => {
+  const { session, therapist, patient, spec, room } = input
+  const type = str(logic, 'type')
+
+  if (type === 'force_pair' || type === 'prevent_pair') {
+    const therapistId = str(logic, 'therapistId') ?? str(logic, 'staffId')
+    const patientId = str(logic, 'patientId')
+    if (!therapistId || !patientId || session.patientId !== patientId) return null
+
+    if (type === 'force_pair' && session.therapistId !== therapistId) {
+      return [{ message: `${patient.name} must be seen by their assigned therapist` }]
+    }
+    if (type === 'prevent_pair' && session.therapistId === therapistId) {
+      return [{ message: `${therapist.name} must not be paired with ${patient.name}` }]
+    }
+    return []
+  }
+
+  if (type === 'maintain_consistency') {
+    const others = otherPatientSessions(input).filter(s => !spec || s.sessionSpecId === spec.id)
+    if (others.some(s => s.therapistId !== session.therapistId)) {
+      return [{ message: `${patient.name} is seen by more than one therapist`, preference: true }]
+    }
+    return []
+  }
+
+  if (type === 'limit_consecutive') {
+    const maxConsecutive = num(logic, 'maxConsecutive')
+    const certification = str(logic, 'therapistCertification')
+    if (maxConsecutive === null) return null
+    if (certification && !therapist.certifications.includes(certification)) return null
+
+    // Count the back-to-back chain of this therapist/patient pair around the session
+    const pairSessions = otherTherapistSessions(input).filter(s => s.patientId === session.patientId)
+    let chain = 1
+    let edge = session.startTime
+    for (let prev = pairSessions.find(s => s.endTime === edge); prev; prev = pairSessions.find(s => s.endTime === edge)) {
+      chain++
+      edge = prev.startTime
+    }
+    edge = session.endTime
+    for (let next = pairSessions.find(s => s.startTime === edge); next; next = pairSessions.find(s => s.startTime === edge)) {
+      chain++
+      edge = next.endTime
+    }
+
+    if (chain > maxConsecutive) {
+      return [{ message: `${therapist.name} would have more than ${maxConsecutive} consecutive sessions with ${patient.name}` }]
+    }
+    return []
+  }
+
+  if (type === 'room_requirement') {
+    const capability = str(logic, 'capability')
+    if (!capability || !spec?.requiredRoomCapabilities?.includes(capability)) return null
+    if (room?.capabilities.includes(capability)) return []
+    return [{ message: `${patient.name} requires a room with ${capability}` }]
+  }
+
+  return null
+}
+
+const evaluateCertification: RuleEvaluator = (logic, { therapist, patient, spec }) => {
+  const findings: RuleFinding[] = []
+  const specCertifications = spec?.requiredCertifications || []
+  let checked = false
+
+  if (logic.enforceRequired === true) {
+    checked = true
+    const missing = specCertifications.filter(cert => !therapist.certifications.includes(cert))
+    if (missing.length > 0) {
+      findings.push({ message: `${therapist.name} is missing required certifications: ${missing.join(', ')}` })
+    }
+  }
+
+  const patientRequires = strList(logic, 'patientRequires')
+  const therapistMustHave = strList(logic, 'therapistMustHave')
+  if (patientRequires && therapistMustHave && patientRequires.some(cert => specCertifications.includes(cert))) {
+    checked = true
+    if (!therapistMustHave.some(cert => therapist.certifications.includes(cert))) {
+      findings.push({ message: `${patient.name} must be seen by a therapist with one of: ${therapistMustHave.join(', ')}` })
+    }
+  }
+
+  const preferred = strList(logic, 'preferCertification') ?? strList(logic, 'preferCertifications')
+  if (preferred && preferred.length > 0) {
+    checked = true
+    if (!preferred.some(cert => therapist.certifications.includes(cert))) {
+      findings.push({ message: `${therapist.name} does not hold a preferred certification (${preferred.join(', ')})`, preference: true })
+    }
+  }
+
+  return checked ? findings : null
+}
+
+const evaluators: Record<RuleCategory, RuleEvaluator> = {
+  gender_pairing: evaluateGenderPairing,
+  session: evaluateSession,
+  availability: evaluateAvailability,
+  specific_pairing: evaluateSpecificPairing,
+  certification: evaluateCertification,
+  // Ratios cover a therapist's whole week; services/supervision.ts enforces them
+  supervision: () => null
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Penalty for a soft violation; higher-priority rules (lower number) cost more.
+ */
+export function softRulePenalty(rule: RuleForScheduling): number {
+  return 11 - Math.min(Math.max(Math.round(rule.priority), 1), 10)
+}
+
+/**
+ * Scopes shared by every category: a rule can target one therapist and/or patient.
+ */
+function ruleApplies(logic: Record<string, unknown>, session: RuleSession, category: string): boolean {
+  // Pairing rules use therapistId/patientId as their subject, not as a scope
+  if (category === 'specific_pairing') return true
+
+  const therapistId = str(logic, 'therapistId') ?? str(logic, 'staffId')
+  const patientId = str(logic, 'patientId')
+  if (therapistId && therapistId !== session.therapistId) return false
+  if (patientId && patientId !== session.patientId) return false
+  return true
+}
+
+/**
+ * Evaluates one session against every rule, given the sessions accepted so far.
+ * Sessions that reference unknown staff or patients are skipped (those are
+ * reported by entity validation).
+ */
+export function evaluateSessionRules(
+  session: RuleSession,
+  rules: RuleForScheduling[],
+  context: RuleEngineContext,
+  index: RuleSessionIndex = new RuleSessionIndex()
+): RuleEvaluation {
+  const evaluation: RuleEvaluation = { hardViolations: [], softViolations: [], score: 0, satisfiedRuleIds: [] }
+  if (rules.length === 0) return evaluation
+
+  const therapist = context.staff.get(session.therapistId)
+  const patient = context.patients.get(session.patientId)
+  if (!therapist || !patient) return evaluation
+
+  // Booked sessions may lack a spec; assume the only one when unambiguous
+  const spec = patient.sessionSpecs.find(s => s.id === session.sessionSpecId) ??
+    (patient.sessionSpecs.length === 1 && !session.sessionSpecId ? patient.sessionSpecs[0] : null)
+
+  const input: EvaluationInput = {
+    session: spec && !session.sessionSpecId ? { ...session, sessionSpecId: spec.id } : session,
+    therapist,
+    patient,
+    spec,
+    room: session.roomId ? context.rooms.get(session.roomId) ?? null : null,
+    dayOfWeek: dayOfWeekFor(session.date),
+    index
+  }
+
+  for (const rule of rules) {
+    const evaluator = evaluators[rule.category as RuleCategory]
+    const logic = rule.ruleLogic || {}
+    if (!evaluator || !ruleApplies(logic, session, rule.category)) continue
+
+    const findings = evaluator(logic, input)
+    if (!findings) continue
+    if (findings.length === 0) {
+      evaluation.satisfiedRuleIds.push(rule.id)
+      continue
+    }
+
+    for (const finding of findings) {
+      const hard = logic.priority === 'required' ||
+        (logic.priority !== 'preferred' && !finding.preference)
+      const violation: RuleViolation = {
+        ruleId: rule.id,
+        category: rule.category as RuleCategory,
+        description: rule.description,
+        message: finding.message,
+        hard,
+        penalty: hard ? 0 : softRulePenalty(rule)
+      }
+
+      if (hard) {
+        evaluation.hardViolations.push(violation)
+      } else {
+        evaluation.softViolations.push(violation)
+        evaluation.score += violation.penalty
+      }
+    }
+  }
+
+  return evaluation
+}
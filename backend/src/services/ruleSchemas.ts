@@ -0,0 +1,518 @@
+/**
+ * Rule Logic Schemas
+ *
+ * Versioned catalog of the ruleLogic shape accepted for each RuleCategory.
+ * The same field descriptors drive the zod validators used by the rules API,
+ * the structured editors rendered by the rules page (GET /api/rules/schema) and
+ * the constraint reference given to the voice parser, so a key means the same
+ * thing everywhere it appears.
+ *
+ * An empty ruleLogic is valid: such rules are description-only and are only
+ * honored by the AI scheduler.
+ */
+
+import { z } from 'zod'
+import type { RuleCategory } from '../repositories/rules.js'
+
+/**
+ * Bump when a field is renamed or its meaning changes, and add the old name
+ * to the category's aliases so stored rules keep normalizing.
+ */
+export const RULE_SCHEMA_VERSION = 1
+
+export type RuleFieldType =
+  | 'string'
+  | 'integer'
+  | 'boolean'
+  | 'time'
+  | 'enum'
+  | 'staff'
+  | 'patient'
+  | 'string_list'
+  | 'integer_list'
+  | 'day_list'
+  | 'date_list'
+
+export interface RuleFieldDescriptor {
+  key: string
+  type: RuleFieldType
+  label: string
+  description: string
+  options?: string[]
+  min?: number
+  max?: number
+  /** Only meaningful for these `type` values; shown for every type when omitted */
+  types?: string[]
+  /** Required when ruleLogic.type is one of these values */
+  requiredFor?: string[]
+}
+
+export interface RuleCategorySchema {
+  category: RuleCategory
+  label: string
+  description: string
+  /** Values accepted for ruleLogic.type, if the category uses one */
+  types?: string[]
+  /** Keys required whenever the ruleLogic is not empty */
+  requires?: string[]
+  fields: RuleFieldDescriptor[]
+}
+
+export interface RuleSchemaCatalog {
+  version: number
+  categories: RuleCategorySchema[]
+}
+
+export interface RuleLogicIssue {
+  field: string
+  message: string
+}
+
+export type RuleLogicValidation =
+  | { success: true; ruleLogic: Record<string, unknown> }
+  | { success: false; issues: RuleLogicIssue[] }
+
+const DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday']
+
+// Shared by every category (specific_pairing reuses the ids as the pair itself)
+const priorityField: RuleFieldDescriptor = {
+  key: 'priority',
+  type: 'enum',
+  label: 'Enforcement',
+  description: 'required rejects any violation; preferred only lowers the schedule score',
+  options: ['required', 'preferred']
+}
+
+const therapistScopeField: RuleFieldDescriptor = {
+  key: 'therapistId',
+  type: 'staff',
+  label: 'Therapist',
+  description: 'Limit the rule to one therapist'
+}
+
+const patientScopeField: RuleFieldDescriptor = {
+  key: 'patientId',
+  type: 'patient',
+  label: 'Patient',
+  description: 'Limit the rule to one patient'
+}
+
+const categorySchemas: RuleCategorySchema[] = [
+  {
+    category: 'gender_pairing',
+    label: 'Gender Pairing',
+    description: 'Match patients with therapists of a given gender',
+    requires: ['preferredTherapistGender'],
+    fields: [
+      {
+        key: 'patientGender',
+        type: 'enum',
+        label: 'Patient gender',
+        description: 'Patients the rule applies to',
+        options: ['male', 'female', 'other', 'any']
+      },
+      {
+        key: 'preferredTherapistGender',
+        type: 'enum',
+        label: 'Therapist gender',
+        description: 'Gender the therapist should have',
+        options: ['male', 'female', 'other']
+      },
+      priorityField,
+      therapistScopeField,
+      patientScopeField
+    ]
+  },
+  {
+    category: 'session',
+    label: 'Session',
+    description: 'Session frequency, spacing and timing limits',
+    fields: [
+      {
+        key: 'applies',
+        type: 'enum',
+        label: 'Applies to',
+        description: 'Whose sessions maxSessionsPerDay and minGapMinutes count',
+        options: ['therapist', 'patient']
+      },
+      { key: 'maxSessionsPerDay', type: 'integer', label: 'Max sessions per day', description: 'Most sessions on one day', min: 1 },
+      { key: 'minGapMinutes', type: 'integer', label: 'Minimum gap (minutes)', description: 'Break required between sessions', min: 0 },
+      {
+        key: 'maxConsecutiveMinutes',
+        type: 'integer',
+        label: 'Max consecutive minutes',
+        description: 'Longest stretch a therapist works without a break',
+        min: 1
+      },
+      {
+        key: 'requiredBreakMinutes',
+        type: 'integer',
+        label: 'Break length (minutes)',
+        description: 'Gap that ends a consecutive stretch',
+        min: 1
+      },
+      {
+        key: 'startTimeIntervals',
+        type: 'integer_list',
+        label: 'Allowed start minutes',
+        description: 'Minutes past the hour sessions may start on, e.g. 0, 30',
+        min: 0,
+        max: 59
+      },
+      { key: 'spreadAcrossDays', type: 'boolean', label: 'Spread across days', description: 'Keep sessions of a spec on separate days' },
+      {
+        key: 'frequencyThreshold',
+        type: 'integer',
+        label: 'Spread threshold',
+        description: 'Only spread specs with at least this many sessions per week',
+        min: 1
+      },
+      { key: 'minDayGap', type: 'integer', label: 'Minimum days apart', description: 'Days between sessions of the same spec', min: 1 },
+      priorityField,
+      therapistScopeField,
+      patientScopeField
+    ]
+  },
+  {
+    category: 'availability',
+    label: 'Availability',
+    description: 'When sessions may take place',
+    types: ['time_window', 'day_restriction', 'exclude_dates'],
+    fields: [
+      { key: 'availableDays', type: 'day_list', label: 'Available days', description: 'Only schedule on these days' },
+      {
+        key: 'dayOfWeek',
+        type: 'day_list',
+        label: 'Days',
+        description: 'Days the window or restriction applies to',
+        types: ['time_window', 'day_restriction'],
+        requiredFor: ['day_restriction']
+      },
+      { key: 'startTime', type: 'time', label: 'Earliest start', description: 'Sessions cannot start before this time (HH:MM)' },
+      { key: 'endTime', type: 'time', label: 'Latest end', description: 'Sessions must end by this time (HH:MM)' },
+      {
+        key: 'dates',
+        type: 'date_list',
+        label: 'Excluded dates',
+        description: 'Dates with no sessions (YYYY-MM-DD)',
+        types: ['exclude_dates']
+      },
+      {
+        key: 'excludeFederalHolidays',
+        type: 'boolean',
+        label: 'Exclude federal holidays',
+        description: 'Also skip US federal holidays, even if the clinic stays open on them',
+        types: ['exclude_dates']
+      },
+      {
+        key: 'preferredTime',
+        type: 'string',
+        label: 'Preferred time',
+        description: 'Apply the window to specs that list this preferred time, e.g. Morning'
+      },
+      priorityField,
+      therapistScopeField,
+      patientScopeField
+    ]
+  },
+  {
+    category: 'specific_pairing',
+    label: 'Specific Pairing',
+    description: 'Assignments between particular therapists, patients and rooms',
+    types: ['force_pair', 'prevent_pair', 'maintain_consistency', 'limit_consecutive', 'room_requirement'],
+    requires: ['type'],
+    fields: [
+      {
+        key: 'therapistId',
+        type: 'staff',
+        label: 'Therapist',
+        description: 'Therapist of the pair',
+        types: ['force_pair', 'prevent_pair'],
+        requiredFor: ['force_pair', 'prevent_pair']
+      },
+      {
+        key: 'patientId',
+        type: 'patient',
+        label: 'Patient',
+        description: 'Patient of the pair',
+        types: ['force_pair', 'prevent_pair'],
+        requiredFor: ['force_pair', 'prevent_pair']
+      },
+      {
+        key: 'maxConsecutive',
+        type: 'integer',
+        label: 'Max back-to-back sessions',
+        description: 'Most consecutive sessions of one therapist with one patient',
+        min: 1,
+        types: ['limit_consecutive'],
+        requiredFor: ['limit_consecutive']
+      },
+      {
+        key: 'therapistCertification',
+        type: 'string',
+        label: 'Therapist certification',
+        description: 'Only limit therapists holding this certification',
+        types: ['limit_consecutive']
+      },
+      {
+        key: 'capability',
+        type: 'string',
+        label: 'Room capability',
+        description: 'Capability the room must have when the session requires it',
+        types: ['room_requirement'],
+        requiredFor: ['room_requirement']
+      },
+      priorityField
+    ]
+  },
+  {
+    category: 'certification',
+    label: 'Certification',
+    description: 'Certifications therapists need for their patients',
+    fields: [
+      {
+        key: 'enforceRequired',
+        type: 'boolean',
+        label: 'Enforce required certifications',
+        description: "Therapists must hold every certification a session spec requires"
+      },
+      {
+        key: 'patientRequires',
+        type: 'string_list',
+        label: 'When the spec requires',
+        description: 'Applies to specs requiring any of these certifications'
+      },
+      {
+        key: 'therapistMustHave',
+        type: 'string_list',
+        label: 'Therapist must have',
+        description: 'Therapist must hold at least one of these certifications'
+      },
+      {
+        key: 'preferCertifications',
+        type: 'string_list',
+        label: 'Preferred certifications',
+        description: 'Prefer therapists holding any of these certifications'
+      },
+      priorityField,
+      therapistScopeField,
+      patientScopeField
+    ]
+  },
+  {
+    category: 'supervision',
+    label: 'Supervision',
+    description: 'Share of each therapist\'s weekly session time a supervisor must attend',
+    types: ['supervision_ratio'],
+    requires: ['type', 'supervisedCertification', 'supervisorCertification', 'minimumPercent'],
+    fields: [
+      {
+        key: 'supervisedCertification',
+        type: 'string',
+        label: 'Supervised certification',
+        description: 'Therapists holding this certification need supervision, e.g. RBT'
+      },
+      {
+        key: 'supervisorCertification',
+        type: 'string',
+        label: 'Supervisor certification',
+        description: 'Certification a supervisor must hold, e.g. BCBA'
+      },
+      {
+        key: 'minimumPercent',
+        type: 'integer',
+        label: 'Minimum supervised (%)',
+        description: 'Percent of each therapist\'s direct minutes per week that must be supervised',
+        min: 1,
+        max: 100
+      },
+      therapistScopeField
+    ]
+  }
+]
+
+/**
+ * Older keys and values found in stored rules and model output, mapped onto
+ * the current catalog.
+ */
+const aliases: Partial<Record<RuleCategory, Record<string, string>>> = {
+  gender_pairing: { therapistGender: 'preferredTherapistGender', staffId: 'therapistId' },
+  session: { staffId: 'therapistId' },
+  availability: { staffId: 'therapistId' },
+  specific_pairing: { staffId: 'therapistId' },
+  certification: { preferCertification: 'preferCertifications', staffId: 'therapistId' },
+  supervision: { staffId: 'therapistId' }
+}
+
+// Flags that never had any effect; dropped rather than rejected
+const ignoredKeys = ['enforcePreference', 'strictMatch', 'enforceExact', 'lookbackWeeks']
+
+const ignoredTypes: Partial<Record<RuleCategory, string[]>> = {
+  gender_pairing: ['gender_match'],
+  certification: ['require_certification']
+}
+
+// ─── zod construction ─────────────────────────────────────────────────────────
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a time as HH:MM')
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a date as YYYY-MM-DD')
+
+function integerSchema(field: RuleFieldDescriptor): z.ZodNumber {
+  let schema = z.number().int()
+  if (field.min !== undefined) schema = schema.min(field.min)
+  if (field.max !== undefined) schema = schema.max(field.max)
+  return schema
+}
+
+function listOf(item: z.ZodTypeAny): z.ZodTypeAny {
+  // A single value is accepted as a one-element list
+  return z.preprocess(v => (Array.isArray(v) ? v : [v]), z.array(item).min(1))
+}
+
+function fieldSchema(field: RuleFieldDescriptor): z.ZodTypeAny {
+  switch (field.type) {
+    case 'integer':
+      return integerSchema(field)
+    case 'boolean':
+      return z.boolean()
+    case 'time':
+      return timeSchema
+    case 'enum':
+      return z.enum(field.options as [string, ...string[]])
+    case 'integer_list':
+      return listOf(integerSchema(field))
+    case 'day_list':
+      return listOf(z.preprocess(v => (typeof v === 'string' ? v.toLowerCase() : v), z.enum(DAYS as [string, ...string[]])))
+    case 'date_list':
+      return listOf(dateSchema)
+    case 'string_list':
+      return listOf(z.string().min(1))
+    default:
+      return z.string().min(1)
+  }
+}
+
+function buildCategorySchema(schema: RuleCategorySchema): z.ZodTypeAny {
+  const shape: Record<string, z.ZodTypeAny> = {}
+  if (schema.types) {
+    shape.type = z.enum(schema.types as [string, ...string[]]).optional()
+  }
+  for (const field of schema.fields) {
+    shape[field.key] = fieldSchema(field).optional()
+  }
+
+  return z.object(shape).strict().superRefine((logic, ctx) => {
+    const present = Object.keys(logic).filter(key => logic[key] !== undefined)
+    if (present.length === 0) return
+
+    for (const key of schema.requires || []) {
+      if (logic[key] === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [key], message: `${key} is required` })
+      }
+    }
+
+    const type = logic.type as string | undefined
+    for (const field of schema.fields) {
+      if (type && field.requiredFor?.includes(type) && logic[field.key] === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field.key], message: `${field.key} is required for ${type}` })
+      }
+      if (field.types && logic[field.key] !== undefined && !(type && field.types.includes(type))) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [field.key],
+          message: `${field.key} only applies to type ${field.types.join(' or ')}`
+        })
+      }
+    }
+  })
+}
+
+export const ruleLogicSchemas = Object.fromEntries(
+  categorySchemas.map(schema => [schema.category, buildCategorySchema(schema)])
+) as Record<RuleCategory, z.ZodTypeAny>
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+export function getRuleSchemaCatalog(): RuleSchemaCatalog {
+  return { version: RULE_SCHEMA_VERSION, categories: categorySchemas }
+}
+
+/**
+ * Rewrites legacy keys to their current names and drops flags that never had
+ * an effect. Unknown keys are left in place for validation to report.
+ */
+export function normalizeRuleLogic(category: RuleCategory, logic: Record<string, unknown>): Record<string, unknown> {
+  const renames = aliases[category] || {}
+  const normalized: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(logic)) {
+    if (ignoredKeys.includes(key) || value === null || value === undefined) continue
+    if (key === 'type' && ignoredTypes[category]?.includes(value as string)) continue
+
+    const target = renames[key] ?? key
+    // The current name wins when both spellings are present
+    if (target !== key && target in logic) continue
+    normalized[target] = value
+  }
+  return normalized
+}
+
+/**
+ * Normalizes and validates ruleLogic for a category.
+ */
+export function validateRuleLogic(category: RuleCategory, logic: Record<string, unknown>): RuleLogicValidation {
+  const schema = ruleLogicSchemas[category]
+  if (!schema) {
+    return { success: false, issues: [{ field: 'category', message: `Unknown rule category: ${category}` }] }
+  }
+
+  const result = schema.safeParse(normalizeRuleLogic(category, logic))
+  if (result.success) {
+    return { success: true, ruleLogic: result.data as Record<string, unknown> }
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map(issue => ({
+      field: issue.path.length > 0 ? issue.path.join('.') : (issue.code === 'unrecognized_keys' ? issue.keys.join(', ') : 'ruleLogic'),
+      message: issue.message
+    }))
+  }
+}
+
+/**
+ * Best-effort cleanup for machine-generated ruleLogic: invalid keys are
+ * dropped and reported as warnings instead of failing the whole rule.
+ */
+export function sanitizeRuleLogic(
+  category: RuleCategory,
+  logic: Record<string, unknown>
+): { ruleLogic: Record<string, unknown>; warnings: string[] } {
+  const first = validateRuleLogic(category, logic)
+  if (first.success) return { ruleLogic: first.ruleLogic, warnings: [] }
+
+  const warnings = first.issues.map(issue => `Ignored rule constraint ${issue.field}: ${issue.message}`)
+  const badKeys = new Set(first.issues.flatMap(issue => issue.field.split(/[.,]\s*/)))
+  const remaining = Object.fromEntries(
+    Object.entries(normalizeRuleLogic(category, logic)).filter(([key]) => !badKeys.has(key))
+  )
+
+  const second = validateRuleLogic(category, remaining)
+  return { ruleLogic: second.success ? second.ruleLogic : {}, warnings }
+}
+
+/**
+ * Plain-text reference of the catalog for AI prompts.
+ */
+export function describeRuleLogicForPrompt(): string {
+  return categorySchemas.map(schema => {
+    const lines = [`  ${schema.category}:`]
+    if (schema.types) lines.push(`    type: one of ${schema.types.join(', ')}`)
+    for (const field of schema.fields) {
+      const values = field.options ? ` (${field.options.join(' | ')})` : ''
+      const scope = field.types ? ` [type ${field.types.join('/')}]` : ''
+      lines.push(`    ${field.key}: ${field.type}${values}${scope} - ${field.description}`)
+    }
+    return lines.join('\n')
+  }).join('\n')
+}
@@ -0,0 +1,204 @@
+/**
+ * What-If Scenarios
+ *
+ * A scenario is a set of changes laid over the organization's real staff,
+ * patients, session specs, rooms and rules: hire an RBT, close a room, give a
+ * patient four sessions a week. Generation runs on the overlaid data exactly
+ * as it would on the real data, but nothing is saved, so a scenario can be
+ * compared with the week's current schedule without editing any records.
+ *
+ * Added records get ids starting with "scenario-" so they can't collide with
+ * real ones. Changes to ids that don't exist are rejected.
+ */
+
+import type {
+  StaffForScheduling,
+  PatientForScheduling,
+  RoomForScheduling,
+  RuleForScheduling
+} from './aiProvider.js'
+import { sessionPatients } from './sessionLookup.js'
+
+interface ScenarioChanges<Add, Update> {
+  add?: Add[]
+  update?: Update[]
+  remove?: string[]
+}
+
+type SessionSpecForScheduling = PatientForScheduling['sessionSpecs'][number]
+type ScenarioSessionSpec = Omit<SessionSpecForScheduling, 'id'>
+
+export interface ScenarioOverlay {
+  staff?: ScenarioChanges<Omit<StaffForScheduling, 'id'>, Partial<StaffForScheduling> & { id: string }>
+  patients?: ScenarioChanges<
+    Omit<PatientForScheduling, 'id' | 'identifier' | 'authorizations' | 'sessionSpecs'> & { sessionSpecs: ScenarioSessionSpec[] },
+    Partial<Pick<PatientForScheduling, 'name' | 'gender' | 'availability'>> & { id: string }
+  >
+  sessionSpecs?: ScenarioChanges<
+    ScenarioSessionSpec & { patientId: string },
+    Partial<SessionSpecForScheduling> & { id: string }
+  >
+  rooms?: ScenarioChanges<Omit<RoomForScheduling, 'id'>, Partial<RoomForScheduling> & { id: string }>
+  rules?: ScenarioChanges<Omit<RuleForScheduling, 'id'>, Partial<RuleForScheduling> & { id: string }>
+}
+
+export interface SchedulingData {
+  staff: StaffForScheduling[]
+  patients: PatientForScheduling[]
+  rooms: RoomForScheduling[]
+  rules: RuleForScheduling[]
+}
+
+/**
+ * Thrown when a scenario changes or removes a record that doesn't exist.
+ */
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ScenarioError'
+  }
+}
+
+function applyChanges<T extends { id: string }, Add, Update extends { id: string }>(
+  items: T[],
+  changes: ScenarioChanges<Add, Update> | undefined,
+  label: string,
+  create: (add: Add, id: string) => T
+): T[] {
+  if (!changes) return items
+
+  const ids = new Set(items.map(item => item.id))
+  for (const id of [...(changes.update || []).map(u => u.id), ...(changes.remove || [])]) {
+    if (!ids.has(id)) throw new ScenarioError(`Scenario refers to ${label} ${id}, which doesn't exist`)
+  }
+
+  const removed = new Set(changes.remove)
+  const updates = new Map((changes.update || []).map(u => [u.id, u]))
+
+  return [
+    ...items.filter(item => !removed.has(item.id)).map(item => ({ ...item, ...updates.get(item.id) })),
+    ...(changes.add || []).map((add, i) => create(add, `scenario-${label.replace(/ /g, '-')}-${i + 1}`))
+  ]
+}
+
+/**
+ * The scheduling data with a scenario's changes applied. The input is left
+ * untouched. Patients left without session specs are dropped, as they would
+ * have nothing to schedule.
+ */
+export function applyScenario(data: SchedulingData, scenario: ScenarioOverlay): SchedulingData {
+  let patients = applyChanges(data.patients, scenario.patients, 'patient', (add, id) => ({
+    ...add,
+    id,
+    identifier: null,
+    sessionSpecs: add.sessionSpecs.map((spec, i) => ({ ...spec, id: `${id}-spec-${i + 1}` }))
+  }))
+
+  if (scenario.sessionSpecs) {
+    const owners = new Map(patients.flatMap(p => p.sessionSpecs.map(spec => [spec.id, p.id] as const)))
+    const specs = applyChanges(
+      patients.flatMap(p => p.sessionSpecs),
+      scenario.sessionSpecs,
+      'session spec',
+      ({ patientId, ...add }, id) => {
+        if (!patients.some(p => p.id === patientId)) {
+          throw new ScenarioError(`Scenario adds a session spec for patient ${patientId}, which doesn't exist`)
+        }
+        owners.set(id, patientId)
+        return { ...add, id }
+      }
+    )
+    patients = patients.map(patient => ({
+      ...patient,
+      sessionSpecs: specs.filter(spec => owners.get(spec.id) === patient.id)
+    }))
+  }
+
+  return {
+    staff: applyChanges(data.staff, scenario.staff, 'staff', (add, id) => ({ ...add, id })),
+    patients: patients.filter(p => p.sessionSpecs.length > 0),
+    rooms: applyChanges(data.rooms, scenario.rooms, 'room', (add, id) => ({ ...add, id })),
+    rules: applyChanges(data.rules, scenario.rules, 'rule', (add, id) => ({ ...add, id }))
+  }
+}
+
+export interface UnmetDemand {
+  patientId: string
+  patientName: string
+  sessionSpecId: string
+  sessionSpecName: string
+  requested: number
+  scheduled: number
+}
+
+export interface ScheduleCoverage {
+  requestedSessions: number
+  // Sessions counting toward a spec's sessions per week, at most that many per spec
+  scheduledSessions: number
+  // 0-100; 100 when nothing is requested
+  percent: number
+  patients: number
+  patientsFullyScheduled: number
+  unmet: UnmetDemand[]
+}
+
+// Session statuses that don't meet any demand
+const MISSED_STATUSES = ['cancelled', 'late_cancel', 'no_show']
+
+/**
+ * How much of the patients' weekly demand the sessions meet. Each patient of
+ * a group session counts toward their own spec.
+ */
+export function measureCoverage(
+  patients: PatientForScheduling[],
+  sessions: Array<{
+    patientId: string
+    sessionSpecId?: string | null
+    status?: string
+    participants?: { patientId: string; sessionSpecId: string | null }[]
+  }>
+): ScheduleCoverage {
+  const scheduledBySpec = new Map<string, number>()
+  for (const session of sessions) {
+    if (session.status && MISSED_STATUSES.includes(session.status)) continue
+    for (const { sessionSpecId } of sessionPatients({ ...session, sessionSpecId: session.sessionSpecId ?? '' })) {
+      if (!sessionSpecId) continue
+      scheduledBySpec.set(sessionSpecId, (scheduledBySpec.get(sessionSpecId) || 0) + 1)
+    }
+  }
+
+  let requestedSessions = 0
+  let scheduledSessions = 0
+  let patientsFullyScheduled = 0
+  const unmet: UnmetDemand[] = []
+
+  for (const patient of patients) {
+    let fullyScheduled = true
+    for (const spec of patient.sessionSpecs) {
+      const scheduled = Math.min(scheduledBySpec.get(spec.id) || 0, spec.sessionsPerWeek)
+      requestedSessions += spec.sessionsPerWeek
+      scheduledSessions += scheduled
+      if (scheduled < spec.sessionsPerWeek) {
+        fullyScheduled = false
+        unmet.push({
+          patientId: patient.id,
+          patientName: patient.name,
+          sessionSpecId: spec.id,
+          sessionSpecName: spec.name,
+          requested: spec.sessionsPerWeek,
+          scheduled
+        })
+      }
+    }
+    if (fullyScheduled) patientsFullyScheduled++
+  }
+
+  return {
+    requestedSessions,
+    scheduledSessions,
+    percent: requestedSessions === 0 ? 100 : Math.round((scheduledSessions / requestedSessions) * 100),
+    patients: patients.length,
+    patientsFullyScheduled,
+    unmet
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Schedule Chunks
+ *
+ * Splits a large clinic into groups of patients small enough for a single AI
+ * scheduling request. Patients are grouped by the therapist their session
+ * specs are paired with (their caseload), so patients that compete for the
+ * same therapist are generated together and each chunk's prompt carries the
+ * pairings that apply to it. Patients without a pairing fill the last chunks.
+ *
+ * Also works out the demand left to schedule around sessions that are already
+ * booked, e.g. locked sessions kept through a regeneration.
+ */
+
+import type { PatientForScheduling, PreferredPairings, GeneratedSession } from './aiProvider.js'
+import { sessionPatients } from './sessionLookup.js'
+
+// Largest number of patients sent to the AI engine in one request
+export const AI_CHUNK_PATIENTS = 25
+
+export interface ScheduleChunk {
+  patients: PatientForScheduling[]
+  // Pairings for this chunk's session specs only
+  pairings: PreferredPairings
+}
+
+/**
+ * Patients with the demand booked sessions don't already cover: each spec's
+ * sessions per week is reduced by its booked sessions, and specs and patients
+ * with nothing left to schedule are dropped.
+ */
+export function remainingDemand(patients: PatientForScheduling[], booked: GeneratedSession[]): PatientForScheduling[] {
+  const bookedCounts = new Map<string, number>()
+  for (const session of booked) {
+    for (const { sessionSpecId } of sessionPatients(session)) {
+      bookedCounts.set(sessionSpecId, (bookedCounts.get(sessionSpecId) || 0) + 1)
+    }
+  }
+
+  return patients
+    .map(patient => ({
+      ...patient,
+      sessionSpecs: patient.sessionSpecs
+        .map(spec => ({ ...spec, sessionsPerWeek: spec.sessionsPerWeek - (bookedCounts.get(spec.id) || 0) }))
+        .filter(spec => spec.sessionsPerWeek > 0)
+    }))
+    .filter(patient => patient.sessionSpecs.length > 0)
+}
+
+/**
+ * The therapist most of the patient's session specs are paired with, or null
+ * when none of them has a pairing. Ties go to the lowest therapist ID.
+ */
+function caseloadTherapist(patient: PatientForScheduling, pairings: PreferredPairings): string | null {
+  const counts = new Map<string, number>()
+  for (const spec of patient.sessionSpecs) {
+    const therapistId = pairings[spec.id]
+    if (therapistId) {
+      counts.set(therapistId, (counts.get(therapistId) || 0) + 1)
+    }
+  }
+
+  let best: string | null = null
+  for (const [therapistId, count] of counts) {
+    const bestCount = best ? counts.get(best)! : 0
+    if (count > bestCount || (count === bestCount && best !== null && therapistId < best)) {
+      best = therapistId
+    }
+  }
+  return best
+}
+
+/**
+ * Split patients into chunks of at most maxPatients, keeping each caseload in
+ * one chunk when it fits. The result is deterministic for the same inputs.
+ */
+export function planScheduleChunks(
+  patients: PatientForScheduling[],
+  pairings: PreferredPairings = {},
+  maxPatients: number = AI_CHUNK_PATIENTS
+): ScheduleChunk[] {
+  const caseloads = new Map<string, PatientForScheduling[]>()
+  const unpaired: PatientForScheduling[] = []
+
+  for (const patient of [...patients].sort((a, b) => a.id.localeCompare(b.id))) {
+    const therapistId = caseloadTherapist(patient, pairings)
+    if (!therapistId) {
+      unpaired.push(patient)
+      continue
+    }
+    const caseload = caseloads.get(therapistId) || []
+    caseload.push(patient)
+    caseloads.set(therapistId, caseload)
+  }
+
+  const groups = [...caseloads.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, group]) => group)
+  groups.push(unpaired)
+
+  const chunks: PatientForScheduling[][] = []
+  let current: PatientForScheduling[] = []
+  for (const group of groups) {
+    // Start a new chunk rather than split a caseload that would fit in one
+    if (current.length > 0 && current.length + group.length > maxPatients && group.length <= maxPatients) {
+      chunks.push(current)
+      current = []
+    }
+    for (const patient of group) {
+      if (current.length >= maxPatients) {
+        chunks.push(current)
+        current = []
+      }
+      current.push(patient)
+    }
+  }
+  if (current.length > 0) {
+    chunks.push(current)
+  }
+
+  return chunks.map(chunkPatients => {
+    const chunkPairings: PreferredPairings = {}
+    for (const patient of chunkPatients) {
+      for (const spec of patient.sessionSpecs) {
+        if (pairings[spec.id]) {
+          chunkPairings[spec.id] = pairings[spec.id]
+        }
+      }
+    }
+    return { patients: chunkPatients, pairings: chunkPairings }
+  })
+}
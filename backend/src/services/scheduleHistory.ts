@@ -0,0 +1,233 @@
+/**
+ * Schedule History
+ *
+ * Every publish stores an immutable snapshot of the schedule's sessions, so
+ * earlier versions of a week stay inspectable after the schedule is edited,
+ * copied into a new draft or deleted.
+ *
+ * A schedule can be diffed against any snapshot or another schedule. Sessions
+ * are matched by id first (the same schedule re-published), then by patient
+ * and session spec (a draft copy, whose sessions have new ids), preferring an
+ * identical time slot and otherwise pairing them in date order. Unmatched
+ * sessions are reported as added or removed.
+ */
+
+import { prisma, type DbClient } from '../repositories/base.js'
+import {
+  scheduleSnapshotRepository,
+  type ScheduleSnapshot,
+  type SnapshotSession
+} from '../repositories/scheduleSnapshots.js'
+import {
+  scheduleRepository,
+  sessionRepository,
+  type Schedule,
+  type SessionWithDetails
+} from '../repositories/schedules.js'
+
+export type SessionChange = 'moved' | 'reassigned' | 'status'
+
+export interface ChangedSession {
+  before: SnapshotSession
+  after: SnapshotSession
+  changes: SessionChange[]
+}
+
+export interface ScheduleDiff {
+  added: SnapshotSession[]
+  removed: SnapshotSession[]
+  changed: ChangedSession[]
+  summary: {
+    added: number
+    removed: number
+    moved: number
+    reassigned: number
+    statusChanged: number
+    unchanged: number
+  }
+}
+
+// What one side of a diff is: a published snapshot or a schedule as it is now
+export interface ScheduleVersionRef {
+  snapshotId: string | null
+  scheduleId: string | null
+  version: number
+  publishedAt: Date | null
+}
+
+export function toSnapshotSession(session: SessionWithDetails): SnapshotSession {
+  return {
+    id: session.id,
+    therapistId: session.therapistId,
+    therapistName: session.therapistName ?? null,
+    patientId: session.patientId,
+    patientName: session.patientName ?? null,
+    sessionSpecId: session.sessionSpecId ?? null,
+    roomId: session.roomId ?? null,
+    roomName: session.roomName ?? null,
+    date: session.date.toISOString().split('T')[0],
+    startTime: session.startTime,
+    endTime: session.endTime,
+    status: session.status
+  }
+}
+
+/**
+ * Store a snapshot of a schedule's sessions as just published.
+ */
+export async function recordPublishedSnapshot(
+  organizationId: string,
+  schedule: Schedule,
+  publishedById: string,
+  client: DbClient = prisma
+): Promise<ScheduleSnapshot> {
+  const sessions = await sessionRepository.findBySchedule(schedule.id, client)
+
+  return scheduleSnapshotRepository.create({
+    organizationId,
+    scheduleId: schedule.id,
+    weekStartDate: schedule.weekStartDate,
+    version: schedule.version,
+    sessions: sessions.map(toSnapshotSession),
+    publishedById
+  }, client)
+}
+
+/**
+ * Publish a schedule and snapshot it in one transaction, so every published
+ * version has its history entry. Returns null when the schedule isn't found.
+ */
+export async function publishSchedule(
+  organizationId: string,
+  scheduleId: string,
+  publishedById: string
+): Promise<{ schedule: Schedule; snapshot: ScheduleSnapshot } | null> {
+  return prisma.$transaction(async (tx) => {
+    const schedule = await scheduleRepository.publish(scheduleId, organizationId, tx)
+    if (!schedule) return null
+
+    const snapshot = await recordPublishedSnapshot(organizationId, schedule, publishedById, tx)
+    return { schedule, snapshot }
+  })
+}
+
+function bySlot(a: SnapshotSession, b: SnapshotSession): number {
+  return a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime)
+}
+
+function sameSlot(a: SnapshotSession, b: SnapshotSession): boolean {
+  return a.date === b.date && a.startTime === b.startTime && a.endTime === b.endTime
+}
+
+function changesBetween(before: SnapshotSession, after: SnapshotSession): SessionChange[] {
+  const changes: SessionChange[] = []
+  if (!sameSlot(before, after)) changes.push('moved')
+  if (before.therapistId !== after.therapistId || before.roomId !== after.roomId) changes.push('reassigned')
+  if (before.status !== after.status) changes.push('status')
+  return changes
+}
+
+/**
+ * What changed between two versions of a schedule's sessions.
+ */
+export function diffSchedules(before: SnapshotSession[], after: SnapshotSession[]): ScheduleDiff {
+  const pairs: [SnapshotSession, SnapshotSession][] = []
+  const afterById = new Map(after.map(s => [s.id, s]))
+  const matched = new Set<SnapshotSession>()
+
+  for (const session of before) {
+    const counterpart = afterById.get(session.id)
+    if (counterpart) {
+      pairs.push([session, counterpart])
+      matched.add(session).add(counterpart)
+    }
+  }
+
+  // Then by patient and spec: identical slots first, the rest in date order
+  const key = (s: SnapshotSession) => `${s.patientId}|${s.sessionSpecId ?? ''}`
+  const unmatchedBefore = before.filter(s => !matched.has(s)).sort(bySlot)
+  const unmatchedAfter = after.filter(s => !matched.has(s)).sort(bySlot)
+
+  for (const pass of [sameSlot, () => true]) {
+    for (const session of unmatchedBefore) {
+      if (matched.has(session)) continue
+      const counterpart = unmatchedAfter.find(s => !matched.has(s) && key(s) === key(session) && pass(s, session))
+      if (counterpart) {
+        pairs.push([session, counterpart])
+        matched.add(session).add(counterpart)
+      }
+    }
+  }
+
+  const changed = pairs
+    .map(([b, a]) => ({ before: b, after: a, changes: changesBetween(b, a) }))
+    .filter(c => c.changes.length > 0)
+    .sort((x, y) => bySlot(x.after, y.after))
+  const added = after.filter(s => !matched.has(s)).sort(bySlot)
+  const removed = before.filter(s => !matched.has(s)).sort(bySlot)
+
+  return {
+    added,
+    removed,
+    changed,
+    summary: {
+      added: added.length,
+      removed: removed.length,
+      moved: changed.filter(c => c.changes.includes('moved')).length,
+      reassigned: changed.filter(c => c.changes.includes('reassigned')).length,
+      statusChanged: changed.filter(c => c.changes.includes('status')).length,
+      unchanged: pairs.length - changed.length
+    }
+  }
+}
+
+export interface ScheduleVersion {
+  ref: ScheduleVersionRef
+  sessions: SnapshotSession[]
+}
+
+function fromSnapshot(snapshot: ScheduleSnapshot): ScheduleVersion {
+  return {
+    ref: {
+      snapshotId: snapshot.id,
+      scheduleId: snapshot.scheduleId,
+      version: snapshot.version,
+      publishedAt: snapshot.publishedAt
+    },
+    sessions: snapshot.sessions
+  }
+}
+
+/**
+ * A schedule's sessions as they are now.
+ */
+export async function getCurrentVersion(schedule: Schedule): Promise<ScheduleVersion> {
+  const sessions = await sessionRepository.findBySchedule(schedule.id)
+
+  return {
+    ref: { snapshotId: null, scheduleId: schedule.id, version: schedule.version, publishedAt: schedule.publishedAt },
+    sessions: sessions.map(toSnapshotSession)
+  }
+}
+
+/**
+ * The version to compare a schedule against: a snapshot or another schedule
+ * of the organization when `against` names one, otherwise the latest snapshot
+ * published for the schedule's week. Null when there is none.
+ */
+export async function findBaselineVersion(
+  organizationId: string,
+  schedule: Schedule,
+  against?: string
+): Promise<ScheduleVersion | null> {
+  if (against) {
+    const snapshot = await scheduleSnapshotRepository.findById(against, organizationId)
+    if (snapshot) return fromSnapshot(snapshot)
+
+    const other = await scheduleRepository.findById(against, organizationId)
+    return other ? getCurrentVersion(other) : null
+  }
+
+  const [latest] = await scheduleSnapshotRepository.findByWeek(organizationId, schedule.weekStartDate)
+  return latest ? fromSnapshot(latest) : null
+}
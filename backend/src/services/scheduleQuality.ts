@@ -0,0 +1,257 @@
+/**
+ * Schedule Quality
+ *
+ * Explains why each session landed where it did and scores a whole schedule.
+ * Explanations are machine-readable: every reason and broken preference has a
+ * code so the UI can group or translate them, plus a ready-made message.
+ *
+ * The quality score (0-100) is the mean of the components that apply to the
+ * schedule; a component with nothing to measure (e.g. no preferred times at
+ * all) is left out instead of counting as perfect.
+ */
+
+import type {
+  StaffForScheduling,
+  PatientForScheduling,
+  RuleForScheduling,
+  RoomForScheduling
+} from './aiProvider.js'
+import { evaluateSessionRules, createRuleContext, RuleSessionIndex, type RuleSession } from './ruleEngine.js'
+import { matchesPreferredTimes } from './constraintSolver.js'
+import { DAYS_OF_WEEK } from './sessionLookup.js'
+import { timeToMinutes } from '../utils/timezone.js'
+
+export type ExplanationReasonCode =
+  | 'certified'
+  | 'gender_match'
+  | 'continuity'
+  | 'working_hours'
+  | 'preferred_room'
+  | 'room_capabilities'
+  | 'room_available'
+
+export interface ExplanationReason {
+  code: ExplanationReasonCode
+  message: string
+}
+
+export interface BrokenPreference {
+  code: 'rule' | 'preferred_time' | 'preferred_room'
+  ruleId?: string
+  message: string
+}
+
+export interface SessionExplanation {
+  satisfiedRules: Array<{ ruleId: string; description: string }>
+  brokenPreferences: BrokenPreference[]
+  therapist: ExplanationReason[]
+  room: ExplanationReason[]
+}
+
+export interface QualityComponent {
+  // Fraction of hits (0-1), null when the schedule gives nothing to measure
+  score: number | null
+  hits: number
+  total: number
+}
+
+export interface ScheduleQuality {
+  score: number
+  components: {
+    preferredTime: QualityComponent
+    genderPreference: QualityComponent
+    continuity: QualityComponent
+    spread: QualityComponent
+  }
+}
+
+export interface ScheduleExplanation {
+  explanations: SessionExplanation[]
+  quality: ScheduleQuality
+}
+
+function component(hits: number, total: number): QualityComponent {
+  return { score: total > 0 ? Math.round((hits / total) * 1000) / 1000 : null, hits, total }
+}
+
+/**
+ * The therapist each patient sees most often in these sessions.
+ */
+function primaryTherapists(sessions: RuleSession[]): Map<string, { therapistId: string; count: number; total: number }> {
+  const counts = new Map<string, Map<string, number>>()
+  for (const session of sessions) {
+    const perTherapist = counts.get(session.patientId) ?? new Map<string, number>()
+    perTherapist.set(session.therapistId, (perTherapist.get(session.therapistId) ?? 0) + 1)
+    counts.set(session.patientId, perTherapist)
+  }
+
+  const primary = new Map<string, { therapistId: string; count: number; total: number }>()
+  for (const [patientId, perTherapist] of counts) {
+    let best = { therapistId: '', count: 0, total: 0 }
+    for (const [therapistId, count] of perTherapist) {
+      best.total += count
+      // Ties go to the lower id so the result does not depend on session order
+      if (count > best.count || (count === best.count && therapistId < best.therapistId)) {
+        best = { ...best, therapistId, count }
+      }
+    }
+    primary.set(patientId, best)
+  }
+  return primary
+}
+
+/**
+ * Explains every session and scores the schedule they form together.
+ * Sessions referencing unknown staff or patients get an empty explanation.
+ */
+export function explainSchedule(
+  sessions: RuleSession[],
+  staff: StaffForScheduling[],
+  patients: PatientForScheduling[],
+  rooms: RoomForScheduling[] = [],
+  rules: RuleForScheduling[] = []
+): ScheduleExplanation {
+  const context = createRuleContext(staff, patients, rooms)
+  const index = new RuleSessionIndex(sessions)
+  const ruleById = new Map(rules.map(r => [r.id, r]))
+  const primary = primaryTherapists(sessions)
+  const genderRuleIds = new Set(rules.filter(r => r.category === 'gender_pairing').map(r => r.id))
+
+  const preferredTime = { hits: 0, total: 0 }
+  const genderPreference = { hits: 0, total: 0 }
+
+  const explanations = sessions.map(session => {
+    const explanation: SessionExplanation = { satisfiedRules: [], brokenPreferences: [], therapist: [], room: [] }
+    const therapist = context.staff.get(session.therapistId)
+    const patient = context.patients.get(session.patientId)
+    if (!therapist || !patient) return explanation
+
+    const spec = patient.sessionSpecs.find(s => s.id === session.sessionSpecId) ??
+      (patient.sessionSpecs.length === 1 ? patient.sessionSpecs[0] : null)
+    const room = session.roomId ? context.rooms.get(session.roomId) ?? null : null
+    const evaluation = evaluateSessionRules(session, rules, context, index)
+
+    explanation.satisfiedRules = evaluation.satisfiedRuleIds.map(ruleId => ({
+      ruleId,
+      description: ruleById.get(ruleId)?.description ?? ''
+    }))
+    for (const violation of [...evaluation.softViolations, ...evaluation.hardViolations]) {
+      explanation.brokenPreferences.push({ code: 'rule', ruleId: violation.ruleId, message: violation.message })
+    }
+
+    // Gender preference: any gender_pairing rule that concerns this session
+    const genderSatisfied = evaluation.satisfiedRuleIds.some(id => genderRuleIds.has(id))
+    const genderBroken = [...evaluation.softViolations, ...evaluation.hardViolations].some(v => genderRuleIds.has(v.ruleId))
+    if (genderSatisfied || genderBroken) {
+      genderPreference.total++
+      if (!genderBroken) {
+        genderPreference.hits++
+        explanation.therapist.push({
+          code: 'gender_match',
+          message: `${therapist.name} matches ${patient.name}'s therapist gender preference`
+        })
+      }
+    }
+
+    // Therapist
+    const required = spec?.requiredCertifications || []
+    if (required.length > 0) {
+      explanation.therapist.push({
+        code: 'certified',
+        message: `${therapist.name} holds the required certifications: ${required.join(', ')}`
+      })
+    }
+
+    const pair = primary.get(patient.id)
+    if (pair && pair.total > 1 && pair.therapistId === therapist.id) {
+      explanation.therapist.push({
+        code: 'continuity',
+        message: `${therapist.name} sees ${patient.name} for ${pair.count} of ${pair.total} sessions`
+      })
+    }
+
+    const dayOfWeek = DAYS_OF_WEEK[new Date(`${session.date.slice(0, 10)}T00:00:00Z`).getUTCDay()]
+    const hours = therapist.defaultHours[dayOfWeek]
+    if (hours) {
+      explanation.therapist.push({
+        code: 'working_hours',
+        message: `${therapist.name} works ${hours.start}-${hours.end} on ${dayOfWeek}`
+      })
+    }
+
+    // Preferred time
+    const preferredTimes = spec?.preferredTimes || []
+    if (preferredTimes.length > 0) {
+      preferredTime.total++
+      if (matchesPreferredTimes(preferredTimes, timeToMinutes(session.startTime))) {
+        preferredTime.hits++
+      } else {
+        explanation.brokenPreferences.push({
+          code: 'preferred_time',
+          message: `${session.startTime} is outside ${patient.name}'s preferred times (${preferredTimes.join(', ')})`
+        })
+      }
+    }
+
+    // Room
+    if (room) {
+      if (spec?.preferredRoomId === room.id) {
+        explanation.room.push({ code: 'preferred_room', message: `${room.name} is ${patient.name}'s preferred room` })
+      }
+      const capabilities = spec?.requiredRoomCapabilities || []
+      if (capabilities.length > 0) {
+        explanation.room.push({ code: 'room_capabilities', message: `${room.name} has ${capabilities.join(', ')}` })
+      }
+      if (explanation.room.length === 0) {
+        explanation.room.push({ code: 'room_available', message: `${room.name} is free at this time` })
+      }
+    }
+    if (spec?.preferredRoomId && spec.preferredRoomId !== session.roomId) {
+      const preferredRoom = context.rooms.get(spec.preferredRoomId)
+      explanation.brokenPreferences.push({
+        code: 'preferred_room',
+        message: `${patient.name}'s preferred room ${preferredRoom?.name ?? spec.preferredRoomId} was not used`
+      })
+    }
+
+    return explanation
+  })
+
+  // Continuity: share of each patient's sessions with their primary therapist
+  let continuityHits = 0
+  let continuityTotal = 0
+  for (const pair of primary.values()) {
+    if (pair.total < 2) continue
+    continuityHits += pair.count
+    continuityTotal += pair.total
+  }
+
+  // Spread: sessions of a spec that land on a day of their own
+  const specDays = new Map<string, string[]>()
+  for (const session of sessions) {
+    if (!session.sessionSpecId) continue
+    const days = specDays.get(session.sessionSpecId) ?? []
+    days.push(session.date.slice(0, 10))
+    specDays.set(session.sessionSpecId, days)
+  }
+  let spreadHits = 0
+  let spreadTotal = 0
+  for (const days of specDays.values()) {
+    if (days.length < 2) continue
+    spreadHits += new Set(days).size
+    spreadTotal += days.length
+  }
+
+  const components = {
+    preferredTime: component(preferredTime.hits, preferredTime.total),
+    genderPreference: component(genderPreference.hits, genderPreference.total),
+    continuity: component(continuityHits, continuityTotal),
+    spread: component(spreadHits, spreadTotal)
+  }
+  const measured = Object.values(components).filter(c => c.score !== null).map(c => c.score as number)
+  const score = measured.length > 0
+    ? Math.round((measured.reduce((sum, value) => sum + value, 0) / measured.length) * 100)
+    : 100
+
+  return { explanations, quality: { score, components } }
+}
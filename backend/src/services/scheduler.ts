@@ -1,8 +1,10 @@
 import { staffRepository } from '../repositories/staff.js'
-import { patientRepository } from '../repositories/patients.js'
+import { patientRepository, type PatientWithSessionSpecs, type PatientAvailability } from '../repositories/patients.js'
 import { ruleRepository } from '../repositories/rules.js'
 import { roomRepository } from '../repositories/rooms.js'
-import { staffAvailabilityRepository, type StaffAvailability } from '../repositories/staffAvailability.js'
+import { staffAvailabilityRepository, type StaffAvailability, type StaffAvailabilityCreate } from '../repositories/staffAvailability.js'
+import { prisma } from '../repositories/base.js'
+import { organizationSettingsRepository, type SchedulingEngine, type BusinessHours } from '../repositories/organizationSettings.js'
 import {
   generateScheduleWithAI,
   chatCompletion,
@@ -11,9 +13,43 @@ import {
   type PatientForScheduling,
   type RuleForScheduling,
   type RoomForScheduling,
-  type GeneratedSession
+  type GeneratedSession,
+  type ScheduleGenerationResult,
+  type PreferredPairings,
+  type ClinicClosure
 } from './aiProvider.js'
-import type { SessionWithDetails, ScheduleWithSessions } from '../repositories/schedules.js'
+import { generateScheduleWithSolver, getTherapistWindow, type SolverOptions } from './constraintSolver.js'
+import { planScheduleChunks, remainingDemand, AI_CHUNK_PATIENTS } from './scheduleChunks.js'
+import { getClinicClosures, findClosure, describeClosure } from './holidays.js'
+import { checkBusinessHours, closuresOutsideBusinessHours } from './businessHours.js'
+import { checkPatientAvailability, patientUnavailableTimes } from './patientAvailability.js'
+import { AuthorizationLedger, getAuthorizationsForScheduling, authorizationWarnings } from './authorizations.js'
+import { sessionPatients } from './sessionLookup.js'
+import { assignSupervision, supervisionReport, type SupervisionSummary } from './supervision.js'
+import { applyScenario, measureCoverage, type ScenarioOverlay, type ScheduleCoverage } from './scenarios.js'
+import { explainUnmetDemand, type UnmetDemandReport } from './unmetDemand.js'
+import { minutesToTime } from '../utils/timezone.js'
+import {
+  evaluateSessionRules,
+  createRuleContext,
+  RuleSessionIndex,
+  type RuleSession,
+  type RuleEvaluation
+} from './ruleEngine.js'
+import { explainSchedule, type SessionExplanation, type ScheduleQuality } from './scheduleQuality.js'
+import {
+  loadPatientAffinity,
+  pairingsFromAffinity,
+  measureContinuity,
+  type ContinuityStats
+} from './continuityOfCare.js'
+import {
+  scheduleRepository,
+  sessionRepository,
+  type Schedule,
+  type SessionWithDetails,
+  type ScheduleWithSessions
+} from '../repositories/schedules.js'
 
 // Map of staff ID to their unavailability records for a date range
 export type UnavailabilityMap = Map<string, StaffAvailability[]>
@@ -28,16 +64,81 @@ export interface SessionCreate {
   startTime: string
   endTime: string
   notes?: string | null
+  explanation?: SessionExplanation | null
+  // Group sessions only
+  capacity?: number | null
+  participants?: { patientId: string; sessionSpecId: string }[]
+  // Supervisors and co-treaters
+  staffAssignments?: { staffId: string; role: 'supervisor' | 'co_treater' }[]
+}
+
+export interface GenerateScheduleOptions {
+  // Overrides the organization's configured scheduling engine
+  engine?: SchedulingEngine
+  // Therapists to keep for each session spec, e.g. from the previous week
+  preferredPairings?: PreferredPairings
+  // Called as generation moves through its stages
+  onProgress?: (progress: GenerationProgress) => void
+  // Stops generation at the next stage boundary once aborted
+  signal?: AbortSignal
+  // Sessions to keep as they are; only the demand they leave is generated
+  locked?: GeneratedSession[]
+  // What-if changes laid over the loaded staff, patients, rooms and rules
+  scenario?: ScenarioOverlay
+}
+
+export const AI_ENGINE_DISABLED = 'AI scheduling is turned off for this organization. Use the built-in solver, or change the default engine in Settings.'
+
+/**
+ * Thrown when a request asks for the AI engine and the organization schedules
+ * with the built-in solver, which keeps its patient data away from the AI provider
+ */
+export class SchedulingEngineError extends Error {
+  constructor(message: string = AI_ENGINE_DISABLED) {
+    super(message)
+    this.name = 'SchedulingEngineError'
+  }
+}
+
+/**
+ * The engine a generation runs with: the requested one, or the organization's
+ * default when none is requested. Organizations that default to the solver
+ * can't request the AI engine.
+ */
+export function resolveSchedulingEngine(
+  organizationEngine: SchedulingEngine,
+  requested?: SchedulingEngine
+): SchedulingEngine {
+  if (requested === 'ai' && organizationEngine === 'solver') {
+    throw new SchedulingEngineError()
+  }
+  return requested ?? organizationEngine
+}
+
+export interface GenerationProgress {
+  stage: 'loading' | 'generating' | 'validating'
+  // 0-100
+  percent: number
+  message: string
 }
 
 export interface ScheduleGenerationOutput {
   sessions: SessionCreate[]
   warnings: string[]
+  // Engine that actually produced the sessions (after any fallback)
+  engine: SchedulingEngine
   stats: {
     totalSessions: number
     patientsScheduled: number
     therapistsUsed: number
+    // Soft rule penalty of the accepted sessions (0 = all preferences honored)
+    ruleScore: number
+    // Sessions kept with therapists the patient saw in prior published schedules
+    continuityOfCare: ContinuityStats
   }
+  quality: ScheduleQuality
+  // Session specs left with fewer sessions than requested, and why
+  unmetDemand: UnmetDemandReport
 }
 
 export interface ValidationError {
@@ -45,6 +146,27 @@ export interface ValidationError {
   errors: string[]
 }
 
+function toPatientForScheduling(p: PatientWithSessionSpecs): PatientForScheduling {
+  return {
+    id: p.id,
+    identifier: p.identifier,
+    name: p.name,
+    gender: p.gender,
+    availability: (p.availability as PatientAvailability | null) ?? null,
+    sessionSpecs: (p.sessionSpecs || []).map(spec => ({
+      id: spec.id,
+      name: spec.name,
+      sessionsPerWeek: spec.sessionsPerWeek,
+      durationMinutes: spec.durationMinutes ?? null,
+      requiredCertifications: (spec.requiredCertifications as string[]) || [],
+      preferredTimes: (spec.preferredTimes as string[]) || [],
+      preferredRoomId: spec.preferredRoomId ?? null,
+      requiredRoomCapabilities: (spec.requiredRoomCapabilities as string[]) || [],
+      groupSize: spec.groupSize ?? null
+    }))
+  }
+}
+
 export function timeToMinutes(time: string): number {
   const [hours, minutes] = time.split(':').map(Number)
   return hours * 60 + minutes
@@ -75,11 +197,23 @@ export function validateSessions(
   staff: StaffForScheduling[],
   patients: PatientForScheduling[],
   rooms: RoomForScheduling[] = [],
-  unavailabilityMap?: UnavailabilityMap
-): { valid: SessionCreate[]; errors: ValidationError[]; warnings: string[] } {
+  unavailabilityMap?: UnavailabilityMap,
+  rules: RuleForScheduling[] = [],
+  // Sessions already in the schedule: checked against, but not validated or returned
+  booked: GeneratedSession[] = [],
+  closures: ClinicClosure[] = [],
+  businessHours?: BusinessHours
+): { valid: SessionCreate[]; errors: ValidationError[]; warnings: string[]; ruleScore: number } {
   const valid: SessionCreate[] = []
   const errors: ValidationError[] = []
   const warnings: string[] = []
+  let ruleScore = 0
+
+  // Rules are evaluated against the sessions accepted so far
+  const ruleContext = createRuleContext(staff, patients, rooms)
+  const ruleIndex = new RuleSessionIndex()
+  // Authorized units used by the sessions accepted so far
+  const ledger = new AuthorizationLedger(patients)
 
   const staffMap = new Map(staff.map(s => [s.id, s]))
   const patientMap = new Map(patients.map(p => [p.id, p]))
@@ -94,6 +228,143 @@ export function validateSessions(
   const roomSessions: Map<string, { date: string; start: string; end: string }[]> = new Map()
   const sessionSpecSessions: Map<string, { date: string; start: string; end: string }[]> = new Map()
 
+  // Record an accepted session for overlap, frequency and rule checks
+  function occupy(session: GeneratedSession): void {
+    ruleIndex.add(session)
+    const slot = { date: session.date, start: session.startTime, end: session.endTime }
+    const keys: [Map<string, { date: string; start: string; end: string }[]>, string | undefined][] = [
+      [therapistSessions, session.therapistId],
+      [roomSessions, session.roomId]
+    ]
+    for (const assignment of session.staffAssignments || []) {
+      keys.push([therapistSessions, assignment.staffId])
+    }
+    for (const member of sessionPatients(session)) {
+      ledger.charge({ ...session, ...member })
+      keys.push([patientSessions, member.patientId], [sessionSpecSessions, member.sessionSpecId])
+    }
+    for (const [map, id] of keys) {
+      if (!id) continue
+      if (!map.has(id)) {
+        map.set(id, [])
+      }
+      map.get(id)!.push(slot)
+    }
+  }
+
+  function hasOverlap(map: Map<string, { date: string; start: string; end: string }[]>, id: string, session: GeneratedSession): boolean {
+    return (map.get(id) || []).some(existing =>
+      existing.date === session.date &&
+      sessionsOverlap(existing.start, existing.end, session.startTime, session.endTime)
+    )
+  }
+
+  /**
+   * Problems with a group session's enrollment: its capacity, and each
+   * patient beyond the first (who is checked like any session's patient).
+   */
+  function checkGroup(session: GeneratedSession, therapist: StaffForScheduling | undefined): string[] {
+    const groupErrors: string[] = []
+    const participants = session.participants || []
+    const lead = session.sessionSpecId ? sessionSpecMap.get(session.sessionSpecId) : undefined
+
+    if (!session.capacity) {
+      groupErrors.push('Group session is missing its capacity')
+    } else if (participants.length > session.capacity) {
+      groupErrors.push(`Group session has ${participants.length} participants but a capacity of ${session.capacity}`)
+    }
+    if (participants[0].patientId !== session.patientId || participants[0].sessionSpecId !== session.sessionSpecId) {
+      groupErrors.push('The session\'s patient and session spec must be its first participant')
+    }
+    if (lead && !lead.spec.groupSize) {
+      groupErrors.push(`Session spec "${lead.spec.name}" for ${lead.patient.name} is not a group session spec`)
+    }
+
+    const enrolled = new Set<string>([session.patientId])
+    for (const participant of participants.slice(1)) {
+      const entry = sessionSpecMap.get(participant.sessionSpecId)
+      if (!patientMap.has(participant.patientId)) {
+        groupErrors.push(`Patient ${participant.patientId} not found`)
+        continue
+      }
+      if (!entry || entry.patient.id !== participant.patientId) {
+        groupErrors.push(`Session spec ${participant.sessionSpecId} does not belong to patient ${participant.patientId}`)
+        continue
+      }
+
+      const { patient, spec } = entry
+      if (enrolled.has(patient.id)) {
+        groupErrors.push(`Patient ${patient.name} is enrolled more than once`)
+        continue
+      }
+      enrolled.add(patient.id)
+
+      if (!spec.groupSize) {
+        groupErrors.push(`Session spec "${spec.name}" for ${patient.name} is not a group session spec`)
+      } else if (lead && spec.name.toLowerCase() !== lead.spec.name.toLowerCase()) {
+        groupErrors.push(`Session spec "${spec.name}" for ${patient.name} does not match the group's "${lead.spec.name}"`)
+      }
+
+      const missingCerts = therapist ? spec.requiredCertifications.filter(cert => !therapist.certifications.includes(cert)) : []
+      if (missingCerts.length > 0) {
+        groupErrors.push(`Therapist ${therapist!.name} missing certifications: ${missingCerts.join(', ')}`)
+      }
+
+      const unavailable = checkPatientAvailability(patient, session)
+      if (unavailable) {
+        groupErrors.push(unavailable)
+      }
+
+      const overAuthorized = ledger.check({ ...session, ...participant })
+      if (overAuthorized) {
+        groupErrors.push(overAuthorized)
+      }
+
+      if (hasOverlap(patientSessions, patient.id, session)) {
+        groupErrors.push(`Patient ${patient.name} has overlapping sessions on ${session.date}`)
+      }
+    }
+
+    return groupErrors
+  }
+
+  /**
+   * Problems with a session's supervisors and co-treaters, who must be
+   * working and free just like its therapist.
+   */
+  function checkStaffAssignments(session: GeneratedSession): string[] {
+    const staffErrors: string[] = []
+    const assigned = new Set<string>([session.therapistId])
+
+    for (const assignment of session.staffAssignments || []) {
+      const member = staffMap.get(assignment.staffId)
+      if (!member) {
+        staffErrors.push(`Staff member ${assignment.staffId} not found`)
+        continue
+      }
+      if (assigned.has(member.id)) {
+        staffErrors.push(`${member.name} is assigned to the session more than once`)
+        continue
+      }
+      assigned.add(member.id)
+
+      const window = getTherapistWindow(member, session.date, unavailabilityMap || new Map())
+      if (!window || timeToMinutes(session.startTime) < window.start || timeToMinutes(session.endTime) > window.end) {
+        staffErrors.push(`${member.name} is not working ${session.startTime}-${session.endTime} on ${session.date}`)
+      }
+
+      if (hasOverlap(therapistSessions, member.id, session)) {
+        staffErrors.push(`${member.name} has overlapping sessions on ${session.date}`)
+      }
+    }
+
+    return staffErrors
+  }
+
+  for (const session of booked) {
+    occupy(session)
+  }
+
   for (const session of sessions) {
     const sessionErrors: string[] = []
 
@@ -120,6 +391,34 @@ export function validateSessions(
       sessionErrors.push(`Session spec ${session.sessionSpecId} does not belong to patient ${session.patientId}`)
     }
 
+    const closure = findClosure(closures, session.date, session.startTime, session.endTime)
+    if (closure) {
+      sessionErrors.push(`The clinic is closed for ${describeClosure(closure)}`)
+    }
+
+    const outsideHours = businessHours ? checkBusinessHours(businessHours, session) : null
+    if (outsideHours) {
+      sessionErrors.push(outsideHours.message)
+    }
+
+    const patientUnavailable = patient ? checkPatientAvailability(patient, session) : null
+    if (patientUnavailable) {
+      sessionErrors.push(patientUnavailable)
+    }
+
+    const overAuthorized = patient && sessionSpecEntry ? ledger.check(session) : null
+    if (overAuthorized) {
+      sessionErrors.push(overAuthorized)
+    }
+
+    if (session.participants?.length) {
+      sessionErrors.push(...checkGroup(session, therapist))
+    }
+
+    if (session.staffAssignments?.length) {
+      sessionErrors.push(...checkStaffAssignments(session))
+    }
+
     if (therapist && patient && sessionSpecEntry) {
       // Check certification requirements
       const missingCerts = sessionSpecEntry.spec.requiredCertifications.filter(
@@ -253,48 +552,20 @@ export function validateSessions(
       }
     }
 
+    // Check scheduling rules (only once the session is otherwise valid)
+    let ruleEvaluation: RuleEvaluation | null = null
+    if (sessionErrors.length === 0 && rules.length > 0) {
+      ruleEvaluation = evaluateSessionRules(session, rules, ruleContext, ruleIndex)
+      for (const violation of ruleEvaluation.hardViolations) {
+        sessionErrors.push(`Rule "${violation.description}": ${violation.message}`)
+      }
+    }
+
     if (sessionErrors.length > 0) {
       errors.push({ session, errors: sessionErrors })
     } else {
-      // Session is valid - add to tracking maps and results
-      if (!therapistSessions.has(session.therapistId)) {
-        therapistSessions.set(session.therapistId, [])
-      }
-      therapistSessions.get(session.therapistId)!.push({
-        date: session.date,
-        start: session.startTime,
-        end: session.endTime
-      })
-
-      if (!patientSessions.has(session.patientId)) {
-        patientSessions.set(session.patientId, [])
-      }
-      patientSessions.get(session.patientId)!.push({
-        date: session.date,
-        start: session.startTime,
-        end: session.endTime
-      })
-
-      if (!sessionSpecSessions.has(session.sessionSpecId)) {
-        sessionSpecSessions.set(session.sessionSpecId, [])
-      }
-      sessionSpecSessions.get(session.sessionSpecId)!.push({
-        date: session.date,
-        start: session.startTime,
-        end: session.endTime
-      })
-
-      // Track room session if room assigned
-      if (session.roomId) {
-        if (!roomSessions.has(session.roomId)) {
-          roomSessions.set(session.roomId, [])
-        }
-        roomSessions.get(session.roomId)!.push({
-          date: session.date,
-          start: session.startTime,
-          end: session.endTime
-        })
-      }
+      ruleScore += ruleEvaluation?.score ?? 0
+      occupy(session)
 
       valid.push({
         scheduleId: '', // Will be set by caller
@@ -305,7 +576,10 @@ export function validateSessions(
         date: new Date(session.date),
         startTime: session.startTime,
         endTime: session.endTime,
-        notes: session.notes || null
+        notes: session.notes || null,
+        capacity: session.participants?.length ? session.capacity : undefined,
+        participants: session.participants?.length ? session.participants : undefined,
+        staffAssignments: session.staffAssignments?.length ? session.staffAssignments : undefined
       })
     }
   }
@@ -323,24 +597,114 @@ export function validateSessions(
     }
   }
 
-  return { valid, errors, warnings }
+  return { valid, errors, warnings, ruleScore }
+}
+
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new Error('Schedule generation was cancelled')
+  }
+}
+
+interface ChunkedGenerationInput {
+  weekStartDate: Date
+  staff: StaffForScheduling[]
+  patients: PatientForScheduling[]
+  rules: RuleForScheduling[]
+  rooms: RoomForScheduling[]
+  pairings: PreferredPairings
+  unavailabilityMap: UnavailabilityMap
+  // Sessions that stay in the schedule (not part of the result)
+  booked: GeneratedSession[]
+  closures: ClinicClosure[]
+  solverOptions: SolverOptions
+  reportProgress: (stage: GenerationProgress['stage'], percent: number, message: string) => void
+  signal?: AbortSignal
+}
+
+/**
+ * Generate a large clinic's schedule with one AI request per chunk of
+ * patients. Each chunk sees the sessions accepted so far as booked, and only
+ * sessions that pass validation against them are carried forward. The solver
+ * then places whatever demand the chunks left unmet around the accepted
+ * sessions. Throws an AI service error when no chunk could be generated.
+ */
+async function generateWithAIInChunks(input: ChunkedGenerationInput): Promise<ScheduleGenerationResult> {
+  const { weekStartDate, staff, patients, rules, rooms, unavailabilityMap, booked, closures, reportProgress, signal } = input
+  const chunks = planScheduleChunks(remainingDemand(patients, booked), input.pairings)
+  const warnings: string[] = []
+  let accepted: GeneratedSession[] = []
+  let failedChunks = 0
+
+  for (const [i, chunk] of chunks.entries()) {
+    throwIfCancelled(signal)
+    reportProgress(
+      'generating',
+      20 + Math.round((50 * i) / chunks.length),
+      `Generating sessions for ${chunk.patients.length} patients with the AI engine (part ${i + 1} of ${chunks.length})`
+    )
+
+    try {
+      const result = await generateScheduleWithAI(weekStartDate, staff, chunk.patients, rules, rooms, chunk.pairings, [...booked, ...accepted], closures)
+      const { valid } = validateSessions([...accepted, ...result.sessions], staff, patients, rooms, unavailabilityMap, rules, booked, closures)
+      console.log(`AI generated ${result.sessions.length} sessions for part ${i + 1} of ${chunks.length}, ${valid.length - accepted.length} accepted`)
+      accepted = valid.map(toGeneratedSession)
+      warnings.push(...result.warnings)
+    } catch (error) {
+      console.error(`AI generation failed for part ${i + 1} of ${chunks.length}:`, error)
+      failedChunks++
+      warnings.push(`AI scheduling failed for ${chunk.patients.length} patients (part ${i + 1} of ${chunks.length}); their sessions were placed by the built-in solver.`)
+    }
+  }
+
+  if (failedChunks === chunks.length) {
+    throw new Error('AI service error: no part of the schedule could be generated')
+  }
+
+  // Reconcile: fill the demand the chunks left unmet around the accepted sessions
+  throwIfCancelled(signal)
+  reportProgress('generating', 70, 'Placing remaining sessions with the solver')
+  const reconciled = generateScheduleWithSolver(
+    weekStartDate,
+    staff,
+    patients,
+    rules,
+    rooms,
+    unavailabilityMap,
+    { ...input.solverOptions, booked: [...booked, ...accepted] }
+  )
+  if (reconciled.sessions.length > 0) {
+    warnings.push(`${reconciled.sessions.length} sessions the AI engine left unscheduled were placed by the built-in solver.`)
+  }
+  warnings.push(...reconciled.warnings)
+
+  return { sessions: [...accepted, ...reconciled.sessions], warnings }
 }
 
 export async function generateSchedule(
   organizationId: string,
-  weekStartDate: Date
+  weekStartDate: Date,
+  options: GenerateScheduleOptions = {}
 ): Promise<ScheduleGenerationOutput> {
+  const reportProgress = (stage: GenerationProgress['stage'], percent: number, message: string) => {
+    options.onProgress?.({ stage, percent, message })
+  }
+
   // Calculate week end date (7 days from start)
   const weekEndDate = new Date(weekStartDate)
   weekEndDate.setDate(weekEndDate.getDate() + 6)
 
   // Fetch all required data
-  const [staffResult, patientsResult, rules, roomsResult, unavailabilityResult] = await Promise.all([
+  reportProgress('loading', 5, 'Loading staff, patients, rules and rooms')
+  const [staffResult, patientsResult, rules, roomsResult, unavailabilityResult, settings, affinity, closures] = await Promise.all([
     staffRepository.findByOrganization(organizationId, 'active'),
     patientRepository.findByOrganizationWithSessionSpecs(organizationId, 'active'),
     ruleRepository.findActiveByOrganization(organizationId),
     roomRepository.findByOrganization(organizationId, 'active'),
-    staffAvailabilityRepository.getApprovedUnavailability(organizationId, weekStartDate, weekEndDate)
+    staffAvailabilityRepository.getApprovedUnavailability(organizationId, weekStartDate, weekEndDate),
+    organizationSettingsRepository.findByOrganizationId(organizationId),
+    loadPatientAffinity(organizationId, weekStartDate),
+    getClinicClosures(organizationId, weekStartDate, weekEndDate)
   ])
 
   // Build unavailability map for quick lookup
@@ -352,29 +716,30 @@ export async function generateSchedule(
     unavailabilityMap.get(record.staffId)!.push(record)
   }
 
-  const staff = staffResult as StaffForScheduling[]
-  const patients: PatientForScheduling[] = (patientsResult || []).map(p => ({
-    id: p.id,
-    identifier: p.identifier,
-    name: p.name,
-    gender: p.gender,
-    sessionSpecs: (p.sessionSpecs || []).map(spec => ({
-      id: spec.id,
-      name: spec.name,
-      sessionsPerWeek: spec.sessionsPerWeek,
-      durationMinutes: spec.durationMinutes ?? null,
-      requiredCertifications: (spec.requiredCertifications as string[]) || [],
-      preferredTimes: (spec.preferredTimes as string[]) || [],
-      preferredRoomId: spec.preferredRoomId ?? null,
-      requiredRoomCapabilities: (spec.requiredRoomCapabilities as string[]) || []
-    }))
-  }))
-  const rooms: RoomForScheduling[] = roomsResult.map(r => ({
+  let staff = staffResult as StaffForScheduling[]
+  let patients: PatientForScheduling[] = (patientsResult || []).map(toPatientForScheduling)
+  let rooms: RoomForScheduling[] = roomsResult.map(r => ({
     id: r.id,
     name: r.name,
     capabilities: (r.capabilities as string[]) || []
   }))
 
+  // Format rules for the scheduling engines
+  let rulesForScheduling: RuleForScheduling[] = rules.map(r => ({
+    id: r.id,
+    category: r.category,
+    description: r.description,
+    ruleLogic: r.ruleLogic as Record<string, unknown>,
+    priority: r.priority
+  }))
+
+  if (options.scenario) {
+    ({ staff, patients, rooms, rules: rulesForScheduling } = applyScenario(
+      { staff, patients, rooms, rules: rulesForScheduling },
+      options.scenario
+    ))
+  }
+
   if (staff.length === 0) {
     throw new Error('No active staff members found')
   }
@@ -386,22 +751,131 @@ export async function generateSchedule(
     throw new Error('One or more patients have no active session specs')
   }
 
-  // Format rules for AI
-  const rulesForAI: RuleForScheduling[] = rules.map(r => ({
-    id: r.id,
-    category: r.category,
-    description: r.description,
-    ruleLogic: r.ruleLogic as Record<string, unknown>,
-    priority: r.priority
-  }))
+  // Units each payer authorization has left for this week
+  const authorizations = await getAuthorizationsForScheduling(
+    organizationId,
+    patients.map(p => p.id),
+    weekStartDate,
+    weekEndDate
+  )
+  for (const patient of patients) {
+    const patientAuthorizations = authorizations.get(patient.id)
+    if (patientAuthorizations) patient.authorizations = patientAuthorizations
+  }
+
+  // The AI engine takes pairings, so continuity of care reaches it as each
+  // spec's usual therapist; explicit pairings (e.g. from a series) win
+  const continuityWeight = settings.continuityWeight
+  const aiPairings = {
+    ...(continuityWeight > 0 ? pairingsFromAffinity(affinity, patients, staff) : {}),
+    ...options.preferredPairings
+  }
+
+  let engine = resolveSchedulingEngine(settings.schedulingEngine, options.engine)
+  const engineWarnings: string[] = []
+  let generated: ScheduleGenerationResult | null = null
+
+  console.log(`Generating schedule for ${staff.length} staff, ${patients.length} patients, and ${rooms.length} rooms (engine: ${engine})...`)
+  throwIfCancelled(options.signal)
+
+  if (engine === 'ai' && !isProviderConfigured()) {
+    engineWarnings.push('AI scheduling service is not configured. The schedule was generated with the built-in solver.')
+    engine = 'solver'
+  }
+
+  // The engines avoid the times outside business hours like holiday closures
+  const businessHours = settings.businessHours as unknown as BusinessHours
+  const closedTimes = [
+    ...closures,
+    ...closuresOutsideBusinessHours(businessHours, formatDateToString(weekStartDate), formatDateToString(weekEndDate))
+  ]
+
+  const locked = options.locked || []
+  const solverOptions: SolverOptions = {
+    slotIntervalMinutes: settings.slotInterval,
+    defaultDurationMinutes: settings.defaultSessionDuration,
+    pairings: options.preferredPairings,
+    affinity,
+    continuityWeight,
+    booked: locked,
+    closures: closedTimes
+  }
+
+  // Locked sessions may already cover all demand
+  const unmet = remainingDemand(patients, locked)
+  if (unmet.length === 0) {
+    generated = { sessions: [], warnings: [] }
+  }
+
+  if (engine === 'ai' && !generated) {
+    try {
+      if (unmet.length > AI_CHUNK_PATIENTS) {
+        // Too many patients for one prompt, so generate in chunks
+        generated = await generateWithAIInChunks({
+          weekStartDate,
+          staff,
+          patients,
+          rules: rulesForScheduling,
+          rooms,
+          pairings: aiPairings,
+          unavailabilityMap,
+          booked: locked,
+          closures: closedTimes,
+          solverOptions,
+          reportProgress,
+          signal: options.signal
+        })
+      } else {
+        reportProgress('generating', 20, `Generating sessions for ${unmet.length} patients with the AI engine`)
+        generated = await generateScheduleWithAI(
+          weekStartDate,
+          staff,
+          unmet,
+          rulesForScheduling,
+          rooms,
+          aiPairings,
+          locked,
+          closedTimes
+        )
+      }
+      console.log(`AI generated ${generated.sessions.length} sessions`)
+    } catch (error) {
+      throwIfCancelled(options.signal)
+      console.error('AI schedule generation failed, falling back to solver:', error)
+      engineWarnings.push('AI scheduling service failed. The schedule was generated with the built-in solver.')
+      engine = 'solver'
+    }
+    throwIfCancelled(options.signal)
+  }
 
-  // Call OpenAI to generate schedule
-  console.log(`Generating schedule for ${staff.length} staff, ${patients.length} patients, and ${rooms.length} rooms...`)
-  const aiResult = await generateScheduleWithAI(weekStartDate, staff, patients, rulesForAI, rooms)
-  console.log(`AI generated ${aiResult.sessions.length} sessions`)
+  if (!generated) {
+    reportProgress('generating', 50, `Generating sessions for ${unmet.length} patients with the solver`)
+    generated = generateScheduleWithSolver(
+      weekStartDate,
+      staff,
+      patients,
+      rulesForScheduling,
+      rooms,
+      unavailabilityMap,
+      solverOptions
+    )
+    console.log(`Solver generated ${generated.sessions.length} sessions`)
+  }
 
-  // Validate the generated sessions (including staff availability)
-  const { valid, errors, warnings } = validateSessions(aiResult.sessions, staff, patients, rooms, unavailabilityMap)
+  // Validate the generated sessions (including staff availability and rules)
+  throwIfCancelled(options.signal)
+  reportProgress('validating', 80, `Validating ${generated.sessions.length} generated sessions`)
+  const { valid, errors, warnings, ruleScore } = validateSessions(
+    generated.sessions,
+    staff,
+    patients,
+    rooms,
+    unavailabilityMap,
+    rulesForScheduling,
+    locked,
+    closures,
+    businessHours
+  )
 
   // Log validation errors for debugging
   if (errors.length > 0) {
@@ -411,8 +885,42 @@ export async function generateSchedule(
     }
   }
 
-  // Combine AI warnings with validation warnings
-  const allWarnings = [...aiResult.warnings, ...warnings]
+  // Add supervisors where supervision rules need them
+  const supervision = assignSupervision(valid, staff, rulesForScheduling, unavailabilityMap, locked)
+
+  // Combine engine warnings with validation warnings
+  const allWarnings = [
+    ...engineWarnings,
+    ...authorizationWarnings(patients, weekEndDate),
+    ...generated.warnings,
+    ...warnings,
+    ...supervision.warnings
+  ]
+
+  reportProgress('validating', 90, `Scoring ${valid.length} accepted sessions`)
+  const { explanations, quality } = explainSchedule(
+    valid.map(toRuleSession),
+    staff,
+    patients,
+    rooms,
+    rulesForScheduling
+  )
+  valid.forEach((session, i) => {
+    session.explanation = explanations[i]
+  })
+
+  const unmetDemand = explainUnmetDemand({
+    weekStartDate,
+    staff,
+    patients,
+    rooms,
+    rules: rulesForScheduling,
+    sessions: [...locked, ...valid].map(s => ({ ...toRuleSession(s), participants: s.participants })),
+    unavailabilityMap,
+    closures: closedTimes,
+    slotIntervalMinutes: settings.slotInterval,
+    defaultDurationMinutes: settings.defaultSessionDuration
+  })
 
   // Calculate stats
   const uniquePatients = new Set(valid.map(s => s.patientId))
@@ -421,12 +929,262 @@ export async function generateSchedule(
   return {
     sessions: valid,
     warnings: allWarnings,
+    engine,
     stats: {
       totalSessions: valid.length,
       patientsScheduled: uniquePatients.size,
-      therapistsUsed: uniqueTherapists.size
+      therapistsUsed: uniqueTherapists.size,
+      ruleScore,
+      continuityOfCare: measureContinuity(valid, affinity)
+    },
+    quality,
+    unmetDemand
+  }
+}
+
+/**
+ * Store a generated schedule as a new draft with its sessions.
+ */
+export async function saveGeneratedSchedule(
+  organizationId: string,
+  weekStartDate: Date,
+  createdBy: string,
+  result: ScheduleGenerationOutput
+): Promise<Schedule> {
+  const schedule = await scheduleRepository.create({
+    organizationId,
+    weekStartDate,
+    createdBy,
+    quality: result.quality,
+    unmetDemand: result.unmetDemand
+  })
+
+  if (result.sessions.length > 0) {
+    await scheduleRepository.addSessions(result.sessions.map(s => ({ ...s, scheduleId: schedule.id })))
+  }
+
+  return schedule
+}
+
+interface SimulatedWeek {
+  totalSessions: number
+  therapistsUsed: number
+  qualityScore: number | null
+  coverage: ScheduleCoverage
+}
+
+export interface ScheduleSimulation {
+  weekStartDate: string
+  scenario: SimulatedWeek & Pick<ScheduleGenerationOutput, 'engine' | 'warnings' | 'stats' | 'quality' | 'sessions'>
+  // The week's stored schedule, null when it has none
+  current: (SimulatedWeek & { scheduleId: string; status: Schedule['status'] }) | null
+}
+
+/**
+ * Generate a week with a what-if scenario applied, saving nothing, next to
+ * the week's current schedule. The scenario's coverage is measured against
+ * its own overlaid demand, the current schedule's against the real demand.
+ */
+export async function simulateSchedule(
+  organizationId: string,
+  weekStartDate: Date,
+  scenario: ScenarioOverlay,
+  options: Pick<GenerateScheduleOptions, 'engine'> = {}
+): Promise<ScheduleSimulation> {
+  const result = await generateSchedule(organizationId, weekStartDate, { ...options, scenario })
+
+  const [patientsResult, stored] = await Promise.all([
+    patientRepository.findByOrganizationWithSessionSpecs(organizationId, 'active'),
+    scheduleRepository.findByWeek(organizationId, weekStartDate)
+  ])
+  const patients = (patientsResult || []).map(toPatientForScheduling)
+  const { patients: scenarioPatients } = applyScenario(
+    { staff: [], patients, rooms: [], rules: [] },
+    { patients: scenario.patients, sessionSpecs: scenario.sessionSpecs }
+  )
+
+  let current: ScheduleSimulation['current'] = null
+  const schedule = stored ? await scheduleRepository.findByIdWithSessions(stored.id, organizationId) : null
+  if (schedule) {
+    const sessions = schedule.sessions.filter(s => s.status !== 'cancelled' && s.status !== 'late_cancel')
+    current = {
+      scheduleId: schedule.id,
+      status: schedule.status,
+      totalSessions: sessions.length,
+      therapistsUsed: new Set(sessions.map(s => s.therapistId)).size,
+      qualityScore: schedule.qualityScore,
+      coverage: measureCoverage(patients, sessions)
+    }
+  }
+
+  return {
+    weekStartDate: formatDateToString(weekStartDate),
+    scenario: {
+      engine: result.engine,
+      warnings: result.warnings,
+      stats: result.stats,
+      quality: result.quality,
+      sessions: result.sessions,
+      totalSessions: result.stats.totalSessions,
+      therapistsUsed: result.stats.therapistsUsed,
+      qualityScore: result.quality.score,
+      coverage: measureCoverage(scenarioPatients, result.sessions)
+    },
+    current
+  }
+}
+
+export interface RegeneratedSchedule {
+  // Generation result for the new sessions, with the quality of the whole schedule
+  result: ScheduleGenerationOutput
+  lockedSessions: number
+}
+
+/**
+ * Locked sessions as the generator sees them: group participants, capacity and
+ * staff assignments included so their demand and time are already taken.
+ * Sessions and participants without a session spec don't count toward any
+ * demand and are left out.
+ */
+export function lockedForGeneration(sessions: SessionWithDetails[]): GeneratedSession[] {
+  return sessions
+    .filter(s => s.sessionSpecId)
+    .map(s => ({
+      therapistId: s.therapistId,
+      patientId: s.patientId,
+      sessionSpecId: s.sessionSpecId!,
+      roomId: s.roomId ?? undefined,
+      date: formatDateToString(s.date),
+      startTime: s.startTime,
+      endTime: s.endTime,
+      capacity: s.capacity ?? undefined,
+      participants: s.participants
+        ?.filter(p => p.sessionSpecId)
+        .map(p => ({ patientId: p.patientId, sessionSpecId: p.sessionSpecId! })),
+      staffAssignments: s.staffAssignments?.map(a => ({ staffId: a.staffId, role: a.role }))
+    }))
+}
+
+/**
+ * Regenerate a draft schedule around its locked sessions. Locked sessions stay
+ * as they are and count toward their session specs; every unlocked session is
+ * replaced with newly generated ones.
+ */
+export async function regenerateSchedule(
+  organizationId: string,
+  schedule: ScheduleWithSessions,
+  options: GenerateScheduleOptions = {}
+): Promise<RegeneratedSchedule> {
+  const kept = schedule.sessions.filter(s => s.locked && s.status !== 'cancelled' && s.status !== 'late_cancel')
+  const locked = lockedForGeneration(kept)
+
+  const result = await generateSchedule(organizationId, schedule.weekStartDate, { ...options, locked })
+  await scheduleRepository.replaceUnlockedSessions(
+    schedule.id,
+    result.sessions.map(s => ({ ...s, scheduleId: schedule.id }))
+  )
+  await scheduleRepository.updateUnmetDemand(schedule.id, organizationId, result.unmetDemand)
+  const quality = await refreshScheduleQuality(organizationId, schedule.id)
+
+  return {
+    result: { ...result, quality: quality ?? result.quality },
+    lockedSessions: kept.length
+  }
+}
+
+/**
+ * The therapist each session spec sees most often in these sessions, so the
+ * next week can keep the same pairings. Cancelled sessions are ignored.
+ */
+export function pairingsFromSessions(
+  sessions: Array<{ sessionSpecId?: string | null; therapistId: string; status?: string }>
+): PreferredPairings {
+  const counts = new Map<string, Map<string, number>>()
+  for (const session of sessions) {
+    if (!session.sessionSpecId) continue
+    if (session.status === 'cancelled' || session.status === 'late_cancel') continue
+    const perTherapist = counts.get(session.sessionSpecId) ?? new Map<string, number>()
+    perTherapist.set(session.therapistId, (perTherapist.get(session.therapistId) ?? 0) + 1)
+    counts.set(session.sessionSpecId, perTherapist)
+  }
+
+  const pairings: PreferredPairings = {}
+  for (const [specId, perTherapist] of counts) {
+    let best = { therapistId: '', count: 0 }
+    for (const [therapistId, count] of perTherapist) {
+      // Ties go to the lower id so the result does not depend on session order
+      if (count > best.count || (count === best.count && therapistId < best.therapistId)) {
+        best = { therapistId, count }
+      }
+    }
+    pairings[specId] = best.therapistId
+  }
+  return pairings
+}
+
+/**
+ * Pairings of the schedule stored for a week, empty when there is none.
+ */
+export async function pairingsForWeek(organizationId: string, weekStartDate: Date): Promise<PreferredPairings> {
+  const schedule = await scheduleRepository.findByWeek(organizationId, weekStartDate)
+  if (!schedule) return {}
+
+  const withSessions = await scheduleRepository.findByIdWithSessions(schedule.id, organizationId)
+  return withSessions ? pairingsFromSessions(withSessions.sessions) : {}
+}
+
+export function addWeeks(date: Date, weeks: number): Date {
+  const result = new Date(date)
+  result.setUTCDate(result.getUTCDate() + weeks * 7)
+  return result
+}
+
+export interface ScheduleSeriesWeek {
+  weekStartDate: string
+  schedule: Schedule
+  // Null when the week already had a schedule, which is left untouched
+  result: ScheduleGenerationOutput | null
+}
+
+/**
+ * Generate consecutive weekly schedules. Each week prefers the pairings of the
+ * week before it (starting from the schedule just before the series, if any),
+ * so patients keep their therapists across the whole series. Weeks that
+ * already have a schedule are skipped but still pass their pairings on.
+ */
+export async function generateScheduleSeries(
+  organizationId: string,
+  firstWeekStartDate: Date,
+  weeks: number,
+  createdBy: string,
+  options: GenerateScheduleOptions = {}
+): Promise<ScheduleSeriesWeek[]> {
+  let pairings: PreferredPairings = {
+    ...(await pairingsForWeek(organizationId, addWeeks(firstWeekStartDate, -1))),
+    ...options.preferredPairings
+  }
+  const series: ScheduleSeriesWeek[] = []
+
+  for (let i = 0; i < weeks; i++) {
+    const weekStartDate = addWeeks(firstWeekStartDate, i)
+    const weekStart = formatDateToString(weekStartDate)
+
+    const existing = await scheduleRepository.findByWeek(organizationId, weekStartDate)
+    if (existing) {
+      pairings = { ...pairings, ...(await pairingsForWeek(organizationId, weekStartDate)) }
+      series.push({ weekStartDate: weekStart, schedule: existing, result: null })
+      continue
     }
+
+    const result = await generateSchedule(organizationId, weekStartDate, { ...options, preferredPairings: pairings })
+    const schedule = await saveGeneratedSchedule(organizationId, weekStartDate, createdBy, result)
+
+    // Specs left unscheduled this week keep their older pairing
+    pairings = { ...pairings, ...pairingsFromSessions(result.sessions) }
+    series.push({ weekStartDate: weekStart, schedule, result })
   }
+
+  return series
 }
 
 // Helper function to format date as YYYY-MM-DD string
@@ -434,7 +1192,43 @@ function formatDateToString(date: Date | string): string {
   if (date instanceof Date) {
     return date.toISOString().split('T')[0]
   }
-  return String(date).split('T')[0]
+  return String(date).split('T')[0]
+}
+
+function toGeneratedSession(s: SessionCreate): GeneratedSession {
+  return {
+    therapistId: s.therapistId,
+    patientId: s.patientId,
+    sessionSpecId: s.sessionSpecId,
+    roomId: s.roomId ?? undefined,
+    date: formatDateToString(s.date),
+    startTime: s.startTime,
+    endTime: s.endTime,
+    notes: s.notes ?? undefined,
+    capacity: s.capacity ?? undefined,
+    participants: s.participants,
+    staffAssignments: s.staffAssignments
+  }
+}
+
+function toRuleSession(s: {
+  therapistId: string
+  patientId: string
+  sessionSpecId?: string | null
+  roomId?: string | null
+  date: Date | string
+  startTime: string
+  endTime: string
+}): RuleSession {
+  return {
+    therapistId: s.therapistId,
+    patientId: s.patientId,
+    sessionSpecId: s.sessionSpecId,
+    roomId: s.roomId,
+    date: formatDateToString(s.date),
+    startTime: s.startTime,
+    endTime: s.endTime
+  }
 }
 
 // Types for copy validation
@@ -481,7 +1275,8 @@ async function regenerateViolatingSession(
   patients: PatientForScheduling[],
   rules: RuleForScheduling[],
   rooms: RoomForScheduling[],
-  unavailabilityMap: UnavailabilityMap
+  unavailabilityMap: UnavailabilityMap,
+  closures: ClinicClosure[]
 ): Promise<RegenerateSessionResult> {
   // Find the patient for this session
   const patient = patients.find(p => p.id === originalSession.patientId)
@@ -550,6 +1345,18 @@ async function regenerateViolatingSession(
     return `${i + 1}. [${r.category}] ${r.description}`
   }).join('\n')
 
+  // Format holidays
+  const closuresForPrompt = closures.map(c => {
+    const hours = c.startTime && c.endTime ? `${c.startTime}-${c.endTime}` : 'all day'
+    return `- ${c.date} ${hours}: ${c.name}`
+  }).join('\n')
+
+  // Format the times the patient can't attend
+  const patientUnavailableForPrompt = patientUnavailableTimes(patient.availability, weekDates[0], weekDates[4]).map(c => {
+    const hours = c.startTime && c.endTime ? `${c.startTime}-${c.endTime}` : 'all day'
+    return `- ${c.date} ${hours}: ${c.name}`
+  }).join('\n')
+
   // Format rooms
   const roomsForPrompt = rooms.length > 0
     ? rooms.map(r => `- ${r.name} (ID: ${r.id}): capabilities [${r.capabilities.join(', ')}]`).join('\n')
@@ -593,6 +1400,12 @@ ${roomsForPrompt}
 SCHEDULING RULES:
 ${rulesForPrompt || 'No specific rules defined.'}
 
+CLINIC CLOSED (holidays and outside business hours; do not schedule during these times):
+${closuresForPrompt || 'None this week.'}
+
+PATIENT UNAVAILABLE (outside the patient's availability; do not schedule during these times):
+${patientUnavailableForPrompt || 'None this week.'}
+
 ALREADY SCHEDULED SESSIONS (avoid conflicts with these):
 ${existingSessionsForPrompt || 'No sessions scheduled yet.'}
 
@@ -670,13 +1483,19 @@ export async function validateAndRegenerateCopiedSchedule(
   weekEndDate.setDate(weekEndDate.getDate() + 6)
 
   // Fetch all required data
-  const [staffResult, patientsResult, rules, roomsResult, unavailabilityResult] = await Promise.all([
+  const [staffResult, patientsResult, rules, roomsResult, unavailabilityResult, closures, businessHours] = await Promise.all([
     staffRepository.findByOrganization(organizationId, 'active'),
     patientRepository.findByOrganizationWithSessionSpecs(organizationId, 'active'),
     ruleRepository.findActiveByOrganization(organizationId),
     roomRepository.findByOrganization(organizationId, 'active'),
-    staffAvailabilityRepository.getApprovedUnavailability(organizationId, weekStartDate, weekEndDate)
+    staffAvailabilityRepository.getApprovedUnavailability(organizationId, weekStartDate, weekEndDate),
+    getClinicClosures(organizationId, weekStartDate, weekEndDate),
+    organizationSettingsRepository.getBusinessHours(organizationId)
   ])
+  const closedTimes = [
+    ...closures,
+    ...closuresOutsideBusinessHours(businessHours, formatDateToString(weekStartDate), formatDateToString(weekEndDate))
+  ]
 
   // Build unavailability map
   const unavailabilityMap: UnavailabilityMap = new Map()
@@ -688,22 +1507,7 @@ export async function validateAndRegenerateCopiedSchedule(
   }
 
   const staff = staffResult as StaffForScheduling[]
-  const patients: PatientForScheduling[] = (patientsResult || []).map(p => ({
-    id: p.id,
-    identifier: p.identifier,
-    name: p.name,
-    gender: p.gender,
-    sessionSpecs: (p.sessionSpecs || []).map(spec => ({
-      id: spec.id,
-      name: spec.name,
-      sessionsPerWeek: spec.sessionsPerWeek,
-      durationMinutes: spec.durationMinutes ?? null,
-      requiredCertifications: (spec.requiredCertifications as string[]) || [],
-      preferredTimes: (spec.preferredTimes as string[]) || [],
-      preferredRoomId: spec.preferredRoomId ?? null,
-      requiredRoomCapabilities: (spec.requiredRoomCapabilities as string[]) || []
-    }))
-  }))
+  const patients: PatientForScheduling[] = (patientsResult || []).map(toPatientForScheduling)
   const rooms: RoomForScheduling[] = roomsResult.map(r => ({
     id: r.id,
     name: r.name,
@@ -727,7 +1531,13 @@ export async function validateAndRegenerateCopiedSchedule(
     date: formatDateToString(s.date),
     startTime: s.startTime,
     endTime: s.endTime,
-    notes: s.notes || undefined
+    notes: s.notes || undefined,
+    // Group enrollment carries over; patients enrolled without a spec are left out
+    capacity: s.capacity ?? undefined,
+    participants: s.capacity
+      ? s.participants?.flatMap(p => p.sessionSpecId ? [{ patientId: p.patientId, sessionSpecId: p.sessionSpecId }] : [])
+      : undefined,
+    staffAssignments: s.staffAssignments?.map(a => ({ staffId: a.staffId, role: a.role }))
   }))
 
   // First pass: validate all sessions
@@ -736,7 +1546,11 @@ export async function validateAndRegenerateCopiedSchedule(
     staff,
     patients,
     rooms,
-    unavailabilityMap
+    unavailabilityMap,
+    rulesForAI,
+    [],
+    closures,
+    businessHours
   )
 
   const validSessions: SessionCreate[] = [...initialValid]
@@ -755,8 +1569,10 @@ export async function validateAndRegenerateCopiedSchedule(
     }
   }
 
-  // Check if AI is available for regeneration
-  const aiAvailable = isProviderConfigured()
+  // Check if AI is available for regeneration; organizations on the solver
+  // don't send patient data to the AI provider
+  const aiAvailable = isProviderConfigured() &&
+    (await organizationSettingsRepository.getSchedulingEngine(organizationId)) === 'ai'
   if (!aiAvailable) {
     // Fall back to removing invalid sessions
     for (const error of errors) {
@@ -777,7 +1593,7 @@ export async function validateAndRegenerateCopiedSchedule(
         reason: error.errors.join('; ')
       })
     }
-    warnings.push('AI service unavailable - invalid sessions were removed instead of regenerated.')
+    warnings.push('AI regeneration unavailable - invalid sessions were removed instead of regenerated.')
     return { validSessions, modifications, warnings }
   }
 
@@ -805,7 +1621,8 @@ export async function validateAndRegenerateCopiedSchedule(
       patients,
       rulesForAI,
       rooms,
-      unavailabilityMap
+      unavailabilityMap,
+      closedTimes
     )
 
     if (regenerateResult.success && regenerateResult.newSession) {
@@ -838,7 +1655,11 @@ export async function validateAndRegenerateCopiedSchedule(
         staff,
         patients,
         rooms,
-        unavailabilityMap
+        unavailabilityMap,
+        rulesForAI,
+        [],
+        closures,
+        businessHours
       )
 
       // Check if the new session passed validation (it should be the last one)
@@ -903,3 +1724,714 @@ export async function validateAndRegenerateCopiedSchedule(
 
   return { validSessions, modifications, warnings }
 }
+
+// Types for schedule repair
+export interface RepairUnavailability {
+  staffId: string
+  date: string
+  // false (the default) means the whole day; true with a window means only available during it
+  available?: boolean
+  startTime?: string | null
+  endTime?: string | null
+  reason?: string | null
+}
+
+export interface RepairSlot {
+  therapistId: string
+  therapistName?: string
+  roomId: string | null
+  date: string
+  startTime: string
+  endTime: string
+}
+
+// A supervisor or co-treater who is unavailable, and who takes their place
+export interface RepairStaffAssignment {
+  staffId: string
+  staffName?: string
+  role: 'supervisor' | 'co_treater'
+  // Absent when they are dropped from the session
+  replacementStaffId?: string
+  replacementStaffName?: string
+}
+
+export interface RepairChange {
+  sessionId: string
+  // reassign keeps the slot with another therapist, move changes the slot, cancel gives up;
+  // replace_staff and drop_staff keep the session and change its staffAssignment
+  action: 'reassign' | 'move' | 'cancel' | 'replace_staff' | 'drop_staff'
+  patientId: string
+  patientName?: string
+  original: RepairSlot
+  replacement?: RepairSlot
+  staffAssignment?: RepairStaffAssignment
+  reason: string
+}
+
+export interface ScheduleRepairProposal {
+  unavailability: RepairUnavailability
+  changes: RepairChange[]
+  warnings: string[]
+}
+
+const REPAIR_SLOT_INTERVAL = 30
+
+function isOutsideAvailability(
+  session: { startTime: string; endTime: string },
+  unavailability: RepairUnavailability
+): boolean {
+  if (!unavailability.available) return true
+  if (!unavailability.startTime || !unavailability.endTime) return false
+  return timeToMinutes(session.startTime) < timeToMinutes(unavailability.startTime) ||
+    timeToMinutes(session.endTime) > timeToMinutes(unavailability.endTime)
+}
+
+/**
+ * Load what repairing a week needs, with the new unavailability already
+ * counted against the staff member.
+ */
+// A scheduled session in the shape the validator checks
+function toRepairPlacement(s: SessionWithDetails): GeneratedSession {
+  return {
+    therapistId: s.therapistId,
+    patientId: s.patientId,
+    sessionSpecId: s.sessionSpecId || '',
+    roomId: s.roomId || undefined,
+    date: formatDateToString(s.date),
+    startTime: s.startTime,
+    endTime: s.endTime,
+    staffAssignments: s.staffAssignments?.map(a => ({ staffId: a.staffId, role: a.role }))
+  }
+}
+
+async function loadRepairContext(
+  organizationId: string,
+  weekStartDate: Date,
+  weekEndDate: Date,
+  unavailability: RepairUnavailability
+) {
+  const [staffResult, patientsResult, rules, roomsResult, unavailabilityResult, closures, businessHours, engine] = await Promise.all([
+    staffRepository.findByOrganization(organizationId, 'active'),
+    patientRepository.findByOrganizationWithSessionSpecs(organizationId, 'active'),
+    ruleRepository.findActiveByOrganization(organizationId),
+    roomRepository.findByOrganization(organizationId, 'active'),
+    staffAvailabilityRepository.getApprovedUnavailability(organizationId, weekStartDate, weekEndDate),
+    getClinicClosures(organizationId, weekStartDate, weekEndDate),
+    organizationSettingsRepository.getBusinessHours(organizationId),
+    organizationSettingsRepository.getSchedulingEngine(organizationId)
+  ])
+  const closedTimes = [
+    ...closures,
+    ...closuresOutsideBusinessHours(businessHours, formatDateToString(weekStartDate), formatDateToString(weekEndDate))
+  ]
+
+  // Existing approved records plus the new unavailability
+  const unavailabilityMap: UnavailabilityMap = new Map()
+  const newRecord = {
+    id: 'repair',
+    staffId: unavailability.staffId,
+    date: new Date(`${unavailability.date}T00:00:00Z`),
+    available: unavailability.available ?? false,
+    startTime: unavailability.startTime ?? null,
+    endTime: unavailability.endTime ?? null,
+    reason: unavailability.reason ?? null
+  } as StaffAvailability
+  for (const record of [...unavailabilityResult, newRecord]) {
+    if (!unavailabilityMap.has(record.staffId)) {
+      unavailabilityMap.set(record.staffId, [])
+    }
+    unavailabilityMap.get(record.staffId)!.push(record)
+  }
+
+  const staff = staffResult as StaffForScheduling[]
+  const patients: PatientForScheduling[] = (patientsResult || []).map(toPatientForScheduling)
+  const rooms: RoomForScheduling[] = roomsResult.map(r => ({
+    id: r.id,
+    name: r.name,
+    capabilities: (r.capabilities as string[]) || []
+  }))
+  const rulesForScheduling: RuleForScheduling[] = rules.map(r => ({
+    id: r.id,
+    category: r.category,
+    description: r.description,
+    ruleLogic: r.ruleLogic as Record<string, unknown>,
+    priority: r.priority
+  }))
+
+  return { staff, patients, rooms, rulesForScheduling, unavailabilityMap, closures, closedTimes, businessHours, engine }
+}
+
+/**
+ * Propose how to repair a schedule after a staff member becomes unavailable.
+ *
+ * Every session the unavailability knocks out is re-placed with as little
+ * disruption as possible: first the same slot with another qualified
+ * therapist, then the nearest free slot later that day or later in the week.
+ * Sessions the search cannot place fall back to AI regeneration when a
+ * provider is configured, and are proposed for cancellation otherwise.
+ * Sessions the staff member attends as a supervisor or co-treater keep their
+ * slot, with another free staff member holding the same certifications in
+ * their place, or without them when there is no one.
+ * Nothing is saved; the caller applies the changes the admin accepts.
+ */
+export async function proposeScheduleRepair(
+  organizationId: string,
+  schedule: ScheduleWithSessions,
+  unavailability: RepairUnavailability
+): Promise<ScheduleRepairProposal> {
+  const weekStartDate = new Date(schedule.weekStartDate)
+  const weekEndDate = new Date(weekStartDate)
+  weekEndDate.setDate(weekEndDate.getDate() + 6)
+
+  const {
+    staff, patients, rooms, rulesForScheduling, unavailabilityMap, closures, closedTimes, businessHours, engine
+  } = await loadRepairContext(organizationId, weekStartDate, weekEndDate, unavailability)
+  // Organizations on the solver don't send patient data to the AI provider
+  const aiAvailable = engine === 'ai' && isProviderConfigured()
+
+  const activeSessions = schedule.sessions.filter(s => s.status !== 'cancelled' && s.status !== 'late_cancel')
+  const impacted = activeSessions
+    .filter(s =>
+      s.therapistId === unavailability.staffId &&
+      formatDateToString(s.date) === unavailability.date &&
+      isOutsideAvailability(s, unavailability)
+    )
+    .sort((a, b) => a.startTime.localeCompare(b.startTime))
+  // Sessions the staff member attends as a supervisor or co-treater keep their slot
+  const attended = activeSessions
+    .filter(s =>
+      s.therapistId !== unavailability.staffId &&
+      (s.staffAssignments || []).some(a => a.staffId === unavailability.staffId) &&
+      formatDateToString(s.date) === unavailability.date &&
+      isOutsideAvailability(s, unavailability)
+    )
+    .sort((a, b) => a.startTime.localeCompare(b.startTime))
+
+  const changes: RepairChange[] = []
+  const warnings: string[] = []
+  if (impacted.length === 0 && attended.length === 0) {
+    return { unavailability, changes, warnings: ['No sessions are affected by this unavailability.'] }
+  }
+
+  const staffMap = new Map(staff.map(s => [s.id, s]))
+  const impactedIds = new Set([...impacted, ...attended].map(s => s.id))
+
+  // Sessions that stay where they are, plus replacements accepted so far
+  const placed: GeneratedSession[] = activeSessions
+    .filter(s => !impactedIds.has(s.id))
+    .map(toRepairPlacement)
+
+  const staffOf = (s: GeneratedSession): string[] => [s.therapistId, ...(s.staffAssignments || []).map(a => a.staffId)]
+  const overlapsPlaced = (candidate: GeneratedSession): boolean =>
+    placed.some(p =>
+      p.date === candidate.date &&
+      sessionsOverlap(p.startTime, p.endTime, candidate.startTime, candidate.endTime) &&
+      (staffOf(p).some(id => staffOf(candidate).includes(id)) ||
+        p.patientId === candidate.patientId ||
+        (!!candidate.roomId && p.roomId === candidate.roomId))
+    )
+
+  const isValid = (candidate: GeneratedSession): boolean => {
+    if (overlapsPlaced(candidate)) return false
+    const { errors } = validateSessions(
+      [...placed, candidate],
+      staff,
+      patients,
+      rooms,
+      unavailabilityMap,
+      rulesForScheduling,
+      [],
+      closures,
+      businessHours
+    )
+    return !errors.some(e => e.session === candidate)
+  }
+
+  // Only days from the call-out onward; earlier days of the week have already happened
+  const candidateDates: string[] = []
+  for (let i = 0; i < 5; i++) {
+    const date = new Date(weekStartDate)
+    date.setDate(date.getDate() + i)
+    const dateStr = date.toISOString().split('T')[0]
+    if (dateStr >= unavailability.date) candidateDates.push(dateStr)
+  }
+
+  const toSlot = (s: { therapistId: string; roomId?: string | null; date: string; startTime: string; endTime: string }): RepairSlot => ({
+    therapistId: s.therapistId,
+    therapistName: staffMap.get(s.therapistId)?.name,
+    roomId: s.roomId || null,
+    date: s.date,
+    startTime: s.startTime,
+    endTime: s.endTime
+  })
+
+  const absentName = staffMap.get(unavailability.staffId)?.name || 'Staff member'
+  for (const session of attended) {
+    const current = toRepairPlacement(session)
+    const assignment = current.staffAssignments!.find(a => a.staffId === unavailability.staffId)!
+    const others = new Set(staffOf(current))
+    // Someone who holds every certification the absent staff member does
+    const absentCerts = staffMap.get(unavailability.staffId)?.certifications || []
+    const withStaff = (staffId: string): GeneratedSession => ({
+      ...current,
+      staffAssignments: current.staffAssignments!.map(a => a === assignment ? { staffId, role: a.role } : a)
+    })
+    const stepIn = staff
+      .filter(t => !others.has(t.id) && absentCerts.every(cert => t.certifications.includes(cert)))
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .find(t => {
+        const candidate = withStaff(t.id)
+        return !overlapsPlaced(candidate) && isValid(candidate)
+      })
+
+    const change = {
+      sessionId: session.id,
+      patientId: session.patientId,
+      patientName: session.patientName,
+      original: toSlot(current),
+      reason: `${absentName} is unavailable on ${unavailability.date}`
+    }
+    const staffAssignment = { staffId: assignment.staffId, staffName: staffMap.get(assignment.staffId)?.name, role: assignment.role }
+    if (stepIn) {
+      placed.push(withStaff(stepIn.id))
+      changes.push({
+        ...change,
+        action: 'replace_staff',
+        staffAssignment: { ...staffAssignment, replacementStaffId: stepIn.id, replacementStaffName: stepIn.name }
+      })
+    } else {
+      placed.push({ ...current, staffAssignments: current.staffAssignments!.filter(a => a !== assignment) })
+      changes.push({ ...change, action: 'drop_staff', staffAssignment, reason: `${change.reason} and no one else is free to step in` })
+    }
+  }
+
+  for (const session of impacted) {
+    const original = toSlot({ ...session, date: formatDateToString(session.date) })
+    const change = {
+      sessionId: session.id,
+      patientId: session.patientId,
+      patientName: session.patientName,
+      original
+    }
+    const patient = patients.find(p => p.id === session.patientId)
+    const spec = patient?.sessionSpecs.find(s => s.id === session.sessionSpecId) ??
+      (patient?.sessionSpecs.length === 1 ? patient.sessionSpecs[0] : undefined)
+
+    if (!patient || !spec) {
+      changes.push({ ...change, action: 'cancel', reason: 'The patient or session spec is no longer active' })
+      continue
+    }
+
+    const qualified = staff
+      .filter(t => spec.requiredCertifications.every(cert => t.certifications.includes(cert)))
+      .sort((a, b) => a.id.localeCompare(b.id))
+
+    // Therapists who already see this patient this week keep continuity of care
+    const seenBy = new Map<string, number>()
+    for (const p of placed) {
+      if (p.patientId === patient.id) seenBy.set(p.therapistId, (seenBy.get(p.therapistId) || 0) + 1)
+    }
+    const byContinuity = [...qualified].sort((a, b) => (seenBy.get(b.id) || 0) - (seenBy.get(a.id) || 0))
+
+    const requiredCaps = spec.requiredRoomCapabilities || []
+    const roomOptions: Array<string | null> = [
+      session.roomId,
+      ...rooms
+        .filter(r => r.id !== session.roomId && requiredCaps.every(cap => r.capabilities.includes(cap)))
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .map(r => r.id)
+    ]
+
+    const duration = timeToMinutes(session.endTime) - timeToMinutes(session.startTime)
+    const originalStart = timeToMinutes(session.startTime)
+    const candidates: Array<{ session: GeneratedSession; action: 'reassign' | 'move'; distance: number }> = []
+
+    for (const date of candidateDates) {
+      const dayOffset = Math.round((new Date(date).getTime() - new Date(original.date).getTime()) / 86400000)
+      for (const therapist of byContinuity) {
+        const hours = therapist.defaultHours[getDayOfWeek(date)]
+        if (!hours) continue
+        const dayOff = (unavailabilityMap.get(therapist.id) || [])
+          .some(u => !u.available && u.date.toISOString().split('T')[0] === date)
+        if (dayOff) continue
+
+        for (let start = timeToMinutes(hours.start); start + duration <= timeToMinutes(hours.end); start += REPAIR_SLOT_INTERVAL) {
+          const sameSlot = date === original.date && start === originalStart
+          if (sameSlot && therapist.id === session.therapistId) continue
+
+          candidates.push({
+            session: {
+              therapistId: therapist.id,
+              patientId: patient.id,
+              sessionSpecId: spec.id,
+              roomId: undefined,
+              date,
+              startTime: minutesToTime(start),
+              endTime: minutesToTime(start + duration)
+            },
+            action: sameSlot ? 'reassign' : 'move',
+            // Days away weigh more than minutes away
+            distance: sameSlot ? 0 : dayOffset * 24 * 60 + Math.abs(start - originalStart) + 1
+          })
+        }
+      }
+    }
+    // Stable sort keeps the continuity order among equally distant slots
+    candidates.sort((a, b) => a.distance - b.distance)
+
+    let replacement: { session: GeneratedSession; action: 'reassign' | 'move' } | null = null
+    for (const candidate of candidates) {
+      for (const roomId of roomOptions) {
+        const withRoom = { ...candidate.session, roomId: roomId || undefined }
+        if (isValid(withRoom)) {
+          replacement = { session: withRoom, action: candidate.action }
+          break
+        }
+      }
+      if (replacement) break
+    }
+
+    const reason = `${staffMap.get(session.therapistId)?.name || 'Therapist'} is unavailable on ${unavailability.date}`
+
+    if (!replacement && aiAvailable) {
+      const regenerated = await regenerateViolatingSession(
+        session,
+        reason,
+        weekStartDate,
+        placed.map(p => ({ ...p, scheduleId: '', roomId: p.roomId || null, date: new Date(p.date) })),
+        staff,
+        patients,
+        rulesForScheduling,
+        rooms,
+        unavailabilityMap,
+        closedTimes
+      )
+      if (regenerated.success && regenerated.newSession) {
+        const candidate: GeneratedSession = {
+          therapistId: regenerated.newSession.therapistId,
+          patientId: regenerated.newSession.patientId,
+          sessionSpecId: regenerated.newSession.sessionSpecId,
+          roomId: regenerated.newSession.roomId || undefined,
+          date: formatDateToString(regenerated.newSession.date),
+          startTime: regenerated.newSession.startTime,
+          endTime: regenerated.newSession.endTime
+        }
+        if (candidate.date >= unavailability.date && isValid(candidate)) {
+          const sameSlot = candidate.date === original.date && candidate.startTime === original.startTime
+          replacement = { session: candidate, action: sameSlot ? 'reassign' : 'move' }
+        }
+      }
+    }
+
+    if (replacement) {
+      placed.push(replacement.session)
+      changes.push({ ...change, action: replacement.action, replacement: toSlot(replacement.session), reason })
+    } else {
+      changes.push({ ...change, action: 'cancel', reason: `${reason} and no other valid slot was found` })
+    }
+  }
+
+  const cancelled = changes.filter(c => c.action === 'cancel').length
+  if (cancelled > 0) {
+    warnings.push(`${cancelled} session(s) could not be re-placed and would be cancelled.`)
+  }
+  const unsupervised = changes.filter(c => c.action === 'drop_staff' && c.staffAssignment?.role === 'supervisor').length
+  if (unsupervised > 0) {
+    warnings.push(`${unsupervised} session(s) would lose their supervisor. Check supervision before applying.`)
+  }
+
+  return { unavailability, changes, warnings }
+}
+
+/**
+ * Check accepted repair changes the way the proposal checked them: business
+ * hours, closures, staff and patient availability, and hard rules, against the
+ * schedule as it is now. Returns a message for each replacement that no longer
+ * fits; an empty list means the changes can be applied.
+ */
+export async function validateRepairChanges(
+  organizationId: string,
+  schedule: ScheduleWithSessions,
+  unavailability: RepairUnavailability,
+  changes: Array<Pick<RepairChange, 'sessionId' | 'action' | 'replacement' | 'staffAssignment'>>
+): Promise<string[]> {
+  const weekStartDate = new Date(schedule.weekStartDate)
+  const weekEndDate = new Date(weekStartDate)
+  weekEndDate.setDate(weekEndDate.getDate() + 6)
+
+  const {
+    staff, patients, rooms, rulesForScheduling, unavailabilityMap, closures, businessHours
+  } = await loadRepairContext(organizationId, weekStartDate, weekEndDate, unavailability)
+
+  // Sessions changed in this repair are placed again as they will be
+  const changedIds = new Set(changes.map(c => c.sessionId))
+  const placed: GeneratedSession[] = schedule.sessions
+    .filter(s => s.status !== 'cancelled' && s.status !== 'late_cancel' && !changedIds.has(s.id))
+    .map(toRepairPlacement)
+
+  const problems: string[] = []
+  for (const change of changes) {
+    const session = schedule.sessions.find(s => s.id === change.sessionId)
+    if (!session || change.action === 'cancel') continue
+
+    let candidate: GeneratedSession
+    if (change.action === 'replace_staff' || change.action === 'drop_staff') {
+      const current = toRepairPlacement(session)
+      const absentId = change.staffAssignment?.staffId
+      const replacementId = change.action === 'replace_staff' ? change.staffAssignment?.replacementStaffId : undefined
+      candidate = {
+        ...current,
+        staffAssignments: (current.staffAssignments || []).flatMap(a =>
+          a.staffId !== absentId ? [a] : replacementId ? [{ staffId: replacementId, role: a.role }] : []
+        )
+      }
+      if (!replacementId) {
+        placed.push(candidate)
+        continue
+      }
+    } else if (change.replacement) {
+      candidate = {
+        therapistId: change.replacement.therapistId,
+        patientId: session.patientId,
+        sessionSpecId: session.sessionSpecId || '',
+        roomId: change.replacement.roomId || undefined,
+        date: change.replacement.date,
+        startTime: change.replacement.startTime,
+        endTime: change.replacement.endTime
+      }
+    } else {
+      continue
+    }
+    const { errors } = validateSessions(
+      [...placed, candidate],
+      staff,
+      patients,
+      rooms,
+      unavailabilityMap,
+      rulesForScheduling,
+      [],
+      closures,
+      businessHours
+    )
+    const failed = errors.find(e => e.session === candidate)
+    if (failed) {
+      problems.push(
+        ...failed.errors.map(error =>
+          `${session.patientName || 'Session'} at ${candidate.startTime} on ${candidate.date}: ${error}`
+        )
+      )
+      continue
+    }
+    placed.push(candidate)
+  }
+
+  return problems
+}
+
+export interface AppliedRepair {
+  reassigned: number
+  moved: number
+  cancelled: number
+  // Supervisors and co-treaters replaced or dropped
+  staffReplaced: number
+  staffDropped: number
+}
+
+/**
+ * Apply repair changes to a schedule's sessions, all of them or none. Changes
+ * are expected to have been checked against the schedule as it is now;
+ * cancelled sessions record the therapist's unavailability as the reason.
+ * The unavailability, when given, is recorded in the same transaction.
+ */
+export async function applyScheduleRepair(
+  organizationId: string,
+  scheduleId: string,
+  changes: Array<Pick<RepairChange, 'sessionId' | 'action' | 'replacement' | 'staffAssignment'>>,
+  cancellation: { cancelledById: string; notes?: string | null },
+  unavailability?: StaffAvailabilityCreate
+): Promise<AppliedRepair & { availabilityId: string | null }> {
+  return prisma.$transaction(async (tx) => {
+    const applied: AppliedRepair = { reassigned: 0, moved: 0, cancelled: 0, staffReplaced: 0, staffDropped: 0 }
+    const availability = unavailability ? await staffAvailabilityRepository.create(unavailability, tx) : null
+
+    for (const change of changes) {
+      if (change.action === 'replace_staff' || change.action === 'drop_staff') {
+        const assignment = change.staffAssignment
+        if (!assignment || !await sessionRepository.removeStaffAssignment(change.sessionId, assignment.staffId, tx)) {
+          throw new Error(`Session ${change.sessionId} has no such staff assignment`)
+        }
+        if (change.action === 'replace_staff' && assignment.replacementStaffId) {
+          await sessionRepository.addStaffAssignment(change.sessionId, {
+            staffId: assignment.replacementStaffId,
+            role: assignment.role
+          }, tx)
+          applied.staffReplaced++
+        } else {
+          applied.staffDropped++
+        }
+        continue
+      }
+
+      if (change.action === 'cancel' || !change.replacement) {
+        const cancelled = await sessionRepository.cancelSession(change.sessionId, organizationId, {
+          cancelledById: cancellation.cancelledById,
+          reason: 'therapist_unavailable',
+          notes: cancellation.notes || undefined
+        }, tx)
+        if (!cancelled) throw new Error(`Session ${change.sessionId} could not be cancelled`)
+        applied.cancelled++
+        continue
+      }
+
+      const replacement = change.replacement
+      const updated = await sessionRepository.update(change.sessionId, scheduleId, {
+        therapistId: replacement.therapistId,
+        roomId: replacement.roomId,
+        date: new Date(replacement.date),
+        startTime: replacement.startTime,
+        endTime: replacement.endTime,
+        explanation: null
+      }, tx)
+      if (!updated) throw new Error(`Session ${change.sessionId} could not be updated`)
+      if (change.action === 'reassign') {
+        applied.reassigned++
+      } else {
+        applied.moved++
+      }
+    }
+
+    return { ...applied, availabilityId: availability?.id ?? null }
+  })
+}
+
+export interface SessionRuleCheckOptions {
+  // Evaluate against this schedule's sessions instead of every session that week
+  scheduleId?: string
+  // Session being edited, left out of the comparison set
+  excludeSessionId?: string
+}
+
+/**
+ * Evaluate a single manually created, edited or booked session against the
+ * organization's active rules and the other sessions of its week.
+ */
+export async function checkSessionRules(
+  organizationId: string,
+  session: RuleSession,
+  options: SessionRuleCheckOptions = {}
+): Promise<RuleEvaluation> {
+  const rules = await ruleRepository.findActiveByOrganization(organizationId)
+  if (rules.length === 0) {
+    return { hardViolations: [], softViolations: [], score: 0, satisfiedRuleIds: [] }
+  }
+
+  // Monday-to-Sunday week containing the session
+  const weekStart = new Date(`${session.date}T00:00:00Z`)
+  weekStart.setUTCDate(weekStart.getUTCDate() - ((weekStart.getUTCDay() + 6) % 7))
+  const weekEnd = new Date(weekStart)
+  weekEnd.setUTCDate(weekEnd.getUTCDate() + 6)
+
+  const [therapist, patient, room, existing] = await Promise.all([
+    staffRepository.findById(session.therapistId, organizationId),
+    patientRepository.findByIdWithSessionSpecs(session.patientId, organizationId),
+    session.roomId ? roomRepository.findById(session.roomId, organizationId) : Promise.resolve(null),
+    options.scheduleId
+      ? sessionRepository.findBySchedule(options.scheduleId)
+      : scheduleRepository.getSessionsByDateRange(organizationId, weekStart, weekEnd)
+  ])
+
+  if (!therapist || !patient) {
+    return { hardViolations: [], softViolations: [], score: 0, satisfiedRuleIds: [] }
+  }
+
+  const context = createRuleContext(
+    [therapist as StaffForScheduling],
+    [toPatientForScheduling(patient)],
+    room ? [{ id: room.id, name: room.name, capabilities: (room.capabilities as string[]) || [] }] : []
+  )
+
+  const index = new RuleSessionIndex(
+    existing
+      .filter(s => s.id !== options.excludeSessionId && s.status !== 'cancelled' && s.status !== 'late_cancel')
+      .filter(s => s.therapistId === session.therapistId || s.patientId === session.patientId)
+      .map(toRuleSession)
+  )
+
+  const rulesForScheduling: RuleForScheduling[] = rules.map(r => ({
+    id: r.id,
+    category: r.category,
+    description: r.description,
+    ruleLogic: r.ruleLogic as Record<string, unknown>,
+    priority: r.priority
+  }))
+
+  return evaluateSessionRules(session, rulesForScheduling, context, index)
+}
+
+/**
+ * Recompute and store a schedule's quality score, e.g. after manual edits.
+ * Returns null when the schedule does not exist.
+ */
+export async function refreshScheduleQuality(
+  organizationId: string,
+  scheduleId: string
+): Promise<ScheduleQuality | null> {
+  const schedule = await scheduleRepository.findByIdWithSessions(scheduleId, organizationId)
+  if (!schedule) return null
+
+  const [staffResult, patientsResult, rules, roomsResult] = await Promise.all([
+    staffRepository.findByOrganization(organizationId),
+    patientRepository.findByOrganizationWithSessionSpecs(organizationId),
+    ruleRepository.findActiveByOrganization(organizationId),
+    roomRepository.findByOrganization(organizationId)
+  ])
+
+  const { quality } = explainSchedule(
+    schedule.sessions
+      .filter(s => s.status !== 'cancelled' && s.status !== 'late_cancel')
+      .map(toRuleSession),
+    staffResult as StaffForScheduling[],
+    (patientsResult || []).map(toPatientForScheduling),
+    roomsResult.map(r => ({ id: r.id, name: r.name, capabilities: (r.capabilities as string[]) || [] })),
+    rules.map(r => ({
+      id: r.id,
+      category: r.category,
+      description: r.description,
+      ruleLogic: r.ruleLogic as Record<string, unknown>,
+      priority: r.priority
+    }))
+  )
+
+  await scheduleRepository.updateQuality(scheduleId, organizationId, quality)
+  return quality
+}
+
+/**
+ * Supervision totals for each supervised therapist in a schedule, counting
+ * sessions that weren't cancelled. Returns null when the schedule does not
+ * exist.
+ */
+export async function getScheduleSupervision(
+  organizationId: string,
+  scheduleId: string
+): Promise<SupervisionSummary[] | null> {
+  const schedule = await scheduleRepository.findByIdWithSessions(scheduleId, organizationId)
+  if (!schedule) return null
+
+  const [staffResult, rules] = await Promise.all([
+    staffRepository.findByOrganization(organizationId),
+    ruleRepository.findActiveByOrganization(organizationId)
+  ])
+
+  return supervisionReport(
+    schedule.sessions.filter(s => s.status !== 'cancelled' && s.status !== 'late_cancel'),
+    staffResult as StaffForScheduling[],
+    rules.map(r => ({
+      id: r.id,
+      category: r.category,
+      description: r.description,
+      ruleLogic: r.ruleLogic as Record<string, unknown>,
+      priority: r.priority
+    }))
+  )
+}
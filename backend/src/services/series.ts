@@ -0,0 +1,528 @@
+/**
+ * Appointment Series
+ *
+ * A series is a standing slot for one patient and therapist that repeats on
+ * an RFC 5545 RRULE: Mondays and Wednesdays at 3pm until June, every other
+ * Tuesday, and so on. Unlike weekly schedule generation, its sessions are
+ * booked straight from the rule. Sessions are materialized
+ * SERIES_HORIZON_DAYS ahead when the series is created, and the server's
+ * sweep books further occurrences as the horizon moves.
+ *
+ * Materialized sessions are locked, so regenerating their week's schedule
+ * leaves them in place. Each remembers its occurrence date; an occurrence
+ * that already has a session (moved, cancelled or otherwise) is never booked
+ * again, which is how single-occurrence exceptions are kept.
+ *
+ * Edits and cancellations take a scope:
+ * - this: only the given occurrence's session changes
+ * - following: the series ends the day before the occurrence; edits continue
+ *   in a new series that starts on it
+ * - all: the whole series changes; past sessions are left as they happened
+ *
+ * Occurrences that clash with the therapist's, patient's or room's other
+ * sessions are rejected up front unless conflicts are allowed, in which case
+ * the clashing dates are skipped.
+ */
+
+import {
+  seriesRepository,
+  type AppointmentSeries,
+  type SeriesConflict
+} from '../repositories/series.js'
+import { bookingRepository } from '../repositories/booking.js'
+import { sessionRepository } from '../repositories/schedules.js'
+import { organizationSettingsRepository } from '../repositories/organizationSettings.js'
+import { findBusinessHoursViolation } from './businessHours.js'
+import { checkSessionRules } from './scheduler.js'
+import { offerCancelledSession } from './waitlist.js'
+import { parseRRule, formatRRule, expandRRule, countOccurrencesBefore, type RRule } from '../utils/rrule.js'
+import { getCurrentLocalDate } from '../utils/timezone.js'
+import type { CancellationReason, Session } from '@prisma/client'
+
+// How far ahead occurrences are booked
+export const SERIES_HORIZON_DAYS = 56
+
+export type SeriesScope = 'this' | 'following' | 'all'
+
+// Sessions that haven't started and can be replaced or cancelled
+const OPEN_STATUSES = ['pending', 'scheduled', 'confirmed']
+
+export class SeriesError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SeriesError'
+  }
+}
+
+export class SeriesConflictError extends SeriesError {
+  constructor(public readonly conflicts: SeriesConflict[]) {
+    super(`${conflicts.length} occurrence${conflicts.length === 1 ? '' : 's'} conflict with existing sessions`)
+    this.name = 'SeriesConflictError'
+  }
+}
+
+export interface SeriesInput {
+  patientId: string
+  staffId: string
+  roomId?: string | null
+  sessionSpecId?: string | null
+  rrule: string
+  startDate: string // YYYY-MM-DD
+  startTime: string
+  endTime: string
+  notes?: string | null
+}
+
+export interface SeriesChanges {
+  rrule?: string
+  startTime?: string
+  endTime?: string
+  staffId?: string
+  roomId?: string | null
+  notes?: string | null
+  // Only for a single occurrence
+  date?: string
+}
+
+export interface MaterializeResult {
+  created: number
+  // Occurrences that couldn't be booked, with why
+  skipped: { date: string; reason: string }[]
+}
+
+export interface SeriesPreview {
+  occurrences: string[]
+  conflicts: SeriesConflict[]
+}
+
+function toDate(date: string): Date {
+  return new Date(`${date}T00:00:00.000Z`)
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function addDays(date: string, days: number): string {
+  const result = toDate(date)
+  result.setUTCDate(result.getUTCDate() + days)
+  return toDateString(result)
+}
+
+function parseRule(rrule: string): RRule {
+  try {
+    return parseRRule(rrule)
+  } catch (error) {
+    throw new SeriesError(error instanceof Error ? error.message : 'Invalid recurrence rule')
+  }
+}
+
+// Whether the rule has no occurrences left from a date on
+function isExhausted(rule: RRule, startDate: string, from: string): boolean {
+  if (rule.until !== undefined) return rule.until < from
+  if (rule.count !== undefined) return countOccurrencesBefore(rule, startDate, from) >= rule.count
+  return false
+}
+
+async function getToday(organizationId: string): Promise<string> {
+  const settings = await organizationSettingsRepository.findByOrganizationId(organizationId)
+  return getCurrentLocalDate(settings.timezone)
+}
+
+/**
+ * Upcoming occurrences within the horizon, and the sessions they'd clash
+ * with. Sessions in `excludeSessionIds` are about to be replaced and don't
+ * count.
+ */
+async function findUpcoming(
+  organizationId: string,
+  input: SeriesInput,
+  today: string,
+  excludeSessionIds: string[] = []
+): Promise<SeriesPreview> {
+  const rule = parseRule(input.rrule)
+  const from = input.startDate > today ? input.startDate : today
+  const occurrences = expandRRule(rule, input.startDate, addDays(today, SERIES_HORIZON_DAYS), from)
+
+  const conflicts = await seriesRepository.findConflicts(organizationId, {
+    dates: occurrences.map(toDate),
+    startTime: input.startTime,
+    endTime: input.endTime,
+    staffId: input.staffId,
+    patientId: input.patientId,
+    roomId: input.roomId
+  }, excludeSessionIds)
+
+  return { occurrences, conflicts }
+}
+
+/**
+ * The occurrences a new series would book within the horizon, and which of
+ * them conflict with existing sessions.
+ */
+export async function previewSeries(organizationId: string, input: SeriesInput): Promise<SeriesPreview> {
+  return findUpcoming(organizationId, input, await getToday(organizationId))
+}
+
+/**
+ * Create a series and book its occurrences within the horizon. Throws
+ * SeriesConflictError when occurrences clash with existing sessions, unless
+ * allowConflicts is set.
+ */
+export async function createSeries(
+  organizationId: string,
+  input: SeriesInput,
+  options: { allowConflicts?: boolean; createdByUserId?: string } = {}
+): Promise<{ series: AppointmentSeries } & MaterializeResult> {
+  const rule = parseRule(input.rrule)
+  const today = await getToday(organizationId)
+
+  if (isExhausted(rule, input.startDate, input.startDate > today ? input.startDate : today)) {
+    throw new SeriesError('The series has no upcoming occurrences')
+  }
+
+  const { conflicts } = await findUpcoming(organizationId, input, today)
+  if (conflicts.length > 0 && !options.allowConflicts) {
+    throw new SeriesConflictError(conflicts)
+  }
+
+  const series = await seriesRepository.create({
+    ...input,
+    organizationId,
+    rrule: formatRRule(rule),
+    startDate: toDate(input.startDate),
+    createdByUserId: options.createdByUserId
+  })
+
+  const result = await materializeSeries(series, today)
+  return { series, ...result }
+}
+
+/**
+ * Book the series' occurrences up to the horizon that don't have a session
+ * yet. Occurrences that can't be booked (a clash, outside business hours, a
+ * hard rule) are skipped; the next run doesn't retry them.
+ */
+export async function materializeSeries(series: AppointmentSeries, today?: string): Promise<MaterializeResult> {
+  const result: MaterializeResult = { created: 0, skipped: [] }
+  if (series.status !== 'active') return result
+
+  const rule = parseRule(series.rrule)
+  const startDate = toDateString(series.startDate)
+  today ??= await getToday(series.organizationId)
+
+  let from = startDate > today ? startDate : today
+  if (series.materializedThrough) {
+    const next = addDays(toDateString(series.materializedThrough), 1)
+    if (next > from) from = next
+  }
+
+  if (isExhausted(rule, startDate, from)) {
+    await seriesRepository.update(series.id, { status: 'ended' })
+    return result
+  }
+
+  const through = addDays(today, SERIES_HORIZON_DAYS)
+  const existing = await seriesRepository.findOccurrenceDates(series.id)
+  const occurrences = expandRRule(rule, startDate, through, from).filter(date => !existing.has(date))
+
+  // bookDirect checks the therapist; the patient and room are checked here
+  const conflicts = await seriesRepository.findConflicts(series.organizationId, {
+    dates: occurrences.map(toDate),
+    startTime: series.startTime,
+    endTime: series.endTime,
+    staffId: series.staffId,
+    patientId: series.patientId,
+    roomId: series.roomId
+  })
+  const conflictDates = new Map(conflicts.map(c => [c.date, c]))
+
+  for (const date of occurrences) {
+    const conflict = conflictDates.get(date)
+    if (conflict) {
+      result.skipped.push({ date, reason: `Conflicts with the ${conflict.with}'s session at ${conflict.startTime}` })
+      continue
+    }
+
+    const booking = await bookingRepository.bookDirect({
+      organizationId: series.organizationId,
+      staffId: series.staffId,
+      patientId: series.patientId,
+      roomId: series.roomId ?? undefined,
+      sessionSpecId: series.sessionSpecId ?? undefined,
+      date: toDate(date),
+      startTime: series.startTime,
+      endTime: series.endTime,
+      notes: series.notes ?? undefined,
+      bookedVia: 'admin',
+      createdByUserId: series.createdByUserId ?? undefined,
+      locked: true,
+      seriesId: series.id,
+      seriesOccurrenceDate: toDate(date)
+    })
+
+    if (booking.success) {
+      result.created++
+    } else {
+      result.skipped.push({ date, reason: booking.error || 'Time slot is not available' })
+    }
+  }
+
+  await seriesRepository.update(series.id, {
+    materializedThrough: toDate(through),
+    ...(isExhausted(rule, startDate, addDays(through, 1)) ? { status: 'ended' as const } : {})
+  })
+
+  return result
+}
+
+/**
+ * Materialize every active series as the horizon moves. Never throws; a
+ * series that fails is logged and retried on the next run. Returns the number
+ * of sessions booked.
+ */
+export async function materializeAllSeries(): Promise<number> {
+  const seriesList = await seriesRepository.findActive()
+  let created = 0
+
+  for (const series of seriesList) {
+    try {
+      created += (await materializeSeries(series)).created
+    } catch (error) {
+      console.error(`[Series] Failed to materialize series ${series.id}:`, error)
+    }
+  }
+
+  return created
+}
+
+function assertOccurrence(series: AppointmentSeries, session: Session): string {
+  if (session.seriesId !== series.id || !session.seriesOccurrenceDate) {
+    throw new SeriesError('Session is not an occurrence of this series')
+  }
+  return toDateString(session.seriesOccurrenceDate)
+}
+
+// The series' sessions from a date on that haven't started yet
+async function findOpenSessions(seriesId: string, from: string): Promise<Session[]> {
+  const sessions = await seriesRepository.findSessions(seriesId, { from: toDate(from) })
+  return sessions.filter(s => OPEN_STATUSES.includes(s.status))
+}
+
+// End the series' rule the day before an occurrence
+function endRuleBefore(rule: RRule, date: string): string {
+  return formatRRule({ ...rule, count: undefined, until: addDays(date, -1) })
+}
+
+/**
+ * Move or reassign a single occurrence. Its occurrence date stays, so the
+ * series won't book that date again.
+ */
+async function updateOccurrence(
+  organizationId: string,
+  session: Session,
+  changes: SeriesChanges
+): Promise<Session> {
+  if (!OPEN_STATUSES.includes(session.status)) {
+    throw new SeriesError(`Cannot edit an occurrence with status '${session.status}'`)
+  }
+
+  const date = changes.date ?? toDateString(session.date)
+  const startTime = changes.startTime ?? session.startTime
+  const endTime = changes.endTime ?? session.endTime
+  const staffId = changes.staffId ?? session.therapistId
+  const roomId = changes.roomId !== undefined ? changes.roomId : session.roomId
+
+  const outsideHours = await findBusinessHoursViolation(organizationId, { date, startTime, endTime })
+  if (outsideHours) {
+    throw new SeriesError(outsideHours.message)
+  }
+
+  const conflicts = await seriesRepository.findConflicts(organizationId, {
+    dates: [toDate(date)],
+    startTime,
+    endTime,
+    staffId,
+    patientId: session.patientId,
+    roomId
+  }, [session.id])
+  if (conflicts.length > 0) {
+    throw new SeriesConflictError(conflicts)
+  }
+
+  const ruleCheck = await checkSessionRules(organizationId, {
+    therapistId: staffId,
+    patientId: session.patientId,
+    sessionSpecId: session.sessionSpecId,
+    roomId,
+    date,
+    startTime,
+    endTime
+  }, { excludeSessionId: session.id })
+  if (ruleCheck.hardViolations.length > 0) {
+    throw new SeriesError(`Occurrence violates scheduling rules: ${ruleCheck.hardViolations.map(v => v.message).join('; ')}`)
+  }
+
+  const updated = await sessionRepository.update(session.id, session.scheduleId, {
+    date: toDate(date),
+    startTime,
+    endTime,
+    therapistId: staffId,
+    roomId,
+    notes: changes.notes
+  })
+  if (!updated) {
+    throw new SeriesError('Failed to update occurrence')
+  }
+  return updated
+}
+
+/**
+ * Edit a series from one of its occurrences. Returns the series the changes
+ * now live in: the same one, or for "following" the new series split off at
+ * the occurrence.
+ */
+export async function updateSeries(
+  organizationId: string,
+  series: AppointmentSeries,
+  session: Session,
+  scope: SeriesScope,
+  changes: SeriesChanges,
+  options: { allowConflicts?: boolean; updatedByUserId?: string } = {}
+): Promise<{ series: AppointmentSeries; session?: Session } & MaterializeResult> {
+  if (series.status === 'cancelled') {
+    throw new SeriesError('Cannot edit a cancelled series')
+  }
+  const occurrenceDate = assertOccurrence(series, session)
+
+  if (scope === 'this') {
+    const updated = await updateOccurrence(organizationId, session, changes)
+    return { series, session: updated, created: 0, skipped: [] }
+  }
+
+  const today = await getToday(organizationId)
+  const rule = parseRule(series.rrule)
+  const startDate = toDateString(series.startDate)
+  // Splitting at the first occurrence is the same as editing them all
+  const splitsSeries = scope === 'following' && occurrenceDate > startDate
+
+  let newRule = changes.rrule ? parseRule(changes.rrule) : rule
+  if (splitsSeries && !changes.rrule && rule.count !== undefined) {
+    newRule = { ...rule, count: rule.count - countOccurrencesBefore(rule, startDate, occurrenceDate) }
+  }
+
+  const input: SeriesInput = {
+    patientId: series.patientId,
+    staffId: changes.staffId ?? series.staffId,
+    roomId: changes.roomId !== undefined ? changes.roomId : series.roomId,
+    sessionSpecId: series.sessionSpecId,
+    rrule: formatRRule(newRule),
+    startDate: splitsSeries ? occurrenceDate : startDate,
+    startTime: changes.startTime ?? series.startTime,
+    endTime: changes.endTime ?? series.endTime,
+    notes: changes.notes !== undefined ? changes.notes : series.notes
+  }
+  if (input.startTime >= input.endTime) {
+    throw new SeriesError('startTime must be before endTime')
+  }
+
+  // The sessions being replaced don't count as conflicts; past ones stay as they are
+  const replaced = await findOpenSessions(series.id, splitsSeries && occurrenceDate > today ? occurrenceDate : today)
+  const { conflicts } = await findUpcoming(organizationId, input, today, replaced.map(s => s.id))
+  if (conflicts.length > 0 && !options.allowConflicts) {
+    throw new SeriesConflictError(conflicts)
+  }
+
+  await seriesRepository.deleteSessions(replaced.map(s => s.id))
+
+  if (!splitsSeries) {
+    const updated = await seriesRepository.update(series.id, {
+      staffId: input.staffId,
+      roomId: input.roomId,
+      rrule: input.rrule,
+      startTime: input.startTime,
+      endTime: input.endTime,
+      notes: input.notes,
+      status: 'active',
+      materializedThrough: null
+    })
+    const result = await materializeSeries(updated, today)
+    return { series: updated, ...result }
+  }
+
+  await seriesRepository.update(series.id, { rrule: endRuleBefore(rule, occurrenceDate), status: 'ended' })
+  const split = await seriesRepository.create({
+    ...input,
+    organizationId,
+    startDate: toDate(input.startDate),
+    splitFromId: series.id,
+    createdByUserId: options.updatedByUserId
+  })
+  const result = await materializeSeries(split, today)
+  return { series: split, ...result }
+}
+
+async function cancelOccurrence(
+  organizationId: string,
+  session: Session,
+  cancellation: { cancelledById: string; reason: CancellationReason; notes?: string }
+): Promise<Session | null> {
+  const sessionDateTime = new Date(session.date)
+  const [hours, minutes] = session.startTime.split(':').map(Number)
+  sessionDateTime.setHours(hours, minutes, 0, 0)
+
+  const isLateCancellation = await organizationSettingsRepository.isLateCancellation(organizationId, sessionDateTime)
+  const cancelled = await sessionRepository.cancelSession(session.id, organizationId, {
+    ...cancellation,
+    isLateCancellation
+  })
+
+  if (cancelled) {
+    await offerCancelledSession(organizationId, cancelled)
+  }
+  return cancelled
+}
+
+/**
+ * Cancel one occurrence, it and the ones after it, or the whole series; with
+ * no session, the whole series. Cancelled sessions stay on record, and their
+ * slots are offered to the waitlist. Returns the number of sessions cancelled.
+ */
+export async function cancelSeries(
+  organizationId: string,
+  series: AppointmentSeries,
+  session: Session | null,
+  scope: SeriesScope,
+  cancellation: { cancelledById: string; reason: CancellationReason; notes?: string }
+): Promise<number> {
+  const occurrenceDate = session ? assertOccurrence(series, session) : null
+
+  if (session && scope === 'this') {
+    if (!OPEN_STATUSES.includes(session.status)) {
+      throw new SeriesError(`Cannot cancel an occurrence with status '${session.status}'`)
+    }
+    return (await cancelOccurrence(organizationId, session, cancellation)) ? 1 : 0
+  }
+
+  if (series.status === 'cancelled') {
+    throw new SeriesError('Series is already cancelled')
+  }
+
+  const today = await getToday(organizationId)
+  let from = today
+  if (occurrenceDate && scope === 'following' && occurrenceDate > toDateString(series.startDate)) {
+    if (occurrenceDate > today) from = occurrenceDate
+    await seriesRepository.update(series.id, {
+      rrule: endRuleBefore(parseRule(series.rrule), occurrenceDate),
+      status: 'ended'
+    })
+  } else {
+    await seriesRepository.update(series.id, { status: 'cancelled' })
+  }
+
+  let cancelled = 0
+  for (const open of await findOpenSessions(series.id, from)) {
+    if (await cancelOccurrence(organizationId, open, cancellation)) cancelled++
+  }
+  return cancelled
+}
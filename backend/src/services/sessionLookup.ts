@@ -1,5 +1,5 @@
 import { prisma } from '../db/index.js'
-import type { SessionWithDetails } from '../repositories/schedules.js'
+import type { SessionWithDetails, SessionStatus } from '../repositories/schedules.js'
 
 export interface SessionLookupParams {
   scheduleId: string
@@ -17,6 +17,20 @@ export interface SessionLookupResult {
 
 export const DAYS_OF_WEEK = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
 
+/**
+ * The patients a session is for, each with their own session spec: everyone
+ * enrolled in a group session, or the session's one patient.
+ */
+export function sessionPatients<P extends { patientId: string }>(session: {
+  patientId: string
+  sessionSpecId: string
+  participants?: P[]
+}): (P | { patientId: string; sessionSpecId: string })[] {
+  return session.participants?.length
+    ? session.participants
+    : [{ patientId: session.patientId, sessionSpecId: session.sessionSpecId }]
+}
+
 export function getDayOfWeekFromDate(date: Date): string {
   return DAYS_OF_WEEK[date.getDay()]
 }
@@ -181,12 +195,16 @@ export interface ConflictCheckParams {
   excludeSessionId?: string
 }
 
+const CANCELLED_STATUSES: SessionStatus[] = ['cancelled', 'late_cancel']
+
 export async function checkForConflicts(params: ConflictCheckParams): Promise<SessionWithDetails[]> {
   const sessionData = await prisma.session.findMany({
     where: { scheduleId: params.scheduleId },
     include: {
       therapist: { select: { name: true } },
-      patient: { select: { name: true } }
+      patient: { select: { name: true } },
+      participants: true,
+      staffAssignments: true
     }
   })
 
@@ -219,9 +237,14 @@ export async function checkForConflicts(params: ConflictCheckParams): Promise<Se
       continue
     }
 
-    // Check if it's a conflict for therapist or patient
-    const isTherapistConflict = params.therapistId && row.therapistId === params.therapistId
-    const isPatientConflict = params.patientId && row.patientId === params.patientId
+    // Check if it's a conflict for therapist or patient. Supervisors and
+    // co-treaters are as busy as the session's therapist.
+    const isTherapistConflict = params.therapistId && (row.therapistId === params.therapistId ||
+      row.staffAssignments.some(a => a.staffId === params.therapistId))
+    // In a group session, everyone enrolled is busy except those who cancelled
+    const isPatientConflict = params.patientId && (row.participants.length > 0
+      ? row.participants.some(p => p.patientId === params.patientId && !CANCELLED_STATUSES.includes(p.status))
+      : row.patientId === params.patientId)
 
     if (isTherapistConflict || isPatientConflict) {
       conflicts.push({
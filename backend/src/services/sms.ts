@@ -0,0 +1,113 @@
+/**
+ * SMS Service
+ *
+ * Queues text messages in the notification outbox, which hands them to the
+ * configured SMS provider (smsProvider/) and retries failed sends. Numbers
+ * are normalized to E.164 with the organization's country code first.
+ *
+ * Replies are handled here too: STOP and the other standard opt-out keywords
+ * turn off texts for the contacts with the sender's number in the
+ * organization that was texted, START turns them back on. Carriers send the
+ * confirmation reply themselves.
+ */
+
+import { organizationSettingsRepository } from '../repositories/organizationSettings.js'
+import { patientContactRepository } from '../repositories/patientContacts.js'
+import { logAudit } from '../repositories/audit.js'
+import { normalizePhone } from '../utils/phone.js'
+import { queueNotification, type QueueOptions } from './notifications.js'
+
+const DEFAULT_COUNTRY_CODE = '1'
+const OPT_OUT_KEYWORDS = new Set(['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT', 'REVOKE'])
+const OPT_IN_KEYWORDS = new Set(['START', 'UNSTOP'])
+
+export interface SmsOptions extends QueueOptions {
+  // Organization the message is sent for, whose notification log lists it
+  organizationId?: string | null
+  // What the message is, e.g. portal_login_code
+  kind: string
+  // Carries a sign-in code; the body is cleared once it's sent
+  sensitive?: boolean
+}
+
+/**
+ * Send a text message to a phone number. Returns false when the number isn't
+ * a valid phone number.
+ */
+export async function sendSms(phone: string, message: string, options: SmsOptions): Promise<boolean> {
+  const { organizationId, kind, sensitive, tx, onQueued } = options
+
+  const countryCode = organizationId
+    ? (await organizationSettingsRepository.findByOrganizationId(organizationId)).smsCountryCode
+    : DEFAULT_COUNTRY_CODE
+  const to = normalizePhone(phone, countryCode)
+  if (!to) {
+    console.warn(`[SMS] Not sending ${kind}: not a valid phone number`)
+    return false
+  }
+
+  const notification = await queueNotification({
+    organizationId,
+    channel: 'sms',
+    kind,
+    recipients: [to],
+    textBody: message,
+    sensitive
+  }, { tx, onQueued })
+  return notification.status !== 'failed'
+}
+
+function firstWord(body: string): string {
+  return body.trim().split(/\s+/)[0].toUpperCase()
+}
+
+/**
+ * The opt-in change a reply asks for: false for STOP and the like, true for
+ * START, null for anything else.
+ */
+export function optInKeyword(body: string): boolean | null {
+  const keyword = firstWord(body)
+  if (OPT_OUT_KEYWORDS.has(keyword)) return false
+  if (OPT_IN_KEYWORDS.has(keyword)) return true
+  return null
+}
+
+/**
+ * Handle a reply to one of our texts. An opt-out or opt-in keyword updates
+ * the contacts with exactly the sender's number in the organization that
+ * sends from the number it was sent to. Replies to a number no single
+ * organization sends from are ignored. Returns how many contacts changed.
+ */
+export async function handleInboundSms(from: string, to: string | undefined, body: string): Promise<number> {
+  const smsOptIn = optInKeyword(body)
+  if (smsOptIn === null) return 0
+
+  const sender = normalizePhone(from)
+  const receiver = to ? normalizePhone(to) : null
+  if (!sender || !receiver) return 0
+
+  const organizationIds = await organizationSettingsRepository.findOrganizationIdsBySmsSender(receiver)
+  if (organizationIds.length !== 1) {
+    console.warn(`[SMS] Ignoring reply to ${receiver}: ${organizationIds.length === 0 ? 'no organization' : 'more than one organization'} sends from it`)
+    return 0
+  }
+  const [organizationId] = organizationIds
+
+  const { smsCountryCode } = await organizationSettingsRepository.findByOrganizationId(organizationId)
+  const candidates = await patientContactRepository.findByPhoneSuffix(sender.slice(-4), organizationId)
+  const contacts = candidates.filter(contact =>
+    contact.smsOptIn !== smsOptIn && !!contact.phone && normalizePhone(contact.phone, smsCountryCode) === sender
+  )
+  if (contacts.length === 0) return 0
+
+  await patientContactRepository.setSmsOptIn(contacts.map(c => c.id), smsOptIn)
+
+  for (const contact of contacts) {
+    await logAudit(null, smsOptIn ? 'sms_opt_in' : 'sms_opt_out', 'patient_contact', contact.id, organizationId, {
+      keyword: firstWord(body)
+    })
+  }
+
+  console.log(`[SMS] ${smsOptIn ? 'Opted in' : 'Opted out'} ${contacts.length} contact(s) by reply`)
+  return contacts.length
+}
@@ -0,0 +1,35 @@
+/**
+ * SMS provider module
+ *
+ * Hands text messages to the provider SMS_PROVIDER selects: AWS SNS, a
+ * generic HTTP gateway, or a logging provider for development and tests.
+ * Messages go out from the organization's configured sender. Called by the
+ * notification outbox; everything else sends texts through sms.ts.
+ */
+
+import { organizationSettingsRepository } from '../../repositories/organizationSettings.js'
+import { getSmsProvider } from './providerFactory.js'
+
+export * from './types.js'
+export type { LoggedSms } from './providers/log.js'
+export {
+  getSmsProvider,
+  getConfiguredProvider,
+  getLogProvider,
+} from './providerFactory.js'
+
+/**
+ * Send a text message to an E.164 number with the configured provider.
+ * Throws when it can't be handed over; returns the provider's message id.
+ */
+export async function deliverSms(
+  to: string,
+  body: string,
+  organizationId?: string | null
+): Promise<string | undefined> {
+  const from = organizationId
+    ? (await organizationSettingsRepository.findByOrganizationId(organizationId)).smsSenderId
+    : null
+
+  return getSmsProvider().send({ to, body, from })
+}
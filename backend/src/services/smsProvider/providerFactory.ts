@@ -0,0 +1,62 @@
+/**
+ * SMS provider factory
+ * Creates and manages singleton instances of SMS providers
+ */
+
+import type { SmsProvider, SmsProviderType } from './types.js'
+import { SnsSmsProvider } from './providers/sns.js'
+import { HttpGatewaySmsProvider } from './providers/httpGateway.js'
+import { LogSmsProvider } from './providers/log.js'
+
+const providers = new Map<SmsProviderType, SmsProvider>()
+
+function createProvider(type: SmsProviderType): SmsProvider {
+  switch (type) {
+    case 'sns':
+      return new SnsSmsProvider()
+    case 'http':
+      return new HttpGatewaySmsProvider()
+    case 'log':
+      return new LogSmsProvider()
+    default:
+      throw new Error(`Unknown SMS provider: ${type}`)
+  }
+}
+
+/**
+ * Get the SMS provider configured by SMS_PROVIDER
+ * Uses singleton pattern to reuse provider instances
+ */
+export function getSmsProvider(type: SmsProviderType = getConfiguredProvider()): SmsProvider {
+  let provider = providers.get(type)
+  if (!provider) {
+    provider = createProvider(type)
+    providers.set(type, provider)
+  }
+  return provider
+}
+
+/**
+ * Get the configured SMS provider type
+ * Without SMS_PROVIDER: SNS when AWS credentials are set, otherwise the
+ * logging provider outside production
+ */
+export function getConfiguredProvider(): SmsProviderType {
+  const envProvider = process.env.SMS_PROVIDER?.toLowerCase()
+  if (envProvider === 'sns' || envProvider === 'http' || envProvider === 'log') {
+    return envProvider
+  }
+  if (envProvider) {
+    throw new Error(`Unknown SMS provider: ${envProvider}`)
+  }
+
+  const awsConfigured = !!(process.env.AWS_REGION && process.env.AWS_ACCESS_KEY_ID)
+  return awsConfigured || process.env.NODE_ENV === 'production' ? 'sns' : 'log'
+}
+
+/**
+ * The logging provider's outbox, for tests and local inspection
+ */
+export function getLogProvider(): LogSmsProvider {
+  return getSmsProvider('log') as LogSmsProvider
+}
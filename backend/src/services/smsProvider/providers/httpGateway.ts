@@ -0,0 +1,97 @@
+/**
+ * HTTP gateway SMS provider
+ * Sends through any SMS gateway that takes a JSON POST, and reads receipts
+ * and replies the gateway posts back in the generic webhook format below.
+ *
+ * Outgoing: POST SMS_GATEWAY_URL  { "to": "+15555550100", "from": "+15555550199", "body": "..." }
+ *   with "Authorization: Bearer SMS_GATEWAY_TOKEN" when set; the response's
+ *   "id" or "messageId" is the message id.
+ *
+ * Webhook, one event or an array of them:
+ *   { "type": "receipt", "messageId": "...", "status": "delivered" | "failed", "error": "..." }
+ *   { "type": "inbound", "from": "+15555550100", "to": "+15555550199", "body": "STOP" }
+ */
+
+import { z } from 'zod'
+import type { SmsEvent, SmsMessage, SmsProvider } from '../types.js'
+
+const receiptSchema = z.object({
+  type: z.literal('receipt'),
+  messageId: z.string().min(1),
+  status: z.enum(['delivered', 'failed']),
+  error: z.string().optional()
+})
+
+const inboundSchema = z.object({
+  type: z.literal('inbound'),
+  from: z.string().min(1),
+  to: z.string().optional(),
+  body: z.string()
+})
+
+const eventSchema = z.discriminatedUnion('type', [receiptSchema, inboundSchema])
+
+/**
+ * Read events in the generic webhook format. Unrecognized entries are skipped.
+ */
+export function parseGatewayEvents(body: unknown): SmsEvent[] {
+  const entries = Array.isArray(body) ? body : [body]
+
+  return entries.flatMap((entry): SmsEvent[] => {
+    const parsed = eventSchema.safeParse(entry)
+    if (!parsed.success) return []
+
+    const event = parsed.data
+    if (event.type === 'receipt') {
+      return [{
+        type: 'receipt',
+        messageId: event.messageId,
+        delivered: event.status === 'delivered',
+        reason: event.error
+      }]
+    }
+    return [{ type: 'inbound', from: event.from, to: event.to, body: event.body }]
+  })
+}
+
+export class HttpGatewaySmsProvider implements SmsProvider {
+  private url: string
+  private token?: string
+
+  constructor() {
+    const url = process.env.SMS_GATEWAY_URL
+    if (!url) {
+      throw new Error('SMS_GATEWAY_URL is required for the http SMS provider')
+    }
+    this.url = url
+    this.token = process.env.SMS_GATEWAY_TOKEN || undefined
+  }
+
+  async send(message: SmsMessage): Promise<string | undefined> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {})
+      },
+      body: JSON.stringify({
+        to: message.to,
+        ...(message.from ? { from: message.from } : {}),
+        body: message.body
+      })
+    })
+
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => '')).slice(0, 200)
+      throw new Error(`SMS gateway returned ${response.status}${detail ? `: ${detail}` : ''}`)
+    }
+
+    const result = await response.json().catch(() => null) as { id?: unknown; messageId?: unknown } | null
+    const id = result?.id ?? result?.messageId
+    return id === undefined || id === null ? undefined : String(id)
+  }
+
+  parseEvents(body: unknown): SmsEvent[] {
+    return parseGatewayEvents(body)
+  }
+}
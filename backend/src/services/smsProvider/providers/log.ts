@@ -0,0 +1,33 @@
+/**
+ * Logging SMS provider
+ * Logs texts to the console instead of sending them, and keeps them in memory
+ * for tests. Webhook events use the HTTP gateway's generic format.
+ */
+
+import { randomUUID } from 'crypto'
+import type { SmsEvent, SmsMessage, SmsProvider } from '../types.js'
+import { parseGatewayEvents } from './httpGateway.js'
+
+export interface LoggedSms extends SmsMessage {
+  messageId: string
+  sentAt: Date
+}
+
+export class LogSmsProvider implements SmsProvider {
+  readonly outbox: LoggedSms[] = []
+
+  async send(message: SmsMessage): Promise<string | undefined> {
+    const messageId = randomUUID()
+    this.outbox.push({ ...message, messageId, sentAt: new Date() })
+    console.log(`[DEV SMS] To: ${message.to}${message.from ? `, From: ${message.from}` : ''}, Message: ${message.body}`)
+    return messageId
+  }
+
+  parseEvents(body: unknown): SmsEvent[] {
+    return parseGatewayEvents(body)
+  }
+
+  clear(): void {
+    this.outbox.length = 0
+  }
+}
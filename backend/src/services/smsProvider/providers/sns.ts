@@ -0,0 +1,114 @@
+/**
+ * AWS SNS SMS provider
+ * Publishes texts straight to phone numbers. Replies and delivery events
+ * arrive through an SNS topic subscribed to the SMS webhook, as published by
+ * AWS End User Messaging two-way SMS and event destinations.
+ */
+
+import type { SmsEvent, SmsMessage, SmsProvider } from '../types.js'
+
+type SnsPublish = (message: SmsMessage) => Promise<string | undefined>
+
+// End User Messaging statuses that are final; anything else is still in flight
+const DELIVERED_STATUSES = new Set(['DELIVERED', 'SUCCESSFUL'])
+const FAILED_STATUSES = new Set([
+  'FAILED',
+  'BLOCKED',
+  'CARRIER_BLOCKED',
+  'CARRIER_UNREACHABLE',
+  'INVALID',
+  'INVALID_MESSAGE',
+  'OPTED_OUT',
+  'SPAM',
+  'TTL_EXPIRED',
+  'UNREACHABLE'
+])
+
+async function initializeSNS(): Promise<SnsPublish | null> {
+  // Lazy load AWS SDK to avoid issues in environments without it
+  if (!process.env.AWS_REGION || !process.env.AWS_ACCESS_KEY_ID) {
+    return null
+  }
+
+  try {
+    // Dynamic import - AWS SDK is optional dependency
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const snsModule = await import('@aws-sdk/client-sns' as any) as any
+    const { SNSClient, PublishCommand } = snsModule
+    const client = new SNSClient({ region: process.env.AWS_REGION })
+
+    return async (message: SmsMessage): Promise<string | undefined> => {
+      const attributes: Record<string, { DataType: string; StringValue: string }> = {
+        'AWS.SNS.SMS.SMSType': { DataType: 'String', StringValue: 'Transactional' }
+      }
+      if (message.from?.startsWith('+')) {
+        attributes['AWS.MM.SMS.OriginationNumber'] = { DataType: 'String', StringValue: message.from }
+      } else if (message.from) {
+        attributes['AWS.SNS.SMS.SenderID'] = { DataType: 'String', StringValue: message.from }
+      }
+
+      const result = await client.send(new PublishCommand({
+        Message: message.body,
+        PhoneNumber: message.to,
+        MessageAttributes: attributes
+      }))
+      return result.MessageId
+    }
+  } catch (error) {
+    console.warn('AWS SNS not available:', error)
+    return null
+  }
+}
+
+function parseMessage(message: Record<string, unknown>): SmsEvent[] {
+  // Two-way SMS: a reply to one of our numbers
+  if (typeof message.originationNumber === 'string' && typeof message.messageBody === 'string') {
+    return [{
+      type: 'inbound',
+      from: message.originationNumber,
+      to: typeof message.destinationNumber === 'string' ? message.destinationNumber : undefined,
+      body: message.messageBody
+    }]
+  }
+
+  // Event destination: the status of a message we sent
+  if (typeof message.messageId === 'string' && typeof message.messageStatus === 'string') {
+    const status = message.messageStatus.toUpperCase()
+    if (DELIVERED_STATUSES.has(status)) {
+      return [{ type: 'receipt', messageId: message.messageId, delivered: true }]
+    }
+    if (FAILED_STATUSES.has(status)) {
+      const description = typeof message.messageStatusDescription === 'string' ? message.messageStatusDescription : status
+      return [{ type: 'receipt', messageId: message.messageId, delivered: false, reason: description }]
+    }
+  }
+
+  return []
+}
+
+export class SnsSmsProvider implements SmsProvider {
+  private publish: Promise<SnsPublish | null> | null = null
+
+  async send(message: SmsMessage): Promise<string | undefined> {
+    this.publish ??= initializeSNS()
+    const publish = await this.publish
+
+    if (!publish) {
+      throw new Error('SMS sending not configured')
+    }
+
+    return publish(message)
+  }
+
+  parseEvents(body: unknown): SmsEvent[] {
+    const envelope = body as { Type?: unknown; Message?: unknown } | null
+    if (envelope?.Type !== 'Notification' || typeof envelope.Message !== 'string') return []
+
+    try {
+      const message = JSON.parse(envelope.Message)
+      return message && typeof message === 'object' ? parseMessage(message) : []
+    } catch {
+      return []
+    }
+  }
+}
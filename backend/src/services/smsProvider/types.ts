@@ -0,0 +1,44 @@
+/**
+ * SMS provider types and interfaces
+ * Provides abstraction for the services that send text messages
+ */
+
+export type SmsProviderType = 'sns' | 'http' | 'log'
+
+export interface SmsMessage {
+  // E.164, e.g. +15555550100
+  to: string
+  body: string
+  // Number or alphanumeric sender ID; the provider's default when absent
+  from?: string | null
+}
+
+// What a provider reports back to the webhook
+export type SmsEvent =
+  | {
+      type: 'receipt'
+      messageId: string
+      delivered: boolean
+      reason?: string
+    }
+  | {
+      type: 'inbound'
+      from: string
+      // The number it was sent to, when the provider says
+      to?: string
+      body: string
+    }
+
+export interface SmsProvider {
+  /**
+   * Send one text message. Throws when it can't be handed over; returns the
+   * provider's message id, which delivery receipts refer to.
+   */
+  send(message: SmsMessage): Promise<string | undefined>
+
+  /**
+   * Read the delivery receipts and replies in a webhook request body.
+   * Unrecognized payloads yield no events.
+   */
+  parseEvents(body: unknown): SmsEvent[]
+}
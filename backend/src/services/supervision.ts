@@ -0,0 +1,237 @@
+/**
+ * Supervision
+ *
+ * A session can have staff besides its therapist: a supervisor (a BCBA
+ * overseeing an RBT, say) or a co-treater. Supervision rules
+ * (ruleLogic.type 'supervision_ratio') require a share of the direct session
+ * time of every therapist holding one certification to be attended by a
+ * supervisor holding another, counted per Monday to Sunday week.
+ *
+ * After a schedule is generated, supervisors are added to its sessions until
+ * each therapist's share is met, choosing supervisors who are working and free
+ * at the time. The same counts are reported per therapist per week.
+ */
+
+import type { StaffForScheduling, RuleForScheduling } from './aiProvider.js'
+import type { UnavailabilityMap } from './scheduler.js'
+import { getTherapistWindow } from './constraintSolver.js'
+import { timeToMinutes } from '../utils/timezone.js'
+
+export interface SupervisionRequirement {
+  ruleId: string
+  description: string
+  supervisedCertification: string
+  supervisorCertification: string
+  minimumPercent: number
+  // Only this therapist, when the rule is scoped to one
+  therapistId?: string
+}
+
+export interface SupervisionSummary {
+  ruleId: string
+  staffId: string
+  staffName: string
+  weekStartDate: string // YYYY-MM-DD (Monday)
+  supervisorCertification: string
+  minimumPercent: number
+  directMinutes: number
+  supervisedMinutes: number
+  requiredMinutes: number
+  met: boolean
+}
+
+interface SupervisionSession {
+  therapistId: string
+  date: Date | string
+  startTime: string
+  endTime: string
+  staffAssignments?: { staffId: string; role: 'supervisor' | 'co_treater' }[]
+}
+
+function toDateString(date: Date | string): string {
+  return date instanceof Date ? date.toISOString().split('T')[0] : date.split('T')[0]
+}
+
+function weekStartOf(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`)
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7))
+  return day.toISOString().split('T')[0]
+}
+
+function sessionMinutes(session: SupervisionSession): number {
+  return timeToMinutes(session.endTime) - timeToMinutes(session.startTime)
+}
+
+/**
+ * The supervision rules among a schedule's rules. Rules missing any of the
+ * ratio's fields are left out.
+ */
+export function supervisionRequirements(rules: RuleForScheduling[]): SupervisionRequirement[] {
+  return rules.flatMap(rule => {
+    const logic = rule.ruleLogic || {}
+    if (rule.category !== 'supervision' || logic.type !== 'supervision_ratio') return []
+    const { supervisedCertification, supervisorCertification, minimumPercent, therapistId } = logic
+    if (typeof supervisedCertification !== 'string' || typeof supervisorCertification !== 'string' || typeof minimumPercent !== 'number') {
+      return []
+    }
+
+    return [{
+      ruleId: rule.id,
+      description: rule.description,
+      supervisedCertification,
+      supervisorCertification,
+      minimumPercent,
+      therapistId: typeof therapistId === 'string' ? therapistId : undefined
+    }]
+  })
+}
+
+function isSupervisedBy(session: SupervisionSession, supervisors: Set<string>): boolean {
+  return (session.staffAssignments || []).some(a => a.role === 'supervisor' && supervisors.has(a.staffId))
+}
+
+function summarize(
+  sessions: SupervisionSession[],
+  staff: StaffForScheduling[],
+  requirement: SupervisionRequirement
+): SupervisionSummary[] {
+  const report: SupervisionSummary[] = []
+  const supervisors = new Set(staff.filter(s => s.certifications.includes(requirement.supervisorCertification)).map(s => s.id))
+  const supervised = staff.filter(s =>
+    s.certifications.includes(requirement.supervisedCertification) &&
+    (!requirement.therapistId || s.id === requirement.therapistId)
+  )
+
+  for (const therapist of supervised) {
+    const weeks = new Map<string, { direct: number; supervised: number }>()
+    for (const session of sessions) {
+      if (session.therapistId !== therapist.id) continue
+      const week = weekStartOf(toDateString(session.date))
+      const totals = weeks.get(week) || { direct: 0, supervised: 0 }
+      totals.direct += sessionMinutes(session)
+      if (isSupervisedBy(session, supervisors)) {
+        totals.supervised += sessionMinutes(session)
+      }
+      weeks.set(week, totals)
+    }
+
+    for (const [weekStartDate, totals] of [...weeks].sort(([a], [b]) => a.localeCompare(b))) {
+      const requiredMinutes = Math.ceil(totals.direct * requirement.minimumPercent / 100)
+      report.push({
+        ruleId: requirement.ruleId,
+        staffId: therapist.id,
+        staffName: therapist.name,
+        weekStartDate,
+        supervisorCertification: requirement.supervisorCertification,
+        minimumPercent: requirement.minimumPercent,
+        directMinutes: totals.direct,
+        supervisedMinutes: totals.supervised,
+        requiredMinutes,
+        met: totals.supervised >= requiredMinutes
+      })
+    }
+  }
+
+  return report
+}
+
+/**
+ * Each supervised therapist's direct, supervised and required minutes for
+ * every week they have sessions in, per supervision rule.
+ */
+export function supervisionReport(
+  sessions: SupervisionSession[],
+  staff: StaffForScheduling[],
+  rules: RuleForScheduling[]
+): SupervisionSummary[] {
+  return supervisionRequirements(rules).flatMap(requirement => summarize(sessions, staff, requirement))
+}
+
+/**
+ * Add supervisors to generated sessions until every supervision rule is met,
+ * and warn about therapists whose share still falls short. Booked sessions
+ * count toward the totals and keep supervisors busy but are never changed.
+ * Sessions are supervised in date order by the qualified supervisor with the
+ * fewest supervised minutes so far.
+ */
+export function assignSupervision<T extends SupervisionSession>(
+  sessions: T[],
+  staff: StaffForScheduling[],
+  rules: RuleForScheduling[],
+  unavailabilityMap: UnavailabilityMap = new Map(),
+  booked: SupervisionSession[] = []
+): { sessions: T[]; warnings: string[] } {
+  const requirements = supervisionRequirements(rules)
+  if (requirements.length === 0) return { sessions, warnings: [] }
+
+  const all: SupervisionSession[] = [...booked, ...sessions]
+  const staffMap = new Map(staff.map(s => [s.id, s]))
+
+  // Everyone's busy times, as the therapist or as secondary staff
+  const busy = new Map<string, { date: string; start: number; end: number }[]>()
+  const markBusy = (staffId: string, session: SupervisionSession) => {
+    const list = busy.get(staffId) || []
+    list.push({ date: toDateString(session.date), start: timeToMinutes(session.startTime), end: timeToMinutes(session.endTime) })
+    busy.set(staffId, list)
+  }
+  for (const session of all) {
+    markBusy(session.therapistId, session)
+    for (const assignment of session.staffAssignments || []) {
+      markBusy(assignment.staffId, session)
+    }
+  }
+
+  const supervisedLoad = new Map<string, number>()
+
+  function isFree(supervisor: StaffForScheduling, session: SupervisionSession): boolean {
+    const date = toDateString(session.date)
+    const start = timeToMinutes(session.startTime)
+    const end = timeToMinutes(session.endTime)
+    const window = getTherapistWindow(supervisor, date, unavailabilityMap)
+    if (!window || start < window.start || end > window.end) return false
+    return !(busy.get(supervisor.id) || []).some(b => b.date === date && b.start < end && start < b.end)
+  }
+
+  const generated = new Set<SupervisionSession>(sessions)
+  const warnings: string[] = []
+
+  for (const requirement of requirements) {
+    const supervisors = staff.filter(s => s.certifications.includes(requirement.supervisorCertification))
+    const supervisorIds = new Set(supervisors.map(s => s.id))
+
+    for (const summary of summarize(all, staff, requirement)) {
+      let supervisedMinutes = summary.supervisedMinutes
+      const candidates = all
+        .filter(s =>
+          generated.has(s) &&
+          s.therapistId === summary.staffId &&
+          weekStartOf(toDateString(s.date)) === summary.weekStartDate &&
+          !isSupervisedBy(s, supervisorIds)
+        )
+        .sort((a, b) => toDateString(a.date).localeCompare(toDateString(b.date)) || a.startTime.localeCompare(b.startTime))
+
+      for (const session of candidates) {
+        if (supervisedMinutes >= summary.requiredMinutes) break
+
+        const supervisor = supervisors
+          .filter(s => s.id !== session.therapistId && isFree(s, session))
+          .sort((a, b) => (supervisedLoad.get(a.id) || 0) - (supervisedLoad.get(b.id) || 0))[0]
+        if (!supervisor) continue
+
+        session.staffAssignments = [...(session.staffAssignments || []), { staffId: supervisor.id, role: 'supervisor' }]
+        markBusy(supervisor.id, session)
+        supervisedLoad.set(supervisor.id, (supervisedLoad.get(supervisor.id) || 0) + sessionMinutes(session))
+        supervisedMinutes += sessionMinutes(session)
+      }
+
+      if (supervisedMinutes < summary.requiredMinutes) {
+        const name = staffMap.get(summary.staffId)?.name ?? summary.staffId
+        warnings.push(
+          `${name} has ${supervisedMinutes} of the ${summary.requiredMinutes} minutes of ${requirement.supervisorCertification} supervision required by "${requirement.description}" for the week of ${summary.weekStartDate}.`
+        )
+      }
+    }
+  }
+
+  return { sessions, warnings }
+}
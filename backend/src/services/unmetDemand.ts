@@ -0,0 +1,381 @@
+/**
+ * Unmet Demand
+ *
+ * Explains why session specs got fewer sessions than their sessions per week.
+ * Every slot of the week a missing session could have taken is checked
+ * against the constraints the engines place sessions under, and a slot that
+ * doesn't work is put down to the first check it fails, in this order:
+ * clinic closed, patient unavailable, patient already booked, no certified
+ * therapist working and free, no room with the required capabilities free,
+ * insurance authorization, hard scheduling rule. The constraints that ruled
+ * out the most slots are the binding ones, and each comes with a suggested fix.
+ *
+ * Slots that pass every check are reported as open: the engine left them
+ * unused (usually to keep other specs' sessions), so the session can still be
+ * added by hand or by regenerating.
+ */
+
+import type {
+  StaffForScheduling,
+  PatientForScheduling,
+  RoomForScheduling,
+  RuleForScheduling,
+  ClinicClosure
+} from './aiProvider.js'
+import type { UnavailabilityMap } from './scheduler.js'
+import { getTherapistWindow, getWeekDates } from './constraintSolver.js'
+import { evaluateSessionRules, createRuleContext, RuleSessionIndex, type RuleSession } from './ruleEngine.js'
+import { patientUnavailableTimes } from './patientAvailability.js'
+import { AuthorizationLedger } from './authorizations.js'
+import { sessionPatients } from './sessionLookup.js'
+import { measureCoverage, type UnmetDemand } from './scenarios.js'
+import { toCSV } from './dataExporter.js'
+import { timeToMinutes, minutesToTime } from '../utils/timezone.js'
+
+type SessionSpecForScheduling = PatientForScheduling['sessionSpecs'][number]
+
+export type UnmetDemandReason =
+  | 'no_certified_therapist'
+  | 'no_capable_room'
+  | 'clinic_closed'
+  | 'patient_unavailable'
+  | 'patient_booked'
+  | 'no_therapist_free'
+  | 'no_room_free'
+  | 'authorization'
+  | 'rule_conflict'
+  | 'open_slots'
+
+export interface BindingConstraint {
+  reason: UnmetDemandReason
+  message: string
+  // Slots this constraint ruled out (left open, for open_slots); 0 when it
+  // rules out the whole spec
+  slots: number
+}
+
+export interface UnmetDemandExplanation extends UnmetDemand {
+  missing: number
+  // Slots of the week checked for the missing sessions
+  slotsChecked: number
+  // Most slots ruled out first; open slots last
+  constraints: BindingConstraint[]
+  suggestions: string[]
+}
+
+export interface UnmetDemandReport {
+  requestedSessions: number
+  scheduledSessions: number
+  missingSessions: number
+  specs: UnmetDemandExplanation[]
+}
+
+// A session in the schedule, with every patient of a group session
+export interface ScheduledSession extends RuleSession {
+  participants?: { patientId: string; sessionSpecId: string | null }[]
+}
+
+export interface UnmetDemandInput {
+  weekStartDate: Date
+  staff: StaffForScheduling[]
+  patients: PatientForScheduling[]
+  rooms: RoomForScheduling[]
+  rules: RuleForScheduling[]
+  // Every session of the schedule, locked ones included
+  sessions: ScheduledSession[]
+  unavailabilityMap?: UnavailabilityMap
+  // Holidays and the times outside business hours
+  closures?: ClinicClosure[]
+  slotIntervalMinutes?: number
+  defaultDurationMinutes?: number
+}
+
+const DEFAULT_SLOT_INTERVAL = 30
+const DEFAULT_DURATION = 60
+
+interface Interval {
+  start: number
+  end: number
+}
+
+function toInterval(times: { startTime: string | null; endTime: string | null }): Interval {
+  return times.startTime && times.endTime
+    ? { start: timeToMinutes(times.startTime), end: timeToMinutes(times.endTime) }
+    : { start: 0, end: 24 * 60 }
+}
+
+function overlaps(intervals: Interval[] | undefined, start: number, end: number): boolean {
+  return !!intervals && intervals.some(i => i.start < end && start < i.end)
+}
+
+function addInterval(map: Map<string, Interval[]>, key: string, interval: Interval): void {
+  const list = map.get(key)
+  if (list) {
+    list.push(interval)
+  } else {
+    map.set(key, [interval])
+  }
+}
+
+function listOf(values: string[]): string {
+  return values.join(', ')
+}
+
+/**
+ * Explain the unmet demand of a generated schedule: for every session spec
+ * with fewer sessions than requested, the constraints that kept the missing
+ * sessions out and what could be changed to fit them in.
+ */
+export function explainUnmetDemand(input: UnmetDemandInput): UnmetDemandReport {
+  const slotInterval = input.slotIntervalMinutes || DEFAULT_SLOT_INTERVAL
+  const defaultDuration = input.defaultDurationMinutes || DEFAULT_DURATION
+  const unavailabilityMap: UnavailabilityMap = input.unavailabilityMap || new Map()
+  const coverage = measureCoverage(input.patients, input.sessions)
+
+  const weekDates = getWeekDates(input.weekStartDate)
+  const closed = new Map<string, Interval[]>()
+  for (const closure of input.closures || []) {
+    addInterval(closed, closure.date, toInterval(closure))
+  }
+
+  // Booked intervals per therapist, patient and room for each date
+  const booked = new Map<string, Interval[]>()
+  for (const session of input.sessions) {
+    const interval = { start: timeToMinutes(session.startTime), end: timeToMinutes(session.endTime) }
+    addInterval(booked, `therapist:${session.therapistId}:${session.date}`, interval)
+    if (session.roomId) addInterval(booked, `room:${session.roomId}:${session.date}`, interval)
+    for (const { patientId } of sessionPatients({ ...session, sessionSpecId: session.sessionSpecId ?? '' })) {
+      addInterval(booked, `patient:${patientId}:${session.date}`, interval)
+    }
+  }
+  const isFree = (kind: string, id: string, date: string, start: number, end: number) =>
+    !overlaps(booked.get(`${kind}:${id}:${date}`), start, end)
+
+  // Authorization units already charged by the schedule's sessions
+  const ledger = new AuthorizationLedger(input.patients)
+  for (const session of input.sessions) {
+    for (const patient of sessionPatients({ ...session, sessionSpecId: session.sessionSpecId ?? '' })) {
+      ledger.charge({ ...session, ...patient })
+    }
+  }
+
+  const ruleContext = createRuleContext(input.staff, input.patients, input.rooms)
+  const ruleIndex = new RuleSessionIndex(input.sessions)
+
+  // The span of the day anyone works; slots outside it were never an option
+  const workingSpans = new Map<string, Interval>()
+  for (const date of weekDates) {
+    const windows = input.staff
+      .map(t => getTherapistWindow(t, date, unavailabilityMap))
+      .filter((w): w is Interval => w !== null)
+    if (windows.length > 0) {
+      workingSpans.set(date, {
+        start: Math.min(...windows.map(w => w.start)),
+        end: Math.max(...windows.map(w => w.end))
+      })
+    }
+  }
+
+  function explain(demand: UnmetDemand, patient: PatientForScheduling, spec: SessionSpecForScheduling): UnmetDemandExplanation {
+    const missing = demand.requested - demand.scheduled
+    const certifications = spec.requiredCertifications
+    const capabilities = spec.requiredRoomCapabilities || []
+    const withCertifications = certifications.length > 0 ? ` with ${listOf(certifications)}` : ''
+
+    const counts = new Map<UnmetDemandReason, number>()
+    const brokenRules = new Map<string, number>()
+    let authorizationMessage: string | null = null
+
+    function describe(reason: UnmetDemandReason): { message: string; suggestion: string } {
+      switch (reason) {
+        case 'no_certified_therapist':
+          return {
+            message: `No active therapist has the required certifications (${listOf(certifications)})`,
+            suggestion: `Certify or hire a therapist with ${listOf(certifications)}, or change the certifications "${spec.name}" requires`
+          }
+        case 'no_capable_room':
+          return {
+            message: `No active room has the required capabilities (${listOf(capabilities)})`,
+            suggestion: `Add a room with ${listOf(capabilities)}, or change the room capabilities "${spec.name}" requires`
+          }
+        case 'clinic_closed':
+          return {
+            message: 'The clinic is closed for a holiday or outside business hours',
+            suggestion: 'Extend business hours if the clinic can open longer'
+          }
+        case 'patient_unavailable':
+          return {
+            message: `${patient.name} isn't available`,
+            suggestion: `Widen ${patient.name}'s availability`
+          }
+        case 'patient_booked':
+          return {
+            message: `${patient.name} already has another session`,
+            suggestion: `Move or shorten ${patient.name}'s other sessions`
+          }
+        case 'no_therapist_free':
+          return {
+            message: `No therapist${withCertifications} is working and free`,
+            suggestion: `Add working hours for therapists${withCertifications}, or hire another one`
+          }
+        case 'no_room_free':
+          return {
+            message: `Every room with ${listOf(capabilities)} is booked`,
+            suggestion: `Add another room with ${listOf(capabilities)}, or move sessions that don't need one out of them`
+          }
+        case 'authorization':
+          return {
+            message: authorizationMessage ?? 'No insurance authorization covers the session',
+            suggestion: `Renew or extend ${patient.name}'s insurance authorization`
+          }
+        case 'rule_conflict': {
+          const rules = [...brokenRules.entries()].sort((a, b) => b[1] - a[1]).map(([description]) => description)
+          return {
+            message: `Breaks a scheduling rule: ${rules.map(r => `"${r}"`).join(', ')}`,
+            suggestion: `Relax or deactivate the rule "${rules[0]}"`
+          }
+        }
+        case 'open_slots':
+          return {
+            message: 'Open, but left unused to fit other sessions',
+            suggestion: 'Regenerate the schedule, or add the session by hand in one of the open slots'
+          }
+      }
+    }
+
+    // Nothing in the week can work, so there is no point checking slots
+    const ruledOut = (reason: UnmetDemandReason) => {
+      const { message, suggestion } = describe(reason)
+      return { ...demand, missing, slotsChecked: 0, constraints: [{ reason, message, slots: 0 }], suggestions: [suggestion] }
+    }
+
+    const therapists = input.staff.filter(t => certifications.every(cert => t.certifications.includes(cert)))
+    if (therapists.length === 0) return ruledOut('no_certified_therapist')
+
+    const rooms = input.rooms.filter(r => capabilities.every(cap => r.capabilities.includes(cap)))
+    if (capabilities.length > 0 && rooms.length === 0) return ruledOut('no_capable_room')
+
+    const duration = spec.durationMinutes ?? defaultDuration
+    const patientBlocked = new Map<string, Interval[]>()
+    for (const blocked of patientUnavailableTimes(patient.availability, weekDates[0], weekDates[weekDates.length - 1])) {
+      addInterval(patientBlocked, blocked.date, toInterval(blocked))
+    }
+
+    const count = (reason: UnmetDemandReason) => counts.set(reason, (counts.get(reason) || 0) + 1)
+    let slotsChecked = 0
+
+    for (const date of weekDates) {
+      const span = workingSpans.get(date)
+      if (!span) continue
+
+      for (let start = span.start; start + duration <= span.end; start += slotInterval) {
+        const end = start + duration
+        slotsChecked++
+
+        if (overlaps(closed.get(date), start, end)) {
+          count('clinic_closed')
+          continue
+        }
+        if (overlaps(patientBlocked.get(date), start, end)) {
+          count('patient_unavailable')
+          continue
+        }
+        if (!isFree('patient', patient.id, date, start, end)) {
+          count('patient_booked')
+          continue
+        }
+
+        const free = therapists.filter(t => {
+          const window = getTherapistWindow(t, date, unavailabilityMap)
+          return window && window.start <= start && end <= window.end && isFree('therapist', t.id, date, start, end)
+        })
+        if (free.length === 0) {
+          count('no_therapist_free')
+          continue
+        }
+
+        const room = rooms.find(r => r.id === spec.preferredRoomId && isFree('room', r.id, date, start, end)) ??
+          rooms.find(r => isFree('room', r.id, date, start, end))
+        if (capabilities.length > 0 && !room) {
+          count('no_room_free')
+          continue
+        }
+
+        const session: RuleSession = {
+          therapistId: free[0].id,
+          patientId: patient.id,
+          sessionSpecId: spec.id,
+          roomId: room?.id ?? null,
+          date,
+          startTime: minutesToTime(start),
+          endTime: minutesToTime(end)
+        }
+        const authorization = ledger.check(session)
+        if (authorization) {
+          authorizationMessage ??= authorization
+          count('authorization')
+          continue
+        }
+
+        if (input.rules.length > 0) {
+          const evaluations = free.map(t =>
+            evaluateSessionRules({ ...session, therapistId: t.id }, input.rules, ruleContext, ruleIndex)
+          )
+          if (evaluations.every(e => e.hardViolations.length > 0)) {
+            for (const violation of evaluations.flatMap(e => e.hardViolations)) {
+              brokenRules.set(violation.description, (brokenRules.get(violation.description) || 0) + 1)
+            }
+            count('rule_conflict')
+            continue
+          }
+        }
+
+        count('open_slots')
+      }
+    }
+
+    // Open slots last; otherwise the constraint that ruled out the most slots first
+    const reasons = [...counts.entries()]
+      .sort((a, b) => Number(a[0] === 'open_slots') - Number(b[0] === 'open_slots') || b[1] - a[1])
+    const constraints = reasons.map(([reason, slots]) => ({ reason, message: describe(reason).message, slots }))
+    const suggestions = reasons.map(([reason]) => describe(reason).suggestion)
+    if (!counts.has('open_slots') && demand.scheduled > 0) {
+      suggestions.push(`Lower "${spec.name}" to ${demand.scheduled} session(s) per week`)
+    }
+
+    return { ...demand, missing, slotsChecked, constraints, suggestions }
+  }
+
+  const specs: UnmetDemandExplanation[] = []
+  for (const demand of coverage.unmet) {
+    const patient = input.patients.find(p => p.id === demand.patientId)!
+    const spec = patient.sessionSpecs.find(s => s.id === demand.sessionSpecId)!
+    specs.push(explain(demand, patient, spec))
+  }
+
+  return {
+    requestedSessions: coverage.requestedSessions,
+    scheduledSessions: coverage.scheduledSessions,
+    missingSessions: coverage.requestedSessions - coverage.scheduledSessions,
+    specs
+  }
+}
+
+const CSV_HEADERS = ['patient', 'sessionSpec', 'requested', 'scheduled', 'missing', 'constraints', 'suggestions']
+
+/**
+ * The report as CSV, one row per session spec.
+ */
+export function unmetDemandToCsv(report: UnmetDemandReport): string {
+  return toCSV(report.specs.map(spec => ({
+    patient: spec.patientName,
+    sessionSpec: spec.sessionSpecName,
+    requested: spec.requested,
+    scheduled: spec.scheduled,
+    missing: spec.missing,
+    constraints: spec.constraints
+      .map(c => c.slots > 0 ? `${c.message} (${c.slots} of ${spec.slotsChecked} slots)` : c.message)
+      .join('; '),
+    suggestions: spec.suggestions.join('; ')
+  })), CSV_HEADERS)
+}
@@ -1,4 +1,5 @@
 import { chatCompletion, isProviderConfigured, getActiveProvider } from './aiProvider.js'
+import { describeRuleLogicForPrompt, sanitizeRuleLogic } from './ruleSchemas.js'
 
 // Re-export for route-level checks
 export { isProviderConfigured, getActiveProvider }
@@ -46,6 +47,18 @@ export interface ParsedPatientData {
   sessionFrequency?: number
   requiredCertifications?: string[]
   preferredTimes?: string[]
+  // Hard limits on when the patient can attend, e.g. after school on weekdays
+  availability?: {
+    weekly: Record<string, { start: string; end: string } | null>
+    exceptions?: {
+      startDate: string
+      endDate: string
+      available: boolean
+      start?: string
+      end?: string
+      reason?: string
+    }[]
+  }
   notes?: string
 }
 
@@ -59,7 +72,7 @@ export interface ParsedStaffData {
 }
 
 export interface ParsedRuleData {
-  category: 'gender_pairing' | 'session' | 'availability' | 'specific_pairing' | 'certification'
+  category: 'gender_pairing' | 'session' | 'availability' | 'specific_pairing' | 'certification' | 'supervision'
   description: string
   priority?: number
   ruleLogic?: Record<string, unknown>
@@ -67,7 +80,7 @@ export interface ParsedRuleData {
 
 // Individual rule item with its own confidence and warnings (for multi-rule parsing)
 export interface ParsedRuleItem {
-  category: 'gender_pairing' | 'session' | 'availability' | 'specific_pairing' | 'certification'
+  category: 'gender_pairing' | 'session' | 'availability' | 'specific_pairing' | 'certification' | 'supervision'
   description: string
   priority?: number
   ruleLogic?: Record<string, unknown>
@@ -101,7 +114,7 @@ export interface ParsedSessionData {
 }
 
 export interface ParsedScheduleModifyData {
-  action: 'move' | 'cancel' | 'swap' | 'create'
+  action: 'move' | 'cancel' | 'swap' | 'create' | 'lock' | 'unlock'
   therapistName?: string
   patientName?: string
   currentDate?: string
@@ -144,7 +157,11 @@ Extract ${patientSingularLower} information like:
 - gender (male/female/other - can infer from name if confident)
 - sessionFrequency (sessions per week, default 2 if not specified)
 - requiredCertifications (${certificationLabel.toLowerCase()} needed)
-- preferredTimes (morning/afternoon/specific times)
+- preferredTimes (morning/afternoon/specific times; soft preferences only)
+- availability (only when the user states hard limits like "in school until 3pm" or "can only come Tuesdays and Thursdays"):
+  { "weekly": { "monday": { "start": "15:00", "end": "18:00" }, "saturday": null, ... },
+    "exceptions": [{ "startDate": "YYYY-MM-DD", "endDate": "YYYY-MM-DD", "available": true, "start": "HH:mm", "end": "HH:mm", "reason": "..." }] }
+  List every weekday; null means the ${patientSingularLower} can't attend that day. An exception covers a date range such as a school holiday week; omit start/end to mean all day.
 - notes (any additional info)`,
 
     staff: `${basePrompt}
@@ -167,15 +184,17 @@ IMPORTANT: A single voice command may contain MULTIPLE rules. Look for:
 - Separate conditions that should be individual rules
 
 For EACH rule detected, extract:
-- category: one of [gender_pairing, session, availability, specific_pairing, certification]
+- category: one of [gender_pairing, session, availability, specific_pairing, certification, supervision]
   - gender_pairing: rules about matching genders (e.g., "female ${patientLower} with female ${staffLower}")
   - session: rules about session timing/frequency
   - availability: rules about when ${staffLower}/${patientLower} are available or unavailable
   - specific_pairing: specific ${staffSingularLower}-${patientSingularLower} assignments
   - certification: rules about ${certificationLabel.toLowerCase()} requirements
+  - supervision: how much of a ${staffSingularLower}'s weekly session time a supervisor must attend (e.g., "5% of RBT hours supervised by a BCBA")
 - description: clear description of the rule
 - priority: 1-10 (default 5)
-- ruleLogic: structured logic object with parsed constraints
+- ruleLogic: structured constraints using ONLY these keys for the rule's category (use {} if none fit):
+${describeRuleLogicForPrompt()}
 - confidence: 0.0-1.0 for this specific rule
 - warnings: array of any ambiguities for this rule
 
@@ -240,7 +259,7 @@ Extract session information like:
 
     schedule_modify: `${basePrompt}
 
-The user is MODIFYING an existing schedule. They want to move, cancel, or swap sessions.
+The user is MODIFYING an existing schedule. They want to move, cancel, swap, or lock sessions.
 Determine the action and extract the relevant information:
 
 ACTIONS:
@@ -248,9 +267,11 @@ ACTIONS:
 - cancel: Remove/delete a session
 - swap: Exchange two sessions' times
 - create: Add a new session (if they're not modifying existing)
+- lock: Pin a session so it stays in place when the schedule is regenerated
+- unlock: Release a locked session so regeneration may change it
 
 EXTRACT:
-- action (required): one of [move, cancel, swap, create]
+- action (required): one of [move, cancel, swap, create, lock, unlock]
 - therapistName: the ${staffSingularLower}'s name (to identify the session)
 - patientName: the ${patientSingularLower}'s name (alternative way to identify)
 - currentDayOfWeek: current day (monday/tuesday/etc) - lowercase
@@ -269,7 +290,8 @@ TIME PARSING:
 EXAMPLES:
 - "Move John's 9 AM session to 2 PM" → action: move, therapistName: John, currentStartTime: 09:00, newStartTime: 14:00
 - "Cancel Sarah's Friday 10 AM" → action: cancel, therapistName: Sarah, currentDayOfWeek: friday, currentStartTime: 10:00
-- "Reschedule Monday 2 PM with Emma to Wednesday" → action: move, patientName: Emma, currentDayOfWeek: monday, currentStartTime: 14:00, newDayOfWeek: wednesday`,
+- "Reschedule Monday 2 PM with Emma to Wednesday" → action: move, patientName: Emma, currentDayOfWeek: monday, currentStartTime: 14:00, newDayOfWeek: wednesday
+- "Lock Emma's Tuesday 10 AM session" → action: lock, patientName: Emma, currentDayOfWeek: tuesday, currentStartTime: 10:00`,
 
     schedule_generate: `${basePrompt}
 
@@ -416,7 +438,15 @@ export async function parseStaffCommand(transcript: string, labels?: Partial<Org
 
 // Helper function to parse rule-specific commands (legacy single-rule format)
 export async function parseRuleCommand(transcript: string, labels?: Partial<OrganizationLabels>): Promise<ParsedVoiceCommand> {
-  return parseVoiceCommand(transcript, 'rule', labels)
+  const result = await parseVoiceCommand(transcript, 'rule', labels)
+  const data = result.data as Partial<ParsedRuleData>
+
+  if (data.category && data.ruleLogic) {
+    const { ruleLogic, warnings } = sanitizeRuleLogic(data.category, data.ruleLogic)
+    data.ruleLogic = ruleLogic
+    result.warnings.push(...warnings)
+  }
+  return result
 }
 
 // Helper function to parse multiple rules from a single transcript
@@ -447,17 +477,23 @@ export async function parseMultipleRulesCommand(transcript: string, labels?: Par
     }
 
     // Ensure each rule has required fields with defaults
-    const validCategories = ['gender_pairing', 'session', 'availability', 'specific_pairing', 'certification'] as const
-    parsed.rules = parsed.rules.map(rule => ({
-      category: validCategories.includes(rule.category as typeof validCategories[number])
+    const validCategories = ['gender_pairing', 'session', 'availability', 'specific_pairing', 'certification', 'supervision'] as const
+    parsed.rules = parsed.rules.map(rule => {
+      const category = validCategories.includes(rule.category as typeof validCategories[number])
         ? rule.category
-        : 'session',
-      description: rule.description || '',
-      priority: typeof rule.priority === 'number' ? rule.priority : 5,
-      ruleLogic: rule.ruleLogic || {},
-      confidence: typeof rule.confidence === 'number' ? rule.confidence : 0.5,
-      warnings: Array.isArray(rule.warnings) ? rule.warnings : []
-    }))
+        : 'session'
+      // Keys outside the rule schema catalog are dropped so they never reach storage
+      const { ruleLogic, warnings } = sanitizeRuleLogic(category, rule.ruleLogic || {})
+
+      return {
+        category,
+        description: rule.description || '',
+        priority: typeof rule.priority === 'number' ? rule.priority : 5,
+        ruleLogic,
+        confidence: typeof rule.confidence === 'number' ? rule.confidence : 0.5,
+        warnings: [...(Array.isArray(rule.warnings) ? rule.warnings : []), ...warnings]
+      }
+    })
 
     // Calculate overall confidence as minimum across all rules
     if (typeof parsed.overallConfidence !== 'number') {
@@ -0,0 +1,420 @@
+/**
+ * Waitlist
+ *
+ * Patients waiting for an appointment are offered the slots that
+ * cancellations free up. When a session is cancelled, the waiting entries are
+ * walked in order (highest priority, then whoever joined first) for the first
+ * one whose constraints the slot meets and whose patient AvailabilityService
+ * finds free in it. The slot is held for that patient for
+ * OFFER_HOLD_MINUTES and their portal contact is emailed, so they can claim
+ * it in the portal. If they decline, or the hold runs out first, the slot is
+ * offered to the next entry in line; each entry is offered a slot once.
+ *
+ * Entry constraints are all optional: the weekdays and the window the
+ * session must fall in, a therapist, and certifications the therapist must
+ * hold on top of the session spec's.
+ */
+
+import {
+  waitlistRepository,
+  type WaitlistEntryWithDetails,
+  type WaitlistOffer,
+  type WaitlistOfferWithEntry
+} from '../repositories/waitlist.js'
+import { bookingRepository } from '../repositories/booking.js'
+import { staffRepository } from '../repositories/staff.js'
+import { patientRepository } from '../repositories/patients.js'
+import { organizationRepository } from '../repositories/organizations.js'
+import { organizationSettingsRepository } from '../repositories/organizationSettings.js'
+import { auditRepository } from '../repositories/audit.js'
+import { prisma, type DbClient } from '../repositories/base.js'
+import { availabilityService } from './availability.js'
+import { sendWaitlistOffer } from './email.js'
+import {
+  getLocalDayOfWeek,
+  hoursUntilLocalDateTime,
+  parseLocalDateStart,
+  parseLocalDateEnd,
+  timeToMinutes
+} from '../utils/timezone.js'
+
+// How long a freed slot is held for the patient it's offered to
+export const OFFER_HOLD_MINUTES = 120
+
+export interface FreedSlot {
+  organizationId: string
+  staffId: string
+  roomId?: string | null
+  // Calendar date at UTC midnight, as sessions store it
+  date: Date
+  startTime: string
+  endTime: string
+  // Cancelled session that freed the slot
+  sourceSessionId?: string | null
+}
+
+export interface ClaimResult {
+  success: boolean
+  sessionId?: string
+  error?: string
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function asStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : []
+}
+
+/**
+ * Minutes the entry's session runs, or null to take the whole slot.
+ */
+export function entryDuration(entry: Pick<WaitlistEntryWithDetails, 'durationMinutes' | 'sessionSpec'>): number | null {
+  return entry.durationMinutes ?? entry.sessionSpec?.durationMinutes ?? null
+}
+
+/**
+ * Whether a slot meets an entry's own constraints. Whether the patient is
+ * free is left to AvailabilityService.
+ */
+export function entryMatchesSlot(
+  entry: Pick<
+    WaitlistEntryWithDetails,
+    'days' | 'earliestTime' | 'latestTime' | 'staffId' | 'requiredCertifications' | 'durationMinutes' | 'sessionSpec'
+  >,
+  slot: { dayOfWeek: string; startTime: string; endTime: string; staffId: string },
+  staffCertifications: string[]
+): boolean {
+  const days = asStrings(entry.days)
+  if (days.length > 0 && !days.includes(slot.dayOfWeek)) return false
+  if (entry.staffId && entry.staffId !== slot.staffId) return false
+
+  const duration = entryDuration(entry)
+  if (duration !== null && duration > timeToMinutes(slot.endTime) - timeToMinutes(slot.startTime)) return false
+
+  // The session can sit anywhere in the slot that keeps it inside the window
+  const earliest = Math.max(timeToMinutes(slot.startTime), entry.earliestTime ? timeToMinutes(entry.earliestTime) : 0)
+  const latest = Math.min(timeToMinutes(slot.endTime), entry.latestTime ? timeToMinutes(entry.latestTime) : 24 * 60)
+  if (latest - earliest < (duration ?? timeToMinutes(slot.endTime) - timeToMinutes(slot.startTime))) return false
+
+  const required = [...asStrings(entry.requiredCertifications), ...asStrings(entry.sessionSpec?.requiredCertifications)]
+  return required.every(cert => staffCertifications.includes(cert))
+}
+
+async function notifyContact(
+  offer: WaitlistOffer,
+  contact: { name: string; email: string | null; emailOptIn: boolean },
+  patientName: string,
+  therapistName: string,
+  timezone: string,
+  tx: DbClient
+): Promise<void> {
+  if (!contact.email || !contact.emailOptIn) return
+
+  const organization = await organizationRepository.findById(offer.organizationId)
+  if (!organization) return
+
+  await sendWaitlistOffer({
+    contact: { email: contact.email, name: contact.name },
+    organization,
+    patientName,
+    therapistName,
+    date: offer.date,
+    startTime: offer.startTime,
+    endTime: offer.endTime,
+    expiresAt: offer.expiresAt,
+    timezone
+  }, { organizationId: offer.organizationId, tx })
+}
+
+/**
+ * Offer a freed slot to the first waiting entry it suits, holding it for
+ * the patient and emailing their portal contact. Entries without a portal
+ * contact are passed over, as they'd have no way to claim it. Returns null
+ * when nobody on the waitlist can take the slot.
+ */
+export async function offerFreedSlot(slot: FreedSlot): Promise<WaitlistOffer | null> {
+  const { organizationId } = slot
+  const { timezone } = await organizationSettingsRepository.findByOrganizationId(organizationId)
+  const date = toDateString(slot.date)
+
+  // Too late to offer a slot that has already started
+  if (hoursUntilLocalDateTime(date, slot.startTime, timezone) <= 0) return null
+
+  const staff = await staffRepository.findById(slot.staffId, organizationId)
+  if (!staff || staff.status !== 'active') return null
+
+  const offered = new Set(slot.sourceSessionId ? await waitlistRepository.findOfferedEntryIds(slot.sourceSessionId) : [])
+  const dayOfWeek = getLocalDayOfWeek(date, timezone)
+  const certifications = asStrings(staff.certifications)
+
+  for (const entry of await waitlistRepository.findWaiting(organizationId)) {
+    if (offered.has(entry.id)) continue
+    if (!entryMatchesSlot(entry, { ...slot, dayOfWeek }, certifications)) continue
+
+    const { slots } = await availabilityService.getAvailableSlots({
+      organizationId,
+      dateFrom: parseLocalDateStart(date, timezone),
+      dateTo: parseLocalDateEnd(date, timezone),
+      durationMinutes: entryDuration(entry) ?? timeToMinutes(slot.endTime) - timeToMinutes(slot.startTime),
+      staffId: slot.staffId,
+      patientId: entry.patientId
+    })
+    const fit = slots.find(s =>
+      s.date === date &&
+      s.startTime >= slot.startTime &&
+      s.endTime <= slot.endTime &&
+      (!entry.earliestTime || s.startTime >= entry.earliestTime) &&
+      (!entry.latestTime || s.endTime <= entry.latestTime)
+    )
+    if (!fit) continue
+
+    const contact = await waitlistRepository.findPortalContact(entry.patientId)
+    if (!contact) continue
+
+    const hold = await bookingRepository.createHold({
+      organizationId,
+      staffId: slot.staffId,
+      roomId: slot.roomId ?? undefined,
+      date: slot.date,
+      startTime: fit.startTime,
+      endTime: fit.endTime,
+      createdByContactId: contact.id,
+      holdDurationMinutes: OFFER_HOLD_MINUTES
+    })
+    // Someone else took the slot in the meantime
+    if (!hold.success) return null
+
+    // The email is queued with the offer and sent by the outbox worker once it's saved
+    let offer: WaitlistOffer
+    try {
+      offer = await prisma.$transaction(async (tx) => {
+        const created = await waitlistRepository.createOffer({
+          organizationId,
+          entryId: entry.id,
+          holdId: hold.hold!.id,
+          contactId: contact.id,
+          sourceSessionId: slot.sourceSessionId,
+          staffId: slot.staffId,
+          roomId: slot.roomId,
+          date: slot.date,
+          startTime: fit.startTime,
+          endTime: fit.endTime,
+          expiresAt: hold.hold!.expiresAt
+        }, tx)
+        await waitlistRepository.setStatus(entry.id, 'offered', tx)
+        await notifyContact(created, contact, entry.patient.name, staff.name, timezone, tx)
+        return created
+      })
+    } catch (error) {
+      // Don't leave the slot held with no offer to claim it
+      await bookingRepository.releaseHold(hold.hold!.id)
+      throw error
+    }
+
+    await auditRepository.log(null, 'waitlist.offered', 'waitlist_entry', entry.id, organizationId, {
+      offerId: offer.id,
+      holdId: offer.holdId,
+      contactId: contact.id,
+      sourceSessionId: slot.sourceSessionId,
+      date,
+      startTime: offer.startTime,
+      endTime: offer.endTime
+    })
+
+    return offer
+  }
+
+  return null
+}
+
+/**
+ * Offer the slot of a session that was just cancelled. Never throws, so a
+ * failure here can't undo the cancellation.
+ */
+export async function offerCancelledSession(
+  organizationId: string,
+  session: { id: string; therapistId: string; roomId: string | null; date: Date; startTime: string; endTime: string }
+): Promise<WaitlistOffer | null> {
+  try {
+    return await offerFreedSlot({
+      organizationId,
+      staffId: session.therapistId,
+      roomId: session.roomId,
+      date: session.date,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      sourceSessionId: session.id
+    })
+  } catch (error) {
+    console.error('[Waitlist] Failed to offer cancelled session slot:', error)
+    return null
+  }
+}
+
+function offerSlot(offer: WaitlistOffer): FreedSlot {
+  return {
+    organizationId: offer.organizationId,
+    staffId: offer.staffId,
+    roomId: offer.roomId,
+    date: offer.date,
+    startTime: offer.startTime,
+    endTime: offer.endTime,
+    sourceSessionId: offer.sourceSessionId
+  }
+}
+
+/**
+ * A pending offer of the patient's, or null when there's none to act on.
+ */
+async function findOpenOffer(
+  offerId: string,
+  organizationId: string,
+  patientId: string
+): Promise<WaitlistOfferWithEntry | null> {
+  const offer = await waitlistRepository.findOffer(offerId, organizationId)
+  if (!offer || offer.entry.patientId !== patientId) return null
+  if (offer.status !== 'pending' || offer.expiresAt <= new Date()) return null
+  return offer
+}
+
+/**
+ * Book the held slot for the patient.
+ */
+export async function claimOffer(
+  offerId: string,
+  portalUser: { organizationId: string; patientId: string; contactId: string }
+): Promise<ClaimResult> {
+  const offer = await findOpenOffer(offerId, portalUser.organizationId, portalUser.patientId)
+  if (!offer) {
+    return { success: false, error: 'Offer not found or no longer available' }
+  }
+
+  // The offer and entry are closed with the booking, so a booked slot is never offered again
+  const result = await prisma.$transaction(async (tx) => {
+    const booked = await bookingRepository.bookFromHold({
+      holdId: offer.holdId,
+      organizationId: portalUser.organizationId,
+      patientId: portalUser.patientId,
+      sessionSpecId: offer.entry.sessionSpecId ?? undefined,
+      bookedVia: 'portal',
+      bookedByContactId: portalUser.contactId
+    }, tx)
+    if (!booked.success) return booked
+
+    await waitlistRepository.updateOffer(offer.id, {
+      status: 'claimed',
+      respondedAt: new Date(),
+      sessionId: booked.sessionId
+    }, tx)
+    await waitlistRepository.setStatus(offer.entryId, 'booked', tx)
+    return booked
+  })
+  if (!result.success) {
+    return { success: false, error: result.error }
+  }
+
+  return { success: true, sessionId: result.sessionId }
+}
+
+/**
+ * Turn the slot down and pass it to the next entry in line. The patient
+ * stays on the waitlist for later slots.
+ */
+export async function declineOffer(
+  offerId: string,
+  portalUser: { organizationId: string; patientId: string }
+): Promise<boolean> {
+  const offer = await findOpenOffer(offerId, portalUser.organizationId, portalUser.patientId)
+  if (!offer) return false
+
+  await prisma.$transaction(async (tx) => {
+    await bookingRepository.releaseHold(offer.holdId, tx)
+    await waitlistRepository.updateOffer(offer.id, { status: 'declined', respondedAt: new Date() }, tx)
+    await waitlistRepository.setStatus(offer.entryId, 'waiting', tx)
+  })
+
+  await offerFreedSlot(offerSlot(offer))
+  return true
+}
+
+/**
+ * Take an entry off the waitlist, withdrawing its open offer and passing the
+ * held slot on.
+ */
+export async function removeFromWaitlist(entry: WaitlistEntryWithDetails): Promise<void> {
+  await waitlistRepository.setStatus(entry.id, 'cancelled')
+
+  for (const offer of entry.offers) {
+    await bookingRepository.releaseHold(offer.holdId)
+    await waitlistRepository.updateOffer(offer.id, { status: 'cancelled' })
+    if (offer.expiresAt > new Date()) {
+      await offerFreedSlot(offerSlot(offer))
+    }
+  }
+}
+
+/**
+ * Expire offers whose hold ran out unclaimed, putting their entries back in
+ * line and offering each slot to the next entry. Returns how many expired.
+ */
+export async function advanceExpiredOffers(now: Date = new Date()): Promise<number> {
+  const offers = await waitlistRepository.findExpiredOffers(now)
+
+  for (const offer of offers) {
+    try {
+      await waitlistRepository.updateOffer(offer.id, { status: 'expired' })
+      if (offer.entry.status === 'offered') {
+        await waitlistRepository.setStatus(offer.entryId, 'waiting')
+      }
+      await offerFreedSlot(offerSlot(offer))
+    } catch (error) {
+      console.error(`[Waitlist] Failed to advance expired offer ${offer.id}:`, error)
+    }
+  }
+
+  return offers.length
+}
+
+/**
+ * Open offers for the patient with the therapist's name, for the portal.
+ */
+export async function getPendingOffers(organizationId: string, patientId: string) {
+  const offers = await waitlistRepository.findPendingOffersForPatient(organizationId, patientId)
+
+  const therapists = new Map<string, string>()
+  for (const staffId of new Set(offers.map(o => o.staffId))) {
+    const staff = await staffRepository.findById(staffId, organizationId)
+    therapists.set(staffId, staff?.name ?? 'Your therapist')
+  }
+
+  return offers.map(offer => ({
+    id: offer.id,
+    date: toDateString(offer.date),
+    startTime: offer.startTime,
+    endTime: offer.endTime,
+    therapistName: therapists.get(offer.staffId)!,
+    expiresAt: offer.expiresAt
+  }))
+}
+
+/**
+ * Why the session spec or therapist can't be used on an entry for the
+ * patient, or null when they can.
+ */
+export async function waitlistEntryError(
+  organizationId: string,
+  patientId: string,
+  fields: { sessionSpecId?: string | null; staffId?: string | null }
+): Promise<string | null> {
+  const patient = await patientRepository.findByIdWithSessionSpecs(patientId, organizationId)
+  if (!patient) return 'Patient not found'
+  if (fields.sessionSpecId && !patient.sessionSpecs.some(spec => spec.id === fields.sessionSpecId)) {
+    return 'Session spec does not belong to the patient'
+  }
+  if (fields.staffId && !(await staffRepository.findById(fields.staffId, organizationId))) {
+    return 'Staff member not found'
+  }
+  return null
+}
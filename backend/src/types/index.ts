@@ -81,6 +81,7 @@ export type RuleCategory =
   | 'availability'
   | 'specific_pairing'
   | 'certification'
+  | 'supervision'
 
 export interface Rule {
   id: string
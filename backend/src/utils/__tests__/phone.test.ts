@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest'
+import { normalizePhone } from '../phone.js'
+
+describe('normalizePhone', () => {
+  it('adds the country code to North American numbers', () => {
+    expect(normalizePhone('(555) 555-0100')).toBe('+15555550100')
+    expect(normalizePhone('555.555.0100')).toBe('+15555550100')
+    expect(normalizePhone('1-555-555-0100')).toBe('+15555550100')
+  })
+
+  it('keeps numbers already in international form', () => {
+    expect(normalizePhone('+15555550100')).toBe('+15555550100')
+    expect(normalizePhone('+44 20 7946 0958')).toBe('+442079460958')
+    expect(normalizePhone('0044 20 7946 0958')).toBe('+442079460958')
+  })
+
+  it('drops the trunk prefix of national numbers elsewhere', () => {
+    expect(normalizePhone('020 7946 0958', '44')).toBe('+442079460958')
+    expect(normalizePhone('0412 345 678', '61')).toBe('+61412345678')
+  })
+
+  it('rejects what cannot be a phone number', () => {
+    expect(normalizePhone('555-0100')).toBeNull()
+    expect(normalizePhone('call me')).toBeNull()
+    expect(normalizePhone('+1 555 555 0100 ext 2')).toBeNull()
+    expect(normalizePhone('+1234567890123456')).toBeNull()
+    expect(normalizePhone('')).toBeNull()
+  })
+})
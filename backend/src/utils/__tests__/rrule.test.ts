@@ -0,0 +1,98 @@
+/**
+ * Recurrence Rule Utilities Tests
+ *
+ * Tests RRULE parsing and expansion for appointment series.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { parseRRule, formatRRule, expandRRule, countOccurrencesBefore, RRuleError } from '../rrule.js'
+
+describe('Recurrence Rule Utilities', () => {
+  describe('parseRRule', () => {
+    it('should parse a weekly rule with days and an end date', () => {
+      expect(parseRRule('RRULE:FREQ=WEEKLY;BYDAY=WE,MO;UNTIL=20260630')).toEqual({
+        freq: 'WEEKLY',
+        interval: 1,
+        byDay: ['MO', 'WE'],
+        until: '2026-06-30'
+      })
+    })
+
+    it('should take the date part of a date-time UNTIL', () => {
+      expect(parseRRule('FREQ=DAILY;UNTIL=20260630T235959Z').until).toBe('2026-06-30')
+    })
+
+    it('should reject unsupported and malformed rules', () => {
+      expect(() => parseRRule('')).toThrow(RRuleError)
+      expect(() => parseRRule('FREQ=YEARLY')).toThrow('Unsupported frequency')
+      expect(() => parseRRule('FREQ=WEEKLY;BYSETPOS=1')).toThrow('Unsupported recurrence rule part BYSETPOS')
+      expect(() => parseRRule('FREQ=WEEKLY;BYDAY=2TU')).toThrow('Unsupported BYDAY value')
+      expect(() => parseRRule('FREQ=WEEKLY;COUNT=0')).toThrow('COUNT must be a positive whole number')
+      expect(() => parseRRule('FREQ=WEEKLY;COUNT=5;UNTIL=20260630')).toThrow('COUNT or UNTIL')
+      expect(() => parseRRule('FREQ=WEEKLY;UNTIL=20260231')).toThrow('UNTIL is not a valid date')
+    })
+  })
+
+  describe('formatRRule', () => {
+    it('should round-trip a rule in canonical form', () => {
+      const rule = parseRRule('freq=weekly;interval=2;byday=tu;count=10')
+      expect(formatRRule(rule)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;COUNT=10')
+    })
+  })
+
+  describe('expandRRule', () => {
+    it('should expand weekly days in date order', () => {
+      // 2026-03-02 is a Monday
+      const rule = parseRRule('FREQ=WEEKLY;BYDAY=MO,WE')
+      expect(expandRRule(rule, '2026-03-02', '2026-03-12')).toEqual([
+        '2026-03-02',
+        '2026-03-04',
+        '2026-03-09',
+        '2026-03-11'
+      ])
+    })
+
+    it('should skip days of the first week before the start date', () => {
+      const rule = parseRRule('FREQ=WEEKLY;BYDAY=MO,WE')
+      expect(expandRRule(rule, '2026-03-03', '2026-03-09')).toEqual(['2026-03-04', '2026-03-09'])
+    })
+
+    it('should use the start date weekday when BYDAY is missing', () => {
+      const rule = parseRRule('FREQ=WEEKLY;INTERVAL=2')
+      expect(expandRRule(rule, '2026-03-05', '2026-04-05')).toEqual(['2026-03-05', '2026-03-19', '2026-04-02'])
+    })
+
+    it('should stop at UNTIL and COUNT', () => {
+      expect(expandRRule(parseRRule('FREQ=DAILY;UNTIL=20260304'), '2026-03-02', '2026-12-31')).toHaveLength(3)
+      expect(expandRRule(parseRRule('FREQ=WEEKLY;BYDAY=MO,WE;COUNT=3'), '2026-03-02', '2026-12-31')).toEqual([
+        '2026-03-02',
+        '2026-03-04',
+        '2026-03-09'
+      ])
+    })
+
+    it('should count occurrences before the window against COUNT', () => {
+      const rule = parseRRule('FREQ=WEEKLY;BYDAY=MO;COUNT=3')
+      expect(expandRRule(rule, '2026-03-02', '2026-12-31', '2026-03-10')).toEqual(['2026-03-16'])
+    })
+
+    it('should filter daily rules by BYDAY', () => {
+      const rule = parseRRule('FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR')
+      // Friday through the next Tuesday
+      expect(expandRRule(rule, '2026-03-06', '2026-03-10')).toEqual(['2026-03-06', '2026-03-09', '2026-03-10'])
+    })
+
+    it('should skip months without the start day', () => {
+      const rule = parseRRule('FREQ=MONTHLY;COUNT=3')
+      expect(expandRRule(rule, '2026-01-31', '2026-12-31')).toEqual(['2026-01-31', '2026-03-31', '2026-05-31'])
+    })
+  })
+
+  describe('countOccurrencesBefore', () => {
+    it('should count the occurrences before a date', () => {
+      const rule = parseRRule('FREQ=WEEKLY;BYDAY=MO,WE;COUNT=10')
+      expect(countOccurrencesBefore(rule, '2026-03-02', '2026-03-09')).toBe(2)
+      expect(countOccurrencesBefore(rule, '2026-03-02', '2026-03-02')).toBe(0)
+    })
+  })
+})
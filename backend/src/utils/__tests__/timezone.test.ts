@@ -150,6 +150,12 @@ describe('Timezone Utilities', () => {
       expect(result.getUTCMinutes()).toBe(59)
       expect(result.getUTCDate()).toBe(16)
     })
+
+    it('should parse the start of day in UTC', () => {
+      const result = parseLocalDateStart('2024-01-15', 'UTC')
+
+      expect(result.toISOString()).toBe('2024-01-15T00:00:00.000Z')
+    })
   })
 
   describe('getLocalDayOfWeek', () => {
@@ -0,0 +1,53 @@
+/**
+ * Phone Number Utilities
+ *
+ * Normalizes phone numbers to E.164 (+ country code + subscriber number, at
+ * most 15 digits), the form SMS providers expect. Numbers written without a
+ * country code are read as national numbers of the organization's country.
+ *
+ * Examples, with country code 1:
+ * - (555) 555-0100       -> +15555550100
+ * - 1-555-555-0100       -> +15555550100
+ * - +44 20 7946 0958     -> +442079460958
+ * - 0044 20 7946 0958    -> +442079460958
+ * With country code 44:
+ * - 020 7946 0958        -> +442079460958
+ */
+
+const MIN_E164_DIGITS = 8
+const MAX_E164_DIGITS = 15
+
+/**
+ * Normalize a phone number to E.164. Returns null when it can't be a valid
+ * number, e.g. it has letters or too few digits.
+ */
+export function normalizePhone(phone: string, defaultCountryCode = '1'): string | null {
+  const trimmed = phone.trim()
+  // Spaces, dashes, dots and parentheses are formatting; anything else isn't a phone number
+  if (!/^\+?[\d\s().-]+$/.test(trimmed)) return null
+
+  let digits = trimmed.replace(/\D/g, '')
+
+  if (trimmed.startsWith('+')) {
+    // Already international
+  } else if (digits.startsWith('00')) {
+    // International dialling prefix
+    digits = digits.slice(2)
+  } else if (defaultCountryCode === '1') {
+    // North America: 10-digit numbers, optionally with the leading 1
+    if (digits.length === 10) {
+      digits = `1${digits}`
+    } else if (!(digits.length === 11 && digits.startsWith('1'))) {
+      return null
+    }
+  } else {
+    // Elsewhere the national trunk prefix 0 is dropped
+    digits = defaultCountryCode + digits.replace(/^0/, '')
+  }
+
+  if (digits.length < MIN_E164_DIGITS || digits.length > MAX_E164_DIGITS || digits.startsWith('0')) {
+    return null
+  }
+
+  return `+${digits}`
+}
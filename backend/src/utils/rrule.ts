@@ -0,0 +1,257 @@
+/**
+ * Recurrence Rule Utilities
+ *
+ * Parses and expands the subset of RFC 5545 RRULEs used by appointment series:
+ * FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY (weekday codes only), COUNT
+ * and UNTIL. Occurrences are calendar dates (YYYY-MM-DD); the time of day
+ * belongs to the series, not the rule.
+ *
+ * Examples:
+ * - Mondays and Wednesdays until June:  FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20260630
+ * - Every other Tuesday, ten times:     FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;COUNT=10
+ */
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════════
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY'
+
+export type RRuleWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU'
+
+export interface RRule {
+  freq: RRuleFrequency
+  interval: number
+  byDay: RRuleWeekday[] // Empty = the start date's weekday (WEEKLY) or every day (DAILY)
+  count?: number
+  until?: string // YYYY-MM-DD, inclusive
+}
+
+export class RRuleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RRuleError'
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// PARSING
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY']
+
+// In the order weeks run (WKST=MO)
+const WEEKDAYS: RRuleWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']
+
+/**
+ * Parse an RRULE string, with or without its "RRULE:" prefix.
+ * Throws RRuleError for malformed or unsupported rules.
+ */
+export function parseRRule(value: string): RRule {
+  const body = value.trim().replace(/^RRULE:/i, '')
+  if (!body) {
+    throw new RRuleError('Recurrence rule is empty')
+  }
+
+  const parts = new Map<string, string>()
+  for (const part of body.split(';')) {
+    const [key, val, ...rest] = part.split('=')
+    if (!key || val === undefined || rest.length > 0) {
+      throw new RRuleError(`Malformed recurrence rule part "${part}"`)
+    }
+    parts.set(key.toUpperCase(), val.toUpperCase())
+  }
+
+  const freq = parts.get('FREQ')
+  if (!freq) {
+    throw new RRuleError('Recurrence rule needs a FREQ')
+  }
+  if (!FREQUENCIES.includes(freq as RRuleFrequency)) {
+    throw new RRuleError(`Unsupported frequency ${freq}; use DAILY, WEEKLY or MONTHLY`)
+  }
+
+  const rule: RRule = { freq: freq as RRuleFrequency, interval: 1, byDay: [] }
+
+  for (const [key, val] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break
+      case 'INTERVAL':
+        rule.interval = parsePositiveInt(val, 'INTERVAL')
+        break
+      case 'COUNT':
+        rule.count = parsePositiveInt(val, 'COUNT')
+        break
+      case 'UNTIL':
+        rule.until = parseUntil(val)
+        break
+      case 'BYDAY':
+        rule.byDay = parseByDay(val)
+        break
+      case 'WKST':
+        if (val !== 'MO') {
+          throw new RRuleError('Only WKST=MO is supported')
+        }
+        break
+      default:
+        throw new RRuleError(`Unsupported recurrence rule part ${key}`)
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new RRuleError('A recurrence rule can have COUNT or UNTIL, not both')
+  }
+  if (rule.freq === 'MONTHLY' && rule.byDay.length > 0) {
+    throw new RRuleError('BYDAY is not supported for monthly rules')
+  }
+
+  return rule
+}
+
+function parsePositiveInt(value: string, name: string): number {
+  if (!/^\d+$/.test(value) || Number(value) < 1) {
+    throw new RRuleError(`${name} must be a positive whole number`)
+  }
+  return Number(value)
+}
+
+// UNTIL is a date (20260630) or a date-time (20260630T235959Z); only the date counts
+function parseUntil(value: string): string {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/)
+  if (!match) {
+    throw new RRuleError('UNTIL must be a date like 20260630')
+  }
+  const date = `${match[1]}-${match[2]}-${match[3]}`
+  if (toDayNumber(date) === null) {
+    throw new RRuleError('UNTIL is not a valid date')
+  }
+  return date
+}
+
+function parseByDay(value: string): RRuleWeekday[] {
+  const days = value.split(',')
+  for (const day of days) {
+    if (!WEEKDAYS.includes(day as RRuleWeekday)) {
+      throw new RRuleError(`Unsupported BYDAY value ${day}; use weekday codes like MO,WE`)
+    }
+  }
+  // Week order, without duplicates
+  return WEEKDAYS.filter(day => days.includes(day))
+}
+
+/**
+ * Serialize a rule back to its canonical RRULE form (without the prefix).
+ */
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.join(',')}`)
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`)
+  if (rule.until !== undefined) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`)
+  return parts.join(';')
+}
+
+// ═══════════════════════════════════════════════════════════════════════════════
+// EXPANSION
+// ═══════════════════════════════════════════════════════════════════════════════
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+// Days since the epoch for a YYYY-MM-DD date, or null if it isn't a real date
+function toDayNumber(date: string): number | null {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (!match) return null
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])]
+  const ms = Date.UTC(year, month - 1, day)
+  const check = new Date(ms)
+  if (check.getUTCFullYear() !== year || check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day) {
+    return null
+  }
+  return ms / MS_PER_DAY
+}
+
+function fromDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * MS_PER_DAY).toISOString().split('T')[0]
+}
+
+// Monday = 0 ... Sunday = 6
+function weekdayIndex(dayNumber: number): number {
+  // 1970-01-01 was a Thursday
+  return (dayNumber + 3) % 7
+}
+
+/**
+ * The rule's occurrences from startDate (the series' DTSTART) through
+ * `through`, inclusive. COUNT is counted from startDate, so occurrences
+ * before `from` still use up the count; they just aren't returned.
+ */
+export function expandRRule(
+  rule: RRule,
+  startDate: string,
+  through: string,
+  from: string = startDate
+): string[] {
+  const start = toDayNumber(startDate)
+  const end = toDayNumber(through)
+  const first = toDayNumber(from)
+  if (start === null || end === null || first === null) {
+    throw new RRuleError('Dates must be in YYYY-MM-DD format')
+  }
+
+  const until = rule.until ? toDayNumber(rule.until)! : Infinity
+  const last = Math.min(end, until)
+  const dates: string[] = []
+  let produced = 0
+
+  // Returns false once the rule is exhausted
+  const emit = (day: number): boolean => {
+    if (day > last) return false
+    if (rule.count !== undefined && produced >= rule.count) return false
+    produced++
+    if (day >= first) dates.push(fromDayNumber(day))
+    return true
+  }
+
+  if (rule.freq === 'DAILY') {
+    for (let day = start; day <= last; day += rule.interval) {
+      if (rule.byDay.length > 0 && !rule.byDay.includes(WEEKDAYS[weekdayIndex(day)])) continue
+      if (!emit(day)) break
+    }
+  } else if (rule.freq === 'WEEKLY') {
+    const offsets = (rule.byDay.length > 0 ? rule.byDay : [WEEKDAYS[weekdayIndex(start)]])
+      .map(day => WEEKDAYS.indexOf(day))
+    const firstMonday = start - weekdayIndex(start)
+    weeks: for (let monday = firstMonday; monday <= last; monday += 7 * rule.interval) {
+      for (const offset of offsets) {
+        const day = monday + offset
+        if (day < start) continue
+        if (!emit(day)) break weeks
+      }
+    }
+  } else {
+    const [year, month, dayOfMonth] = startDate.split('-').map(Number)
+    for (let step = 0; ; step += rule.interval) {
+      const monthStart = Date.UTC(year, month - 1 + step, 1) / MS_PER_DAY
+      if (monthStart > last) break
+      const candidate = new Date(Date.UTC(year, month - 1 + step, dayOfMonth))
+      // Months without the day (the 31st in April) are skipped, as RFC 5545 does
+      if (candidate.getUTCDate() !== dayOfMonth) continue
+      if (!emit(candidate.getTime() / MS_PER_DAY)) break
+    }
+  }
+
+  return dates
+}
+
+/**
+ * How many occurrences fall before a date; used to carry COUNT over when a
+ * series is split.
+ */
+export function countOccurrencesBefore(rule: RRule, startDate: string, date: string): number {
+  const before = toDayNumber(date)
+  if (before === null) {
+    throw new RRuleError('Dates must be in YYYY-MM-DD format')
+  }
+  if (before <= toDayNumber(startDate)!) return 0
+  return expandRRule(rule, startDate, fromDayNumber(before - 1)).length
+}
@@ -214,7 +214,8 @@ export function getTimezoneOffset(
 
   // Get what local time that UTC instant represents
   const parts = formatter.formatToParts(guess)
-  const guessHour = parseInt(parts.find(p => p.type === 'hour')?.value || '0', 10)
+  // hour12: false formats midnight as "24"
+  const guessHour = parseInt(parts.find(p => p.type === 'hour')?.value || '0', 10) % 24
   const guessDay = parseInt(parts.find(p => p.type === 'day')?.value || '0', 10)
 
   // Extract the offset from the formatted string
@@ -0,0 +1 @@
+export { default as ExpiringAuthorizationsPanel } from './ExpiringAuthorizationsPanel.vue'
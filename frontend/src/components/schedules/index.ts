@@ -0,0 +1,2 @@
+export { default as ScheduleDiffModal } from './ScheduleDiffModal.vue'
+export { default as UnmetDemandPanel } from './UnmetDemandPanel.vue'
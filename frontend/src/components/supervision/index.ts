@@ -0,0 +1 @@
+export { default as SupervisionPanel } from './SupervisionPanel.vue'
@@ -25,4 +25,5 @@ export { default as RuleItem } from './RuleItem.vue'
 export { default as VoiceInput } from './VoiceInput.vue'
 export { default as VoiceHintsModal } from './VoiceHintsModal.vue'
 export { default as RuleAnalysisModal } from './RuleAnalysisModal.vue'
+export { default as RuleLogicEditor } from './RuleLogicEditor.vue'
 export { default as SessionStatusBadge } from './SessionStatusBadge.vue'
@@ -6,7 +6,7 @@ import PatientListPage from '../PatientListPage.vue'
 import { usePatientsStore } from '@/stores/patients'
 import { useAuthStore } from '@/stores/auth'
 import type { Patient } from '@/types'
-import { patientService } from '@/services/api'
+import { patientService, voiceService } from '@/services/api'
 
 // Mock the API services
 vi.mock('@/services/api', () => ({
@@ -160,6 +160,7 @@ describe('PatientListPage', () => {
             props: ['to']
           },
           VoiceInput: {
+            name: 'VoiceInput',
             template: '<div class="voice-input-stub"></div>',
             emits: ['result', 'show-hints']
           },
@@ -447,6 +448,34 @@ describe('PatientListPage', () => {
       // Voice input should be rendered
       expect(wrapper.find('.voice-input-stub').exists()).toBe(true)
     })
+
+    it('should pass parsed availability through to the new patient', async () => {
+      const availability = {
+        weekly: { monday: { start: '15:00', end: '18:00' }, tuesday: { start: '15:00', end: '18:00' } }
+      }
+      vi.mocked(voiceService.parsePatient).mockResolvedValue({
+        data: {
+          commandType: 'create_patient',
+          confidence: 0.9,
+          data: { name: 'Liam Park', gender: 'male', availability },
+          warnings: [],
+          originalTranscript: 'Add Liam Park, in school until 3 on Mondays and Tuesdays'
+        }
+      })
+      vi.mocked(patientService.create).mockResolvedValue({ data: { ...mockPatients[0], availability } })
+
+      const wrapper = await mountPatientListPage({ canManage: true })
+      wrapper.findComponent({ name: 'VoiceInput' }).vm.$emit('result', 'Add Liam Park, in school until 3 on Mondays and Tuesdays')
+      await flushPromises()
+
+      expect(wrapper.find('.confirmation-card').text()).toContain('Mon 15:00-18:00, Tue 15:00-18:00')
+
+      const confirmButton = wrapper.find('.confirmation-card').findAll('button').find(btn => btn.text().includes('Add Patient'))
+      await confirmButton?.trigger('click')
+      await flushPromises()
+
+      expect(patientService.create).toHaveBeenCalledWith(expect.objectContaining({ name: 'Liam Park', availability }))
+    })
   })
 
   describe('loading and error states', () => {
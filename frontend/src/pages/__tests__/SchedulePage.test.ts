@@ -5,7 +5,7 @@ import { createRouter, createMemoryHistory } from 'vue-router'
 import SchedulePage from '../SchedulePage.vue'
 import { useSchedulesStore } from '@/stores/schedules'
 import type { Schedule, Session } from '@/types'
-import { scheduleService } from '@/services/api'
+import { scheduleService, holidayService } from '@/services/api'
 
 // Mock the API services
 vi.mock('@/services/api', () => ({
@@ -39,6 +39,9 @@ vi.mock('@/services/api', () => ({
     update: vi.fn(),
     delete: vi.fn()
   },
+  holidayService: {
+    closures: vi.fn().mockResolvedValue({ data: [] })
+  },
   patientService: {
     list: vi.fn().mockResolvedValue({
       data: [
@@ -63,11 +66,6 @@ vi.mock('@/utils/subdomain', () => ({
   getSubdomain: vi.fn(() => 'demo')
 }))
 
-// Mock the holidays utility
-vi.mock('@/utils/holidays', () => ({
-  getFederalHoliday: vi.fn(() => null)
-}))
-
 // Mock the useLabels composable
 vi.mock('@/composables/useLabels', () => ({
   useLabels: () => ({
@@ -281,6 +279,26 @@ describe('SchedulePage', () => {
     })
   })
 
+  describe('holidays', () => {
+    it('should load clinic closures for the week', async () => {
+      await mountSchedulePage()
+
+      expect(holidayService.closures).toHaveBeenCalledWith(weekStartDate, expect.any(String))
+    })
+
+    it('should mark closed days in the calendar header', async () => {
+      vi.mocked(holidayService.closures).mockResolvedValueOnce({
+        data: [{ date: weekStartDate, name: 'Staff Retreat', startTime: null, endTime: null }]
+      })
+
+      const wrapper = await mountSchedulePage({ schedule: mockSchedule, preloadStore: true })
+
+      const holidayHeader = wrapper.find('.calendar-header-cell.holiday')
+      expect(holidayHeader.exists()).toBe(true)
+      expect(holidayHeader.text()).toContain('Staff Retreat')
+    })
+  })
+
   describe('week navigation', () => {
     it('should have prev and next week buttons', async () => {
       const wrapper = await mountSchedulePage()
@@ -106,6 +106,12 @@ const routes: RouteRecordRaw[] = [
         name: 'users',
         component: () => import('@/pages/UsersPage.vue')
       },
+      {
+        path: 'notifications',
+        name: 'notifications',
+        component: () => import('@/pages/NotificationsPage.vue'),
+        meta: { requiredRoles: ['super_admin', 'admin'] }
+      },
       {
         path: 'settings',
         name: 'settings',
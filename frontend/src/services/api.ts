@@ -10,12 +10,33 @@ import type {
   Patient,
   Rule,
   Room,
+  Holiday,
+  FederalHoliday,
+  ClinicClosure,
+  PatientAuthorization,
+  WaitlistEntry,
+  AppointmentSeries,
+  SeriesBookingResult,
+  SeriesConflict,
+  SeriesScope,
+  Notification,
+  NotificationStatus,
   Schedule,
+  ScheduleQuality,
+  ScheduleGenerationStats,
+  ScheduleGenerationJob,
   Session,
+  SessionStaffAssignment,
+  SessionStaffRole,
+  SupervisionSummary,
+  ScheduleVersionSummary,
+  ScheduleDiff,
+  UnmetDemandReport,
   SessionStatus,
   CancellationReason,
   SessionStatusCounts,
   OrganizationSettings,
+  SchedulingEngine,
   OrganizationFeatures,
   FeatureStatuses,
   BusinessHours,
@@ -28,6 +49,7 @@ import type {
   MfaStatusResponse,
   ParsedMultiRuleResponse,
   RuleAnalysisResult,
+  RuleSchemaCatalog,
   HelpCategory,
   HelpArticle,
   HelpSearchResult
@@ -470,6 +492,11 @@ export const rulesService = {
   async analyze(): Promise<ApiResponse<RuleAnalysisResult>> {
     const { data } = await api.post('/rules/analyze')
     return data
+  },
+
+  async getSchema(): Promise<ApiResponse<RuleSchemaCatalog>> {
+    const { data } = await api.get('/rules/schema')
+    return data
   }
 }
 
@@ -500,9 +527,177 @@ export const roomService = {
   }
 }
 
+// Holiday Service
+export const holidayService = {
+  async list(params?: { from?: string; to?: string }): Promise<ApiResponse<Holiday[]>> {
+    const { data } = await api.get('/holidays', { params })
+    return data
+  },
+
+  async closures(from: string, to: string): Promise<ApiResponse<ClinicClosure[]>> {
+    const { data } = await api.get('/holidays/closures', { params: { from, to } })
+    return data
+  },
+
+  async federal(year: number): Promise<ApiResponse<FederalHoliday[]>> {
+    const { data } = await api.get('/holidays/federal', { params: { year } })
+    return data
+  },
+
+  async create(holiday: Partial<Holiday>): Promise<ApiResponse<Holiday>> {
+    const { data } = await api.post('/holidays', holiday)
+    return data
+  },
+
+  async update(id: string, holiday: Partial<Holiday>): Promise<ApiResponse<Holiday>> {
+    const { data } = await api.put(`/holidays/${id}`, holiday)
+    return data
+  },
+
+  async delete(id: string): Promise<void> {
+    await api.delete(`/holidays/${id}`)
+  }
+}
+
+// Authorization Service
+export const authorizationService = {
+  async list(params?: { patientId?: string }): Promise<ApiResponse<PatientAuthorization[]>> {
+    const { data } = await api.get('/authorizations', { params })
+    return data
+  },
+
+  async expiring(days?: number): Promise<ApiResponse<PatientAuthorization[]>> {
+    const { data } = await api.get('/authorizations/expiring', { params: days ? { days } : undefined })
+    return data
+  },
+
+  async create(authorization: Partial<PatientAuthorization>): Promise<ApiResponse<PatientAuthorization>> {
+    const { data } = await api.post('/authorizations', authorization)
+    return data
+  },
+
+  async update(id: string, authorization: Partial<PatientAuthorization>): Promise<ApiResponse<PatientAuthorization>> {
+    const { data } = await api.put(`/authorizations/${id}`, authorization)
+    return data
+  },
+
+  async delete(id: string): Promise<void> {
+    await api.delete(`/authorizations/${id}`)
+  }
+}
+
+export const waitlistService = {
+  async list(params?: { patientId?: string }): Promise<ApiResponse<WaitlistEntry[]>> {
+    const { data } = await api.get('/waitlist', { params })
+    return data
+  },
+
+  async create(entry: Partial<WaitlistEntry>): Promise<ApiResponse<WaitlistEntry>> {
+    const { data } = await api.post('/waitlist', entry)
+    return data
+  },
+
+  async update(id: string, entry: Partial<WaitlistEntry>): Promise<ApiResponse<WaitlistEntry>> {
+    const { data } = await api.put(`/waitlist/${id}`, entry)
+    return data
+  },
+
+  async delete(id: string): Promise<void> {
+    await api.delete(`/waitlist/${id}`)
+  }
+}
+
+export interface SeriesInput {
+  patientId: string
+  staffId: string
+  roomId?: string | null
+  sessionSpecId?: string | null
+  rrule: string
+  startDate: string
+  startTime: string
+  endTime: string
+  notes?: string | null
+}
+
+export interface SeriesOccurrenceChanges {
+  rrule?: string
+  date?: string
+  startTime?: string
+  endTime?: string
+  staffId?: string
+  roomId?: string | null
+  notes?: string | null
+}
+
+export const seriesService = {
+  async list(params?: { patientId?: string }): Promise<ApiResponse<AppointmentSeries[]>> {
+    const { data } = await api.get('/series', { params })
+    return data
+  },
+
+  async get(id: string): Promise<ApiResponse<AppointmentSeries & { sessions: Session[] }>> {
+    const { data } = await api.get(`/series/${id}`)
+    return data
+  },
+
+  async preview(series: SeriesInput): Promise<ApiResponse<{ occurrences: string[]; conflicts: SeriesConflict[] }>> {
+    const { data } = await api.post('/series/preview', series)
+    return data
+  },
+
+  async create(
+    series: SeriesInput & { allowConflicts?: boolean }
+  ): Promise<ApiResponse<AppointmentSeries> & { meta: SeriesBookingResult }> {
+    const { data } = await api.post('/series', series)
+    return data
+  },
+
+  async updateOccurrences(
+    id: string,
+    sessionId: string,
+    scope: SeriesScope,
+    changes: SeriesOccurrenceChanges & { allowConflicts?: boolean }
+  ): Promise<ApiResponse<AppointmentSeries> & { meta: SeriesBookingResult & { session: Session | null } }> {
+    const { data } = await api.put(`/series/${id}/occurrences/${sessionId}`, { scope, ...changes })
+    return data
+  },
+
+  async cancel(id: string, reason: CancellationReason, notes?: string): Promise<{ success: boolean; meta: { cancelled: number } }> {
+    const { data } = await api.post(`/series/${id}/cancel`, { reason, notes })
+    return data
+  },
+
+  async cancelOccurrences(
+    id: string,
+    sessionId: string,
+    scope: SeriesScope,
+    reason: CancellationReason,
+    notes?: string
+  ): Promise<{ success: boolean; meta: { cancelled: number } }> {
+    const { data } = await api.post(`/series/${id}/occurrences/${sessionId}/cancel`, { scope, reason, notes })
+    return data
+  }
+}
+
+export const notificationService = {
+  async list(params?: {
+    page?: number
+    limit?: number
+    status?: NotificationStatus
+  }): Promise<PaginatedResponse<Notification>> {
+    const { data } = await api.get('/notifications', { params })
+    return data
+  },
+
+  async resend(id: string): Promise<ApiResponse<{ id: string; status: NotificationStatus }>> {
+    const { data } = await api.post(`/notifications/${id}/resend`)
+    return data
+  }
+}
+
 // Schedule Modification Types (used by scheduleService)
 export interface ScheduleModification {
-  action: 'move' | 'cancel' | 'swap' | 'create'
+  action: 'move' | 'cancel' | 'swap' | 'create' | 'lock' | 'unlock'
   therapistName?: string
   patientName?: string
   currentDate?: string
@@ -546,6 +741,25 @@ export interface CopyModifications {
   warnings: string[]
 }
 
+export interface ScheduleSeriesWeek {
+  weekStartDate: string
+  scheduleId: string
+  // False when the week already had a schedule that was left unchanged
+  generated: boolean
+  engine?: SchedulingEngine
+  stats?: ScheduleGenerationStats
+  quality?: ScheduleQuality
+  warnings: string[]
+}
+
+export interface RollingWeekResult {
+  weekStartDate: string
+  scheduleId: string | null
+  action: 'generated' | 'repaired' | 'unchanged' | 'failed'
+  changes: number
+  warnings: string[]
+}
+
 // Schedule Service
 export const scheduleService = {
   async list(params?: { status?: string }): Promise<PaginatedResponse<Schedule>> {
@@ -558,8 +772,55 @@ export const scheduleService = {
     return data
   },
 
-  async generate(weekStartDate: string): Promise<ApiResponse<Schedule & { sessions: Session[] }, { stats: { totalSessions: number; patientsScheduled: number; therapistsUsed: number }; warnings: string[] }>> {
-    const { data } = await api.post('/schedules/generate', { weekStartDate })
+  async getSupervision(id: string): Promise<ApiResponse<SupervisionSummary[]>> {
+    const { data } = await api.get(`/schedules/${id}/supervision`)
+    return data
+  },
+
+  async getVersions(id: string): Promise<ApiResponse<ScheduleVersionSummary[]>> {
+    const { data } = await api.get(`/schedules/${id}/versions`)
+    return data
+  },
+
+  // against: a snapshot or schedule id; defaults to the week's latest published snapshot
+  async getDiff(id: string, against?: string): Promise<ApiResponse<ScheduleDiff>> {
+    const { data } = await api.get(`/schedules/${id}/diff`, { params: against ? { against } : undefined })
+    return data
+  },
+
+  async generate(weekStartDate: string, engine?: SchedulingEngine): Promise<ApiResponse<Schedule & { sessions: Session[] }, { stats: ScheduleGenerationStats; quality: ScheduleQuality; warnings: string[]; engine: SchedulingEngine }>> {
+    const { data } = await api.post('/schedules/generate', { weekStartDate, engine })
+    return data
+  },
+
+  async generateSeries(weekStartDate: string, weeks: number, engine?: SchedulingEngine): Promise<ApiResponse<Schedule[], { weeks: ScheduleSeriesWeek[] }>> {
+    const { data } = await api.post('/schedules/generate-series', { weekStartDate, weeks, engine })
+    return data
+  },
+
+  async startGenerationJob(weekStartDate: string, engine?: SchedulingEngine): Promise<ApiResponse<ScheduleGenerationJob>> {
+    const { data } = await api.post('/schedules/jobs', { weekStartDate, engine })
+    return data
+  },
+
+  async getGenerationJob(id: string): Promise<ApiResponse<ScheduleGenerationJob>> {
+    const { data } = await api.get(`/schedules/jobs/${id}`)
+    return data
+  },
+
+  async cancelGenerationJob(id: string): Promise<ApiResponse<ScheduleGenerationJob>> {
+    const { data } = await api.post(`/schedules/jobs/${id}/cancel`)
+    return data
+  },
+
+  // Replace a draft's unlocked sessions, keeping its locked sessions in place
+  async regenerate(id: string, engine?: SchedulingEngine): Promise<ApiResponse<Schedule & { sessions: Session[] }, { stats: ScheduleGenerationStats; quality: ScheduleQuality; warnings: string[]; engine: SchedulingEngine; lockedSessions: number }>> {
+    const { data } = await api.post(`/schedules/${id}/regenerate`, { engine })
+    return data
+  },
+
+  async refreshRolling(): Promise<ApiResponse<RollingWeekResult[], { horizonWeeks: number }>> {
+    const { data } = await api.post('/schedules/rolling/refresh')
     return data
   },
 
@@ -578,6 +839,16 @@ export const scheduleService = {
     return data
   },
 
+  async getUnmetDemand(id: string): Promise<ApiResponse<UnmetDemandReport | null>> {
+    const { data } = await api.get(`/schedules/${id}/unmet-demand`)
+    return data
+  },
+
+  async exportUnmetDemand(id: string): Promise<Blob> {
+    const { data } = await api.get(`/schedules/${id}/export/unmet-demand`, { responseType: 'blob' })
+    return data
+  },
+
   async modifyByVoice(scheduleId: string, modification: ScheduleModification): Promise<ApiResponse<VoiceModifyResult>> {
     const { data } = await api.post(`/schedules/${scheduleId}/modify-voice`, modification)
     return data
@@ -1068,6 +1339,15 @@ export const sessionService = {
   async confirm(id: string): Promise<ApiResponse<Session>> {
     const { data } = await api.post(`/sessions/${id}/confirm`)
     return data
+  },
+
+  async addStaff(id: string, staffId: string, role: SessionStaffRole): Promise<ApiResponse<SessionStaffAssignment>> {
+    const { data } = await api.post(`/sessions/${id}/staff`, { staffId, role })
+    return data
+  },
+
+  async removeStaff(id: string, staffId: string): Promise<void> {
+    await api.delete(`/sessions/${id}/staff/${staffId}`)
   }
 }
 
@@ -1084,6 +1364,12 @@ export const settingsService = {
     defaultSessionDuration?: number
     slotInterval?: number
     lateCancelWindowHours?: number
+    schedulingEngine?: SchedulingEngine
+    rollingHorizonWeeks?: number
+    continuityWeight?: number
+    closeOnFederalHolidays?: boolean
+    smsSenderId?: string | null
+    smsCountryCode?: string
   }): Promise<ApiResponse<OrganizationSettings>> {
     const { data } = await api.put('/settings', settings)
     return data
@@ -1169,7 +1455,8 @@ import type {
   PortalVerifyResult,
   PortalAvailabilitySlot,
   PortalBookingHold,
-  PortalBookingSettings
+  PortalBookingSettings,
+  PortalWaitlistOffer
 } from '@/types'
 
 // Separate axios instance for portal (uses different token storage)
@@ -1308,4 +1595,22 @@ export const portalBookingService = {
   }
 }
 
+// Portal Waitlist Service (slots offered after cancellations)
+export const portalWaitlistService = {
+  async getOffers(): Promise<ApiResponse<PortalWaitlistOffer[]>> {
+    const { data } = await portalApi.get('/waitlist/offers')
+    return data
+  },
+
+  async claim(offerId: string): Promise<ApiResponse<PortalSession>> {
+    const { data } = await portalApi.post(`/waitlist/offers/${offerId}/claim`)
+    return data
+  },
+
+  async decline(offerId: string): Promise<{ success: boolean }> {
+    const { data } = await portalApi.post(`/waitlist/offers/${offerId}/decline`)
+    return data
+  }
+}
+
 export default api
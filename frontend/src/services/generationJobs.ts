@@ -0,0 +1,124 @@
+/**
+ * Follows a background schedule generation job
+ * Listens on the backend job WebSocket and falls back to polling the job if
+ * the connection drops before the job has finished
+ */
+
+import type { GenerationJobStatus, GenerationJobUpdate, ScheduleGenerationJob } from '@/types'
+import { scheduleService } from './api'
+
+const POLL_INTERVAL_MS = 2000
+
+export interface GenerationJobWatch {
+  // Resolves with the job's final update (done, failed or cancelled)
+  finished: Promise<GenerationJobUpdate>
+  stop: () => void
+}
+
+interface ServerMessage {
+  type: 'status' | 'error'
+  job?: GenerationJobUpdate
+  code?: string
+  message?: string
+}
+
+export function isGenerationJobFinished(status: GenerationJobStatus): boolean {
+  return status === 'done' || status === 'failed' || status === 'cancelled'
+}
+
+export function toGenerationJobUpdate(job: ScheduleGenerationJob): GenerationJobUpdate {
+  return {
+    jobId: job.id,
+    status: job.status,
+    progress: job.progress,
+    message: job.message,
+    scheduleId: job.scheduleId,
+    error: job.error
+  }
+}
+
+export function watchGenerationJob(
+  jobId: string,
+  onUpdate: (update: GenerationJobUpdate) => void
+): GenerationJobWatch {
+  let ws: WebSocket | null = null
+  let pollTimer: ReturnType<typeof setTimeout> | null = null
+  let stopped = false
+  let resolveFinished: (update: GenerationJobUpdate) => void = () => {}
+  let rejectFinished: (error: Error) => void = () => {}
+  const finished = new Promise<GenerationJobUpdate>((resolve, reject) => {
+    resolveFinished = resolve
+    rejectFinished = reject
+  })
+
+  function stop() {
+    stopped = true
+    if (pollTimer) {
+      clearTimeout(pollTimer)
+      pollTimer = null
+    }
+    if (ws) {
+      ws.onclose = null
+      ws.close()
+      ws = null
+    }
+  }
+
+  function handleUpdate(update: GenerationJobUpdate) {
+    if (stopped) return
+    onUpdate(update)
+    if (isGenerationJobFinished(update.status)) {
+      stop()
+      resolveFinished(update)
+    }
+  }
+
+  async function poll() {
+    if (stopped) return
+    try {
+      const { data: job } = await scheduleService.getGenerationJob(jobId)
+      handleUpdate(toGenerationJobUpdate(job))
+    } catch (error) {
+      stop()
+      rejectFinished(error instanceof Error ? error : new Error('Failed to check generation progress'))
+      return
+    }
+    if (!stopped) {
+      pollTimer = setTimeout(poll, POLL_INTERVAL_MS)
+    }
+  }
+
+  const token = localStorage.getItem('token')
+  if (!token || typeof WebSocket === 'undefined') {
+    void poll()
+    return { finished, stop }
+  }
+
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+  const wsUrl = `${protocol}//${window.location.host}/api/schedules/jobs/${jobId}/stream?token=${encodeURIComponent(token)}`
+  ws = new WebSocket(wsUrl)
+
+  ws.onmessage = (event) => {
+    try {
+      const message: ServerMessage = JSON.parse(event.data)
+      if (message.type === 'status' && message.job) {
+        handleUpdate(message.job)
+      } else if (message.type === 'error') {
+        console.warn('[GenerationJobs] Stream error:', message.code, message.message)
+      }
+    } catch (error) {
+      console.error('[GenerationJobs] Failed to parse message:', error)
+    }
+  }
+
+  // The server closes the socket once the job finishes; an earlier close
+  // (network drop, proxy timeout) switches to polling
+  ws.onclose = () => {
+    ws = null
+    if (!stopped) {
+      void poll()
+    }
+  }
+
+  return { finished, stop }
+}
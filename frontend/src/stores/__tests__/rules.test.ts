@@ -12,7 +12,8 @@ vi.mock('@/services/api', () => ({
     create: vi.fn(),
     update: vi.fn(),
     delete: vi.fn(),
-    analyze: vi.fn()
+    analyze: vi.fn(),
+    getSchema: vi.fn()
   },
   voiceService: {
     parseRule: vi.fn()
@@ -166,6 +167,49 @@ describe('Rules Store', () => {
       await expect(store.createRule({ description: 'Test' })).rejects.toThrow('Create failed')
       expect(store.error).toBe('Create failed')
     })
+
+    it('should surface rule logic validation details', async () => {
+      vi.mocked(rulesService.create).mockRejectedValue({
+        message: 'Request failed with status code 400',
+        response: {
+          data: {
+            error: 'Invalid rule logic',
+            details: [{ field: 'maxHoursPerDay', message: 'Unrecognized key(s) in object' }]
+          }
+        }
+      })
+
+      const store = useRulesStore()
+
+      await expect(store.createRule({ category: 'session', description: 'Test' })).rejects.toBeDefined()
+      expect(store.error).toBe('Invalid rule logic: maxHoursPerDay - Unrecognized key(s) in object')
+    })
+  })
+
+  describe('fetchSchema', () => {
+    const catalog = {
+      version: 1,
+      categories: [
+        {
+          category: 'session' as RuleCategory,
+          label: 'Session',
+          description: 'Session frequency, spacing and timing limits',
+          fields: [{ key: 'maxSessionsPerDay', type: 'integer' as const, label: 'Max sessions per day', description: '' }]
+        }
+      ]
+    }
+
+    it('should load the catalog once', async () => {
+      vi.mocked(rulesService.getSchema).mockResolvedValue({ data: catalog })
+
+      const store = useRulesStore()
+      await store.fetchSchema()
+      await store.fetchSchema()
+
+      expect(rulesService.getSchema).toHaveBeenCalledTimes(1)
+      expect(store.getCategorySchema('session')?.fields[0].key).toBe('maxSessionsPerDay')
+      expect(store.getCategorySchema('certification')).toBeNull()
+    })
   })
 
   describe('updateRule', () => {
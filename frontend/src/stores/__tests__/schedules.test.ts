@@ -2,7 +2,8 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { setActivePinia, createPinia } from 'pinia'
 import { useSchedulesStore } from '../schedules'
 import { scheduleService, voiceService } from '@/services/api'
-import type { Schedule, Session } from '@/types'
+import { watchGenerationJob } from '@/services/generationJobs'
+import type { Schedule, Session, ScheduleGenerationJob, GenerationJobUpdate } from '@/types'
 
 // Mock the API services
 vi.mock('@/services/api', () => ({
@@ -10,8 +11,13 @@ vi.mock('@/services/api', () => ({
     list: vi.fn(),
     get: vi.fn(),
     generate: vi.fn(),
+    generateSeries: vi.fn(),
+    startGenerationJob: vi.fn(),
+    getGenerationJob: vi.fn(),
+    cancelGenerationJob: vi.fn(),
     publish: vi.fn(),
     updateSession: vi.fn(),
+    regenerate: vi.fn(),
     deleteSession: vi.fn(),
     createSession: vi.fn(),
     modifyByVoice: vi.fn(),
@@ -23,6 +29,18 @@ vi.mock('@/services/api', () => ({
   }
 }))
 
+vi.mock('@/services/generationJobs', () => ({
+  watchGenerationJob: vi.fn(),
+  toGenerationJobUpdate: vi.fn((job: { id: string; status: string; progress: number }) => ({
+    jobId: job.id,
+    status: job.status,
+    progress: job.progress,
+    message: null,
+    scheduleId: null,
+    error: null
+  }))
+}))
+
 describe('useSchedulesStore', () => {
   const mockSession: Session = {
     id: 'session-1',
@@ -231,12 +249,24 @@ describe('useSchedulesStore', () => {
   })
 
   describe('generateSchedule', () => {
+    const mockQuality = {
+      score: 90,
+      components: {
+        preferredTime: { score: 0.8, hits: 8, total: 10 },
+        genderPreference: { score: 1, hits: 4, total: 4 },
+        continuity: { score: null, hits: 0, total: 0 },
+        spread: { score: null, hits: 0, total: 0 }
+      }
+    }
+
     it('should generate a new schedule', async () => {
       const response = {
         data: mockScheduleWithSessions,
         meta: {
           stats: { totalSessions: 10, patientsScheduled: 5, therapistsUsed: 3 },
-          warnings: []
+          quality: mockQuality,
+          warnings: [],
+          engine: 'ai' as const
         }
       }
       vi.mocked(scheduleService.generate).mockResolvedValue(response)
@@ -251,6 +281,23 @@ describe('useSchedulesStore', () => {
       expect(result).toEqual(response)
     })
 
+    it('should pass an explicit scheduling engine', async () => {
+      vi.mocked(scheduleService.generate).mockResolvedValue({
+        data: mockScheduleWithSessions,
+        meta: {
+          stats: { totalSessions: 10, patientsScheduled: 5, therapistsUsed: 3 },
+          quality: mockQuality,
+          warnings: [],
+          engine: 'solver'
+        }
+      })
+
+      const store = useSchedulesStore()
+      await store.generateSchedule('2024-01-15', 'solver')
+
+      expect(scheduleService.generate).toHaveBeenCalledWith('2024-01-15', 'solver')
+    })
+
     it('should set generating state during generation', async () => {
       let resolvePromise: (value: unknown) => void
       const promise = new Promise((resolve) => {
@@ -280,6 +327,150 @@ describe('useSchedulesStore', () => {
     })
   })
 
+  describe('generateScheduleInBackground', () => {
+    const queuedJob: ScheduleGenerationJob = {
+      id: 'job-1',
+      organizationId: 'org-1',
+      weekStartDate: '2024-01-15',
+      engine: null,
+      status: 'queued',
+      progress: 0,
+      message: 'Waiting to start',
+      scheduleId: null,
+      result: null,
+      error: null,
+      createdAt: '2024-01-01T00:00:00Z',
+      startedAt: null,
+      finishedAt: null
+    }
+
+    function update(overrides: Partial<GenerationJobUpdate>): GenerationJobUpdate {
+      return { jobId: 'job-1', status: 'running', progress: 0, message: null, scheduleId: null, error: null, ...overrides }
+    }
+
+    // Replays the given updates and finishes with the last one
+    function mockJobUpdates(updates: GenerationJobUpdate[]) {
+      vi.mocked(watchGenerationJob).mockImplementation((_jobId, onUpdate) => {
+        updates.forEach(onUpdate)
+        return { finished: Promise.resolve(updates[updates.length - 1]), stop: vi.fn() }
+      })
+    }
+
+    beforeEach(() => {
+      vi.mocked(scheduleService.startGenerationJob).mockResolvedValue({ data: queuedJob })
+    })
+
+    it('follows the job and loads the generated schedule', async () => {
+      const result = {
+        engine: 'solver' as const,
+        stats: { totalSessions: 1, patientsScheduled: 1, therapistsUsed: 1 },
+        quality: {
+          score: 100,
+          components: {
+            preferredTime: { score: null, hits: 0, total: 0 },
+            genderPreference: { score: null, hits: 0, total: 0 },
+            continuity: { score: 1, hits: 1, total: 1 },
+            spread: { score: null, hits: 0, total: 0 }
+          }
+        },
+        warnings: []
+      }
+      const seen: number[] = []
+      mockJobUpdates([
+        update({ progress: 50 }),
+        update({ status: 'done', progress: 100, scheduleId: 'schedule-1' })
+      ])
+      vi.mocked(scheduleService.get).mockResolvedValue({ data: mockScheduleWithSessions })
+      vi.mocked(scheduleService.getGenerationJob).mockResolvedValue({
+        data: { ...queuedJob, status: 'done', progress: 100, scheduleId: 'schedule-1', result }
+      })
+
+      const store = useSchedulesStore()
+      store.$subscribe(() => {
+        if (store.generationJob) seen.push(store.generationJob.progress)
+      }, { flush: 'sync' })
+      const response = await store.generateScheduleInBackground('2024-01-15', 'solver')
+
+      expect(scheduleService.startGenerationJob).toHaveBeenCalledWith('2024-01-15', 'solver')
+      expect(seen).toContain(50)
+      expect(store.generationJob?.status).toBe('done')
+      expect(store.currentSchedule).toEqual(mockScheduleWithSessions)
+      expect(store.totalCount).toBe(1)
+      expect(response?.meta).toEqual(result)
+      expect(store.generating).toBe(false)
+    })
+
+    it('resolves with null when the job is cancelled', async () => {
+      mockJobUpdates([update({ status: 'cancelled' })])
+
+      const store = useSchedulesStore()
+      const response = await store.generateScheduleInBackground('2024-01-15')
+
+      expect(response).toBeNull()
+      expect(store.schedules).toEqual([])
+      expect(scheduleService.get).not.toHaveBeenCalled()
+    })
+
+    it('throws the job error when generation fails', async () => {
+      mockJobUpdates([update({ status: 'failed', error: 'No active staff members found' })])
+
+      const store = useSchedulesStore()
+      await expect(store.generateScheduleInBackground('2024-01-15')).rejects.toThrow('No active staff members found')
+
+      expect(store.error).toBe('No active staff members found')
+      expect(store.generating).toBe(false)
+    })
+  })
+
+  describe('cancelGeneration', () => {
+    it('cancels the current job', async () => {
+      vi.mocked(scheduleService.startGenerationJob).mockResolvedValue({
+        data: { id: 'job-1', status: 'queued', progress: 0 } as ScheduleGenerationJob
+      })
+      vi.mocked(watchGenerationJob).mockReturnValue({ finished: new Promise(() => {}), stop: vi.fn() })
+
+      const store = useSchedulesStore()
+      void store.generateScheduleInBackground('2024-01-15')
+      await vi.waitFor(() => expect(store.generationJob).not.toBeNull())
+      await store.cancelGeneration()
+
+      expect(scheduleService.cancelGenerationJob).toHaveBeenCalledWith('job-1')
+    })
+  })
+
+  describe('generateScheduleSeries', () => {
+    it('adds only the newly generated weeks', async () => {
+      const nextWeek: Schedule = { ...mockSchedule, id: 'schedule-3', weekStartDate: '2024-01-22' }
+      vi.mocked(scheduleService.generateSeries).mockResolvedValue({
+        data: [mockSchedule, nextWeek],
+        meta: {
+          weeks: [
+            { weekStartDate: '2024-01-15', scheduleId: 'schedule-1', generated: false, warnings: [] },
+            { weekStartDate: '2024-01-22', scheduleId: 'schedule-3', generated: true, warnings: [] }
+          ]
+        }
+      })
+
+      const store = useSchedulesStore()
+      const result = await store.generateScheduleSeries('2024-01-15', 2, 'solver')
+
+      expect(scheduleService.generateSeries).toHaveBeenCalledWith('2024-01-15', 2, 'solver')
+      expect(store.schedules).toEqual([nextWeek])
+      expect(store.totalCount).toBe(1)
+      expect(result.meta?.weeks).toHaveLength(2)
+      expect(store.generating).toBe(false)
+    })
+
+    it('should set error on failure', async () => {
+      vi.mocked(scheduleService.generateSeries).mockRejectedValue(new Error('Generation failed'))
+
+      const store = useSchedulesStore()
+      await expect(store.generateScheduleSeries('2024-01-15', 4)).rejects.toThrow('Generation failed')
+
+      expect(store.error).toBe('Generation failed')
+    })
+  })
+
   describe('publishSchedule', () => {
     it('should publish a schedule', async () => {
       const publishedSchedule = { ...mockSchedule, status: 'published' as const, publishedAt: '2024-01-10T00:00:00Z' }
@@ -351,6 +542,72 @@ describe('useSchedulesStore', () => {
     })
   })
 
+  describe('setSessionLocked', () => {
+    it('locks the session and keeps its joined fields', async () => {
+      vi.mocked(scheduleService.updateSession).mockResolvedValue({
+        data: { ...mockSession, therapistName: undefined, locked: true }
+      })
+
+      const store = useSchedulesStore()
+      store.currentSchedule = { ...mockScheduleWithSessions, sessions: [{ ...mockSession }] }
+
+      await store.setSessionLocked('session-1', true)
+
+      expect(scheduleService.updateSession).toHaveBeenCalledWith('schedule-1', 'session-1', { locked: true })
+      expect(store.currentSchedule?.sessions[0].locked).toBe(true)
+      expect(store.currentSchedule?.sessions[0].therapistName).toBe('Dr. Smith')
+      expect(store.loading).toBe(false)
+    })
+  })
+
+  describe('regenerateSchedule', () => {
+    it('replaces the current schedule with the regenerated draft', async () => {
+      const regenerated = {
+        ...mockSchedule,
+        sessions: [{ ...mockSession, locked: true }, { ...mockSession, id: 'session-2' }]
+      }
+      vi.mocked(scheduleService.regenerate).mockResolvedValue({
+        data: regenerated,
+        meta: {
+          engine: 'solver' as const,
+          stats: { totalSessions: 1, patientsScheduled: 1, therapistsUsed: 1 },
+          quality: {
+            score: 80,
+            components: {
+              preferredTime: { score: 1, hits: 2, total: 2 },
+              genderPreference: { score: null, hits: 0, total: 0 },
+              continuity: { score: 0.5, hits: 1, total: 2 },
+              spread: { score: null, hits: 0, total: 0 }
+            }
+          },
+          warnings: [],
+          lockedSessions: 1
+        }
+      })
+
+      const store = useSchedulesStore()
+      store.schedules = [mockSchedule]
+      store.currentSchedule = { ...mockScheduleWithSessions }
+
+      const result = await store.regenerateSchedule('schedule-1')
+
+      expect(scheduleService.regenerate).toHaveBeenCalledWith('schedule-1', undefined)
+      expect(store.currentSchedule?.sessions).toHaveLength(2)
+      expect(store.schedules[0]).toEqual(regenerated)
+      expect(result.meta?.lockedSessions).toBe(1)
+      expect(store.regenerating).toBe(false)
+    })
+
+    it('should set error on failure', async () => {
+      vi.mocked(scheduleService.regenerate).mockRejectedValue(new Error('Only draft schedules can be regenerated'))
+
+      const store = useSchedulesStore()
+      await expect(store.regenerateSchedule('schedule-2')).rejects.toThrow('Only draft schedules can be regenerated')
+
+      expect(store.error).toBe('Only draft schedules can be regenerated')
+    })
+  })
+
   describe('deleteSession', () => {
     it('should delete a session from current schedule', async () => {
       vi.mocked(scheduleService.deleteSession).mockResolvedValue(undefined)
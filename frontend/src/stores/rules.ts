@@ -1,6 +1,14 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
-import type { Rule, RuleCategory, ParsedRuleItem, ParsedMultiRuleResponse, RuleAnalysisResult } from '@/types'
+import type {
+  Rule,
+  RuleCategory,
+  RuleCategorySchema,
+  RuleSchemaCatalog,
+  ParsedRuleItem,
+  ParsedMultiRuleResponse,
+  RuleAnalysisResult
+} from '@/types'
 import { rulesService, voiceService } from '@/services/api'
 
 // Simple ID generator
@@ -8,6 +16,19 @@ function generateId(): string {
   return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15)
 }
 
+// Surfaces rule logic validation details returned by the API
+function ruleErrorMessage(e: unknown, fallback: string): string {
+  const err = e as {
+    response?: { data?: { error?: string; details?: Array<{ field: string; message: string }> } }
+    message?: string
+  }
+  const data = err.response?.data
+  if (data?.error && Array.isArray(data.details) && data.details.length > 0) {
+    return `${data.error}: ${data.details.map((d) => `${d.field} - ${d.message}`).join('; ')}`
+  }
+  return data?.error || err.message || fallback
+}
+
 export const useRulesStore = defineStore('rules', () => {
   const rules = ref<Rule[]>([])
   const loading = ref(false)
@@ -20,6 +41,9 @@ export const useRulesStore = defineStore('rules', () => {
   const globalWarnings = ref<string[]>([])
   const parsing = ref(false)
 
+  // Rule logic schema catalog
+  const schema = ref<RuleSchemaCatalog | null>(null)
+
   // Rule analysis state
   const analysisResult = ref<RuleAnalysisResult | null>(null)
   const analyzing = ref(false)
@@ -83,7 +107,7 @@ export const useRulesStore = defineStore('rules', () => {
       totalCount.value++
       return response.data
     } catch (e) {
-      error.value = e instanceof Error ? e.message : 'Failed to create rule'
+      error.value = ruleErrorMessage(e, 'Failed to create rule')
       throw e
     } finally {
       loading.value = false
@@ -101,13 +125,25 @@ export const useRulesStore = defineStore('rules', () => {
       }
       return response.data
     } catch (e) {
-      error.value = e instanceof Error ? e.message : 'Failed to update rule'
+      error.value = ruleErrorMessage(e, 'Failed to update rule')
       throw e
     } finally {
       loading.value = false
     }
   }
 
+  // The catalog only changes with the API version, so it is loaded once
+  async function fetchSchema() {
+    if (schema.value) return schema.value
+    const response = await rulesService.getSchema()
+    schema.value = response.data
+    return response.data
+  }
+
+  function getCategorySchema(category: RuleCategory | undefined): RuleCategorySchema | null {
+    return schema.value?.categories.find((c) => c.category === category) ?? null
+  }
+
   async function deleteRule(id: string) {
     loading.value = true
     error.value = null
@@ -146,7 +182,8 @@ export const useRulesStore = defineStore('rules', () => {
           'session',
           'availability',
           'specific_pairing',
-          'certification'
+          'certification',
+          'supervision'
         ]
 
         pendingRules.value = parsed.rules.map((rule) => ({
@@ -273,7 +310,7 @@ export const useRulesStore = defineStore('rules', () => {
 
       return createdRules
     } catch (e) {
-      error.value = e instanceof Error ? e.message : 'Failed to create rules'
+      error.value = ruleErrorMessage(e, 'Failed to create rules')
       throw e
     } finally {
       loading.value = false
@@ -391,6 +428,11 @@ export const useRulesStore = defineStore('rules', () => {
     toggleRule,
     parseVoiceCommand,
 
+    // Rule logic schema
+    schema,
+    fetchSchema,
+    getCategorySchema,
+
     // Multi-rule support
     pendingRules,
     originalTranscript,
@@ -1,7 +1,8 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
-import type { Schedule, Session } from '@/types'
+import type { Schedule, Session, SchedulingEngine, GenerationJobUpdate } from '@/types'
 import { scheduleService, voiceService } from '@/services/api'
+import { watchGenerationJob, toGenerationJobUpdate } from '@/services/generationJobs'
 import type { ScheduleModification, VoiceModifyResult, CopyModifications } from '@/services/api'
 
 export const useSchedulesStore = defineStore('schedules', () => {
@@ -11,8 +12,11 @@ export const useSchedulesStore = defineStore('schedules', () => {
   const generating = ref(false)
   const publishing = ref(false)
   const creatingDraft = ref(false)
+  const regenerating = ref(false)
   const error = ref<string | null>(null)
   const totalCount = ref(0)
+  // Latest progress of the background generation job, if one was started
+  const generationJob = ref<GenerationJobUpdate | null>(null)
 
   // Voice modification state
   const pendingModification = ref<ScheduleModification | null>(null)
@@ -74,11 +78,13 @@ export const useSchedulesStore = defineStore('schedules', () => {
     }
   }
 
-  async function generateSchedule(weekStartDate: string) {
+  async function generateSchedule(weekStartDate: string, engine?: SchedulingEngine) {
     generating.value = true
     error.value = null
     try {
-      const response = await scheduleService.generate(weekStartDate)
+      const response = engine
+        ? await scheduleService.generate(weekStartDate, engine)
+        : await scheduleService.generate(weekStartDate)
       currentSchedule.value = response.data
       schedules.value.push(response.data)
       totalCount.value++
@@ -92,6 +98,72 @@ export const useSchedulesStore = defineStore('schedules', () => {
     }
   }
 
+  // Generate as a background job, following its progress in generationJob.
+  // Resolves with null if the job is cancelled.
+  async function generateScheduleInBackground(weekStartDate: string, engine?: SchedulingEngine) {
+    generating.value = true
+    error.value = null
+    generationJob.value = null
+    try {
+      const { data: job } = await scheduleService.startGenerationJob(weekStartDate, engine)
+      generationJob.value = toGenerationJobUpdate(job)
+
+      const finished = await watchGenerationJob(job.id, (update) => {
+        generationJob.value = update
+      }).finished
+
+      if (finished.status === 'cancelled') {
+        return null
+      }
+      if (finished.status === 'failed' || !finished.scheduleId) {
+        throw new Error(finished.error || 'Failed to generate schedule')
+      }
+
+      const [scheduleResponse, jobResponse] = await Promise.all([
+        scheduleService.get(finished.scheduleId),
+        scheduleService.getGenerationJob(job.id)
+      ])
+      currentSchedule.value = scheduleResponse.data
+      schedules.value.push(scheduleResponse.data)
+      totalCount.value++
+      return { data: scheduleResponse.data, meta: jobResponse.data.result }
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to generate schedule'
+      throw e
+    } finally {
+      generating.value = false
+    }
+  }
+
+  async function cancelGeneration() {
+    if (!generationJob.value) return
+    try {
+      await scheduleService.cancelGenerationJob(generationJob.value.jobId)
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to cancel generation'
+      throw e
+    }
+  }
+
+  async function generateScheduleSeries(weekStartDate: string, weeks: number, engine?: SchedulingEngine) {
+    generating.value = true
+    error.value = null
+    try {
+      const response = await scheduleService.generateSeries(weekStartDate, weeks, engine)
+      // Weeks that already had a schedule are returned unchanged
+      const generatedIds = new Set(response.meta?.weeks.filter((w) => w.generated).map((w) => w.scheduleId))
+      const generated = response.data.filter((s) => generatedIds.has(s.id))
+      schedules.value.push(...generated)
+      totalCount.value += generated.length
+      return response
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to generate schedules'
+      throw e
+    } finally {
+      generating.value = false
+    }
+  }
+
   async function publishSchedule(id: string) {
     publishing.value = true
     error.value = null
@@ -135,6 +207,48 @@ export const useSchedulesStore = defineStore('schedules', () => {
     }
   }
 
+  // Lock or unlock a session without reloading the schedule
+  async function setSessionLocked(sessionId: string, locked: boolean) {
+    if (!currentSchedule.value) {
+      throw new Error('No current schedule')
+    }
+
+    error.value = null
+    try {
+      const response = await scheduleService.updateSession(currentSchedule.value.id, sessionId, { locked })
+      const session = currentSchedule.value.sessions.find((s) => s.id === sessionId)
+      if (session) {
+        session.locked = response.data.locked
+      }
+      return response.data
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to update session'
+      throw e
+    }
+  }
+
+  // Regenerate a draft, keeping its locked sessions
+  async function regenerateSchedule(id: string, engine?: SchedulingEngine) {
+    regenerating.value = true
+    error.value = null
+    try {
+      const response = await scheduleService.regenerate(id, engine)
+      const index = schedules.value.findIndex((s) => s.id === id)
+      if (index !== -1) {
+        schedules.value[index] = response.data
+      }
+      if (currentSchedule.value?.id === id) {
+        currentSchedule.value = response.data
+      }
+      return response
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to regenerate schedule'
+      throw e
+    } finally {
+      regenerating.value = false
+    }
+  }
+
   async function exportToPdf(id: string) {
     try {
       const blob = await scheduleService.exportPdf(id)
@@ -240,6 +354,11 @@ export const useSchedulesStore = defineStore('schedules', () => {
         if (sessionIndex !== -1) {
           currentSchedule.value.sessions[sessionIndex] = response.data.session
         }
+      } else if (response.data.action === 'locked' || response.data.action === 'unlocked') {
+        const session = currentSchedule.value.sessions.find((s) => s.id === response.data.session.id)
+        if (session) {
+          session.locked = response.data.session.locked
+        }
       } else if (response.data.action === 'created') {
         // Add the new session to local state
         currentSchedule.value.sessions.push(response.data.session)
@@ -344,8 +463,10 @@ export const useSchedulesStore = defineStore('schedules', () => {
     generating,
     publishing,
     creatingDraft,
+    regenerating,
     error,
     totalCount,
+    generationJob,
     publishedSchedules,
     draftSchedules,
     currentWeekSchedule,
@@ -361,9 +482,14 @@ export const useSchedulesStore = defineStore('schedules', () => {
     fetchSchedules,
     fetchScheduleById,
     generateSchedule,
+    generateScheduleSeries,
+    generateScheduleInBackground,
+    cancelGeneration,
     publishSchedule,
     createDraftCopy,
     updateSession,
+    setSessionLocked,
+    regenerateSchedule,
     deleteSession,
     createSession,
     exportToPdf,
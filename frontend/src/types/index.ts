@@ -118,6 +118,8 @@ export interface Patient {
   gender: 'male' | 'female' | 'other'
   sessionFrequency: number // sessions per week
   preferredTimes: string[] | null
+  // Hard limits on when the patient can attend; null means any time
+  availability?: PatientAvailability | null
   requiredCertifications: string[]
   preferredRoomId: string | null
   requiredRoomCapabilities: string[]
@@ -134,6 +136,23 @@ export interface Patient {
   guardianEmail?: string
 }
 
+// A missing or null weekday means the patient can't attend that day
+export interface PatientAvailability {
+  weekly: Partial<Record<'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday', TimeRange | null>>
+  exceptions?: PatientAvailabilityException[]
+}
+
+// Replaces the weekly windows over a date range (school holidays, trips)
+export interface PatientAvailabilityException {
+  startDate: string
+  endDate: string
+  available: boolean
+  // Only when available for part of the day
+  start?: string
+  end?: string
+  reason?: string
+}
+
 // Rule
 export type RuleCategory =
   | 'gender_pairing'
@@ -141,6 +160,7 @@ export type RuleCategory =
   | 'availability'
   | 'specific_pairing'
   | 'certification'
+  | 'supervision'
   | 'scheduling'
   | 'custom'
 
@@ -157,6 +177,46 @@ export interface Rule {
   updatedAt: string
 }
 
+// Rule logic schema catalog (GET /rules/schema)
+export type RuleFieldType =
+  | 'string'
+  | 'integer'
+  | 'boolean'
+  | 'time'
+  | 'enum'
+  | 'staff'
+  | 'patient'
+  | 'string_list'
+  | 'integer_list'
+  | 'day_list'
+  | 'date_list'
+
+export interface RuleFieldDescriptor {
+  key: string
+  type: RuleFieldType
+  label: string
+  description: string
+  options?: string[]
+  min?: number
+  max?: number
+  types?: string[]
+  requiredFor?: string[]
+}
+
+export interface RuleCategorySchema {
+  category: RuleCategory
+  label: string
+  description: string
+  types?: string[]
+  requires?: string[]
+  fields: RuleFieldDescriptor[]
+}
+
+export interface RuleSchemaCatalog {
+  version: number
+  categories: RuleCategorySchema[]
+}
+
 // Parsed rule item from voice input (for multi-rule parsing)
 export type PendingRuleStatus = 'pending' | 'confirmed' | 'rejected' | 'editing'
 
@@ -198,10 +258,140 @@ export interface Schedule {
   createdAt: string
   publishedAt: string | null
   version: number
+  // Quality of the generated schedule, null for schedules created before scoring
+  qualityScore?: number | null
+  qualityBreakdown?: ScheduleQualityBreakdown | null
+  // Session specs generation left short, null for schedules that weren't generated
+  unmetDemand?: UnmetDemandReport | null
   // Optional joined data (populated when fetching with sessions)
   sessions?: Session[]
 }
 
+// Schedule quality (0-1 per component, null when there is nothing to measure)
+export interface QualityComponent {
+  score: number | null
+  hits: number
+  total: number
+}
+
+export interface ScheduleQualityBreakdown {
+  preferredTime: QualityComponent
+  genderPreference: QualityComponent
+  continuity: QualityComponent
+  spread: QualityComponent
+}
+
+export interface ScheduleQuality {
+  score: number
+  components: ScheduleQualityBreakdown
+}
+
+// Sessions kept with a therapist the patient saw in prior published schedules
+export interface ContinuityOfCareStats {
+  matched: number
+  total: number
+  rate: number | null
+}
+
+export interface ScheduleGenerationStats {
+  totalSessions: number
+  patientsScheduled: number
+  therapistsUsed: number
+  continuityOfCare?: ContinuityOfCareStats
+}
+
+// Background schedule generation
+export type GenerationJobStatus = 'queued' | 'running' | 'validating' | 'done' | 'failed' | 'cancelled'
+
+// Why a session spec got fewer sessions than requested
+export type UnmetDemandReason =
+  | 'no_certified_therapist'
+  | 'no_capable_room'
+  | 'clinic_closed'
+  | 'patient_unavailable'
+  | 'patient_booked'
+  | 'no_therapist_free'
+  | 'no_room_free'
+  | 'authorization'
+  | 'rule_conflict'
+  | 'open_slots'
+
+export interface BindingConstraint {
+  reason: UnmetDemandReason
+  message: string
+  // Slots of the week the constraint ruled out; 0 when it rules out the whole spec
+  slots: number
+}
+
+export interface UnmetDemandExplanation {
+  patientId: string
+  patientName: string
+  sessionSpecId: string
+  sessionSpecName: string
+  requested: number
+  scheduled: number
+  missing: number
+  slotsChecked: number
+  constraints: BindingConstraint[]
+  suggestions: string[]
+}
+
+export interface UnmetDemandReport {
+  requestedSessions: number
+  scheduledSessions: number
+  missingSessions: number
+  specs: UnmetDemandExplanation[]
+}
+
+export interface ScheduleGenerationResult {
+  engine: SchedulingEngine
+  stats: ScheduleGenerationStats
+  quality: ScheduleQuality
+  warnings: string[]
+  unmetDemand?: UnmetDemandReport
+}
+
+export interface ScheduleGenerationJob {
+  id: string
+  organizationId: string
+  weekStartDate: string
+  engine: SchedulingEngine | null
+  status: GenerationJobStatus
+  // 0-100 and a description of the current stage
+  progress: number
+  message: string | null
+  // Set once the job is done
+  scheduleId: string | null
+  result: ScheduleGenerationResult | null
+  error: string | null
+  createdAt: string
+  startedAt: string | null
+  finishedAt: string | null
+}
+
+// Progress update streamed while a generation job runs
+export interface GenerationJobUpdate {
+  jobId: string
+  status: GenerationJobStatus
+  progress: number
+  message: string | null
+  scheduleId: string | null
+  error: string | null
+}
+
+// Why the scheduler placed a session where it did
+export interface ExplanationReason {
+  code: string
+  message: string
+}
+
+export interface SessionExplanation {
+  satisfiedRules: Array<{ ruleId: string; description: string }>
+  brokenPreferences: Array<{ code: string; ruleId?: string; message: string }>
+  therapist: ExplanationReason[]
+  room: ExplanationReason[]
+}
+
 // Session Status
 export type SessionStatus =
   | 'scheduled'
@@ -249,6 +439,15 @@ export interface Session {
   // Confirmation tracking
   confirmedAt?: string | null
   confirmedById?: string | null
+  // Set by the scheduler, cleared when the session is moved by hand
+  explanation?: SessionExplanation | null
+  // Locked sessions stay in place when the schedule is regenerated
+  locked?: boolean
+  // Group sessions only: the most patients that can enroll, and who is enrolled
+  capacity?: number | null
+  participants?: SessionParticipant[]
+  // Supervisors and co-treaters present besides the therapist
+  staffAssignments?: SessionStaffAssignment[]
   // Joined fields from API
   therapistName?: string
   patientName?: string
@@ -258,6 +457,99 @@ export interface Session {
   staffId?: string
 }
 
+// A patient enrolled in a group session, with their own attendance
+export interface SessionParticipant {
+  id: string
+  sessionId: string
+  patientId: string
+  sessionSpecId: string | null
+  status: SessionStatus
+  statusUpdatedAt: string | null
+  createdAt: string
+  patientName?: string
+}
+
+export type SessionStaffRole = 'supervisor' | 'co_treater'
+
+// A staff member attending a session besides its therapist
+export interface SessionStaffAssignment {
+  id: string
+  sessionId: string
+  staffId: string
+  role: SessionStaffRole
+  createdAt: string
+  staffName?: string
+}
+
+// One supervised therapist's week under a supervision rule
+export interface SupervisionSummary {
+  ruleId: string
+  staffId: string
+  staffName: string
+  weekStartDate: string
+  supervisorCertification: string
+  minimumPercent: number
+  directMinutes: number
+  supervisedMinutes: number
+  requiredMinutes: number
+  met: boolean
+}
+
+// Schedule version history: a snapshot is stored each time a schedule is published
+export interface ScheduleSnapshotSession {
+  id: string
+  therapistId: string
+  therapistName: string | null
+  patientId: string
+  patientName: string | null
+  sessionSpecId: string | null
+  roomId: string | null
+  roomName: string | null
+  date: string
+  startTime: string
+  endTime: string
+  status: string
+}
+
+export interface ScheduleVersionSummary {
+  id: string
+  scheduleId: string | null
+  version: number
+  publishedAt: string
+  publishedById: string | null
+  sessionCount: number
+}
+
+// One side of a diff: a snapshot, or a schedule as it is now (snapshotId null)
+export interface ScheduleVersionRef {
+  snapshotId: string | null
+  scheduleId: string | null
+  version: number
+  publishedAt: string | null
+}
+
+export type ScheduleSessionChange = 'moved' | 'reassigned' | 'status'
+
+export interface ScheduleDiff {
+  from: ScheduleVersionRef
+  to: ScheduleVersionRef
+  added: ScheduleSnapshotSession[]
+  removed: ScheduleSnapshotSession[]
+  changed: {
+    before: ScheduleSnapshotSession
+    after: ScheduleSnapshotSession
+    changes: ScheduleSessionChange[]
+  }[]
+  summary: {
+    added: number
+    removed: number
+    moved: number
+    reassigned: number
+    statusChanged: number
+    unchanged: number
+  }
+}
+
 // Room
 export interface Room {
   id: string
@@ -302,6 +594,177 @@ export interface StaffAvailabilityWithStaff extends StaffAvailability {
   staffEmail: string | null
 }
 
+// Custom holiday (clinic closure) set by the organization
+export interface Holiday {
+  id: string
+  organizationId: string
+  name: string
+  date: string
+  reason: string | null
+  // Partial-day closure; both null when closed all day
+  startTime: string | null
+  endTime: string | null
+  // Closed on this month and day every year
+  recurring: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+// A US federal holiday on the date it is observed
+export interface FederalHoliday {
+  name: string
+  date: string
+}
+
+// A federal or custom holiday falling on a specific date
+export interface ClinicClosure {
+  date: string
+  name: string
+  startTime: string | null
+  endTime: string | null
+}
+
+export type AuthorizationPeriod = 'week' | 'month' | 'total'
+
+// Payer authorization for a patient's sessions, with the balance of its current period
+export interface PatientAuthorization {
+  id: string
+  organizationId: string
+  patientId: string
+  // Null when it covers all of the patient's sessions
+  sessionSpecId: string | null
+  payer: string
+  authNumber: string
+  approvedUnits: number
+  unitMinutes: number
+  // Whether the approved units renew each week or month, or cover the whole range
+  period: AuthorizationPeriod
+  startDate: string
+  endDate: string
+  notes: string | null
+  createdAt: string
+  updatedAt: string
+  patient: { id: string; name: string }
+  sessionSpec: { id: string; name: string } | null
+  periodStart: string
+  periodEnd: string
+  usedUnits: number
+  remainingUnits: number
+}
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'cancelled'
+
+export type WaitlistOfferStatus = 'pending' | 'claimed' | 'declined' | 'expired' | 'cancelled'
+
+export interface WaitlistOffer {
+  id: string
+  entryId: string
+  holdId: string
+  contactId: string
+  staffId: string
+  roomId: string | null
+  date: string
+  startTime: string
+  endTime: string
+  expiresAt: string
+  status: WaitlistOfferStatus
+}
+
+// A patient waiting for a slot a cancellation frees up
+export interface WaitlistEntry {
+  id: string
+  organizationId: string
+  patientId: string
+  sessionSpecId: string | null
+  // Constraints on the slots offered; empty/null = any
+  days: string[]
+  earliestTime: string | null
+  latestTime: string | null
+  staffId: string | null
+  requiredCertifications: string[]
+  durationMinutes: number | null
+  // Higher goes first; ties go to whoever joined first
+  priority: number
+  notes: string | null
+  status: WaitlistStatus
+  createdAt: string
+  updatedAt: string
+  patient: { id: string; name: string }
+  sessionSpec: { id: string; name: string; durationMinutes: number | null } | null
+  staff: { id: string; name: string } | null
+  // Open offers only
+  offers: WaitlistOffer[]
+}
+
+export type SeriesStatus = 'active' | 'ended' | 'cancelled'
+
+export type SeriesScope = 'this' | 'following' | 'all'
+
+// A standing slot that repeats on an RFC 5545 RRULE, booked ahead of time
+export interface AppointmentSeries {
+  id: string
+  organizationId: string
+  patientId: string
+  staffId: string
+  roomId: string | null
+  sessionSpecId: string | null
+  // e.g. FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20260630
+  rrule: string
+  startDate: string
+  startTime: string
+  endTime: string
+  notes: string | null
+  status: SeriesStatus
+  materializedThrough: string | null
+  splitFromId: string | null
+  createdAt: string
+  updatedAt: string
+  patient: { id: string; name: string }
+  staff: { id: string; name: string }
+  room: { id: string; name: string } | null
+  sessionSpec: { id: string; name: string } | null
+}
+
+// A session that clashes with a series occurrence
+export interface SeriesConflict {
+  sessionId: string
+  date: string
+  startTime: string
+  endTime: string
+  with: 'therapist' | 'patient' | 'room'
+}
+
+export interface SeriesBookingResult {
+  created: number
+  skipped: { date: string; reason: string }[]
+}
+
+export type NotificationChannel = 'email' | 'sms'
+
+export type NotificationStatus = 'queued' | 'sent' | 'failed' | 'bounced'
+
+// An email or text message in the delivery outbox; bodies are never sent to the client
+export interface Notification {
+  id: string
+  organizationId: string | null
+  channel: NotificationChannel
+  // Which message it is, e.g. session_reminder
+  kind: string
+  recipients: string[]
+  subject: string | null
+  sensitive: boolean
+  status: NotificationStatus
+  attempts: number
+  nextAttemptAt: string
+  lastError: string | null
+  providerMessageId: string | null
+  sentAt: string | null
+  // When the carrier confirmed a text message was delivered
+  deliveredAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
 // Organization Settings
 export interface BusinessHoursDay {
   open: boolean
@@ -317,8 +780,17 @@ export interface BusinessHours {
   friday: BusinessHoursDay
   saturday: BusinessHoursDay
   sunday: BusinessHoursDay
+  exceptions?: BusinessHoursException[]
 }
 
+// Replaces the weekday's hours on one date
+export interface BusinessHoursException extends BusinessHoursDay {
+  date: string
+  reason?: string | null
+}
+
+export type SchedulingEngine = 'ai' | 'solver'
+
 export interface OrganizationSettings {
   id: string
   organizationId: string
@@ -327,6 +799,17 @@ export interface OrganizationSettings {
   defaultSessionDuration: number
   slotInterval: number
   lateCancelWindowHours: number
+  schedulingEngine: SchedulingEngine
+  // Upcoming weeks kept drafted automatically (0 = off)
+  rollingHorizonWeeks: number
+  // How strongly generation keeps prior therapists, 0-100
+  continuityWeight: number
+  // Closed on US federal holidays
+  closeOnFederalHolidays: boolean
+  // Number or alphanumeric sender ID texts are sent from (null = provider default)
+  smsSenderId: string | null
+  // Country calling code for phone numbers entered without one, e.g. "1"
+  smsCountryCode: string
   createdAt: string
   updatedAt: string
 }
@@ -561,6 +1044,8 @@ export interface PortalSession {
   therapistName: string
   roomName: string | null
   status: SessionStatus | 'pending'
+  // Group sessions show the patient's own status and can't be changed from the portal
+  isGroupSession: boolean
   notes: string | null
   confirmedAt: string | null
   canCancel: boolean
@@ -607,6 +1092,16 @@ export interface PortalBookingHold {
   expiresAt: string
 }
 
+// Slot freed by a cancellation and held for the patient from the waitlist
+export interface PortalWaitlistOffer {
+  id: string
+  date: string
+  startTime: string
+  endTime: string
+  therapistName: string
+  expiresAt: string
+}
+
 // Portal booking settings
 export interface PortalBookingSettings {
   selfBookingEnabled: boolean
@@ -0,0 +1,45 @@
+/**
+ * Display helpers for patient availability windows
+ */
+
+import type { PatientAvailability, PatientAvailabilityException } from '@/types'
+
+export const AVAILABILITY_DAYS = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday'
+] as const
+
+export type AvailabilityDay = typeof AVAILABILITY_DAYS[number]
+
+/**
+ * One line per weekday the patient can attend, e.g. "Mon 15:00-18:00"
+ */
+export function describeWeeklyAvailability(availability: PatientAvailability | null | undefined): string[] {
+  if (!availability) return []
+  return AVAILABILITY_DAYS
+    .filter(day => availability.weekly[day])
+    .map(day => {
+      const window = availability.weekly[day]!
+      return `${day.charAt(0).toUpperCase()}${day.slice(1, 3)} ${window.start}-${window.end}`
+    })
+}
+
+/**
+ * Short description of an exception, e.g. "Dec 22 - Jan 2: any time (Winter break)"
+ */
+export function describeAvailabilityException(exception: PatientAvailabilityException): string {
+  const format = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+  const range = exception.startDate === exception.endDate
+    ? format(exception.startDate)
+    : `${format(exception.startDate)} - ${format(exception.endDate)}`
+  const hours = !exception.available
+    ? 'unavailable'
+    : exception.start && exception.end ? `${exception.start}-${exception.end}` : 'any time'
+  return `${range}: ${hours}${exception.reason ? ` (${exception.reason})` : ''}`
+}
@@ -0,0 +1,71 @@
+/**
+ * Build and describe the weekly recurrence rules (RRULEs) of appointment series
+ */
+
+import { AVAILABILITY_DAYS, type AvailabilityDay } from '@/utils/patientAvailability'
+
+const DAY_CODES: Record<AvailabilityDay, string> = {
+  monday: 'MO',
+  tuesday: 'TU',
+  wednesday: 'WE',
+  thursday: 'TH',
+  friday: 'FR',
+  saturday: 'SA',
+  sunday: 'SU'
+}
+
+export interface WeeklyRecurrence {
+  days: AvailabilityDay[]
+  // Every this many weeks
+  interval: number
+  // Last date (YYYY-MM-DD) or number of sessions; neither = no end
+  until?: string
+  count?: number
+}
+
+/**
+ * e.g. { days: ['monday', 'wednesday'], interval: 1, until: '2026-06-30' }
+ * becomes "FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20260630"
+ */
+export function buildWeeklyRRule(recurrence: WeeklyRecurrence): string {
+  const parts = ['FREQ=WEEKLY']
+  if (recurrence.interval > 1) parts.push(`INTERVAL=${recurrence.interval}`)
+  const days = AVAILABILITY_DAYS.filter(day => recurrence.days.includes(day))
+  if (days.length > 0) parts.push(`BYDAY=${days.map(day => DAY_CODES[day]).join(',')}`)
+  if (recurrence.count) parts.push(`COUNT=${recurrence.count}`)
+  else if (recurrence.until) parts.push(`UNTIL=${recurrence.until.replace(/-/g, '')}`)
+  return parts.join(';')
+}
+
+/**
+ * Short description of a rule, e.g. "Every other week on Mon, Wed until Jun 30, 2026"
+ */
+export function describeRRule(rrule: string): string {
+  const parts = new Map(
+    rrule.replace(/^RRULE:/i, '').split(';').map(part => part.split('=') as [string, string])
+  )
+  const interval = Number(parts.get('INTERVAL') ?? 1)
+  const unit = ({ DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' } as Record<string, string>)[parts.get('FREQ') ?? ''] ?? 'period'
+
+  let text = interval === 1 ? `Every ${unit}` : interval === 2 ? `Every other ${unit}` : `Every ${interval} ${unit}s`
+
+  const byDay = parts.get('BYDAY')
+  if (byDay) {
+    const names = byDay.split(',').map(code => {
+      const day = AVAILABILITY_DAYS.find(d => DAY_CODES[d] === code)
+      return day ? `${day.charAt(0).toUpperCase()}${day.slice(1, 3)}` : code
+    })
+    text += ` on ${names.join(', ')}`
+  }
+
+  const until = parts.get('UNTIL')
+  const count = parts.get('COUNT')
+  if (until) {
+    const date = `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`
+    text += ` until ${new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
+  } else if (count) {
+    text += `, ${count} times`
+  }
+
+  return text
+}